@@ -9,6 +9,8 @@ const withSerwist = withSerwistInit({
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
+  // pdfkit reads its font metrics from node_modules at runtime
+  serverExternalPackages: ['pdfkit'],
 }
 
 export default withSerwist(nextConfig)
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { BookOpen, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  CostCenterDialog,
+  CostCenterList,
+  JournalBatchDialog,
+  JournalBatchList,
+} from '@/components/accounting'
+import { useCostCenters } from '@/hooks/use-cost-centers'
+import { useJournalBatches } from '@/hooks/use-journal-batches'
+import { downloadJournalBatch } from '@/lib/export/download'
+import type { CostCenter, JournalBatch } from '@/types/accounting'
+
+function ListSkeleton() {
+  return (
+    <div className="space-y-2">
+      {[1, 2].map((i) => (
+        <Skeleton key={i} className="h-16 w-full" />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * AccountingPageContent - Client component for the accounting page
+ */
+export function AccountingPageContent() {
+  const [isCostCenterDialogOpen, setIsCostCenterDialogOpen] = useState(false)
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false)
+  const [selected, setSelected] = useState<CostCenter | null>(null)
+  const costCenters = useCostCenters()
+  const journalBatches = useJournalBatches()
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  const openCostCenterDialog = (costCenter: CostCenter | null) => {
+    setSelected(costCenter)
+    setIsCostCenterDialogOpen(true)
+  }
+
+  const handleDownload = async (batch: JournalBatch) => {
+    const result = await downloadJournalBatch(batch.id)
+    if (!result.success) {
+      toast.error(result.error || 'Gagal mengunduh jurnal')
+    }
+  }
+
+  const handleBatchCreated = async (batch: JournalBatch) => {
+    toast.success(`Batch ${batch.batchNumber} dibuat (${batch.entryCount} BKK)`)
+    journalBatches.refresh()
+    await handleDownload(batch)
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <BookOpen className="h-5 w-5 text-blue-600" />
+          </div>
+          <h1 className="text-xl font-bold text-slate-900">Akuntansi</h1>
+        </div>
+        <p className="text-sm text-slate-500 mt-2">
+          Setiap BKK menyimpan akun GL kategori dan pusat biaya job-nya, lalu diekspor sebagai jurnal.
+        </p>
+      </div>
+
+      {/* Journal batches */}
+      <div className="px-4 pt-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-slate-900">Batch Jurnal</h2>
+          <Button size="sm" onClick={() => setIsBatchDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Buat
+          </Button>
+        </div>
+        {journalBatches.isLoading ? (
+          <ListSkeleton />
+        ) : journalBatches.error ? (
+          <ErrorState message={journalBatches.error.message} onRetry={journalBatches.refresh} />
+        ) : (
+          <JournalBatchList batches={journalBatches.batches} onDownload={handleDownload} />
+        )}
+      </div>
+
+      {/* Cost centers */}
+      <div className="px-4 pt-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-slate-900">Pusat Biaya</h2>
+          <Button size="sm" variant="outline" onClick={() => openCostCenterDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Tambah
+          </Button>
+        </div>
+        {costCenters.isLoading ? (
+          <ListSkeleton />
+        ) : costCenters.error ? (
+          <ErrorState message={costCenters.error.message} onRetry={costCenters.refresh} />
+        ) : (
+          <CostCenterList costCenters={costCenters.costCenters} onSelect={openCostCenterDialog} />
+        )}
+      </div>
+
+      <JournalBatchDialog
+        open={isBatchDialogOpen}
+        onOpenChange={setIsBatchDialogOpen}
+        onCreated={handleBatchCreated}
+        onError={handleError}
+      />
+
+      <CostCenterDialog
+        open={isCostCenterDialogOpen}
+        onOpenChange={setIsCostCenterDialogOpen}
+        costCenter={selected}
+        onSaved={() => {
+          toast.success('Pusat biaya disimpan')
+          costCenters.refresh()
+        }}
+        onError={handleError}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { ACCOUNTING_ROLES } from '@/lib/accounting/roles'
+import { AccountingPageContent } from './AccountingPageContent'
+
+/**
+ * Accounting Page - Cost centers and journal batch exports
+ *
+ * Access restricted to finance roles (see ACCOUNTING_ROLES).
+ */
+export default async function AccountingPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Check user role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !ACCOUNTING_ROLES.includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return <AccountingPageContent />
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { Wallet, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AdvanceList, IssueAdvanceDialog, SettlementSheet } from '@/components/advances'
+import { useAdvanceList } from '@/hooks/use-advances'
+import { cn } from '@/lib/utils/cn'
+import type { CashAdvanceBalance } from '@/types/cash-advance'
+
+type AdvanceTab = 'own' | 'all'
+
+interface AdvancesPageContentProps {
+  /** Whether the user can issue and settle advances (finance roles) */
+  canManage: boolean
+}
+
+/**
+ * AdvancesPageContent - Client component for the advances page
+ */
+export function AdvancesPageContent({ canManage }: AdvancesPageContentProps) {
+  const [tab, setTab] = useState<AdvanceTab>(canManage ? 'all' : 'own')
+  const [selected, setSelected] = useState<CashAdvanceBalance | null>(null)
+  const [isIssueOpen, setIsIssueOpen] = useState(false)
+  const { advances, isLoading, error, refresh } = useAdvanceList({ allUsers: tab === 'all' })
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-100 rounded-lg">
+              <Wallet className="h-5 w-5 text-emerald-600" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900">Kasbon</h1>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={() => setIsIssueOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Buat Kasbon
+            </Button>
+          )}
+        </div>
+
+        {/* Tabs (finance roles only) */}
+        {canManage && (
+          <div className="flex gap-2 mt-4">
+            {(['all', 'own'] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={cn(
+                  'px-3 py-1.5 rounded-full text-sm font-medium transition-colors',
+                  tab === value
+                    ? 'bg-slate-900 text-white'
+                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                )}
+              >
+                {value === 'all' ? 'Semua Kasbon' : 'Kasbon Saya'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <ErrorState message={error.message} onRetry={refresh} />
+        ) : (
+          <AdvanceList advances={advances} showUser={tab === 'all'} onSelect={setSelected} />
+        )}
+      </div>
+
+      <SettlementSheet
+        advance={selected}
+        open={!!selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+        canSettle={canManage}
+        onSettled={() => {
+          toast.success('Kasbon berhasil diselesaikan')
+          refresh()
+        }}
+        onError={handleError}
+      />
+
+      {canManage && (
+        <IssueAdvanceDialog
+          open={isIssueOpen}
+          onOpenChange={setIsIssueOpen}
+          onIssued={(advanceNumber) => {
+            toast.success(`Kasbon ${advanceNumber} berhasil dibuat`)
+            refresh()
+          }}
+          onError={handleError}
+        />
+      )}
+    </div>
+  )
+}
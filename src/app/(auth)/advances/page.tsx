@@ -0,0 +1,31 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { ADVANCE_MANAGER_ROLES } from '@/lib/advances/roles'
+import { AdvancesPageContent } from './AdvancesPageContent'
+
+/**
+ * Advances Page - Cash advances (kasbon) and their settlement
+ *
+ * All users see their own advances. Finance roles can also issue
+ * advances and settle the advances of all users.
+ */
+export default async function AdvancesPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  const canManage = !!profile && ADVANCE_MANAGER_ROLES.includes(profile.role)
+
+  return <AdvancesPageContent canManage={canManage} />
+}
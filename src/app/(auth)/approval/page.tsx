@@ -1,11 +1,13 @@
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { APPROVER_ROLES } from '@/constants/approval-policy'
+import type { UserRole } from '@/types/supabase'
 import { ApprovalPageContent } from './ApprovalPageContent'
 
 /**
- * Approval Page - For finance roles to approve/reject expenses
+ * Approval Page - For approvers to approve/reject expenses
  * 
- * Access restricted to: owner, director, finance_manager
+ * Access restricted to roles in an approval step (see APPROVAL_POLICY)
  */
 export default async function ApprovalPage() {
   const supabase = await createClient()
@@ -24,9 +26,7 @@ export default async function ApprovalPage() {
     .eq('id', user.id)
     .single()
 
-  const allowedRoles = ['owner', 'director', 'finance_manager']
-  
-  if (!profile || !allowedRoles.includes(profile.role)) {
+  if (!profile || !APPROVER_ROLES.includes(profile.role as UserRole)) {
     redirect('/dashboard')
   }
 
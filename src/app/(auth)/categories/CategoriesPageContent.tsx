@@ -0,0 +1,82 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { Tags, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CategoryList, CategoryDialog } from '@/components/categories'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import type { ExpenseCategoryConfig } from '@/types/expense-category'
+
+/**
+ * CategoriesPageContent - Client component for the categories page
+ */
+export function CategoriesPageContent() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [selected, setSelected] = useState<ExpenseCategoryConfig | null>(null)
+  const { categories, isLoading, refresh } = useExpenseCategories()
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  const openDialog = (category: ExpenseCategoryConfig | null) => {
+    setSelected(category)
+    setIsDialogOpen(true)
+  }
+
+  // Place new categories before "Lainnya", which sorts last
+  const nextSortOrder =
+    categories
+      .filter((category) => category.code !== 'other')
+      .reduce((max, category) => Math.max(max, category.sortOrder), 0) + 10
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <Tags className="h-5 w-5 text-blue-600" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900">Kategori Pengeluaran</h1>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Tambah
+          </Button>
+        </div>
+        <p className="text-sm text-slate-500 mt-2">
+          Kategori dipakai saat mencatat pengeluaran dan tersedia offline setelah aplikasi tersinkron.
+        </p>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : (
+          <CategoryList categories={categories} onSelect={openDialog} />
+        )}
+      </div>
+
+      <CategoryDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        category={selected}
+        nextSortOrder={nextSortOrder}
+        onSaved={() => {
+          toast.success('Kategori disimpan')
+          refresh()
+        }}
+        onError={handleError}
+      />
+    </div>
+  )
+}
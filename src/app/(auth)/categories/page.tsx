@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { CATEGORY_MANAGER_ROLES } from '@/lib/categories/roles'
+import { CategoriesPageContent } from './CategoriesPageContent'
+
+/**
+ * Categories Page - Expense categories with their icon, color and GL account
+ *
+ * Access restricted to finance roles (see CATEGORY_MANAGER_ROLES).
+ */
+export default async function CategoriesPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Check user role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !CATEGORY_MANAGER_ROLES.includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return <CategoriesPageContent />
+}
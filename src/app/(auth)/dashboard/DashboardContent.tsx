@@ -5,6 +5,7 @@ import { useUser } from '@/hooks/use-user'
 import { useOnlineStatus } from '@/hooks/use-online-status'
 import { usePullToRefresh } from '@/hooks/use-pull-to-refresh'
 import { SummaryCards } from '@/components/dashboard/SummaryCards'
+import { AdvanceBalance } from '@/components/dashboard/AdvanceBalance'
 import { QuickActions } from '@/components/dashboard/QuickActions'
 import { DashboardSyncStatus } from '@/components/dashboard/DashboardSyncStatus'
 import { RecentExpenses } from '@/components/dashboard/RecentExpenses'
@@ -71,6 +72,9 @@ export function DashboardContent() {
         {/* Summary Cards */}
         <SummaryCards />
 
+        {/* Cash Advance Balance (only with open advances) */}
+        <AdvanceBalance />
+
         {/* Quick Actions */}
         <QuickActions />
 
@@ -7,6 +7,7 @@ import { DashboardContent } from './DashboardContent'
  * - Greeting with user name
  * - Offline indicator (if offline)
  * - Summary cards (today, week, month)
+ * - Remaining cash advance balance
  * - Quick actions (capture button + category shortcuts)
  * - Sync status
  * - Recent expenses
@@ -0,0 +1,208 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import {
+  ArrowLeft,
+  Briefcase,
+  Building2,
+  Calendar,
+  FileText,
+  MapPin,
+  RefreshCw,
+  User,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ApprovalTimeline } from '@/components/approval/ApprovalTimeline'
+import { ApprovalStatusBadge } from '@/components/history/ApprovalStatusBadge'
+import { LineItemsSummary, ReceiptMetadataSummary } from '@/components/ocr'
+import { PolicyViolationAlert } from '@/components/policies'
+import { PerDiemBadge } from '@/components/per-diem'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { useServerExpense } from '@/hooks/use-server-expense'
+import { createClient } from '@/lib/supabase/client'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+
+interface ExpenseViewContentProps {
+  expenseId: string
+}
+
+interface DetailRowProps {
+  icon: React.ReactNode
+  label: string
+  value: React.ReactNode
+}
+
+function DetailRow({ icon, label, value }: DetailRowProps) {
+  return (
+    <div className="flex items-start gap-3 py-3 border-b border-slate-100 last:border-0">
+      <div className="text-slate-400 mt-0.5">{icon}</div>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-slate-500 mb-0.5">{label}</p>
+        <div className="text-sm text-slate-900">{value}</div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * ExpenseViewContent - Client component for the expense view page
+ */
+export function ExpenseViewContent({ expenseId }: ExpenseViewContentProps) {
+  const router = useRouter()
+  const { expense, isLoading, error, refresh } = useServerExpense(expenseId)
+  const { getCategory } = useExpenseCategories()
+
+  const receiptUrl = expense?.receipt?.storage_path
+    ? createClient().storage.from('expense-receipts').getPublicUrl(expense.receipt.storage_path)
+        .data.publicUrl
+    : null
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.back()}
+            aria-label="Kembali"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="flex-1 text-xl font-bold text-slate-900 truncate">
+            Detail Pengeluaran
+          </h1>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => refresh()}
+            disabled={isLoading}
+            className="text-slate-600"
+          >
+            <RefreshCw className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4 space-y-4">
+        {isLoading && !expense ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : error || !expense ? (
+          <ErrorState message={error?.message} onRetry={refresh} />
+        ) : (
+          <>
+            {/* Amount, category and status */}
+            <div className="bg-white rounded-xl border border-slate-100 p-4 text-center space-y-2">
+              <p className="text-3xl font-bold text-slate-900">
+                {formatCurrency(expense.amount)}
+              </p>
+              <p className="text-sm text-slate-600">
+                {getCategory(expense.category).labelFull}
+              </p>
+              <div className="flex justify-center gap-2">
+                <ApprovalStatusBadge status={expense.approvalStatus} showLabel />
+                {expense.isPerDiem && <PerDiemBadge />}
+              </div>
+              {expense.bkkNumber && (
+                <p className="text-sm font-mono text-slate-500">{expense.bkkNumber}</p>
+              )}
+            </div>
+
+            {/* Spending policy violations */}
+            {expense.policyViolations && (
+              <PolicyViolationAlert violations={expense.policyViolations} compact />
+            )}
+
+            {/* Receipt Image */}
+            {receiptUrl && (
+              <div className="rounded-xl overflow-hidden border border-slate-200 bg-slate-50">
+                <img src={receiptUrl} alt="Struk" className="w-full object-contain max-h-[300px]" />
+              </div>
+            )}
+
+            {/* Details */}
+            <div className="bg-white rounded-xl border border-slate-100 px-4">
+              <DetailRow
+                icon={<User className="h-4 w-4" />}
+                label="Dicatat oleh"
+                value={expense.submitterName || expense.submitterEmail || '-'}
+              />
+              <DetailRow
+                icon={<Calendar className="h-4 w-4" />}
+                label="Tanggal"
+                value={formatDate(expense.expenseDate, 'long')}
+              />
+              {expense.vendorName && (
+                <DetailRow
+                  icon={<Building2 className="h-4 w-4" />}
+                  label="Vendor"
+                  value={expense.vendorName}
+                />
+              )}
+              {expense.description && (
+                <DetailRow
+                  icon={<FileText className="h-4 w-4" />}
+                  label="Catatan"
+                  value={expense.description}
+                />
+              )}
+              {expense.jobOrder ? (
+                <DetailRow
+                  icon={<Briefcase className="h-4 w-4" />}
+                  label="Job Order"
+                  value={
+                    <span>
+                      <span className="font-medium">{expense.jobOrder.job_number}</span>
+                      <span className="text-slate-500 ml-2">{expense.jobOrder.customer_name}</span>
+                    </span>
+                  }
+                />
+              ) : expense.isOverhead ? (
+                <DetailRow
+                  icon={<Briefcase className="h-4 w-4" />}
+                  label="Job Order"
+                  value={<span className="text-slate-500">Overhead</span>}
+                />
+              ) : null}
+              {expense.locationExplanation && (
+                <DetailRow
+                  icon={<MapPin className="h-4 w-4" />}
+                  label="Di luar rute job"
+                  value={expense.locationExplanation}
+                />
+              )}
+            </div>
+
+            {/* Details read from the receipt */}
+            {expense.receiptMetadata && (
+              <ReceiptMetadataSummary metadata={expense.receiptMetadata} />
+            )}
+
+            {/* Receipt itemization */}
+            {expense.lineItems && (
+              <LineItemsSummary
+                itemization={{
+                  lineItems: expense.lineItems,
+                  taxAmount: expense.taxAmount,
+                  serviceCharge: expense.serviceCharge,
+                }}
+                amount={expense.amount}
+              />
+            )}
+
+            {/* Approval History */}
+            <ApprovalTimeline expenseId={expense.id} />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
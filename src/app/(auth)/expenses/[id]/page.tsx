@@ -0,0 +1,28 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { ExpenseViewContent } from './ExpenseViewContent'
+
+interface ExpenseViewPageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Expense View Page - Read-only detail of a synced expense
+ *
+ * Linked from duplicate warnings. Visibility follows RLS: users see
+ * their own expenses, managers and approvers also their team's.
+ */
+export default async function ExpenseViewPage({ params }: ExpenseViewPageProps) {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  const { id } = await params
+
+  return <ExpenseViewContent expenseId={id} />
+}
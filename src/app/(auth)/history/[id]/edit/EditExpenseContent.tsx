@@ -0,0 +1,86 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { ExpenseCaptureForm } from '@/components/organisms/ExpenseCaptureForm'
+import { getExpenseForEdit, isExpenseEditable } from '@/lib/db/operations'
+import type { VendorSuggestion } from '@/components/molecules/VendorInput'
+import type { LocalExpense } from '@/lib/db'
+
+interface EditExpenseContentProps {
+  /** Local ID or server ID of the expense */
+  expenseId: string
+  initialVendors?: VendorSuggestion[]
+}
+
+/**
+ * EditExpenseContent - Client component for the edit expense page
+ */
+export function EditExpenseContent({ expenseId, initialVendors }: EditExpenseContentProps) {
+  const router = useRouter()
+  const [expense, setExpense] = useState<LocalExpense | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadExpense = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const found = await getExpenseForEdit(expenseId)
+      if (!found) {
+        setError('Pengeluaran tidak ditemukan')
+      } else if (!isExpenseEditable(found)) {
+        setError('Pengeluaran yang sudah diajukan tidak dapat diubah')
+      } else {
+        setExpense(found)
+      }
+    } catch (err) {
+      console.error('Failed to load expense for edit:', err)
+      setError('Gagal memuat pengeluaran')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [expenseId])
+
+  useEffect(() => {
+    loadExpense()
+  }, [loadExpense])
+
+  return (
+    <div className="px-4 py-6">
+      {/* Header */}
+      <div className="mb-6 flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => router.back()}
+          aria-label="Kembali"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-xl font-bold text-slate-900">Ubah Pengeluaran</h1>
+          <p className="mt-1 text-sm text-slate-500">Perbaiki detail pengeluaran</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : error || !expense ? (
+        <ErrorState message={error ?? undefined} onRetry={loadExpense} />
+      ) : (
+        <ExpenseCaptureForm
+          initialVendors={initialVendors}
+          expense={expense}
+          onSaved={() => router.push('/history')}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { createClient } from '@/lib/supabase/server'
+import { getRecentVendors } from '@/lib/queries/vendors'
+import { EditExpenseContent } from './EditExpenseContent'
+
+interface EditExpensePageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Edit Expense Page - Change a draft or rejected expense
+ *
+ * The expense itself is loaded client-side from IndexedDB so edits work offline.
+ */
+export default async function EditExpensePage({ params }: EditExpensePageProps) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  // Fetch recent vendors for suggestions
+  const recentVendors = user ? await getRecentVendors(user.id) : []
+
+  const { id } = await params
+
+  return <EditExpenseContent expenseId={id} initialVendors={recentVendors} />
+}
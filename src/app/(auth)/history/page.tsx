@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useMemo, useCallback, useEffect } from 'react'
-import { Filter, WifiOff, RefreshCw, Loader2 } from 'lucide-react'
+import { Filter, WifiOff, RefreshCw, Loader2, Download } from 'lucide-react'
 import { useExpenses } from '@/hooks/use-expenses'
 import { useOnlineStatus } from '@/hooks/use-online-status'
 import { usePullToRefresh } from '@/hooks/use-pull-to-refresh'
@@ -10,24 +10,24 @@ import {
   ExpenseList,
   SearchInput,
   FilterSheet,
+  ExportSheet,
   SummaryCard,
   ExpenseDetailSheet,
   countByCategory,
 } from '@/components/history'
 import type { ExpenseFilters, DisplayExpense } from '@/types/expense-filters'
+import { filtersToSearchParams, searchParamsToFilters } from '@/lib/export/params'
+import { countExpenseFilters, withoutSearch } from '@/lib/history/filters'
 import { cn } from '@/lib/utils/cn'
 
-/** Number of items to show per page */
-const PAGE_SIZE = 20
-
 export default function HistoryPage() {
   // Filter state
   const [filters, setFilters] = useState<ExpenseFilters>({})
   const [searchValue, setSearchValue] = useState('')
   const [isFilterOpen, setIsFilterOpen] = useState(false)
-
-  // Pagination state
-  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  // Filters are read from the URL (shared links) once mounted
+  const [isUrlRead, setIsUrlRead] = useState(false)
 
   // Detail sheet state
   const [selectedExpense, setSelectedExpense] = useState<DisplayExpense | null>(null)
@@ -45,41 +45,41 @@ export default function HistoryPage() {
     [filters, searchValue]
   )
 
-  // Fetch expenses with filters
-  const { expenses, isLoading, refresh, totalCount } = useExpenses(combinedFilters)
+  // Read filters from a shared link
+  useEffect(() => {
+    const urlFilters = searchParamsToFilters(new URLSearchParams(window.location.search))
+    setFilters(withoutSearch(urlFilters))
+    setSearchValue(urlFilters.search ?? '')
+    setIsUrlRead(true)
+  }, [])
 
-  // Paginated expenses
-  const visibleExpenses = useMemo(
-    () => expenses.slice(0, visibleCount),
-    [expenses, visibleCount]
-  )
+  // Keep the URL in sync so the current view can be shared or bookmarked
+  useEffect(() => {
+    if (!isUrlRead) return
+
+    const query = filtersToSearchParams(combinedFilters).toString()
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname)
+  }, [combinedFilters, isUrlRead])
 
-  const hasMore = visibleCount < expenses.length
+  // Fetch expenses with filters, a page at a time
+  const {
+    expenses,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    refresh,
+    totalCount,
+  } = useExpenses(combinedFilters)
 
   // Calculate category counts for filter
   const categoryCounts = useMemo(() => countByCategory(expenses), [expenses])
 
-  // Check if any filters are active
-  const hasActiveFilters = useMemo(() => {
-    return !!(
-      filters.dateFrom ||
-      filters.dateTo ||
-      (filters.categories && filters.categories.length > 0) ||
-      (filters.syncStatuses && filters.syncStatuses.length > 0) ||
-      (filters.approvalStatuses && filters.approvalStatuses.length > 0) ||
-      searchValue
-    )
-  }, [filters, searchValue])
-
   // Count active filter groups
-  const activeFilterCount = useMemo(() => {
-    return [
-      filters.dateFrom || filters.dateTo,
-      filters.categories && filters.categories.length > 0,
-      filters.syncStatuses && filters.syncStatuses.length > 0,
-      filters.approvalStatuses && filters.approvalStatuses.length > 0,
-    ].filter(Boolean).length
-  }, [filters])
+  const activeFilterCount = useMemo(() => countExpenseFilters(filters), [filters])
+
+  // Check if any filters are active
+  const hasActiveFilters = activeFilterCount > 0 || !!searchValue
 
   // Pull-to-refresh
   const handleRefresh = useCallback(async () => {
@@ -103,18 +103,6 @@ export default function HistoryPage() {
     setIsDetailOpen(true)
   }
 
-  /**
-   * Load more items
-   */
-  const handleLoadMore = () => {
-    setVisibleCount((prev) => prev + PAGE_SIZE)
-  }
-
-  // Reset pagination when filters change
-  useEffect(() => {
-    setVisibleCount(PAGE_SIZE)
-  }, [combinedFilters])
-
   return (
     <div className="min-h-screen bg-slate-50" {...containerProps}>
       {/* Pull-to-refresh indicator */}
@@ -148,18 +136,31 @@ export default function HistoryPage() {
             <div>
               <h1 className="text-xl font-bold text-slate-900">Riwayat</h1>
               <p className="text-sm text-slate-500 mt-0.5">
-                {totalCount} pengeluaran
+                {searchValue.trim()
+                  ? `${totalCount} hasil, paling relevan dulu`
+                  : `${totalCount} pengeluaran`}
               </p>
             </div>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => refresh()}
-              disabled={isLoading || isRefreshing}
-              className="text-slate-600"
-            >
-              <RefreshCw className={`h-5 w-5 ${isLoading || isRefreshing ? 'animate-spin' : ''}`} />
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsExportOpen(true)}
+                className="text-slate-600"
+                aria-label="Ekspor laporan"
+              >
+                <Download className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => refresh()}
+                disabled={isLoading || isRefreshing}
+                className="text-slate-600"
+              >
+                <RefreshCw className={`h-5 w-5 ${isLoading || isRefreshing ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
           </div>
 
           {/* Offline Indicator */}
@@ -175,7 +176,7 @@ export default function HistoryPage() {
             <SearchInput
               value={searchValue}
               onChange={setSearchValue}
-              placeholder="Cari vendor atau catatan..."
+              placeholder="Cari vendor, struk, job, BKK, jumlah..."
               className="flex-1"
             />
             <Button
@@ -207,24 +208,22 @@ export default function HistoryPage() {
 
         {/* Expense List */}
         <ExpenseList
-          expenses={visibleExpenses}
+          expenses={expenses}
           isLoading={isLoading}
           onExpenseClick={handleExpenseClick}
           searchTerm={searchValue}
           hasFilters={hasActiveFilters}
+          hasMore={hasMore}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={loadMore}
         />
 
-        {/* Load More Button */}
-        {hasMore && !isLoading && (
-          <div className="flex justify-center pt-2 pb-4">
-            <Button
-              variant="outline"
-              onClick={handleLoadMore}
-              className="w-full max-w-xs"
-            >
-              Muat Lebih Banyak ({expenses.length - visibleCount} lagi)
-            </Button>
-          </div>
+        {/* Search shows the best matches only */}
+        {searchValue.trim() && !isLoading && totalCount > expenses.length && (
+          <p className="text-center text-xs text-slate-500 pb-4">
+            Menampilkan {expenses.length} hasil teratas dari {totalCount}. Tambahkan kata kunci
+            untuk mempersempit pencarian.
+          </p>
         )}
       </div>
 
@@ -235,6 +234,15 @@ export default function HistoryPage() {
         filters={filters}
         onFiltersChange={setFilters}
         categoryCounts={categoryCounts}
+        search={searchValue}
+      />
+
+      {/* Export Sheet */}
+      <ExportSheet
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        filters={combinedFilters}
+        isOnline={isOnline}
       />
 
       {/* Detail Sheet */}
@@ -242,6 +250,7 @@ export default function HistoryPage() {
         expense={selectedExpense}
         open={isDetailOpen}
         onOpenChange={setIsDetailOpen}
+        onExpenseUpdate={refresh}
       />
     </div>
   )
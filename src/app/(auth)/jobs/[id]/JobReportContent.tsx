@@ -0,0 +1,126 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, MapPin, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  JobCostSummary,
+  JobCostBreakdown,
+  JobExpenseList,
+  type JobCostBreakdownItem,
+} from '@/components/job-report'
+import { PerDiemCard } from '@/components/per-diem'
+import { useJobCostReport } from '@/hooks/use-job-cost-report'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+
+interface JobReportContentProps {
+  jobId: string
+  /** Whether the user may generate the driver's daily allowances */
+  canGeneratePerDiem?: boolean
+}
+
+/**
+ * JobReportContent - Client component for the job cost report page
+ */
+export function JobReportContent({ jobId, canGeneratePerDiem = false }: JobReportContentProps) {
+  const router = useRouter()
+  const { report, isLoading, error, refresh } = useJobCostReport(jobId)
+  const { getCategory } = useExpenseCategories()
+
+  const categoryItems = useMemo<JobCostBreakdownItem[]>(
+    () =>
+      (report?.byCategory ?? []).map((item) => ({
+        ...item,
+        key: item.category,
+        label: getCategory(item.category).labelFull,
+      })),
+    [report, getCategory]
+  )
+
+  const driverItems = useMemo<JobCostBreakdownItem[]>(
+    () =>
+      (report?.byDriver ?? []).map((item) => ({
+        ...item,
+        key: item.userId,
+        label: item.userName ?? 'Pengguna',
+      })),
+    [report]
+  )
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.back()}
+            aria-label="Kembali"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold text-slate-900 truncate">
+              {report?.job.jobNumber ?? 'Biaya Job'}
+            </h1>
+            {report && (
+              <>
+                <p className="text-sm text-slate-600 truncate">{report.job.customerName}</p>
+                <p className="flex items-center gap-1 text-xs text-slate-500">
+                  <MapPin className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">
+                    {report.job.origin} → {report.job.destination}
+                  </span>
+                </p>
+              </>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => refresh()}
+            disabled={isLoading}
+            className="text-slate-600"
+          >
+            <RefreshCw className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4 space-y-4">
+        {isLoading && !report ? (
+          <div className="space-y-4">
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : error || !report ? (
+          <ErrorState message={error?.message} onRetry={refresh} />
+        ) : (
+          <>
+            <JobCostSummary report={report} />
+            {canGeneratePerDiem && <PerDiemCard jobOrderId={jobId} onGenerated={refresh} />}
+            <JobCostBreakdown
+              title="Per Kategori"
+              items={categoryItems}
+              total={report.totals.total}
+            />
+            <JobCostBreakdown
+              title="Per Pengemudi"
+              items={driverItems}
+              total={report.totals.total}
+            />
+            <JobExpenseList expenses={report.expenses} />
+            <p className="text-xs text-slate-400 text-center">
+              Pengeluaran yang belum tersinkron tidak termasuk dalam laporan.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { JOB_REPORT_ROLES } from '@/lib/jobs/roles'
+import { PER_DIEM_MANAGER_ROLES } from '@/lib/per-diem/roles'
+import { JobReportContent } from './JobReportContent'
+
+interface JobReportPageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Job Report Page - Cost of a job order across all users
+ *
+ * Access restricted to roles that can view team expenses
+ * (see JOB_REPORT_ROLES).
+ */
+export default async function JobReportPage({ params }: JobReportPageProps) {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Check user role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !JOB_REPORT_ROLES.includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  const { id } = await params
+
+  return (
+    <JobReportContent
+      jobId={id}
+      canGeneratePerDiem={PER_DIEM_MANAGER_ROLES.includes(profile.role)}
+    />
+  )
+}
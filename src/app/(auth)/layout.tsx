@@ -1,5 +1,6 @@
 import { BottomNav } from '@/components/navigation/BottomNav'
 import { JobCacheInitializer } from '@/components/providers/JobCacheInitializer'
+import { ExpenseCategoryProvider } from '@/components/providers/ExpenseCategoryProvider'
 import { SyncNotificationProvider } from '@/components/providers/SyncNotificationProvider'
 import { OfflineIndicator } from '@/components/offline'
 import { InstallBanner } from '@/components/pwa'
@@ -11,16 +12,18 @@ export default function AuthLayout({
 }) {
   return (
     <JobCacheInitializer>
-      <SyncNotificationProvider>
-        <OfflineIndicator />
-        <div className="min-h-screen bg-slate-50">
-          <main className="pb-20">
-            {children}
-          </main>
-          <BottomNav />
-          <InstallBanner />
-        </div>
-      </SyncNotificationProvider>
+      <ExpenseCategoryProvider>
+        <SyncNotificationProvider>
+          <OfflineIndicator />
+          <div className="min-h-screen bg-slate-50">
+            <main className="pb-20">
+              {children}
+            </main>
+            <BottomNav />
+            <InstallBanner />
+          </div>
+        </SyncNotificationProvider>
+      </ExpenseCategoryProvider>
     </JobCacheInitializer>
   )
 }
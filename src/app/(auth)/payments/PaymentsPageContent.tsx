@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { Banknote } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { PayableExpenseList, PaymentDialog } from '@/components/payments'
+import { usePayableExpenses } from '@/hooks/use-payable-expenses'
+import { formatCurrency } from '@/lib/utils/format-currency'
+
+/**
+ * PaymentsPageContent - Client component for the payments page
+ */
+export function PaymentsPageContent() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const { expenses, isLoading, error, refresh } = usePayableExpenses()
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  // Ignore selections of expenses no longer payable after a refresh
+  const selectedExpenses = expenses.filter((expense) => selectedIds.includes(expense.id))
+  const selectedTotal = selectedExpenses.reduce((sum, expense) => sum + expense.amount, 0)
+  const allSelected = expenses.length > 0 && selectedExpenses.length === expenses.length
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-100 rounded-lg">
+              <Banknote className="h-5 w-5 text-emerald-600" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900">Pembayaran</h1>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => setIsDialogOpen(true)}
+            disabled={selectedExpenses.length === 0}
+          >
+            Bayar ({selectedExpenses.length})
+          </Button>
+        </div>
+        <p className="text-sm text-slate-500 mt-2">
+          Pilih pengeluaran yang sudah disetujui, lalu catat pembayarannya. Karyawan mendapat
+          notifikasi dan BKK ditandai dibayar.
+        </p>
+      </div>
+
+      {/* Selection summary */}
+      {expenses.length > 0 && (
+        <div className="px-4 pt-4 flex items-center justify-between">
+          <p className="text-sm text-slate-600">
+            {selectedExpenses.length} dipilih · {formatCurrency(selectedTotal)}
+          </p>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSelectedIds(allSelected ? [] : expenses.map((expense) => expense.id))}
+          >
+            {allSelected ? 'Batalkan semua' : 'Pilih semua'}
+          </Button>
+        </div>
+      )}
+
+      {/* Content */}
+      <div className="px-4 py-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <ErrorState message={error.message} onRetry={refresh} />
+        ) : (
+          <PayableExpenseList
+            expenses={expenses}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+          />
+        )}
+      </div>
+
+      <PaymentDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        expenses={selectedExpenses}
+        onPaid={(paidCount) => {
+          toast.success(`${paidCount} pengeluaran ditandai dibayar`)
+          setSelectedIds([])
+          refresh()
+        }}
+        onError={handleError}
+      />
+    </div>
+  )
+}
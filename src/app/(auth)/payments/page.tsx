@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { PAYMENT_ROLES } from '@/lib/payments/roles'
+import { PaymentsPageContent } from './PaymentsPageContent'
+
+/**
+ * Payments Page - Pay approved expenses back to employees
+ *
+ * Access restricted to finance roles (see PAYMENT_ROLES).
+ */
+export default async function PaymentsPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Check user role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !PAYMENT_ROLES.includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return <PaymentsPageContent />
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { CalendarDays, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { PerDiemRateList, PerDiemRateDialog } from '@/components/per-diem'
+import { usePerDiemRates } from '@/hooks/use-per-diem-rates'
+import type { PerDiemRate } from '@/types/per-diem'
+
+/**
+ * PerDiemPageContent - Client component for the per diem rates page
+ */
+export function PerDiemPageContent() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [selected, setSelected] = useState<PerDiemRate | null>(null)
+  const { rates, isLoading, error, refresh } = usePerDiemRates()
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  const openDialog = (rate: PerDiemRate | null) => {
+    setSelected(rate)
+    setIsDialogOpen(true)
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-teal-100 rounded-lg">
+              <CalendarDays className="h-5 w-5 text-teal-600" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900">Tarif Uang Harian</h1>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Tambah
+          </Button>
+        </div>
+        <p className="text-sm text-slate-500 mt-2">
+          Uang harian dibuat dari halaman biaya job untuk pengemudi, tanpa perlu foto struk.
+        </p>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <ErrorState message={error.message} onRetry={refresh} />
+        ) : (
+          <PerDiemRateList rates={rates} onSelect={openDialog} />
+        )}
+      </div>
+
+      <PerDiemRateDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        rate={selected}
+        onSaved={() => {
+          toast.success('Tarif disimpan')
+          refresh()
+        }}
+        onError={handleError}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { PER_DIEM_MANAGER_ROLES } from '@/lib/per-diem/roles'
+import { PerDiemPageContent } from './PerDiemPageContent'
+
+/**
+ * Per Diem Page - Daily allowance rates per destination region
+ *
+ * Access restricted to roles that manage allowances
+ * (see PER_DIEM_MANAGER_ROLES).
+ */
+export default async function PerDiemPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Check user role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !PER_DIEM_MANAGER_ROLES.includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return <PerDiemPageContent />
+}
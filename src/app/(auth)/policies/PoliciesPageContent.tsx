@@ -0,0 +1,78 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { ShieldCheck, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { PolicyList, PolicyRuleDialog } from '@/components/policies'
+import { useExpensePolicies } from '@/hooks/use-expense-policies'
+import type { ExpensePolicy } from '@/types/expense-policy'
+
+/**
+ * PoliciesPageContent - Client component for the policies page
+ */
+export function PoliciesPageContent() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [selected, setSelected] = useState<ExpensePolicy | null>(null)
+  const { policies, isLoading, error, refresh } = useExpensePolicies()
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  const openDialog = (policy: ExpensePolicy | null) => {
+    setSelected(policy)
+    setIsDialogOpen(true)
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <ShieldCheck className="h-5 w-5 text-blue-600" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900">Kebijakan Pengeluaran</h1>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Tambah
+          </Button>
+        </div>
+        <p className="text-sm text-slate-500 mt-2">
+          Pengeluaran yang melebihi kebijakan tetap bisa disimpan dan diajukan, tetapi ditandai untuk approver.
+        </p>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <ErrorState message={error.message} onRetry={refresh} />
+        ) : (
+          <PolicyList policies={policies} onSelect={openDialog} />
+        )}
+      </div>
+
+      <PolicyRuleDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        policy={selected}
+        onSaved={() => {
+          toast.success('Kebijakan disimpan')
+          refresh()
+        }}
+        onError={handleError}
+      />
+    </div>
+  )
+}
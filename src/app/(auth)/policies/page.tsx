@@ -0,0 +1,33 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { POLICY_MANAGER_ROLES } from '@/lib/policies/roles'
+import { PoliciesPageContent } from './PoliciesPageContent'
+
+/**
+ * Policies Page - Spending rules per expense category and role
+ *
+ * Access restricted to finance roles (see POLICY_MANAGER_ROLES).
+ */
+export default async function PoliciesPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Check user role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !POLICY_MANAGER_ROLES.includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  return <PoliciesPageContent />
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { CalendarRange, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ReimbursementRunDialog, ReimbursementRunList } from '@/components/reimbursements'
+import { useReimbursementRuns } from '@/hooks/use-reimbursement-runs'
+import type { ReimbursementRun } from '@/types/reimbursement'
+
+/**
+ * ReimbursementsPageContent - Client component for the reimbursement runs page
+ */
+export function ReimbursementsPageContent() {
+  const router = useRouter()
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const { runs, isLoading, error, refresh } = useReimbursementRuns()
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  const handleCreated = (run: ReimbursementRun) => {
+    toast.success(`Reimbursement ${run.runNumber} dibuat`)
+    router.push(`/reimbursements/${run.id}`)
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-100 rounded-lg">
+              <CalendarRange className="h-5 w-5 text-emerald-600" />
+            </div>
+            <h1 className="text-xl font-bold text-slate-900">Reimbursement</h1>
+          </div>
+          <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Buat
+          </Button>
+        </div>
+        <p className="text-sm text-slate-500 mt-2">
+          Kumpulkan pengeluaran yang disetujui per periode, unduh file transfer bank, lalu tandai
+          dibayar sekaligus.
+        </p>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <ErrorState message={error.message} onRetry={refresh} />
+        ) : (
+          <ReimbursementRunList runs={runs} />
+        )}
+      </div>
+
+      <ReimbursementRunDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onCreated={handleCreated}
+        onError={handleError}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Banknote, FileDown, FileSpreadsheet, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { ErrorState } from '@/components/ui/error-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ConfirmRunDialog, ReimbursementEmployeeCard } from '@/components/reimbursements'
+import { useReimbursementRun } from '@/hooks/use-reimbursement-run'
+import {
+  discardReimbursementRunApi,
+  setReimbursementItemsExcludedApi,
+} from '@/lib/erp/api-client'
+import {
+  downloadReimbursementBankFile,
+  downloadReimbursementStatements,
+} from '@/lib/export/download'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+
+interface ReimbursementRunContentProps {
+  runId: string
+}
+
+/**
+ * ReimbursementRunContent - Client component for the reimbursement run page
+ */
+export function ReimbursementRunContent({ runId }: ReimbursementRunContentProps) {
+  const router = useRouter()
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const [busyAction, setBusyAction] = useState<'bank-file' | 'statements' | 'discard' | null>(null)
+  const { run, employees, isLoading, error, refresh } = useReimbursementRun(runId)
+
+  const handleError = useCallback((message: string) => {
+    toast.error(message)
+  }, [])
+
+  const isDraft = run?.status === 'draft'
+  const missingAccountCount = employees.filter(
+    (employee) => employee.total > 0 && !employee.bankAccount.accountNumber
+  ).length
+
+  const handleToggleItems = async (expenseIds: string[], excluded: boolean) => {
+    const result = await setReimbursementItemsExcludedApi(runId, expenseIds, excluded)
+    if (!result.success) {
+      toast.error(result.error || 'Gagal mengubah pengeluaran')
+      return
+    }
+    await refresh()
+  }
+
+  const handleDownloadStatement = async (userId?: string) => {
+    const result = await downloadReimbursementStatements(runId, userId)
+    if (!result.success) {
+      toast.error(result.error || 'Gagal mengunduh rincian')
+    }
+  }
+
+  const withBusy = async (
+    action: 'bank-file' | 'statements' | 'discard',
+    task: () => Promise<void>
+  ) => {
+    setBusyAction(action)
+    try {
+      await task()
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const handleDownloadBankFile = () =>
+    withBusy('bank-file', async () => {
+      const result = await downloadReimbursementBankFile(runId)
+      if (!result.success) {
+        toast.error(result.error || 'Gagal mengunduh file transfer')
+      }
+    })
+
+  const handleDiscard = () =>
+    withBusy('discard', async () => {
+      const result = await discardReimbursementRunApi(runId)
+      if (!result.success) {
+        toast.error(result.error || 'Gagal menghapus reimbursement')
+        return
+      }
+      toast.success('Reimbursement dihapus')
+      router.push('/reimbursements')
+    })
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push('/reimbursements')}
+            aria-label="Kembali"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold text-slate-900 truncate">
+              {run?.runNumber ?? 'Reimbursement'}
+            </h1>
+            {run && (
+              <p className="text-sm text-slate-500">
+                {formatDate(run.periodFrom)} – {formatDate(run.periodTo)} ·{' '}
+                {isDraft ? 'Draf' : `Dibayar ${formatDate(run.confirmedAt ?? run.createdAt)}`}
+              </p>
+            )}
+          </div>
+          {isDraft && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDiscard}
+              disabled={busyAction !== null}
+              className="text-red-600 hover:text-red-700"
+              aria-label="Hapus reimbursement"
+            >
+              <Trash2 className="h-5 w-5" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading && !run ? (
+        <div className="px-4 py-4 space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : error || !run ? (
+        <div className="px-4 py-4">
+          <ErrorState message={error?.message ?? 'Reimbursement tidak ditemukan'} onRetry={refresh} />
+        </div>
+      ) : (
+        <>
+          {/* Summary and actions */}
+          <div className="px-4 pt-4 space-y-3">
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <p className="text-sm text-slate-600">
+                {run.expenseCount} pengeluaran · {run.employeeCount} karyawan
+              </p>
+              <p className="text-2xl font-bold text-slate-900">{formatCurrency(run.totalAmount)}</p>
+              {missingAccountCount > 0 && (
+                <p className="text-xs text-amber-700 mt-1">
+                  {missingAccountCount} karyawan tanpa rekening terdaftar
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={handleDownloadBankFile}
+                disabled={busyAction !== null || run.expenseCount === 0}
+              >
+                {busyAction === 'bank-file' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                )}
+                File Transfer
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => withBusy('statements', () => handleDownloadStatement())}
+                disabled={busyAction !== null || run.expenseCount === 0}
+              >
+                {busyAction === 'statements' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileDown className="mr-2 h-4 w-4" />
+                )}
+                Semua Rincian
+              </Button>
+            </div>
+
+            {isDraft && (
+              <Button
+                className="w-full"
+                onClick={() => setIsConfirmOpen(true)}
+                disabled={busyAction !== null || run.expenseCount === 0}
+              >
+                <Banknote className="mr-2 h-4 w-4" />
+                Konfirmasi Pembayaran
+              </Button>
+            )}
+          </div>
+
+          {/* Employees */}
+          <div className="px-4 py-4 space-y-3">
+            {employees.map((employee) => (
+              <ReimbursementEmployeeCard
+                key={employee.userId}
+                employee={employee}
+                editable={isDraft}
+                onToggleItems={handleToggleItems}
+                onDownloadStatement={handleDownloadStatement}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      <ConfirmRunDialog
+        open={isConfirmOpen}
+        onOpenChange={setIsConfirmOpen}
+        run={run}
+        missingAccountCount={missingAccountCount}
+        onConfirmed={() => {
+          toast.success('Reimbursement dibayar')
+          refresh()
+        }}
+        onError={handleError}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { PAYMENT_ROLES } from '@/lib/payments/roles'
+import { ReimbursementRunContent } from './ReimbursementRunContent'
+
+interface ReimbursementRunPageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Reimbursement Run Page - Employees, items, bank file and statements of
+ * a run
+ *
+ * Access restricted to finance roles (see PAYMENT_ROLES).
+ */
+export default async function ReimbursementRunPage({ params }: ReimbursementRunPageProps) {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    redirect('/login')
+  }
+
+  // Check user role
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !PAYMENT_ROLES.includes(profile.role)) {
+    redirect('/dashboard')
+  }
+
+  const { id } = await params
+
+  return <ReimbursementRunContent runId={id} />
+}
@@ -6,6 +6,7 @@ import { AppInfoSection } from '@/components/settings/AppInfoSection'
 import { LogoutSection } from '@/components/settings/LogoutSection'
 import { InstallSection } from '@/components/settings/InstallSection'
 import { NotificationSection } from '@/components/settings/NotificationSection'
+import { FinanceSection } from '@/components/settings/FinanceSection'
 
 /**
  * Settings page
@@ -24,6 +25,7 @@ export default function SettingsPage() {
         <ProfileSection />
         <InstallSection />
         <NotificationSection />
+        <FinanceSection />
         <SyncSection />
         <PendingSyncSection />
         <StorageSection />
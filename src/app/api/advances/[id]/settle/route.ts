@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { settleAdvance } from '@/lib/erp/advance-service'
+
+/**
+ * POST /api/advances/[id]/settle
+ * Settle an advance and create its BKK records (finance roles only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Advance ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await settleAdvance(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAdvanceSettlement } from '@/lib/erp/advance-service'
+
+/**
+ * GET /api/advances/[id]/settlement
+ * Get the settlement summary of an advance (refund owed or reimbursement due)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Advance ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await getAdvanceSettlement(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { issueAdvance } from '@/lib/erp/advance-service'
+
+/**
+ * POST /api/advances
+ * Issue a cash advance to a user (finance roles only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { userId, amount, jobOrderId, purpose } = body
+
+    if (!userId || typeof userId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Recipient is required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be greater than 0' },
+        { status: 400 }
+      )
+    }
+
+    const result = await issueAdvance({
+      userId,
+      amount,
+      jobOrderId: typeof jobOrderId === 'string' ? jobOrderId : undefined,
+      purpose: typeof purpose === 'string' ? purpose : undefined,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveExpenseCategory } from '@/lib/erp/category-service'
+
+/**
+ * PATCH /api/categories/[code]
+ * Update or deactivate an expense category (finance roles only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code) {
+      return NextResponse.json(
+        { success: false, error: 'Category code is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { label, labelFull, icon, color, glAccountCode, overheadGlAccountCode, sortOrder, isActive } = body
+
+    if (typeof label !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Label is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveExpenseCategory({
+      code,
+      isNew: false,
+      label,
+      labelFull,
+      icon,
+      color,
+      glAccountCode,
+      overheadGlAccountCode,
+      sortOrder: typeof sortOrder === 'number' ? sortOrder : 0,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
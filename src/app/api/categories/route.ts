@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveExpenseCategory } from '@/lib/erp/category-service'
+
+/**
+ * POST /api/categories
+ * Create an expense category (finance roles only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { code, label, labelFull, icon, color, glAccountCode, overheadGlAccountCode, sortOrder, isActive } = body
+
+    if (typeof code !== 'string' || typeof label !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Code and label are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveExpenseCategory({
+      code,
+      isNew: true,
+      label,
+      labelFull,
+      icon,
+      color,
+      glAccountCode,
+      overheadGlAccountCode,
+      sortOrder: typeof sortOrder === 'number' ? sortOrder : 0,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
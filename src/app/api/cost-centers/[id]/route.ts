@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteCostCenter, saveCostCenter } from '@/lib/erp/accounting-service'
+
+/**
+ * PATCH /api/cost-centers/[id]
+ * Update a cost center (accounting roles only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Cost center ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { code, name, branchCode, customerName, isOverhead, isDefault, isActive } = body
+
+    if (!code || typeof code !== 'string' || !name || typeof name !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Code and name are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveCostCenter({
+      id,
+      code,
+      name,
+      branchCode: typeof branchCode === 'string' ? branchCode : null,
+      customerName: typeof customerName === 'string' ? customerName : null,
+      isOverhead: isOverhead === true,
+      isDefault: isDefault === true,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/cost-centers/[id]
+ * Delete a cost center (accounting roles only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Cost center ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await deleteCostCenter(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
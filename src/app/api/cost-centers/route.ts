@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveCostCenter } from '@/lib/erp/accounting-service'
+
+/**
+ * POST /api/cost-centers
+ * Create a cost center (accounting roles only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { code, name, branchCode, customerName, isOverhead, isDefault, isActive } = body
+
+    if (!code || typeof code !== 'string' || !name || typeof name !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Code and name are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveCostCenter({
+      code,
+      name,
+      branchCode: typeof branchCode === 'string' ? branchCode : null,
+      customerName: typeof customerName === 'string' ? customerName : null,
+      isOverhead: isOverhead === true,
+      isDefault: isDefault === true,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendScheduledReminders } from '@/lib/notifications/reminders'
+
+/**
+ * GET /api/cron/reminders
+ * Send due reminder digests (scheduler only)
+ *
+ * Call hourly with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await sendScheduledReminders()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { approveExpense } from '@/lib/erp/approval-service'
+import { notifyExpenseStatus } from '@/lib/notifications/dispatch'
 
 /**
  * POST /api/expenses/[id]/approve
- * Approve an expense (finance role only)
+ * Approve the current approval step of an expense (step approvers only)
  */
 export async function POST(
   request: NextRequest,
@@ -25,6 +26,9 @@ export async function POST(
       return NextResponse.json(result, { status: 400 })
     }
 
+    // Notify approvers of the next step, or the submitter when fully approved
+    await notifyExpenseStatus(id)
+
     return NextResponse.json(result)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Internal server error'
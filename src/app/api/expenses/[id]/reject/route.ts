@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { rejectExpense } from '@/lib/erp/approval-service'
+import { notifyExpenseStatus } from '@/lib/notifications/dispatch'
 
 /**
  * POST /api/expenses/[id]/reject
- * Reject an expense with reason (finance role only)
+ * Reject an expense with reason (step approvers only)
  */
 export async function POST(
   request: NextRequest,
@@ -35,6 +36,9 @@ export async function POST(
       return NextResponse.json(result, { status: 400 })
     }
 
+    // Notify the submitter
+    await notifyExpenseStatus(id)
+
     return NextResponse.json(result)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Internal server error'
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { resubmitExpense } from '@/lib/erp/approval-service'
+import { notifyExpenseStatus } from '@/lib/notifications/dispatch'
 
 /**
  * POST /api/expenses/[id]/resubmit
@@ -25,6 +26,9 @@ export async function POST(
       return NextResponse.json(result, { status: 400 })
     }
 
+    // Notify approvers of the first step
+    await notifyExpenseStatus(id)
+
     return NextResponse.json(result)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Internal server error'
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { decideExpensesInBulk } from '@/lib/erp/approval-service'
+import { notifyExpensesDecided } from '@/lib/notifications/dispatch'
+import type { ApprovalDecision } from '@/types/approval'
+
+/**
+ * POST /api/expenses/bulk-decision
+ * Approve or reject the current approval step of several expenses
+ * (step approvers only), with a result per expense
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { expenseIds, decision, reason } = body
+
+    if (!Array.isArray(expenseIds) || typeof decision !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Expenses and decision are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await decideExpensesInBulk({
+      expenseIds,
+      decision: decision as ApprovalDecision,
+      reason: typeof reason === 'string' ? reason : undefined,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    // Notify next-step approvers and submitters with one digest each,
+    // after the response is sent
+    const decidedIds = (result.results ?? [])
+      .filter((item) => item.success)
+      .map((item) => item.expenseId)
+    after(() => notifyExpensesDecided(decidedIds))
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
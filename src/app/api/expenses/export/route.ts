@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EXPORT_FORMATS, searchParamsToFilters } from '@/lib/export/params'
+import { buildExpenseReport } from '@/lib/export/report'
+import { renderExpenseReportCsv } from '@/lib/export/csv'
+import { renderExpenseReportXlsx } from '@/lib/export/xlsx'
+import { renderExpenseReportPdf } from '@/lib/export/pdf'
+import type { ExportFormat } from '@/types/expense-report'
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+}
+
+/**
+ * GET /api/expenses/export?format=csv|xlsx|pdf
+ * Export expenses matching the history filters as a file
+ *
+ * Filters use the same query parameters as `filtersToSearchParams`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const format = request.nextUrl.searchParams.get('format') as ExportFormat | null
+
+    if (!format || !EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: 'Format must be csv, xlsx or pdf' },
+        { status: 400 }
+      )
+    }
+
+    const result = await buildExpenseReport(searchParamsToFilters(request.nextUrl.searchParams))
+
+    if (!result.success || !result.report) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    const body =
+      format === 'csv'
+        ? renderExpenseReportCsv(result.report)
+        : new Uint8Array(
+            format === 'xlsx'
+              ? await renderExpenseReportXlsx(result.report)
+              : await renderExpenseReportPdf(result.report)
+          )
+    const filename = `laporan-pengeluaran-${result.report.generatedAt.slice(0, 10)}.${format}`
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generatePerDiem, previewPerDiem } from '@/lib/erp/per-diem-service'
+
+/**
+ * GET /api/jobs/[id]/per-diem
+ * Preview the daily allowances of a job order's trip (per diem managers only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Job order ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await previewPerDiem(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/jobs/[id]/per-diem
+ * Generate the missing daily allowances for the job's driver (per diem managers only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Job order ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await generatePerDiem(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJournalBatchExport } from '@/lib/erp/accounting-service'
+import { renderJournalCsv } from '@/lib/export/journal'
+
+/**
+ * GET /api/journal-batches/[id]/export
+ * Download a journal batch as CSV for import into the accounting system
+ * (accounting roles only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Batch ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await getJournalBatchExport(id)
+
+    if (!result.success || !result.batch || !result.lines) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return new NextResponse(renderJournalCsv(result.batch, result.lines), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="jurnal-${result.batch.batchNumber}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createJournalBatch } from '@/lib/erp/accounting-service'
+
+/**
+ * POST /api/journal-batches
+ * Create a journal batch of the approved BKK records in a period
+ * (accounting roles only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { dateFrom, dateTo } = body
+
+    if (typeof dateFrom !== 'string' || typeof dateTo !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Date range is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await createJournalBatch({ dateFrom, dateTo })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPreferences, savePreferences } from '@/lib/notifications/preferences'
+import type { NotificationPreferences } from '@/lib/notifications/types'
+
+/**
+ * GET /api/notifications/preferences
+ * Get the current user's notification preferences
+ */
+export async function GET() {
+  try {
+    const result = await getPreferences()
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/notifications/preferences
+ * Update reminder opt-out and quiet hours
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const updates: Partial<NotificationPreferences> = {}
+
+    if (body?.remindersEnabled !== undefined) {
+      if (typeof body.remindersEnabled !== 'boolean') {
+        return NextResponse.json(
+          { success: false, error: 'remindersEnabled must be a boolean' },
+          { status: 400 }
+        )
+      }
+      updates.remindersEnabled = body.remindersEnabled
+    }
+    if (body?.quietHoursStart !== undefined) updates.quietHoursStart = body.quietHoursStart
+    if (body?.quietHoursEnd !== undefined) updates.quietHoursEnd = body.quietHoursEnd
+    if (body?.timezone !== undefined) updates.timezone = body.timezone
+
+    const result = await savePreferences(updates)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveSubscription, removeSubscription } from '@/lib/notifications/subscriptions'
+
+/**
+ * POST /api/notifications/subscriptions
+ * Register the push subscription of the current device
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { endpoint, keys } = body ?? {}
+
+    if (
+      typeof endpoint !== 'string' ||
+      !endpoint.startsWith('https://') ||
+      typeof keys?.p256dh !== 'string' ||
+      typeof keys?.auth !== 'string'
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid push subscription' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveSubscription(
+      { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } },
+      request.headers.get('user-agent')
+    )
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/notifications/subscriptions
+ * Remove the push subscription of the current device
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { endpoint } = body ?? {}
+
+    if (typeof endpoint !== 'string' || !endpoint) {
+      return NextResponse.json(
+        { success: false, error: 'Endpoint is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await removeSubscription(endpoint)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { recordPayment } from '@/lib/erp/payment-service'
+import { notifyExpensesPaid } from '@/lib/notifications/dispatch'
+import type { PaymentMethod } from '@/types/payment'
+
+/**
+ * POST /api/payments
+ * Record the payment of approved expenses (payment roles only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { expenseIds, method, referenceNumber, paidDate, notes } = body
+
+    if (!Array.isArray(expenseIds) || typeof method !== 'string' || typeof paidDate !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Expenses, method and payment date are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await recordPayment({
+      expenseIds,
+      method: method as PaymentMethod,
+      referenceNumber,
+      paidDate,
+      notes,
+    })
+
+    if (!result.success || !result.paymentId) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    // Tell each employee their expenses were paid
+    await notifyExpensesPaid(result.paymentId)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deletePerDiemRate, savePerDiemRate } from '@/lib/erp/per-diem-service'
+
+/**
+ * PATCH /api/per-diem-rates/[id]
+ * Update a per diem rate (per diem managers only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Rate ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { region, keywords, mealRate, lodgingRate, isDefault, isActive } = body
+
+    if (!region || typeof region !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Region is required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof mealRate !== 'number' || typeof lodgingRate !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'Rates must be numbers' },
+        { status: 400 }
+      )
+    }
+
+    const result = await savePerDiemRate({
+      id,
+      region,
+      keywords: Array.isArray(keywords) ? keywords.filter((k) => typeof k === 'string') : [],
+      mealRate,
+      lodgingRate,
+      isDefault: isDefault === true,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/per-diem-rates/[id]
+ * Delete a per diem rate (per diem managers only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Rate ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await deletePerDiemRate(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
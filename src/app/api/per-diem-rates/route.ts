@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { savePerDiemRate } from '@/lib/erp/per-diem-service'
+
+/**
+ * POST /api/per-diem-rates
+ * Create a per diem rate for a destination region (per diem managers only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { region, keywords, mealRate, lodgingRate, isDefault, isActive } = body
+
+    if (!region || typeof region !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Region is required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof mealRate !== 'number' || typeof lodgingRate !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'Rates must be numbers' },
+        { status: 400 }
+      )
+    }
+
+    const result = await savePerDiemRate({
+      region,
+      keywords: Array.isArray(keywords) ? keywords.filter((k) => typeof k === 'string') : [],
+      mealRate,
+      lodgingRate,
+      isDefault: isDefault === true,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
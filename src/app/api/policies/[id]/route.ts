@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteExpensePolicy, saveExpensePolicy } from '@/lib/erp/policy-service'
+import type { UserRole } from '@/types/supabase'
+
+/**
+ * PATCH /api/policies/[id]
+ * Update a spending policy rule (finance roles only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Policy ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { category, role, ruleType, amount, isActive } = body
+
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be greater than 0' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveExpensePolicy({
+      id,
+      category,
+      role: typeof role === 'string' ? (role as UserRole) : null,
+      ruleType,
+      amount,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/policies/[id]
+ * Delete a spending policy rule (finance roles only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Policy ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await deleteExpensePolicy(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
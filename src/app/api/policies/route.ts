@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { saveExpensePolicy } from '@/lib/erp/policy-service'
+import type { UserRole } from '@/types/supabase'
+
+/**
+ * POST /api/policies
+ * Create a spending policy rule (finance roles only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { category, role, ruleType, amount, isActive } = body
+
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be greater than 0' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveExpensePolicy({
+      category,
+      role: typeof role === 'string' ? (role as UserRole) : null,
+      ruleType,
+      amount,
+      isActive: isActive !== false,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReimbursementRunDetail } from '@/lib/erp/reimbursement-service'
+import { getBankFileLayout } from '@/lib/reimbursements/bank-layout'
+import { renderBankFileCsv } from '@/lib/export/bank-file'
+
+/**
+ * GET /api/reimbursement-runs/[id]/bank-file
+ * Download the bank transfer file of a run, one transfer per employee, in
+ * the layout configured by REIMBURSEMENT_BANK_LAYOUT (payment roles only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Run ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await getReimbursementRunDetail(id)
+
+    if (!result.success || !result.run || !result.employees) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return new NextResponse(renderBankFileCsv(result.run, result.employees, getBankFileLayout()), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="transfer-${result.run.runNumber}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { confirmReimbursementRun } from '@/lib/erp/reimbursement-service'
+import { notifyExpensesPaid } from '@/lib/notifications/dispatch'
+
+/**
+ * POST /api/reimbursement-runs/[id]/confirm
+ * Pay all included expenses of a draft run (payment roles only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Run ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { paidDate, referenceNumber } = body
+
+    if (typeof paidDate !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Payment date is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await confirmReimbursementRun(id, {
+      paidDate,
+      referenceNumber: typeof referenceNumber === 'string' ? referenceNumber : undefined,
+    })
+
+    if (!result.success || !result.paymentId) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    // Tell each employee their expenses were paid
+    await notifyExpensesPaid(result.paymentId)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
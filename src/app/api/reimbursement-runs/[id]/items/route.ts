@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setReimbursementItemsExcluded } from '@/lib/erp/reimbursement-service'
+
+/**
+ * PATCH /api/reimbursement-runs/[id]/items
+ * Exclude expenses from a draft run, or include them again
+ * (payment roles only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Run ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { expenseIds, excluded } = body
+
+    if (!Array.isArray(expenseIds) || expenseIds.length === 0 || typeof excluded !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'Expenses and excluded flag are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await setReimbursementItemsExcluded(id, expenseIds, excluded)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  discardReimbursementRun,
+  getReimbursementRunDetail,
+} from '@/lib/erp/reimbursement-service'
+
+/**
+ * GET /api/reimbursement-runs/[id]
+ * Get a run with its items grouped per employee (payment roles only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Run ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await getReimbursementRunDetail(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/reimbursement-runs/[id]
+ * Discard a draft run, releasing its expenses (payment roles only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Run ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await discardReimbursementRun(id)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
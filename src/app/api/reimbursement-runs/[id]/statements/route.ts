@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReimbursementRunDetail } from '@/lib/erp/reimbursement-service'
+import { renderReimbursementStatementPdf } from '@/lib/export/statement'
+
+/**
+ * GET /api/reimbursement-runs/[id]/statements?userId=
+ * Download the per-employee statements of a run as PDF, or only one
+ * employee's statement with userId (payment roles only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Run ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await getReimbursementRunDetail(id)
+
+    if (!result.success || !result.run || !result.employees) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId')
+    const employees = result.employees.filter(
+      (employee) => employee.total > 0 && (!userId || employee.userId === userId)
+    )
+
+    if (userId && employees.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Employee has no expenses in this run' },
+        { status: 400 }
+      )
+    }
+
+    const pdf = await renderReimbursementStatementPdf(
+      result.run,
+      employees,
+      result.categoryLabels ?? {}
+    )
+    const suffix = userId ? `-${employees[0].employeeNumber ?? employees[0].userId.slice(0, 8)}` : ''
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="rincian-${result.run.runNumber}${suffix}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
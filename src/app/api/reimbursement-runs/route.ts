@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createReimbursementRun } from '@/lib/erp/reimbursement-service'
+
+/**
+ * POST /api/reimbursement-runs
+ * Create a draft run of the approved, unpaid expenses of a period
+ * (payment roles only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { dateFrom, dateTo } = body
+
+    if (typeof dateFrom !== 'string' || typeof dateTo !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Date range is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await createReimbursementRun({ dateFrom, dateTo })
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,249 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { deleteCostCenterApi, saveCostCenterApi } from '@/lib/erp/api-client'
+import type { CostCenter } from '@/types/accounting'
+
+interface CostCenterDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Center to edit; null creates a new center */
+  costCenter: CostCenter | null
+  /** Callback after the center was saved or deleted */
+  onSaved?: () => void
+  onError?: (error: string) => void
+}
+
+/**
+ * CostCenterDialog - Form to create, edit or delete a cost center and the
+ * jobs it covers
+ */
+export function CostCenterDialog({
+  open,
+  onOpenChange,
+  costCenter,
+  onSaved,
+  onError,
+}: CostCenterDialogProps) {
+  const [code, setCode] = useState('')
+  const [name, setName] = useState('')
+  const [customerName, setCustomerName] = useState('')
+  const [branchCode, setBranchCode] = useState('')
+  const [isOverhead, setIsOverhead] = useState(false)
+  const [isDefault, setIsDefault] = useState(false)
+  const [isActive, setIsActive] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Load the edited center (or blank values) when the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setCode(costCenter?.code ?? '')
+    setName(costCenter?.name ?? '')
+    setCustomerName(costCenter?.customerName ?? '')
+    setBranchCode(costCenter?.branchCode ?? '')
+    setIsOverhead(costCenter?.isOverhead ?? false)
+    setIsDefault(costCenter?.isDefault ?? false)
+    setIsActive(costCenter?.isActive ?? true)
+  }, [open, costCenter])
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await saveCostCenterApi({
+        id: costCenter?.id,
+        code,
+        name,
+        // Overhead expenses have no job, so no customer
+        customerName: isOverhead ? null : customerName,
+        branchCode,
+        isOverhead,
+        isDefault: !isOverhead && isDefault,
+        isActive,
+      })
+
+      if (result.success) {
+        onSaved?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menyimpan pusat biaya')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!costCenter) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await deleteCostCenterApi(costCenter.id)
+
+      if (result.success) {
+        onSaved?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menghapus pusat biaya')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{costCenter ? 'Ubah Pusat Biaya' : 'Tambah Pusat Biaya'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Code and name */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="cost-center-code">Kode</Label>
+              <Input
+                id="cost-center-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="CC-JKT"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="cost-center-name">Nama</Label>
+              <Input
+                id="cost-center-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Contoh: Operasional Jakarta"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          {/* Overhead */}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="cost-center-overhead">Overhead</Label>
+              <p className="text-xs text-slate-500">Untuk pengeluaran tanpa job order</p>
+            </div>
+            <Switch
+              id="cost-center-overhead"
+              checked={isOverhead}
+              onCheckedChange={setIsOverhead}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Scope */}
+          {!isOverhead && (
+            <div className="space-y-2">
+              <Label htmlFor="cost-center-customer">Customer</Label>
+              <Input
+                id="cost-center-customer"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                placeholder="Kosongkan untuk semua customer"
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="cost-center-branch">Kode cabang</Label>
+            <Input
+              id="cost-center-branch"
+              value={branchCode}
+              onChange={(e) => setBranchCode(e.target.value)}
+              placeholder="Kosongkan untuk semua cabang"
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-slate-500">
+              Pengeluaran job memakai pusat biaya customer-nya, lalu cabang job, lalu pusat biaya default.
+            </p>
+          </div>
+
+          {/* Default */}
+          {!isOverhead && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="cost-center-default">Pusat biaya default</Label>
+                <p className="text-xs text-slate-500">Dipakai bila job tidak cocok dengan customer atau cabang mana pun</p>
+              </div>
+              <Switch
+                id="cost-center-default"
+                checked={isDefault}
+                onCheckedChange={setIsDefault}
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+
+          {/* Active */}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="cost-center-active">Aktif</Label>
+            <Switch
+              id="cost-center-active"
+              checked={isActive}
+              onCheckedChange={setIsActive}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          {costCenter && (
+            <Button
+              variant="outline"
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="text-red-600 hover:text-red-700 sm:mr-auto"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Hapus
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !code.trim() || !name.trim()}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menyimpan...
+              </>
+            ) : (
+              'Simpan'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { Building2, ChevronRight } from 'lucide-react'
+import { EmptyState } from '@/components/ui/empty-state'
+import type { CostCenter } from '@/types/accounting'
+
+interface CostCenterListProps {
+  costCenters: CostCenter[]
+  onSelect: (costCenter: CostCenter) => void
+}
+
+/**
+ * Describe which expenses a center covers
+ */
+function describeScope(costCenter: CostCenter): string {
+  const scope = [
+    costCenter.customerName && `Customer ${costCenter.customerName}`,
+    costCenter.branchCode && `Cabang ${costCenter.branchCode}`,
+  ].filter(Boolean)
+
+  if (costCenter.isOverhead) {
+    return ['Overhead', ...scope].join(' · ')
+  }
+  return scope.length > 0 ? scope.join(' · ') : 'Semua job'
+}
+
+/**
+ * CostCenterList - Cost centers with the jobs they cover
+ */
+export function CostCenterList({ costCenters, onSelect }: CostCenterListProps) {
+  if (costCenters.length === 0) {
+    return (
+      <EmptyState
+        icon={Building2}
+        title="Belum ada pusat biaya"
+        description="Tambahkan pusat biaya per customer, cabang atau untuk overhead"
+      />
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+      {costCenters.map((costCenter) => (
+        <button
+          key={costCenter.id}
+          onClick={() => onSelect(costCenter)}
+          className="w-full p-4 flex items-center gap-3 text-left hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-900 truncate">
+                {costCenter.code} · {costCenter.name}
+              </span>
+              {costCenter.isDefault && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                  Default
+                </span>
+              )}
+              {!costCenter.isActive && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                  Nonaktif
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-0.5 truncate">{describeScope(costCenter)}</p>
+          </div>
+          <ChevronRight className="h-4 w-4 text-gray-400" />
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createJournalBatchApi } from '@/lib/erp/api-client'
+import { toDateInputValue } from '@/lib/utils/format-date'
+import type { JournalBatch } from '@/types/accounting'
+
+interface JournalBatchDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Callback with the created batch */
+  onCreated?: (batch: JournalBatch) => void
+  onError?: (error: string) => void
+}
+
+/**
+ * JournalBatchDialog - Pick the period of approved BKK records to export
+ * as a journal batch
+ */
+export function JournalBatchDialog({
+  open,
+  onOpenChange,
+  onCreated,
+  onError,
+}: JournalBatchDialogProps) {
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Default to the current month up to today
+  useEffect(() => {
+    if (!open) return
+
+    const today = new Date()
+    setDateFrom(toDateInputValue(new Date(today.getFullYear(), today.getMonth(), 1)))
+    setDateTo(toDateInputValue(today))
+  }, [open])
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await createJournalBatchApi({ dateFrom, dateTo })
+
+      if (result.success && result.batch) {
+        onCreated?.(result.batch)
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal membuat batch jurnal')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Buat Batch Jurnal</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="journal-date-from">Dari tanggal</Label>
+              <Input
+                id="journal-date-from"
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="journal-date-to">Sampai tanggal</Label>
+              <Input
+                id="journal-date-to"
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Semua BKK pengeluaran yang sudah disetujui pada periode ini dan belum pernah diekspor
+            masuk ke batch. Tiap BKK menjadi jurnal debit akun biaya dan kredit kas kecil.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !dateFrom || !dateTo || dateFrom > dateTo}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Membuat...
+              </>
+            ) : (
+              'Buat Batch'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, FileSpreadsheet, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import type { JournalBatch } from '@/types/accounting'
+
+interface JournalBatchListProps {
+  batches: JournalBatch[]
+  onDownload: (batch: JournalBatch) => Promise<void>
+}
+
+/**
+ * JournalBatchList - Exported journal batches, downloadable again
+ */
+export function JournalBatchList({ batches, onDownload }: JournalBatchListProps) {
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+
+  if (batches.length === 0) {
+    return (
+      <EmptyState
+        icon={FileSpreadsheet}
+        title="Belum ada batch jurnal"
+        description="Buat batch dari BKK yang sudah disetujui untuk diimpor ke sistem akuntansi"
+      />
+    )
+  }
+
+  const handleDownload = async (batch: JournalBatch) => {
+    setDownloadingId(batch.id)
+    try {
+      await onDownload(batch)
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+      {batches.map((batch) => (
+        <div key={batch.id} className="p-4 flex items-center gap-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900">{batch.batchNumber}</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {formatDate(batch.dateFrom)} – {formatDate(batch.dateTo)} · {batch.entryCount} BKK
+            </p>
+          </div>
+          <p className="text-sm font-medium text-gray-900">{formatCurrency(batch.totalAmount)}</p>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={`Unduh ${batch.batchNumber}`}
+            onClick={() => handleDownload(batch)}
+            disabled={downloadingId !== null}
+          >
+            {downloadingId === batch.id ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,4 @@
+export { CostCenterList } from './CostCenterList'
+export { CostCenterDialog } from './CostCenterDialog'
+export { JournalBatchList } from './JournalBatchList'
+export { JournalBatchDialog } from './JournalBatchDialog'
@@ -0,0 +1,88 @@
+'use client'
+
+import { Wallet, ChevronRight } from 'lucide-react'
+import { EmptyState } from '@/components/ui/empty-state'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import type { CashAdvanceBalance } from '@/types/cash-advance'
+
+interface AdvanceListProps {
+  advances: CashAdvanceBalance[]
+  /** Show the name of the advance holder (finance view) */
+  showUser?: boolean
+  onSelect: (advance: CashAdvanceBalance) => void
+}
+
+/**
+ * AdvanceList - List of cash advances with their remaining balance
+ */
+export function AdvanceList({ advances, showUser = false, onSelect }: AdvanceListProps) {
+  if (advances.length === 0) {
+    return (
+      <EmptyState
+        icon={Wallet}
+        title="Belum ada kasbon"
+        description="Kasbon yang diberikan oleh finance akan muncul di sini"
+      />
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+      {advances.map((advance) => {
+        const isOpen = advance.status === 'open'
+
+        return (
+          <button
+            key={advance.id}
+            onClick={() => onSelect(advance)}
+            className="w-full p-4 flex items-center gap-3 text-left hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-sm font-medium text-gray-900">
+                  {advance.advanceNumber}
+                </span>
+                <span
+                  className={cn(
+                    'px-2 py-0.5 rounded-full text-xs font-medium',
+                    isOpen ? 'bg-emerald-100 text-emerald-700' : 'bg-gray-100 text-gray-600'
+                  )}
+                >
+                  {isOpen ? 'Aktif' : 'Selesai'}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 truncate mt-0.5">
+                {[
+                  showUser ? advance.userName : null,
+                  advance.jobNumber,
+                  formatDate(advance.issuedAt, 'short'),
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+              {advance.purpose && (
+                <p className="text-xs text-gray-400 truncate">{advance.purpose}</p>
+              )}
+            </div>
+
+            <div className="text-right">
+              <p
+                className={cn(
+                  'text-sm font-semibold',
+                  advance.remaining < 0 ? 'text-red-600' : 'text-gray-900'
+                )}
+              >
+                {formatCurrency(advance.remaining)}
+              </p>
+              <p className="text-xs text-gray-500">dari {formatCurrency(advance.amount)}</p>
+            </div>
+
+            <ChevronRight className="h-5 w-5 text-gray-400" />
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { Wallet, WifiOff } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useAdvanceBalances } from '@/hooks/use-advances'
+import { formatCurrency } from '@/lib/utils/format-currency'
+
+/**
+ * Select value for "not paid from an advance" (Radix Select needs a non-empty value)
+ */
+const NO_ADVANCE = 'none'
+
+interface AdvanceSelectorProps {
+  /**
+   * Selected advance ID, or null if the expense is not paid from an advance
+   */
+  value: string | null
+  /**
+   * Callback when advance selection changes
+   */
+  onChange: (advanceId: string | null) => void
+  /**
+   * Whether the selector is disabled
+   */
+  disabled?: boolean
+}
+
+/**
+ * Selector for allocating an expense to one of the user's open cash advances
+ *
+ * Renders nothing when the user has no open advance (and none is selected).
+ * Works offline from the cached advances.
+ */
+export function AdvanceSelector({ value, onChange, disabled = false }: AdvanceSelectorProps) {
+  const { advances, isLoading, isUsingCache } = useAdvanceBalances()
+
+  if (isLoading || (advances.length === 0 && !value)) {
+    return null
+  }
+
+  const hasSelectedAdvance = !value || advances.some((advance) => advance.id === value)
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="expense-advance" className="text-sm font-medium text-gray-700">
+        Dibayar dari Kasbon
+      </Label>
+      <Select
+        value={value ?? NO_ADVANCE}
+        onValueChange={(selected) => onChange(selected === NO_ADVANCE ? null : selected)}
+        disabled={disabled}
+      >
+        <SelectTrigger id="expense-advance" className="w-full">
+          <SelectValue placeholder="Pilih kasbon" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ADVANCE}>Tanpa kasbon</SelectItem>
+          {advances.map((advance) => (
+            <SelectItem key={advance.id} value={advance.id}>
+              <Wallet className="h-4 w-4" />
+              {advance.advanceNumber}
+              {advance.jobNumber ? ` · ${advance.jobNumber}` : ''}
+              {` · Sisa ${formatCurrency(advance.remaining)}`}
+            </SelectItem>
+          ))}
+          {!hasSelectedAdvance && value && (
+            <SelectItem value={value}>Kasbon sudah ditutup</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      {isUsingCache && (
+        <p className="flex items-center gap-1 text-xs text-amber-700">
+          <WifiOff className="h-3 w-3" />
+          Saldo kasbon dari data tersimpan (offline)
+        </p>
+      )}
+    </div>
+  )
+}
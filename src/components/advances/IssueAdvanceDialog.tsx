@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Briefcase, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AmountInput } from '@/components/molecules/AmountInput'
+import { JobSearchDialog } from '@/components/job'
+import { issueAdvanceApi } from '@/lib/erp/api-client'
+import { createClient } from '@/lib/supabase/client'
+import type { JobOrder } from '@/types/supabase'
+
+interface Recipient {
+  id: string
+  fullName: string
+}
+
+interface IssueAdvanceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Callback after the advance was issued */
+  onIssued?: (advanceNumber: string) => void
+  onError?: (error: string) => void
+}
+
+/**
+ * IssueAdvanceDialog - Form for finance to issue a cash advance to a user
+ *
+ * The advance can optionally be tied to a job order.
+ */
+export function IssueAdvanceDialog({
+  open,
+  onOpenChange,
+  onIssued,
+  onError,
+}: IssueAdvanceDialogProps) {
+  const [recipients, setRecipients] = useState<Recipient[]>([])
+  const [userId, setUserId] = useState('')
+  const [amount, setAmount] = useState(0)
+  const [job, setJob] = useState<JobOrder | null>(null)
+  const [purpose, setPurpose] = useState('')
+  const [isJobSearchOpen, setIsJobSearchOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Load users as recipients
+  useEffect(() => {
+    if (!open) return
+
+    async function loadRecipients() {
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, email')
+        .order('full_name')
+
+      if (error) {
+        console.error('Failed to load users:', error)
+        return
+      }
+
+      setRecipients(
+        (data ?? []).map((profile) => ({
+          id: profile.id,
+          fullName: profile.full_name || profile.email,
+        }))
+      )
+    }
+
+    loadRecipients()
+  }, [open])
+
+  const resetForm = () => {
+    setUserId('')
+    setAmount(0)
+    setJob(null)
+    setPurpose('')
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    onOpenChange(nextOpen)
+    if (!nextOpen) {
+      resetForm()
+    }
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await issueAdvanceApi({
+        userId,
+        amount,
+        jobOrderId: job?.id,
+        purpose: purpose.trim() || undefined,
+      })
+
+      if (result.success && result.advanceNumber) {
+        onIssued?.(result.advanceNumber)
+        handleOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal membuat kasbon')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Buat Kasbon</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {/* Recipient */}
+            <div className="space-y-2">
+              <Label htmlFor="advance-user">Karyawan</Label>
+              <Select value={userId} onValueChange={setUserId} disabled={isSubmitting}>
+                <SelectTrigger id="advance-user" className="w-full">
+                  <SelectValue placeholder="Pilih karyawan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipients.map((recipient) => (
+                    <SelectItem key={recipient.id} value={recipient.id}>
+                      {recipient.fullName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Amount */}
+            <AmountInput value={amount} onChange={setAmount} disabled={isSubmitting} />
+
+            {/* Job Order (optional) */}
+            <div className="space-y-2">
+              <Label>Job Order (opsional)</Label>
+              {job ? (
+                <div className="flex items-center justify-between rounded-lg border border-slate-200 px-3 py-2">
+                  <span className="text-sm">
+                    <span className="font-medium">{job.job_number}</span>
+                    <span className="text-slate-500 ml-2">{job.customer_name}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setJob(null)}
+                    disabled={isSubmitting}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => setIsJobSearchOpen(true)}
+                  disabled={isSubmitting}
+                >
+                  <Briefcase className="mr-2 h-4 w-4" />
+                  Pilih Job Order
+                </Button>
+              )}
+            </div>
+
+            {/* Purpose */}
+            <div className="space-y-2">
+              <Label htmlFor="advance-purpose">Keperluan</Label>
+              <Input
+                id="advance-purpose"
+                placeholder="Contoh: Solar dan tol trip Surabaya"
+                value={purpose}
+                onChange={(e) => setPurpose(e.target.value)}
+                maxLength={200}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Batal
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting || !userId || amount <= 0}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Menyimpan...
+                </>
+              ) : (
+                'Buat Kasbon'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <JobSearchDialog
+        open={isJobSearchOpen}
+        onOpenChange={setIsJobSearchOpen}
+        onSelect={(selected) => {
+          setJob(selected)
+          setIsJobSearchOpen(false)
+        }}
+      />
+    </>
+  )
+}
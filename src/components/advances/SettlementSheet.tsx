@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, ArrowDownLeft, ArrowUpRight, CheckCircle2, AlertTriangle } from 'lucide-react'
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Button } from '@/components/ui/button'
+import { getAdvanceSettlementApi, settleAdvanceApi } from '@/lib/erp/api-client'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type { AdvanceSettlement, CashAdvanceBalance } from '@/types/cash-advance'
+
+interface SummaryRowProps {
+  label: string
+  value: React.ReactNode
+}
+
+function SummaryRow({ label, value }: SummaryRowProps) {
+  return (
+    <div className="flex items-center justify-between py-2.5 border-b border-slate-100 last:border-0">
+      <span className="text-sm text-slate-500">{label}</span>
+      <span className="text-sm font-medium text-slate-900">{value}</span>
+    </div>
+  )
+}
+
+interface SettlementSheetProps {
+  advance: CashAdvanceBalance | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Whether the current user may settle the advance (finance roles) */
+  canSettle?: boolean
+  /** Callback after the advance was settled */
+  onSettled?: () => void
+  onError?: (error: string) => void
+}
+
+/**
+ * SettlementSheet - Settlement summary of a cash advance
+ *
+ * Shows approved spending against the advance and whether the user owes a
+ * refund or is due a reimbursement. Finance roles can settle the advance
+ * once no allocated expense is waiting for approval.
+ */
+export function SettlementSheet({
+  advance,
+  open,
+  onOpenChange,
+  canSettle = false,
+  onSettled,
+  onError,
+}: SettlementSheetProps) {
+  const [settlement, setSettlement] = useState<AdvanceSettlement | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSettling, setIsSettling] = useState(false)
+
+  // Load settlement summary when opened
+  useEffect(() => {
+    async function loadSettlement() {
+      if (!open || !advance) {
+        setSettlement(null)
+        return
+      }
+
+      setIsLoading(true)
+      try {
+        const result = await getAdvanceSettlementApi(advance.id)
+        if (result.success && result.settlement) {
+          setSettlement(result.settlement)
+        } else {
+          onError?.(result.error || 'Gagal memuat penyelesaian kasbon')
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+        onError?.(message)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadSettlement()
+  }, [open, advance, onError])
+
+  const handleSettle = async () => {
+    if (!advance || !settlement) return
+
+    const confirmed = confirm(
+      settlement.outcome === 'refund'
+        ? `Pastikan sisa kasbon ${formatCurrency(settlement.settlementAmount)} sudah dikembalikan. Selesaikan kasbon?`
+        : settlement.outcome === 'reimbursement'
+          ? `Kekurangan ${formatCurrency(settlement.settlementAmount)} akan dibayarkan. Selesaikan kasbon?`
+          : 'Selesaikan kasbon?'
+    )
+    if (!confirmed) return
+
+    setIsSettling(true)
+    try {
+      const result = await settleAdvanceApi(advance.id)
+      if (result.success) {
+        onSettled?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menyelesaikan kasbon')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSettling(false)
+    }
+  }
+
+  if (!advance) return null
+
+  const isOpen = advance.status === 'open'
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-2xl" showCloseButton={false}>
+        <SheetHeader className="border-b pb-4">
+          <div className="flex items-center justify-between">
+            <SheetTitle>Kasbon {advance.advanceNumber}</SheetTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onOpenChange(false)}
+              className="text-slate-500"
+            >
+              Tutup
+            </Button>
+          </div>
+        </SheetHeader>
+
+        <div className="space-y-4 px-4 pb-6">
+          {isLoading || !settlement ? (
+            <div className="flex items-center justify-center py-10 text-slate-400">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Outcome */}
+              <div
+                className={cn(
+                  'rounded-xl p-4 flex items-center gap-3',
+                  settlement.outcome === 'refund' && 'bg-amber-50',
+                  settlement.outcome === 'reimbursement' && 'bg-blue-50',
+                  settlement.outcome === 'even' && 'bg-green-50'
+                )}
+              >
+                {settlement.outcome === 'refund' ? (
+                  <ArrowUpRight className="h-6 w-6 text-amber-600" />
+                ) : settlement.outcome === 'reimbursement' ? (
+                  <ArrowDownLeft className="h-6 w-6 text-blue-600" />
+                ) : (
+                  <CheckCircle2 className="h-6 w-6 text-green-600" />
+                )}
+                <div>
+                  <p className="text-sm text-slate-600">
+                    {settlement.outcome === 'refund'
+                      ? 'Sisa kasbon dikembalikan'
+                      : settlement.outcome === 'reimbursement'
+                        ? 'Kekurangan dibayarkan ke karyawan'
+                        : 'Kasbon terpakai seluruhnya'}
+                  </p>
+                  {settlement.outcome !== 'even' && (
+                    <p className="text-xl font-bold text-slate-900">
+                      {formatCurrency(settlement.settlementAmount)}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* Summary */}
+              <div className="bg-white rounded-xl border border-slate-100 px-4">
+                {advance.userName && <SummaryRow label="Karyawan" value={advance.userName} />}
+                {advance.jobNumber && <SummaryRow label="Job Order" value={advance.jobNumber} />}
+                <SummaryRow label="Jumlah Kasbon" value={formatCurrency(settlement.advanceAmount)} />
+                <SummaryRow
+                  label={`Disetujui (${settlement.approvedCount})`}
+                  value={formatCurrency(settlement.approvedAmount)}
+                />
+                {settlement.rejectedCount > 0 && (
+                  <SummaryRow label="Ditolak" value={`${settlement.rejectedCount} pengeluaran`} />
+                )}
+              </div>
+
+              {/* Unresolved expenses block settlement */}
+              {isOpen && settlement.unresolvedCount > 0 && (
+                <div className="flex items-start gap-2 rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <p>
+                    {settlement.unresolvedCount} pengeluaran belum disetujui. Kasbon dapat
+                    diselesaikan setelah semua pengeluaran diproses.
+                  </p>
+                </div>
+              )}
+
+              {isOpen && canSettle && (
+                <Button
+                  className="w-full"
+                  onClick={handleSettle}
+                  disabled={isSettling || settlement.unresolvedCount > 0}
+                >
+                  {isSettling ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Menyelesaikan...
+                    </>
+                  ) : (
+                    'Selesaikan Kasbon'
+                  )}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,4 @@
+export { AdvanceSelector } from './AdvanceSelector'
+export { SettlementSheet } from './SettlementSheet'
+export { IssueAdvanceDialog } from './IssueAdvanceDialog'
+export { AdvanceList } from './AdvanceList'
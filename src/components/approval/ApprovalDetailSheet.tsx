@@ -8,14 +8,6 @@ import {
   Briefcase,
   Building2,
   User,
-  Fuel,
-  Route,
-  ParkingCircle,
-  UtensilsCrossed,
-  Bed,
-  Car,
-  Package,
-  MoreHorizontal,
   ImageIcon,
 } from 'lucide-react'
 import {
@@ -27,41 +19,21 @@ import {
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { ApprovalActions } from './ApprovalActions'
+import { ApprovalSteps } from './ApprovalSteps'
+import { ApprovalTimeline } from './ApprovalTimeline'
+import { DuplicateWarning } from '@/components/duplicates'
+import { LineItemsSummary, ReceiptMetadataSummary } from '@/components/ocr'
+import { PolicyViolationAlert } from '@/components/policies'
+import { PerDiemBadge } from '@/components/per-diem'
+import { useExpenseDuplicates } from '@/hooks/use-expense-duplicates'
 import { cn } from '@/lib/utils/cn'
 import { formatCurrency } from '@/lib/utils/format-currency'
 import { formatDate } from '@/lib/utils/format-date'
-import { EXPENSE_CATEGORIES } from '@/constants/expense-categories'
+import { getCategoryColors, getCategoryIcon } from '@/components/categories'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
 import { createClient } from '@/lib/supabase/client'
 import type { DisplayExpense } from '@/types/expense-filters'
 
-/**
- * Icon mapping for expense categories
- */
-const CATEGORY_ICONS = {
-  fuel: Fuel,
-  toll: Route,
-  parking: ParkingCircle,
-  food: UtensilsCrossed,
-  lodging: Bed,
-  transport: Car,
-  supplies: Package,
-  other: MoreHorizontal,
-} as const
-
-/**
- * Color classes for category badges
- */
-const CATEGORY_COLORS = {
-  fuel: 'bg-orange-100 text-orange-700 border-orange-200',
-  toll: 'bg-blue-100 text-blue-700 border-blue-200',
-  parking: 'bg-purple-100 text-purple-700 border-purple-200',
-  food: 'bg-green-100 text-green-700 border-green-200',
-  lodging: 'bg-indigo-100 text-indigo-700 border-indigo-200',
-  transport: 'bg-cyan-100 text-cyan-700 border-cyan-200',
-  supplies: 'bg-amber-100 text-amber-700 border-amber-200',
-  other: 'bg-gray-100 text-gray-700 border-gray-200',
-} as const
-
 interface DetailRowProps {
   icon: React.ReactNode
   label: string
@@ -105,6 +77,8 @@ export function ApprovalDetailSheet({
 }: ApprovalDetailSheetProps) {
   const [receiptUrl, setReceiptUrl] = useState<string | null>(null)
   const [isLoadingReceipt, setIsLoadingReceipt] = useState(false)
+  const { matches: duplicateMatches } = useExpenseDuplicates(open ? expense : null)
+  const { getCategory } = useExpenseCategories()
 
   // Load receipt image
   useEffect(() => {
@@ -136,9 +110,9 @@ export function ApprovalDetailSheet({
 
   if (!expense) return null
 
-  const categoryConfig = EXPENSE_CATEGORIES[expense.category]
-  const Icon = CATEGORY_ICONS[expense.category] || MoreHorizontal
-  const categoryColors = CATEGORY_COLORS[expense.category] || CATEGORY_COLORS.other
+  const categoryConfig = getCategory(expense.category)
+  const Icon = getCategoryIcon(categoryConfig.icon)
+  const categoryColors = getCategoryColors(categoryConfig.color)
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -167,12 +141,17 @@ export function ApprovalDetailSheet({
               <span
                 className={cn(
                   'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium border',
-                  categoryColors
+                  categoryColors.badge
                 )}
               >
                 <Icon className="h-4 w-4" />
-                {categoryConfig?.labelFull || expense.category}
+                {categoryConfig.labelFull}
               </span>
+              {expense.isPerDiem && (
+                <div className="mt-2">
+                  <PerDiemBadge />
+                </div>
+              )}
               {expense.bkkNumber && (
                 <p className="mt-2 text-sm font-mono text-slate-500">
                   {expense.bkkNumber}
@@ -202,6 +181,14 @@ export function ApprovalDetailSheet({
               </div>
             </div>
 
+            {/* Suspected duplicates */}
+            <DuplicateWarning matches={duplicateMatches} />
+
+            {/* Spending policy violations */}
+            {expense.policyViolations && (
+              <PolicyViolationAlert violations={expense.policyViolations} compact />
+            )}
+
             {/* Receipt Image */}
             {expense.receipt?.storage_path && (
               <div className="rounded-xl overflow-hidden border border-slate-200 bg-slate-50">
@@ -287,6 +274,29 @@ export function ApprovalDetailSheet({
               )}
             </div>
 
+            {/* Details read from the receipt */}
+            {expense.receiptMetadata && (
+              <ReceiptMetadataSummary metadata={expense.receiptMetadata} />
+            )}
+
+            {/* Receipt itemization */}
+            {expense.lineItems && (
+              <LineItemsSummary
+                itemization={{
+                  lineItems: expense.lineItems,
+                  taxAmount: expense.taxAmount,
+                  serviceCharge: expense.serviceCharge,
+                }}
+                amount={expense.amount}
+              />
+            )}
+
+            {/* Approval Steps */}
+            <ApprovalSteps expenseId={expense.id} />
+
+            {/* Approval History */}
+            <ApprovalTimeline expenseId={expense.id} />
+
             {/* Approval Actions */}
             <div className="pt-4">
               <ApprovalActions
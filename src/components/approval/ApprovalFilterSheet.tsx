@@ -0,0 +1,223 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Filter } from 'lucide-react'
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetFooter,
+} from '@/components/ui/sheet'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { CategoryFilter } from '@/components/history/CategoryFilter'
+import { countApprovalFilters, type ApprovalFilterOption } from '@/lib/approval/filters'
+import type { ApprovalQueueFilters } from '@/types/approval'
+
+const ALL = 'all'
+
+interface ApprovalFilterSheetProps {
+  /** Whether the sheet is open */
+  open: boolean
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void
+  /** Current filter values */
+  filters: ApprovalQueueFilters
+  /** Callback when filters are applied */
+  onFiltersChange: (filters: ApprovalQueueFilters) => void
+  /** Submitters in the queue */
+  submitterOptions: ApprovalFilterOption[]
+  /** Job orders in the queue */
+  jobOrderOptions: ApprovalFilterOption[]
+}
+
+/**
+ * Parse an amount field, empty meaning no bound
+ */
+function parseAmount(value: string): number | undefined {
+  const amount = Number(value)
+  return value.trim() && Number.isFinite(amount) ? amount : undefined
+}
+
+/**
+ * ApprovalFilterSheet - Bottom sheet filtering the approval queue by
+ * submitter, job, category, amount range and policy violations
+ */
+export function ApprovalFilterSheet({
+  open,
+  onOpenChange,
+  filters,
+  onFiltersChange,
+  submitterOptions,
+  jobOrderOptions,
+}: ApprovalFilterSheetProps) {
+  // Local state for filters (applied on "Apply" button click)
+  const [localFilters, setLocalFilters] = useState<ApprovalQueueFilters>(filters)
+
+  // Sync local filters when external filters change
+  useEffect(() => {
+    setLocalFilters(filters)
+  }, [filters])
+
+  const handleApply = () => {
+    onFiltersChange(localFilters)
+    onOpenChange(false)
+  }
+
+  const handleClear = () => {
+    const emptyFilters: ApprovalQueueFilters = {}
+    setLocalFilters(emptyFilters)
+    onFiltersChange(emptyFilters)
+    onOpenChange(false)
+  }
+
+  const activeFilterCount = countApprovalFilters(localFilters)
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[85vh] rounded-t-2xl" showCloseButton={false}>
+        <SheetHeader className="border-b pb-4">
+          <div className="flex items-center justify-between">
+            <SheetTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filter
+              {activeFilterCount > 0 && (
+                <span className="bg-blue-100 text-blue-700 text-xs font-medium px-2 py-0.5 rounded-full">
+                  {activeFilterCount}
+                </span>
+              )}
+            </SheetTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onOpenChange(false)}
+              className="text-slate-500"
+            >
+              Tutup
+            </Button>
+          </div>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 py-4">
+          <div className="space-y-6 px-1">
+            {/* Submitter */}
+            <div className="space-y-2">
+              <Label htmlFor="approval-filter-submitter">Pengaju</Label>
+              <Select
+                value={localFilters.submitterId ?? ALL}
+                onValueChange={(value) =>
+                  setLocalFilters((f) => ({ ...f, submitterId: value === ALL ? undefined : value }))
+                }
+              >
+                <SelectTrigger id="approval-filter-submitter" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Semua pengaju</SelectItem>
+                  {submitterOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label} ({option.count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Job order */}
+            <div className="space-y-2">
+              <Label htmlFor="approval-filter-job">Job Order</Label>
+              <Select
+                value={localFilters.jobOrderId ?? ALL}
+                onValueChange={(value) =>
+                  setLocalFilters((f) => ({ ...f, jobOrderId: value === ALL ? undefined : value }))
+                }
+              >
+                <SelectTrigger id="approval-filter-job" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Semua job</SelectItem>
+                  {jobOrderOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label} ({option.count})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Category */}
+            <CategoryFilter
+              selected={localFilters.categories || []}
+              onChange={(categories) =>
+                setLocalFilters((f) => ({
+                  ...f,
+                  categories: categories.length > 0 ? categories : undefined,
+                }))
+              }
+            />
+
+            {/* Amount range */}
+            <div className="space-y-2">
+              <Label>Jumlah (Rp)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="Minimal"
+                  aria-label="Jumlah minimal"
+                  value={localFilters.minAmount ?? ''}
+                  onChange={(e) =>
+                    setLocalFilters((f) => ({ ...f, minAmount: parseAmount(e.target.value) }))
+                  }
+                />
+                <span className="text-slate-400">–</span>
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="Maksimal"
+                  aria-label="Jumlah maksimal"
+                  value={localFilters.maxAmount ?? ''}
+                  onChange={(e) =>
+                    setLocalFilters((f) => ({ ...f, maxAmount: parseAmount(e.target.value) }))
+                  }
+                />
+              </div>
+            </div>
+
+            {/* Policy violations */}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="approval-filter-violations">Hanya yang melanggar kebijakan</Label>
+              <Switch
+                id="approval-filter-violations"
+                checked={!!localFilters.violationsOnly}
+                onCheckedChange={(checked) =>
+                  setLocalFilters((f) => ({ ...f, violationsOnly: checked || undefined }))
+                }
+              />
+            </div>
+          </div>
+        </ScrollArea>
+
+        <SheetFooter className="border-t pt-4 flex-row gap-3">
+          <Button
+            variant="outline"
+            onClick={handleClear}
+            className="flex-1"
+            disabled={activeFilterCount === 0}
+          >
+            Hapus Filter
+          </Button>
+          <Button onClick={handleApply} className="flex-1">
+            Terapkan
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
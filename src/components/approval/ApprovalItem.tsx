@@ -1,52 +1,23 @@
 'use client'
 
 import {
-  Fuel,
-  Route,
-  ParkingCircle,
-  UtensilsCrossed,
-  Bed,
-  Car,
-  Package,
-  MoreHorizontal,
   User,
   Briefcase,
+  MapPin,
+  CheckSquare,
+  Square,
+  AlertCircle,
 } from 'lucide-react'
 import { cn } from '@/lib/utils/cn'
 import { formatCurrency } from '@/lib/utils/format-currency'
 import { formatDate } from '@/lib/utils/format-date'
-import { EXPENSE_CATEGORIES } from '@/constants/expense-categories'
+import { getCategoryColors, getCategoryIcon } from '@/components/categories'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { PolicyViolationAlert } from '@/components/policies'
+import { PerDiemBadge } from '@/components/per-diem'
 import { ApprovalActions } from './ApprovalActions'
 import type { DisplayExpense } from '@/types/expense-filters'
 
-/**
- * Icon mapping for expense categories
- */
-const CATEGORY_ICONS = {
-  fuel: Fuel,
-  toll: Route,
-  parking: ParkingCircle,
-  food: UtensilsCrossed,
-  lodging: Bed,
-  transport: Car,
-  supplies: Package,
-  other: MoreHorizontal,
-} as const
-
-/**
- * Color classes for category icons
- */
-const CATEGORY_COLORS = {
-  fuel: 'text-orange-500 bg-orange-50',
-  toll: 'text-blue-500 bg-blue-50',
-  parking: 'text-purple-500 bg-purple-50',
-  food: 'text-green-500 bg-green-50',
-  lodging: 'text-indigo-500 bg-indigo-50',
-  transport: 'text-cyan-500 bg-cyan-50',
-  supplies: 'text-amber-500 bg-amber-50',
-  other: 'text-gray-500 bg-gray-50',
-} as const
-
 interface PendingExpense extends DisplayExpense {
   submitterName?: string
   submitterEmail?: string
@@ -61,6 +32,12 @@ interface ApprovalItemProps {
   onAction?: () => void
   /** Callback on error */
   onError?: (error: string) => void
+  /** Whether the item is selected for a bulk action */
+  selected?: boolean
+  /** Toggle selection; the checkbox is shown when set */
+  onToggleSelect?: () => void
+  /** Why the last bulk action failed for this item */
+  errorMessage?: string
 }
 
 /**
@@ -71,20 +48,46 @@ export function ApprovalItem({
   onClick,
   onAction,
   onError,
+  selected = false,
+  onToggleSelect,
+  errorMessage,
 }: ApprovalItemProps) {
-  const categoryConfig = EXPENSE_CATEGORIES[expense.category]
-  const Icon = CATEGORY_ICONS[expense.category] || MoreHorizontal
-  const iconColors = CATEGORY_COLORS[expense.category] || CATEGORY_COLORS.other
+  const { getCategory } = useExpenseCategories()
+  const categoryConfig = getCategory(expense.category)
+  const Icon = getCategoryIcon(categoryConfig.icon)
+  const iconColors = getCategoryColors(categoryConfig.color)
+  const CheckIcon = selected ? CheckSquare : Square
 
   return (
-    <div className="bg-white rounded-xl border border-slate-100 p-4 space-y-3">
+    <div
+      className={cn(
+        'bg-white rounded-xl border p-4 space-y-3',
+        selected ? 'border-blue-300' : 'border-slate-100'
+      )}
+    >
       {/* Header: Amount and Category */}
       <div 
         className="flex items-start justify-between cursor-pointer"
         onClick={onClick}
       >
         <div className="flex items-center gap-3">
-          <div className={cn('p-2 rounded-lg', iconColors)}>
+          {onToggleSelect && (
+            <button
+              type="button"
+              aria-label={selected ? 'Batalkan pilihan' : 'Pilih'}
+              aria-pressed={selected}
+              onClick={(e) => {
+                e.stopPropagation()
+                onToggleSelect()
+              }}
+              className="-m-1 p-1"
+            >
+              <CheckIcon
+                className={cn('h-5 w-5', selected ? 'text-blue-600' : 'text-slate-300')}
+              />
+            </button>
+          )}
+          <div className={cn('p-2 rounded-lg', iconColors.bg, iconColors.text)}>
             <Icon className="h-5 w-5" />
           </div>
           <div>
@@ -92,8 +95,9 @@ export function ApprovalItem({
               {formatCurrency(expense.amount)}
             </p>
             <p className="text-sm text-slate-500">
-              {categoryConfig?.label || expense.category}
+              {categoryConfig.label}
             </p>
+            {expense.isPerDiem && <PerDiemBadge className="mt-1" />}
           </div>
         </div>
         <div className="text-right">
@@ -108,6 +112,17 @@ export function ApprovalItem({
         </div>
       </div>
 
+      {/* Current approval step */}
+      {expense.currentApprovalStep && expense.approvalStepCount && (
+        <div
+          className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-50 text-yellow-800 cursor-pointer"
+          onClick={onClick}
+        >
+          Tahap {expense.currentApprovalStep}/{expense.approvalStepCount}
+          {expense.approvalStepLabel && ` · ${expense.approvalStepLabel}`}
+        </div>
+      )}
+
       {/* Submitter Info */}
       <div 
         className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer"
@@ -144,6 +159,29 @@ export function ApprovalItem({
         </p>
       )}
 
+      {/* Off-route location explanation */}
+      {expense.locationExplanation && (
+        <div className="flex items-start gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <MapPin className="h-4 w-4 flex-shrink-0 mt-0.5 text-amber-600" />
+          <span>
+            <span className="font-medium">Di luar rute job:</span> {expense.locationExplanation}
+          </span>
+        </div>
+      )}
+
+      {/* Spending policy violations */}
+      {expense.policyViolations && (
+        <PolicyViolationAlert violations={expense.policyViolations} compact />
+      )}
+
+      {/* Last bulk action failure */}
+      {errorMessage && (
+        <div className="flex items-start gap-2 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <span>{errorMessage}</span>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="pt-2 border-t border-slate-100 flex justify-end">
         <ApprovalActions
@@ -1,13 +1,27 @@
 'use client'
 
-import { useState } from 'react'
-import { Inbox, RefreshCw, Loader2 } from 'lucide-react'
+import { useState, useMemo } from 'react'
+import { Inbox, RefreshCw, Loader2, Filter, Check, X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { ApprovalItem } from './ApprovalItem'
 import { ApprovalDetailSheet } from './ApprovalDetailSheet'
+import { ApprovalFilterSheet } from './ApprovalFilterSheet'
+import { BulkDecisionDialog } from './BulkDecisionDialog'
 import { usePendingApprovals } from '@/hooks/use-pending-approvals'
+import {
+  filterApprovalQueue,
+  countApprovalFilters,
+  getSubmitterOptions,
+  getJobOrderOptions,
+} from '@/lib/approval/filters'
+import { formatCurrency } from '@/lib/utils/format-currency'
 import type { DisplayExpense } from '@/types/expense-filters'
+import type {
+  ApprovalDecision,
+  ApprovalQueueFilters,
+  BulkDecisionItemResult,
+} from '@/types/approval'
 
 interface PendingExpense extends DisplayExpense {
   submitterName?: string
@@ -16,11 +30,37 @@ interface PendingExpense extends DisplayExpense {
 
 /**
  * ApprovalList - List of expenses pending approval
+ *
+ * Expenses can be filtered and multi-selected to approve or reject them
+ * in bulk; items that fail stay selected with their error.
  */
 export function ApprovalList() {
   const { expenses, isLoading, error, refresh, totalCount } = usePendingApprovals()
   const [selectedExpense, setSelectedExpense] = useState<PendingExpense | null>(null)
   const [toastMessage, setToastMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [filters, setFilters] = useState<ApprovalQueueFilters>({})
+  const [isFilterOpen, setIsFilterOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkDecision, setBulkDecision] = useState<ApprovalDecision | null>(null)
+  const [failures, setFailures] = useState<Record<string, string>>({})
+
+  const filteredExpenses = useMemo(
+    () => filterApprovalQueue(expenses, filters),
+    [expenses, filters]
+  )
+  const submitterOptions = useMemo(() => getSubmitterOptions(expenses), [expenses])
+  const jobOrderOptions = useMemo(() => getJobOrderOptions(expenses), [expenses])
+  const activeFilterCount = countApprovalFilters(filters)
+
+  // Only act on selected expenses that are still visible
+  const selectedExpenses = filteredExpenses.filter((expense) => selectedIds.includes(expense.id))
+  const selectedTotal = selectedExpenses.reduce((sum, expense) => sum + expense.amount, 0)
+  const allSelected =
+    filteredExpenses.length > 0 && selectedExpenses.length === filteredExpenses.length
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]))
+  }
 
   const handleAction = () => {
     setToastMessage({ type: 'success', text: 'Berhasil diproses' })
@@ -33,6 +73,26 @@ export function ApprovalList() {
     setTimeout(() => setToastMessage(null), 5000)
   }
 
+  const handleBulkDecided = (decision: ApprovalDecision, results: BulkDecisionItemResult[]) => {
+    const failed = results.filter((result) => !result.success)
+    const decidedCount = results.length - failed.length
+    const verb = decision === 'approved' ? 'disetujui' : 'ditolak'
+
+    setFailures(
+      Object.fromEntries(failed.map((result) => [result.expenseId, result.error || 'Gagal diproses']))
+    )
+    setSelectedIds(failed.map((result) => result.expenseId))
+    setToastMessage({
+      type: decidedCount > 0 ? 'success' : 'error',
+      text:
+        failed.length > 0
+          ? `${decidedCount} pengeluaran ${verb}, ${failed.length} gagal`
+          : `${decidedCount} pengeluaran ${verb}`,
+    })
+    refresh()
+    setTimeout(() => setToastMessage(null), 5000)
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -80,27 +140,108 @@ export function ApprovalList() {
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <p className="text-sm text-slate-500">
-          {totalCount} pengeluaran menunggu persetujuan
+          {activeFilterCount > 0
+            ? `${filteredExpenses.length} dari ${totalCount} pengeluaran menunggu persetujuan`
+            : `${totalCount} pengeluaran menunggu persetujuan`}
         </p>
-        <Button variant="ghost" size="sm" onClick={refresh}>
-          <RefreshCw className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => setIsFilterOpen(true)}>
+            <Filter className="h-4 w-4" />
+            {activeFilterCount > 0 && (
+              <span className="ml-1 bg-blue-100 text-blue-700 text-xs font-medium px-1.5 rounded-full">
+                {activeFilterCount}
+              </span>
+            )}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={refresh}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
 
+      {/* Selection and bulk actions */}
+      {filteredExpenses.length > 0 && (
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              setSelectedIds(allSelected ? [] : filteredExpenses.map((expense) => expense.id))
+            }
+          >
+            {allSelected ? 'Batalkan semua' : 'Pilih semua'}
+          </Button>
+          {selectedExpenses.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-slate-500">
+                {selectedExpenses.length} dipilih · {formatCurrency(selectedTotal)}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBulkDecision('rejected')}
+                className="border-red-200 text-red-600 hover:bg-red-50"
+              >
+                <X className="h-3.5 w-3.5" />
+                <span className="ml-1">Tolak</span>
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setBulkDecision('approved')}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                <Check className="h-3.5 w-3.5" />
+                <span className="ml-1">Setujui</span>
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* List */}
-      <ScrollArea className="h-[calc(100vh-220px)]">
-        <div className="space-y-3 pb-4">
-          {expenses.map((expense) => (
-            <ApprovalItem
-              key={expense.id}
-              expense={expense}
-              onClick={() => setSelectedExpense(expense)}
-              onAction={handleAction}
-              onError={handleError}
-            />
-          ))}
+      {filteredExpenses.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-slate-500 mb-4">Tidak ada pengeluaran yang cocok dengan filter</p>
+          <Button variant="outline" onClick={() => setFilters({})}>
+            Hapus Filter
+          </Button>
         </div>
-      </ScrollArea>
+      ) : (
+        <ScrollArea className="h-[calc(100vh-260px)]">
+          <div className="space-y-3 pb-4">
+            {filteredExpenses.map((expense) => (
+              <ApprovalItem
+                key={expense.id}
+                expense={expense}
+                onClick={() => setSelectedExpense(expense)}
+                onAction={handleAction}
+                onError={handleError}
+                selected={selectedIds.includes(expense.id)}
+                onToggleSelect={() => toggleSelected(expense.id)}
+                errorMessage={failures[expense.id]}
+              />
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      <ApprovalFilterSheet
+        open={isFilterOpen}
+        onOpenChange={setIsFilterOpen}
+        filters={filters}
+        onFiltersChange={setFilters}
+        submitterOptions={submitterOptions}
+        jobOrderOptions={jobOrderOptions}
+      />
+
+      <BulkDecisionDialog
+        decision={bulkDecision}
+        onClose={() => setBulkDecision(null)}
+        expenseIds={selectedExpenses.map((expense) => expense.id)}
+        totalAmount={selectedTotal}
+        onDecided={handleBulkDecided}
+        onError={handleError}
+      />
 
       {/* Detail Sheet */}
       <ApprovalDetailSheet
@@ -0,0 +1,65 @@
+'use client'
+
+import { CheckCircle2, XCircle, Clock, Circle } from 'lucide-react'
+import { useApprovalSteps } from '@/hooks/use-approval-steps'
+import { cn } from '@/lib/utils/cn'
+import { formatDate } from '@/lib/utils/format-date'
+import type { ApprovalStepStatus } from '@/types/approval'
+
+/**
+ * Icon and color per step status
+ */
+const STEP_STATUS_CONFIG: Record<
+  ApprovalStepStatus,
+  { Icon: typeof Circle; className: string; text: string }
+> = {
+  waiting: { Icon: Circle, className: 'text-slate-300', text: 'Menunggu tahap sebelumnya' },
+  pending: { Icon: Clock, className: 'text-yellow-600', text: 'Menunggu persetujuan' },
+  approved: { Icon: CheckCircle2, className: 'text-green-600', text: 'Disetujui' },
+  rejected: { Icon: XCircle, className: 'text-red-600', text: 'Ditolak' },
+}
+
+interface ApprovalStepsProps {
+  /** Server expense ID */
+  expenseId: string | null
+}
+
+/**
+ * ApprovalSteps - Ordered approval steps of an expense with their decision
+ *
+ * Renders nothing for expenses that were never submitted.
+ */
+export function ApprovalSteps({ expenseId }: ApprovalStepsProps) {
+  const { steps } = useApprovalSteps(expenseId)
+
+  if (steps.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-100 px-4 py-3">
+      <p className="text-xs text-slate-500 mb-2">Tahap Persetujuan</p>
+      <ol className="space-y-2">
+        {steps.map((step) => {
+          const { Icon, className, text } = STEP_STATUS_CONFIG[step.status]
+
+          return (
+            <li key={step.id} className="flex items-start gap-2">
+              <Icon className={cn('h-4 w-4 mt-0.5 flex-shrink-0', className)} />
+              <div className="min-w-0">
+                <p className="text-sm text-slate-900">
+                  {step.stepOrder}. {step.label}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {text}
+                  {step.approverName && ` oleh ${step.approverName}`}
+                  {step.decidedAt && ` • ${formatDate(step.decidedAt, 'relative')}`}
+                </p>
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
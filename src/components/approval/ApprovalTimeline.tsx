@@ -0,0 +1,112 @@
+'use client'
+
+import { Send, CheckCircle2, XCircle, RotateCcw, FileText, Banknote, type LucideIcon } from 'lucide-react'
+import { useApprovalEvents } from '@/hooks/use-approval-events'
+import { cn } from '@/lib/utils/cn'
+import { formatDateTime } from '@/lib/utils/format-date'
+import type { ApprovalEvent, ApprovalEventType } from '@/types/approval'
+
+/**
+ * Icon and color per event type
+ */
+const EVENT_CONFIG: Record<ApprovalEventType, { Icon: LucideIcon; className: string }> = {
+  submitted: { Icon: Send, className: 'bg-blue-100 text-blue-600' },
+  step_approved: { Icon: CheckCircle2, className: 'bg-green-50 text-green-600' },
+  approved: { Icon: CheckCircle2, className: 'bg-green-100 text-green-700' },
+  rejected: { Icon: XCircle, className: 'bg-red-100 text-red-600' },
+  resubmitted: { Icon: RotateCcw, className: 'bg-amber-100 text-amber-600' },
+  bkk_status_changed: { Icon: FileText, className: 'bg-slate-100 text-slate-600' },
+  paid: { Icon: Banknote, className: 'bg-emerald-100 text-emerald-700' },
+}
+
+/**
+ * BKK status labels
+ */
+const BKK_STATUS_LABELS: Record<string, string> = {
+  draft: 'dibuat',
+  pending: 'menunggu',
+  approved: 'disetujui',
+  paid: 'dibayar',
+}
+
+/**
+ * Describe an approval event in Indonesian
+ */
+function describeEvent(event: ApprovalEvent): string {
+  switch (event.eventType) {
+    case 'submitted':
+      return 'Diajukan untuk persetujuan'
+    case 'step_approved':
+      return `Tahap ${event.stepOrder} disetujui${event.stepLabel ? ` (${event.stepLabel})` : ''}`
+    case 'approved':
+      return 'Disetujui'
+    case 'rejected':
+      return `Ditolak${event.stepLabel ? ` pada tahap ${event.stepLabel}` : ''}`
+    case 'resubmitted':
+      return 'Dikembalikan ke draft untuk diajukan ulang'
+    case 'bkk_status_changed': {
+      const status = event.bkkStatus ? BKK_STATUS_LABELS[event.bkkStatus] ?? event.bkkStatus : null
+      return ['BKK', event.bkkNumber, status].filter(Boolean).join(' ')
+    }
+    case 'paid':
+      return 'Dibayar'
+  }
+}
+
+interface ApprovalTimelineProps {
+  /** Server expense ID */
+  expenseId: string | null
+}
+
+/**
+ * ApprovalTimeline - Approval history of an expense from the audit log
+ *
+ * Shows every submission, decision and BKK change, including earlier
+ * rejections that were followed by a resubmission. Renders nothing when
+ * there is no history.
+ */
+export function ApprovalTimeline({ expenseId }: ApprovalTimelineProps) {
+  const { events } = useApprovalEvents(expenseId)
+
+  if (events.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-100 px-4 py-3">
+      <p className="text-xs text-slate-500 mb-3">Riwayat Persetujuan</p>
+      <ol className="relative space-y-4">
+        {events.map((event, index) => {
+          const { Icon, className } = EVENT_CONFIG[event.eventType]
+          const isLast = index === events.length - 1
+
+          return (
+            <li key={event.id} className="relative flex gap-3">
+              {/* Connector */}
+              {!isLast && (
+                <span className="absolute left-3.5 top-7 -bottom-4 w-px bg-slate-200" />
+              )}
+
+              <div className={cn('relative h-7 w-7 flex-shrink-0 rounded-full flex items-center justify-center', className)}>
+                <Icon className="h-3.5 w-3.5" />
+              </div>
+
+              <div className="min-w-0 pt-0.5">
+                <p className="text-sm text-slate-900">{describeEvent(event)}</p>
+                <p className="text-xs text-slate-500">
+                  {event.actorName && `${event.actorName} • `}
+                  {formatDateTime(event.createdAt)}
+                </p>
+                {event.reason && (
+                  <p className="mt-1 text-xs text-red-700 bg-red-50 rounded px-2 py-1">
+                    {event.reason}
+                  </p>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
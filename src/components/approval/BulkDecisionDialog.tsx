@@ -0,0 +1,136 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { decideExpensesInBulkApi } from '@/lib/erp/api-client'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type { ApprovalDecision, BulkDecisionItemResult } from '@/types/approval'
+
+interface BulkDecisionDialogProps {
+  /** Decision to apply, or null when closed */
+  decision: ApprovalDecision | null
+  /** Callback when the dialog is closed */
+  onClose: () => void
+  /** Selected expense IDs */
+  expenseIds: string[]
+  /** Total amount of the selected expenses */
+  totalAmount: number
+  /** Callback with the per-expense results */
+  onDecided: (decision: ApprovalDecision, results: BulkDecisionItemResult[]) => void
+  /** Callback on error */
+  onError?: (error: string) => void
+}
+
+/**
+ * BulkDecisionDialog - Confirm approving, or reject with a shared reason,
+ * all selected expenses
+ */
+export function BulkDecisionDialog({
+  decision,
+  onClose,
+  expenseIds,
+  totalAmount,
+  onDecided,
+  onError,
+}: BulkDecisionDialogProps) {
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (decision) {
+      setReason('')
+    }
+  }, [decision])
+
+  const isReject = decision === 'rejected'
+
+  const handleSubmit = async () => {
+    if (!decision) return
+    if (isReject && !reason.trim()) {
+      onError?.('Masukkan alasan penolakan')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const result = await decideExpensesInBulkApi({
+        expenseIds,
+        decision,
+        reason: isReject ? reason.trim() : undefined,
+      })
+      if (result.success && result.results) {
+        onDecided(decision, result.results)
+        onClose()
+      } else {
+        onError?.(result.error || (isReject ? 'Gagal menolak' : 'Gagal menyetujui'))
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!decision} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isReject ? 'Tolak' : 'Setujui'} {expenseIds.length} Pengeluaran
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-4 space-y-4">
+          <p className="text-sm text-slate-600">
+            Total {formatCurrency(totalAmount)}. Setiap pengeluaran diproses sendiri; yang gagal
+            tetap terpilih beserta alasannya.
+          </p>
+          {isReject && (
+            <div>
+              <label className="text-sm font-medium text-slate-700 mb-2 block">
+                Alasan Penolakan
+              </label>
+              <textarea
+                className="w-full rounded-lg border border-slate-200 p-3 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none resize-none"
+                rows={3}
+                placeholder="Alasan ini dikirim ke semua pengaju..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Batal
+          </Button>
+          <Button
+            variant={isReject ? 'destructive' : 'default'}
+            onClick={handleSubmit}
+            disabled={isSubmitting || (isReject && !reason.trim())}
+            className={isReject ? undefined : 'bg-green-600 hover:bg-green-700'}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isReject ? 'Menolak...' : 'Menyetujui...'}
+              </>
+            ) : isReject ? (
+              'Tolak Semua'
+            ) : (
+              'Setujui Semua'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
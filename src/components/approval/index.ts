@@ -1,10 +1,14 @@
 /**
  * Approval Components
  * 
- * Components for expense approval workflow (finance roles)
+ * Components for expense approval workflow (approver roles)
  */
 
 export { ApprovalActions } from './ApprovalActions'
 export { ApprovalItem } from './ApprovalItem'
 export { ApprovalList } from './ApprovalList'
 export { ApprovalDetailSheet } from './ApprovalDetailSheet'
+export { ApprovalFilterSheet } from './ApprovalFilterSheet'
+export { BulkDecisionDialog } from './BulkDecisionDialog'
+export { ApprovalSteps } from './ApprovalSteps'
+export { ApprovalTimeline } from './ApprovalTimeline'
@@ -0,0 +1,310 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { cn } from '@/lib/utils/cn'
+import { saveExpenseCategoryApi } from '@/lib/erp/api-client'
+import { CATEGORY_CODE_PATTERN } from '@/lib/categories/registry'
+import { CATEGORY_COLOR_NAMES, CATEGORY_ICON_NAMES } from '@/constants/expense-categories'
+import { getCategoryColors, getCategoryIcon } from './category-styles'
+import type { ExpenseCategoryConfig } from '@/types/expense-category'
+
+interface CategoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Category to edit; null creates a new category */
+  category: ExpenseCategoryConfig | null
+  /** Sort order suggested for a new category */
+  nextSortOrder?: number
+  /** Callback after the category was saved */
+  onSaved?: () => void
+  onError?: (error: string) => void
+}
+
+/**
+ * Suggest a code from a label, e.g. "Bongkar Muat" -> "bongkar_muat"
+ */
+function toCategoryCode(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40)
+}
+
+/**
+ * CategoryDialog - Form for finance to create or edit an expense category
+ *
+ * Categories are deactivated instead of deleted, so older expenses keep
+ * their category.
+ */
+export function CategoryDialog({
+  open,
+  onOpenChange,
+  category,
+  nextSortOrder = 0,
+  onSaved,
+  onError,
+}: CategoryDialogProps) {
+  const [code, setCode] = useState('')
+  const [isCodeEdited, setIsCodeEdited] = useState(false)
+  const [label, setLabel] = useState('')
+  const [labelFull, setLabelFull] = useState('')
+  const [icon, setIcon] = useState<string>('MoreHorizontal')
+  const [color, setColor] = useState<string>('gray')
+  const [glAccountCode, setGlAccountCode] = useState('')
+  const [overheadGlAccountCode, setOverheadGlAccountCode] = useState('')
+  const [sortOrder, setSortOrder] = useState('0')
+  const [isActive, setIsActive] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Load the edited category (or blank values) when the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setCode(category?.code ?? '')
+    setIsCodeEdited(false)
+    setLabel(category?.label ?? '')
+    setLabelFull(category?.labelFull ?? '')
+    setIcon(category?.icon ?? 'MoreHorizontal')
+    setColor(category?.color ?? 'gray')
+    setGlAccountCode(category?.glAccountCode ?? '')
+    setOverheadGlAccountCode(category?.overheadGlAccountCode ?? '')
+    setSortOrder(String(category?.sortOrder ?? nextSortOrder))
+    setIsActive(category?.isActive ?? true)
+  }, [open, category, nextSortOrder])
+
+  const handleLabelChange = (value: string) => {
+    setLabel(value)
+    // Suggest the code from the label until it is typed by hand
+    if (!category && !isCodeEdited) {
+      setCode(toCategoryCode(value))
+    }
+  }
+
+  const isCodeValid = CATEGORY_CODE_PATTERN.test(code)
+  const parsedSortOrder = parseInt(sortOrder, 10)
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await saveExpenseCategoryApi({
+        code,
+        isNew: !category,
+        label,
+        labelFull,
+        icon,
+        color,
+        glAccountCode,
+        overheadGlAccountCode,
+        sortOrder: isNaN(parsedSortOrder) ? 0 : parsedSortOrder,
+        isActive,
+      })
+
+      if (result.success) {
+        onSaved?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menyimpan kategori')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{category ? 'Ubah Kategori' : 'Tambah Kategori'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Labels */}
+          <div className="space-y-2">
+            <Label htmlFor="category-label">Nama singkat</Label>
+            <Input
+              id="category-label"
+              value={label}
+              onChange={(e) => handleLabelChange(e.target.value)}
+              placeholder="Contoh: Bongkar Muat"
+              maxLength={20}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="category-label-full">Nama lengkap</Label>
+            <Input
+              id="category-label-full"
+              value={labelFull}
+              onChange={(e) => setLabelFull(e.target.value)}
+              placeholder="Sama dengan nama singkat bila kosong"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Code */}
+          <div className="space-y-2">
+            <Label htmlFor="category-code">Kode</Label>
+            <Input
+              id="category-code"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value)
+                setIsCodeEdited(true)
+              }}
+              disabled={isSubmitting || !!category}
+            />
+            <p className="text-xs text-slate-500">
+              {category
+                ? 'Kode tidak bisa diubah karena dipakai oleh pengeluaran.'
+                : 'Huruf kecil, angka dan garis bawah. Tidak bisa diubah setelah disimpan.'}
+            </p>
+          </div>
+
+          {/* Icon */}
+          <div className="space-y-2">
+            <Label>Ikon</Label>
+            <div className="grid grid-cols-8 gap-1.5">
+              {CATEGORY_ICON_NAMES.map((name) => {
+                const Icon = getCategoryIcon(name)
+                return (
+                  <button
+                    key={name}
+                    type="button"
+                    aria-label={name}
+                    aria-pressed={icon === name}
+                    onClick={() => setIcon(name)}
+                    disabled={isSubmitting}
+                    className={cn(
+                      'flex h-9 items-center justify-center rounded-md border',
+                      icon === name
+                        ? 'border-blue-500 bg-blue-50 text-blue-600'
+                        : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                    )}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
+          {/* Color */}
+          <div className="space-y-2">
+            <Label>Warna</Label>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLOR_NAMES.map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  aria-label={name}
+                  aria-pressed={color === name}
+                  onClick={() => setColor(name)}
+                  disabled={isSubmitting}
+                  className={cn(
+                    'h-7 w-7 rounded-full border-2',
+                    getCategoryColors(name).progress,
+                    color === name ? 'border-slate-900' : 'border-transparent'
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* GL accounts */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="category-gl">Akun GL</Label>
+              <Input
+                id="category-gl"
+                value={glAccountCode}
+                onChange={(e) => setGlAccountCode(e.target.value)}
+                placeholder="Contoh: 5110"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-gl-overhead">Akun GL overhead</Label>
+              <Input
+                id="category-gl-overhead"
+                value={overheadGlAccountCode}
+                onChange={(e) => setOverheadGlAccountCode(e.target.value)}
+                placeholder="Sama dengan akun GL"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          {/* Order */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="category-order">Urutan</Label>
+              <Input
+                id="category-order"
+                type="number"
+                inputMode="numeric"
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          {/* Active */}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="category-active">Aktif</Label>
+              <p className="text-xs text-slate-500">
+                Kategori nonaktif tidak bisa dipilih lagi; pengeluaran lama tetap memakainya
+              </p>
+            </div>
+            <Switch
+              id="category-active"
+              checked={isActive}
+              onCheckedChange={setIsActive}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !label.trim() || !isCodeValid}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menyimpan...
+              </>
+            ) : (
+              'Simpan'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { ChevronRight } from 'lucide-react'
+import { cn } from '@/lib/utils/cn'
+import { getCategoryColors, getCategoryIcon } from './category-styles'
+import type { ExpenseCategoryConfig } from '@/types/expense-category'
+
+interface CategoryListProps {
+  categories: ExpenseCategoryConfig[]
+  onSelect: (category: ExpenseCategoryConfig) => void
+}
+
+/**
+ * CategoryList - Expense categories in display order with their GL account
+ */
+export function CategoryList({ categories, onSelect }: CategoryListProps) {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+      {categories.map((category) => {
+        const Icon = getCategoryIcon(category.icon)
+        const colors = getCategoryColors(category.color)
+
+        return (
+          <button
+            key={category.code}
+            onClick={() => onSelect(category)}
+            className="w-full p-4 flex items-center gap-3 text-left hover:bg-gray-50 transition-colors"
+          >
+            <div
+              className={cn(
+                'w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0',
+                colors.bgStrong,
+                !category.isActive && 'opacity-50'
+              )}
+            >
+              <Icon className={cn('h-5 w-5', colors.text)} />
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-900 truncate">
+                  {category.labelFull}
+                </span>
+                {!category.isActive && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                    Nonaktif
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5 truncate">
+                {category.code}
+                {category.glAccountCode ? ` · Akun ${category.glAccountCode}` : ' · Belum ada akun GL'}
+              </p>
+            </div>
+
+            <ChevronRight className="h-4 w-4 text-gray-400" />
+          </button>
+        )
+      })}
+    </div>
+  )
+}
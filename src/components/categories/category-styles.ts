@@ -0,0 +1,169 @@
+import {
+  Fuel,
+  Route,
+  ParkingCircle,
+  UtensilsCrossed,
+  Bed,
+  Car,
+  Package,
+  Truck,
+  Forklift,
+  Scale,
+  Wrench,
+  Anchor,
+  Ship,
+  Phone,
+  Receipt,
+  MoreHorizontal,
+  type LucideIcon,
+} from 'lucide-react'
+import type { CATEGORY_COLOR_NAMES, CATEGORY_ICON_NAMES } from '@/constants/expense-categories'
+
+/**
+ * Icon components for the category icon names
+ */
+export const CATEGORY_ICONS: Record<(typeof CATEGORY_ICON_NAMES)[number], LucideIcon> = {
+  Fuel,
+  Route,
+  ParkingCircle,
+  UtensilsCrossed,
+  Bed,
+  Car,
+  Package,
+  Truck,
+  Forklift,
+  Scale,
+  Wrench,
+  Anchor,
+  Ship,
+  Phone,
+  Receipt,
+  MoreHorizontal,
+}
+
+export interface CategoryColorClasses {
+  /** Light background, e.g. unselected chips */
+  bg: string
+  /** Stronger background, e.g. selected chips and icon circles */
+  bgStrong: string
+  text: string
+  border: string
+  /** Border of a selected chip */
+  borderStrong: string
+  /** Background, text and border of a category badge */
+  badge: string
+  /** Fill of a progress bar */
+  progress: string
+}
+
+/**
+ * Tailwind classes for the category color names
+ *
+ * Written out in full so Tailwind keeps them in the build.
+ */
+export const CATEGORY_COLOR_CLASSES: Record<(typeof CATEGORY_COLOR_NAMES)[number], CategoryColorClasses> = {
+  orange: {
+    bg: 'bg-orange-50',
+    bgStrong: 'bg-orange-100',
+    text: 'text-orange-600',
+    border: 'border-orange-200',
+    borderStrong: 'border-orange-500',
+    badge: 'bg-orange-100 text-orange-700 border-orange-200',
+    progress: 'bg-orange-500',
+  },
+  blue: {
+    bg: 'bg-blue-50',
+    bgStrong: 'bg-blue-100',
+    text: 'text-blue-600',
+    border: 'border-blue-200',
+    borderStrong: 'border-blue-500',
+    badge: 'bg-blue-100 text-blue-700 border-blue-200',
+    progress: 'bg-blue-500',
+  },
+  purple: {
+    bg: 'bg-purple-50',
+    bgStrong: 'bg-purple-100',
+    text: 'text-purple-600',
+    border: 'border-purple-200',
+    borderStrong: 'border-purple-500',
+    badge: 'bg-purple-100 text-purple-700 border-purple-200',
+    progress: 'bg-purple-500',
+  },
+  green: {
+    bg: 'bg-green-50',
+    bgStrong: 'bg-green-100',
+    text: 'text-green-600',
+    border: 'border-green-200',
+    borderStrong: 'border-green-500',
+    badge: 'bg-green-100 text-green-700 border-green-200',
+    progress: 'bg-green-500',
+  },
+  indigo: {
+    bg: 'bg-indigo-50',
+    bgStrong: 'bg-indigo-100',
+    text: 'text-indigo-600',
+    border: 'border-indigo-200',
+    borderStrong: 'border-indigo-500',
+    badge: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+    progress: 'bg-indigo-500',
+  },
+  cyan: {
+    bg: 'bg-cyan-50',
+    bgStrong: 'bg-cyan-100',
+    text: 'text-cyan-600',
+    border: 'border-cyan-200',
+    borderStrong: 'border-cyan-500',
+    badge: 'bg-cyan-100 text-cyan-700 border-cyan-200',
+    progress: 'bg-cyan-500',
+  },
+  amber: {
+    bg: 'bg-amber-50',
+    bgStrong: 'bg-amber-100',
+    text: 'text-amber-600',
+    border: 'border-amber-200',
+    borderStrong: 'border-amber-500',
+    badge: 'bg-amber-100 text-amber-700 border-amber-200',
+    progress: 'bg-amber-500',
+  },
+  red: {
+    bg: 'bg-red-50',
+    bgStrong: 'bg-red-100',
+    text: 'text-red-600',
+    border: 'border-red-200',
+    borderStrong: 'border-red-500',
+    badge: 'bg-red-100 text-red-700 border-red-200',
+    progress: 'bg-red-500',
+  },
+  teal: {
+    bg: 'bg-teal-50',
+    bgStrong: 'bg-teal-100',
+    text: 'text-teal-600',
+    border: 'border-teal-200',
+    borderStrong: 'border-teal-500',
+    badge: 'bg-teal-100 text-teal-700 border-teal-200',
+    progress: 'bg-teal-500',
+  },
+  gray: {
+    bg: 'bg-gray-50',
+    bgStrong: 'bg-gray-100',
+    text: 'text-gray-600',
+    border: 'border-gray-200',
+    borderStrong: 'border-gray-500',
+    badge: 'bg-gray-100 text-gray-700 border-gray-200',
+    progress: 'bg-gray-500',
+  },
+}
+
+/**
+ * Icon for a category icon name, falling back to MoreHorizontal
+ */
+export function getCategoryIcon(name: string): LucideIcon {
+  return CATEGORY_ICONS[name as keyof typeof CATEGORY_ICONS] ?? MoreHorizontal
+}
+
+/**
+ * Color classes for a category color name, falling back to gray
+ */
+export function getCategoryColors(name: string): CategoryColorClasses {
+  return CATEGORY_COLOR_CLASSES[name as keyof typeof CATEGORY_COLOR_CLASSES] ?? CATEGORY_COLOR_CLASSES.gray
+}
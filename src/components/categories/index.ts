@@ -0,0 +1,9 @@
+export {
+  CATEGORY_ICONS,
+  CATEGORY_COLOR_CLASSES,
+  getCategoryIcon,
+  getCategoryColors,
+} from './category-styles'
+export type { CategoryColorClasses } from './category-styles'
+export { CategoryList } from './CategoryList'
+export { CategoryDialog } from './CategoryDialog'
@@ -0,0 +1,95 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { Wallet, ChevronRight } from 'lucide-react'
+import { useAdvanceBalances } from '@/hooks/use-advances'
+import { useUser } from '@/hooks/use-user'
+import { ADVANCE_MANAGER_ROLES } from '@/lib/advances/roles'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+
+/**
+ * AdvanceBalance - Shows remaining balance of the user's open cash advances
+ *
+ * Balances include expenses captured offline that have not synced yet.
+ * Without an open advance, only finance roles see a link to manage
+ * advances. Clicking navigates to the advances page.
+ */
+export function AdvanceBalance() {
+  const { advances, isLoading } = useAdvanceBalances()
+  const { profile } = useUser()
+  const router = useRouter()
+
+  if (isLoading) {
+    return null
+  }
+
+  if (advances.length === 0) {
+    if (!profile || !ADVANCE_MANAGER_ROLES.includes(profile.role)) {
+      return null
+    }
+
+    return (
+      <button
+        onClick={() => router.push('/advances')}
+        className="w-full bg-white rounded-lg border border-gray-200 p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex-shrink-0 p-2.5 rounded-full bg-emerald-100">
+          <Wallet className="h-5 w-5 text-emerald-600" />
+        </div>
+        <div className="flex-1 text-left">
+          <h3 className="font-semibold text-gray-900">Kasbon</h3>
+          <p className="text-sm text-gray-600">Kelola kasbon karyawan</p>
+        </div>
+        <ChevronRight className="h-5 w-5 text-gray-400" />
+      </button>
+    )
+  }
+
+  const totalRemaining = advances.reduce((sum, advance) => sum + advance.remaining, 0)
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+      <button
+        onClick={() => router.push('/advances')}
+        className="w-full p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors"
+      >
+        {/* Icon */}
+        <div className="flex-shrink-0 p-2.5 rounded-full bg-emerald-100">
+          <Wallet className="h-5 w-5 text-emerald-600" />
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 text-left">
+          <h3 className="font-semibold text-gray-900">Sisa Kasbon</h3>
+          <p
+            className={cn(
+              'text-sm font-medium',
+              totalRemaining < 0 ? 'text-red-600' : 'text-gray-600'
+            )}
+          >
+            {formatCurrency(totalRemaining)}
+          </p>
+        </div>
+
+        {/* Arrow */}
+        <ChevronRight className="h-5 w-5 text-gray-400" />
+      </button>
+
+      {/* Per-advance balances */}
+      <div className="px-4 pb-3 space-y-1">
+        {advances.map((advance) => (
+          <div key={advance.id} className="flex items-center justify-between text-xs">
+            <span className="text-gray-500 truncate">
+              {advance.advanceNumber}
+              {advance.jobNumber ? ` · ${advance.jobNumber}` : ''}
+            </span>
+            <span className={cn(advance.remaining < 0 ? 'text-red-600' : 'text-gray-700')}>
+              {formatCurrency(advance.remaining)} / {formatCurrency(advance.amount)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 'use client'
 
 import { useUser } from '@/hooks/use-user'
+import { APPROVER_ROLES } from '@/constants/approval-policy'
+import type { UserRole } from '@/types/supabase'
 import { PendingApprovals } from './PendingApprovals'
 import { TeamSummary } from './TeamSummary'
 
@@ -8,9 +10,9 @@ import { TeamSummary } from './TeamSummary'
  * ManagerSection - Role-specific dashboard content for managers
  *
  * Shows different content based on user role:
- * - Finance managers: Pending approvals count
+ * - Approvers (see APPROVAL_POLICY): Count of expenses awaiting their step
  * - Operations managers: Team expense summary
- * - Owner/Director: Both pending approvals and team summary
+ * - Owner/Director: Team summary
  *
  * Regular users (ops, engineer, finance staff) don't see this section.
  */
@@ -32,9 +34,7 @@ export function ManagerSection() {
     return null
   }
 
-  const isFinanceRole = ['finance_manager', 'owner', 'director'].includes(
-    profile.role
-  )
+  const isApproverRole = APPROVER_ROLES.includes(profile.role as UserRole)
   const isOperationsRole = [
     'operations_manager',
     'owner',
@@ -43,8 +43,8 @@ export function ManagerSection() {
 
   return (
     <div className="space-y-4">
-      {/* Finance managers see pending approvals */}
-      {isFinanceRole && <PendingApprovals />}
+      {/* Approvers see expenses awaiting their step */}
+      {isApproverRole && <PendingApprovals />}
 
       {/* Operations managers see team summary */}
       {isOperationsRole && <TeamSummary />}
@@ -1,53 +1,20 @@
 'use client'
 
-import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { ClipboardCheck, ChevronRight } from 'lucide-react'
-import { createClient } from '@/lib/supabase/client'
+import { usePendingCount } from '@/hooks/use-pending-count'
 import { cn } from '@/lib/utils/cn'
 
 /**
- * PendingApprovals - Shows count of expenses pending approval
+ * PendingApprovals - Shows count of expenses awaiting the user's approval
  *
- * For finance managers to see how many expenses need their review.
- * Clicking navigates to the approval page (to be implemented in v0.9).
+ * Only counts expenses whose current approval step can be decided by
+ * the user's role. Clicking navigates to the approval page.
  */
 export function PendingApprovals() {
-  const [count, setCount] = useState<number>(0)
-  const [isLoading, setIsLoading] = useState(true)
+  const { count, isLoading } = usePendingCount()
   const router = useRouter()
 
-  useEffect(() => {
-    const loadPendingCount = async () => {
-      try {
-        const supabase = createClient()
-
-        // Count expenses with pending_approval status
-        const { count: pendingCount, error } = await supabase
-          .from('expense_drafts')
-          .select('*', { count: 'exact', head: true })
-          .eq('approval_status', 'pending_approval')
-
-        if (error) {
-          console.error('Failed to load pending approvals:', error)
-          return
-        }
-
-        setCount(pendingCount ?? 0)
-      } catch (error) {
-        console.error('Failed to load pending approvals:', error)
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    loadPendingCount()
-
-    // Poll for updates every 30 seconds
-    const interval = setInterval(loadPendingCount, 30000)
-    return () => clearInterval(interval)
-  }, [])
-
   // Don't show if no pending approvals
   if (!isLoading && count === 0) {
     return null
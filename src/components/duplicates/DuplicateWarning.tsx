@@ -0,0 +1,165 @@
+'use client'
+
+import Link from 'next/link'
+import { Copy, ExternalLink } from 'lucide-react'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import { Button } from '@/components/ui/button'
+import { ApprovalStatusBadge } from '@/components/history/ApprovalStatusBadge'
+import type { DuplicateMatch, DuplicateReason } from '@/types/duplicates'
+
+export interface DuplicateWarningProps {
+  /** Suspected duplicates, most likely first */
+  matches: DuplicateMatch[]
+  /** Callback when user saves anyway; omit for an informational warning */
+  onProceed?: () => void
+  /** Callback when user cancels */
+  onCancel?: () => void
+  /** Open expense links in a new tab (keeps an unsaved form intact) */
+  openLinksInNewTab?: boolean
+  /** Additional CSS classes */
+  className?: string
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  same_receipt: 'Foto struk sama',
+  same_amount: 'Jumlah sama',
+  same_date: 'Tanggal sama',
+  near_date: 'Tanggal berdekatan',
+  similar_vendor: 'Vendor mirip',
+  same_job: 'Job sama',
+}
+
+/** Matches listed before the rest are summarized */
+const MAX_LISTED = 3
+
+/**
+ * DuplicateWarning shows expenses that look like the same receipt or
+ * expense recorded twice, each linking to the matching expense.
+ *
+ * @example
+ * <DuplicateWarning
+ *   matches={matches}
+ *   onProceed={() => save()}
+ *   onCancel={() => setMatches([])}
+ * />
+ */
+export function DuplicateWarning({
+  matches,
+  onProceed,
+  onCancel,
+  openLinksInNewTab = false,
+  className,
+}: DuplicateWarningProps) {
+  if (matches.length === 0) return null
+
+  const listed = matches.slice(0, MAX_LISTED)
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col gap-3 p-4 rounded-lg',
+        'bg-orange-50 border border-orange-200',
+        className
+      )}
+      role="alert"
+      aria-live="polite"
+    >
+      <div className="flex items-start gap-3">
+        <Copy className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <h4 className="text-sm font-medium text-orange-800">Kemungkinan Duplikat</h4>
+          <p className="text-sm text-orange-700 mt-1">
+            {matches.length === 1
+              ? 'Pengeluaran ini mirip dengan pengeluaran yang sudah tercatat.'
+              : `Pengeluaran ini mirip dengan ${matches.length} pengeluaran yang sudah tercatat.`}
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {listed.map(({ expense, reasons }) => {
+          const content = (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-slate-900">
+                  {formatCurrency(expense.amount)}
+                </span>
+                {expense.approvalStatus && (
+                  <ApprovalStatusBadge status={expense.approvalStatus} showLabel />
+                )}
+              </div>
+              <p className="text-xs text-slate-600 truncate">
+                {[
+                  formatDate(expense.expenseDate, 'medium'),
+                  expense.vendorName,
+                  expense.jobNumber,
+                  expense.submitterName,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+              <p className="text-xs text-orange-700">
+                {reasons.map((reason) => REASON_LABELS[reason]).join(', ')}
+              </p>
+            </>
+          )
+
+          return (
+            <li key={expense.id}>
+              {expense.source === 'server' ? (
+                <Link
+                  href={`/expenses/${expense.id}`}
+                  target={openLinksInNewTab ? '_blank' : undefined}
+                  className="block rounded-md border border-orange-200 bg-white px-3 py-2 space-y-1 hover:bg-orange-100/40"
+                >
+                  {content}
+                  <span className="inline-flex items-center gap-1 text-xs text-blue-600">
+                    Lihat pengeluaran
+                    <ExternalLink className="h-3 w-3" />
+                  </span>
+                </Link>
+              ) : (
+                <div className="rounded-md border border-orange-200 bg-white px-3 py-2 space-y-1">
+                  {content}
+                  <span className="text-xs text-slate-500">Belum tersinkron di perangkat ini</span>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      {matches.length > MAX_LISTED && (
+        <p className="text-xs text-orange-700">
+          dan {matches.length - MAX_LISTED} pengeluaran lainnya
+        </p>
+      )}
+
+      {(onProceed || onCancel) && (
+        <div className="flex gap-2 justify-end">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="border-orange-300 text-orange-800 hover:bg-orange-100"
+            >
+              Batal
+            </Button>
+          )}
+          {onProceed && (
+            <Button
+              type="button"
+              onClick={onProceed}
+              className="bg-orange-600 text-white hover:bg-orange-700"
+            >
+              Tetap Simpan
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export { DuplicateWarning } from './DuplicateWarning'
+export type { DuplicateWarningProps } from './DuplicateWarning'
@@ -0,0 +1,67 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils/cn'
+import type { ExpenseFilters } from '@/types/expense-filters'
+
+interface AmountRangeFilterProps {
+  /** Current filter values */
+  value: Pick<ExpenseFilters, 'minAmount' | 'maxAmount'>
+  /** Callback when filter values change */
+  onChange: (value: Pick<ExpenseFilters, 'minAmount' | 'maxAmount'>) => void
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * Parse an amount field, empty meaning no bound
+ */
+function parseAmount(value: string): number | undefined {
+  const amount = Number(value)
+  return value.trim() && Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
+/**
+ * AmountRangeFilter - Minimum and maximum amount, both inclusive
+ */
+export function AmountRangeFilter({ value, onChange, className }: AmountRangeFilterProps) {
+  return (
+    <div className={cn('space-y-3', className)}>
+      <Label className="text-sm font-medium text-slate-700">Jumlah (Rp)</Label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="amount-min" className="text-xs text-slate-500">
+            Minimal
+          </Label>
+          <Input
+            id="amount-min"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="0"
+            value={value.minAmount ?? ''}
+            onChange={(e) => onChange({ ...value, minAmount: parseAmount(e.target.value) })}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="amount-max" className="text-xs text-slate-500">
+            Maksimal
+          </Label>
+          <Input
+            id="amount-max"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Tanpa batas"
+            value={value.maxAmount ?? ''}
+            onChange={(e) => onChange({ ...value, maxAmount: parseAmount(e.target.value) })}
+            className="text-sm"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
 'use client'
 
-import { FileText, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react'
+import { FileText, Clock, CheckCircle, XCircle, AlertCircle, Banknote } from 'lucide-react'
 import { cn } from '@/lib/utils/cn'
 import { formatDate } from '@/lib/utils/format-date'
+import { PAYMENT_METHOD_LABELS } from '@/constants/payment-methods'
 import type { ApprovalStatus } from '@/types/expense-filters'
+import type { PaymentMethod } from '@/types/payment'
 
 /**
  * Approval status configuration
@@ -37,6 +39,13 @@ const APPROVAL_STATUS_CONFIG = {
     textColor: 'text-red-700',
     borderColor: 'border-red-200',
   },
+  paid: {
+    label: 'Dibayar',
+    Icon: Banknote,
+    bgColor: 'bg-emerald-100',
+    textColor: 'text-emerald-700',
+    borderColor: 'border-emerald-200',
+  },
 } as const
 
 /**
@@ -55,6 +64,10 @@ export interface ApprovalDetails {
   approvedBy?: string
   /** Rejection reason if rejected */
   rejectionReason?: string
+  /** When paid */
+  paidAt?: string
+  /** How it was paid */
+  paymentMethod?: PaymentMethod
 }
 
 interface ApprovalStatusBadgeProps {
@@ -110,6 +123,11 @@ export function ApprovalStatusBadge({
     if (details?.approvedBy) {
       parts.push(`Oleh: ${details.approvedBy}`)
     }
+
+    if (status === 'paid' && details?.paidAt) {
+      const method = details.paymentMethod ? ` (${PAYMENT_METHOD_LABELS[details.paymentMethod]})` : ''
+      parts.push(`Dibayar: ${formatDate(details.paidAt, 'medium')}${method}`)
+    }
     
     if (status === 'rejected' && details?.rejectionReason) {
       parts.push(`Alasan: ${details.rejectionReason}`)
@@ -174,6 +192,13 @@ export function ApprovalStatusBadge({
             </>
           )}
           
+          {status === 'paid' && details.paidAt && (
+            <p>
+              Dibayar {formatDate(details.paidAt, 'relative')}
+              {details.paymentMethod && ` · ${PAYMENT_METHOD_LABELS[details.paymentMethod]}`}
+            </p>
+          )}
+
           {status === 'rejected' && details.rejectionReason && (
             <div className="mt-1 p-2 bg-red-50 rounded text-red-600 flex gap-1.5">
               <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
@@ -1,85 +1,11 @@
 'use client'
 
-import { Check, Fuel, Route, ParkingCircle, UtensilsCrossed, Bed, Car, Package, MoreHorizontal } from 'lucide-react'
+import { Check } from 'lucide-react'
 import { Label } from '@/components/ui/label'
 import { cn } from '@/lib/utils/cn'
-import { EXPENSE_CATEGORY_LIST, type ExpenseCategory } from '@/constants/expense-categories'
-
-/**
- * Icon mapping for expense categories
- */
-const CATEGORY_ICONS = {
-  fuel: Fuel,
-  toll: Route,
-  parking: ParkingCircle,
-  food: UtensilsCrossed,
-  lodging: Bed,
-  transport: Car,
-  supplies: Package,
-  other: MoreHorizontal,
-} as const
-
-/**
- * Color classes for category items
- */
-const CATEGORY_COLORS = {
-  fuel: {
-    bg: 'bg-orange-50',
-    bgSelected: 'bg-orange-100',
-    border: 'border-orange-200',
-    borderSelected: 'border-orange-400',
-    text: 'text-orange-700',
-  },
-  toll: {
-    bg: 'bg-blue-50',
-    bgSelected: 'bg-blue-100',
-    border: 'border-blue-200',
-    borderSelected: 'border-blue-400',
-    text: 'text-blue-700',
-  },
-  parking: {
-    bg: 'bg-purple-50',
-    bgSelected: 'bg-purple-100',
-    border: 'border-purple-200',
-    borderSelected: 'border-purple-400',
-    text: 'text-purple-700',
-  },
-  food: {
-    bg: 'bg-green-50',
-    bgSelected: 'bg-green-100',
-    border: 'border-green-200',
-    borderSelected: 'border-green-400',
-    text: 'text-green-700',
-  },
-  lodging: {
-    bg: 'bg-indigo-50',
-    bgSelected: 'bg-indigo-100',
-    border: 'border-indigo-200',
-    borderSelected: 'border-indigo-400',
-    text: 'text-indigo-700',
-  },
-  transport: {
-    bg: 'bg-cyan-50',
-    bgSelected: 'bg-cyan-100',
-    border: 'border-cyan-200',
-    borderSelected: 'border-cyan-400',
-    text: 'text-cyan-700',
-  },
-  supplies: {
-    bg: 'bg-amber-50',
-    bgSelected: 'bg-amber-100',
-    border: 'border-amber-200',
-    borderSelected: 'border-amber-400',
-    text: 'text-amber-700',
-  },
-  other: {
-    bg: 'bg-gray-50',
-    bgSelected: 'bg-gray-100',
-    border: 'border-gray-200',
-    borderSelected: 'border-gray-400',
-    text: 'text-gray-700',
-  },
-} as const
+import { getCategoryColors, getCategoryIcon } from '@/components/categories'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import type { ExpenseCategory } from '@/constants/expense-categories'
 
 interface CategoryFilterProps {
   /** Currently selected categories */
@@ -95,7 +21,8 @@ interface CategoryFilterProps {
 /**
  * CategoryFilter - Multi-select category filter
  *
- * Displays all expense categories as toggleable buttons.
+ * Displays all expense categories as toggleable buttons, including
+ * deactivated ones so older expenses can still be found.
  * Supports showing counts per category.
  */
 export function CategoryFilter({
@@ -104,6 +31,8 @@ export function CategoryFilter({
   counts,
   className,
 }: CategoryFilterProps) {
+  const { categories } = useExpenseCategories()
+
   /**
    * Toggle a category selection
    */
@@ -119,7 +48,7 @@ export function CategoryFilter({
    * Select all categories
    */
   const selectAll = () => {
-    onChange(EXPENSE_CATEGORY_LIST.map((c) => c.value))
+    onChange(categories.map((c) => c.code))
   }
 
   /**
@@ -143,7 +72,7 @@ export function CategoryFilter({
               Hapus
             </button>
           )}
-          {selected.length < EXPENSE_CATEGORY_LIST.length && (
+          {selected.length < categories.length && (
             <button
               type="button"
               onClick={selectAll}
@@ -157,21 +86,21 @@ export function CategoryFilter({
 
       {/* Category grid */}
       <div className="grid grid-cols-2 gap-2">
-        {EXPENSE_CATEGORY_LIST.map((category) => {
-          const isSelected = selected.includes(category.value)
-          const Icon = CATEGORY_ICONS[category.value]
-          const colors = CATEGORY_COLORS[category.value]
-          const count = counts?.[category.value]
+        {categories.map((category) => {
+          const isSelected = selected.includes(category.code)
+          const Icon = getCategoryIcon(category.icon)
+          const colors = getCategoryColors(category.color)
+          const count = counts ? counts[category.code] ?? 0 : undefined
 
           return (
             <button
-              key={category.value}
+              key={category.code}
               type="button"
-              onClick={() => toggleCategory(category.value)}
+              onClick={() => toggleCategory(category.code)}
               className={cn(
                 'flex items-center gap-2 p-2.5 rounded-lg border transition-colors text-left',
                 isSelected
-                  ? [colors.bgSelected, colors.borderSelected]
+                  ? [colors.bgStrong, colors.borderStrong]
                   : [colors.bg, colors.border, 'hover:border-slate-300']
               )}
             >
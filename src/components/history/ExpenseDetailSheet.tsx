@@ -1,21 +1,16 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
 import {
   Calendar,
   MapPin,
   FileText,
   Briefcase,
   Building2,
-  Fuel,
-  Route,
-  ParkingCircle,
-  UtensilsCrossed,
-  Bed,
-  Car,
-  Package,
-  MoreHorizontal,
   ImageIcon,
+  Pencil,
+  Trash2,
 } from 'lucide-react'
 import {
   Sheet,
@@ -27,44 +22,26 @@ import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { SyncStatusBadge } from '@/components/offline/SyncStatusBadge'
 import { ApprovalStatusBadge, type ApprovalDetails } from './ApprovalStatusBadge'
+import { ApprovalSteps } from '@/components/approval/ApprovalSteps'
+import { ApprovalTimeline } from '@/components/approval/ApprovalTimeline'
 import { SubmitButton } from '@/components/erp/SubmitButton'
 import { RejectionInfo } from '@/components/erp/RejectionInfo'
+import { PerDiemBadge } from '@/components/per-diem'
 import { cn } from '@/lib/utils/cn'
 import { formatCurrency } from '@/lib/utils/format-currency'
 import { formatDate } from '@/lib/utils/format-date'
-import { EXPENSE_CATEGORIES } from '@/constants/expense-categories'
-import { getLocalReceipt, createReceiptImageUrl } from '@/lib/db/operations'
+import { getCategoryColors, getCategoryIcon } from '@/components/categories'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import {
+  getLocalReceipt,
+  createReceiptImageUrl,
+  getExpenseForEdit,
+  deleteExpenseLocally,
+  isExpenseEditable,
+} from '@/lib/db/operations'
 import { createClient } from '@/lib/supabase/client'
 import type { DisplayExpense } from '@/types/expense-filters'
 
-/**
- * Icon mapping for expense categories
- */
-const CATEGORY_ICONS = {
-  fuel: Fuel,
-  toll: Route,
-  parking: ParkingCircle,
-  food: UtensilsCrossed,
-  lodging: Bed,
-  transport: Car,
-  supplies: Package,
-  other: MoreHorizontal,
-} as const
-
-/**
- * Color classes for category badges
- */
-const CATEGORY_COLORS = {
-  fuel: 'bg-orange-100 text-orange-700 border-orange-200',
-  toll: 'bg-blue-100 text-blue-700 border-blue-200',
-  parking: 'bg-purple-100 text-purple-700 border-purple-200',
-  food: 'bg-green-100 text-green-700 border-green-200',
-  lodging: 'bg-indigo-100 text-indigo-700 border-indigo-200',
-  transport: 'bg-cyan-100 text-cyan-700 border-cyan-200',
-  supplies: 'bg-amber-100 text-amber-700 border-amber-200',
-  other: 'bg-gray-100 text-gray-700 border-gray-200',
-} as const
-
 interface DetailRowProps {
   icon: React.ReactNode
   label: string
@@ -93,7 +70,7 @@ interface ExpenseDetailSheetProps {
   open: boolean
   /** Callback when open state changes */
   onOpenChange: (open: boolean) => void
-  /** Callback when expense is updated (e.g., after submit) */
+  /** Callback when expense is updated (e.g., after submit or delete) */
   onExpenseUpdate?: () => void
 }
 
@@ -106,6 +83,7 @@ interface ExpenseDetailSheetProps {
  * - All expense fields
  * - Job order details
  * - Sync and approval status
+ * - Edit and delete actions while the expense is draft or rejected
  */
 export function ExpenseDetailSheet({
   expense,
@@ -116,6 +94,9 @@ export function ExpenseDetailSheet({
   const [receiptUrl, setReceiptUrl] = useState<string | null>(null)
   const [isLoadingReceipt, setIsLoadingReceipt] = useState(false)
   const [toastMessage, setToastMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const router = useRouter()
+  const { getCategory } = useExpenseCategories()
 
   // Handle successful submission
   const handleSubmitSuccess = useCallback((bkkNumber?: string) => {
@@ -144,6 +125,35 @@ export function ExpenseDetailSheet({
     setTimeout(() => setToastMessage(null), 3000)
   }, [onExpenseUpdate])
 
+  // Open the edit page for this expense
+  const handleEdit = useCallback(() => {
+    if (!expense) return
+    router.push(`/history/${expense.localId ?? expense.id}/edit`)
+  }, [expense, router])
+
+  // Delete the expense locally and queue the server delete
+  const handleDelete = useCallback(async () => {
+    if (!expense) return
+
+    const confirmed = confirm('Hapus pengeluaran ini?')
+    if (!confirmed) return
+
+    setIsDeleting(true)
+    try {
+      const local = await getExpenseForEdit(expense.localId ?? expense.id)
+      if (!local) {
+        throw new Error('Pengeluaran tidak ditemukan')
+      }
+      await deleteExpenseLocally(local.id)
+      onExpenseUpdate?.()
+      onOpenChange(false)
+    } catch (error) {
+      handleSubmitError(error instanceof Error ? error.message : 'Gagal menghapus pengeluaran')
+    } finally {
+      setIsDeleting(false)
+    }
+  }, [expense, onExpenseUpdate, onOpenChange, handleSubmitError])
+
   // Load receipt image when expense changes
   useEffect(() => {
     let objectUrl: string | null = null
@@ -200,9 +210,9 @@ export function ExpenseDetailSheet({
 
   if (!expense) return null
 
-  const categoryConfig = EXPENSE_CATEGORIES[expense.category]
-  const Icon = CATEGORY_ICONS[expense.category] || MoreHorizontal
-  const categoryColors = CATEGORY_COLORS[expense.category] || CATEGORY_COLORS.other
+  const categoryConfig = getCategory(expense.category)
+  const Icon = getCategoryIcon(categoryConfig.icon)
+  const categoryColors = getCategoryColors(categoryConfig.color)
 
   const hasReceipt = expense.receiptLocalId || expense.receipt?.storage_path
 
@@ -233,12 +243,17 @@ export function ExpenseDetailSheet({
               <span
                 className={cn(
                   'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium border',
-                  categoryColors
+                  categoryColors.badge
                 )}
               >
                 <Icon className="h-4 w-4" />
-                {categoryConfig?.labelFull || expense.category}
+                {categoryConfig.labelFull}
               </span>
+              {expense.isPerDiem && (
+                <div className="mt-2">
+                  <PerDiemBadge />
+                </div>
+              )}
             </div>
 
             {/* Receipt Image */}
@@ -363,10 +378,22 @@ export function ExpenseDetailSheet({
                     approvedAt: expense.approvedAt,
                     approvedBy: expense.approvedByName,
                     rejectionReason: expense.rejectionReason,
+                    paidAt: expense.paidAt,
+                    paymentMethod: expense.paymentMethod,
                   } as ApprovalDetails}
                 />
               </div>
 
+              {/* Payment */}
+              {expense.approvalStatus === 'paid' && expense.paymentReference && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-slate-600">Ref. Pembayaran</span>
+                  <span className="text-sm font-mono text-slate-900">
+                    {expense.paymentReference}
+                  </span>
+                </div>
+              )}
+
               {/* BKK Number */}
               {expense.bkkNumber && (
                 <div className="flex items-center justify-between">
@@ -387,6 +414,14 @@ export function ExpenseDetailSheet({
               )}
             </div>
 
+            {/* Approval Steps */}
+            {expense.serverId && expense.approvalStatus !== 'draft' && (
+              <ApprovalSteps expenseId={expense.serverId} />
+            )}
+
+            {/* Approval History (also shown for drafts reset after a rejection) */}
+            {expense.serverId && <ApprovalTimeline expenseId={expense.serverId} />}
+
             {/* Rejection Info */}
             {expense.approvalStatus === 'rejected' && expense.rejectionReason && (
               <RejectionInfo
@@ -412,6 +447,30 @@ export function ExpenseDetailSheet({
               />
             )}
 
+            {/* Edit / Delete Actions */}
+            {isExpenseEditable(expense) && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleEdit}
+                  disabled={isDeleting}
+                  className="flex-1"
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Ubah
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleDelete}
+                  disabled={isDeleting}
+                  className="flex-1 text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {isDeleting ? 'Menghapus...' : 'Hapus'}
+                </Button>
+              </div>
+            )}
+
             {/* Toast Message */}
             {toastMessage && (
               <div
@@ -1,10 +1,20 @@
 'use client'
 
+import { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { useWindowVirtualizer } from '@tanstack/react-virtual'
+import { Button } from '@/components/ui/button'
 import { ExpenseListItem } from './ExpenseListItem'
 import { ExpenseListEmpty } from './ExpenseListEmpty'
 import { ExpenseListSkeleton } from './ExpenseListSkeleton'
 import type { DisplayExpense } from '@/types/expense-filters'
 
+/** Estimated item height including the gap, refined once rendered */
+const ESTIMATED_ITEM_HEIGHT = 80
+
+/** Load the next page when this close to the end of the list */
+const LOAD_MORE_THRESHOLD = 10
+
 interface ExpenseListProps {
   /** Array of expenses to display */
   expenses: DisplayExpense[]
@@ -16,12 +26,20 @@ interface ExpenseListProps {
   searchTerm?: string
   /** Whether filters are active */
   hasFilters?: boolean
+  /** Whether more expenses can be loaded */
+  hasMore?: boolean
+  /** Whether the next page is being loaded */
+  isLoadingMore?: boolean
+  /** Load the next page (infinite scroll) */
+  onLoadMore?: () => void
 }
 
 /**
  * ExpenseList - Container for expense list items
  *
  * Handles loading, empty, and populated states for the expense list.
+ * Only the items near the viewport are rendered (window virtualization),
+ * and the next page is requested when scrolling near the end.
  */
 export function ExpenseList({
   expenses,
@@ -29,7 +47,43 @@ export function ExpenseList({
   onExpenseClick,
   searchTerm,
   hasFilters = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: ExpenseListProps) {
+  const listRef = useRef<HTMLDivElement>(null)
+  const [scrollMargin, setScrollMargin] = useState(0)
+
+  const virtualizer = useWindowVirtualizer({
+    count: expenses.length,
+    estimateSize: () => ESTIMATED_ITEM_HEIGHT,
+    overscan: 5,
+    scrollMargin,
+    getItemKey: (index) => expenses[index].id,
+  })
+
+  // Offset of the list in the page, which moves as content above it loads
+  useLayoutEffect(() => {
+    if (listRef.current) {
+      setScrollMargin(listRef.current.getBoundingClientRect().top + window.scrollY)
+    }
+  }, [isLoading, expenses.length])
+
+  const virtualItems = virtualizer.getVirtualItems()
+  const lastVisibleIndex = virtualItems[virtualItems.length - 1]?.index ?? -1
+
+  // Infinite scroll
+  useEffect(() => {
+    if (
+      hasMore &&
+      !isLoadingMore &&
+      onLoadMore &&
+      lastVisibleIndex >= expenses.length - LOAD_MORE_THRESHOLD
+    ) {
+      onLoadMore()
+    }
+  }, [hasMore, isLoadingMore, onLoadMore, lastVisibleIndex, expenses.length])
+
   // Loading state
   if (isLoading) {
     return <ExpenseListSkeleton />
@@ -42,15 +96,44 @@ export function ExpenseList({
 
   // Populated list
   return (
-    <div className="space-y-2">
-      {expenses.map((expense) => (
-        <ExpenseListItem
-          key={expense.id}
-          expense={expense}
-          onClick={() => onExpenseClick(expense)}
-          searchTerm={searchTerm}
-        />
-      ))}
+    <div ref={listRef}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualItems.map((item) => {
+          const expense = expenses[item.index]
+
+          return (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full pb-2"
+              style={{ transform: `translateY(${item.start - scrollMargin}px)` }}
+            >
+              <ExpenseListItem
+                expense={expense}
+                onClick={() => onExpenseClick(expense)}
+                searchTerm={searchTerm}
+              />
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Next page */}
+      {isLoadingMore ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        hasMore &&
+        onLoadMore && (
+          <div className="flex justify-center pt-2 pb-4">
+            <Button variant="outline" onClick={onLoadMore} className="w-full max-w-xs">
+              Muat Lebih Banyak
+            </Button>
+          </div>
+        )
+      )}
     </div>
   )
 }
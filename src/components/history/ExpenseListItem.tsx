@@ -1,66 +1,16 @@
 'use client'
 
-import { ChevronRight, Fuel, Route, ParkingCircle, UtensilsCrossed, Bed, Car, Package, MoreHorizontal } from 'lucide-react'
+import { ChevronRight, ScanText } from 'lucide-react'
 import { cn } from '@/lib/utils/cn'
 import { formatCurrency } from '@/lib/utils/format-currency'
 import { formatDate } from '@/lib/utils/format-date'
-import { EXPENSE_CATEGORIES } from '@/constants/expense-categories'
+import { getCategoryColors, getCategoryIcon } from '@/components/categories'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { tokenizeSearchText } from '@/lib/search'
 import { SyncStatusBadge } from '@/components/offline/SyncStatusBadge'
 import { ApprovalStatusBadge } from './ApprovalStatusBadge'
 import type { DisplayExpense } from '@/types/expense-filters'
 
-/**
- * Icon mapping for expense categories
- */
-const CATEGORY_ICONS = {
-  fuel: Fuel,
-  toll: Route,
-  parking: ParkingCircle,
-  food: UtensilsCrossed,
-  lodging: Bed,
-  transport: Car,
-  supplies: Package,
-  other: MoreHorizontal,
-} as const
-
-/**
- * Color classes for category icons
- */
-const CATEGORY_COLORS = {
-  fuel: {
-    bg: 'bg-orange-100',
-    text: 'text-orange-600',
-  },
-  toll: {
-    bg: 'bg-blue-100',
-    text: 'text-blue-600',
-  },
-  parking: {
-    bg: 'bg-purple-100',
-    text: 'text-purple-600',
-  },
-  food: {
-    bg: 'bg-green-100',
-    text: 'text-green-600',
-  },
-  lodging: {
-    bg: 'bg-indigo-100',
-    text: 'text-indigo-600',
-  },
-  transport: {
-    bg: 'bg-cyan-100',
-    text: 'text-cyan-600',
-  },
-  supplies: {
-    bg: 'bg-amber-100',
-    text: 'text-amber-600',
-  },
-  other: {
-    bg: 'bg-gray-100',
-    text: 'text-gray-600',
-  },
-} as const
-
 interface ExpenseListItemProps {
   /** The expense to display */
   expense: DisplayExpense
@@ -73,18 +23,24 @@ interface ExpenseListItemProps {
 }
 
 /**
- * Highlight matching text in a string
+ * Highlight the words of the search term in a string
  */
 function highlightText(text: string, searchTerm?: string): React.ReactNode {
-  if (!searchTerm || !searchTerm.trim()) {
+  const tokens = searchTerm ? tokenizeSearchText(searchTerm) : []
+  if (tokens.length === 0) {
     return text
   }
 
-  const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
-  const parts = text.split(regex)
+  // Longest first so a longer word wins over its prefix
+  const pattern = [...tokens]
+    .sort((a, b) => b.length - a.length)
+    .map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|')
+  const parts = text.split(new RegExp(`(${pattern})`, 'gi'))
 
+  // Captured matches are at the odd indexes
   return parts.map((part, index) =>
-    regex.test(part) ? (
+    index % 2 === 1 ? (
       <mark key={index} className="bg-yellow-200 rounded px-0.5">
         {part}
       </mark>
@@ -110,11 +66,12 @@ export function ExpenseListItem({
   searchTerm,
   className,
 }: ExpenseListItemProps) {
-  const categoryConfig = EXPENSE_CATEGORIES[expense.category]
-  const Icon = CATEGORY_ICONS[expense.category] || MoreHorizontal
-  const colors = CATEGORY_COLORS[expense.category] || CATEGORY_COLORS.other
+  const { getCategory } = useExpenseCategories()
+  const categoryConfig = getCategory(expense.category)
+  const Icon = getCategoryIcon(categoryConfig.icon)
+  const colors = getCategoryColors(categoryConfig.color)
 
-  const displayName = expense.vendorName || categoryConfig?.label || expense.category
+  const displayName = expense.vendorName || categoryConfig.label
 
   return (
     <button
@@ -129,7 +86,7 @@ export function ExpenseListItem({
       <div
         className={cn(
           'w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0',
-          colors.bg
+          colors.bgStrong
         )}
       >
         <Icon className={cn('h-5 w-5', colors.text)} />
@@ -148,7 +105,9 @@ export function ExpenseListItem({
           {expense.jobOrder && (
             <>
               <span>•</span>
-              <span className="truncate">{expense.jobOrder.job_number}</span>
+              <span className="truncate">
+                {highlightText(expense.jobOrder.job_number, searchTerm)}
+              </span>
             </>
           )}
           {expense.isOverhead && !expense.jobOrder && (
@@ -163,6 +122,12 @@ export function ExpenseListItem({
             {highlightText(expense.description, searchTerm)}
           </p>
         )}
+        {expense.searchSnippet && (
+          <p className="text-xs text-slate-400 mt-0.5 truncate flex items-center gap-1">
+            <ScanText className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{highlightText(expense.searchSnippet, searchTerm)}</span>
+          </p>
+        )}
       </div>
 
       {/* Amount & Status */}
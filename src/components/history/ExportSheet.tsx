@@ -0,0 +1,131 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, FileSpreadsheet, FileText, Loader2, Sheet as SheetIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Button } from '@/components/ui/button'
+import { downloadExpenseExport } from '@/lib/export/download'
+import type { ExpenseFilters } from '@/types/expense-filters'
+import type { ExportFormat } from '@/types/expense-report'
+
+const FORMAT_OPTIONS: Array<{
+  value: ExportFormat
+  label: string
+  description: string
+  Icon: typeof FileText
+}> = [
+  {
+    value: 'xlsx',
+    label: 'Excel (.xlsx)',
+    description: 'Daftar pengeluaran dan ringkasan per kategori',
+    Icon: FileSpreadsheet,
+  },
+  {
+    value: 'csv',
+    label: 'CSV',
+    description: 'Untuk diolah di aplikasi lain',
+    Icon: SheetIcon,
+  },
+  {
+    value: 'pdf',
+    label: 'PDF',
+    description: 'Laporan siap cetak dengan foto struk',
+    Icon: FileText,
+  },
+]
+
+interface ExportSheetProps {
+  /** Whether the sheet is open */
+  open: boolean
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void
+  /** Filters of the history view to export */
+  filters: ExpenseFilters
+  /** Whether the device is online (export runs on the server) */
+  isOnline: boolean
+}
+
+/**
+ * ExportSheet - Bottom sheet to export the filtered history as a report
+ *
+ * The report is generated on the server from synced expenses, so it is
+ * not limited to the items loaded in the list.
+ */
+export function ExportSheet({ open, onOpenChange, filters, isOnline }: ExportSheetProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format)
+    try {
+      const result = await downloadExpenseExport(filters, format)
+      if (result.success) {
+        onOpenChange(false)
+      } else {
+        toast.error(result.error || 'Gagal membuat laporan')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      toast.error(message)
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-2xl" showCloseButton={false}>
+        <SheetHeader className="border-b pb-4">
+          <div className="flex items-center justify-between">
+            <SheetTitle className="flex items-center gap-2">
+              <Download className="h-5 w-5" />
+              Ekspor Laporan
+            </SheetTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onOpenChange(false)}
+              className="text-slate-500"
+            >
+              Tutup
+            </Button>
+          </div>
+        </SheetHeader>
+
+        <div className="space-y-2 px-4 pb-6">
+          <p className="text-sm text-slate-500 pb-2">
+            {isOnline
+              ? 'Laporan mengikuti filter dan pencarian yang aktif. Pengeluaran yang belum tersinkron tidak termasuk.'
+              : 'Ekspor membutuhkan koneksi internet.'}
+          </p>
+
+          {FORMAT_OPTIONS.map(({ value, label, description, Icon }) => (
+            <button
+              key={value}
+              onClick={() => handleExport(value)}
+              disabled={!isOnline || exporting !== null}
+              className="w-full flex items-center gap-3 rounded-lg border border-slate-200 p-3 text-left hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <div className="p-2 rounded-lg bg-slate-100">
+                {exporting === value ? (
+                  <Loader2 className="h-5 w-5 text-slate-600 animate-spin" />
+                ) : (
+                  <Icon className="h-5 w-5 text-slate-600" />
+                )}
+              </div>
+              <div>
+                <p className="text-sm font-medium text-slate-900">{label}</p>
+                <p className="text-xs text-slate-500">{description}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
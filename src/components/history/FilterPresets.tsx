@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import { BookmarkPlus, Link2, Loader2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FILTER_PRESET_NAME_MAX_LENGTH, useFilterPresets } from '@/hooks/use-filter-presets'
+import { filtersToSearchParams } from '@/lib/export/params'
+import { countExpenseFilters } from '@/lib/history/filters'
+import { cn } from '@/lib/utils/cn'
+import type { ExpenseFilters } from '@/types/expense-filters'
+
+interface FilterPresetsProps {
+  /** Filters being edited in the sheet */
+  filters: ExpenseFilters
+  /** Current search term, included in shared links */
+  search?: string
+  /** Callback when a preset is picked */
+  onSelect: (filters: ExpenseFilters) => void
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * Build a link to the history page with the given filters
+ */
+function buildShareUrl(filters: ExpenseFilters): string {
+  const query = filtersToSearchParams(filters).toString()
+  return `${window.location.origin}/history${query ? `?${query}` : ''}`
+}
+
+/**
+ * FilterPresets - Saved filter presets of the current user
+ *
+ * Picking a preset replaces the filters in the sheet; they are applied
+ * with the sheet's apply button. The filters can also be saved under a
+ * name (replacing a preset of the same name) or shared as a link.
+ */
+export function FilterPresets({ filters, search, onSelect, className }: FilterPresetsProps) {
+  const { presets, savePreset, deletePreset } = useFilterPresets()
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const hasFilters = countExpenseFilters(filters) > 0
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      if (await savePreset(name, filters)) {
+        toast.success(`Preset "${name.trim()}" disimpan`)
+        setName('')
+      } else {
+        toast.error('Gagal menyimpan preset')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string, presetName: string) => {
+    if (await deletePreset(id)) {
+      toast.success(`Preset "${presetName}" dihapus`)
+    } else {
+      toast.error('Gagal menghapus preset')
+    }
+  }
+
+  const handleShare = async () => {
+    const url = buildShareUrl({ ...filters, search })
+
+    try {
+      if (typeof navigator.share === 'function') {
+        await navigator.share({ title: 'Filter Riwayat', url })
+      } else {
+        await navigator.clipboard.writeText(url)
+        toast.success('Tautan filter disalin')
+      }
+    } catch (error) {
+      // Closing the share sheet is not an error
+      if (error instanceof Error && error.name === 'AbortError') return
+      toast.error('Gagal membagikan tautan')
+    }
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium text-slate-700">Preset Tersimpan</Label>
+        <button
+          type="button"
+          onClick={handleShare}
+          className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+        >
+          <Link2 className="h-3.5 w-3.5" />
+          Bagikan Tautan
+        </button>
+      </div>
+
+      {/* Saved presets */}
+      {presets.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {presets.map((preset) => (
+            <span
+              key={preset.id}
+              className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border border-blue-200 bg-blue-50 text-sm text-blue-700"
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(preset.filters)}
+                className="max-w-[12rem] truncate"
+              >
+                {preset.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(preset.id, preset.name)}
+                className="p-0.5 rounded-full text-blue-500 hover:text-blue-700 hover:bg-blue-100"
+                aria-label={`Hapus preset ${preset.name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          Belum ada preset. Atur filter lalu simpan dengan nama agar mudah dipakai lagi.
+        </p>
+      )}
+
+      {/* Save current filters */}
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nama preset, mis. Review bulan ini"
+          maxLength={FILTER_PRESET_NAME_MAX_LENGTH}
+          aria-label="Nama preset"
+          className="text-sm"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleSave}
+          disabled={!hasFilters || !name.trim() || isSaving}
+          className="flex-shrink-0"
+        >
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <BookmarkPlus className="mr-2 h-4 w-4" />
+          )}
+          Simpan
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -11,9 +11,14 @@ import {
 } from '@/components/ui/sheet'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { countExpenseFilters } from '@/lib/history/filters'
+import { FilterPresets } from './FilterPresets'
 import { DateRangeFilter } from './DateRangeFilter'
 import { CategoryFilter } from './CategoryFilter'
 import { StatusFilter } from './StatusFilter'
+import { AmountRangeFilter } from './AmountRangeFilter'
+import { JobOrderFilter } from './JobOrderFilter'
+import { ReviewFilter } from './ReviewFilter'
 import type { ExpenseFilters } from '@/types/expense-filters'
 import type { ExpenseCategory } from '@/constants/expense-categories'
 
@@ -28,15 +33,20 @@ interface FilterSheetProps {
   onFiltersChange: (filters: ExpenseFilters) => void
   /** Optional category counts */
   categoryCounts?: Record<ExpenseCategory, number>
+  /** Current search term, included in shared links */
+  search?: string
 }
 
 /**
  * FilterSheet - Bottom sheet with all filter options
  *
  * Contains:
+ * - Saved presets and a shareable link
  * - Date range filter with quick filters
  * - Category multi-select filter
  * - Sync and approval status filters
+ * - Amount range, job order and overhead filters
+ * - Review, location and receipt filters
  * - Apply and clear buttons
  */
 export function FilterSheet({
@@ -45,6 +55,7 @@ export function FilterSheet({
   filters,
   onFiltersChange,
   categoryCounts,
+  search,
 }: FilterSheetProps) {
   // Local state for filters (applied on "Apply" button click)
   const [localFilters, setLocalFilters] = useState<ExpenseFilters>(filters)
@@ -75,12 +86,7 @@ export function FilterSheet({
   /**
    * Count active filters
    */
-  const activeFilterCount = [
-    localFilters.dateFrom || localFilters.dateTo,
-    localFilters.categories && localFilters.categories.length > 0,
-    localFilters.syncStatuses && localFilters.syncStatuses.length > 0,
-    localFilters.approvalStatuses && localFilters.approvalStatuses.length > 0,
-  ].filter(Boolean).length
+  const activeFilterCount = countExpenseFilters(localFilters)
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -109,6 +115,13 @@ export function FilterSheet({
 
         <ScrollArea className="flex-1 py-4">
           <div className="space-y-6 px-1">
+            {/* Saved Presets */}
+            <FilterPresets
+              filters={localFilters}
+              search={search}
+              onSelect={setLocalFilters}
+            />
+
             {/* Date Range Filter */}
             <DateRangeFilter
               value={{
@@ -153,6 +166,34 @@ export function FilterSheet({
                 }))
               }
             />
+
+            {/* Amount Range Filter */}
+            <AmountRangeFilter
+              value={{
+                minAmount: localFilters.minAmount,
+                maxAmount: localFilters.maxAmount,
+              }}
+              onChange={(amountFilters) => setLocalFilters((f) => ({ ...f, ...amountFilters }))}
+            />
+
+            {/* Job Order Filter */}
+            <JobOrderFilter
+              value={{
+                jobOrderIds: localFilters.jobOrderIds,
+                costType: localFilters.costType,
+              }}
+              onChange={(jobFilters) => setLocalFilters((f) => ({ ...f, ...jobFilters }))}
+            />
+
+            {/* Review Filter */}
+            <ReviewFilter
+              value={{
+                requiresReview: localFilters.requiresReview,
+                receipt: localFilters.receipt,
+                locationWarning: localFilters.locationWarning,
+              }}
+              onChange={(reviewFilters) => setLocalFilters((f) => ({ ...f, ...reviewFilters }))}
+            />
           </div>
         </ScrollArea>
 
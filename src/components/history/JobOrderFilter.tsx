@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { JobSearchDialog } from '@/components/job/JobSearchDialog'
+import { useJob } from '@/hooks/use-job'
+import { cn } from '@/lib/utils/cn'
+import type { ExpenseCostType, ExpenseFilters } from '@/types/expense-filters'
+
+/**
+ * Cost type options
+ */
+const COST_TYPE_OPTIONS: Array<{ value: ExpenseCostType | undefined; label: string }> = [
+  { value: undefined, label: 'Semua' },
+  { value: 'job', label: 'Terkait Job' },
+  { value: 'overhead', label: 'Overhead' },
+]
+
+interface JobOrderFilterProps {
+  /** Current filter values */
+  value: Pick<ExpenseFilters, 'jobOrderIds' | 'costType'>
+  /** Callback when filter values change */
+  onChange: (value: Pick<ExpenseFilters, 'jobOrderIds' | 'costType'>) => void
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * Selected job order, labelled by job number once loaded
+ */
+function JobOrderChip({ jobId, onRemove }: { jobId: string; onRemove: () => void }) {
+  const { job } = useJob(jobId)
+
+  return (
+    <span className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border border-slate-300 bg-slate-100 text-sm text-slate-700">
+      <span className="max-w-[12rem] truncate">
+        {job ? `${job.job_number} · ${job.customer_name}` : 'Memuat...'}
+      </span>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-0.5 rounded-full text-slate-500 hover:text-slate-700 hover:bg-slate-200"
+        aria-label="Hapus job"
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </span>
+  )
+}
+
+/**
+ * JobOrderFilter - Filter by job link (job or overhead) and by job orders
+ *
+ * Picking job orders only makes sense for job-linked expenses, so
+ * choosing overhead clears them.
+ */
+export function JobOrderFilter({ value, onChange, className }: JobOrderFilterProps) {
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const jobOrderIds = value.jobOrderIds ?? []
+
+  const handleCostTypeChange = (costType: ExpenseCostType | undefined) => {
+    onChange({
+      costType,
+      jobOrderIds: costType === 'overhead' ? undefined : value.jobOrderIds,
+    })
+  }
+
+  const handleRemoveJob = (jobId: string) => {
+    const remaining = jobOrderIds.filter((id) => id !== jobId)
+    onChange({ ...value, jobOrderIds: remaining.length > 0 ? remaining : undefined })
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <Label className="text-sm font-medium text-slate-700">Job Order</Label>
+
+      {/* Job or overhead */}
+      <div className="flex flex-wrap gap-2">
+        {COST_TYPE_OPTIONS.map((option) => (
+          <Button
+            key={option.label}
+            type="button"
+            variant={value.costType === option.value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handleCostTypeChange(option.value)}
+            className="text-xs"
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Specific job orders */}
+      {value.costType !== 'overhead' && (
+        <div className="flex flex-wrap gap-2">
+          {jobOrderIds.map((jobId) => (
+            <JobOrderChip key={jobId} jobId={jobId} onRemove={() => handleRemoveJob(jobId)} />
+          ))}
+          <button
+            type="button"
+            onClick={() => setIsSearchOpen(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-dashed border-slate-300 text-sm text-slate-600 hover:border-slate-400"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Pilih Job
+          </button>
+        </div>
+      )}
+
+      <JobSearchDialog
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        onSelect={(job) => {
+          if (!jobOrderIds.includes(job.id)) {
+            onChange({ ...value, jobOrderIds: [...jobOrderIds, job.id] })
+          }
+          setIsSearchOpen(false)
+        }}
+      />
+    </div>
+  )
+}
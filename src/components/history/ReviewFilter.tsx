@@ -0,0 +1,120 @@
+'use client'
+
+import { AlertTriangle, Check, MapPinOff, Receipt, ReceiptText } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils/cn'
+import type { ExpenseFilters, ReceiptPresence } from '@/types/expense-filters'
+
+/**
+ * Receipt presence options
+ */
+const RECEIPT_OPTIONS: Array<{
+  value: ReceiptPresence
+  label: string
+  Icon: typeof Receipt
+}> = [
+  { value: 'with', label: 'Ada Struk', Icon: ReceiptText },
+  { value: 'without', label: 'Tanpa Struk', Icon: Receipt },
+]
+
+type ReviewFilterValue = Pick<ExpenseFilters, 'requiresReview' | 'receipt' | 'locationWarning'>
+
+interface ReviewFilterProps {
+  /** Current filter values */
+  value: ReviewFilterValue
+  /** Callback when filter values change */
+  onChange: (value: ReviewFilterValue) => void
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * Toggleable filter chip
+ */
+function FilterChip({
+  selected,
+  onClick,
+  Icon,
+  color,
+  label,
+}: {
+  selected: boolean
+  onClick: () => void
+  Icon: typeof Receipt
+  color: string
+  label: string
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-sm transition-colors',
+        selected
+          ? 'bg-slate-100 border-slate-300'
+          : 'bg-white border-slate-200 hover:border-slate-300'
+      )}
+    >
+      <Icon className={cn('h-3.5 w-3.5', color)} />
+      <span className="text-slate-700">{label}</span>
+      {selected && <Check className="h-3.5 w-3.5 text-slate-600" />}
+    </button>
+  )
+}
+
+/**
+ * ReviewFilter - Filter expenses needing attention
+ *
+ * Flagged for review, captured away from the job route, and with or
+ * without a receipt photo.
+ */
+export function ReviewFilter({ value, onChange, className }: ReviewFilterProps) {
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Review flags */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-slate-700">Perlu Perhatian</Label>
+        <div className="flex flex-wrap gap-2">
+          <FilterChip
+            selected={!!value.requiresReview}
+            onClick={() => onChange({ ...value, requiresReview: !value.requiresReview || undefined })}
+            Icon={AlertTriangle}
+            color="text-amber-600"
+            label="Perlu Review"
+          />
+          <FilterChip
+            selected={!!value.locationWarning}
+            onClick={() =>
+              onChange({ ...value, locationWarning: !value.locationWarning || undefined })
+            }
+            Icon={MapPinOff}
+            color="text-red-600"
+            label="Di Luar Rute Job"
+          />
+        </div>
+      </div>
+
+      {/* Receipt */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-slate-700">Struk</Label>
+        <div className="flex flex-wrap gap-2">
+          {RECEIPT_OPTIONS.map((option) => (
+            <FilterChip
+              key={option.value}
+              selected={value.receipt === option.value}
+              onClick={() =>
+                onChange({
+                  ...value,
+                  receipt: value.receipt === option.value ? undefined : option.value,
+                })
+              }
+              Icon={option.Icon}
+              color="text-slate-600"
+              label={option.label}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { Check, Clock, RefreshCw, CheckCircle, AlertCircle, FileText, XCircle } from 'lucide-react'
+import { Check, Clock, RefreshCw, CheckCircle, AlertCircle, FileText, XCircle, Banknote } from 'lucide-react'
 import { Label } from '@/components/ui/label'
 import { cn } from '@/lib/utils/cn'
 import type { SyncStatus } from '@/lib/db'
@@ -34,6 +34,7 @@ const APPROVAL_STATUS_OPTIONS: Array<{
   { value: 'pending_approval', label: 'Menunggu Persetujuan', Icon: Clock, color: 'text-yellow-600' },
   { value: 'approved', label: 'Disetujui', Icon: CheckCircle, color: 'text-green-600' },
   { value: 'rejected', label: 'Ditolak', Icon: XCircle, color: 'text-red-600' },
+  { value: 'paid', label: 'Dibayar', Icon: Banknote, color: 'text-emerald-600' },
 ]
 
 interface StatusFilterProps {
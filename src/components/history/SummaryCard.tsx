@@ -1,61 +1,24 @@
 'use client'
 
-import { TrendingUp, Receipt, Fuel, Route, ParkingCircle, UtensilsCrossed, Bed, Car, Package, MoreHorizontal } from 'lucide-react'
+import { TrendingUp, Receipt } from 'lucide-react'
 import { cn } from '@/lib/utils/cn'
 import { formatCurrency } from '@/lib/utils/format-currency'
 import { Progress } from '@/components/ui/progress'
-import { EXPENSE_CATEGORIES, type ExpenseCategory } from '@/constants/expense-categories'
+import { getCategoryColors, getCategoryIcon } from '@/components/categories'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import type { ExpenseCategory } from '@/constants/expense-categories'
 import type { DisplayExpense } from '@/types/expense-filters'
 
-/**
- * Icon mapping for expense categories
- */
-const CATEGORY_ICONS = {
-  fuel: Fuel,
-  toll: Route,
-  parking: ParkingCircle,
-  food: UtensilsCrossed,
-  lodging: Bed,
-  transport: Car,
-  supplies: Package,
-  other: MoreHorizontal,
-} as const
-
-/**
- * Color classes for progress bars
- */
-const CATEGORY_PROGRESS_COLORS: Record<ExpenseCategory, string> = {
-  fuel: 'bg-orange-500',
-  toll: 'bg-blue-500',
-  parking: 'bg-purple-500',
-  food: 'bg-green-500',
-  lodging: 'bg-indigo-500',
-  transport: 'bg-cyan-500',
-  supplies: 'bg-amber-500',
-  other: 'bg-gray-500',
-}
-
 /**
  * Group expenses by category and calculate totals
  */
 function groupByCategory(
   expenses: DisplayExpense[]
 ): Record<ExpenseCategory, number> {
-  const result: Record<ExpenseCategory, number> = {
-    fuel: 0,
-    toll: 0,
-    parking: 0,
-    food: 0,
-    lodging: 0,
-    transport: 0,
-    supplies: 0,
-    other: 0,
-  }
+  const result: Record<ExpenseCategory, number> = {}
 
   for (const expense of expenses) {
-    if (expense.category in result) {
-      result[expense.category] += expense.amount
-    }
+    result[expense.category] = (result[expense.category] ?? 0) + expense.amount
   }
 
   return result
@@ -67,21 +30,10 @@ function groupByCategory(
 function countByCategory(
   expenses: DisplayExpense[]
 ): Record<ExpenseCategory, number> {
-  const result: Record<ExpenseCategory, number> = {
-    fuel: 0,
-    toll: 0,
-    parking: 0,
-    food: 0,
-    lodging: 0,
-    transport: 0,
-    supplies: 0,
-    other: 0,
-  }
+  const result: Record<ExpenseCategory, number> = {}
 
   for (const expense of expenses) {
-    if (expense.category in result) {
-      result[expense.category]++
-    }
+    result[expense.category] = (result[expense.category] ?? 0) + 1
   }
 
   return result
@@ -109,6 +61,8 @@ export function SummaryCard({
   isLoading = false,
   className,
 }: SummaryCardProps) {
+  const { getCategory } = useExpenseCategories()
+
   // Calculate totals
   const total = expenses.reduce((sum, e) => sum + e.amount, 0)
   const byCategory = groupByCategory(expenses)
@@ -193,8 +147,8 @@ export function SummaryCard({
       {sortedCategories.length > 0 && (
         <div className="space-y-3">
           {sortedCategories.map(([category, amount]) => {
-            const config = EXPENSE_CATEGORIES[category]
-            const Icon = CATEGORY_ICONS[category]
+            const config = getCategory(category)
+            const Icon = getCategoryIcon(config.icon)
             const percentage = total > 0 ? (amount / total) * 100 : 0
             const count = countsByCategory[category]
 
@@ -213,7 +167,7 @@ export function SummaryCard({
                 <Progress
                   value={percentage}
                   className="h-1.5"
-                  indicatorClassName={CATEGORY_PROGRESS_COLORS[category]}
+                  indicatorClassName={getCategoryColors(config.color).progress}
                 />
               </div>
             )
@@ -4,9 +4,14 @@ export { ExpenseListEmpty } from './ExpenseListEmpty'
 export { ExpenseListSkeleton } from './ExpenseListSkeleton'
 export { ApprovalStatusBadge } from './ApprovalStatusBadge'
 export { FilterSheet } from './FilterSheet'
+export { ExportSheet } from './ExportSheet'
 export { DateRangeFilter } from './DateRangeFilter'
 export { CategoryFilter } from './CategoryFilter'
 export { StatusFilter } from './StatusFilter'
+export { AmountRangeFilter } from './AmountRangeFilter'
+export { JobOrderFilter } from './JobOrderFilter'
+export { ReviewFilter } from './ReviewFilter'
+export { FilterPresets } from './FilterPresets'
 export { SearchInput } from './SearchInput'
 export { SummaryCard, groupByCategory, countByCategory } from './SummaryCard'
 export { ExpenseDetailSheet } from './ExpenseDetailSheet'
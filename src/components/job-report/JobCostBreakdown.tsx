@@ -0,0 +1,56 @@
+'use client'
+
+import { Progress } from '@/components/ui/progress'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type { JobCostAmounts } from '@/types/job-report'
+
+export interface JobCostBreakdownItem extends JobCostAmounts {
+  key: string
+  label: string
+}
+
+interface JobCostBreakdownProps {
+  title: string
+  items: JobCostBreakdownItem[]
+  /** Total cost of the job (for the bar widths) */
+  total: number
+}
+
+/**
+ * JobCostBreakdown - Job cost per group (category or driver)
+ *
+ * Each row shows the total with approved and pending amounts below.
+ */
+export function JobCostBreakdown({ title, items, total }: JobCostBreakdownProps) {
+  if (items.length === 0) {
+    return null
+  }
+
+  return (
+    <section className="bg-white rounded-2xl border border-slate-100 p-4">
+      <h2 className="font-semibold text-slate-900 mb-3">{title}</h2>
+      <div className="space-y-3">
+        {items.map((item) => (
+          <div key={item.key} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-700 truncate">
+                {item.label}
+                <span className="text-slate-400 text-xs ml-1">({item.count})</span>
+              </span>
+              <span className="text-slate-900 font-medium">{formatCurrency(item.total)}</span>
+            </div>
+            <Progress
+              value={total > 0 ? (item.total / total) * 100 : 0}
+              className="h-1.5"
+            />
+            <p className="text-xs text-slate-500">
+              Disetujui {formatCurrency(item.approved, { compact: true })}
+              {item.pending > 0 && ` · Menunggu ${formatCurrency(item.pending, { compact: true })}`}
+              {item.draft > 0 && ` · Draft ${formatCurrency(item.draft, { compact: true })}`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type { JobCostReport } from '@/types/job-report'
+
+interface AmountRowProps {
+  label: string
+  amount: number
+  dotClassName: string
+}
+
+function AmountRow({ label, amount, dotClassName }: AmountRowProps) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="flex items-center gap-2 text-slate-600">
+        <span className={cn('h-2 w-2 rounded-full', dotClassName)} />
+        {label}
+      </span>
+      <span className="font-medium text-slate-900">{formatCurrency(amount)}</span>
+    </div>
+  )
+}
+
+interface JobCostSummaryProps {
+  report: JobCostReport
+}
+
+/**
+ * JobCostSummary - Total cost of a job split by approval status
+ *
+ * Shows budget usage when the job has a budget. Rejected expenses are
+ * listed separately and not counted as cost.
+ */
+export function JobCostSummary({ report }: JobCostSummaryProps) {
+  const { totals, budget } = report
+  const isOverBudget = !!budget && budget.remaining < 0
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 p-4 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-sm text-slate-500">Total Biaya</p>
+          <p className="text-2xl font-bold text-slate-900">{formatCurrency(totals.total)}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-slate-500">Transaksi</p>
+          <p className="text-lg font-medium text-slate-900">{totals.count}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <AmountRow label="Disetujui" amount={totals.approved} dotClassName="bg-green-500" />
+        <AmountRow label="Menunggu persetujuan" amount={totals.pending} dotClassName="bg-yellow-500" />
+        <AmountRow label="Belum diajukan" amount={totals.draft} dotClassName="bg-slate-400" />
+        {report.rejectedAmount > 0 && (
+          <p className="text-xs text-slate-400">
+            {formatCurrency(report.rejectedAmount)} ditolak (tidak dihitung)
+          </p>
+        )}
+      </div>
+
+      {budget && (
+        <div className="border-t border-slate-100 pt-4 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-500">Anggaran</span>
+            <span className="font-medium text-slate-900">{formatCurrency(budget.budget)}</span>
+          </div>
+          <Progress
+            value={Math.min(budget.percentage, 100)}
+            className="h-2"
+            indicatorClassName={cn(
+              isOverBudget ? 'bg-red-500' : budget.percentage >= 80 ? 'bg-amber-500' : 'bg-green-500'
+            )}
+          />
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-slate-500">{Math.round(budget.percentage)}% terpakai</span>
+            <span className={cn('font-medium', isOverBudget ? 'text-red-600' : 'text-slate-700')}>
+              {isOverBudget
+                ? `Lebih ${formatCurrency(-budget.remaining)}`
+                : `Sisa ${formatCurrency(budget.remaining)}`}
+            </span>
+          </div>
+          {isOverBudget && (
+            <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <p>Biaya job melebihi anggaran.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { Receipt } from 'lucide-react'
+import { EmptyState } from '@/components/ui/empty-state'
+import { ApprovalStatusBadge } from '@/components/history'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import type { JobReportExpense } from '@/types/job-report'
+
+interface JobExpenseListProps {
+  expenses: JobReportExpense[]
+}
+
+/**
+ * JobExpenseList - All expenses charged to a job, with who captured them
+ */
+export function JobExpenseList({ expenses }: JobExpenseListProps) {
+  const { getCategory } = useExpenseCategories()
+
+  if (expenses.length === 0) {
+    return (
+      <EmptyState
+        icon={Receipt}
+        title="Belum ada pengeluaran"
+        description="Pengeluaran yang dicatat untuk job ini akan muncul di sini"
+      />
+    )
+  }
+
+  return (
+    <section className="bg-white rounded-2xl border border-slate-100 divide-y divide-slate-100">
+      <h2 className="font-semibold text-slate-900 p-4">Pengeluaran</h2>
+      {expenses.map((expense) => (
+        <div key={expense.id} className="flex items-center gap-3 p-4">
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-slate-900 truncate">
+              {expense.vendorName || getCategory(expense.category).label}
+            </p>
+            <p className="text-sm text-slate-500 truncate">
+              {[
+                formatDate(expense.expenseDate, 'medium'),
+                getCategory(expense.category).label,
+                expense.userName,
+              ]
+                .filter(Boolean)
+                .join(' • ')}
+            </p>
+            {expense.description && (
+              <p className="text-xs text-slate-400 truncate">{expense.description}</p>
+            )}
+          </div>
+          <div className="text-right flex-shrink-0">
+            <p className="font-semibold text-slate-900">{formatCurrency(expense.amount)}</p>
+            <ApprovalStatusBadge status={expense.approvalStatus} compact />
+          </div>
+        </div>
+      ))}
+    </section>
+  )
+}
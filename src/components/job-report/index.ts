@@ -0,0 +1,3 @@
+export { JobCostSummary } from './JobCostSummary'
+export { JobCostBreakdown, type JobCostBreakdownItem } from './JobCostBreakdown'
+export { JobExpenseList } from './JobExpenseList'
@@ -1,6 +1,9 @@
 'use client'
 
-import { X, Briefcase, MapPin } from 'lucide-react'
+import Link from 'next/link'
+import { X, Briefcase, MapPin, BarChart3 } from 'lucide-react'
+import { useUser } from '@/hooks/use-user'
+import { JOB_REPORT_ROLES } from '@/lib/jobs/roles'
 import { cn } from '@/lib/utils/cn'
 import type { JobOrder } from '@/types/supabase'
 
@@ -23,9 +26,13 @@ interface JobCardProps {
  * - Shows customer_name below
  * - Shows origin → destination route
  * - X button to remove/clear the selection
+ * - Link to the job cost report (managers only)
  * - Card-like styling with border, rounded corners, and padding
  */
 export function JobCard({ job, onRemove }: JobCardProps) {
+  const { profile } = useUser()
+  const canViewReport = !!profile && JOB_REPORT_ROLES.includes(profile.role)
+
   return (
     <div
       className={cn(
@@ -60,6 +67,17 @@ export function JobCard({ job, onRemove }: JobCardProps) {
             {job.origin} → {job.destination}
           </span>
         </div>
+
+        {/* Job cost report */}
+        {canViewReport && (
+          <Link
+            href={`/jobs/${job.id}`}
+            className="inline-flex items-center gap-1 mt-2 text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            <BarChart3 className="w-3 h-3" />
+            Lihat biaya job
+          </Link>
+        )}
       </div>
 
       {/* Remove Button */}
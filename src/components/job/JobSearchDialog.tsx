@@ -1,7 +1,8 @@
 'use client'
 
 import { useState, useCallback } from 'react'
-import { Search, Loader2, WifiOff } from 'lucide-react'
+import Link from 'next/link'
+import { Search, Loader2, WifiOff, BarChart3 } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -11,6 +12,8 @@ import {
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { useJobSearch } from '@/hooks/use-job-search'
+import { useUser } from '@/hooks/use-user'
+import { JOB_REPORT_ROLES } from '@/lib/jobs/roles'
 import { cn } from '@/lib/utils/cn'
 import type { JobOrder } from '@/types/supabase'
 
@@ -29,6 +32,7 @@ interface JobSearchDialogProps {
  * - Empty state message
  * - Clickable job results showing job_number, customer_name, and route
  * - Offline indicator when using cached data
+ * - Link to each job's cost report (managers only)
  */
 export function JobSearchDialog({
   open,
@@ -37,6 +41,8 @@ export function JobSearchDialog({
 }: JobSearchDialogProps) {
   const [searchValue, setSearchValue] = useState('')
   const { jobs, isLoading, isUsingCache, search, clearResults } = useJobSearch()
+  const { profile } = useUser()
+  const canViewReport = !!profile && JOB_REPORT_ROLES.includes(profile.role)
 
   const handleSearchChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -116,27 +122,41 @@ export function JobSearchDialog({
             // Results List
             <div className="space-y-2 py-2">
               {jobs.map((job) => (
-                <button
-                  key={job.id}
-                  type="button"
-                  onClick={() => handleSelect(job)}
-                  className={cn(
-                    'w-full text-left p-3 rounded-lg border border-gray-200',
-                    'hover:bg-gray-50 hover:border-gray-300',
-                    'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1',
-                    'transition-colors'
+                <div key={job.id} className="flex items-stretch gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(job)}
+                    className={cn(
+                      'flex-1 min-w-0 text-left p-3 rounded-lg border border-gray-200',
+                      'hover:bg-gray-50 hover:border-gray-300',
+                      'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1',
+                      'transition-colors'
+                    )}
+                  >
+                    <div className="font-medium text-gray-900">
+                      {job.job_number}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {job.customer_name}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {job.origin} → {job.destination}
+                    </div>
+                  </button>
+                  {canViewReport && (
+                    <Link
+                      href={`/jobs/${job.id}`}
+                      className={cn(
+                        'flex items-center px-3 rounded-lg border border-gray-200',
+                        'text-gray-500 hover:text-blue-600 hover:bg-gray-50',
+                        'transition-colors'
+                      )}
+                      aria-label={`Lihat biaya ${job.job_number}`}
+                    >
+                      <BarChart3 className="h-4 w-4" />
+                    </Link>
                   )}
-                >
-                  <div className="font-medium text-gray-900">
-                    {job.job_number}
-                  </div>
-                  <div className="text-sm text-gray-600">
-                    {job.customer_name}
-                  </div>
-                  <div className="text-xs text-gray-500 mt-1">
-                    {job.origin} → {job.destination}
-                  </div>
-                </button>
+                </div>
               ))}
             </div>
           )}
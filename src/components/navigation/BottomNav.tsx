@@ -6,6 +6,8 @@ import { Home, Camera, History, Settings, ClipboardCheck } from 'lucide-react'
 import { cn } from '@/lib/utils/cn'
 import { useUser } from '@/hooks/use-user'
 import { usePendingCount } from '@/hooks/use-pending-count'
+import { APPROVER_ROLES } from '@/constants/approval-policy'
+import type { UserRole } from '@/types/supabase'
 
 const baseNavItems = [
   { href: '/dashboard', icon: Home, label: 'Beranda' },
@@ -16,16 +18,13 @@ const baseNavItems = [
 
 const approvalNavItem = { href: '/approval', icon: ClipboardCheck, label: 'Setujui' }
 
-// Roles that can access approval page
-const APPROVAL_ROLES = ['owner', 'director', 'finance_manager']
-
 export function BottomNav() {
   const pathname = usePathname()
   const { profile } = useUser()
   const { count: pendingCount } = usePendingCount()
 
   // Check if user has approval access
-  const hasApprovalAccess = profile?.role && APPROVAL_ROLES.includes(profile.role)
+  const hasApprovalAccess = profile?.role && APPROVER_ROLES.includes(profile.role as UserRole)
 
   // Build nav items based on role
   const navItems = hasApprovalAccess
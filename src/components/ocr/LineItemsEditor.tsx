@@ -0,0 +1,236 @@
+'use client'
+
+/**
+ * Line Items Editor Component
+ *
+ * Review and edit the receipt itemization (item lines, PPN and service
+ * charge) read by OCR, or enter it by hand, before the expense is saved.
+ */
+
+import { AlertTriangle, ListPlus, Plus, Trash2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import {
+  getItemizationTotal,
+  getLineItemTotal,
+  isItemizationBalanced,
+} from '@/lib/ocr/itemization'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { cn } from '@/lib/utils/cn'
+import type { ReceiptItemization, ReceiptLineItem } from '@/types/ocr'
+
+interface LineItemsEditorProps {
+  /** Current itemization */
+  value: ReceiptItemization
+  /** Callback when the itemization changes */
+  onChange: (value: ReceiptItemization) => void
+  /** Expense amount the itemization should add up to */
+  amount: number
+  /** Callback to take the itemized total as the expense amount */
+  onUseTotal: (total: number) => void
+  /** Whether the editor is disabled */
+  disabled?: boolean
+  /** Additional CSS classes */
+  className?: string
+}
+
+const EMPTY_ITEM: ReceiptLineItem = { description: '', quantity: 1, unitPrice: 0, total: 0 }
+
+/**
+ * Parse a number field, treating empty or invalid input as zero
+ */
+function parseNumber(value: string): number {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : 0
+}
+
+/**
+ * Parse an optional charge field, empty meaning no charge on the receipt
+ */
+function parseCharge(value: string): number | undefined {
+  return value.trim() ? parseNumber(value) : undefined
+}
+
+export function LineItemsEditor({
+  value,
+  onChange,
+  amount,
+  onUseTotal,
+  disabled = false,
+  className,
+}: LineItemsEditorProps) {
+  const { lineItems } = value
+  const total = getItemizationTotal(value)
+  const isBalanced = isItemizationBalanced(value, amount)
+
+  const updateItem = (index: number, changes: Partial<ReceiptLineItem>) => {
+    onChange({
+      ...value,
+      lineItems: lineItems.map((item, i) => {
+        if (i !== index) return item
+        const updated = { ...item, ...changes }
+        return { ...updated, total: getLineItemTotal(updated.quantity, updated.unitPrice) }
+      }),
+    })
+  }
+
+  const addItem = () => {
+    onChange({ ...value, lineItems: [...lineItems, EMPTY_ITEM] })
+  }
+
+  const removeItem = (index: number) => {
+    onChange({ ...value, lineItems: lineItems.filter((_, i) => i !== index) })
+  }
+
+  // Collapsed until there is something to itemize
+  if (lineItems.length === 0 && value.taxAmount === undefined && value.serviceCharge === undefined) {
+    return (
+      <button
+        type="button"
+        onClick={addItem}
+        disabled={disabled}
+        className={cn(
+          'flex w-full items-center justify-center gap-2 rounded-lg border border-dashed border-gray-300 py-3 text-sm text-gray-600 transition-colors hover:border-gray-400 disabled:opacity-60',
+          className
+        )}
+      >
+        <ListPlus className="h-4 w-4" />
+        Tambah Rincian Item
+      </button>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-3 rounded-lg border border-gray-200 bg-white p-4', className)}>
+      <label className="text-sm font-medium text-gray-700">Rincian Item</label>
+
+      {/* Item lines */}
+      <div className="space-y-3">
+        {lineItems.map((item, index) => (
+          <div key={index} className="space-y-2 border-b border-gray-100 pb-3">
+            <div className="flex gap-2">
+              <Input
+                value={item.description}
+                onChange={(e) => updateItem(index, { description: e.target.value })}
+                placeholder="Nama item"
+                aria-label={`Nama item ${index + 1}`}
+                disabled={disabled}
+                className="text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => removeItem(index)}
+                disabled={disabled}
+                className="flex-shrink-0 rounded-md p-2 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                aria-label={`Hapus item ${index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={item.quantity || ''}
+                onChange={(e) => updateItem(index, { quantity: parseNumber(e.target.value) })}
+                aria-label={`Jumlah unit item ${index + 1}`}
+                disabled={disabled}
+                className="w-16 text-sm"
+              />
+              <span>×</span>
+              <Input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                value={item.unitPrice || ''}
+                onChange={(e) => updateItem(index, { unitPrice: parseNumber(e.target.value) })}
+                placeholder="Harga satuan"
+                aria-label={`Harga satuan item ${index + 1}`}
+                disabled={disabled}
+                className="flex-1 text-sm"
+              />
+              <span className="w-28 flex-shrink-0 text-right font-medium text-gray-900">
+                {formatCurrency(item.total)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={addItem}
+        disabled={disabled}
+        className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="h-4 w-4" />
+        Tambah Item
+      </button>
+
+      {/* Tax and service charge */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label htmlFor="line-items-tax" className="text-xs text-gray-500">
+            PPN (Rp)
+          </label>
+          <Input
+            id="line-items-tax"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={value.taxAmount ?? ''}
+            onChange={(e) => onChange({ ...value, taxAmount: parseCharge(e.target.value) })}
+            placeholder="0"
+            disabled={disabled}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="line-items-service" className="text-xs text-gray-500">
+            Service Charge (Rp)
+          </label>
+          <Input
+            id="line-items-service"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={value.serviceCharge ?? ''}
+            onChange={(e) => onChange({ ...value, serviceCharge: parseCharge(e.target.value) })}
+            placeholder="0"
+            disabled={disabled}
+            className="text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Itemized total against the expense amount */}
+      <div className="flex items-center justify-between border-t border-gray-100 pt-3 text-sm">
+        <span className="text-gray-600">Total rincian</span>
+        <span className="font-semibold text-gray-900">{formatCurrency(total)}</span>
+      </div>
+
+      {!isBalanced && (
+        <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-xs text-yellow-800">
+          <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0 text-yellow-600" />
+          <div className="flex-1 space-y-2">
+            <p>
+              Total rincian berbeda {formatCurrency(Math.abs(total - amount))} dari jumlah
+              pengeluaran. Periksa item, PPN dan service charge.
+            </p>
+            {total > 0 && (
+              <button
+                type="button"
+                onClick={() => onUseTotal(total)}
+                disabled={disabled}
+                className="font-medium text-yellow-900 underline"
+              >
+                Pakai {formatCurrency(total)} sebagai jumlah
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
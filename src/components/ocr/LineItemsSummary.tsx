@@ -0,0 +1,75 @@
+/**
+ * Line Items Summary Component
+ *
+ * Read-only receipt itemization of a saved expense, for submitters and
+ * approvers.
+ */
+
+import { AlertTriangle } from 'lucide-react'
+import { getItemizationTotal, isItemizationBalanced } from '@/lib/ocr/itemization'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { cn } from '@/lib/utils/cn'
+import type { ReceiptItemization } from '@/types/ocr'
+
+interface LineItemsSummaryProps {
+  /** Itemization stored with the expense */
+  itemization: ReceiptItemization
+  /** Expense amount, to flag an itemization that does not add up */
+  amount: number
+  /** Additional CSS classes */
+  className?: string
+}
+
+export function LineItemsSummary({ itemization, amount, className }: LineItemsSummaryProps) {
+  const { lineItems, taxAmount, serviceCharge } = itemization
+
+  if (lineItems.length === 0) return null
+
+  const total = getItemizationTotal(itemization)
+
+  return (
+    <div className={cn('bg-white rounded-xl border border-slate-100 p-4 space-y-3', className)}>
+      <h3 className="text-sm font-medium text-slate-700">Rincian Item</h3>
+
+      <ul className="space-y-2 text-sm">
+        {lineItems.map((item, index) => (
+          <li key={index} className="flex justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-slate-900 truncate">{item.description}</p>
+              <p className="text-xs text-slate-500">
+                {item.quantity} × {formatCurrency(item.unitPrice)}
+              </p>
+            </div>
+            <span className="text-slate-900 flex-shrink-0">{formatCurrency(item.total)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t border-slate-100 pt-3 space-y-1 text-sm">
+        {serviceCharge !== undefined && (
+          <div className="flex justify-between text-slate-600">
+            <span>Service charge</span>
+            <span>{formatCurrency(serviceCharge)}</span>
+          </div>
+        )}
+        {taxAmount !== undefined && (
+          <div className="flex justify-between text-slate-600">
+            <span>PPN</span>
+            <span>{formatCurrency(taxAmount)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold text-slate-900">
+          <span>Total rincian</span>
+          <span>{formatCurrency(total)}</span>
+        </div>
+      </div>
+
+      {!isItemizationBalanced(itemization, amount) && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-700">
+          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+          Berbeda {formatCurrency(Math.abs(total - amount))} dari jumlah pengeluaran
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+/**
+ * Receipt Metadata Summary Component
+ *
+ * Details read from a recognized kind of receipt (SPBU, toll, parking,
+ * e-money top-up, restaurant), shown in the capture form and on saved
+ * expenses.
+ */
+
+import { ReceiptText } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { cn } from '@/lib/utils/cn'
+import type { ReceiptMetadata, ReceiptType } from '@/types/ocr'
+
+interface ReceiptMetadataSummaryProps {
+  /** Details of the detected receipt type */
+  metadata: ReceiptMetadata
+  /** Additional CSS classes */
+  className?: string
+}
+
+const RECEIPT_TYPE_LABELS: Record<ReceiptType, string> = {
+  fuel: 'SPBU',
+  toll: 'Tol',
+  parking: 'Parkir',
+  emoney_topup: 'Top-up E-Money',
+  restaurant: 'Restoran',
+}
+
+const VEHICLE_CLASSES = ['I', 'II', 'III', 'IV', 'V']
+
+/**
+ * Label and value pairs of the details that were read
+ */
+function getDetailRows(metadata: ReceiptMetadata): Array<[string, string | undefined]> {
+  switch (metadata.type) {
+    case 'fuel':
+      return [
+        ['SPBU', [metadata.brand, metadata.stationNumber].filter(Boolean).join(' ') || undefined],
+        ['BBM', metadata.fuelGrade],
+        [
+          'Volume',
+          metadata.liters !== undefined ? `${metadata.liters.toLocaleString('id-ID')} L` : undefined,
+        ],
+        [
+          'Harga/liter',
+          metadata.pricePerLiter !== undefined ? formatCurrency(metadata.pricePerLiter) : undefined,
+        ],
+      ]
+    case 'toll':
+      return [
+        ['Operator', metadata.operator],
+        ['Gerbang masuk', metadata.gateIn],
+        ['Gerbang bayar', metadata.gateOut],
+        [
+          'Golongan',
+          metadata.vehicleClass !== undefined ? VEHICLE_CLASSES[metadata.vehicleClass - 1] : undefined,
+        ],
+      ]
+    case 'parking':
+      return [
+        ['Operator', metadata.operator],
+        ['No. polisi', metadata.plateNumber],
+        ['Masuk', metadata.entryTime],
+        ['Keluar', metadata.exitTime],
+      ]
+    case 'emoney_topup':
+      return [
+        ['Kartu', metadata.provider],
+        ['No. kartu', metadata.cardLastDigits ? `•••• ${metadata.cardLastDigits}` : undefined],
+        [
+          'Saldo akhir',
+          metadata.balanceAfter !== undefined ? formatCurrency(metadata.balanceAfter) : undefined,
+        ],
+      ]
+    case 'restaurant':
+      return [
+        ['Meja', metadata.tableNumber],
+        ['Tamu', metadata.guestCount !== undefined ? `${metadata.guestCount} orang` : undefined],
+      ]
+  }
+}
+
+export function ReceiptMetadataSummary({ metadata, className }: ReceiptMetadataSummaryProps) {
+  const rows = getDetailRows(metadata).filter(
+    (row): row is [string, string] => row[1] !== undefined
+  )
+
+  return (
+    <div className={cn('bg-white rounded-xl border border-slate-100 p-4 space-y-3', className)}>
+      <h3 className="flex items-center gap-2 text-sm font-medium text-slate-700">
+        <ReceiptText className="h-4 w-4 text-slate-400" />
+        Struk {RECEIPT_TYPE_LABELS[metadata.type]}
+      </h3>
+
+      {rows.length > 0 && (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+          {rows.map(([label, value]) => (
+            <div key={label} className="min-w-0">
+              <dt className="text-xs text-slate-500">{label}</dt>
+              <dd className="text-slate-900 truncate">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  )
+}
@@ -6,3 +6,6 @@ export { OCRStatus } from './OCRStatus'
 export { ConfidenceBadge } from './ConfidenceBadge'
 export { ConfidenceField } from './ConfidenceField'
 export { ManualReviewPrompt } from './ManualReviewPrompt'
+export { LineItemsEditor } from './LineItemsEditor'
+export { LineItemsSummary } from './LineItemsSummary'
+export { ReceiptMetadataSummary } from './ReceiptMetadataSummary'
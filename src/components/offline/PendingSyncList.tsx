@@ -1,74 +1,147 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { Receipt, DollarSign, AlertCircle, RefreshCw } from 'lucide-react'
-import { db, type SyncQueueItem } from '@/lib/db'
+import { useCallback, useEffect, useState } from 'react'
+import { Receipt, DollarSign, AlertCircle, AlertTriangle, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  db,
+  type ExpenseConflict,
+  type ExpenseUserField,
+  type SyncOperation,
+  type SyncQueueItem,
+} from '@/lib/db'
+import { discardExpenseChanges } from '@/lib/db/operations'
 import { cn } from '@/lib/utils/cn'
 import { formatCurrency } from '@/lib/utils/format-currency'
+import { Button } from '@/components/ui/button'
+import { ApprovalStatusBadge } from '@/components/history/ApprovalStatusBadge'
 import { SyncStatusBadge } from './SyncStatusBadge'
 
+/**
+ * Label prefix for expense changes made after capture
+ */
+const OPERATION_PREFIX: Record<SyncOperation, string> = {
+  create: '',
+  update: 'Ubah ',
+  delete: 'Hapus ',
+}
+
+/**
+ * Labels for expense fields listed in a sync conflict
+ */
+const FIELD_LABELS: Record<ExpenseUserField, string> = {
+  amount: 'jumlah',
+  category: 'kategori',
+  description: 'deskripsi',
+  vendorName: 'vendor',
+  vendorId: 'vendor',
+  jobOrderId: 'job order',
+  advanceId: 'kasbon',
+  isOverhead: 'overhead',
+  expenseDate: 'tanggal',
+  expenseTime: 'waktu',
+  locationExplanation: 'penjelasan lokasi',
+  lineItems: 'rincian item',
+  taxAmount: 'PPN',
+  serviceCharge: 'service charge',
+  receiptMetadata: 'detail struk',
+}
+
 interface PendingItem {
   queueItem: SyncQueueItem
   details?: {
     amount?: number
     category?: string
     vendorName?: string
+    conflict?: ExpenseConflict
+  }
+}
+
+/**
+ * Describe the local changes held back by a conflict
+ */
+function describeConflict(conflict: ExpenseConflict): string {
+  if (conflict.deleted) {
+    return 'Penghapusan belum terkirim'
   }
+  const fields = Array.from(new Set(conflict.fields.map((field) => FIELD_LABELS[field])))
+  return `Perubahan ${fields.join(', ')} belum terkirim`
 }
 
 /**
  * PendingSyncList - Shows list of items pending sync
  *
  * Displays all items in the sync queue with their status and details.
- * Useful for users to see what's waiting to be synced.
+ * Useful for users to see what's waiting to be synced. Expenses whose local
+ * changes conflict with a newer server state can be reset to the server copy.
  */
 export function PendingSyncList() {
   const [items, setItems] = useState<PendingItem[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
 
-  useEffect(() => {
-    const loadPendingItems = async () => {
-      try {
-        // Get all non-completed queue items
-        const queueItems = await db.syncQueue
-          .where('status')
-          .anyOf(['pending', 'syncing', 'failed'])
-          .toArray()
-
-        // Enrich with details from local records
-        const enrichedItems: PendingItem[] = await Promise.all(
-          queueItems.map(async (queueItem) => {
-            if (queueItem.type === 'expense') {
-              const expense = await db.expenses.get(queueItem.localId)
-              return {
-                queueItem,
-                details: expense
-                  ? {
-                      amount: expense.amount,
-                      category: expense.category,
-                      vendorName: expense.vendorName,
-                    }
-                  : undefined,
-              }
+  const loadPendingItems = useCallback(async () => {
+    try {
+      // Get all non-completed queue items
+      const queueItems = await db.syncQueue
+        .where('status')
+        .anyOf(['pending', 'syncing', 'failed'])
+        .toArray()
+
+      // Enrich with details from local records
+      const enrichedItems: PendingItem[] = await Promise.all(
+        queueItems.map(async (queueItem) => {
+          if (queueItem.type === 'expense') {
+            const expense = await db.expenses.get(queueItem.localId)
+            return {
+              queueItem,
+              details: expense
+                ? {
+                    amount: expense.amount,
+                    category: expense.category,
+                    vendorName: expense.vendorName,
+                    conflict: expense.conflict,
+                  }
+                : undefined,
             }
-            return { queueItem }
-          })
-        )
-
-        setItems(enrichedItems)
-      } catch (error) {
-        console.error('Failed to load pending items:', error)
-      } finally {
-        setIsLoading(false)
-      }
+          }
+          return { queueItem }
+        })
+      )
+
+      setItems(enrichedItems)
+    } catch (error) {
+      console.error('Failed to load pending items:', error)
+    } finally {
+      setIsLoading(false)
     }
+  }, [])
 
+  useEffect(() => {
     loadPendingItems()
 
     // Poll for updates
     const interval = setInterval(loadPendingItems, 3000)
     return () => clearInterval(interval)
-  }, [])
+  }, [loadPendingItems])
+
+  const handleUseServerVersion = async (localId: string) => {
+    if (!confirm('Buang perubahan lokal dan gunakan data dari server?')) {
+      return
+    }
+
+    setResolvingId(localId)
+    try {
+      await discardExpenseChanges(localId)
+      toast.success('Data server digunakan')
+      await loadPendingItems()
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
+      toast.error('Gagal menyelesaikan konflik')
+    } finally {
+      setResolvingId(null)
+    }
+  }
 
   if (isLoading) {
     return (
@@ -118,7 +191,9 @@ export function PendingSyncList() {
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2">
               <span className="font-medium text-gray-900 capitalize">
-                {item.queueItem.type === 'receipt' ? 'Struk' : 'Pengeluaran'}
+                {item.queueItem.type === 'receipt'
+                  ? 'Struk'
+                  : `${OPERATION_PREFIX[item.queueItem.operation ?? 'create']}Pengeluaran`}
               </span>
               <SyncStatusBadge
                 status={
@@ -139,7 +214,27 @@ export function PendingSyncList() {
                   : ''}
               </p>
             )}
-            {item.queueItem.error && (
+            {item.details?.conflict ? (
+              <div className="mt-2 space-y-2 rounded-md border border-amber-200 bg-amber-50 p-2">
+                <div className="text-xs text-amber-800 flex flex-wrap items-center gap-1">
+                  <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                  {describeConflict(item.details.conflict)}, pengeluaran sudah
+                  <ApprovalStatusBadge
+                    status={item.details.conflict.serverApprovalStatus}
+                    showLabel
+                  />
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleUseServerVersion(item.queueItem.localId)}
+                  disabled={resolvingId === item.queueItem.localId}
+                >
+                  Gunakan Data Server
+                </Button>
+              </div>
+            ) : item.queueItem.error && (
               <p className="text-xs text-red-600 flex items-center gap-1 mt-1">
                 <AlertCircle className="h-3 w-3" />
                 {item.queueItem.error}
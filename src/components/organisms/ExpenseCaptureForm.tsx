@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useTransition, useCallback, useEffect, useRef } from 'react'
+import { useState, useTransition, useCallback, useEffect, useMemo, useRef } from 'react'
 import { Loader2, Save, Plus, MapPin, MapPinOff, WifiOff } from 'lucide-react'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils/cn'
@@ -13,37 +13,96 @@ import { DatePicker } from '@/components/molecules/DatePicker'
 import { DescriptionInput } from '@/components/molecules/DescriptionInput'
 import { ReceiptCapture } from '@/components/molecules/ReceiptCapture'
 import { ReceiptWarning } from '@/components/molecules/ReceiptWarning'
-import { OCRStatus, ConfidenceField, ManualReviewPrompt } from '@/components/ocr'
+import {
+  OCRStatus,
+  ConfidenceField,
+  ManualReviewPrompt,
+  LineItemsEditor,
+  ReceiptMetadataSummary,
+} from '@/components/ocr'
 import { JobSelector } from '@/components/job'
+import { AdvanceSelector } from '@/components/advances'
+import { LocationWarning } from '@/components/location'
+import { DuplicateWarning } from '@/components/duplicates'
+import { PolicyViolationAlert } from '@/components/policies'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
 import { useGPS } from '@/hooks/use-gps'
-import { saveExpenseLocally, saveReceiptLocally } from '@/lib/db/operations'
+import { useJobLocation } from '@/hooks/use-job-location'
+import { checkJobGeofence } from '@/lib/location/geofence'
+import { findDuplicateExpenses } from '@/lib/duplicates/find'
+import { computePerceptualHash } from '@/lib/image/perceptual-hash'
+import { formatDistance } from '@/lib/utils/geo'
+import { toDateInputValue } from '@/lib/utils/format-date'
+import {
+  getLocalReceipt,
+  saveExpenseLocally,
+  saveReceiptLocally,
+  updateExpenseLocally,
+} from '@/lib/db/operations'
 import { requiresManualReview } from '@/types/ocr'
 import type { ExpenseCategory } from '@/constants/expense-categories'
-import type { OCRResult } from '@/types/ocr'
+import type { LocalExpense } from '@/lib/db'
+import type { OCRResult, ReceiptItemization, ReceiptMetadata } from '@/types/ocr'
+import type { DuplicateMatch } from '@/types/duplicates'
 
 interface ExpenseCaptureFormProps {
   initialVendors?: VendorSuggestion[]
   initialCategory?: ExpenseCategory
+  /** Existing expense to edit; the form saves changes instead of a new expense */
+  expense?: LocalExpense
+  /** Called after an edited expense is saved */
+  onSaved?: (expense: LocalExpense) => void
 }
 
 export function ExpenseCaptureForm({ 
   initialVendors = [],
-  initialCategory 
+  initialCategory,
+  expense,
+  onSaved,
 }: ExpenseCaptureFormProps) {
+  const isEditing = !!expense
+
   const [isPending, startTransition] = useTransition()
   const [showAddAnother, setShowAddAnother] = useState(false)
   const [vendorSuggestions] = useState<VendorSuggestion[]>(initialVendors)
-  const [receiptId, setReceiptId] = useState<string | null>(null)
+  const [receiptId, setReceiptId] = useState<string | null>(expense?.receiptLocalId ?? null)
   const [showReviewPrompt, setShowReviewPrompt] = useState(false)
   const [ocrFieldConfidences, setOcrFieldConfidences] = useState<{
     amount?: number
     vendor?: number
     date?: number
+    lineItems?: number
+    category?: number
   }>({})
+
+  // Receipt itemization, read by OCR and reviewed before saving
+  const [itemization, setItemization] = useState<ReceiptItemization>({
+    lineItems: expense?.lineItems ?? [],
+    taxAmount: expense?.taxAmount,
+    serviceCharge: expense?.serviceCharge,
+  })
+
+  // Details of the detected receipt type (SPBU, toll, parking, ...)
+  const [receiptMetadata, setReceiptMetadata] = useState<ReceiptMetadata | undefined>(
+    expense?.receiptMetadata
+  )
+  const { activeCategories } = useExpenseCategories()
   
   // Job linking state
-  const [jobOrderId, setJobOrderId] = useState<string | null>(null)
-  const [isOverhead, setIsOverhead] = useState(false)
+  const [jobOrderId, setJobOrderId] = useState<string | null>(expense?.jobOrderId ?? null)
+  const [isOverhead, setIsOverhead] = useState(expense?.isOverhead ?? false)
+
+  // Cash advance the expense is paid from
+  const [advanceId, setAdvanceId] = useState<string | null>(expense?.advanceId ?? null)
+
+  // Submission held back until the off-route location is explained
+  const [pendingSubmit, setPendingSubmit] = useState<ExpenseFormData | null>(null)
+
+  // Submission held back until suspected duplicates are confirmed
+  const [duplicateCheck, setDuplicateCheck] = useState<{
+    data: ExpenseFormData
+    matches: DuplicateMatch[]
+  } | null>(null)
 
   // Store the captured receipt file for offline save
   const capturedReceiptFileRef = useRef<File | null>(null)
@@ -56,10 +115,32 @@ export function ExpenseCaptureForm({
     capturePosition,
   } = useGPS()
 
-  // Capture GPS position on form load (silently in background)
+  // Capture GPS position on form load (silently in background).
+  // Edits keep the location recorded with the original capture.
   useEffect(() => {
-    capturePosition()
-  }, [capturePosition])
+    if (!isEditing) {
+      capturePosition()
+    }
+  }, [capturePosition, isEditing])
+
+  // Job geofence for the capture-time location check (cached offline)
+  const { location: jobLocation } = useJobLocation(isOverhead ? null : jobOrderId)
+
+  // Edits are checked against the location recorded with the original capture
+  const capturePoint = useMemo(() => {
+    if (!isEditing) return gpsPosition
+    if (expense?.gpsLatitude === undefined || expense.gpsLongitude === undefined) return null
+    return {
+      latitude: expense.gpsLatitude,
+      longitude: expense.gpsLongitude,
+      accuracy: expense.gpsAccuracy,
+    }
+  }, [isEditing, gpsPosition, expense])
+
+  const geofenceCheck = useMemo(
+    () => (capturePoint ? checkJobGeofence(capturePoint, jobLocation) : null),
+    [capturePoint, jobLocation]
+  )
 
   // OCR hook
   const {
@@ -90,6 +171,27 @@ export function ExpenseCaptureForm({
         setOcrFieldConfidences(prev => ({ ...prev, date: extractedData.dateConfidence }))
       }
       
+      if (extractedData.lineItems?.length) {
+        setItemization({
+          lineItems: extractedData.lineItems,
+          taxAmount: extractedData.taxAmount,
+          serviceCharge: extractedData.serviceCharge,
+        })
+        setOcrFieldConfidences(prev => ({ ...prev, lineItems: extractedData.lineItemsConfidence }))
+      }
+      
+      // Suggest the category of the receipt type unless one was picked
+      const { suggestedCategory } = extractedData
+      if (
+        suggestedCategory &&
+        !watch('category') &&
+        activeCategories.some((category) => category.code === suggestedCategory)
+      ) {
+        setValue('category', suggestedCategory, { shouldValidate: true })
+        setOcrFieldConfidences(prev => ({ ...prev, category: extractedData.receiptTypeConfidence }))
+      }
+      setReceiptMetadata(extractedData.receiptMetadata)
+      
       // Show review prompt if confidence is low
       if (requiresManualReview(result)) {
         setShowReviewPrompt(true)
@@ -107,8 +209,24 @@ export function ExpenseCaptureForm({
     setValue,
     handleSubmit,
     resetForm,
+    policyViolations,
     formState: { errors },
-  } = useExpenseForm()
+  } = useExpenseForm(
+    expense
+      ? {
+          amount: expense.amount,
+          category: expense.category,
+          vendorName: expense.vendorName ?? '',
+          vendorId: expense.vendorId ?? null,
+          description: expense.description ?? '',
+          expenseDate: new Date(expense.expenseDate),
+          jobOrderId: expense.jobOrderId ?? null,
+          isOverhead: expense.isOverhead,
+          locationExplanation: expense.locationExplanation,
+        }
+      : undefined,
+    { expenseId: expense?.id, hasReceipt: !!receiptId }
+  )
 
   const amount = watch('amount')
   const category = watch('category')
@@ -132,12 +250,14 @@ export function ExpenseCaptureForm({
   }, [setValue])
 
   const handleReceiptRemoved = () => {
-    setReceiptId(null)
+    // When editing, removing a new photo falls back to the existing receipt
+    setReceiptId(expense?.receiptLocalId ?? null)
     setValue('receiptId', null)
     capturedReceiptFileRef.current = null
     resetOCR()
     setOcrFieldConfidences({})
     setShowReviewPrompt(false)
+    setReceiptMetadata(expense?.receiptMetadata)
   }
 
   // Handle image ready for OCR processing - also store the file for offline save
@@ -170,32 +290,112 @@ export function ExpenseCaptureForm({
   }, [])
 
   const onSubmit = (data: ExpenseFormData) => {
+    // An explanation is only needed when the capture is off the job route
+    if (geofenceCheck?.isOffRoute) {
+      if (!data.locationExplanation) {
+        setPendingSubmit(data)
+        return
+      }
+    } else if (geofenceCheck) {
+      data = { ...data, locationExplanation: undefined }
+    }
+
+    setPendingSubmit(null)
+    checkAndSaveExpense(data)
+  }
+
+  const handleLocationProceed = (explanation: string) => {
+    if (!pendingSubmit) return
+    setValue('locationExplanation', explanation)
+    setPendingSubmit(null)
+    checkAndSaveExpense({ ...pendingSubmit, locationExplanation: explanation })
+  }
+
+  // Warn about suspected duplicates before saving
+  const checkAndSaveExpense = (data: ExpenseFormData) => {
     startTransition(async () => {
-      try {
-        let receiptLocalId: string | undefined
-
-        // Step 1: Save receipt locally first (if present)
-        if (capturedReceiptFileRef.current) {
-          // Prepare OCR result for local storage
-          const ocrResultForStorage: OCRResult | undefined = ocrResult
-            ? {
-                rawText: ocrResult.rawText,
-                confidence: ocrResult.confidence,
-                extractedData: ocrResult.extractedData,
-                processingTime: ocrResult.processingTime,
-                provider: ocrResult.provider,
-              }
-            : undefined
-
-          const localReceipt = await saveReceiptLocally(
-            capturedReceiptFileRef.current,
-            ocrResultForStorage
-          )
-          receiptLocalId = localReceipt.id
-        }
+      const matches = await findExpenseDuplicates(data)
+      if (matches.length > 0) {
+        setDuplicateCheck({ data, matches })
+        return
+      }
+      await saveExpense(data)
+    })
+  }
+
+  const handleDuplicateProceed = () => {
+    if (!duplicateCheck) return
+    const { data } = duplicateCheck
+    setDuplicateCheck(null)
+    startTransition(() => saveExpense(data))
+  }
 
-        // Step 2: Save expense locally with receipt reference
-        await saveExpenseLocally(
+  /**
+   * Find expenses that look like this one recorded twice
+   *
+   * Compares the receipt photo (new or already attached) and the amount,
+   * date, vendor and job. Failures never block saving.
+   */
+  const findExpenseDuplicates = async (data: ExpenseFormData): Promise<DuplicateMatch[]> => {
+    try {
+      let receiptHash: string | undefined
+      if (capturedReceiptFileRef.current) {
+        receiptHash = await computePerceptualHash(capturedReceiptFileRef.current).catch(
+          () => undefined
+        )
+      } else if (expense?.receiptLocalId) {
+        receiptHash = (await getLocalReceipt(expense.receiptLocalId))?.perceptualHash
+      }
+
+      return await findDuplicateExpenses({
+        amount: data.amount,
+        expenseDate: toDateInputValue(data.expenseDate),
+        vendorName: data.vendorName,
+        jobOrderId: jobOrderId ?? undefined,
+        receiptHash,
+        excludeIds: expense
+          ? [expense.id, ...(expense.serverId ? [expense.serverId] : [])]
+          : undefined,
+      })
+    } catch (error) {
+      console.warn('Duplicate check failed:', error)
+      return []
+    }
+  }
+
+  const saveExpense = async (data: ExpenseFormData) => {
+    // Item lines left blank in the editor are not stored
+    const lineItems = itemization.lineItems.filter(
+      (item) => item.description.trim() || item.total > 0
+    )
+
+    try {
+      let receiptLocalId: string | undefined
+
+      // Step 1: Save receipt locally first (if present)
+      if (capturedReceiptFileRef.current) {
+        // Prepare OCR result for local storage
+        const ocrResultForStorage: OCRResult | undefined = ocrResult
+          ? {
+              rawText: ocrResult.rawText,
+              confidence: ocrResult.confidence,
+              extractedData: ocrResult.extractedData,
+              processingTime: ocrResult.processingTime,
+              provider: ocrResult.provider,
+            }
+          : undefined
+
+        const localReceipt = await saveReceiptLocally(
+          capturedReceiptFileRef.current,
+          ocrResultForStorage
+        )
+        receiptLocalId = localReceipt.id
+      }
+
+      // Editing: save changes to the existing expense and hand back
+      if (expense) {
+        const updated = await updateExpenseLocally(
+          expense.id,
           {
             amount: data.amount,
             category: data.category,
@@ -203,34 +403,66 @@ export function ExpenseCaptureForm({
             vendorName: data.vendorName,
             vendorId: data.vendorId,
             jobOrderId: jobOrderId,
+            advanceId: advanceId,
             isOverhead: isOverhead,
             expenseDate: data.expenseDate,
-            gpsLatitude: gpsPosition?.latitude ?? null,
-            gpsLongitude: gpsPosition?.longitude ?? null,
-            gpsAccuracy: gpsPosition?.accuracy ?? null,
             locationExplanation: data.locationExplanation,
+            lineItems,
+            taxAmount: itemization.taxAmount,
+            serviceCharge: itemization.serviceCharge,
+            receiptMetadata,
           },
           receiptLocalId
         )
 
-        // Show success feedback with offline indicator if not online
-        const isOnline = typeof navigator !== 'undefined' && navigator.onLine
-        
-        toast.success('Pengeluaran tersimpan', {
-          description: isOnline
-            ? 'Data tersimpan lokal, akan disinkronkan'
-            : 'Data tersimpan lokal (mode offline)',
-          icon: !isOnline ? <WifiOff className="h-4 w-4" /> : undefined,
-        })
-        
-        setShowAddAnother(true)
-      } catch (error) {
-        console.error('Failed to save expense locally:', error)
-        toast.error('Gagal menyimpan', {
-          description: error instanceof Error ? error.message : 'Terjadi kesalahan. Silakan coba lagi.',
+        toast.success('Perubahan tersimpan', {
+          description: 'Perubahan akan disinkronkan',
         })
+        onSaved?.(updated)
+        return
       }
-    })
+
+      // Step 2: Save expense locally with receipt reference
+      await saveExpenseLocally(
+        {
+          amount: data.amount,
+          category: data.category,
+          description: data.description,
+          vendorName: data.vendorName,
+          vendorId: data.vendorId,
+          jobOrderId: jobOrderId,
+          advanceId: advanceId,
+          isOverhead: isOverhead,
+          expenseDate: data.expenseDate,
+          gpsLatitude: gpsPosition?.latitude ?? null,
+          gpsLongitude: gpsPosition?.longitude ?? null,
+          gpsAccuracy: gpsPosition?.accuracy ?? null,
+          locationExplanation: data.locationExplanation,
+          lineItems,
+          taxAmount: itemization.taxAmount,
+          serviceCharge: itemization.serviceCharge,
+          receiptMetadata,
+        },
+        receiptLocalId
+      )
+
+      // Show success feedback with offline indicator if not online
+      const isOnline = typeof navigator !== 'undefined' && navigator.onLine
+      
+      toast.success('Pengeluaran tersimpan', {
+        description: isOnline
+          ? 'Data tersimpan lokal, akan disinkronkan'
+          : 'Data tersimpan lokal (mode offline)',
+        icon: !isOnline ? <WifiOff className="h-4 w-4" /> : undefined,
+      })
+      
+      setShowAddAnother(true)
+    } catch (error) {
+      console.error('Failed to save expense locally:', error)
+      toast.error('Gagal menyimpan', {
+        description: error instanceof Error ? error.message : 'Terjadi kesalahan. Silakan coba lagi.',
+      })
+    }
   }
 
   const handleAddAnother = () => {
@@ -241,9 +473,14 @@ export function ExpenseCaptureForm({
     resetOCR()
     setOcrFieldConfidences({})
     setShowReviewPrompt(false)
+    setItemization({ lineItems: [] })
+    setReceiptMetadata(undefined)
+    setPendingSubmit(null)
+    setDuplicateCheck(null)
     // Reset job linking state
     setJobOrderId(null)
     setIsOverhead(false)
+    setAdvanceId(null)
   }
 
   const handleVendorChange = (value: string, vendorId?: string) => {
@@ -295,6 +532,10 @@ export function ExpenseCaptureForm({
             <MapPin className="h-4 w-4 text-green-500" />
             <span className="text-muted-foreground">
               Lokasi tercatat ({gpsPosition.accuracy.toFixed(0)}m)
+              {geofenceCheck &&
+                (geofenceCheck.isOffRoute
+                  ? ` · ${formatDistance(geofenceCheck.distance)} dari rute job`
+                  : ' · sesuai rute job')}
             </span>
           </>
         ) : gpsError ? (
@@ -325,6 +566,9 @@ export function ExpenseCaptureForm({
         />
       )}
 
+      {/* Details read from a recognized receipt type */}
+      {receiptMetadata && <ReceiptMetadataSummary metadata={receiptMetadata} />}
+
       {/* Amount Input - Most important */}
       <ConfidenceField
         confidence={ocrFieldConfidences.amount}
@@ -339,13 +583,32 @@ export function ExpenseCaptureForm({
         />
       </ConfidenceField>
 
-      {/* Category Selector */}
-      <CategorySelector
-        value={category as ExpenseCategory | null}
-        onChange={(value) => setValue('category', value, { shouldValidate: true })}
-        error={errors.category?.message}
-        disabled={isPending}
-      />
+      {/* Receipt itemization (items, PPN, service charge) */}
+      <ConfidenceField
+        confidence={ocrFieldConfidences.lineItems}
+        isOCRFilled={ocrFieldConfidences.lineItems !== undefined}
+      >
+        <LineItemsEditor
+          value={itemization}
+          onChange={setItemization}
+          amount={amount ?? 0}
+          onUseTotal={(total) => setValue('amount', total, { shouldValidate: true })}
+          disabled={isPending}
+        />
+      </ConfidenceField>
+
+      {/* Category Selector (suggested from the receipt type) */}
+      <ConfidenceField
+        confidence={ocrFieldConfidences.category}
+        isOCRFilled={ocrFieldConfidences.category !== undefined}
+      >
+        <CategorySelector
+          value={category as ExpenseCategory | null}
+          onChange={(value) => setValue('category', value, { shouldValidate: true })}
+          error={errors.category?.message}
+          disabled={isPending}
+        />
+      </ConfidenceField>
 
       {/* Job Order Selector */}
       <JobSelector
@@ -356,6 +619,13 @@ export function ExpenseCaptureForm({
         disabled={isPending}
       />
 
+      {/* Cash Advance Selector (only shown with open advances) */}
+      <AdvanceSelector
+        value={advanceId}
+        onChange={setAdvanceId}
+        disabled={isPending}
+      />
+
       {/* Vendor Input */}
       <ConfidenceField
         confidence={ocrFieldConfidences.vendor}
@@ -397,6 +667,29 @@ export function ExpenseCaptureForm({
         hasReceipt={!!receiptId}
       />
 
+      {/* Spending policy violations (flagged, not blocking) */}
+      <PolicyViolationAlert violations={policyViolations} />
+
+      {/* Off-route warning, shown when saving away from the job route */}
+      {pendingSubmit && geofenceCheck?.isOffRoute && (
+        <LocationWarning
+          distance={geofenceCheck.distance}
+          threshold={geofenceCheck.threshold}
+          onProceed={handleLocationProceed}
+          onCancel={() => setPendingSubmit(null)}
+        />
+      )}
+
+      {/* Duplicate warning, shown when saving looks like a repeat */}
+      {duplicateCheck && (
+        <DuplicateWarning
+          matches={duplicateCheck.matches}
+          onProceed={handleDuplicateProceed}
+          onCancel={() => setDuplicateCheck(null)}
+          openLinksInNewTab
+        />
+      )}
+
       {/* Submit Button */}
       <button
         type="submit"
@@ -415,7 +708,7 @@ export function ExpenseCaptureForm({
         ) : (
           <>
             <Save className="h-5 w-5" />
-            Simpan
+            {isEditing ? 'Simpan Perubahan' : 'Simpan'}
           </>
         )}
       </button>
@@ -0,0 +1,125 @@
+'use client'
+
+import { CheckSquare, Square, Wallet } from 'lucide-react'
+import { EmptyState } from '@/components/ui/empty-state'
+import { resolveCategory } from '@/lib/categories/registry'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import { cn } from '@/lib/utils/cn'
+import type { PayableExpense } from '@/types/payment'
+
+interface PayableExpenseListProps {
+  expenses: PayableExpense[]
+  /** IDs of the selected expenses */
+  selectedIds: string[]
+  onSelectionChange: (ids: string[]) => void
+}
+
+/**
+ * Group expenses by employee, keeping the list order
+ */
+function groupByEmployee(expenses: PayableExpense[]): PayableExpense[][] {
+  const groups = new Map<string, PayableExpense[]>()
+  for (const expense of expenses) {
+    groups.set(expense.userId, [...(groups.get(expense.userId) ?? []), expense])
+  }
+  return Array.from(groups.values())
+}
+
+/**
+ * PayableExpenseList - Approved expenses awaiting payment, grouped by
+ * employee, for finance to select into a payment
+ */
+export function PayableExpenseList({
+  expenses,
+  selectedIds,
+  onSelectionChange,
+}: PayableExpenseListProps) {
+  const { categories } = useExpenseCategories()
+
+  if (expenses.length === 0) {
+    return (
+      <EmptyState
+        icon={Wallet}
+        title="Tidak ada pengeluaran untuk dibayar"
+        description="Pengeluaran yang sudah disetujui dan belum dibayar muncul di sini"
+      />
+    )
+  }
+
+  const selected = new Set(selectedIds)
+
+  const toggle = (ids: string[], select: boolean) => {
+    const next = new Set(selected)
+    for (const id of ids) {
+      if (select) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+    }
+    onSelectionChange(Array.from(next))
+  }
+
+  return (
+    <div className="space-y-3">
+      {groupByEmployee(expenses).map((group) => {
+        const ids = group.map((expense) => expense.id)
+        const allSelected = ids.every((id) => selected.has(id))
+        const total = group.reduce((sum, expense) => sum + expense.amount, 0)
+        const GroupIcon = allSelected ? CheckSquare : Square
+
+        return (
+          <div
+            key={group[0].userId}
+            className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100"
+          >
+            <button
+              type="button"
+              onClick={() => toggle(ids, !allSelected)}
+              className="w-full p-4 flex items-center gap-3 text-left hover:bg-gray-50"
+            >
+              <GroupIcon
+                className={cn('h-5 w-5', allSelected ? 'text-blue-600' : 'text-gray-400')}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-900 truncate">{group[0].userName}</p>
+                <p className="text-xs text-gray-500">{group.length} pengeluaran</p>
+              </div>
+              <p className="text-sm font-semibold text-gray-900">{formatCurrency(total)}</p>
+            </button>
+
+            {group.map((expense) => {
+              const isSelected = selected.has(expense.id)
+              const Icon = isSelected ? CheckSquare : Square
+
+              return (
+                <button
+                  key={expense.id}
+                  type="button"
+                  onClick={() => toggle([expense.id], !isSelected)}
+                  className="w-full pl-8 pr-4 py-3 flex items-center gap-3 text-left hover:bg-gray-50"
+                >
+                  <Icon className={cn('h-4 w-4', isSelected ? 'text-blue-600' : 'text-gray-400')} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 truncate">
+                      {resolveCategory(expense.category, categories).label}
+                      {expense.description && ` · ${expense.description}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(expense.expenseDate)}
+                      {expense.bkkNumber && ` · ${expense.bkkNumber}`}
+                      {expense.jobNumber && ` · ${expense.jobNumber}`}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-900">{formatCurrency(expense.amount)}</p>
+                </button>
+              )
+            })}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
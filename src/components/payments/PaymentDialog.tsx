@@ -0,0 +1,197 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { recordPaymentApi } from '@/lib/erp/api-client'
+import { PAYMENT_METHODS } from '@/constants/payment-methods'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { toDateInputValue } from '@/lib/utils/format-date'
+import type { PayableExpense, PaymentMethod } from '@/types/payment'
+
+interface PaymentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Selected expenses to pay */
+  expenses: PayableExpense[]
+  /** Callback with the number of paid expenses */
+  onPaid?: (paidCount: number) => void
+  onError?: (error: string) => void
+}
+
+/**
+ * PaymentDialog - Record how and when finance paid the selected
+ * approved expenses
+ */
+export function PaymentDialog({
+  open,
+  onOpenChange,
+  expenses,
+  onPaid,
+  onError,
+}: PaymentDialogProps) {
+  const [method, setMethod] = useState<PaymentMethod>('transfer')
+  const [referenceNumber, setReferenceNumber] = useState('')
+  const [paidDate, setPaidDate] = useState('')
+  const [notes, setNotes] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Default to a transfer paid today
+  useEffect(() => {
+    if (!open) return
+
+    setMethod('transfer')
+    setReferenceNumber('')
+    setPaidDate(toDateInputValue(new Date()))
+    setNotes('')
+  }, [open])
+
+  const total = expenses.reduce((sum, expense) => sum + expense.amount, 0)
+  const employeeCount = new Set(expenses.map((expense) => expense.userId)).size
+  const selectedMethod = PAYMENT_METHODS.find((option) => option.value === method)
+  const needsReference = method === 'transfer'
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await recordPaymentApi({
+        expenseIds: expenses.map((expense) => expense.id),
+        method,
+        referenceNumber: needsReference ? referenceNumber : undefined,
+        paidDate,
+        notes,
+      })
+
+      if (result.success) {
+        onPaid?.(result.paidCount ?? expenses.length)
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal mencatat pembayaran')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Catat Pembayaran</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="rounded-lg bg-slate-50 p-3">
+            <p className="text-sm text-slate-600">
+              {expenses.length} pengeluaran · {employeeCount} karyawan
+            </p>
+            <p className="text-lg font-semibold text-slate-900">{formatCurrency(total)}</p>
+          </div>
+
+          {/* Method */}
+          <div className="space-y-2">
+            <Label htmlFor="payment-method">Metode pembayaran</Label>
+            <Select
+              value={method}
+              onValueChange={(value) => setMethod(value as PaymentMethod)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="payment-method" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedMethod && (
+              <p className="text-xs text-slate-500">{selectedMethod.description}</p>
+            )}
+          </div>
+
+          {/* Transfer reference */}
+          {needsReference && (
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Nomor referensi</Label>
+              <Input
+                id="payment-reference"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                placeholder="Nomor referensi transfer"
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+
+          {/* Date */}
+          <div className="space-y-2">
+            <Label htmlFor="payment-date">Tanggal bayar</Label>
+            <Input
+              id="payment-date"
+              type="date"
+              value={paidDate}
+              onChange={(e) => setPaidDate(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="payment-notes">Catatan</Label>
+            <Input
+              id="payment-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Opsional"
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              isSubmitting ||
+              expenses.length === 0 ||
+              !paidDate ||
+              (needsReference && !referenceNumber.trim())
+            }
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menyimpan...
+              </>
+            ) : (
+              'Tandai Dibayar'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,2 @@
+export { PayableExpenseList } from './PayableExpenseList'
+export { PaymentDialog } from './PaymentDialog'
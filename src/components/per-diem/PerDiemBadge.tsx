@@ -0,0 +1,26 @@
+'use client'
+
+import { CalendarDays } from 'lucide-react'
+import { cn } from '@/lib/utils/cn'
+
+interface PerDiemBadgeProps {
+  className?: string
+}
+
+/**
+ * PerDiemBadge - Marks a daily allowance generated from a job's trip,
+ * which needs no receipt photo
+ */
+export function PerDiemBadge({ className }: PerDiemBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-teal-50 text-teal-700',
+        className
+      )}
+    >
+      <CalendarDays className="h-3 w-3" />
+      Uang harian · tanpa struk
+    </span>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useState } from 'react'
+import { CalendarDays, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { usePerDiemPlan } from '@/hooks/use-per-diem-plan'
+import { generatePerDiemApi } from '@/lib/erp/api-client'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+
+interface PerDiemCardProps {
+  jobOrderId: string
+  /** Callback after allowances were generated */
+  onGenerated?: () => void
+}
+
+/**
+ * PerDiemCard - Daily allowance plan of a job's trip with the action to
+ * generate the allowance expenses for the driver
+ */
+export function PerDiemCard({ jobOrderId, onGenerated }: PerDiemCardProps) {
+  const { plan, isLoading, error, refresh } = usePerDiemPlan(jobOrderId)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    try {
+      const result = await generatePerDiemApi(jobOrderId)
+
+      if (result.success) {
+        toast.success(`${result.createdCount ?? 0} uang harian dibuat sebagai draft pengemudi`)
+        onGenerated?.()
+        await refresh()
+      } else {
+        toast.error(result.error || 'Gagal membuat uang harian')
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Terjadi kesalahan')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  if (isLoading && !plan) {
+    return <Skeleton className="h-32 w-full" />
+  }
+
+  const meals = plan?.entries.filter((entry) => entry.category === 'food') ?? []
+  const nights = plan?.entries.filter((entry) => entry.category === 'lodging') ?? []
+  const total = plan?.entries.reduce((sum, entry) => sum + entry.amount, 0) ?? 0
+  const generatedCount = plan ? plan.entries.length - plan.missingEntries.length : 0
+
+  return (
+    <section className="bg-white rounded-2xl border border-slate-100 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <CalendarDays className="h-4 w-4 text-teal-600" />
+        <h2 className="font-semibold text-slate-900">Uang Harian</h2>
+      </div>
+
+      {error || !plan ? (
+        <p className="text-sm text-slate-500">
+          {error?.message ?? 'Uang harian tidak tersedia untuk job ini'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm text-slate-600 space-y-0.5">
+            <p>
+              Pengemudi: <span className="text-slate-900">{plan.driverName ?? 'Pengemudi'}</span>
+            </p>
+            <p>
+              {formatDate(plan.tripStartDate)} – {formatDate(plan.tripEndDate)} · {plan.rate.region}
+            </p>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            {meals.length > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-slate-700">
+                  Makan {meals.length} hari × {formatCurrency(plan.rate.mealRate)}
+                </span>
+                <span className="text-slate-900">
+                  {formatCurrency(meals.length * plan.rate.mealRate)}
+                </span>
+              </div>
+            )}
+            {nights.length > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-slate-700">
+                  Penginapan {nights.length} malam × {formatCurrency(plan.rate.lodgingRate)}
+                </span>
+                <span className="text-slate-900">
+                  {formatCurrency(nights.length * plan.rate.lodgingRate)}
+                </span>
+              </div>
+            )}
+            <div className="flex items-center justify-between pt-1 border-t border-slate-100 font-semibold">
+              <span className="text-slate-900">Total</span>
+              <span className="text-slate-900">{formatCurrency(total)}</span>
+            </div>
+          </div>
+
+          {generatedCount > 0 && (
+            <p className="text-xs text-slate-500">
+              {generatedCount} dari {plan.entries.length} uang harian sudah dibuat
+            </p>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={handleGenerate}
+            disabled={isGenerating || plan.missingEntries.length === 0}
+          >
+            {isGenerating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Membuat...
+              </>
+            ) : plan.missingEntries.length === 0 ? (
+              'Uang harian sudah dibuat'
+            ) : (
+              'Buat Uang Harian'
+            )}
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { AmountInput } from '@/components/molecules/AmountInput'
+import { deletePerDiemRateApi, savePerDiemRateApi } from '@/lib/erp/api-client'
+import type { PerDiemRate } from '@/types/per-diem'
+
+interface PerDiemRateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Rate to edit; null creates a new rate */
+  rate: PerDiemRate | null
+  /** Callback after the rate was saved or deleted */
+  onSaved?: () => void
+  onError?: (error: string) => void
+}
+
+/**
+ * PerDiemRateDialog - Form to create, edit or delete the daily allowance
+ * rate of a destination region
+ */
+export function PerDiemRateDialog({
+  open,
+  onOpenChange,
+  rate,
+  onSaved,
+  onError,
+}: PerDiemRateDialogProps) {
+  const [region, setRegion] = useState('')
+  const [keywords, setKeywords] = useState('')
+  const [mealRate, setMealRate] = useState(0)
+  const [lodgingRate, setLodgingRate] = useState(0)
+  const [isDefault, setIsDefault] = useState(false)
+  const [isActive, setIsActive] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Load the edited rate (or blank values) when the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setRegion(rate?.region ?? '')
+    setKeywords(rate?.keywords.join(', ') ?? '')
+    setMealRate(rate?.mealRate ?? 0)
+    setLodgingRate(rate?.lodgingRate ?? 0)
+    setIsDefault(rate?.isDefault ?? false)
+    setIsActive(rate?.isActive ?? true)
+  }, [open, rate])
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await savePerDiemRateApi({
+        id: rate?.id,
+        region,
+        keywords: keywords.split(','),
+        mealRate,
+        lodgingRate,
+        isDefault,
+        isActive,
+      })
+
+      if (result.success) {
+        onSaved?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menyimpan tarif')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!rate) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await deletePerDiemRateApi(rate.id)
+
+      if (result.success) {
+        onSaved?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menghapus tarif')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{rate ? 'Ubah Tarif' : 'Tambah Tarif'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Region */}
+          <div className="space-y-2">
+            <Label htmlFor="per-diem-region">Wilayah</Label>
+            <Input
+              id="per-diem-region"
+              value={region}
+              onChange={(e) => setRegion(e.target.value)}
+              placeholder="Contoh: Jawa Timur"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Keywords */}
+          <div className="space-y-2">
+            <Label htmlFor="per-diem-keywords">Kata kunci tujuan</Label>
+            <Input
+              id="per-diem-keywords"
+              value={keywords}
+              onChange={(e) => setKeywords(e.target.value)}
+              placeholder="Surabaya, Gresik, Sidoarjo"
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-slate-500">
+              Pisahkan dengan koma. Tujuan job yang memuat wilayah atau kata kunci memakai tarif ini.
+            </p>
+          </div>
+
+          {/* Rates */}
+          <div className="space-y-2">
+            <Label>Uang makan per hari</Label>
+            <AmountInput value={mealRate} onChange={setMealRate} disabled={isSubmitting} />
+          </div>
+          <div className="space-y-2">
+            <Label>Uang penginapan per malam</Label>
+            <AmountInput value={lodgingRate} onChange={setLodgingRate} disabled={isSubmitting} />
+          </div>
+
+          {/* Default */}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="per-diem-default">Tarif default</Label>
+              <p className="text-xs text-slate-500">Dipakai bila tujuan tidak cocok dengan wilayah mana pun</p>
+            </div>
+            <Switch
+              id="per-diem-default"
+              checked={isDefault}
+              onCheckedChange={setIsDefault}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Active */}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="per-diem-active">Aktif</Label>
+            <Switch
+              id="per-diem-active"
+              checked={isActive}
+              onCheckedChange={setIsActive}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          {rate && (
+            <Button
+              variant="outline"
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="text-red-600 hover:text-red-700 sm:mr-auto"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Hapus
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !region.trim() || mealRate + lodgingRate <= 0}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menyimpan...
+              </>
+            ) : (
+              'Simpan'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
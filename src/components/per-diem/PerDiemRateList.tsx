@@ -0,0 +1,69 @@
+'use client'
+
+import { CalendarDays, ChevronRight } from 'lucide-react'
+import { EmptyState } from '@/components/ui/empty-state'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import type { PerDiemRate } from '@/types/per-diem'
+
+interface PerDiemRateListProps {
+  rates: PerDiemRate[]
+  onSelect: (rate: PerDiemRate) => void
+}
+
+/**
+ * PerDiemRateList - Daily allowance rates per destination region
+ */
+export function PerDiemRateList({ rates, onSelect }: PerDiemRateListProps) {
+  if (rates.length === 0) {
+    return (
+      <EmptyState
+        icon={CalendarDays}
+        title="Belum ada tarif"
+        description="Tambahkan tarif uang makan dan penginapan per wilayah tujuan"
+      />
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+      {rates.map((rate) => (
+        <button
+          key={rate.id}
+          onClick={() => onSelect(rate)}
+          className="w-full p-4 flex items-center gap-3 text-left hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-900 truncate">{rate.region}</span>
+              {rate.isDefault && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">
+                  Default
+                </span>
+              )}
+              {!rate.isActive && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                  Nonaktif
+                </span>
+              )}
+            </div>
+            {rate.keywords.length > 0 && (
+              <p className="text-xs text-gray-500 mt-0.5 truncate">{rate.keywords.join(', ')}</p>
+            )}
+          </div>
+
+          <div
+            className={cn(
+              'text-right text-xs',
+              rate.isActive ? 'text-gray-900' : 'text-gray-400'
+            )}
+          >
+            <p>Makan {formatCurrency(rate.mealRate)}</p>
+            <p>Inap {formatCurrency(rate.lodgingRate)}</p>
+          </div>
+          <ChevronRight className="h-4 w-4 text-gray-400" />
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,4 @@
+export { PerDiemBadge } from './PerDiemBadge'
+export { PerDiemCard } from './PerDiemCard'
+export { PerDiemRateList } from './PerDiemRateList'
+export { PerDiemRateDialog } from './PerDiemRateDialog'
@@ -0,0 +1,82 @@
+'use client'
+
+import { ShieldCheck, ChevronRight } from 'lucide-react'
+import { EmptyState } from '@/components/ui/empty-state'
+import { getRoleLabel } from '@/components/settings/RoleBadge'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { POLICY_RULE_TYPE_LABELS } from '@/constants/expense-policy'
+import type { ExpensePolicy } from '@/types/expense-policy'
+
+interface PolicyListProps {
+  policies: ExpensePolicy[]
+  onSelect: (policy: ExpensePolicy) => void
+}
+
+/**
+ * PolicyList - Spending policy rules grouped by expense category
+ */
+export function PolicyList({ policies, onSelect }: PolicyListProps) {
+  const { categories } = useExpenseCategories()
+
+  if (policies.length === 0) {
+    return (
+      <EmptyState
+        icon={ShieldCheck}
+        title="Belum ada kebijakan"
+        description="Tambahkan batas pengeluaran per kategori untuk menandai pengeluaran yang melebihi kebijakan"
+      />
+    )
+  }
+
+  const groups = categories.map((category) => ({
+    category,
+    policies: policies.filter((policy) => policy.category === category.code),
+  })).filter((group) => group.policies.length > 0)
+
+  return (
+    <div className="space-y-4">
+      {groups.map(({ category, policies: categoryPolicies }) => (
+        <div key={category.code}>
+          <h3 className="text-sm font-medium text-slate-700 mb-2">{category.labelFull}</h3>
+          <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+            {categoryPolicies.map((policy) => (
+              <button
+                key={policy.id}
+                onClick={() => onSelect(policy)}
+                className="w-full p-4 flex items-center gap-3 text-left hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      {POLICY_RULE_TYPE_LABELS[policy.ruleType]}
+                    </span>
+                    {!policy.isActive && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                        Nonaktif
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {policy.role ? getRoleLabel(policy.role) : 'Semua peran'}
+                  </p>
+                </div>
+
+                <p
+                  className={cn(
+                    'text-sm font-semibold',
+                    policy.isActive ? 'text-gray-900' : 'text-gray-400'
+                  )}
+                >
+                  {formatCurrency(policy.amount)}
+                </p>
+                <ChevronRight className="h-4 w-4 text-gray-400" />
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AmountInput } from '@/components/molecules/AmountInput'
+import { getRoleLabel } from '@/components/settings/RoleBadge'
+import { deleteExpensePolicyApi, saveExpensePolicyApi } from '@/lib/erp/api-client'
+import { getSelectableCategories } from '@/lib/categories/registry'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import { POLICY_RULE_TYPES } from '@/constants/expense-policy'
+import { ALLOWED_ROLES, type UserRole } from '@/types/supabase'
+import type { ExpensePolicy, PolicyRuleType } from '@/types/expense-policy'
+
+/** Select value for a rule that applies to every role */
+const ALL_ROLES = 'all'
+
+interface PolicyRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Rule to edit; null creates a new rule */
+  policy: ExpensePolicy | null
+  /** Callback after the rule was saved or deleted */
+  onSaved?: () => void
+  onError?: (error: string) => void
+}
+
+/**
+ * PolicyRuleDialog - Form for finance to create, edit or delete a
+ * spending policy rule
+ */
+export function PolicyRuleDialog({
+  open,
+  onOpenChange,
+  policy,
+  onSaved,
+  onError,
+}: PolicyRuleDialogProps) {
+  const [category, setCategory] = useState<ExpenseCategory | ''>('')
+  const [role, setRole] = useState<string>(ALL_ROLES)
+  const [ruleType, setRuleType] = useState<PolicyRuleType>('max_per_expense')
+  const [amount, setAmount] = useState(0)
+  const [isActive, setIsActive] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { categories } = useExpenseCategories()
+
+  // Load the edited rule (or blank values) when the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setCategory(policy?.category ?? '')
+    setRole(policy?.role ?? ALL_ROLES)
+    setRuleType(policy?.ruleType ?? 'max_per_expense')
+    setAmount(policy?.amount ?? 0)
+    setIsActive(policy?.isActive ?? true)
+  }, [open, policy])
+
+  const categoryOptions = getSelectableCategories(categories, policy?.category)
+  const selectedRuleType = POLICY_RULE_TYPES.find((type) => type.value === ruleType)
+
+  const handleSubmit = async () => {
+    if (!category) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await saveExpensePolicyApi({
+        id: policy?.id,
+        category,
+        role: role === ALL_ROLES ? null : (role as UserRole),
+        ruleType,
+        amount,
+        isActive,
+      })
+
+      if (result.success) {
+        onSaved?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menyimpan kebijakan')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!policy) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await deleteExpensePolicyApi(policy.id)
+
+      if (result.success) {
+        onSaved?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal menghapus kebijakan')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{policy ? 'Ubah Kebijakan' : 'Tambah Kebijakan'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Category */}
+          <div className="space-y-2">
+            <Label htmlFor="policy-category">Kategori</Label>
+            <Select
+              value={category}
+              onValueChange={(value) => setCategory(value as ExpenseCategory)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="policy-category" className="w-full">
+                <SelectValue placeholder="Pilih kategori" />
+              </SelectTrigger>
+              <SelectContent>
+                {categoryOptions.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.labelFull}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Role */}
+          <div className="space-y-2">
+            <Label htmlFor="policy-role">Berlaku untuk</Label>
+            <Select value={role} onValueChange={setRole} disabled={isSubmitting}>
+              <SelectTrigger id="policy-role" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ROLES}>Semua peran</SelectItem>
+                {ALLOWED_ROLES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {getRoleLabel(option)} ({option})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-slate-500">
+              Aturan untuk satu peran menggantikan aturan &quot;Semua peran&quot; dengan jenis yang sama.
+            </p>
+          </div>
+
+          {/* Rule type */}
+          <div className="space-y-2">
+            <Label htmlFor="policy-rule-type">Jenis aturan</Label>
+            <Select
+              value={ruleType}
+              onValueChange={(value) => setRuleType(value as PolicyRuleType)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="policy-rule-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {POLICY_RULE_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedRuleType && (
+              <p className="text-xs text-slate-500">{selectedRuleType.description}</p>
+            )}
+          </div>
+
+          {/* Amount */}
+          <AmountInput value={amount} onChange={setAmount} disabled={isSubmitting} />
+
+          {/* Active */}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="policy-active">Aktif</Label>
+            <Switch
+              id="policy-active"
+              checked={isActive}
+              onCheckedChange={setIsActive}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          {policy && (
+            <Button
+              variant="outline"
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="text-red-600 hover:text-red-700 sm:mr-auto"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Hapus
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !category || amount <= 0}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menyimpan...
+              </>
+            ) : (
+              'Simpan'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
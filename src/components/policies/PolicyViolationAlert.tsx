@@ -0,0 +1,107 @@
+'use client'
+
+import { ShieldAlert } from 'lucide-react'
+import { cn } from '@/lib/utils/cn'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import type { PolicyViolation } from '@/types/expense-policy'
+
+export interface PolicyViolationAlertProps {
+  /** Broken spending rules */
+  violations: PolicyViolation[]
+  /** Small flag for lists instead of the full capture warning */
+  compact?: boolean
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * Describe a violation in a sentence
+ *
+ * @param violation - Broken rule
+ * @param category - Category label (defaults to the category code)
+ */
+export function describePolicyViolation(
+  violation: PolicyViolation,
+  category: string = violation.category
+): string {
+  const limit = formatCurrency(violation.limit)
+  const actual = formatCurrency(violation.actual)
+
+  switch (violation.ruleType) {
+    case 'max_per_expense':
+      return `${category} ${actual} melebihi batas ${limit} per transaksi`
+    case 'max_per_day':
+      return violation.category === 'lodging'
+        ? `${category} ${actual} melebihi batas ${limit} per malam`
+        : `Total ${category} ${actual} pada tanggal ini melebihi batas ${limit} per hari`
+    case 'receipt_required_above':
+      return `${category} di atas ${limit} wajib melampirkan struk`
+  }
+}
+
+/**
+ * PolicyViolationAlert lists the spending policies an expense breaks.
+ *
+ * Violations do not block saving; the capture form warns the user and
+ * approvers see the same flags on the expense.
+ *
+ * @example
+ * <PolicyViolationAlert violations={policyViolations} />
+ */
+export function PolicyViolationAlert({
+  violations,
+  compact = false,
+  className,
+}: PolicyViolationAlertProps) {
+  const { getCategory } = useExpenseCategories()
+
+  if (violations.length === 0) return null
+
+  const describe = (violation: PolicyViolation) =>
+    describePolicyViolation(violation, getCategory(violation.category).label)
+
+  if (compact) {
+    return (
+      <div
+        className={cn(
+          'flex items-start gap-2 rounded-md bg-red-50 px-3 py-2 text-sm text-red-800',
+          className
+        )}
+      >
+        <ShieldAlert className="h-4 w-4 flex-shrink-0 mt-0.5 text-red-600" />
+        <div className="space-y-0.5">
+          <p className="font-medium">Melanggar kebijakan:</p>
+          {violations.map((violation) => (
+            <p key={violation.policyId}>{describe(violation)}</p>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-3 p-3 rounded-lg',
+        'bg-red-50 border border-red-200',
+        className
+      )}
+      role="alert"
+      aria-live="polite"
+    >
+      <ShieldAlert className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-red-800">Melebihi Kebijakan Pengeluaran</p>
+        <ul className="text-sm text-red-700 mt-0.5 list-disc pl-4 space-y-0.5">
+          {violations.map((violation) => (
+            <li key={violation.policyId}>{describe(violation)}</li>
+          ))}
+        </ul>
+        <p className="text-xs text-red-600 mt-1">
+          Pengeluaran tetap bisa disimpan, tetapi akan ditandai untuk approver.
+        </p>
+      </div>
+    </div>
+  )
+}
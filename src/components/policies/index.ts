@@ -0,0 +1,4 @@
+export { PolicyViolationAlert, describePolicyViolation } from './PolicyViolationAlert'
+export type { PolicyViolationAlertProps } from './PolicyViolationAlert'
+export { PolicyList } from './PolicyList'
+export { PolicyRuleDialog } from './PolicyRuleDialog'
@@ -0,0 +1,80 @@
+'use client'
+
+import { createContext, useState, useEffect, useCallback } from 'react'
+import { getCachedCategories, refreshCategoryCache } from '@/lib/db/category-cache'
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/constants/expense-categories'
+import { logger } from '@/lib/logger'
+import type { ExpenseCategoryConfig } from '@/types/expense-category'
+
+export interface ExpenseCategoryContextValue {
+  /** All categories in display order, including inactive ones */
+  categories: ExpenseCategoryConfig[]
+  /** Whether the first load is still running */
+  isLoading: boolean
+  /** Reload the categories (from the server when online) */
+  refresh: () => Promise<void>
+}
+
+export const ExpenseCategoryContext = createContext<ExpenseCategoryContextValue>({
+  categories: DEFAULT_EXPENSE_CATEGORIES,
+  isLoading: false,
+  refresh: async () => {},
+})
+
+/**
+ * ExpenseCategoryProvider
+ *
+ * Loads the expense categories managed by finance for the whole
+ * authenticated app. The IndexedDB cache is refreshed from Supabase when
+ * online and again when connectivity is restored; the built-in categories
+ * are used until the cache has been filled once.
+ */
+export function ExpenseCategoryProvider({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const [categories, setCategories] = useState<ExpenseCategoryConfig[]>(DEFAULT_EXPENSE_CATEGORIES)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadCategories = useCallback(async () => {
+    try {
+      if (navigator.onLine) {
+        try {
+          await refreshCategoryCache()
+        } catch (error) {
+          logger.warn('ExpenseCategoryProvider: Refresh failed, using cached categories', {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+      }
+
+      const cached = await getCachedCategories()
+      if (cached.length > 0) {
+        setCategories(cached)
+      }
+    } catch (error) {
+      logger.error(
+        'ExpenseCategoryProvider: Failed to load categories',
+        error instanceof Error ? error : new Error(String(error))
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadCategories()
+
+    window.addEventListener('online', loadCategories)
+    return () => {
+      window.removeEventListener('online', loadCategories)
+    }
+  }, [loadCategories])
+
+  return (
+    <ExpenseCategoryContext.Provider value={{ categories, isLoading, refresh: loadCategories }}>
+      {children}
+    </ExpenseCategoryContext.Provider>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { confirmReimbursementRunApi } from '@/lib/erp/api-client'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { toDateInputValue } from '@/lib/utils/format-date'
+import type { ReimbursementRun } from '@/types/reimbursement'
+
+interface ConfirmRunDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  run: ReimbursementRun | null
+  /** Employees paid without a registered bank account */
+  missingAccountCount: number
+  /** Callback after the run was confirmed */
+  onConfirmed?: () => void
+  onError?: (error: string) => void
+}
+
+/**
+ * ConfirmRunDialog - Confirm that the run's transfers were made, paying
+ * all included expenses at once
+ */
+export function ConfirmRunDialog({
+  open,
+  onOpenChange,
+  run,
+  missingAccountCount,
+  onConfirmed,
+  onError,
+}: ConfirmRunDialogProps) {
+  const [paidDate, setPaidDate] = useState('')
+  const [referenceNumber, setReferenceNumber] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Default to a transfer made today
+  useEffect(() => {
+    if (!open) return
+
+    setPaidDate(toDateInputValue(new Date()))
+    setReferenceNumber('')
+  }, [open])
+
+  const handleSubmit = async () => {
+    if (!run) return
+
+    setIsSubmitting(true)
+    try {
+      const result = await confirmReimbursementRunApi(run.id, { paidDate, referenceNumber })
+
+      if (result.success) {
+        onConfirmed?.()
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal mengonfirmasi reimbursement')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Konfirmasi Pembayaran</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {run && (
+            <div className="rounded-lg bg-slate-50 p-3">
+              <p className="text-sm text-slate-600">
+                {run.expenseCount} pengeluaran · {run.employeeCount} karyawan
+              </p>
+              <p className="text-lg font-semibold text-slate-900">{formatCurrency(run.totalAmount)}</p>
+            </div>
+          )}
+
+          {missingAccountCount > 0 && (
+            <p className="text-sm text-amber-700">
+              {missingAccountCount} karyawan belum memiliki rekening terdaftar. Pastikan transfer
+              mereka sudah dilakukan manual.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="run-paid-date">Tanggal transfer</Label>
+            <Input
+              id="run-paid-date"
+              type="date"
+              value={paidDate}
+              onChange={(e) => setPaidDate(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="run-reference">Nomor referensi bank</Label>
+            <Input
+              id="run-reference"
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+              placeholder={run?.runNumber}
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-slate-500">
+              Kosongkan untuk memakai nomor reimbursement.
+            </p>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Semua pengeluaran yang dipilih ditandai dibayar sekaligus dan karyawan mendapat
+            notifikasi. Pengeluaran yang dikecualikan kembali menunggu reimbursement berikutnya.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !run || run.expenseCount === 0 || !paidDate}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Menyimpan...
+              </>
+            ) : (
+              'Tandai Dibayar'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, CheckSquare, FileDown, Loader2, Square } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import { cn } from '@/lib/utils/cn'
+import type { ReimbursementEmployee } from '@/types/reimbursement'
+
+interface ReimbursementEmployeeCardProps {
+  employee: ReimbursementEmployee
+  /** Whether items can still be excluded (draft runs) */
+  editable: boolean
+  onToggleItems: (expenseIds: string[], excluded: boolean) => Promise<void>
+  onDownloadStatement: (userId: string) => Promise<void>
+}
+
+/**
+ * ReimbursementEmployeeCard - One employee's total, bank account and
+ * itemized expenses in a reimbursement run
+ */
+export function ReimbursementEmployeeCard({
+  employee,
+  editable,
+  onToggleItems,
+  onDownloadStatement,
+}: ReimbursementEmployeeCardProps) {
+  const [isBusy, setIsBusy] = useState(false)
+  const { getCategory } = useExpenseCategories()
+  const { bankAccount } = employee
+  const includedCount = employee.items.filter((item) => !item.excluded).length
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true)
+    try {
+      await action()
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+      <div className="p-4 flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-gray-900 truncate">{employee.name}</p>
+          {bankAccount.accountNumber ? (
+            <p className="text-xs text-gray-500 truncate">
+              {[bankAccount.bankName, bankAccount.accountNumber, bankAccount.accountName]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          ) : (
+            <p className="flex items-center gap-1 text-xs text-amber-700">
+              <AlertTriangle className="h-3 w-3" />
+              Rekening belum terdaftar di data karyawan
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            {includedCount} dari {employee.items.length} pengeluaran
+          </p>
+        </div>
+        <p className="text-sm font-semibold text-gray-900">{formatCurrency(employee.total)}</p>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={`Unduh rincian ${employee.name}`}
+          onClick={() => run(() => onDownloadStatement(employee.userId))}
+          disabled={isBusy || includedCount === 0}
+        >
+          {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {employee.items.map((item) => {
+        const Icon = item.excluded ? Square : CheckSquare
+
+        return (
+          <button
+            key={item.expenseId}
+            type="button"
+            onClick={() => run(() => onToggleItems([item.expenseId], !item.excluded))}
+            disabled={!editable || isBusy}
+            className="w-full pl-4 pr-4 py-3 flex items-center gap-3 text-left enabled:hover:bg-gray-50"
+          >
+            {editable && (
+              <Icon
+                className={cn('h-4 w-4', item.excluded ? 'text-gray-400' : 'text-blue-600')}
+              />
+            )}
+            <div className={cn('flex-1 min-w-0', item.excluded && 'opacity-50')}>
+              <p className="text-sm text-gray-900 truncate">
+                {getCategory(item.category).label}
+                {item.description && ` · ${item.description}`}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatDate(item.expenseDate)}
+                {item.bkkNumber && ` · ${item.bkkNumber}`}
+                {item.jobNumber && ` · ${item.jobNumber}`}
+              </p>
+            </div>
+            <p className={cn('text-sm text-gray-900', item.excluded && 'line-through text-gray-400')}>
+              {formatCurrency(item.amount)}
+            </p>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
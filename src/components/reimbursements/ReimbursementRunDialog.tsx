@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createReimbursementRunApi } from '@/lib/erp/api-client'
+import { toDateInputValue } from '@/lib/utils/format-date'
+import type { ReimbursementRun } from '@/types/reimbursement'
+
+interface ReimbursementRunDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Callback with the created run */
+  onCreated?: (run: ReimbursementRun) => void
+  onError?: (error: string) => void
+}
+
+/**
+ * ReimbursementRunDialog - Pick the period of approved expenses to
+ * reimburse in a run
+ */
+export function ReimbursementRunDialog({
+  open,
+  onOpenChange,
+  onCreated,
+  onError,
+}: ReimbursementRunDialogProps) {
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Default to the last seven days up to today
+  useEffect(() => {
+    if (!open) return
+
+    const today = new Date()
+    setDateFrom(toDateInputValue(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6)))
+    setDateTo(toDateInputValue(today))
+  }, [open])
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await createReimbursementRunApi({ dateFrom, dateTo })
+
+      if (result.success && result.run) {
+        onCreated?.(result.run)
+        onOpenChange(false)
+      } else {
+        onError?.(result.error || 'Gagal membuat reimbursement')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Terjadi kesalahan'
+      onError?.(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Buat Reimbursement</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="run-date-from">Dari tanggal</Label>
+              <Input
+                id="run-date-from"
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="run-date-to">Sampai tanggal</Label>
+              <Input
+                id="run-date-to"
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Semua pengeluaran yang sudah disetujui pada periode ini dan belum dibayar dikumpulkan per
+            karyawan. Pengeluaran dari kasbon tidak ikut karena diselesaikan lewat kasbon.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !dateFrom || !dateTo || dateFrom > dateTo}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Membuat...
+              </>
+            ) : (
+              'Buat'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import Link from 'next/link'
+import { CalendarRange, ChevronRight } from 'lucide-react'
+import { EmptyState } from '@/components/ui/empty-state'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import { cn } from '@/lib/utils/cn'
+import type { ReimbursementRun } from '@/types/reimbursement'
+
+interface ReimbursementRunListProps {
+  runs: ReimbursementRun[]
+}
+
+/**
+ * ReimbursementRunList - Reimbursement runs linking to their detail page
+ */
+export function ReimbursementRunList({ runs }: ReimbursementRunListProps) {
+  if (runs.length === 0) {
+    return (
+      <EmptyState
+        icon={CalendarRange}
+        title="Belum ada reimbursement"
+        description="Buat reimbursement untuk membayar pengeluaran yang disetujui per periode"
+      />
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+      {runs.map((run) => (
+        <Link
+          key={run.id}
+          href={`/reimbursements/${run.id}`}
+          className="p-4 flex items-center gap-3 hover:bg-gray-50"
+        >
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-medium text-gray-900">{run.runNumber}</p>
+              <span
+                className={cn(
+                  'text-xs px-1.5 py-0.5 rounded',
+                  run.status === 'confirmed'
+                    ? 'bg-emerald-100 text-emerald-700'
+                    : 'bg-amber-100 text-amber-700'
+                )}
+              >
+                {run.status === 'confirmed' ? 'Dibayar' : 'Draf'}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {formatDate(run.periodFrom)} – {formatDate(run.periodTo)} · {run.employeeCount} karyawan
+              · {run.expenseCount} pengeluaran
+            </p>
+          </div>
+          <p className="text-sm font-medium text-gray-900">{formatCurrency(run.totalAmount)}</p>
+          <ChevronRight className="h-4 w-4 text-gray-400" />
+        </Link>
+      ))}
+    </div>
+  )
+}
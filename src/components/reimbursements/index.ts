@@ -0,0 +1,4 @@
+export { ReimbursementRunList } from './ReimbursementRunList'
+export { ReimbursementRunDialog } from './ReimbursementRunDialog'
+export { ReimbursementEmployeeCard } from './ReimbursementEmployeeCard'
+export { ConfirmRunDialog } from './ConfirmRunDialog'
@@ -0,0 +1,119 @@
+'use client'
+
+import Link from 'next/link'
+import { Banknote, BookOpen, CalendarDays, CalendarRange, ChevronRight, ShieldCheck, Tags } from 'lucide-react'
+import { useUser } from '@/hooks/use-user'
+import { POLICY_MANAGER_ROLES } from '@/lib/policies/roles'
+import { PER_DIEM_MANAGER_ROLES } from '@/lib/per-diem/roles'
+import { CATEGORY_MANAGER_ROLES } from '@/lib/categories/roles'
+import { ACCOUNTING_ROLES } from '@/lib/accounting/roles'
+import { PAYMENT_ROLES } from '@/lib/payments/roles'
+
+/**
+ * Finance settings section
+ * Links to the pages where finance roles manage expense rules
+ */
+export function FinanceSection() {
+  const { profile, isLoading } = useUser()
+
+  if (isLoading || !profile) {
+    return null
+  }
+
+  const canManagePolicies = POLICY_MANAGER_ROLES.includes(profile.role)
+  const canManagePerDiem = PER_DIEM_MANAGER_ROLES.includes(profile.role)
+  const canManageCategories = CATEGORY_MANAGER_ROLES.includes(profile.role)
+  const canManageAccounting = ACCOUNTING_ROLES.includes(profile.role)
+  const canRecordPayments = PAYMENT_ROLES.includes(profile.role)
+
+  if (
+    !canManagePolicies &&
+    !canManagePerDiem &&
+    !canManageCategories &&
+    !canManageAccounting &&
+    !canRecordPayments
+  ) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-lg p-4 space-y-4">
+      <h3 className="font-semibold text-lg">Pengaturan Keuangan</h3>
+
+      <div className="space-y-2">
+        {canManageCategories && (
+          <Link
+            href="/categories"
+            className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <Tags className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">Kategori Pengeluaran</span>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        )}
+        {canManagePolicies && (
+          <Link
+            href="/policies"
+            className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">Kebijakan Pengeluaran</span>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        )}
+        {canManagePerDiem && (
+          <Link
+            href="/per-diem"
+            className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <CalendarDays className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">Tarif Uang Harian</span>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        )}
+        {canManageAccounting && (
+          <Link
+            href="/accounting"
+            className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <BookOpen className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">Akuntansi &amp; Jurnal</span>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        )}
+        {canRecordPayments && (
+          <Link
+            href="/payments"
+            className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <Banknote className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">Pembayaran Pengeluaran</span>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        )}
+        {canRecordPayments && (
+          <Link
+            href="/reimbursements"
+            className="flex items-center justify-between p-2 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <CalendarRange className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">Reimbursement per Periode</span>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          </Link>
+        )}
+      </div>
+    </div>
+  )
+}
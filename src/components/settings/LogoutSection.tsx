@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import { usePendingSync } from '@/hooks/use-pending-sync'
 import { clearAllCache } from '@/lib/db/storage-utils'
+import { getPushSubscription, removeSubscriptionFromServer } from '@/lib/notifications/client'
 import { Button } from '@/components/ui/button'
 import { LogOut, AlertTriangle } from 'lucide-react'
 
@@ -36,6 +37,12 @@ export function LogoutSection() {
       // Clear local data
       await clearAllCache()
 
+      // Stop notifications for this user on this device
+      const subscription = await getPushSubscription()
+      if (subscription) {
+        await removeSubscriptionFromServer(subscription.endpoint)
+      }
+
       // Sign out from Supabase
       const supabase = createClient()
       const { error } = await supabase.auth.signOut()
@@ -1,9 +1,130 @@
 'use client'
 
-import { Bell, BellOff, AlertCircle } from 'lucide-react'
+import { Bell, BellOff, AlertCircle, Clock } from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
+import { useNotificationPreferences } from '@/hooks/use-notification-preferences'
 import { usePushNotifications } from '@/hooks/use-push-notifications'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationPreferences,
+} from '@/lib/notifications/types'
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+function formatHour(hour: number): string {
+  return `${hour.toString().padStart(2, '0')}:00`
+}
+
+/**
+ * ReminderPreferences - Reminder opt-out and quiet hours
+ *
+ * Saves the device time zone with every change so quiet hours follow the
+ * user's local time.
+ */
+function ReminderPreferences() {
+  const { preferences, isLoading, isSaving, update } = useNotificationPreferences()
+
+  if (isLoading || !preferences) {
+    return null
+  }
+
+  const save = async (updates: Partial<NotificationPreferences>) => {
+    const saved = await update({
+      ...updates,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    })
+    if (!saved) {
+      toast.error('Gagal menyimpan pengaturan pengingat')
+    }
+  }
+
+  const hasQuietHours =
+    preferences.quietHoursStart !== null && preferences.quietHoursEnd !== null
+
+  return (
+    <div className="border-t pt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">Pengingat</p>
+          <p className="text-sm text-muted-foreground">
+            Ringkasan persetujuan & pengeluaran yang belum diajukan
+          </p>
+        </div>
+        <Switch
+          checked={preferences.remindersEnabled}
+          onCheckedChange={(checked) => save({ remindersEnabled: checked })}
+          disabled={isSaving}
+        />
+      </div>
+
+      {preferences.remindersEnabled && (
+        <>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-muted-foreground" />
+              <p className="text-sm font-medium">Jam Tenang</p>
+            </div>
+            <Switch
+              checked={hasQuietHours}
+              onCheckedChange={(checked) =>
+                save(
+                  checked
+                    ? {
+                        quietHoursStart: DEFAULT_NOTIFICATION_PREFERENCES.quietHoursStart,
+                        quietHoursEnd: DEFAULT_NOTIFICATION_PREFERENCES.quietHoursEnd,
+                      }
+                    : { quietHoursStart: null, quietHoursEnd: null }
+                )
+              }
+              disabled={isSaving}
+            />
+          </div>
+
+          {hasQuietHours && (
+            <div className="flex items-center gap-2">
+              <Select
+                value={String(preferences.quietHoursStart)}
+                onValueChange={(value) => save({ quietHoursStart: Number(value) })}
+                disabled={isSaving}
+              >
+                <SelectTrigger className="flex-1" aria-label="Mulai jam tenang">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOURS.map((hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {formatHour(hour)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">sampai</span>
+              <Select
+                value={String(preferences.quietHoursEnd)}
+                onValueChange={(value) => save({ quietHoursEnd: Number(value) })}
+                disabled={isSaving}
+              >
+                <SelectTrigger className="flex-1" aria-label="Akhir jam tenang">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOURS.map((hour) => (
+                    <SelectItem key={hour} value={String(hour)}>
+                      {formatHour(hour)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
 
 export function NotificationSection() {
   const {
@@ -100,6 +221,9 @@ export function NotificationSection() {
           </div>
         )}
 
+        {/* Reminder digests */}
+        {isSubscribed && <ReminderPreferences />}
+
         {/* Test notification button (dev only) */}
         {process.env.NODE_ENV === 'development' && isSubscribed && (
           <Button
@@ -55,6 +55,13 @@ const ROLE_CONFIG: Record<UserRole, { label: string; color: string }> = {
   }
 }
 
+/**
+ * Display label of a role (the role itself when unknown)
+ */
+export function getRoleLabel(role: string): string {
+  return ROLE_CONFIG[role as UserRole]?.label ?? role
+}
+
 /**
  * Badge component showing user role
  */
@@ -1,10 +1,11 @@
 export { ProfileSection } from './ProfileSection'
 export { UserAvatar } from './UserAvatar'
-export { RoleBadge } from './RoleBadge'
+export { RoleBadge, getRoleLabel } from './RoleBadge'
 export { SyncSection } from './SyncSection'
 export { PendingSyncSection } from './PendingSyncSection'
 export { StorageSection } from './StorageSection'
 export { AppInfoSection } from './AppInfoSection'
 export { LogoutSection } from './LogoutSection'
 export { InstallSection } from './InstallSection'
-export { NotificationSection } from './NotificationSection'
\ No newline at end of file
+export { NotificationSection } from './NotificationSection'
+export { FinanceSection } from './FinanceSection'
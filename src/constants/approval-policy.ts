@@ -0,0 +1,59 @@
+import type { UserRole } from '@/types/supabase'
+
+/**
+ * Key of an approval step, used to configure its threshold
+ */
+export type ApprovalStepKey = 'operations_manager' | 'finance_manager' | 'director'
+
+/**
+ * A step in the expense approval chain
+ */
+export interface ApprovalStepPolicy {
+  /** Key of the step in approval_thresholds */
+  key: ApprovalStepKey
+  /** Display label of the step */
+  label: string
+  /** Roles allowed to decide this step */
+  roles: UserRole[]
+  /** Step is required when the expense amount is at or above this value (IDR) */
+  minAmount: number
+}
+
+/**
+ * Approval policy - ordered approval steps with amount thresholds
+ *
+ * An expense goes through every step whose threshold it reaches, in this
+ * order. The chain is fixed when the expense is submitted, so changing the
+ * policy does not affect expenses already waiting for approval.
+ *
+ * The amounts here are defaults; a threshold configured for the step in the
+ * approval_thresholds table takes precedence. The steps are mirrored in
+ * `submit_expense_for_approval`, which builds the chain at submission.
+ */
+export const APPROVAL_POLICY: ApprovalStepPolicy[] = [
+  {
+    key: 'operations_manager',
+    label: 'Operations Manager',
+    roles: ['operations_manager'],
+    minAmount: 0,
+  },
+  {
+    key: 'finance_manager',
+    label: 'Finance Manager',
+    roles: ['finance_manager'],
+    minAmount: 500_000,
+  },
+  {
+    key: 'director',
+    label: 'Direktur',
+    roles: ['director', 'owner'],
+    minAmount: 5_000_000,
+  },
+]
+
+/**
+ * Roles that take part in at least one approval step
+ */
+export const APPROVER_ROLES: UserRole[] = Array.from(
+  new Set(APPROVAL_POLICY.flatMap((step) => step.roles))
+)
@@ -1,59 +1,58 @@
-export const EXPENSE_CATEGORIES = {
-  fuel: {
-    label: 'BBM',
-    labelFull: 'Bahan Bakar',
-    icon: 'Fuel',
-    color: 'orange',
-  },
-  toll: {
-    label: 'Tol',
-    labelFull: 'Tol',
-    icon: 'Route',
-    color: 'blue',
-  },
-  parking: {
-    label: 'Parkir',
-    labelFull: 'Parkir',
-    icon: 'ParkingCircle',
-    color: 'purple',
-  },
-  food: {
-    label: 'Makan',
-    labelFull: 'Makan & Minum',
-    icon: 'UtensilsCrossed',
-    color: 'green',
-  },
-  lodging: {
-    label: 'Penginapan',
-    labelFull: 'Penginapan',
-    icon: 'Bed',
-    color: 'indigo',
-  },
-  transport: {
-    label: 'Transport',
-    labelFull: 'Transport Lokal',
-    icon: 'Car',
-    color: 'cyan',
-  },
-  supplies: {
-    label: 'Perlengkapan',
-    labelFull: 'Perlengkapan',
-    icon: 'Package',
-    color: 'amber',
-  },
-  other: {
-    label: 'Lainnya',
-    labelFull: 'Lainnya',
-    icon: 'MoreHorizontal',
-    color: 'gray',
-  },
-} as const
+import type { ExpenseCategoryConfig } from '@/types/expense-category'
 
-export type ExpenseCategory = keyof typeof EXPENSE_CATEGORIES
+export type { ExpenseCategory, ExpenseCategoryConfig } from '@/types/expense-category'
 
-export const EXPENSE_CATEGORY_LIST = Object.entries(EXPENSE_CATEGORIES).map(
-  ([key, value]) => ({
-    value: key as ExpenseCategory,
-    ...value,
-  })
-)
+/**
+ * Built-in categories, seeded into expense_categories
+ *
+ * Used until the category cache has been filled (first offline start) and
+ * for labels of codes the cache does not know.
+ */
+export const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategoryConfig[] = [
+  { code: 'fuel', label: 'BBM', labelFull: 'Bahan Bakar', icon: 'Fuel', color: 'orange', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 10 },
+  { code: 'toll', label: 'Tol', labelFull: 'Tol', icon: 'Route', color: 'blue', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 20 },
+  { code: 'parking', label: 'Parkir', labelFull: 'Parkir', icon: 'ParkingCircle', color: 'purple', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 30 },
+  { code: 'food', label: 'Makan', labelFull: 'Makan & Minum', icon: 'UtensilsCrossed', color: 'green', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 40 },
+  { code: 'lodging', label: 'Penginapan', labelFull: 'Penginapan', icon: 'Bed', color: 'indigo', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 50 },
+  { code: 'transport', label: 'Transport', labelFull: 'Transport Lokal', icon: 'Car', color: 'cyan', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 60 },
+  { code: 'supplies', label: 'Perlengkapan', labelFull: 'Perlengkapan', icon: 'Package', color: 'amber', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 70 },
+  { code: 'other', label: 'Lainnya', labelFull: 'Lainnya', icon: 'MoreHorizontal', color: 'gray', glAccountCode: null, overheadGlAccountCode: null, isActive: true, sortOrder: 999 },
+]
+
+/**
+ * Icons finance can pick for a category
+ */
+export const CATEGORY_ICON_NAMES = [
+  'Fuel',
+  'Route',
+  'ParkingCircle',
+  'UtensilsCrossed',
+  'Bed',
+  'Car',
+  'Package',
+  'Truck',
+  'Forklift',
+  'Scale',
+  'Wrench',
+  'Anchor',
+  'Ship',
+  'Phone',
+  'Receipt',
+  'MoreHorizontal',
+] as const
+
+/**
+ * Colors finance can pick for a category
+ */
+export const CATEGORY_COLOR_NAMES = [
+  'orange',
+  'blue',
+  'purple',
+  'green',
+  'indigo',
+  'cyan',
+  'amber',
+  'red',
+  'teal',
+  'gray',
+] as const
@@ -0,0 +1,26 @@
+import type { PolicyRuleType } from '@/types/expense-policy'
+
+/**
+ * Spending rule types with their labels, in display order
+ */
+export const POLICY_RULE_TYPES: { value: PolicyRuleType; label: string; description: string }[] = [
+  {
+    value: 'max_per_expense',
+    label: 'Maks. per transaksi',
+    description: 'Satu pengeluaran tidak boleh melebihi batas',
+  },
+  {
+    value: 'max_per_day',
+    label: 'Maks. per hari/malam',
+    description: 'Total pengeluaran kategori ini pada satu tanggal tidak boleh melebihi batas',
+  },
+  {
+    value: 'receipt_required_above',
+    label: 'Wajib struk di atas',
+    description: 'Pengeluaran di atas batas wajib melampirkan foto struk',
+  },
+]
+
+export const POLICY_RULE_TYPE_LABELS: Record<PolicyRuleType, string> = Object.fromEntries(
+  POLICY_RULE_TYPES.map((type) => [type.value, type.label])
+) as Record<PolicyRuleType, string>
@@ -0,0 +1,26 @@
+import type { PaymentMethod } from '@/types/payment'
+
+/**
+ * Payment methods with their labels, in display order
+ */
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string; description: string }[] = [
+  {
+    value: 'transfer',
+    label: 'Transfer bank',
+    description: 'Transfer ke rekening karyawan; isi nomor referensi transfer',
+  },
+  {
+    value: 'cash',
+    label: 'Tunai',
+    description: 'Dibayar tunai dari kas kecil',
+  },
+  {
+    value: 'payroll',
+    label: 'Gaji',
+    description: 'Dibayarkan bersama gaji periode berikutnya',
+  },
+]
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = Object.fromEntries(
+  PAYMENT_METHODS.map((method) => [method.value, method.label])
+) as Record<PaymentMethod, string>
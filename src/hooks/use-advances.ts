@@ -0,0 +1,206 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { getAdvanceBalances, refreshAdvanceCache } from '@/lib/db/advance-cache'
+import { calculateAdvanceBalance } from '@/lib/advances/settlement'
+import { createClient } from '@/lib/supabase/client'
+import type { CashAdvanceBalance } from '@/types/cash-advance'
+
+interface UseAdvanceBalancesReturn {
+  /** Open advances of the current user with remaining balance */
+  advances: CashAdvanceBalance[]
+  /** Whether advances are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Whether results are from local cache only (offline or server error) */
+  isUsingCache: boolean
+  /** Manually refresh the advances */
+  refresh: () => void
+}
+
+/**
+ * Hook for the current user's open cash advances (kasbon) with offline support
+ *
+ * Online, the IndexedDB cache is refreshed from Supabase first. Balances
+ * are always computed from the cache plus expenses that have not synced yet,
+ * so a freshly captured expense lowers the balance immediately.
+ *
+ * @returns Object with advances, loading state, error, cache status, and refresh function
+ */
+export function useAdvanceBalances(): UseAdvanceBalancesReturn {
+  const [advances, setAdvances] = useState<CashAdvanceBalance[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const [isUsingCache, setIsUsingCache] = useState(false)
+
+  const fetchAdvances = useCallback(async () => {
+    const isOnline = typeof navigator !== 'undefined' && navigator.onLine
+    let usingCache = !isOnline
+
+    try {
+      if (isOnline) {
+        try {
+          await refreshAdvanceCache()
+        } catch (refreshError) {
+          console.warn('Supabase fetch failed, using cached advances:', refreshError)
+          usingCache = true
+        }
+      }
+
+      setAdvances(await getAdvanceBalances())
+      setIsUsingCache(usingCache)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat kasbon'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchAdvances()
+  }, [fetchAdvances])
+
+  return {
+    advances,
+    isLoading,
+    error,
+    isUsingCache,
+    refresh: fetchAdvances,
+  }
+}
+
+interface UseAdvanceListOptions {
+  /** List advances of all users (finance roles) instead of only the current user */
+  allUsers?: boolean
+}
+
+interface UseAdvanceListReturn {
+  /** Advances with remaining balance, open first then newest */
+  advances: CashAdvanceBalance[]
+  /** Whether advances are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the advances */
+  refresh: () => void
+}
+
+/**
+ * Hook for listing cash advances (open and settled) from Supabase
+ *
+ * Used on the advances page. Online only; the offline balance of open
+ * advances is provided by useAdvanceBalances.
+ *
+ * @param options - Whether to list advances of all users
+ * @returns Object with advances, loading state, error, and refresh function
+ */
+export function useAdvanceList({ allUsers = false }: UseAdvanceListOptions = {}): UseAdvanceListReturn {
+  const [advances, setAdvances] = useState<CashAdvanceBalance[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchAdvances = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        setAdvances([])
+        return
+      }
+
+      let query = supabase
+        .from('cash_advances')
+        .select(`
+          id, advance_number, user_id, job_order_id, amount, purpose, status,
+          issued_at, settled_at, spent_amount,
+          job_order:job_orders(job_number),
+          user:user_profiles!cash_advances_user_id_fkey(full_name)
+        `)
+        .order('status', { ascending: true })
+        .order('issued_at', { ascending: false })
+        .limit(100)
+
+      if (!allUsers) {
+        query = query.eq('user_id', user.id)
+      }
+
+      const { data, error: fetchError } = await query
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      // Spending of open advances is computed from allocated expenses;
+      // settled advances keep the spent amount recorded at settlement
+      const openIds = (data ?? [])
+        .filter((advance) => advance.status === 'open')
+        .map((advance) => advance.id)
+      const spentByAdvance = new Map<string, number>()
+
+      if (openIds.length > 0) {
+        const { data: expenses, error: expensesError } = await supabase
+          .from('expense_drafts')
+          .select('advance_id, amount')
+          .in('advance_id', openIds)
+          .neq('approval_status', 'rejected')
+
+        if (expensesError) {
+          throw new Error(expensesError.message)
+        }
+
+        for (const expense of expenses ?? []) {
+          spentByAdvance.set(
+            expense.advance_id,
+            (spentByAdvance.get(expense.advance_id) ?? 0) + Number(expense.amount)
+          )
+        }
+      }
+
+      setAdvances(
+        (data ?? []).map((advance) => {
+          const jobOrder = Array.isArray(advance.job_order) ? advance.job_order[0] : advance.job_order
+          const profile = Array.isArray(advance.user) ? advance.user[0] : advance.user
+
+          return calculateAdvanceBalance({
+            id: advance.id,
+            advanceNumber: advance.advance_number,
+            userId: advance.user_id,
+            userName: profile?.full_name ?? undefined,
+            jobOrderId: advance.job_order_id ?? undefined,
+            jobNumber: jobOrder?.job_number ?? undefined,
+            amount: Number(advance.amount),
+            purpose: advance.purpose ?? undefined,
+            status: advance.status,
+            issuedAt: advance.issued_at,
+            settledAt: advance.settled_at ?? undefined,
+            spentAmount:
+              advance.status === 'open'
+                ? spentByAdvance.get(advance.id) ?? 0
+                : Number(advance.spent_amount ?? 0),
+          })
+        })
+      )
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat kasbon'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [allUsers])
+
+  useEffect(() => {
+    fetchAdvances()
+  }, [fetchAdvances])
+
+  return {
+    advances,
+    isLoading,
+    error,
+    refresh: fetchAdvances,
+  }
+}
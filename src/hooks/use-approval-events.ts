@@ -0,0 +1,84 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { ApprovalEvent, ApprovalEventType } from '@/types/approval'
+
+interface UseApprovalEventsReturn {
+  /** Approval history, oldest first */
+  events: ApprovalEvent[]
+  /** Whether the history is being loaded */
+  isLoading: boolean
+  /** Manually refresh the history */
+  refresh: () => void
+}
+
+/**
+ * Hook for the approval audit log of a server expense
+ *
+ * @param expenseId - Server expense ID, or null for local-only expenses
+ * @returns Object with events, loading state, and refresh function
+ */
+export function useApprovalEvents(expenseId: string | null): UseApprovalEventsReturn {
+  const [events, setEvents] = useState<ApprovalEvent[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchEvents = useCallback(async () => {
+    if (!expenseId) {
+      setEvents([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const supabase = createClient()
+
+      const { data, error } = await supabase
+        .from('expense_approval_events')
+        .select(`
+          *,
+          actor:user_profiles!expense_approval_events_actor_id_fkey(full_name)
+        `)
+        .eq('expense_id', expenseId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Failed to load approval history:', error)
+        return
+      }
+
+      setEvents(
+        (data ?? []).map((event) => {
+          const actor = Array.isArray(event.actor) ? event.actor[0] : event.actor
+          return {
+            id: event.id,
+            expenseId: event.expense_id,
+            eventType: event.event_type as ApprovalEventType,
+            actorId: event.actor_id ?? undefined,
+            actorName: actor?.full_name ?? undefined,
+            fromStatus: event.from_status ?? undefined,
+            toStatus: event.to_status ?? undefined,
+            stepOrder: event.step_order ?? undefined,
+            stepLabel: event.step_label ?? undefined,
+            reason: event.reason ?? undefined,
+            bkkNumber: event.bkk_number ?? undefined,
+            bkkStatus: event.bkk_status ?? undefined,
+            createdAt: event.created_at,
+          }
+        })
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }, [expenseId])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  return {
+    events,
+    isLoading,
+    refresh: fetchEvents,
+  }
+}
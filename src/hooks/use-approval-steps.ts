@@ -0,0 +1,79 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { ApprovalStep, ApprovalStepStatus } from '@/types/approval'
+
+interface UseApprovalStepsReturn {
+  /** Approval steps in order (empty if never submitted) */
+  steps: ApprovalStep[]
+  /** Whether the steps are being loaded */
+  isLoading: boolean
+  /** Manually refresh the steps */
+  refresh: () => void
+}
+
+/**
+ * Hook for the approval steps of a server expense
+ *
+ * @param expenseId - Server expense ID, or null for local-only expenses
+ * @returns Object with steps, loading state, and refresh function
+ */
+export function useApprovalSteps(expenseId: string | null): UseApprovalStepsReturn {
+  const [steps, setSteps] = useState<ApprovalStep[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchSteps = useCallback(async () => {
+    if (!expenseId) {
+      setSteps([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const supabase = createClient()
+
+      const { data, error } = await supabase
+        .from('expense_approval_steps')
+        .select(`
+          id, step_order, label, approver_roles, status, approver_id, decided_at,
+          approver:user_profiles!expense_approval_steps_approver_id_fkey(full_name)
+        `)
+        .eq('expense_id', expenseId)
+        .order('step_order', { ascending: true })
+
+      if (error) {
+        console.error('Failed to load approval steps:', error)
+        return
+      }
+
+      setSteps(
+        (data ?? []).map((step) => {
+          const approver = Array.isArray(step.approver) ? step.approver[0] : step.approver
+          return {
+            id: step.id,
+            stepOrder: step.step_order,
+            label: step.label,
+            approverRoles: step.approver_roles,
+            status: step.status as ApprovalStepStatus,
+            approverId: step.approver_id ?? undefined,
+            approverName: approver?.full_name ?? undefined,
+            decidedAt: step.decided_at ?? undefined,
+          }
+        })
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }, [expenseId])
+
+  useEffect(() => {
+    fetchSteps()
+  }, [fetchSteps])
+
+  return {
+    steps,
+    isLoading,
+    refresh: fetchSteps,
+  }
+}
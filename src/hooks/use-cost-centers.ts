@@ -0,0 +1,63 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { toCostCenter } from '@/lib/accounting/mapping'
+import type { CostCenter } from '@/types/accounting'
+
+interface UseCostCentersReturn {
+  /** All cost centers, active and inactive */
+  costCenters: CostCenter[]
+  /** Whether cost centers are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the cost centers */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the cost centers expenses are booked to, for managing them
+ *
+ * @returns Object with cost centers, loading state, error, and refresh function
+ */
+export function useCostCenters(): UseCostCentersReturn {
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchCostCenters = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data, error: fetchError } = await supabase
+        .from('cost_centers')
+        .select('*')
+        .order('code')
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      setCostCenters((data ?? []).map(toCostCenter))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat pusat biaya'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCostCenters()
+  }, [fetchCostCenters])
+
+  return {
+    costCenters,
+    isLoading,
+    error,
+    refresh: fetchCostCenters,
+  }
+}
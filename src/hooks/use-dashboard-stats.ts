@@ -95,7 +95,7 @@ function localToDisplayExpense(expense: LocalExpense): DisplayExpense {
     gpsAccuracy: expense.gpsAccuracy,
     receiptLocalId: expense.receiptLocalId,
     syncStatus: expense.syncStatus,
-    approvalStatus: 'draft',
+    approvalStatus: expense.approvalStatus ?? 'draft', // Unsynced expenses are drafts
     createdAt: expense.createdAt,
     updatedAt: expense.updatedAt,
     source: 'local',
@@ -0,0 +1,47 @@
+'use client'
+
+import { useContext, useMemo, useCallback } from 'react'
+import { ExpenseCategoryContext } from '@/components/providers/ExpenseCategoryProvider'
+import { resolveCategory } from '@/lib/categories/registry'
+import type { ExpenseCategory, ExpenseCategoryConfig } from '@/types/expense-category'
+
+interface UseExpenseCategoriesReturn {
+  /** All categories in display order, including inactive ones */
+  categories: ExpenseCategoryConfig[]
+  /** Categories that can be picked for new expenses */
+  activeCategories: ExpenseCategoryConfig[]
+  /** Look up a category by code (never undefined, see resolveCategory) */
+  getCategory: (code: ExpenseCategory) => ExpenseCategoryConfig
+  /** Whether the first load is still running */
+  isLoading: boolean
+  /** Reload the categories (from the server when online) */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the expense categories loaded by ExpenseCategoryProvider
+ *
+ * Works offline from the IndexedDB cache. Outside the provider the
+ * built-in categories are returned.
+ */
+export function useExpenseCategories(): UseExpenseCategoriesReturn {
+  const { categories, isLoading, refresh } = useContext(ExpenseCategoryContext)
+
+  const activeCategories = useMemo(
+    () => categories.filter((category) => category.isActive),
+    [categories]
+  )
+
+  const getCategory = useCallback(
+    (code: ExpenseCategory) => resolveCategory(code, categories),
+    [categories]
+  )
+
+  return {
+    categories,
+    activeCategories,
+    getCategory,
+    isLoading,
+    refresh,
+  }
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { findDuplicateExpenses } from '@/lib/duplicates/find'
+import type { DisplayExpense } from '@/types/expense-filters'
+import type { DuplicateMatch } from '@/types/duplicates'
+
+interface UseExpenseDuplicatesReturn {
+  /** Suspected duplicates, most likely first */
+  matches: DuplicateMatch[]
+  /** Whether the check is running */
+  isLoading: boolean
+  /** Manually re-run the check */
+  refresh: () => void
+}
+
+/**
+ * Hook for suspected duplicates of a server expense
+ *
+ * Used on approval: compares the expense with every expense the approver
+ * can see (RLS), so duplicates across the team are found.
+ *
+ * @param expense - Server expense to check, or null
+ * @returns Object with matches, loading state, and refresh function
+ */
+export function useExpenseDuplicates(expense: DisplayExpense | null): UseExpenseDuplicatesReturn {
+  const [matches, setMatches] = useState<DuplicateMatch[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const expenseId = expense?.serverId ?? expense?.id
+  const amount = expense?.amount
+  const expenseDate = expense?.expenseDate
+  const vendorName = expense?.vendorName
+  const jobOrderId = expense?.jobOrderId
+  const receiptId = expense?.receipt?.id
+
+  const fetchMatches = useCallback(async () => {
+    if (!expenseId || amount === undefined || !expenseDate) {
+      setMatches([])
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      let receiptHash: string | undefined
+      if (receiptId) {
+        const supabase = createClient()
+        const { data } = await supabase
+          .from('expense_receipts')
+          .select('perceptual_hash')
+          .eq('id', receiptId)
+          .maybeSingle()
+        receiptHash = data?.perceptual_hash ?? undefined
+      }
+
+      setMatches(
+        await findDuplicateExpenses(
+          {
+            amount,
+            expenseDate,
+            vendorName,
+            jobOrderId,
+            receiptHash,
+            excludeIds: [expenseId],
+          },
+          { includeLocal: false }
+        )
+      )
+    } catch (error) {
+      console.error('Failed to check duplicates:', error)
+      setMatches([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [expenseId, amount, expenseDate, vendorName, jobOrderId, receiptId])
+
+  useEffect(() => {
+    fetchMatches()
+  }, [fetchMatches])
+
+  return {
+    matches,
+    isLoading,
+    refresh: fetchMatches,
+  }
+}
@@ -1,20 +1,118 @@
 'use client'
 
+import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import {
-  expenseFormSchema,
+  createExpenseFormSchema,
   expenseFormDefaults,
   type ExpenseFormData,
 } from '@/lib/schemas/expense'
+import {
+  getCachedPolicies,
+  getLocalCategoryDayTotal,
+  refreshPolicyCache,
+} from '@/lib/db/policy-cache'
+import { evaluateExpensePolicies } from '@/lib/policies/engine'
+import { getSelectableCategories } from '@/lib/categories/registry'
+import { useExpenseCategories } from '@/hooks/use-expense-categories'
+import { toDateInputValue } from '@/lib/utils/format-date'
+import type { PolicyViolation } from '@/types/expense-policy'
+
+interface UseExpenseFormOptions {
+  /** Local ID of the expense being edited (left out of daily totals) */
+  expenseId?: string
+  /** Whether a receipt photo is attached */
+  hasReceipt?: boolean
+}
+
+/**
+ * Form state for capturing or editing an expense
+ *
+ * Only active categories can be picked; an edited expense keeps its
+ * category even when it was deactivated since.
+ *
+ * Also checks the entered expense against the spending policies cached
+ * for the user's role, so violations show while offline. The cache is
+ * refreshed when the form opens online.
+ *
+ * @param initialValues - Values of an existing expense when editing
+ * @param options - Policy check context
+ */
+export function useExpenseForm(
+  initialValues?: Partial<ExpenseFormData>,
+  options: UseExpenseFormOptions = {}
+) {
+  const { categories } = useExpenseCategories()
+  const initialCategory = initialValues?.category
+
+  const schema = useMemo(
+    () =>
+      createExpenseFormSchema(
+        getSelectableCategories(categories, initialCategory).map((category) => category.code)
+      ),
+    [categories, initialCategory]
+  )
 
-export function useExpenseForm() {
   const form = useForm<ExpenseFormData>({
-    resolver: zodResolver(expenseFormSchema),
-    defaultValues: expenseFormDefaults,
+    resolver: zodResolver(schema),
+    defaultValues: { ...expenseFormDefaults, ...initialValues },
     mode: 'onBlur',
   })
 
+  const [policyViolations, setPolicyViolations] = useState<PolicyViolation[]>([])
+  const [policyCacheVersion, setPolicyCacheVersion] = useState(0)
+
+  const { expenseId, hasReceipt = false } = options
+  const amount = form.watch('amount')
+  const category = form.watch('category')
+  const expenseDate = form.watch('expenseDate')
+  const expenseDay = expenseDate instanceof Date && !isNaN(expenseDate.getTime())
+    ? toDateInputValue(expenseDate)
+    : null
+
+  // Refresh the cached policies once when online
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.onLine) return
+
+    refreshPolicyCache()
+      .then(() => setPolicyCacheVersion((version) => version + 1))
+      .catch((error) => console.warn('Failed to refresh expense policies:', error))
+  }, [])
+
+  // Re-check the policies whenever a checked field changes
+  useEffect(() => {
+    if (!category || !expenseDay || !(amount > 0)) {
+      setPolicyViolations([])
+      return
+    }
+
+    let cancelled = false
+
+    async function checkPolicies() {
+      try {
+        const [policies, sameDayTotal] = await Promise.all([
+          getCachedPolicies(category),
+          getLocalCategoryDayTotal(category, expenseDay!, expenseId),
+        ])
+
+        if (!cancelled) {
+          setPolicyViolations(
+            evaluateExpensePolicies({ amount, category, hasReceipt, sameDayTotal }, policies)
+          )
+        }
+      } catch (error) {
+        console.error('Failed to check expense policies:', error)
+      }
+    }
+
+    checkPolicies()
+
+    return () => {
+      cancelled = true
+    }
+  }, [amount, category, expenseDay, expenseId, hasReceipt, policyCacheVersion])
+
   const reset = () => {
     form.reset({
       ...expenseFormDefaults,
@@ -25,6 +123,7 @@ export function useExpenseForm() {
   return {
     ...form,
     resetForm: reset,
+    policyViolations,
   }
 }
 
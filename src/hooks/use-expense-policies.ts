@@ -0,0 +1,64 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { toExpensePolicy } from '@/lib/policies/engine'
+import type { ExpensePolicy } from '@/types/expense-policy'
+
+interface UseExpensePoliciesReturn {
+  /** All spending rules, active and inactive */
+  policies: ExpensePolicy[]
+  /** Whether rules are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the rules */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the spending policy rules, for managing them
+ *
+ * @returns Object with policies, loading state, error, and refresh function
+ */
+export function useExpensePolicies(): UseExpensePoliciesReturn {
+  const [policies, setPolicies] = useState<ExpensePolicy[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchPolicies = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data, error: fetchError } = await supabase
+        .from('expense_policies')
+        .select('*')
+        .order('category')
+        .order('rule_type')
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      setPolicies((data ?? []).map(toExpensePolicy))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat kebijakan'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPolicies()
+  }, [fetchPolicies])
+
+  return {
+    policies,
+    isLoading,
+    error,
+    refresh: fetchPolicies,
+  }
+}
@@ -1,10 +1,28 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { getLocalExpenses } from '@/lib/db/operations'
+import { searchLocalExpenses } from '@/lib/db/search-index'
+import {
+  applyExpenseFilters,
+  applyExpenseCursor,
+  compareExpenseSortKeys,
+  type ExpenseSortKey,
+} from '@/lib/queries/expenses'
+import { parseLineItems } from '@/lib/ocr/itemization'
+import { parseReceiptMetadata } from '@/lib/ocr/receipt-types'
+import { parsePolicyViolations } from '@/lib/policies/engine'
+import {
+  matchSearchDocument,
+  tokenizeSearchDocument,
+  tokenizeSearchText,
+  toTextSearchQuery,
+} from '@/lib/search'
 import type { LocalExpense, SyncStatus } from '@/lib/db'
-import type { ExpenseFilters, DisplayExpense } from '@/types/expense-filters'
+import type { ApprovalStatus, ExpenseFilters, DisplayExpense } from '@/types/expense-filters'
+import type { PaymentMethod } from '@/types/payment'
+import type { SearchMatch } from '@/types/search'
 import type { ExpenseCategory } from '@/constants/expense-categories'
 
 /**
@@ -25,90 +43,156 @@ interface ServerExpenseWithRelations {
   gps_latitude: number | null
   gps_longitude: number | null
   gps_accuracy: number | null
+  location_explanation: string | null
+  policy_violations: unknown
+  line_items: unknown
+  tax_amount: number | null
+  service_charge: number | null
+  receipt_metadata: unknown
   receipt_id: string | null
+  receipt_exempt: boolean | null
   ocr_confidence: number | null
   requires_review: boolean
   sync_status: string
   local_id: string | null
   approval_status: string
+  bkk_number: string | null
+  paid_at: string | null
   created_at: string
   updated_at: string
-  receipt: { id: string; storage_path: string } | null
+  created_from: string | null
+  receipt: { id: string; storage_path: string; ocr_raw_text?: string | null } | null
   job_order: { id: string; job_number: string; customer_name: string } | null
+  payment: { method: string; reference_number: string | null } | null
 }
 
 interface UseExpensesReturn {
   /** Array of expenses (merged local and server) */
   expenses: DisplayExpense[]
-  /** Whether expenses are being loaded */
+  /** Whether the first page is being loaded */
   isLoading: boolean
+  /** Whether the next page is being loaded */
+  isLoadingMore: boolean
+  /** Whether more server expenses can be loaded */
+  hasMore: boolean
+  /** Load the next page of server expenses */
+  loadMore: () => void
   /** Error from the fetch operation */
   error: Error | null
-  /** Refresh the expenses list */
+  /** Refresh the loaded expenses */
   refresh: () => void
-  /** Total count of expenses */
+  /** Total count of matching expenses, including pages not loaded yet */
   totalCount: number
 }
 
+/** Server expenses loaded per page */
+const PAGE_SIZE = 50
+
 /**
- * Fetch expenses from Supabase server
+ * Fetch a page of expenses from Supabase server
+ *
+ * Pages are in history order, or in relevance order when searching
+ * (`search_expense_drafts` ranks the matches on the server).
+ *
+ * @param after - Sort key of the last loaded expense; the first page when omitted
+ * @param limit - Maximum number of expenses
+ * @returns The expenses, and the total count of matching expenses for the first page
  */
 async function fetchServerExpenses(
-  filters: ExpenseFilters
-): Promise<ServerExpenseWithRelations[]> {
+  filters: ExpenseFilters,
+  { after, limit }: { after?: ExpenseSortKey; limit: number }
+): Promise<{ rows: ServerExpenseWithRelations[]; count: number | null }> {
   const supabase = createClient()
+  const searchQuery = filters.search ? toTextSearchQuery(filters.search) : null
+
+  // Receipt text is only needed to rank and show search results
+  const receiptColumns = searchQuery ? 'id, storage_path, ocr_raw_text' : 'id, storage_path'
+  const columns = `
+      *,
+      receipt:expense_receipts(${receiptColumns}),
+      job_order:job_orders(id, job_number, customer_name),
+      payment:expense_payments(method, reference_number)
+    ` as const
+  const countOption = after ? undefined : { count: 'exact' as const }
+
+  // Ranked matches after the last loaded one; the other filters apply to the result
+  if (searchQuery) {
+    let searchRequest = supabase
+      .rpc(
+        'search_expense_drafts',
+        { p_query: searchQuery, p_after_id: after?.id ?? null },
+        countOption
+      )
+      .select(columns)
+
+    searchRequest = applyExpenseFilters(searchRequest, { ...filters, search: undefined })
+
+    // Same order as the function's keyset, so pages do not overlap
+    const { data, error, count } = await searchRequest
+      .order('search_rank', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw error
+    }
+
+    return { rows: (data || []) as ServerExpenseWithRelations[], count: count ?? null }
+  }
 
   let query = supabase
     .from('expense_drafts')
-    .select(`
-      *,
-      receipt:expense_receipts(id, storage_path),
-      job_order:job_orders(id, job_number, customer_name)
-    `)
+    .select(columns, countOption)
     .order('expense_date', { ascending: false })
     .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
 
-  // Apply date filters
-  if (filters.dateFrom) {
-    query = query.gte('expense_date', filters.dateFrom)
-  }
-  if (filters.dateTo) {
-    query = query.lte('expense_date', filters.dateTo)
-  }
+  query = applyExpenseFilters(query, filters)
 
-  // Apply category filter
-  if (filters.categories && filters.categories.length > 0) {
-    query = query.in('category', filters.categories)
+  if (after) {
+    query = applyExpenseCursor(query, after)
   }
 
-  // Apply sync status filter
-  if (filters.syncStatuses && filters.syncStatuses.length > 0) {
-    query = query.in('sync_status', filters.syncStatuses)
-  }
+  query = query.limit(limit)
 
-  // Apply approval status filter
-  if (filters.approvalStatuses && filters.approvalStatuses.length > 0) {
-    query = query.in('approval_status', filters.approvalStatuses)
-  }
+  const { data, error, count } = await query
 
-  // Apply search filter
-  if (filters.search && filters.search.trim()) {
-    const searchTerm = filters.search.trim()
-    query = query.or(
-      `vendor_name.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`
-    )
+  if (error) {
+    throw error
   }
 
-  // Limit results
-  query = query.limit(100)
+  return { rows: (data || []) as ServerExpenseWithRelations[], count: count ?? null }
+}
 
-  const { data, error } = await query
+/**
+ * Sort key of a server expense
+ */
+function serverSortKey(expense: ServerExpenseWithRelations): ExpenseSortKey {
+  return { expenseDate: expense.expense_date, createdAt: expense.created_at, id: expense.id }
+}
 
-  if (error) {
-    throw error
-  }
+/**
+ * Rank a server expense returned by full-text search
+ *
+ * The server already matched it; ranking it with the local rules lets
+ * local and server results be listed together.
+ */
+function matchServerExpense(
+  expense: ServerExpenseWithRelations,
+  queryTokens: string[]
+): SearchMatch {
+  const ocrText = expense.receipt?.ocr_raw_text ?? undefined
+  const fieldTokens = tokenizeSearchDocument({
+    bkkNumber: expense.bkk_number ?? undefined,
+    jobNumber: expense.job_order?.job_number,
+    amount: String(Math.round(expense.amount)),
+    vendorName: expense.vendor_name ?? undefined,
+    description: expense.description ?? undefined,
+    customerName: expense.job_order?.customer_name,
+    ocrText,
+  })
 
-  return (data || []) as ServerExpenseWithRelations[]
+  return matchSearchDocument(fieldTokens, queryTokens, ocrText) ?? { score: 1 }
 }
 
 /**
@@ -131,6 +215,14 @@ function serverToDisplayExpense(expense: ServerExpenseWithRelations): DisplayExp
     gpsLatitude: expense.gps_latitude || undefined,
     gpsLongitude: expense.gps_longitude || undefined,
     gpsAccuracy: expense.gps_accuracy || undefined,
+    locationExplanation: expense.location_explanation ?? undefined,
+    policyViolations: parsePolicyViolations(expense.policy_violations),
+    lineItems: parseLineItems(expense.line_items),
+    taxAmount: expense.tax_amount ?? undefined,
+    serviceCharge: expense.service_charge ?? undefined,
+    receiptMetadata: parseReceiptMetadata(expense.receipt_metadata),
+    receiptExempt: expense.receipt_exempt || false,
+    isPerDiem: expense.created_from === 'per_diem',
     receipt: expense.receipt
       ? { id: expense.receipt.id, storage_path: expense.receipt.storage_path }
       : undefined,
@@ -142,7 +234,11 @@ function serverToDisplayExpense(expense: ServerExpenseWithRelations): DisplayExp
         }
       : undefined,
     syncStatus: expense.sync_status as SyncStatus,
-    approvalStatus: expense.approval_status as 'draft' | 'pending_approval' | 'approved' | 'rejected',
+    approvalStatus: expense.approval_status as ApprovalStatus,
+    bkkNumber: expense.bkk_number || undefined,
+    paidAt: expense.paid_at || undefined,
+    paymentMethod: (expense.payment?.method as PaymentMethod) || undefined,
+    paymentReference: expense.payment?.reference_number || undefined,
     ocrConfidence: expense.ocr_confidence || undefined,
     requiresReview: expense.requires_review,
     createdAt: expense.created_at,
@@ -171,9 +267,14 @@ function localToDisplayExpense(expense: LocalExpense): DisplayExpense {
     gpsLatitude: expense.gpsLatitude,
     gpsLongitude: expense.gpsLongitude,
     gpsAccuracy: expense.gpsAccuracy,
+    locationExplanation: expense.locationExplanation,
+    lineItems: expense.lineItems,
+    taxAmount: expense.taxAmount,
+    serviceCharge: expense.serviceCharge,
+    receiptMetadata: expense.receiptMetadata,
     receiptLocalId: expense.receiptLocalId,
     syncStatus: expense.syncStatus,
-    approvalStatus: 'draft', // Local expenses are always drafts
+    approvalStatus: expense.approvalStatus ?? 'draft', // Unsynced expenses are drafts
     createdAt: expense.createdAt,
     updatedAt: expense.updatedAt,
     source: 'local',
@@ -182,10 +283,13 @@ function localToDisplayExpense(expense: LocalExpense): DisplayExpense {
 
 /**
  * Apply filters to local expenses
+ *
+ * @param searchMatches - Local search results when searching
  */
 function filterLocalExpenses(
   expenses: LocalExpense[],
-  filters: ExpenseFilters
+  filters: ExpenseFilters,
+  searchMatches: Map<string, SearchMatch> | null
 ): LocalExpense[] {
   return expenses.filter((expense) => {
     // Date range filter
@@ -210,15 +314,41 @@ function filterLocalExpenses(
       }
     }
 
-    // Search filter
-    if (filters.search && filters.search.trim()) {
-      const searchLower = filters.search.toLowerCase()
-      const vendorMatch = expense.vendorName?.toLowerCase().includes(searchLower)
-      const descMatch = expense.description?.toLowerCase().includes(searchLower)
-      if (!vendorMatch && !descMatch) {
+    // Amount range filter
+    if (filters.minAmount !== undefined && expense.amount < filters.minAmount) {
+      return false
+    }
+    if (filters.maxAmount !== undefined && expense.amount > filters.maxAmount) {
+      return false
+    }
+
+    // Job order and overhead filters
+    if (filters.jobOrderIds && filters.jobOrderIds.length > 0) {
+      if (!expense.jobOrderId || !filters.jobOrderIds.includes(expense.jobOrderId)) {
         return false
       }
     }
+    if (filters.costType && expense.isOverhead !== (filters.costType === 'overhead')) {
+      return false
+    }
+
+    // Review is flagged by the server, so no local expense needs it yet
+    if (filters.requiresReview) {
+      return false
+    }
+
+    // Receipt and location filters
+    if (filters.receipt && !!expense.receiptLocalId !== (filters.receipt === 'with')) {
+      return false
+    }
+    if (filters.locationWarning && !expense.locationExplanation) {
+      return false
+    }
+
+    // Search filter (offline search index)
+    if (searchMatches && !searchMatches.has(expense.id)) {
+      return false
+    }
 
     return true
   })
@@ -226,10 +356,18 @@ function filterLocalExpenses(
 
 /**
  * Merge local and server expenses, deduplicating by local_id
+ *
+ * Local edits and deletes that have not synced yet take precedence over
+ * the server copy of the same expense.
+ *
+ * @param localExpenses - Filtered local expenses to show
+ * @param serverExpenses - Server expenses matching the filters
+ * @param allLocalExpenses - All local expenses, including pending deletes
  */
 function mergeExpenses(
   localExpenses: LocalExpense[],
-  serverExpenses: ServerExpenseWithRelations[]
+  serverExpenses: ServerExpenseWithRelations[],
+  allLocalExpenses: LocalExpense[] = localExpenses
 ): DisplayExpense[] {
   const merged: DisplayExpense[] = []
 
@@ -240,6 +378,8 @@ function mergeExpenses(
       .filter((id): id is string => id !== null)
   )
 
+  const localById = new Map(allLocalExpenses.map((e) => [e.id, e]))
+
   // Add local expenses that are NOT yet on the server
   for (const expense of localExpenses) {
     if (!serverLocalIds.has(expense.id) && expense.syncStatus !== 'synced') {
@@ -247,31 +387,159 @@ function mergeExpenses(
     }
   }
 
-  // Add all server expenses
+  // Add server expenses, applying unsynced local changes
   for (const expense of serverExpenses) {
-    merged.push(serverToDisplayExpense(expense))
+    const local = expense.local_id ? localById.get(expense.local_id) : undefined
+
+    if (local?.deletedAt) {
+      continue
+    }
+
+    const display = serverToDisplayExpense(expense)
+    if (local && local.syncStatus !== 'synced') {
+      merged.push({
+        ...localToDisplayExpense(local),
+        id: display.id,
+        serverId: display.serverId,
+        receipt: display.receipt,
+        jobOrder: local.jobOrderId === display.jobOrderId ? display.jobOrder : undefined,
+        approvalStatus: display.approvalStatus,
+        ocrConfidence: display.ocrConfidence,
+        requiresReview: display.requiresReview,
+      })
+    } else {
+      merged.push(display)
+    }
   }
 
   return merged
 }
 
+/**
+ * Build the history list from local expenses and the loaded server pages
+ *
+ * Local-only expenses sorting after the last loaded server expense belong
+ * to a page that is not loaded yet. They are held back until that page
+ * arrives so they do not jump down the list as pages load.
+ *
+ * When searching, the list is ranked by relevance instead of date.
+ *
+ * @param searchMatches - Local search results when searching
+ * @returns Expenses in list order and the total count of matching
+ *   expenses, including pages not loaded yet
+ */
+function buildExpenseList(
+  allLocalExpenses: LocalExpense[],
+  serverExpenses: ServerExpenseWithRelations[],
+  serverCount: number | null,
+  hasMore: boolean,
+  filters: ExpenseFilters,
+  searchMatches: Map<string, SearchMatch> | null
+): { expenses: DisplayExpense[]; totalCount: number } {
+  const filteredLocalExpenses = filterLocalExpenses(
+    allLocalExpenses.filter((expense) => !expense.deletedAt),
+    filters,
+    searchMatches
+  )
+  const merged = mergeExpenses(filteredLocalExpenses, serverExpenses, allLocalExpenses)
+
+  // Search results are ranked, so there is no date boundary to hold back at
+  const lastServerExpense = serverExpenses[serverExpenses.length - 1]
+  const boundary =
+    hasMore && lastServerExpense && !searchMatches ? serverSortKey(lastServerExpense) : null
+  const serverIds = new Set(serverExpenses.map((e) => e.id))
+  let expenses = boundary
+    ? merged.filter(
+        (expense) => serverIds.has(expense.id) || compareExpenseSortKeys(expense, boundary) < 0
+      )
+    : merged
+
+  if (searchMatches) {
+    expenses = rankSearchResults(expenses, serverExpenses, filters.search ?? '', searchMatches)
+  } else {
+    expenses.sort(compareExpenseSortKeys)
+  }
+
+  // Offline or server unavailable: only what we have
+  if (serverCount === null) {
+    return { expenses, totalCount: expenses.length }
+  }
+
+  // Server count, plus expenses not on the server yet, minus unsynced deletes
+  const serverLocalIds = new Set(
+    serverExpenses
+      .map((e) => e.local_id)
+      .filter((id): id is string => id !== null)
+  )
+  const localOnlyCount = filteredLocalExpenses.filter(
+    (e) => e.syncStatus !== 'synced' && !e.serverId && !serverLocalIds.has(e.id)
+  ).length
+  const pendingDeleteCount = filterLocalExpenses(
+    allLocalExpenses.filter((e) => e.deletedAt && e.serverId),
+    filters,
+    searchMatches
+  ).length
+
+  return {
+    expenses,
+    totalCount: Math.max(serverCount + localOnlyCount - pendingDeleteCount, expenses.length),
+  }
+}
+
+/**
+ * Order search results by relevance, newest first among equals
+ *
+ * Unsynced local versions are ranked from the local index; other server
+ * expenses from their server fields and receipt text.
+ */
+function rankSearchResults(
+  expenses: DisplayExpense[],
+  serverExpenses: ServerExpenseWithRelations[],
+  search: string,
+  searchMatches: Map<string, SearchMatch>
+): DisplayExpense[] {
+  const queryTokens = tokenizeSearchText(search)
+  const serverById = new Map(serverExpenses.map((e) => [e.id, e]))
+
+  const ranked = expenses.map((expense) => {
+    const serverExpense = serverById.get(expense.id)
+    const localMatch =
+      expense.source === 'local' && expense.localId ? searchMatches.get(expense.localId) : undefined
+    const match =
+      localMatch ??
+      (serverExpense ? matchServerExpense(serverExpense, queryTokens) : { score: 0 })
+
+    return { expense: { ...expense, searchSnippet: match.snippet }, score: match.score }
+  })
+
+  ranked.sort((a, b) => b.score - a.score || compareExpenseSortKeys(a.expense, b.expense))
+
+  return ranked.map((result) => result.expense)
+}
+
 /**
  * useExpenses - Fetch and merge local and server expenses
  *
  * This hook implements a hybrid data fetching strategy:
  * 1. Fetches local expenses from IndexedDB (for offline/pending items)
- * 2. Fetches server expenses from Supabase (if online)
+ * 2. Fetches server expenses from Supabase (if online) a page at a time,
+ *    using keyset pagination on (expense_date, created_at, id)
  * 3. Merges and deduplicates the results
  * 4. Sorts by expense date (newest first)
  *
+ * Polling refreshes every page loaded so far; changing the filters starts
+ * again from the first page. A search term switches to ranked search
+ * results: the offline index for local expenses and full-text search on
+ * the server, paged in relevance order.
+ *
  * @param filters - Optional filters to apply
- * @returns Object with expenses array, loading state, error, and refresh function
+ * @returns Object with expenses array, paging and loading state, error, and refresh function
  *
  * @example
  * ```tsx
  * function HistoryPage() {
  *   const [filters, setFilters] = useState<ExpenseFilters>({})
- *   const { expenses, isLoading, error, refresh } = useExpenses(filters)
+ *   const { expenses, isLoading, hasMore, loadMore, totalCount } = useExpenses(filters)
  *
  *   // Filter by date range
  *   setFilters({ dateFrom: '2024-01-01', dateTo: '2024-01-31' })
@@ -285,10 +553,23 @@ function mergeExpenses(
  * ```
  */
 export function useExpenses(filters: ExpenseFilters = {}): UseExpensesReturn {
-  const [expenses, setExpenses] = useState<DisplayExpense[]>([])
+  const [localExpenses, setLocalExpenses] = useState<LocalExpense[]>([])
+  const [serverExpenses, setServerExpenses] = useState<ServerExpenseWithRelations[]>([])
+  const [serverCount, setServerCount] = useState<number | null>(null)
+  const [searchMatches, setSearchMatches] = useState<Map<string, SearchMatch> | null>(null)
+  const [hasMore, setHasMore] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
   const [error, setError] = useState<Error | null>(null)
 
+  // Number of server expenses loaded, kept when refreshing
+  const loadedCountRef = useRef(0)
+  // Sort key of the last loaded server expense (next page cursor)
+  const cursorRef = useRef<ExpenseSortKey | null>(null)
+  // Incremented by every refresh so that stale responses are dropped
+  const requestRef = useRef(0)
+  const isLoadingMoreRef = useRef(false)
+
   // Memoize filters to prevent unnecessary re-fetches
   const filterKey = useMemo(
     () => JSON.stringify(filters),
@@ -301,58 +582,148 @@ export function useExpenses(filters: ExpenseFilters = {}): UseExpensesReturn {
     [filterKey]
   )
 
-  const fetchExpenses = useCallback(async () => {
-    setIsLoading(true)
+  /**
+   * Load local expenses and the loaded server pages again
+   *
+   * @param reset - Start again from the first page
+   */
+  const fetchExpenses = useCallback(async (reset = false) => {
+    const request = ++requestRef.current
+    if (reset) {
+      loadedCountRef.current = 0
+      setIsLoading(true)
+    }
     setError(null)
 
     try {
-      // 1. Get local expenses (always available)
-      const allLocalExpenses = await getLocalExpenses()
-      const filteredLocalExpenses = filterLocalExpenses(allLocalExpenses, parsedFilters)
+      // 1. Get local expenses (always available), and search them offline
+      const allLocalExpenses = await getLocalExpenses({ includeDeleted: true })
+      const isSearching = tokenizeSearchText(parsedFilters.search ?? '').length > 0
+      const localMatches = isSearching
+        ? await searchLocalExpenses(parsedFilters.search ?? '')
+        : null
 
       // 2. Get server expenses (if online)
-      let serverExpenses: ServerExpenseWithRelations[] = []
+      const limit = Math.max(PAGE_SIZE, loadedCountRef.current)
+      let page: Awaited<ReturnType<typeof fetchServerExpenses>> | null = null
       if (typeof navigator !== 'undefined' && navigator.onLine) {
         try {
-          serverExpenses = await fetchServerExpenses(parsedFilters)
+          page = await fetchServerExpenses(parsedFilters, { limit })
         } catch (serverError) {
           // Log but don't fail - we still have local data
           console.warn('Failed to fetch server expenses:', serverError)
         }
       }
 
-      // 3. Merge and deduplicate
-      const merged = mergeExpenses(filteredLocalExpenses, serverExpenses)
-
-      // 4. Sort by expense date (newest first), then by created_at
-      merged.sort((a, b) => {
-        const dateCompare = b.expenseDate.localeCompare(a.expenseDate)
-        if (dateCompare !== 0) return dateCompare
-        return b.createdAt.localeCompare(a.createdAt)
-      })
+      if (request !== requestRef.current) {
+        return
+      }
 
-      setExpenses(merged)
+      setLocalExpenses(allLocalExpenses)
+      setSearchMatches(localMatches)
+
+      if (page) {
+        const lastRow = page.rows[page.rows.length - 1]
+        loadedCountRef.current = page.rows.length
+        cursorRef.current = lastRow ? serverSortKey(lastRow) : null
+        setServerExpenses(page.rows)
+        setServerCount(page.count)
+        setHasMore(
+          page.count !== null ? page.rows.length < page.count : page.rows.length === limit
+        )
+      } else if (reset) {
+        // Show local expenses only; keep loaded pages on a failed refresh
+        cursorRef.current = null
+        setServerExpenses([])
+        setServerCount(null)
+        setHasMore(false)
+      }
     } catch (err) {
-      setError(err instanceof Error ? err : new Error('Failed to load expenses'))
+      if (request === requestRef.current) {
+        setError(err instanceof Error ? err : new Error('Failed to load expenses'))
+      }
     } finally {
-      setIsLoading(false)
+      if (request === requestRef.current) {
+        setIsLoading(false)
+      }
     }
   }, [parsedFilters])
 
-  useEffect(() => {
+  /**
+   * Load the next page of server expenses after the cursor
+   */
+  const loadMore = useCallback(async () => {
+    const cursor = cursorRef.current
+    if (!hasMore || !cursor || isLoadingMoreRef.current) {
+      return
+    }
+
+    const request = requestRef.current
+    isLoadingMoreRef.current = true
+    setIsLoadingMore(true)
+
+    try {
+      const { rows } = await fetchServerExpenses(parsedFilters, { after: cursor, limit: PAGE_SIZE })
+
+      // Filters changed or the pages were refreshed meanwhile
+      if (request !== requestRef.current) {
+        return
+      }
+
+      const lastRow = rows[rows.length - 1]
+      loadedCountRef.current += rows.length
+      if (lastRow) {
+        cursorRef.current = serverSortKey(lastRow)
+      }
+      setServerExpenses((loaded) => {
+        const loadedIds = new Set(loaded.map((e) => e.id))
+        return [...loaded, ...rows.filter((e) => !loadedIds.has(e.id))]
+      })
+      setHasMore(rows.length === PAGE_SIZE)
+    } catch (err) {
+      if (request === requestRef.current) {
+        setError(err instanceof Error ? err : new Error('Failed to load expenses'))
+      }
+    } finally {
+      isLoadingMoreRef.current = false
+      setIsLoadingMore(false)
+    }
+  }, [hasMore, parsedFilters])
+
+  const refresh = useCallback(() => {
     fetchExpenses()
+  }, [fetchExpenses])
+
+  useEffect(() => {
+    fetchExpenses(true)
 
     // Poll for changes every 10 seconds
-    const interval = setInterval(fetchExpenses, 10000)
+    const interval = setInterval(() => fetchExpenses(), 10000)
 
     return () => clearInterval(interval)
   }, [fetchExpenses])
 
+  const { expenses, totalCount } = useMemo(
+    () =>
+      buildExpenseList(
+        localExpenses,
+        serverExpenses,
+        serverCount,
+        hasMore,
+        parsedFilters,
+        searchMatches
+      ),
+    [localExpenses, serverExpenses, serverCount, hasMore, parsedFilters, searchMatches]
+  )
+
   return {
     expenses,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
     error,
-    refresh: fetchExpenses,
-    totalCount: expenses.length,
+    refresh,
+    totalCount,
   }
 }
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { filtersToSearchParams, searchParamsToFilters } from '@/lib/export/params'
+import { withoutSearch } from '@/lib/history/filters'
+import type { ExpenseFilterPreset, ExpenseFilters } from '@/types/expense-filters'
+
+interface UseFilterPresetsReturn {
+  /** Saved presets, by name */
+  presets: ExpenseFilterPreset[]
+  /** Whether presets are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Save filters under a name, replacing a preset of the same name */
+  savePreset: (name: string, filters: ExpenseFilters) => Promise<boolean>
+  /** Delete a preset */
+  deletePreset: (id: string) => Promise<boolean>
+  /** Manually refresh the presets */
+  refresh: () => void
+}
+
+/** Maximum length of a preset name */
+export const FILTER_PRESET_NAME_MAX_LENGTH = 60
+
+interface FilterPresetRow {
+  id: string
+  name: string
+  query: string
+  updated_at: string
+}
+
+/**
+ * Convert an expense_filter_presets row to a preset
+ */
+function rowToPreset(row: FilterPresetRow): ExpenseFilterPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    filters: searchParamsToFilters(new URLSearchParams(row.query)),
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Hook for the current user's saved history filter presets
+ *
+ * Presets are stored as history query parameters (see filtersToSearchParams),
+ * the same format as shared history links, so they are validated the same
+ * way when loaded. Presets need a connection; offline the list stays empty.
+ *
+ * @returns Object with presets, loading state, error, and save/delete functions
+ */
+export function useFilterPresets(): UseFilterPresetsReturn {
+  const [presets, setPresets] = useState<ExpenseFilterPreset[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchPresets = useCallback(async () => {
+    setError(null)
+
+    try {
+      const supabase = createClient()
+      const { data, error: fetchError } = await supabase
+        .from('expense_filter_presets')
+        .select('id, name, query, updated_at')
+        .order('name')
+
+      if (fetchError) throw fetchError
+
+      setPresets(((data || []) as FilterPresetRow[]).map(rowToPreset))
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load filter presets'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPresets()
+  }, [fetchPresets])
+
+  const savePreset = useCallback(
+    async (name: string, filters: ExpenseFilters): Promise<boolean> => {
+      const trimmed = name.trim().slice(0, FILTER_PRESET_NAME_MAX_LENGTH)
+      if (!trimmed) return false
+
+      try {
+        const supabase = createClient()
+        const {
+          data: { user },
+        } = await supabase.auth.getUser()
+        if (!user) return false
+
+        const { error: saveError } = await supabase.from('expense_filter_presets').upsert(
+          {
+            user_id: user.id,
+            name: trimmed,
+            query: filtersToSearchParams(withoutSearch(filters)).toString(),
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id,name' }
+        )
+
+        if (saveError) throw saveError
+
+        await fetchPresets()
+        return true
+      } catch (err) {
+        console.error('Failed to save filter preset:', err)
+        return false
+      }
+    },
+    [fetchPresets]
+  )
+
+  const deletePreset = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const supabase = createClient()
+      const { error: deleteError } = await supabase
+        .from('expense_filter_presets')
+        .delete()
+        .eq('id', id)
+
+      if (deleteError) throw deleteError
+
+      setPresets((current) => current.filter((preset) => preset.id !== id))
+      return true
+    } catch (err) {
+      console.error('Failed to delete filter preset:', err)
+      return false
+    }
+  }, [])
+
+  return {
+    presets,
+    isLoading,
+    error,
+    savePreset,
+    deletePreset,
+    refresh: fetchPresets,
+  }
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { buildJobCostReport } from '@/lib/jobs/cost-report'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { ApprovalStatus } from '@/types/expense-filters'
+import type { JobCostReport } from '@/types/job-report'
+
+interface UseJobCostReportReturn {
+  report: JobCostReport | null
+  isLoading: boolean
+  error: Error | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the cost report of a job order
+ *
+ * Loads all synced expenses charged to the job. Managers see the
+ * expenses of all users (RLS); expenses not yet synced are not included.
+ *
+ * @param jobId - Job order ID
+ */
+export function useJobCostReport(jobId: string): UseJobCostReportReturn {
+  const [report, setReport] = useState<JobCostReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const [{ data: job, error: jobError }, { data: expenses, error: expensesError }] =
+        await Promise.all([
+          supabase
+            .from('job_orders')
+            .select('id, job_number, customer_name, origin, destination, status, budget_amount')
+            .eq('id', jobId)
+            .single(),
+          supabase
+            .from('expense_drafts')
+            .select(`
+              id, user_id, amount, category, vendor_name, description, expense_date,
+              approval_status,
+              submitter:user_profiles!expense_drafts_user_id_fkey(full_name, email)
+            `)
+            .eq('job_order_id', jobId)
+            .order('expense_date', { ascending: false })
+            .order('created_at', { ascending: false }),
+        ])
+
+      if (jobError) {
+        throw new Error(jobError.message)
+      }
+      if (expensesError) {
+        throw new Error(expensesError.message)
+      }
+
+      setReport(
+        buildJobCostReport(
+          {
+            id: job.id,
+            jobNumber: job.job_number,
+            customerName: job.customer_name,
+            origin: job.origin,
+            destination: job.destination,
+            status: job.status,
+            budgetAmount: job.budget_amount != null ? Number(job.budget_amount) : undefined,
+          },
+          (expenses ?? []).map((expense) => {
+            const submitter = Array.isArray(expense.submitter) ? expense.submitter[0] : expense.submitter
+
+            return {
+              id: expense.id,
+              userId: expense.user_id,
+              userName: submitter?.full_name || submitter?.email || undefined,
+              amount: Number(expense.amount),
+              category: expense.category as ExpenseCategory,
+              vendorName: expense.vendor_name ?? undefined,
+              description: expense.description ?? undefined,
+              expenseDate: expense.expense_date,
+              approvalStatus: expense.approval_status as ApprovalStatus,
+            }
+          })
+        )
+      )
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat laporan biaya job'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [jobId])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return {
+    report,
+    isLoading,
+    error,
+    refresh: fetchReport,
+  }
+}
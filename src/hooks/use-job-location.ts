@@ -2,36 +2,30 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
-
-/**
- * GPS coordinates for a location
- */
-export interface GPSCoordinates {
-  latitude: number
-  longitude: number
-}
+import { getCachedJobById } from '@/lib/db/job-cache'
+import { geocodeJobGeofence } from '@/lib/geocoding'
+import { calculateDistance } from '@/lib/utils/geo'
+import {
+  hasGeofence,
+  parseJobGeofence,
+  type GPSCoordinates,
+  type JobGeofence,
+} from '@/lib/location/geofence'
+import type { CachedJobOrder } from '@/lib/db'
+
+export type { GPSCoordinates } from '@/lib/location/geofence'
 
 /**
  * Job location data including text-based origin/destination
- * and optional GPS coordinates for future enhancement
+ * and the GPS coordinates of the route, when the job has them
  */
-export interface JobLocation {
+export interface JobLocation extends JobGeofence {
   /** Text-based origin location (e.g., "Jakarta") */
   origin: string
   /** Text-based destination location (e.g., "Bandung") */
   destination: string
-  /**
-   * GPS coordinates for origin location
-   * Currently null - requires job_orders table to have coordinate columns
-   * @future Will be populated when origin_latitude/origin_longitude columns are added
-   */
-  originCoords: GPSCoordinates | null
-  /**
-   * GPS coordinates for destination location
-   * Currently null - requires job_orders table to have coordinate columns
-   * @future Will be populated when destination_latitude/destination_longitude columns are added
-   */
-  destinationCoords: GPSCoordinates | null
+  /** Whether origin or destination coordinates were geocoded from the text */
+  isGeocoded: boolean
 }
 
 export interface UseJobLocationReturn {
@@ -43,51 +37,51 @@ export interface UseJobLocationReturn {
   error: Error | null
   /** Function to manually refresh the location data */
   refresh: () => void
-  /**
-   * Whether GPS validation is available for this job
-   * Currently always false since job_orders doesn't have coordinate columns
-   * @future Will be true when coordinate columns are added to job_orders
-   */
+  /** Whether the job has coordinates to validate the capture GPS against */
   hasGPSData: boolean
 }
 
+/**
+ * Convert a cached job order to job location
+ */
+function cachedToJobLocation(cached: CachedJobOrder): JobLocation {
+  return {
+    origin: cached.origin,
+    destination: cached.destination,
+    isGeocoded: false,
+    ...parseJobGeofence({
+      origin_latitude: cached.originLat,
+      origin_longitude: cached.originLng,
+      destination_latitude: cached.destLat,
+      destination_longitude: cached.destLng,
+      route_waypoints: cached.routeWaypoints,
+    }),
+  }
+}
+
 /**
  * Hook for fetching job location data (origin/destination)
- * 
- * This hook fetches the origin and destination for a job order.
- * Currently, the job_orders table only has text-based location fields,
- * so GPS validation is not available.
- * 
- * ## Current Limitations
- * - The job_orders table has `origin` and `destination` as TEXT fields
- * - No GPS coordinates are stored in the table
- * - GPS validation (comparing user location to job location) is not possible
- * 
- * ## Future Enhancement
- * When the job_orders table is updated to include coordinate columns:
- * - origin_latitude, origin_longitude
- * - destination_latitude, destination_longitude
- * 
- * This hook will automatically support GPS validation by populating
- * the `originCoords` and `destinationCoords` fields.
- * 
+ *
+ * Fetches the origin and destination of a job order together with its
+ * geofence: origin/destination coordinates and optional route waypoints.
+ * Missing coordinates are geocoded from the origin/destination text;
+ * when that fails too, the text locations are returned with `hasGPSData`
+ * false.
+ *
+ * Offline, or when Supabase fails, the cached job order is used so the
+ * capture-time location check keeps working in the field.
+ *
  * @param jobId - The job order ID to fetch location for, or null if no job selected
  * @returns Object with location data, loading state, error, and refresh function
- * 
+ *
  * @example
  * ```tsx
  * function ExpenseForm() {
  *   const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
- *   const { location, isLoading, hasGPSData } = useJobLocation(selectedJobId)
- *   
- *   // Display origin/destination text
- *   if (location) {
- *     console.log(`Route: ${location.origin} → ${location.destination}`)
- *   }
- *   
- *   // Check if GPS validation is possible
- *   if (hasGPSData && location?.originCoords) {
- *     // Can perform distance validation
+ *   const { location, hasGPSData } = useJobLocation(selectedJobId)
+ *
+ *   if (hasGPSData && gpsPosition) {
+ *     const check = checkJobGeofence(gpsPosition, location)
  *   }
  * }
  * ```
@@ -109,35 +103,70 @@ export function useJobLocation(jobId: string | null): UseJobLocationReturn {
     setIsLoading(true)
     setError(null)
 
-    try {
-      const supabase = createClient()
-
-      // Fetch job order with origin and destination
-      // Note: Currently only text fields are available
-      // Future: Add origin_latitude, origin_longitude, destination_latitude, destination_longitude
-      const { data, error: fetchError } = await supabase
-        .from('job_orders')
-        .select('origin, destination')
-        .eq('id', jobId)
-        .single()
-
-      if (fetchError) {
-        throw new Error(fetchError.message)
-      }
+    const getFromCache = async (): Promise<JobLocation | null> => {
+      const cached = await getCachedJobById(jobId)
+      return cached ? cachedToJobLocation(cached) : null
+    }
 
-      if (!data) {
-        throw new Error('Job order tidak ditemukan')
+    try {
+      const isOnline = typeof navigator !== 'undefined' && navigator.onLine
+      let jobLocation: JobLocation | null = null
+
+      if (!isOnline) {
+        jobLocation = await getFromCache()
+        if (!jobLocation) {
+          throw new Error('Job order tidak ditemukan di cache')
+        }
+      } else {
+        try {
+          const supabase = createClient()
+
+          const { data, error: fetchError } = await supabase
+            .from('job_orders')
+            .select(`
+              origin, destination,
+              origin_latitude, origin_longitude,
+              destination_latitude, destination_longitude,
+              route_waypoints
+            `)
+            .eq('id', jobId)
+            .single()
+
+          if (fetchError) {
+            throw new Error(fetchError.message)
+          }
+
+          if (!data) {
+            throw new Error('Job order tidak ditemukan')
+          }
+
+          jobLocation = {
+            origin: data.origin,
+            destination: data.destination,
+            isGeocoded: false,
+            ...parseJobGeofence(data),
+          }
+        } catch (supabaseError) {
+          console.warn('Supabase fetch failed, using cache:', supabaseError)
+          jobLocation = await getFromCache()
+          if (!jobLocation) {
+            throw supabaseError
+          }
+        }
       }
 
-      // Build location object
-      // Currently, coordinates are always null since the table doesn't have them
-      const jobLocation: JobLocation = {
-        origin: data.origin,
-        destination: data.destination,
-        // GPS coordinates - currently not available in job_orders table
-        // These will be populated when coordinate columns are added
-        originCoords: null,
-        destinationCoords: null,
+      // Resolve text locations the job order has no coordinates for
+      if (!jobLocation.originCoords || !jobLocation.destinationCoords) {
+        try {
+          const { geofence, geocoded } = await geocodeJobGeofence(
+            jobLocation,
+            jobLocation.origin,
+            jobLocation.destination
+          )
+          jobLocation = { ...jobLocation, ...geofence, isGeocoded: geocoded }
+        } catch (geocodeError) {
+          console.warn('Geocoding job location failed:', geocodeError)
+        }
       }
 
       setLocation(jobLocation)
@@ -159,51 +188,50 @@ export function useJobLocation(jobId: string | null): UseJobLocationReturn {
     fetchLocation()
   }, [fetchLocation])
 
-  // GPS data is available only if we have coordinates
-  // Currently always false since job_orders doesn't have coordinate columns
-  const hasGPSData = Boolean(
-    location?.originCoords || location?.destinationCoords
-  )
-
   return {
     location,
     isLoading,
     error,
     refresh,
-    hasGPSData,
+    hasGPSData: hasGeofence(location),
   }
 }
 
 /**
  * Utility function to check if GPS validation can be performed
- * 
+ *
  * @param location - The job location data
- * @returns true if at least one set of coordinates is available
+ * @returns true if the job has origin, destination or route coordinates
  */
 export function canValidateGPS(location: JobLocation | null): boolean {
-  if (!location) return false
-  return Boolean(location.originCoords || location.destinationCoords)
+  return hasGeofence(location)
 }
 
 /**
- * Get the nearest job location coordinates for GPS validation
- * 
- * This function returns the coordinates that should be used for
- * distance validation. It prefers origin coordinates if available,
- * otherwise falls back to destination coordinates.
- * 
+ * Get the job coordinates nearest to a position
+ *
+ * Considers the origin and destination. Without a position the origin
+ * is preferred, falling back to the destination.
+ *
  * @param location - The job location data
+ * @param position - Current position, if known
  * @returns GPS coordinates or null if none available
- * 
- * @future When coordinates are available, this can be enhanced to:
- * - Return the closest location based on user's current position
- * - Consider both origin and destination for route-based validation
  */
 export function getNearestJobCoordinates(
-  location: JobLocation | null
+  location: JobLocation | null,
+  position?: GPSCoordinates | null
 ): GPSCoordinates | null {
   if (!location) return null
-  
-  // Prefer origin, fall back to destination
-  return location.originCoords || location.destinationCoords
+
+  const { originCoords, destinationCoords } = location
+  if (!position || !originCoords || !destinationCoords) {
+    return originCoords || destinationCoords
+  }
+
+  const distanceTo = (coords: GPSCoordinates) =>
+    calculateDistance(position.latitude, position.longitude, coords.latitude, coords.longitude)
+
+  return distanceTo(originCoords) <= distanceTo(destinationCoords)
+    ? originCoords
+    : destinationCoords
 }
@@ -0,0 +1,67 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { toJournalBatch } from '@/lib/accounting/journal'
+import type { JournalBatch } from '@/types/accounting'
+
+/** Batches shown, newest first */
+const BATCH_LIMIT = 50
+
+interface UseJournalBatchesReturn {
+  /** Recent journal batches, newest first */
+  batches: JournalBatch[]
+  /** Whether batches are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the batches */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the journal batches exported to the accounting system
+ *
+ * @returns Object with batches, loading state, error, and refresh function
+ */
+export function useJournalBatches(): UseJournalBatchesReturn {
+  const [batches, setBatches] = useState<JournalBatch[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchBatches = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data, error: fetchError } = await supabase
+        .from('journal_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(BATCH_LIMIT)
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      setBatches((data ?? []).map(toJournalBatch))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat batch jurnal'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBatches()
+  }, [fetchBatches])
+
+  return {
+    batches,
+    isLoading,
+    error,
+    refresh: fetchBatches,
+  }
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notifications/client'
+import type { NotificationPreferences } from '@/lib/notifications/types'
+
+interface UseNotificationPreferencesReturn {
+  preferences: NotificationPreferences | null
+  isLoading: boolean
+  isSaving: boolean
+  update: (updates: Partial<NotificationPreferences>) => Promise<boolean>
+}
+
+/**
+ * Hook for the current user's reminder opt-out and quiet hours
+ */
+export function useNotificationPreferences(): UseNotificationPreferencesReturn {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      setPreferences(await fetchNotificationPreferences())
+      setIsLoading(false)
+    }
+
+    load()
+  }, [])
+
+  const update = useCallback(async (updates: Partial<NotificationPreferences>): Promise<boolean> => {
+    setIsSaving(true)
+    try {
+      const saved = await updateNotificationPreferences(updates)
+      if (saved) {
+        setPreferences(saved)
+      }
+      return !!saved
+    } finally {
+      setIsSaving(false)
+    }
+  }, [])
+
+  return { preferences, isLoading, isSaving, update }
+}
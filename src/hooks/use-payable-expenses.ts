@@ -0,0 +1,89 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { PayableExpense } from '@/types/payment'
+
+interface UsePayableExpensesReturn {
+  /** Approved expenses awaiting payment, oldest approval first */
+  expenses: PayableExpense[]
+  /** Whether expenses are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the expenses */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the approved expenses finance still has to pay
+ *
+ * Expenses paid from a cash advance are settled with the advance and
+ * are not listed.
+ *
+ * @returns Object with expenses, loading state, error, and refresh function
+ */
+export function usePayableExpenses(): UsePayableExpensesReturn {
+  const [expenses, setExpenses] = useState<PayableExpense[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchExpenses = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data, error: fetchError } = await supabase
+        .from('expense_drafts')
+        .select(`
+          id, user_id, amount, category, description, expense_date, bkk_number, approved_at,
+          job_order:job_orders(job_number),
+          submitter:user_profiles!expense_drafts_user_id_fkey(full_name, email)
+        `)
+        .eq('approval_status', 'approved')
+        .is('advance_id', null)
+        .order('approved_at', { ascending: true })
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      setExpenses(
+        (data ?? []).map((expense) => {
+          const submitter = Array.isArray(expense.submitter) ? expense.submitter[0] : expense.submitter
+          const jobOrder = Array.isArray(expense.job_order) ? expense.job_order[0] : expense.job_order
+
+          return {
+            id: expense.id,
+            userId: expense.user_id,
+            userName: submitter?.full_name || submitter?.email || 'Tanpa nama',
+            amount: Number(expense.amount),
+            category: expense.category,
+            description: expense.description ?? undefined,
+            expenseDate: expense.expense_date,
+            bkkNumber: expense.bkk_number ?? undefined,
+            jobNumber: jobOrder?.job_number ?? undefined,
+            approvedAt: expense.approved_at ?? undefined,
+          }
+        })
+      )
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat pengeluaran'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchExpenses()
+  }, [fetchExpenses])
+
+  return {
+    expenses,
+    isLoading,
+    error,
+    refresh: fetchExpenses,
+  }
+}
@@ -2,6 +2,10 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { getCurrentUserRole } from '@/lib/approval/queue'
+import { parseLineItems } from '@/lib/ocr/itemization'
+import { parseReceiptMetadata } from '@/lib/ocr/receipt-types'
+import { parsePolicyViolations } from '@/lib/policies/engine'
 import type { DisplayExpense, ApprovalStatus } from '@/types/expense-filters'
 import type { ExpenseCategory } from '@/constants/expense-categories'
 
@@ -19,7 +23,9 @@ interface UsePendingApprovalsResult {
 }
 
 /**
- * Hook to fetch expenses pending approval (for finance roles)
+ * Hook to fetch expenses awaiting the current user's approval step
+ *
+ * Only expenses whose current step lists the user's role are returned.
  */
 export function usePendingApprovals(): UsePendingApprovalsResult {
   const [expenses, setExpenses] = useState<PendingExpense[]>([])
@@ -34,15 +40,25 @@ export function usePendingApprovals(): UsePendingApprovalsResult {
     try {
       const supabase = createClient()
 
+      const role = await getCurrentUserRole(supabase)
+      if (!role) {
+        setExpenses([])
+        setTotalCount(0)
+        return
+      }
+
       const { data, error: fetchError, count } = await supabase
         .from('expense_drafts')
         .select(`
           *,
           receipt:expense_receipts(id, storage_path),
           job_order:job_orders(id, job_number, customer_name),
-          submitter:user_profiles!expense_drafts_user_id_fkey(full_name, email)
+          submitter:user_profiles!expense_drafts_user_id_fkey(full_name, email),
+          current_step:expense_approval_steps!inner(step_order, label)
         `, { count: 'exact' })
         .eq('approval_status', 'pending_approval')
+        .eq('current_step.status', 'pending')
+        .contains('current_step.approver_roles', [role])
         .order('submitted_at', { ascending: true })
 
       if (fetchError) {
@@ -65,6 +81,14 @@ export function usePendingApprovals(): UsePendingApprovalsResult {
         gpsLatitude: expense.gps_latitude,
         gpsLongitude: expense.gps_longitude,
         gpsAccuracy: expense.gps_accuracy,
+        locationExplanation: expense.location_explanation ?? undefined,
+        policyViolations: parsePolicyViolations(expense.policy_violations),
+        lineItems: parseLineItems(expense.line_items),
+        taxAmount: expense.tax_amount ?? undefined,
+        serviceCharge: expense.service_charge ?? undefined,
+        receiptMetadata: parseReceiptMetadata(expense.receipt_metadata),
+        receiptExempt: expense.receipt_exempt || false,
+        isPerDiem: expense.created_from === 'per_diem',
         receipt: expense.receipt,
         jobOrder: expense.job_order,
         syncStatus: expense.sync_status,
@@ -80,6 +104,9 @@ export function usePendingApprovals(): UsePendingApprovalsResult {
         submittedBy: expense.submitted_by,
         submitterName: expense.submitter?.full_name,
         submitterEmail: expense.submitter?.email,
+        currentApprovalStep: expense.current_approval_step ?? undefined,
+        approvalStepCount: expense.approval_step_count ?? undefined,
+        approvalStepLabel: expense.current_step?.[0]?.label,
       }))
 
       setExpenses(transformed)
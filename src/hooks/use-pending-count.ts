@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { getCurrentUserRole, countAwaitingApproval } from '@/lib/approval/queue'
 
 interface UsePendingCountResult {
   count: number
@@ -10,7 +11,7 @@ interface UsePendingCountResult {
 }
 
 /**
- * Hook to get count of expenses pending approval
+ * Hook to get count of expenses awaiting the current user's approval step
  * Used for badge display in navigation
  */
 export function usePendingCount(): UsePendingCountResult {
@@ -21,14 +22,9 @@ export function usePendingCount(): UsePendingCountResult {
     try {
       const supabase = createClient()
 
-      const { count: pendingCount, error } = await supabase
-        .from('expense_drafts')
-        .select('*', { count: 'exact', head: true })
-        .eq('approval_status', 'pending_approval')
+      const role = await getCurrentUserRole(supabase)
 
-      if (!error && pendingCount !== null) {
-        setCount(pendingCount)
-      }
+      setCount(role ? await countAwaitingApproval(supabase, role) : 0)
     } catch (error) {
       console.error('Failed to fetch pending count:', error)
     } finally {
@@ -0,0 +1,63 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { getPerDiemPlanApi } from '@/lib/erp/api-client'
+import type { PerDiemPlan } from '@/types/per-diem'
+
+interface UsePerDiemPlanReturn {
+  /** Allowance plan of the job's trip, null when it cannot be built */
+  plan: PerDiemPlan | null
+  /** Whether the plan is being loaded */
+  isLoading: boolean
+  /** Why no plan exists (e.g. no trip dates or driver) */
+  error: Error | null
+  /** Manually refresh the plan */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the daily allowance plan of a job order's trip
+ *
+ * @param jobOrderId - Job order ID, or null to skip loading
+ */
+export function usePerDiemPlan(jobOrderId: string | null): UsePerDiemPlanReturn {
+  const [plan, setPlan] = useState<PerDiemPlan | null>(null)
+  const [isLoading, setIsLoading] = useState(!!jobOrderId)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchPlan = useCallback(async () => {
+    if (!jobOrderId) {
+      setPlan(null)
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const result = await getPerDiemPlanApi(jobOrderId)
+      if (!result.success || !result.plan) {
+        throw new Error(result.error || 'Gagal memuat uang harian')
+      }
+
+      setPlan(result.plan)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat uang harian'))
+      setPlan(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [jobOrderId])
+
+  useEffect(() => {
+    fetchPlan()
+  }, [fetchPlan])
+
+  return {
+    plan,
+    isLoading,
+    error,
+    refresh: fetchPlan,
+  }
+}
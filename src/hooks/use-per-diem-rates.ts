@@ -0,0 +1,64 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { toPerDiemRate } from '@/lib/per-diem/allowance'
+import type { PerDiemRate } from '@/types/per-diem'
+
+interface UsePerDiemRatesReturn {
+  /** All per diem rates, active and inactive */
+  rates: PerDiemRate[]
+  /** Whether rates are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the rates */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the per diem rates by destination region, for managing them
+ *
+ * @returns Object with rates, loading state, error, and refresh function
+ */
+export function usePerDiemRates(): UsePerDiemRatesReturn {
+  const [rates, setRates] = useState<PerDiemRate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchRates = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data, error: fetchError } = await supabase
+        .from('per_diem_rates')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('region')
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      setRates((data ?? []).map(toPerDiemRate))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat tarif uang harian'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRates()
+  }, [fetchRates])
+
+  return {
+    rates,
+    isLoading,
+    error,
+    refresh: fetchRates,
+  }
+}
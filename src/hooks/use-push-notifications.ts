@@ -7,6 +7,8 @@ import {
   subscribeToPush,
   unsubscribeFromPush,
   getPushSubscription,
+  saveSubscriptionToServer,
+  removeSubscriptionFromServer,
 } from '@/lib/notifications/client'
 
 interface UsePushNotificationsReturn {
@@ -34,6 +36,11 @@ export function usePushNotifications(): UsePushNotificationsReturn {
         setPermission(getNotificationPermission())
         const subscription = await getPushSubscription()
         setIsSubscribed(!!subscription)
+
+        // Keep the server registry in sync (e.g. after signing in on this device)
+        if (subscription) {
+          await saveSubscriptionToServer(subscription)
+        }
       }
       
       setIsLoading(false)
@@ -52,8 +59,7 @@ export function usePushNotifications(): UsePushNotificationsReturn {
         setIsSubscribed(true)
         setPermission('granted')
         
-        // TODO: Save subscription to server/database
-        // await saveSubscriptionToServer(subscription)
+        await saveSubscriptionToServer(subscription)
         
         return true
       }
@@ -69,12 +75,14 @@ export function usePushNotifications(): UsePushNotificationsReturn {
     
     setIsLoading(true)
     try {
+      const subscription = await getPushSubscription()
       const success = await unsubscribeFromPush()
       if (success) {
         setIsSubscribed(false)
         
-        // TODO: Remove subscription from server/database
-        // await removeSubscriptionFromServer()
+        if (subscription) {
+          await removeSubscriptionFromServer(subscription.endpoint)
+        }
         
         return true
       }
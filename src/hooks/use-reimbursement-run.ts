@@ -0,0 +1,61 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { getReimbursementRunApi } from '@/lib/erp/api-client'
+import type { ReimbursementEmployee, ReimbursementRun } from '@/types/reimbursement'
+
+interface UseReimbursementRunReturn {
+  /** The run, null until loaded */
+  run: ReimbursementRun | null
+  /** Items of the run grouped per employee */
+  employees: ReimbursementEmployee[]
+  /** Whether the run is being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the run */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for a reimbursement run with its items grouped per employee
+ *
+ * @param runId - Reimbursement run ID
+ */
+export function useReimbursementRun(runId: string): UseReimbursementRunReturn {
+  const [run, setRun] = useState<ReimbursementRun | null>(null)
+  const [employees, setEmployees] = useState<ReimbursementEmployee[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchRun = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const result = await getReimbursementRunApi(runId)
+      if (!result.success || !result.run) {
+        throw new Error(result.error || 'Gagal memuat reimbursement')
+      }
+
+      setRun(result.run)
+      setEmployees(result.employees ?? [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat reimbursement'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [runId])
+
+  useEffect(() => {
+    fetchRun()
+  }, [fetchRun])
+
+  return {
+    run,
+    employees,
+    isLoading,
+    error,
+    refresh: fetchRun,
+  }
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { toReimbursementRun } from '@/lib/reimbursements/run'
+import type { ReimbursementRun } from '@/types/reimbursement'
+
+/** Runs shown, newest first */
+const RUN_LIMIT = 50
+
+interface UseReimbursementRunsReturn {
+  /** Recent reimbursement runs, newest first */
+  runs: ReimbursementRun[]
+  /** Whether runs are being loaded */
+  isLoading: boolean
+  /** Error from the fetch operation */
+  error: Error | null
+  /** Manually refresh the runs */
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for the weekly reimbursement runs
+ *
+ * @returns Object with runs, loading state, error, and refresh function
+ */
+export function useReimbursementRuns(): UseReimbursementRunsReturn {
+  const [runs, setRuns] = useState<ReimbursementRun[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchRuns = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data, error: fetchError } = await supabase
+        .from('reimbursement_runs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(RUN_LIMIT)
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      setRuns((data ?? []).map(toReimbursementRun))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat reimbursement'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRuns()
+  }, [fetchRuns])
+
+  return {
+    runs,
+    isLoading,
+    error,
+    refresh: fetchRuns,
+  }
+}
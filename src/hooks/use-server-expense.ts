@@ -0,0 +1,126 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { parseLineItems } from '@/lib/ocr/itemization'
+import { parseReceiptMetadata } from '@/lib/ocr/receipt-types'
+import { parsePolicyViolations } from '@/lib/policies/engine'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { SyncStatus } from '@/lib/db'
+import type { ApprovalStatus, DisplayExpense } from '@/types/expense-filters'
+
+/**
+ * Server expense with its submitter
+ */
+export interface ServerExpenseView extends DisplayExpense {
+  submitterName?: string
+  submitterEmail?: string
+}
+
+interface UseServerExpenseReturn {
+  expense: ServerExpenseView | null
+  isLoading: boolean
+  error: Error | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook for a single synced expense by server ID
+ *
+ * Visibility follows RLS: users load their own expenses, managers and
+ * approvers also their team's.
+ *
+ * @param expenseId - Server expense ID
+ */
+export function useServerExpense(expenseId: string): UseServerExpenseReturn {
+  const [expense, setExpense] = useState<ServerExpenseView | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchExpense = useCallback(async () => {
+    setIsLoading(true)
+
+    try {
+      const supabase = createClient()
+
+      const { data, error: fetchError } = await supabase
+        .from('expense_drafts')
+        .select(`
+          *,
+          receipt:expense_receipts(id, storage_path),
+          job_order:job_orders(id, job_number, customer_name),
+          payment:expense_payments(method, reference_number),
+          submitter:user_profiles!expense_drafts_user_id_fkey(full_name, email)
+        `)
+        .eq('id', expenseId)
+        .maybeSingle()
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+      if (!data) {
+        throw new Error('Pengeluaran tidak ditemukan')
+      }
+
+      const submitter = Array.isArray(data.submitter) ? data.submitter[0] : data.submitter
+      const payment = Array.isArray(data.payment) ? data.payment[0] : data.payment
+
+      setExpense({
+        id: data.id,
+        serverId: data.id,
+        amount: Number(data.amount),
+        category: data.category as ExpenseCategory,
+        description: data.description ?? undefined,
+        vendorName: data.vendor_name ?? undefined,
+        vendorId: data.vendor_id ?? undefined,
+        jobOrderId: data.job_order_id ?? undefined,
+        isOverhead: data.is_overhead || false,
+        expenseDate: data.expense_date,
+        expenseTime: data.expense_time ?? undefined,
+        gpsLatitude: data.gps_latitude ?? undefined,
+        gpsLongitude: data.gps_longitude ?? undefined,
+        gpsAccuracy: data.gps_accuracy ?? undefined,
+        locationExplanation: data.location_explanation ?? undefined,
+        policyViolations: parsePolicyViolations(data.policy_violations),
+        lineItems: parseLineItems(data.line_items),
+        taxAmount: data.tax_amount != null ? Number(data.tax_amount) : undefined,
+        serviceCharge: data.service_charge != null ? Number(data.service_charge) : undefined,
+        receiptMetadata: parseReceiptMetadata(data.receipt_metadata),
+        receiptExempt: data.receipt_exempt || false,
+        isPerDiem: data.created_from === 'per_diem',
+        receipt: Array.isArray(data.receipt) ? data.receipt[0] : data.receipt ?? undefined,
+        jobOrder: Array.isArray(data.job_order) ? data.job_order[0] : data.job_order ?? undefined,
+        syncStatus: data.sync_status as SyncStatus,
+        approvalStatus: data.approval_status as ApprovalStatus,
+        createdAt: data.created_at,
+        updatedAt: data.updated_at,
+        source: 'server',
+        bkkNumber: data.bkk_number ?? undefined,
+        submittedAt: data.submitted_at ?? undefined,
+        rejectionReason: data.rejection_reason ?? undefined,
+        paidAt: data.paid_at ?? undefined,
+        paymentMethod: payment?.method ?? undefined,
+        paymentReference: payment?.reference_number ?? undefined,
+        submitterName: submitter?.full_name ?? undefined,
+        submitterEmail: submitter?.email ?? undefined,
+      })
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gagal memuat pengeluaran'))
+      setExpense(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [expenseId])
+
+  useEffect(() => {
+    fetchExpense()
+  }, [fetchExpense])
+
+  return {
+    expense,
+    isLoading,
+    error,
+    refresh: fetchExpense,
+  }
+}
@@ -0,0 +1,76 @@
+import type { JournalBatch } from '@/types/accounting'
+
+/**
+ * Journal Batches
+ *
+ * Batch numbering, the petty cash account credited by exported journal
+ * entries and the employee advance account, configured per deployment
+ * since they depend on the chart of accounts.
+ */
+
+/**
+ * Petty cash account code (ACCOUNTING_PETTY_CASH_ACCOUNT)
+ *
+ * @returns The account code, or null when not configured
+ */
+export function getPettyCashAccount(): string | null {
+  return process.env.ACCOUNTING_PETTY_CASH_ACCOUNT?.trim() || null
+}
+
+/**
+ * Employee advance (receivable) account code (ACCOUNTING_ADVANCE_ACCOUNT),
+ * debited by the BKK records of cash advances
+ *
+ * @returns The account code, or null when not configured
+ */
+export function getAdvanceAccount(): string | null {
+  return process.env.ACCOUNTING_ADVANCE_ACCOUNT?.trim() || null
+}
+
+/**
+ * Prefix of the month's journal batch numbers, e.g. JE-202610
+ */
+export function journalBatchPrefix(date: Date): string {
+  return `JE-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Next journal batch number for the month
+ *
+ * @param lastNumber - Last batch number of the month, if any
+ * @param date - Date of the new batch
+ * @returns e.g. JE-202610-001
+ */
+export function nextJournalBatchNumber(lastNumber: string | null, date: Date): string {
+  const prefix = journalBatchPrefix(date)
+  const lastSequence = lastNumber?.startsWith(`${prefix}-`)
+    ? parseInt(lastNumber.slice(prefix.length + 1), 10)
+    : 0
+
+  return `${prefix}-${String((lastSequence || 0) + 1).padStart(3, '0')}`
+}
+
+/**
+ * Map a journal_batches row to a JournalBatch
+ */
+export function toJournalBatch(row: {
+  id: string
+  batch_number: string
+  date_from: string
+  date_to: string
+  entry_count: number
+  total_amount: number | string
+  credit_account_code: string
+  created_at: string
+}): JournalBatch {
+  return {
+    id: row.id,
+    batchNumber: row.batch_number,
+    dateFrom: row.date_from,
+    dateTo: row.date_to,
+    entryCount: row.entry_count,
+    totalAmount: Number(row.total_amount),
+    creditAccountCode: row.credit_account_code,
+    createdAt: row.created_at,
+  }
+}
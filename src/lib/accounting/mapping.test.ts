@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { buildJournalLines, resolveRecordAccounting } from './mapping'
+
+const EXPENSE_MAPPING = { glAccountCode: '6101', costCenterCode: 'CC-JKT' }
+
+describe('resolveRecordAccounting', () => {
+  it('maps cash advance records to the employee advance account', () => {
+    expect(
+      resolveRecordAccounting(
+        { isAdvance: true, glAccountCode: null, costCenterCode: null },
+        null,
+        '1150'
+      )
+    ).toEqual({ glAccountCode: '1150', costCenterCode: null })
+  })
+
+  it('maps expense records to their expense mapping', () => {
+    expect(
+      resolveRecordAccounting(
+        { isAdvance: false, glAccountCode: null, costCenterCode: null },
+        EXPENSE_MAPPING,
+        '1150'
+      )
+    ).toEqual(EXPENSE_MAPPING)
+  })
+
+  it('keeps the codes stored on the record', () => {
+    expect(
+      resolveRecordAccounting(
+        { isAdvance: false, glAccountCode: '6199', costCenterCode: null },
+        EXPENSE_MAPPING,
+        '1150'
+      )
+    ).toEqual({ glAccountCode: '6199', costCenterCode: 'CC-JKT' })
+  })
+
+  it('leaves an advance record unmapped without an advance account', () => {
+    expect(
+      resolveRecordAccounting(
+        { isAdvance: true, glAccountCode: null, costCenterCode: null },
+        null,
+        null
+      ).glAccountCode
+    ).toBeNull()
+  })
+})
+
+describe('buildJournalLines', () => {
+  it('debits the advance account and credits petty cash for an advance record', () => {
+    const mapping = resolveRecordAccounting(
+      { isAdvance: true, glAccountCode: null, costCenterCode: null },
+      null,
+      '1150'
+    )
+
+    const lines = buildJournalLines(
+      [
+        {
+          recordNumber: 'BKK-202605-0001',
+          recordDate: '2025-05-12',
+          amount: 1_000_000,
+          description: '[Kasbon KSB-202605-0001] Uang muka perjalanan',
+          glAccountCode: mapping.glAccountCode!,
+          costCenterCode: mapping.costCenterCode,
+        },
+      ],
+      '1110'
+    )
+
+    expect(lines).toEqual([
+      expect.objectContaining({ accountCode: '1150', debit: 1_000_000, credit: 0 }),
+      expect.objectContaining({ accountCode: '1110', debit: 0, credit: 1_000_000 }),
+    ])
+  })
+})
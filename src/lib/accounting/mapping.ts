@@ -0,0 +1,178 @@
+import type { AccountingMapping, CostCenter, JournalLine } from '@/types/accounting'
+
+/**
+ * Accounting Mapping
+ *
+ * Pure resolution of an expense's chart-of-accounts code and cost center,
+ * and of the journal lines of BKK records. Each record debits its expense
+ * account (the employee advance account for cash advances) and credits
+ * petty cash.
+ */
+
+/**
+ * Compare names ignoring case and surrounding spaces
+ */
+function sameName(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+/**
+ * Expense account of a category
+ *
+ * Overhead expenses use the category's overhead account when it has one.
+ */
+export function resolveGlAccount(
+  category: { glAccountCode: string | null; overheadGlAccountCode: string | null } | null,
+  isOverhead: boolean
+): string | null {
+  if (!category) return null
+  return (isOverhead && category.overheadGlAccountCode) || category.glAccountCode || null
+}
+
+/**
+ * Cost center of an expense
+ *
+ * Job expenses match the job's customer (a center for the customer in
+ * the job's branch first), then the branch, then the default center.
+ * Overhead expenses use the overhead center of the branch, else the
+ * general overhead center.
+ *
+ * @param expense - Overhead flag and the job's customer and branch
+ * @param centers - Defined cost centers
+ * @returns The center, or null when nothing matches
+ */
+export function resolveCostCenter(
+  expense: { isOverhead: boolean; customerName?: string | null; branchCode?: string | null },
+  centers: CostCenter[]
+): CostCenter | null {
+  const active = centers.filter((center) => center.isActive)
+
+  if (expense.isOverhead) {
+    return (
+      active.find((center) => center.isOverhead && sameName(center.branchCode, expense.branchCode)) ??
+      active.find((center) => center.isOverhead && !center.branchCode) ??
+      null
+    )
+  }
+
+  const customerCenters = active.filter((center) =>
+    sameName(center.customerName, expense.customerName)
+  )
+
+  return (
+    customerCenters.find((center) => sameName(center.branchCode, expense.branchCode)) ??
+    customerCenters.find((center) => !center.branchCode) ??
+    active.find(
+      (center) =>
+        !center.customerName && !center.isOverhead && sameName(center.branchCode, expense.branchCode)
+    ) ??
+    active.find((center) => center.isDefault) ??
+    null
+  )
+}
+
+/**
+ * Resolve the account and cost center of an expense
+ */
+export function resolveAccountingMapping(
+  expense: { isOverhead: boolean; customerName?: string | null; branchCode?: string | null },
+  category: { glAccountCode: string | null; overheadGlAccountCode: string | null } | null,
+  centers: CostCenter[]
+): AccountingMapping {
+  return {
+    glAccountCode: resolveGlAccount(category, expense.isOverhead),
+    costCenterCode: resolveCostCenter(expense, centers)?.code ?? null,
+  }
+}
+
+/**
+ * Account and cost center of a BKK record, keeping the codes it stores
+ *
+ * Records of a cash advance (the cash handed out, or the shortfall paid at
+ * settlement) debit the employee advance account without a cost center;
+ * the expenses spent from an advance get no BKK record of their own.
+ * Expense records take the mapping of their expense.
+ *
+ * @param record - Whether the record is an advance record, and its stored codes
+ * @param expenseMapping - Mapping of the record's expense, null for advance records
+ * @param advanceAccountCode - Employee advance account
+ */
+export function resolveRecordAccounting(
+  record: { isAdvance: boolean; glAccountCode: string | null; costCenterCode: string | null },
+  expenseMapping: AccountingMapping | null,
+  advanceAccountCode: string | null
+): AccountingMapping {
+  const resolved = record.isAdvance
+    ? { glAccountCode: advanceAccountCode, costCenterCode: null }
+    : expenseMapping
+
+  return {
+    glAccountCode: record.glAccountCode || resolved?.glAccountCode || null,
+    costCenterCode: record.costCenterCode || resolved?.costCenterCode || null,
+  }
+}
+
+/**
+ * Build the journal lines of BKK records
+ *
+ * @param records - Records with their resolved account
+ * @param creditAccountCode - Petty cash account credited
+ * @returns A debit and a credit line per record, in record order
+ */
+export function buildJournalLines(
+  records: Array<{
+    recordNumber: string
+    recordDate: string
+    amount: number
+    description: string
+    glAccountCode: string
+    costCenterCode: string | null
+  }>,
+  creditAccountCode: string
+): JournalLine[] {
+  return records.flatMap((record) => [
+    {
+      entryNumber: record.recordNumber,
+      date: record.recordDate,
+      accountCode: record.glAccountCode,
+      costCenterCode: record.costCenterCode,
+      description: record.description,
+      debit: record.amount,
+      credit: 0,
+    },
+    {
+      entryNumber: record.recordNumber,
+      date: record.recordDate,
+      accountCode: creditAccountCode,
+      costCenterCode: null,
+      description: record.description,
+      debit: 0,
+      credit: record.amount,
+    },
+  ])
+}
+
+/**
+ * Map a cost_centers row to a CostCenter
+ */
+export function toCostCenter(row: {
+  id: string
+  code: string
+  name: string
+  branch_code: string | null
+  customer_name: string | null
+  is_overhead: boolean
+  is_default: boolean
+  is_active: boolean
+}): CostCenter {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    branchCode: row.branch_code,
+    customerName: row.customer_name,
+    isOverhead: row.is_overhead,
+    isDefault: row.is_default,
+    isActive: row.is_active,
+  }
+}
@@ -0,0 +1,4 @@
+/**
+ * Roles that can manage cost centers and export journal batches
+ */
+export const ACCOUNTING_ROLES = ['owner', 'director', 'finance_manager', 'finance']
@@ -0,0 +1,4 @@
+/**
+ * Roles that can issue and settle cash advances (kasbon)
+ */
+export const ADVANCE_MANAGER_ROLES = ['owner', 'director', 'finance_manager', 'finance']
@@ -0,0 +1,74 @@
+/**
+ * Cash advance balance and settlement calculations
+ *
+ * Pure functions shared by the settlement API (server) and the
+ * dashboard balance (client, including offline expenses).
+ */
+
+import type {
+  AdvanceExpense,
+  AdvanceSettlement,
+  CashAdvance,
+  CashAdvanceBalance,
+} from '@/types/cash-advance'
+
+/**
+ * Approval statuses that still block settling an advance
+ */
+const UNRESOLVED_STATUSES = ['draft', 'pending_approval']
+
+/**
+ * Calculate the remaining balance of an advance
+ *
+ * @param advance - The advance with the server-known spent amount
+ * @param unsyncedAmounts - Amounts of allocated expenses not yet on the server
+ * @returns The advance with total spent and remaining balance
+ */
+export function calculateAdvanceBalance(
+  advance: CashAdvance,
+  unsyncedAmounts: number[] = []
+): CashAdvanceBalance {
+  const totalSpent =
+    advance.spentAmount + unsyncedAmounts.reduce((sum, amount) => sum + amount, 0)
+
+  return {
+    ...advance,
+    totalSpent,
+    remaining: advance.amount - totalSpent,
+  }
+}
+
+/**
+ * Calculate the settlement of an advance from its allocated expenses
+ *
+ * Only approved (or paid) expenses count towards spending. Rejected expenses are
+ * ignored; draft or pending expenses are reported as unresolved.
+ *
+ * @param advance - The advance being settled
+ * @param expenses - Expenses allocated to the advance
+ * @returns Settlement summary (refund owed or reimbursement due)
+ */
+export function calculateSettlement(
+  advance: Pick<CashAdvance, 'id' | 'advanceNumber' | 'amount'>,
+  expenses: AdvanceExpense[]
+): AdvanceSettlement {
+  const approved = expenses.filter(
+    (expense) => expense.approvalStatus === 'approved' || expense.approvalStatus === 'paid'
+  )
+  const approvedAmount = approved.reduce((sum, expense) => sum + expense.amount, 0)
+  const difference = advance.amount - approvedAmount
+
+  return {
+    advanceId: advance.id,
+    advanceNumber: advance.advanceNumber,
+    advanceAmount: advance.amount,
+    approvedAmount,
+    approvedCount: approved.length,
+    unresolvedCount: expenses.filter((expense) =>
+      UNRESOLVED_STATUSES.includes(expense.approvalStatus)
+    ).length,
+    rejectedCount: expenses.filter((expense) => expense.approvalStatus === 'rejected').length,
+    outcome: difference > 0 ? 'refund' : difference < 0 ? 'reimbursement' : 'even',
+    settlementAmount: Math.abs(difference),
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Approval chain resolution
+ *
+ * Pure functions for the approval UI. The chain of a submitted expense is
+ * built on the server by `submit_expense_for_approval`.
+ */
+
+import { APPROVAL_POLICY, type ApprovalStepPolicy } from '@/constants/approval-policy'
+import type { ApprovalChainStep } from '@/types/approval'
+
+/**
+ * Resolve the ordered approval steps required for an expense amount
+ *
+ * Same rules as `submit_expense_for_approval`, which builds the chain of a
+ * submitted expense on the server.
+ *
+ * @param amount - Expense amount in IDR
+ * @param policy - Approval policy (defaults to APPROVAL_POLICY)
+ * @returns Steps in order, numbered from 1 (at least one step)
+ */
+export function resolveApprovalChain(
+  amount: number,
+  policy: ApprovalStepPolicy[] = APPROVAL_POLICY
+): ApprovalChainStep[] {
+  const required = policy.filter((step) => amount >= step.minAmount)
+
+  // Always require at least the first step
+  const steps = required.length > 0 ? required : policy.slice(0, 1)
+
+  return steps.map((step, index) => ({
+    stepOrder: index + 1,
+    label: step.label,
+    approverRoles: [...step.roles],
+  }))
+}
+
+/**
+ * Check whether a role may decide an approval step
+ */
+export function canDecideStep(
+  role: string | null | undefined,
+  step: Pick<ApprovalChainStep, 'approverRoles'>
+): boolean {
+  return !!role && step.approverRoles.includes(role)
+}
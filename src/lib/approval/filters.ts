@@ -0,0 +1,117 @@
+/**
+ * Approval queue filters
+ *
+ * The queue is loaded once and narrowed client-side, so approvers can
+ * quickly slice a large queue before acting on it in bulk.
+ */
+
+import type { ApprovalQueueFilters } from '@/types/approval'
+import type { DisplayExpense } from '@/types/expense-filters'
+
+/**
+ * Option of a submitter or job filter, with its number of expenses
+ */
+export interface ApprovalFilterOption {
+  value: string
+  label: string
+  count: number
+}
+
+/**
+ * Keep the expenses matching every set filter
+ */
+export function filterApprovalQueue<T extends DisplayExpense>(
+  expenses: T[],
+  filters: ApprovalQueueFilters
+): T[] {
+  return expenses.filter((expense) => {
+    if (filters.submitterId && expense.submittedBy !== filters.submitterId) {
+      return false
+    }
+
+    if (filters.jobOrderId && expense.jobOrderId !== filters.jobOrderId) {
+      return false
+    }
+
+    if (filters.categories && filters.categories.length > 0) {
+      if (!filters.categories.includes(expense.category)) {
+        return false
+      }
+    }
+
+    if (filters.minAmount !== undefined && expense.amount < filters.minAmount) {
+      return false
+    }
+
+    if (filters.maxAmount !== undefined && expense.amount > filters.maxAmount) {
+      return false
+    }
+
+    if (filters.violationsOnly && !expense.policyViolations?.length) {
+      return false
+    }
+
+    return true
+  })
+}
+
+/**
+ * Count the filters that are set
+ */
+export function countApprovalFilters(filters: ApprovalQueueFilters): number {
+  return [
+    filters.submitterId,
+    filters.jobOrderId,
+    filters.categories && filters.categories.length > 0,
+    filters.minAmount !== undefined || filters.maxAmount !== undefined,
+    filters.violationsOnly,
+  ].filter(Boolean).length
+}
+
+/**
+ * Submitters in the queue, by name
+ */
+export function getSubmitterOptions(
+  expenses: (DisplayExpense & { submitterName?: string; submitterEmail?: string })[]
+): ApprovalFilterOption[] {
+  const options = new Map<string, ApprovalFilterOption>()
+
+  for (const expense of expenses) {
+    if (!expense.submittedBy) continue
+    const option = options.get(expense.submittedBy)
+    if (option) {
+      option.count += 1
+    } else {
+      options.set(expense.submittedBy, {
+        value: expense.submittedBy,
+        label: expense.submitterName || expense.submitterEmail || 'Unknown',
+        count: 1,
+      })
+    }
+  }
+
+  return [...options.values()].sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/**
+ * Job orders in the queue, by job number
+ */
+export function getJobOrderOptions(expenses: DisplayExpense[]): ApprovalFilterOption[] {
+  const options = new Map<string, ApprovalFilterOption>()
+
+  for (const expense of expenses) {
+    if (!expense.jobOrder) continue
+    const option = options.get(expense.jobOrder.id)
+    if (option) {
+      option.count += 1
+    } else {
+      options.set(expense.jobOrder.id, {
+        value: expense.jobOrder.id,
+        label: `${expense.jobOrder.job_number} · ${expense.jobOrder.customer_name}`,
+        count: 1,
+      })
+    }
+  }
+
+  return [...options.values()].sort((a, b) => a.label.localeCompare(b.label))
+}
@@ -0,0 +1,50 @@
+/**
+ * Approval queue queries (client)
+ *
+ * Expenses awaiting approval are filtered to those whose current step
+ * can be decided by the signed-in user's role.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+
+type BrowserClient = ReturnType<typeof createClient>
+
+/**
+ * Get the role of the signed-in user
+ *
+ * @returns The role, or null when signed out or without a profile
+ */
+export async function getCurrentUserRole(supabase: BrowserClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return null
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  return profile?.role ?? null
+}
+
+/**
+ * Count expenses whose current approval step awaits the given role
+ */
+export async function countAwaitingApproval(
+  supabase: BrowserClient,
+  role: string
+): Promise<number> {
+  const { count, error } = await supabase
+    .from('expense_approval_steps')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending')
+    .contains('approver_roles', [role])
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return count ?? 0
+}
@@ -0,0 +1,99 @@
+import { DEFAULT_EXPENSE_CATEGORIES } from '@/constants/expense-categories'
+import type { ExpenseCategory, ExpenseCategoryConfig } from '@/types/expense-category'
+
+/**
+ * Expense Category Registry
+ *
+ * Pure helpers over the list of categories, whether cached, fetched or
+ * the built-in defaults.
+ */
+
+/** Format of new category codes: lowercase words joined by underscores */
+export const CATEGORY_CODE_PATTERN = /^[a-z][a-z0-9_]{1,39}$/
+
+/**
+ * Map an expense_categories row to an ExpenseCategoryConfig
+ */
+export function toExpenseCategoryConfig(row: {
+  code: string
+  label: string
+  label_full: string | null
+  icon: string
+  color: string
+  gl_account_code: string | null
+  overhead_gl_account_code: string | null
+  is_active: boolean
+  sort_order: number
+}): ExpenseCategoryConfig {
+  return {
+    code: row.code,
+    label: row.label,
+    labelFull: row.label_full || row.label,
+    icon: row.icon,
+    color: row.color,
+    glAccountCode: row.gl_account_code,
+    overheadGlAccountCode: row.overhead_gl_account_code,
+    isActive: row.is_active,
+    sortOrder: row.sort_order,
+  }
+}
+
+/**
+ * Sort categories for display (sort order, then label)
+ */
+export function sortCategories(categories: ExpenseCategoryConfig[]): ExpenseCategoryConfig[] {
+  return [...categories].sort(
+    (a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label, 'id')
+  )
+}
+
+/**
+ * Find a category by code
+ *
+ * Unknown codes (e.g. a category created after the cache was filled) fall
+ * back to a built-in category or a plain entry labelled with the code, so
+ * expenses always render.
+ */
+export function resolveCategory(
+  code: ExpenseCategory,
+  categories: ExpenseCategoryConfig[]
+): ExpenseCategoryConfig {
+  return (
+    categories.find((category) => category.code === code) ??
+    DEFAULT_EXPENSE_CATEGORIES.find((category) => category.code === code) ?? {
+      code,
+      label: code,
+      labelFull: code,
+      icon: 'MoreHorizontal',
+      color: 'gray',
+      glAccountCode: null,
+      overheadGlAccountCode: null,
+      isActive: false,
+      sortOrder: Number.MAX_SAFE_INTEGER,
+    }
+  )
+}
+
+/**
+ * Categories that can be picked for an expense
+ *
+ * Active categories, plus the expense's current category when it was
+ * deactivated, so editing an older expense keeps its category.
+ *
+ * @param categories - All categories
+ * @param currentCode - Category of the expense being edited
+ */
+export function getSelectableCategories(
+  categories: ExpenseCategoryConfig[],
+  currentCode?: ExpenseCategory | null
+): ExpenseCategoryConfig[] {
+  const selectable = categories.filter(
+    (category) => category.isActive || category.code === currentCode
+  )
+
+  if (currentCode && !selectable.some((category) => category.code === currentCode)) {
+    selectable.push(resolveCategory(currentCode, categories))
+  }
+
+  return sortCategories(selectable)
+}
@@ -0,0 +1,6 @@
+/**
+ * Roles that can manage expense categories
+ *
+ * Finance owns the chart of accounts the categories map to.
+ */
+export const CATEGORY_MANAGER_ROLES = ['owner', 'director', 'finance_manager', 'finance']
@@ -0,0 +1,142 @@
+/**
+ * Cash Advance Cache Functions
+ *
+ * Caches the current user's open cash advances (kasbon) in IndexedDB so
+ * expenses can be allocated to them and balances shown while offline.
+ */
+
+import { db, type CachedAdvance } from './index'
+import { calculateAdvanceBalance } from '@/lib/advances/settlement'
+import { createClient } from '@/lib/supabase/client'
+import type { CashAdvance, CashAdvanceBalance } from '@/types/cash-advance'
+
+/**
+ * Convert a cached advance to the shared CashAdvance shape
+ */
+function cachedToAdvance(cached: CachedAdvance): CashAdvance {
+  return {
+    id: cached.id,
+    advanceNumber: cached.advanceNumber,
+    userId: cached.userId,
+    jobOrderId: cached.jobOrderId,
+    jobNumber: cached.jobNumber,
+    amount: cached.amount,
+    purpose: cached.purpose,
+    status: 'open', // Only open advances are cached
+    issuedAt: cached.issuedAt,
+    spentAmount: cached.spentAmount,
+  }
+}
+
+/**
+ * Refresh the cache with the current user's open advances
+ *
+ * Fetches open advances with the total of their non-rejected expenses and
+ * replaces the user's cached advances (settled ones are dropped).
+ *
+ * @throws Error if the Supabase queries fail
+ */
+export async function refreshAdvanceCache(): Promise<void> {
+  const supabase = createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError) {
+    throw new Error(userError.message)
+  }
+  if (!user) {
+    return
+  }
+
+  const { data: advances, error: advancesError } = await supabase
+    .from('cash_advances')
+    .select('id, advance_number, user_id, job_order_id, amount, purpose, issued_at, job_order:job_orders(job_number)')
+    .eq('user_id', user.id)
+    .eq('status', 'open')
+    .order('issued_at', { ascending: false })
+
+  if (advancesError) {
+    throw new Error(advancesError.message)
+  }
+
+  // Total allocated expenses per advance
+  const spentByAdvance = new Map<string, number>()
+  const advanceIds = (advances ?? []).map((advance) => advance.id)
+
+  if (advanceIds.length > 0) {
+    const { data: expenses, error: expensesError } = await supabase
+      .from('expense_drafts')
+      .select('advance_id, amount')
+      .in('advance_id', advanceIds)
+      .neq('approval_status', 'rejected')
+
+    if (expensesError) {
+      throw new Error(expensesError.message)
+    }
+
+    for (const expense of expenses ?? []) {
+      spentByAdvance.set(
+        expense.advance_id,
+        (spentByAdvance.get(expense.advance_id) ?? 0) + Number(expense.amount)
+      )
+    }
+  }
+
+  const cachedAt = new Date().toISOString()
+  const cached: CachedAdvance[] = (advances ?? []).map((advance) => {
+    const jobOrder = Array.isArray(advance.job_order) ? advance.job_order[0] : advance.job_order
+    return {
+      id: advance.id,
+      advanceNumber: advance.advance_number,
+      userId: advance.user_id,
+      jobOrderId: advance.job_order_id ?? undefined,
+      jobNumber: jobOrder?.job_number ?? undefined,
+      amount: Number(advance.amount),
+      purpose: advance.purpose ?? undefined,
+      issuedAt: advance.issued_at,
+      spentAmount: spentByAdvance.get(advance.id) ?? 0,
+      cachedAt,
+    }
+  })
+
+  await db.transaction('rw', db.advances, async () => {
+    await db.advances.where('userId').equals(user.id).delete()
+    await db.advances.bulkPut(cached)
+  })
+}
+
+/**
+ * Get the signed-in user's cached open advances with their remaining balance
+ *
+ * The user is read from the stored session, which is available offline;
+ * advances cached for other users of the device are never returned.
+ * Expenses captured offline (not yet on the server) are added to the
+ * cached spent amount so the balance is current while offline.
+ *
+ * @returns Open advances, newest first
+ */
+export async function getAdvanceBalances(): Promise<CashAdvanceBalance[]> {
+  const supabase = createClient()
+  const { data: { session } } = await supabase.auth.getSession()
+  const userId = session?.user.id
+  if (!userId) {
+    return []
+  }
+
+  const [advances, expenses] = await Promise.all([
+    db.advances.where('userId').equals(userId).toArray(),
+    db.expenses.toArray(),
+  ])
+
+  return advances
+    .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt))
+    .map((advance) => {
+      const unsyncedAmounts = expenses
+        .filter(
+          (expense) =>
+            expense.advanceId === advance.id && !expense.serverId && !expense.deletedAt
+        )
+        .map((expense) => expense.amount)
+
+      return calculateAdvanceBalance(cachedToAdvance(advance), unsyncedAmounts)
+    })
+}
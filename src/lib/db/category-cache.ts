@@ -0,0 +1,49 @@
+/**
+ * Expense Category Cache Functions
+ *
+ * Caches the expense categories in IndexedDB so the capture form and
+ * history can show them while offline. Inactive categories are cached
+ * too, for the labels of older expenses.
+ */
+
+import { db, type CachedCategory } from './index'
+import { sortCategories, toExpenseCategoryConfig } from '@/lib/categories/registry'
+import { createClient } from '@/lib/supabase/client'
+import type { ExpenseCategoryConfig } from '@/types/expense-category'
+
+/**
+ * Refresh the cache with all expense categories
+ *
+ * @throws Error if the Supabase query fails
+ */
+export async function refreshCategoryCache(): Promise<void> {
+  const supabase = createClient()
+
+  const { data: rows, error } = await supabase
+    .from('expense_categories')
+    .select('code, label, label_full, icon, color, gl_account_code, overhead_gl_account_code, is_active, sort_order')
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const cachedAt = new Date().toISOString()
+  const cached: CachedCategory[] = (rows ?? []).map((row) => ({
+    ...toExpenseCategoryConfig(row),
+    cachedAt,
+  }))
+
+  await db.transaction('rw', db.categories, async () => {
+    await db.categories.clear()
+    await db.categories.bulkPut(cached)
+  })
+}
+
+/**
+ * Get the cached categories in display order
+ *
+ * @returns Categories, empty when the cache was never filled
+ */
+export async function getCachedCategories(): Promise<ExpenseCategoryConfig[]> {
+  return sortCategories(await db.categories.toArray())
+}
@@ -0,0 +1,252 @@
+/**
+ * Merging server changes into local expenses
+ *
+ * Field-level policy used by the sync pull phase:
+ * - Approval fields (status, rejection reason, BKK number, timestamps) are
+ *   owned by the server and always overwrite the local copy
+ * - User fields are merged three-way against the last synced server state;
+ *   when both sides changed a field, the later `updatedAt` wins
+ * - Local changes the server no longer accepts (expense submitted or approved
+ *   in the meantime) are kept and flagged as an unresolved conflict
+ */
+
+import {
+  EDITABLE_APPROVAL_STATUSES,
+  EXPENSE_USER_FIELDS,
+  type ExpenseConflict,
+  type ExpenseUserField,
+  type ExpenseUserFields,
+  type LocalExpense,
+} from './index'
+import { parseLineItems } from '@/lib/ocr/itemization'
+import { parseReceiptMetadata } from '@/lib/ocr/receipt-types'
+import type { ExpenseCategory } from '@/lib/schemas/expense'
+import type { ApprovalStatus } from '@/types/expense-filters'
+import type { ExpenseDraft } from '@/types/supabase'
+
+/**
+ * Result of merging a server row into a local expense
+ */
+export interface MergeResult {
+  /** The merged local record */
+  expense: LocalExpense
+  /** Whether local changes are still waiting to be pushed */
+  hasLocalChanges: boolean
+}
+
+/**
+ * Pick the user-owned fields from a local expense
+ */
+export function pickUserFields(expense: ExpenseUserFields): ExpenseUserFields {
+  return {
+    amount: expense.amount,
+    category: expense.category,
+    description: expense.description,
+    vendorName: expense.vendorName,
+    vendorId: expense.vendorId,
+    jobOrderId: expense.jobOrderId,
+    advanceId: expense.advanceId,
+    isOverhead: expense.isOverhead,
+    expenseDate: expense.expenseDate,
+    expenseTime: expense.expenseTime,
+    locationExplanation: expense.locationExplanation,
+    lineItems: expense.lineItems,
+    taxAmount: expense.taxAmount,
+    serviceCharge: expense.serviceCharge,
+    receiptMetadata: expense.receiptMetadata,
+  }
+}
+
+/**
+ * Map the user-owned fields of a server row to their local shape
+ */
+function toUserFields(row: ExpenseDraft): ExpenseUserFields {
+  return {
+    amount: Number(row.amount),
+    category: row.category as ExpenseCategory,
+    description: row.description ?? undefined,
+    vendorName: row.vendor_name ?? undefined,
+    vendorId: row.vendor_id ?? undefined,
+    jobOrderId: row.job_order_id ?? undefined,
+    advanceId: row.advance_id ?? undefined,
+    isOverhead: row.is_overhead,
+    expenseDate: row.expense_date,
+    expenseTime: row.expense_time ?? undefined,
+    locationExplanation: row.location_explanation ?? undefined,
+    lineItems: parseLineItems(row.line_items),
+    taxAmount: row.tax_amount != null ? Number(row.tax_amount) : undefined,
+    serviceCharge: row.service_charge != null ? Number(row.service_charge) : undefined,
+    receiptMetadata: parseReceiptMetadata(row.receipt_metadata),
+  }
+}
+
+/**
+ * Map the server-owned approval fields of a server row
+ */
+function toApprovalFields(
+  row: ExpenseDraft
+): Pick<
+  LocalExpense,
+  'approvalStatus' | 'rejectionReason' | 'bkkNumber' | 'submittedAt' | 'approvedAt'
+> {
+  return {
+    approvalStatus: row.approval_status as ApprovalStatus,
+    rejectionReason: row.rejection_reason ?? undefined,
+    bkkNumber: row.bkk_number ?? undefined,
+    submittedAt: row.submitted_at ?? undefined,
+    approvedAt: row.approved_at ?? undefined,
+  }
+}
+
+/**
+ * Compare two values of a user field, ignoring representation differences
+ * (Postgres TIME columns come back with seconds, line items and receipt
+ * details are compared by content with no items meaning an empty list)
+ */
+function isSameValue(field: ExpenseUserField, a: unknown, b: unknown): boolean {
+  if (field === 'expenseTime' && typeof a === 'string' && typeof b === 'string') {
+    return a.slice(0, 5) === b.slice(0, 5)
+  }
+  if (field === 'lineItems') {
+    return JSON.stringify(a ?? []) === JSON.stringify(b ?? [])
+  }
+  if (field === 'receiptMetadata') {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+  }
+  return (a ?? null) === (b ?? null)
+}
+
+/**
+ * Copy a single user field between records
+ */
+function copyField<K extends ExpenseUserField>(
+  target: ExpenseUserFields,
+  source: ExpenseUserFields,
+  field: K
+): void {
+  target[field] = source[field]
+}
+
+/**
+ * Build a synced local expense from a server row
+ *
+ * Used for expenses that exist on the server but not on this device.
+ *
+ * @param row - The expense_drafts row
+ * @returns A LocalExpense marked as synced
+ */
+export function serverRowToLocalExpense(row: ExpenseDraft): LocalExpense {
+  const userFields = toUserFields(row)
+
+  return {
+    id: row.local_id ?? crypto.randomUUID(),
+    serverId: row.id,
+    ...userFields,
+    gpsLatitude: row.gps_latitude ?? undefined,
+    gpsLongitude: row.gps_longitude ?? undefined,
+    gpsAccuracy: row.gps_accuracy ?? undefined,
+    ...toApprovalFields(row),
+    serverSnapshot: userFields,
+    serverUpdatedAt: row.updated_at,
+    syncStatus: 'synced',
+    syncAttempts: 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Merge a server row into its local expense
+ *
+ * This function:
+ * 1. Copies the approval fields from the server
+ * 2. Takes all user fields from the server if nothing is waiting to be pushed
+ * 3. Otherwise merges each user field against the last synced snapshot:
+ *    - changed only on the server: server value
+ *    - changed only locally: local value
+ *    - changed on both sides: the side with the later `updatedAt`
+ * 4. Flags a conflict when local changes remain but the server status
+ *    no longer allows them (e.g. the expense was submitted meanwhile)
+ *
+ * @param local - The local expense
+ * @param row - The changed expense_drafts row
+ * @returns The merged expense and whether it still has changes to push
+ */
+export function mergeServerExpense(local: LocalExpense, row: ExpenseDraft): MergeResult {
+  const server = toUserFields(row)
+  const approval = toApprovalFields(row)
+
+  const merged: LocalExpense = {
+    ...local,
+    ...approval,
+    serverId: row.id,
+    serverSnapshot: server,
+    serverUpdatedAt: row.updated_at,
+  }
+
+  // 2. Nothing pending locally - the server copy is authoritative
+  const hasPending = local.syncStatus !== 'synced' || !!local.deletedAt
+  if (!hasPending) {
+    return {
+      expense: { ...merged, ...server, conflict: undefined, syncError: undefined },
+      hasLocalChanges: false,
+    }
+  }
+
+  // 3. Field-level merge against the last synced state
+  const base = local.serverSnapshot
+  const serverIsNewer = new Date(row.updated_at).getTime() > new Date(local.updatedAt).getTime()
+
+  for (const field of EXPENSE_USER_FIELDS) {
+    const changedLocally = !base || !isSameValue(field, local[field], base[field])
+    const changedOnServer = !base || !isSameValue(field, server[field], base[field])
+
+    if (changedOnServer && (!changedLocally || serverIsNewer)) {
+      copyField(merged, server, field)
+    }
+  }
+
+  const unpushedFields = EXPENSE_USER_FIELDS.filter(
+    (field) => !isSameValue(field, merged[field], server[field])
+  )
+  const hasLocalChanges = unpushedFields.length > 0 || !!local.deletedAt
+
+  if (!hasLocalChanges) {
+    return {
+      expense: { ...merged, conflict: undefined, syncStatus: 'synced', syncError: undefined },
+      hasLocalChanges: false,
+    }
+  }
+
+  // 4. Local changes the server can no longer take
+  const serverApprovalStatus = approval.approvalStatus ?? 'draft'
+  if (!EDITABLE_APPROVAL_STATUSES.includes(serverApprovalStatus)) {
+    const conflict: ExpenseConflict = {
+      fields: unpushedFields,
+      deleted: !!local.deletedAt,
+      serverApprovalStatus,
+      detectedAt: local.conflict?.detectedAt ?? new Date().toISOString(),
+    }
+
+    return {
+      expense: {
+        ...merged,
+        conflict,
+        syncStatus: 'failed',
+        syncError: `Conflict: expense is ${serverApprovalStatus} on the server`,
+      },
+      hasLocalChanges: true,
+    }
+  }
+
+  return {
+    expense: {
+      ...merged,
+      conflict: undefined,
+      // A previous conflict is cleared once the server accepts changes again
+      syncStatus: local.conflict ? 'pending' : local.syncStatus,
+      syncError: local.conflict ? undefined : local.syncError,
+    },
+    hasLocalChanges: true,
+  }
+}
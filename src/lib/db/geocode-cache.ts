@@ -0,0 +1,78 @@
+/**
+ * Geocode Cache Functions
+ *
+ * Caches geocoding results in IndexedDB so network providers are asked
+ * once per location text and resolved locations stay available offline.
+ * Misses are cached for a shorter time so a newly added place is found.
+ */
+
+import { db, type CachedGeocode } from './index'
+import type { GeocodeResult } from '@/types/geocoding'
+
+/** Lifetime of a resolved location (30 days) */
+const GEOCODE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Lifetime of a cached miss (1 day) */
+const GEOCODE_MISS_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Get a cached geocoding result
+ *
+ * @param query - Normalized location text
+ * @returns The cached result (null for a cached miss), or undefined when
+ *   nothing fresh is cached
+ */
+export async function getCachedGeocode(
+  query: string
+): Promise<GeocodeResult | null | undefined> {
+  const cached = await db.geocodes.get(query)
+  if (!cached) return undefined
+
+  const age = Date.now() - new Date(cached.cachedAt).getTime()
+  if (age > (cached.found ? GEOCODE_TTL_MS : GEOCODE_MISS_TTL_MS)) {
+    return undefined
+  }
+
+  if (!cached.found || cached.latitude === undefined || cached.longitude === undefined) {
+    return null
+  }
+
+  return {
+    coordinates: { latitude: cached.latitude, longitude: cached.longitude },
+    name: cached.name ?? query,
+    kind: cached.kind ?? 'city',
+    provider: cached.provider ?? 'cache',
+    confidence: cached.confidence ?? 0,
+  }
+}
+
+/**
+ * Cache a geocoding result
+ *
+ * @param query - Normalized location text
+ * @param result - Resolved location, or null to cache a miss
+ */
+export async function cacheGeocode(query: string, result: GeocodeResult | null): Promise<void> {
+  const cached: CachedGeocode = result
+    ? {
+        query,
+        latitude: result.coordinates.latitude,
+        longitude: result.coordinates.longitude,
+        name: result.name,
+        kind: result.kind,
+        provider: result.provider,
+        confidence: result.confidence,
+        found: true,
+        cachedAt: new Date().toISOString(),
+      }
+    : { query, found: false, cachedAt: new Date().toISOString() }
+
+  await db.geocodes.put(cached)
+}
+
+/**
+ * Clear all cached geocoding results
+ */
+export async function clearGeocodeCache(): Promise<void> {
+  await db.geocodes.clear()
+}
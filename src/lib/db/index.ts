@@ -1,10 +1,52 @@
 import Dexie, { type Table } from 'dexie'
 
-import type { ExpenseCategory } from '@/lib/schemas/expense'
+import type { ExpenseCategory, ExpenseCategoryConfig } from '@/types/expense-category'
+import type { ApprovalStatus } from '@/types/expense-filters'
+import type { PlaceKind } from '@/types/geocoding'
+import type { ReceiptLineItem, ReceiptMetadata } from '@/types/ocr'
+import type { ExpensePolicy } from '@/types/expense-policy'
+import type { SearchFieldTokens } from '@/types/search'
 
 // Sync status type used across local records
 export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'failed'
 
+// Operation a sync queue item applies to the server record
+export type SyncOperation = 'create' | 'update' | 'delete'
+
+// Approval statuses in which a synced expense may still be edited or deleted
+export const EDITABLE_APPROVAL_STATUSES: ApprovalStatus[] = ['draft', 'rejected']
+
+// Expense fields owned by the submitter (merged last-writer-wins on pull)
+export const EXPENSE_USER_FIELDS = [
+  'amount',
+  'category',
+  'description',
+  'vendorName',
+  'vendorId',
+  'jobOrderId',
+  'advanceId',
+  'isOverhead',
+  'expenseDate',
+  'expenseTime',
+  'locationExplanation',
+  'lineItems',
+  'taxAmount',
+  'serviceCharge',
+  'receiptMetadata',
+] as const
+
+export type ExpenseUserField = (typeof EXPENSE_USER_FIELDS)[number]
+
+export type ExpenseUserFields = Pick<LocalExpense, ExpenseUserField>
+
+// Local changes that could not be merged because the server locked the expense
+export interface ExpenseConflict {
+  fields: ExpenseUserField[] // Locally changed fields the server no longer accepts
+  deleted: boolean // A local delete is waiting
+  serverApprovalStatus: ApprovalStatus
+  detectedAt: string
+}
+
 // Local expense record stored in IndexedDB
 export interface LocalExpense {
   id: string // Client-generated UUID
@@ -17,6 +59,7 @@ export interface LocalExpense {
   vendorName?: string
   vendorId?: string
   jobOrderId?: string
+  advanceId?: string // Cash advance (kasbon) the expense is paid from
   isOverhead: boolean
   expenseDate: string // ISO date string
   expenseTime?: string
@@ -30,6 +73,24 @@ export interface LocalExpense {
   // Receipt reference
   receiptLocalId?: string
 
+  // Receipt itemization (reviewed in the capture form)
+  lineItems?: ReceiptLineItem[]
+  taxAmount?: number // PPN
+  serviceCharge?: number
+  receiptMetadata?: ReceiptMetadata // Details of the detected receipt type
+
+  // Approval fields pulled from the server (decides whether a synced expense can change)
+  approvalStatus?: ApprovalStatus
+  rejectionReason?: string
+  bkkNumber?: string
+  submittedAt?: string
+  approvedAt?: string
+
+  // Server state at the last sync, used to merge changes made on both sides
+  serverSnapshot?: ExpenseUserFields
+  serverUpdatedAt?: string
+  conflict?: ExpenseConflict
+
   // Sync status
   syncStatus: SyncStatus
   syncError?: string
@@ -39,6 +100,7 @@ export interface LocalExpense {
   // Metadata
   createdAt: string
   updatedAt: string
+  deletedAt?: string // Set while a server delete is waiting to sync
 }
 
 // Local receipt record stored in IndexedDB
@@ -53,6 +115,7 @@ export interface LocalReceipt {
   mimeType: string
   imageWidth: number
   imageHeight: number
+  perceptualHash?: string // dHash of the compressed image for duplicate detection
 
   // OCR data (if processed)
   ocrRawText?: string
@@ -74,6 +137,7 @@ export interface LocalReceipt {
 export interface SyncQueueItem {
   id: string
   type: 'expense' | 'receipt'
+  operation: SyncOperation
   localId: string
   priority: number // Higher = more urgent
   status: 'pending' | 'syncing' | 'completed' | 'failed'
@@ -83,6 +147,65 @@ export interface SyncQueueItem {
   error?: string
 }
 
+// Cached open cash advances of the current user for offline allocation
+export interface CachedAdvance {
+  id: string
+  advanceNumber: string
+  userId: string
+  jobOrderId?: string
+  jobNumber?: string
+  amount: number
+  purpose?: string
+  issuedAt: string
+  spentAmount: number // Non-rejected allocated expenses on the server at cache time
+  cachedAt: string
+}
+
+// Key-value sync bookkeeping (e.g. per-user pull cursors)
+export interface SyncState {
+  key: string
+  value: string
+  updatedAt: string
+}
+
+// Cached geocoding result for a normalized location text
+export interface CachedGeocode {
+  query: string // Normalized location text
+  latitude?: number
+  longitude?: number
+  name?: string
+  kind?: PlaceKind
+  provider?: string
+  confidence?: number
+  found: boolean // False caches a miss so providers are not asked again
+  cachedAt: string
+}
+
+// Cached spending rule resolved for the current user's role
+export interface CachedPolicy extends ExpensePolicy {
+  cachedAt: string
+}
+
+// Cached expense category (active and inactive, for labels of older expenses)
+export interface CachedCategory extends ExpenseCategoryConfig {
+  cachedAt: string
+}
+
+// Search index entry of a local expense
+export interface SearchIndexEntry {
+  expenseId: string
+  /** All tokens of the expense, for the multi-entry index */
+  tokens: string[]
+  /** Tokens by field, for ranking */
+  fieldTokens: SearchFieldTokens
+  /** Raw receipt OCR text, for result snippets */
+  ocrText?: string
+  /** Expense updatedAt when indexed */
+  sourceUpdatedAt: string
+  /** Job number and customer name of the cached job order when indexed */
+  sourceJobOrder?: string
+}
+
 // Cached job orders for offline selection
 export interface CachedJobOrder {
   id: string
@@ -94,6 +217,8 @@ export interface CachedJobOrder {
   originLng?: number
   destLat?: number
   destLng?: number
+  /** Route corridor points between origin and destination */
+  routeWaypoints?: { latitude: number; longitude: number }[]
   cachedAt: string
 }
 
@@ -105,12 +230,24 @@ export interface CachedJobOrder {
  * - receipts: Local receipt images with OCR data
  * - syncQueue: Queue of pending sync operations
  * - jobOrders: Cached job orders for offline selection
+ * - syncState: Sync bookkeeping such as pull cursors
+ * - advances: Cached open cash advances for offline allocation
+ * - geocodes: Cached coordinates of free-text job locations
+ * - policies: Cached spending rules for offline policy checks
+ * - categories: Cached expense categories managed by finance
+ * - searchIndex: Search tokens of local expenses for offline search
  */
 export class MoneyRecorderDB extends Dexie {
   expenses!: Table<LocalExpense>
   receipts!: Table<LocalReceipt>
   syncQueue!: Table<SyncQueueItem>
   jobOrders!: Table<CachedJobOrder>
+  syncState!: Table<SyncState>
+  advances!: Table<CachedAdvance>
+  geocodes!: Table<CachedGeocode>
+  policies!: Table<CachedPolicy>
+  categories!: Table<CachedCategory>
+  searchIndex!: Table<SearchIndexEntry>
 
   constructor() {
     super('gama-money-recorder')
@@ -122,6 +259,92 @@ export class MoneyRecorderDB extends Dexie {
       syncQueue: 'id, type, localId, status, priority, createdAt',
       jobOrders: 'id, jobNumber, cachedAt',
     })
+
+    // v2: queue items carry an operation (create/update/delete)
+    this.version(2)
+      .stores({
+        expenses: 'id, serverId, syncStatus, createdAt, jobOrderId',
+        receipts: 'id, serverId, syncStatus, createdAt',
+        syncQueue: 'id, type, localId, status, priority, createdAt',
+        jobOrders: 'id, jobNumber, cachedAt',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('syncQueue')
+          .toCollection()
+          .modify((item: SyncQueueItem) => {
+            item.operation = item.operation ?? 'create'
+          })
+      )
+
+    // v3: sync bookkeeping for the server-to-client pull
+    this.version(3).stores({
+      expenses: 'id, serverId, syncStatus, createdAt, jobOrderId',
+      receipts: 'id, serverId, syncStatus, createdAt',
+      syncQueue: 'id, type, localId, status, priority, createdAt',
+      jobOrders: 'id, jobNumber, cachedAt',
+      syncState: 'key',
+    })
+
+    // v4: cached cash advances
+    this.version(4).stores({
+      expenses: 'id, serverId, syncStatus, createdAt, jobOrderId',
+      receipts: 'id, serverId, syncStatus, createdAt',
+      syncQueue: 'id, type, localId, status, priority, createdAt',
+      jobOrders: 'id, jobNumber, cachedAt',
+      syncState: 'key',
+      advances: 'id, userId, cachedAt',
+    })
+
+    // v5: geocoded job locations
+    this.version(5).stores({
+      expenses: 'id, serverId, syncStatus, createdAt, jobOrderId',
+      receipts: 'id, serverId, syncStatus, createdAt',
+      syncQueue: 'id, type, localId, status, priority, createdAt',
+      jobOrders: 'id, jobNumber, cachedAt',
+      syncState: 'key',
+      advances: 'id, userId, cachedAt',
+      geocodes: 'query, cachedAt',
+    })
+
+    // v6: cached spending policies
+    this.version(6).stores({
+      expenses: 'id, serverId, syncStatus, createdAt, jobOrderId',
+      receipts: 'id, serverId, syncStatus, createdAt',
+      syncQueue: 'id, type, localId, status, priority, createdAt',
+      jobOrders: 'id, jobNumber, cachedAt',
+      syncState: 'key',
+      advances: 'id, userId, cachedAt',
+      geocodes: 'query, cachedAt',
+      policies: 'id, category',
+    })
+
+    // v7: cached expense categories
+    this.version(7).stores({
+      expenses: 'id, serverId, syncStatus, createdAt, jobOrderId',
+      receipts: 'id, serverId, syncStatus, createdAt',
+      syncQueue: 'id, type, localId, status, priority, createdAt',
+      jobOrders: 'id, jobNumber, cachedAt',
+      syncState: 'key',
+      advances: 'id, userId, cachedAt',
+      geocodes: 'query, cachedAt',
+      policies: 'id, category',
+      categories: 'code',
+    })
+
+    // v8: offline search index (built on first search)
+    this.version(8).stores({
+      expenses: 'id, serverId, syncStatus, createdAt, jobOrderId',
+      receipts: 'id, serverId, syncStatus, createdAt',
+      syncQueue: 'id, type, localId, status, priority, createdAt',
+      jobOrders: 'id, jobNumber, cachedAt',
+      syncState: 'key',
+      advances: 'id, userId, cachedAt',
+      geocodes: 'query, cachedAt',
+      policies: 'id, category',
+      categories: 'code',
+      searchIndex: 'expenseId, *tokens',
+    })
   }
 }
 
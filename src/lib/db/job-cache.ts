@@ -7,6 +7,7 @@
 
 import { db, type CachedJobOrder } from './index'
 import { createClient } from '@/lib/supabase/client'
+import { parseJobGeofence, type JobOrderLocationColumns } from '@/lib/location/geofence'
 import type { JobOrder } from '@/types/supabase'
 
 /**
@@ -14,19 +15,31 @@ import type { JobOrder } from '@/types/supabase'
  *
  * Saves job orders with a cachedAt timestamp for tracking freshness.
  * Uses bulkPut to upsert records (update if exists, insert if new).
+ * Geofence coordinates are cached too so capture-time location checks
+ * work offline.
  *
  * @param jobs - Array of job orders from Supabase
  */
-export async function cacheJobOrders(jobs: JobOrder[]): Promise<void> {
-  const cached: CachedJobOrder[] = jobs.map((job) => ({
-    id: job.id,
-    jobNumber: job.job_number,
-    customerName: job.customer_name,
-    origin: job.origin,
-    destination: job.destination,
-    // Note: GPS coordinates would be added here if available in job_orders table
-    cachedAt: new Date().toISOString(),
-  }))
+export async function cacheJobOrders(
+  jobs: (JobOrder & JobOrderLocationColumns)[]
+): Promise<void> {
+  const cached: CachedJobOrder[] = jobs.map((job) => {
+    const { originCoords, destinationCoords, waypoints } = parseJobGeofence(job)
+
+    return {
+      id: job.id,
+      jobNumber: job.job_number,
+      customerName: job.customer_name,
+      origin: job.origin,
+      destination: job.destination,
+      originLat: originCoords?.latitude,
+      originLng: originCoords?.longitude,
+      destLat: destinationCoords?.latitude,
+      destLng: destinationCoords?.longitude,
+      routeWaypoints: waypoints.length > 0 ? waypoints : undefined,
+      cachedAt: new Date().toISOString(),
+    }
+  })
 
   await db.jobOrders.bulkPut(cached)
 }
@@ -5,12 +5,28 @@
  * All operations are designed to work offline-first.
  */
 
-import { db, type LocalExpense, type LocalReceipt, type SyncQueueItem, type SyncStatus } from './index'
+import {
+  db,
+  EDITABLE_APPROVAL_STATUSES,
+  type LocalExpense,
+  type LocalReceipt,
+  type SyncOperation,
+  type SyncQueueItem,
+  type SyncStatus,
+} from './index'
+import { serverRowToLocalExpense } from './conflict-resolution'
 import { syncManager } from './sync-manager'
 
 import { compressImage } from '@/lib/image/compression'
+import { computePerceptualHash } from '@/lib/image/perceptual-hash'
+import { createClient } from '@/lib/supabase/client'
 import type { ExpenseCategory } from '@/lib/schemas/expense'
-import type { OCRResult } from '@/types/ocr'
+import type { ApprovalStatus } from '@/types/expense-filters'
+import type { ExpenseDraft } from '@/types/supabase'
+import type { OCRResult, ReceiptLineItem, ReceiptMetadata } from '@/types/ocr'
+
+/** Format of local (crypto.randomUUID) and server expense IDs */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
 /**
  * Input data for creating a local expense
@@ -23,6 +39,7 @@ export interface ExpenseFormDataInput {
   vendorName?: string
   vendorId?: string | null
   jobOrderId?: string | null
+  advanceId?: string | null
   isOverhead?: boolean
   expenseDate: Date | string
   expenseTime?: string
@@ -30,6 +47,23 @@ export interface ExpenseFormDataInput {
   gpsLongitude?: number | null
   gpsAccuracy?: number | null
   locationExplanation?: string
+  lineItems?: ReceiptLineItem[]
+  taxAmount?: number
+  serviceCharge?: number
+  receiptMetadata?: ReceiptMetadata
+}
+
+/**
+ * Converts a form date (Date or ISO string) to a YYYY-MM-DD string
+ */
+function toExpenseDateString(value: Date | string): string {
+  if (value instanceof Date) {
+    return value.toISOString().split('T')[0]
+  }
+  if (typeof value === 'string') {
+    return value.split('T')[0]
+  }
+  return new Date().toISOString().split('T')[0]
 }
 
 /**
@@ -64,14 +98,7 @@ export async function saveExpenseLocally(
   receiptLocalId?: string
 ): Promise<LocalExpense> {
   const now = new Date().toISOString()
-
-  // Convert Date to ISO string if needed
-  const expenseDate =
-    data.expenseDate instanceof Date
-      ? data.expenseDate.toISOString().split('T')[0]
-      : typeof data.expenseDate === 'string'
-        ? data.expenseDate.split('T')[0]
-        : new Date().toISOString().split('T')[0]
+  const expenseDate = toExpenseDateString(data.expenseDate)
 
   // Create the local expense record
   const expense: LocalExpense = {
@@ -82,6 +109,7 @@ export async function saveExpenseLocally(
     vendorName: data.vendorName,
     vendorId: data.vendorId ?? undefined,
     jobOrderId: data.jobOrderId ?? undefined,
+    advanceId: data.advanceId ?? undefined,
     isOverhead: data.isOverhead ?? false,
     expenseDate,
     expenseTime: data.expenseTime,
@@ -89,6 +117,10 @@ export async function saveExpenseLocally(
     gpsLongitude: data.gpsLongitude ?? undefined,
     gpsAccuracy: data.gpsAccuracy ?? undefined,
     locationExplanation: data.locationExplanation,
+    lineItems: data.lineItems,
+    taxAmount: data.taxAmount,
+    serviceCharge: data.serviceCharge,
+    receiptMetadata: data.receiptMetadata,
     receiptLocalId,
     syncStatus: 'pending',
     syncAttempts: 0,
@@ -103,6 +135,7 @@ export async function saveExpenseLocally(
   const syncQueueItem: SyncQueueItem = {
     id: crypto.randomUUID(),
     type: 'expense',
+    operation: 'create',
     localId: expense.id,
     priority: 1, // Standard priority for expenses (receipts get priority 2)
     status: 'pending',
@@ -122,6 +155,312 @@ export async function saveExpenseLocally(
 }
 
 
+/**
+ * Checks whether an expense can still be edited or deleted
+ *
+ * Unsynced expenses can always change. Once synced, only expenses whose
+ * approval status is draft or rejected can change.
+ *
+ * @param expense - Local or display expense with sync and approval info
+ * @returns True if the expense can be edited or deleted
+ */
+export function isExpenseEditable(expense: {
+  serverId?: string
+  approvalStatus?: ApprovalStatus
+}): boolean {
+  if (!expense.serverId) {
+    return true
+  }
+  return EDITABLE_APPROVAL_STATUSES.includes(expense.approvalStatus ?? 'draft')
+}
+
+/**
+ * Adds an update or delete operation for an expense to the sync queue
+ *
+ * Pending update items for the same expense are replaced, so the queue
+ * holds at most one outstanding change per expense.
+ */
+async function queueExpenseChange(
+  localId: string,
+  operation: Exclude<SyncOperation, 'create'>
+): Promise<void> {
+  const pendingChanges = await db.syncQueue
+    .where('localId')
+    .equals(localId)
+    .filter((item) => item.operation === 'update' && item.status !== 'completed')
+    .toArray()
+  await db.syncQueue.bulkDelete(pendingChanges.map((item) => item.id))
+
+  await db.syncQueue.add({
+    id: crypto.randomUUID(),
+    type: 'expense',
+    operation,
+    localId,
+    priority: 1,
+    status: 'pending',
+    retryCount: 0,
+    createdAt: new Date().toISOString(),
+  })
+}
+
+/**
+ * Updates a local expense and queues the change for sync
+ *
+ * If the expense's create item has not been sent yet (pending or failed), it
+ * is reused, as it always sends the latest local data. Otherwise an `update`
+ * operation is queued, including while the create is in flight, since that
+ * request already carries the old data. GPS data is kept from the original
+ * capture.
+ *
+ * @param localId - The client-generated ID of the expense
+ * @param data - The edited expense form data
+ * @param receiptLocalId - Optional local ID of a newly captured receipt
+ * @returns The updated LocalExpense record
+ * @throws Error if the expense is missing or can no longer be changed
+ *
+ * @example
+ * ```typescript
+ * await updateExpenseLocally(expense.id, { ...formData, amount: 75000 })
+ * ```
+ */
+export async function updateExpenseLocally(
+  localId: string,
+  data: ExpenseFormDataInput,
+  receiptLocalId?: string
+): Promise<LocalExpense> {
+  const expense = await db.expenses.get(localId)
+  if (!expense || expense.deletedAt) {
+    throw new Error('Pengeluaran tidak ditemukan')
+  }
+  if (!isExpenseEditable(expense)) {
+    throw new Error('Pengeluaran yang sudah diajukan tidak dapat diubah')
+  }
+
+  const updated: LocalExpense = {
+    ...expense,
+    amount: data.amount,
+    category: data.category,
+    description: data.description,
+    vendorName: data.vendorName,
+    vendorId: data.vendorId ?? undefined,
+    jobOrderId: data.jobOrderId ?? undefined,
+    advanceId: data.advanceId ?? undefined,
+    isOverhead: data.isOverhead ?? false,
+    expenseDate: toExpenseDateString(data.expenseDate),
+    expenseTime: data.expenseTime ?? expense.expenseTime,
+    locationExplanation: data.locationExplanation,
+    lineItems: data.lineItems,
+    taxAmount: data.taxAmount,
+    serviceCharge: data.serviceCharge,
+    receiptMetadata: data.receiptMetadata,
+    receiptLocalId: receiptLocalId ?? expense.receiptLocalId,
+    syncStatus: 'pending',
+    syncError: undefined,
+    updatedAt: new Date().toISOString(),
+  }
+
+  await db.transaction('rw', db.expenses, db.syncQueue, async () => {
+    await db.expenses.put(updated)
+
+    // A create item that has not been sent yet will carry the latest data
+    const createItem = await db.syncQueue
+      .where('localId')
+      .equals(localId)
+      .filter(
+        (item) =>
+          item.operation === 'create' && (item.status === 'pending' || item.status === 'failed')
+      )
+      .first()
+
+    if (createItem && !expense.serverId) {
+      if (createItem.status === 'failed') {
+        await db.syncQueue.update(createItem.id, { status: 'pending', retryCount: 0 })
+      }
+      return
+    }
+
+    await queueExpenseChange(localId, 'update')
+  })
+
+  // Trigger sync if online
+  if (typeof navigator !== 'undefined' && navigator.onLine) {
+    syncManager.triggerSync()
+  }
+
+  return updated
+}
+
+/**
+ * Deletes a local expense and queues the server delete if needed
+ *
+ * An expense whose create was never attempted is removed immediately along
+ * with its unsynced receipt. Otherwise the expense is marked with
+ * `deletedAt` (hidden from lists) until the `delete` operation syncs.
+ *
+ * @param localId - The client-generated ID of the expense
+ * @throws Error if the expense is missing or can no longer be changed
+ */
+export async function deleteExpenseLocally(localId: string): Promise<void> {
+  const expense = await db.expenses.get(localId)
+  if (!expense || expense.deletedAt) {
+    throw new Error('Pengeluaran tidak ditemukan')
+  }
+  if (!isExpenseEditable(expense)) {
+    throw new Error('Pengeluaran yang sudah diajukan tidak dapat dihapus')
+  }
+
+  await db.transaction('rw', db.expenses, db.receipts, db.syncQueue, async () => {
+    const queueItems = await db.syncQueue.where('localId').equals(localId).toArray()
+    const createItem = queueItems.find((item) => item.operation === 'create')
+    const neverSent =
+      !expense.serverId &&
+      createItem !== undefined &&
+      createItem.status === 'pending' &&
+      createItem.retryCount === 0
+
+    if (neverSent) {
+      await db.syncQueue.bulkDelete(queueItems.map((item) => item.id))
+      await db.expenses.delete(localId)
+
+      // Drop the receipt too if it never left the device
+      if (expense.receiptLocalId) {
+        const receipt = await db.receipts.get(expense.receiptLocalId)
+        if (receipt && receipt.syncStatus !== 'synced') {
+          await db.syncQueue.where('localId').equals(receipt.id).delete()
+          await db.receipts.delete(receipt.id)
+        }
+      }
+      return
+    }
+
+    // Outstanding creates/updates are superseded by the delete
+    await db.syncQueue.bulkDelete(
+      queueItems
+        .filter((item) => item.operation !== 'delete' && item.status !== 'completed')
+        .map((item) => item.id)
+    )
+
+    const now = new Date().toISOString()
+    await db.expenses.update(localId, {
+      deletedAt: now,
+      updatedAt: now,
+      syncStatus: 'pending',
+      syncError: undefined,
+    })
+    await queueExpenseChange(localId, 'delete')
+  })
+
+  // Trigger sync if online
+  if (typeof navigator !== 'undefined' && navigator.onLine) {
+    syncManager.triggerSync()
+  }
+}
+
+/**
+ * Resolves a sync conflict by keeping the server version of an expense
+ *
+ * Used when local edits or a local delete can no longer be pushed because
+ * the expense was submitted or approved on the server in the meantime. The
+ * local copy is reset to the last pulled server state and its outstanding
+ * queue items are dropped.
+ *
+ * @param localId - The client-generated ID of the expense
+ */
+export async function discardExpenseChanges(localId: string): Promise<void> {
+  await db.transaction('rw', db.expenses, db.syncQueue, async () => {
+    const expense = await db.expenses.get(localId)
+    if (!expense?.conflict || !expense.serverSnapshot) {
+      return
+    }
+
+    await db.expenses.put({
+      ...expense,
+      ...expense.serverSnapshot,
+      conflict: undefined,
+      deletedAt: undefined,
+      syncStatus: 'synced',
+      syncError: undefined,
+      updatedAt: expense.serverUpdatedAt ?? new Date().toISOString(),
+    })
+
+    await db.syncQueue
+      .where('localId')
+      .equals(localId)
+      .filter((item) => item.type === 'expense' && item.status !== 'completed')
+      .delete()
+  })
+}
+
+/**
+ * Gets an expense for editing, refreshing its approval status from the server
+ *
+ * Looks the expense up by local ID or server ID. When online and the expense
+ * exists on the server (among the signed-in user's own expenses), its current approval status is stored locally; a
+ * server-only expense (e.g. cleaned up from this device) is cached as a
+ * synced local record so it can be edited offline-first.
+ *
+ * @param id - Local ID or server ID of the expense
+ * @returns The local expense, or undefined if it cannot be found
+ */
+export async function getExpenseForEdit(id: string): Promise<LocalExpense | undefined> {
+  const local =
+    (await db.expenses.get(id)) ?? (await db.expenses.where('serverId').equals(id).first())
+
+  if (local?.deletedAt) {
+    return undefined
+  }
+
+  const isOnline = typeof navigator === 'undefined' || navigator.onLine
+  if (!isOnline || (local && !local.serverId)) {
+    return local
+  }
+
+  // Local and server IDs are both UUIDs; anything else is not an expense
+  const serverKey = local?.serverId ?? id
+  const localKey = local?.id ?? id
+  if (!UUID_PATTERN.test(serverKey) || !UUID_PATTERN.test(localKey)) {
+    return local
+  }
+
+  const supabase = createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    return local
+  }
+
+  const findOwnExpense = (column: 'id' | 'local_id', value: string) =>
+    supabase
+      .from('expense_drafts')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq(column, value)
+      .maybeSingle()
+
+  const byServerId = await findOwnExpense('id', serverKey)
+  const { data: row, error } =
+    byServerId.error || byServerId.data ? byServerId : await findOwnExpense('local_id', localKey)
+
+  if (error || !row) {
+    return local
+  }
+
+  const serverRow = row as ExpenseDraft
+  const approvalStatus = serverRow.approval_status as ApprovalStatus
+
+  if (local) {
+    await db.expenses.update(local.id, { serverId: serverRow.id, approvalStatus })
+    return { ...local, serverId: serverRow.id, approvalStatus }
+  }
+
+  const cached = serverRowToLocalExpense(serverRow)
+  await db.expenses.put(cached)
+
+  return cached
+}
+
+
 /**
  * Image dimensions result
  */
@@ -166,7 +505,7 @@ async function getImageDimensions(blob: Blob): Promise<ImageDimensions> {
  *
  * This function:
  * 1. Compresses the image to reduce storage size
- * 2. Gets the image dimensions
+ * 2. Gets the image dimensions and perceptual hash
  * 3. Creates a LocalReceipt record with a client-generated UUID
  * 4. Saves it to the receipts table in IndexedDB
  * 5. Adds an entry to the sync queue with priority 2 (higher than expenses)
@@ -211,6 +550,9 @@ export async function saveReceiptLocally(
   // Get image dimensions from the compressed blob
   const dimensions = await getImageDimensions(compressed)
 
+  // Hash for duplicate detection; a receipt without one is still saved
+  const perceptualHash = await computePerceptualHash(compressed).catch(() => undefined)
+
   // Create the local receipt record
   const receipt: LocalReceipt = {
     id: crypto.randomUUID(),
@@ -220,6 +562,7 @@ export async function saveReceiptLocally(
     mimeType: compressed.type,
     imageWidth: dimensions.width,
     imageHeight: dimensions.height,
+    perceptualHash,
     // OCR data (if provided)
     ocrRawText: ocrResult?.rawText,
     ocrConfidence: ocrResult?.confidence,
@@ -240,6 +583,7 @@ export async function saveReceiptLocally(
   const syncQueueItem: SyncQueueItem = {
     id: crypto.randomUUID(),
     type: 'receipt',
+    operation: 'create',
     localId: receipt.id,
     priority: 2, // Higher than expenses (priority 1) - receipts sync first
     status: 'pending',
@@ -269,6 +613,8 @@ export interface GetLocalExpensesOptions {
   jobOrderId?: string
   /** Maximum number of expenses to return */
   limit?: number
+  /** Include expenses deleted locally but not yet deleted on the server */
+  includeDeleted?: boolean
 }
 
 /**
@@ -279,6 +625,7 @@ export interface GetLocalExpensesOptions {
  * - Filtering by job order ID
  * - Limiting the number of results
  * - Sorting by createdAt descending (newest first)
+ * - Hiding expenses with a pending delete (unless includeDeleted is set)
  *
  * @param options - Optional filtering and pagination options
  * @returns Array of LocalExpense records sorted by createdAt descending
@@ -311,7 +658,7 @@ export interface GetLocalExpensesOptions {
 export async function getLocalExpenses(
   options?: GetLocalExpensesOptions
 ): Promise<LocalExpense[]> {
-  const { syncStatus, jobOrderId, limit } = options ?? {}
+  const { syncStatus, jobOrderId, limit, includeDeleted } = options ?? {}
 
   // Start building the query
   let collection = db.expenses.toCollection()
@@ -324,6 +671,10 @@ export async function getLocalExpenses(
   // Get all matching records
   let expenses = await collection.toArray()
 
+  if (!includeDeleted) {
+    expenses = expenses.filter((expense) => !expense.deletedAt)
+  }
+
   // Apply jobOrderId filter if provided (post-query filter since we can only
   // use one index at a time in Dexie without compound indexes)
   if (jobOrderId !== undefined) {
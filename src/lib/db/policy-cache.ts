@@ -0,0 +1,92 @@
+/**
+ * Expense Policy Cache Functions
+ *
+ * Caches the spending rules that apply to the current user's role in
+ * IndexedDB so the capture form can check expenses while offline.
+ */
+
+import { db, type CachedPolicy } from './index'
+import { resolvePoliciesForRole, toExpensePolicy } from '@/lib/policies/engine'
+import { createClient } from '@/lib/supabase/client'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { ExpensePolicy } from '@/types/expense-policy'
+
+/**
+ * Refresh the cache with the rules for the current user's role
+ *
+ * Rules are resolved for the role before caching (a role rule replaces
+ * the general rule), so offline checks do not need the user's profile.
+ *
+ * @throws Error if the Supabase queries fail
+ */
+export async function refreshPolicyCache(): Promise<void> {
+  const supabase = createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError) {
+    throw new Error(userError.message)
+  }
+  if (!user) {
+    return
+  }
+
+  const [{ data: profile, error: profileError }, { data: rows, error: policiesError }] =
+    await Promise.all([
+      supabase.from('user_profiles').select('role').eq('id', user.id).single(),
+      supabase.from('expense_policies').select('*').eq('is_active', true),
+    ])
+
+  if (profileError) {
+    throw new Error(profileError.message)
+  }
+  if (policiesError) {
+    throw new Error(policiesError.message)
+  }
+
+  const cachedAt = new Date().toISOString()
+  const cached: CachedPolicy[] = resolvePoliciesForRole(
+    (rows ?? []).map(toExpensePolicy),
+    profile?.role
+  ).map((policy) => ({ ...policy, cachedAt }))
+
+  await db.transaction('rw', db.policies, async () => {
+    await db.policies.clear()
+    await db.policies.bulkPut(cached)
+  })
+}
+
+/**
+ * Get the cached rules for a category
+ */
+export async function getCachedPolicies(category: ExpenseCategory): Promise<ExpensePolicy[]> {
+  return db.policies.where('category').equals(category).toArray()
+}
+
+/**
+ * Total of the local expenses in a category on a date
+ *
+ * Covers expenses captured on this device; rejected and deleted ones are
+ * left out. The server check on submit sees every expense of the user.
+ *
+ * @param category - Expense category
+ * @param expenseDate - Date (YYYY-MM-DD)
+ * @param excludeId - Local ID of the expense being edited
+ */
+export async function getLocalCategoryDayTotal(
+  category: ExpenseCategory,
+  expenseDate: string,
+  excludeId?: string
+): Promise<number> {
+  const expenses = await db.expenses
+    .filter(
+      (expense) =>
+        expense.category === category &&
+        expense.expenseDate.slice(0, 10) === expenseDate &&
+        expense.id !== excludeId &&
+        !expense.deletedAt &&
+        expense.approvalStatus !== 'rejected'
+    )
+    .toArray()
+
+  return expenses.reduce((total, expense) => total + expense.amount, 0)
+}
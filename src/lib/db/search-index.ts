@@ -0,0 +1,284 @@
+/**
+ * Offline Search Index Functions
+ *
+ * Keeps a token index of local expenses in IndexedDB, built from each
+ * expense, its cached job order and its receipt's OCR text. The index is
+ * brought up to date before each search: the first search of a session
+ * checks every expense against its entry, later ones only re-index the
+ * expenses whose expense, receipt or job order was written since, in this
+ * tab or another.
+ */
+
+import { db, type CachedJobOrder, type LocalExpense, type SearchIndexEntry } from './index'
+import { matchSearchDocument, tokenizeSearchDocument, tokenizeSearchText } from '@/lib/search'
+import type { SearchMatch } from '@/types/search'
+
+/** Tables the index is built from */
+type IndexSourceTable = 'expenses' | 'receipts' | 'jobOrders'
+
+/** Keys written since the last refresh, by table */
+type ChangedKeys = Record<IndexSourceTable, Set<string>>
+
+const changedKeys: ChangedKeys = {
+  expenses: new Set(),
+  receipts: new Set(),
+  jobOrders: new Set(),
+}
+
+/** Whether the index was checked against every expense this session */
+let isIndexChecked = false
+
+/** Passes written keys on to the other tabs of the app */
+const changesChannel =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('gama-search-index') : null
+
+changesChannel?.addEventListener(
+  'message',
+  (event: MessageEvent<{ table: IndexSourceTable; key: string }>) => {
+    changedKeys[event.data.table]?.add(event.data.key)
+  }
+)
+
+/**
+ * Record a committed write, here and in the other tabs
+ */
+function trackChange(table: IndexSourceTable, key: string): void {
+  changedKeys[table].add(key)
+  changesChannel?.postMessage({ table, key })
+}
+
+// Track writes once they are committed; writes made before this module
+// loaded are caught by the first full check
+db.expenses.hook('creating', function (_primKey, expense) {
+  this.onsuccess = () => trackChange('expenses', expense.id)
+})
+db.expenses.hook('updating', function (_modifications, primKey) {
+  this.onsuccess = () => trackChange('expenses', String(primKey))
+})
+db.expenses.hook('deleting', function (primKey) {
+  this.onsuccess = () => trackChange('expenses', String(primKey))
+})
+
+// Only the OCR text of a receipt and the job number and customer name of a
+// job order are indexed
+db.receipts.hook('creating', function (_primKey, receipt) {
+  if (receipt.ocrRawText) {
+    this.onsuccess = () => trackChange('receipts', receipt.id)
+  }
+})
+db.receipts.hook('updating', function (modifications, primKey) {
+  if ('ocrRawText' in modifications) {
+    this.onsuccess = () => trackChange('receipts', String(primKey))
+  }
+})
+db.receipts.hook('deleting', function (primKey) {
+  this.onsuccess = () => trackChange('receipts', String(primKey))
+})
+db.jobOrders.hook('creating', function (_primKey, jobOrder) {
+  this.onsuccess = () => trackChange('jobOrders', jobOrder.id)
+})
+db.jobOrders.hook('updating', function (modifications, primKey) {
+  if ('jobNumber' in modifications || 'customerName' in modifications) {
+    this.onsuccess = () => trackChange('jobOrders', String(primKey))
+  }
+})
+db.jobOrders.hook('deleting', function (primKey) {
+  this.onsuccess = () => trackChange('jobOrders', String(primKey))
+})
+
+/**
+ * Describe the indexed fields of a job order, to tell when they changed
+ */
+function describeJobOrder(jobOrder: CachedJobOrder | undefined): string | undefined {
+  return jobOrder ? `${jobOrder.jobNumber}\n${jobOrder.customerName}` : undefined
+}
+
+/**
+ * Build the index entries of expenses
+ */
+async function buildIndexEntries(expenses: LocalExpense[]): Promise<SearchIndexEntry[]> {
+  const receiptIds = [...new Set(expenses.flatMap((e) => (e.receiptLocalId ? [e.receiptLocalId] : [])))]
+  const jobOrderIds = [...new Set(expenses.flatMap((e) => (e.jobOrderId ? [e.jobOrderId] : [])))]
+  const [receipts, jobOrders] = await Promise.all([
+    db.receipts.bulkGet(receiptIds),
+    db.jobOrders.bulkGet(jobOrderIds),
+  ])
+
+  const ocrTextByReceipt = new Map(
+    receipts.flatMap((receipt) => (receipt?.ocrRawText ? [[receipt.id, receipt.ocrRawText]] : []))
+  )
+  const jobOrderById = new Map(
+    jobOrders.flatMap((jobOrder) => (jobOrder ? [[jobOrder.id, jobOrder]] : []))
+  )
+
+  return expenses.map((expense) => {
+    const jobOrder = expense.jobOrderId ? jobOrderById.get(expense.jobOrderId) : undefined
+    const ocrText = expense.receiptLocalId ? ocrTextByReceipt.get(expense.receiptLocalId) : undefined
+    const fieldTokens = tokenizeSearchDocument({
+      bkkNumber: expense.bkkNumber,
+      jobNumber: jobOrder?.jobNumber,
+      amount: String(Math.round(expense.amount)),
+      vendorName: expense.vendorName,
+      description: expense.description,
+      customerName: jobOrder?.customerName,
+      ocrText,
+    })
+
+    return {
+      expenseId: expense.id,
+      tokens: [...new Set(Object.values(fieldTokens).flat())],
+      fieldTokens,
+      ocrText,
+      sourceUpdatedAt: expense.updatedAt,
+      sourceJobOrder: describeJobOrder(jobOrder),
+    }
+  })
+}
+
+/**
+ * Find index changes by checking every expense against the index
+ */
+async function findAllIndexChanges(): Promise<{ stale: LocalExpense[]; removedIds: string[] }> {
+  const [expenses, entries, jobOrders] = await Promise.all([
+    db.expenses.toArray(),
+    db.searchIndex.toArray(),
+    db.jobOrders.toArray(),
+  ])
+
+  const entryById = new Map(entries.map((entry) => [entry.expenseId, entry]))
+  const jobOrderById = new Map(jobOrders.map((jobOrder) => [jobOrder.id, jobOrder]))
+  const indexedWithoutOcr: LocalExpense[] = []
+
+  const stale = expenses.filter((expense) => {
+    const entry = entryById.get(expense.id)
+    const jobOrder = expense.jobOrderId ? jobOrderById.get(expense.jobOrderId) : undefined
+    if (
+      !entry ||
+      entry.sourceUpdatedAt !== expense.updatedAt ||
+      entry.sourceJobOrder !== describeJobOrder(jobOrder)
+    ) {
+      return true
+    }
+    if (expense.receiptLocalId && !entry.ocrText) {
+      indexedWithoutOcr.push(expense)
+    }
+    return false
+  })
+
+  // Receipts are read with their images, so only those whose OCR text may
+  // have arrived since the expense was indexed are checked
+  const receipts = await db.receipts.bulkGet(
+    indexedWithoutOcr.map((expense) => expense.receiptLocalId as string)
+  )
+  stale.push(...indexedWithoutOcr.filter((_, index) => !!receipts[index]?.ocrRawText))
+
+  const expenseIds = new Set(expenses.map((expense) => expense.id))
+  const removedIds = entries
+    .map((entry) => entry.expenseId)
+    .filter((expenseId) => !expenseIds.has(expenseId))
+
+  return { stale, removedIds }
+}
+
+/**
+ * Find the expenses affected by written expenses, receipts and job orders
+ */
+async function findChangedExpenseIds(changed: ChangedKeys): Promise<string[]> {
+  const [jobOrderExpenseIds, receiptExpenseIds] = await Promise.all([
+    changed.jobOrders.size > 0
+      ? db.expenses.where('jobOrderId').anyOf([...changed.jobOrders]).primaryKeys()
+      : [],
+    // Receipt ids of expenses are not indexed
+    changed.receipts.size > 0
+      ? db.expenses
+          .filter((expense) => !!expense.receiptLocalId && changed.receipts.has(expense.receiptLocalId))
+          .primaryKeys()
+      : [],
+  ])
+
+  return [
+    ...new Set([...changed.expenses, ...jobOrderExpenseIds.map(String), ...receiptExpenseIds.map(String)]),
+  ]
+}
+
+/**
+ * Find index changes of the given expenses only
+ */
+async function findIndexChanges(
+  expenseIds: string[]
+): Promise<{ stale: LocalExpense[]; removedIds: string[] }> {
+  const expenses = await db.expenses.bulkGet(expenseIds)
+
+  return {
+    stale: expenses.filter((expense): expense is LocalExpense => !!expense),
+    removedIds: expenseIds.filter((_, index) => !expenses[index]),
+  }
+}
+
+/**
+ * Index new and changed local expenses and drop removed ones
+ */
+export async function refreshSearchIndex(): Promise<void> {
+  const changed: ChangedKeys = {
+    expenses: new Set(changedKeys.expenses),
+    receipts: new Set(changedKeys.receipts),
+    jobOrders: new Set(changedKeys.jobOrders),
+  }
+  Object.values(changedKeys).forEach((keys) => keys.clear())
+
+  try {
+    const { stale, removedIds } = isIndexChecked
+      ? await findIndexChanges(await findChangedExpenseIds(changed))
+      : await findAllIndexChanges()
+
+    if (stale.length > 0 || removedIds.length > 0) {
+      const updated = await buildIndexEntries(stale)
+
+      await db.transaction('rw', db.searchIndex, async () => {
+        await db.searchIndex.bulkDelete(removedIds)
+        await db.searchIndex.bulkPut(updated)
+      })
+    }
+
+    isIndexChecked = true
+  } catch (error) {
+    // Try these writes again on the next refresh
+    for (const table of Object.keys(changed) as IndexSourceTable[]) {
+      changed[table].forEach((key) => changedKeys[table].add(key))
+    }
+    throw error
+  }
+}
+
+/**
+ * Search local expenses
+ *
+ * @param query - Search text
+ * @returns Matches by local expense ID; empty when the query has no tokens
+ */
+export async function searchLocalExpenses(query: string): Promise<Map<string, SearchMatch>> {
+  const matches = new Map<string, SearchMatch>()
+  const queryTokens = tokenizeSearchText(query)
+  if (queryTokens.length === 0) {
+    return matches
+  }
+
+  await refreshSearchIndex()
+
+  // Narrow the candidates with the longest (most selective) token
+  const longestToken = queryTokens.reduce((a, b) => (b.length > a.length ? b : a))
+  const candidates = await db.searchIndex
+    .where('tokens')
+    .startsWith(longestToken)
+    .distinct()
+    .toArray()
+
+  for (const entry of candidates) {
+    const match = matchSearchDocument(entry.fieldTokens, queryTokens, entry.ocrText)
+    if (match) {
+      matches.set(entry.expenseId, match)
+    }
+  }
+
+  return matches
+}
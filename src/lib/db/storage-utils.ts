@@ -227,7 +227,13 @@ export async function clearAllCache(): Promise<void> {
       db.expenses.clear(),
       db.receipts.clear(),
       db.syncQueue.clear(),
-      db.jobOrders.clear()
+      db.jobOrders.clear(),
+      db.syncState.clear(),
+      db.advances.clear(),
+      db.geocodes.clear(),
+      db.policies.clear(),
+      db.categories.clear(),
+      db.searchIndex.clear()
     ])
   } catch (error) {
     console.error('Failed to clear all cache:', error)
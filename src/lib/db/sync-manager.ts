@@ -4,6 +4,7 @@
  * This class handles:
  * - Automatic sync when device comes online
  * - Processing the sync queue (receipts first, then expenses)
+ * - Pulling server-side expense changes back into IndexedDB
  * - Notifying listeners of sync status changes
  * - Retry logic with exponential backoff
  * - Periodic retry of failed items
@@ -25,10 +26,18 @@
  * ```
  */
 
-import { db, type SyncQueueItem } from './index'
+import {
+  db,
+  EDITABLE_APPROVAL_STATUSES,
+  type LocalExpense,
+  type SyncQueueItem,
+} from './index'
+import { mergeServerExpense, pickUserFields } from './conflict-resolution'
 import { createLogger } from '@/lib/logger'
 import { createClient } from '@/lib/supabase/client'
 import { uploadReceiptClient } from '@/lib/receipts/upload-client'
+import { applyExpenseChangeCursor, type ExpenseChangeCursor } from '@/lib/queries/expenses'
+import type { ExpenseDraft } from '@/types/supabase'
 
 // Create a logger for sync operations
 const logger = createLogger({ operation: 'sync-manager' })
@@ -68,6 +77,9 @@ export class SyncManager {
   /** Flag to prevent concurrent sync operations */
   private isSyncing = false
 
+  /** Flag to run another sync once the current one finishes */
+  private isSyncRequested = false
+
   /** Set of listeners for sync status updates */
   private listeners: Set<SyncStatusListener> = new Set()
 
@@ -318,7 +330,8 @@ export class SyncManager {
    * 2. Checks if device is online
    * 3. Sets syncing flag and notifies listeners
    * 4. Processes the sync queue
-   * 5. Notifies listeners of completion or error
+   * 5. Pulls server-side changes to synced expenses
+   * 6. Notifies listeners of completion or error
    *
    * @returns Promise that resolves when sync completes or rejects on error
    *
@@ -333,8 +346,11 @@ export class SyncManager {
    */
   async triggerSync(): Promise<void> {
     // Prevent concurrent sync operations
+    // Changes queued mid-sync (e.g. an edit while its create is in flight)
+    // are picked up by a follow-up run
     if (this.isSyncing) {
-      logger.debug('Sync already in progress, skipping')
+      logger.debug('Sync already in progress, queued a follow-up sync')
+      this.isSyncRequested = true
       return
     }
 
@@ -355,6 +371,9 @@ export class SyncManager {
       // Note: processQueue() will be implemented in task 3.2
       await this.processQueue()
 
+      // Pull changes made on the server (approvals, finance corrections)
+      await this.pullChanges()
+
       const durationMs = Date.now() - startTime
       logger.info('Sync completed successfully', { durationMs })
 
@@ -369,6 +388,11 @@ export class SyncManager {
     } finally {
       this.isSyncing = false
     }
+
+    if (this.isSyncRequested) {
+      this.isSyncRequested = false
+      await this.triggerSync()
+    }
   }
 
   /**
@@ -467,9 +491,13 @@ export class SyncManager {
       // Update queue item status to 'syncing'
       await db.syncQueue.update(item.id, { status: 'syncing' })
 
-      // Call appropriate sync method based on type
+      // Call appropriate sync method based on type and operation
       if (item.type === 'receipt') {
         await this.syncReceipt(item.localId)
+      } else if (item.operation === 'update') {
+        await this.syncExpenseUpdate(item.localId)
+      } else if (item.operation === 'delete') {
+        await this.syncExpenseDelete(item.localId)
       } else {
         await this.syncExpense(item.localId)
       }
@@ -480,6 +508,7 @@ export class SyncManager {
       logger.info('Sync item completed successfully', {
         itemId: item.id,
         type: item.type,
+        operation: item.operation,
         localId: item.localId,
       })
     } catch (error) {
@@ -530,14 +559,208 @@ export class SyncManager {
   }
 
   /**
-   * Sync a receipt to Supabase
+   * Number of expense_drafts rows fetched per pull request
+   */
+  private static readonly PULL_PAGE_SIZE = 200
+
+  /**
+   * How far back the first pull on a device looks, in milliseconds
+   * Older expenses are not edited from the device anymore
+   */
+  private static readonly PULL_INITIAL_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
+  /**
+   * Read the stored pull cursor
+   *
+   * Cursors stored before paging on `(updated_at, id)` hold only the
+   * timestamp; rows at that timestamp are merged again, which is harmless.
+   * Without a cursor the pull starts PULL_INITIAL_WINDOW_MS back.
+   */
+  private parsePullCursor(value: string | undefined): ExpenseChangeCursor {
+    if (value?.startsWith('{')) {
+      return JSON.parse(value) as ExpenseChangeCursor
+    }
+
+    return {
+      updatedAt:
+        value ?? new Date(Date.now() - SyncManager.PULL_INITIAL_WINDOW_MS).toISOString(),
+      id: '00000000-0000-0000-0000-000000000000',
+    }
+  }
+
+  /**
+   * Pull expenses changed on the server since the last pull
    *
    * This method:
+   * 1. Gets the authenticated user and their pull cursor
+   * 2. Fetches the user's expense_drafts rows changed after the cursor, oldest
+   *    first, paging on `(updated_at, id)` (see applyExpenseChangeCursor)
+   * 3. Merges each row into its local expense (see mergeServerExpense)
+   * 4. Advances the cursor after every page
+   *
+   * Rows without a local copy are skipped; the history view reads them
+   * from the server directly. Failures are logged and retried on the next
+   * sync, since the cursor only moves past merged rows.
+   */
+  private async pullChanges(): Promise<void> {
+    try {
+      // 1. Get the authenticated user and their cursor
+      const supabase = createClient()
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (!user) {
+        return
+      }
+
+      const cursorKey = `expensePullCursor:${user.id}`
+      let cursor = this.parsePullCursor((await db.syncState.get(cursorKey))?.value)
+      let mergedCount = 0
+
+      for (;;) {
+        // 2. Fetch the next page of changed rows
+        const { data, error } = await applyExpenseChangeCursor(
+          supabase.from('expense_drafts').select('*').eq('user_id', user.id),
+          cursor
+        )
+          .order('updated_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(SyncManager.PULL_PAGE_SIZE)
+
+        if (error) {
+          throw new Error(`Failed to pull expense changes: ${error.message}`)
+        }
+
+        const rows = (data ?? []) as ExpenseDraft[]
+
+        // 3. Merge each row into its local copy
+        for (const row of rows) {
+          if (await this.applyServerExpense(row)) {
+            mergedCount++
+          }
+        }
+
+        // 4. Advance the cursor
+        if (rows.length > 0) {
+          const last = rows[rows.length - 1]
+          cursor = { updatedAt: last.updated_at, id: last.id }
+          await db.syncState.put({
+            key: cursorKey,
+            value: JSON.stringify(cursor),
+            updatedAt: new Date().toISOString(),
+          })
+        }
+
+        if (rows.length < SyncManager.PULL_PAGE_SIZE) {
+          break
+        }
+      }
+
+      logger.info('Pulled server changes', { mergedCount, cursor })
+    } catch (error) {
+      logger.warn('Pulling server changes failed', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Merge a changed server row into its local expense
+   *
+   * Runs in a transaction so a concurrent local edit is never overwritten
+   * with stale data. Queue items for the expense are adjusted to the result:
+   * - no local changes left: outstanding items are dropped
+   * - unresolved conflict: outstanding items are marked failed
+   * - conflict cleared (e.g. expense rejected again): items are retried
+   *
+   * @param row - The changed expense_drafts row
+   * @returns True if a local expense was updated
+   */
+  private async applyServerExpense(row: ExpenseDraft): Promise<boolean> {
+    return db.transaction('rw', db.expenses, db.syncQueue, async () => {
+      const local =
+        (row.local_id ? await db.expenses.get(row.local_id) : undefined) ??
+        (await db.expenses.where('serverId').equals(row.id).first())
+      if (!local) {
+        return false
+      }
+
+      const { expense, hasLocalChanges } = mergeServerExpense(local, row)
+      await db.expenses.put(expense)
+
+      const outstanding = await db.syncQueue
+        .where('localId')
+        .equals(local.id)
+        .filter((item) => item.type === 'expense' && item.status !== 'completed')
+        .toArray()
+
+      if (!hasLocalChanges) {
+        await db.syncQueue.bulkDelete(outstanding.map((item) => item.id))
+      } else if (expense.conflict) {
+        for (const item of outstanding) {
+          await db.syncQueue.update(item.id, { status: 'failed', error: expense.syncError })
+        }
+        logger.warn('Expense changed on both sides, conflict needs resolving', {
+          localId: local.id,
+          serverId: row.id,
+          approvalStatus: expense.conflict.serverApprovalStatus,
+          fields: expense.conflict.fields,
+        })
+      } else if (local.conflict) {
+        for (const item of outstanding) {
+          await db.syncQueue.update(item.id, {
+            status: 'pending',
+            retryCount: 0,
+            error: undefined,
+          })
+        }
+      }
+
+      return true
+    })
+  }
+
+  /**
+   * Find the server record previously created for a local record
+   *
+   * Sync is keyed on (user_id, local_id). If an earlier attempt reached the
+   * server but its response was lost, the existing row is returned so the
+   * retry can reconcile it instead of inserting a duplicate.
+   *
+   * @param table - The server table to look in
+   * @param userId - The authenticated user's ID
+   * @param localId - The client-generated ID of the record
+   * @returns The server ID, or null if the record has not been synced yet
+   */
+  private async findServerId(
+    table: 'expense_drafts' | 'expense_receipts',
+    userId: string,
+    localId: string
+  ): Promise<string | null> {
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from(table)
+      .select('id')
+      .eq('user_id', userId)
+      .eq('local_id', localId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to look up ${table} record: ${error.message}`)
+    }
+
+    return data?.id ?? null
+  }
+
+  /**
+   * Sync a receipt to Supabase
+   *
+   * This method is idempotent per receipt:
    * 1. Gets the receipt from local IndexedDB
    * 2. Gets the authenticated user
-   * 3. Creates a File from the receipt's imageBlob
-   * 4. Uploads to Supabase Storage using uploadReceiptClient
-   * 5. Creates expense_receipts database record
+   * 3. Reconciles with an existing expense_receipts row for (user_id, local_id)
+   * 4. Uploads to a storage path derived from the local ID (overwrites on retry)
+   * 5. Upserts the expense_receipts record on (user_id, local_id)
    * 6. Updates local receipt with serverId and syncStatus
    *
    * @param localId - The local ID of the receipt to sync
@@ -559,6 +782,21 @@ export class SyncManager {
       throw new Error('Not authenticated')
     }
 
+    // 3. Reconcile with a record created by an earlier, unacknowledged attempt
+    const existingId = await this.findServerId('expense_receipts', user.id, localId)
+    if (existingId) {
+      await db.receipts.update(localId, {
+        serverId: existingId,
+        syncStatus: 'synced',
+      })
+
+      logger.info('Receipt already on server, reconciled', {
+        localId,
+        serverId: existingId,
+      })
+      return
+    }
+
     logger.debug('Syncing receipt', {
       localId,
       userId: user.id,
@@ -566,44 +804,49 @@ export class SyncManager {
       fileSize: receipt.fileSize,
     })
 
-    // 3. Create a File from the receipt's imageBlob
+    // 4. Upload to Supabase Storage at a stable path for this receipt
     const file = new File([receipt.imageBlob], receipt.originalFilename, {
       type: receipt.mimeType,
     })
-
-    // 4. Upload to Supabase Storage
-    const { storagePath } = await uploadReceiptClient(file, user.id)
+    const { storagePath } = await uploadReceiptClient(file, user.id, {
+      localId,
+      capturedAt: receipt.createdAt,
+    })
 
     logger.debug('Receipt uploaded to storage', {
       localId,
       storagePath,
     })
 
-    // 5. Create expense_receipts database record
+    // 5. Upsert expense_receipts database record
     const { data, error } = await supabase
       .from('expense_receipts')
-      .insert({
-        user_id: user.id,
-        storage_path: storagePath,
-        original_filename: receipt.originalFilename,
-        file_size: receipt.fileSize,
-        mime_type: receipt.mimeType,
-        image_width: receipt.imageWidth,
-        image_height: receipt.imageHeight,
-        ocr_raw_text: receipt.ocrRawText,
-        ocr_confidence: receipt.ocrConfidence,
-        extracted_amount: receipt.extractedAmount,
-        extracted_vendor_name: receipt.extractedVendorName,
-        extracted_date: receipt.extractedDate,
-        local_id: localId,
-        sync_status: 'synced',
-      })
+      .upsert(
+        {
+          user_id: user.id,
+          storage_path: storagePath,
+          original_filename: receipt.originalFilename,
+          file_size: receipt.fileSize,
+          mime_type: receipt.mimeType,
+          image_width: receipt.imageWidth,
+          image_height: receipt.imageHeight,
+          perceptual_hash: receipt.perceptualHash,
+          ocr_raw_text: receipt.ocrRawText,
+          ocr_confidence: receipt.ocrConfidence,
+          extracted_amount: receipt.extractedAmount,
+          extracted_vendor_name: receipt.extractedVendorName,
+          extracted_date: receipt.extractedDate,
+          local_id: localId,
+          sync_status: 'synced',
+        },
+        { onConflict: 'user_id,local_id' }
+      )
       .select('id')
       .single()
 
     if (error) {
       // Try to clean up uploaded file on database error
-      logger.warn('Database insert failed, cleaning up storage', {
+      logger.warn('Database upsert failed, cleaning up storage', {
         localId,
         storagePath,
         error: error.message,
@@ -628,12 +871,20 @@ export class SyncManager {
   /**
    * Sync an expense to Supabase
    *
-   * This method:
+   * This method is idempotent per expense:
    * 1. Gets the expense from local IndexedDB
    * 2. Gets the authenticated user
-   * 3. Gets the receipt's server ID if expense has a linked receipt
-   * 4. Creates expense_drafts database record
-   * 5. Updates local expense with serverId and syncStatus
+   * 3. Reconciles with an existing expense_drafts row for (user_id, local_id)
+   * 4. Gets the receipt's server ID if expense has a linked receipt
+   * 5. Inserts the expense_drafts record, ignoring a conflicting duplicate
+   * 6. Updates local expense with serverId and syncStatus
+   *
+   * When an earlier attempt already created the row (its response was
+   * lost), only the user fields are pushed to it, so approval fields set
+   * on the server are preserved and edits made since are not dropped.
+   * A row that is no longer draft or rejected is merged like a pulled
+   * change instead (see applyServerExpense), flagging a conflict if local
+   * edits remain, and the queue item completes.
    *
    * @param localId - The local ID of the expense to sync
    * @throws Error if expense not found, not authenticated, or sync fails
@@ -654,6 +905,38 @@ export class SyncManager {
       throw new Error('Not authenticated')
     }
 
+    // 3. Reconcile with a record created by an earlier, unacknowledged attempt
+    const { data: existing, error: existingError } = await supabase
+      .from('expense_drafts')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('local_id', localId)
+      .maybeSingle()
+
+    if (existingError) {
+      throw new Error(`Failed to look up expense_drafts record: ${existingError.message}`)
+    }
+
+    if (existing) {
+      // Submitted meanwhile (e.g. from another device): take the server state
+      if (!EDITABLE_APPROVAL_STATUSES.includes(existing.approval_status)) {
+        logger.info('Expense already submitted on server, merging server state', {
+          localId,
+          serverId: existing.id,
+          approvalStatus: existing.approval_status,
+        })
+        await this.applyServerExpense(existing as ExpenseDraft)
+        return
+      }
+
+      logger.info('Expense already on server, pushing local fields', {
+        localId,
+        serverId: existing.id,
+      })
+      await this.pushExpenseUpdate(expense, existing.id)
+      return
+    }
+
     logger.debug('Syncing expense', {
       localId,
       userId: user.id,
@@ -662,7 +945,7 @@ export class SyncManager {
       hasReceipt: !!expense.receiptLocalId,
     })
 
-    // 3. Get receipt server ID if expense has a linked receipt
+    // 4. Get receipt server ID if expense has a linked receipt
     let receiptId: string | undefined
     if (expense.receiptLocalId) {
       const receipt = await db.receipts.get(expense.receiptLocalId)
@@ -674,49 +957,285 @@ export class SyncManager {
       })
     }
 
-    // 4. Create expense_drafts database record
+    // 5. Insert expense_drafts record keyed on (user_id, local_id)
     const { data, error } = await supabase
       .from('expense_drafts')
-      .insert({
-        user_id: user.id,
-        amount: expense.amount,
-        category: expense.category,
-        description: expense.description,
-        vendor_name: expense.vendorName,
-        vendor_id: expense.vendorId,
-        job_order_id: expense.jobOrderId,
-        is_overhead: expense.isOverhead,
-        expense_date: expense.expenseDate,
-        expense_time: expense.expenseTime,
-        gps_latitude: expense.gpsLatitude,
-        gps_longitude: expense.gpsLongitude,
-        gps_accuracy: expense.gpsAccuracy,
-        receipt_id: receiptId,
-        local_id: localId,
-        sync_status: 'synced',
-        approval_status: 'draft',
-      })
-      .select('id')
-      .single()
+      .upsert(
+        {
+          user_id: user.id,
+          amount: expense.amount,
+          category: expense.category,
+          description: expense.description,
+          vendor_name: expense.vendorName,
+          vendor_id: expense.vendorId,
+          job_order_id: expense.jobOrderId,
+          advance_id: expense.advanceId,
+          is_overhead: expense.isOverhead,
+          expense_date: expense.expenseDate,
+          expense_time: expense.expenseTime,
+          gps_latitude: expense.gpsLatitude,
+          gps_longitude: expense.gpsLongitude,
+          gps_accuracy: expense.gpsAccuracy,
+          location_explanation: expense.locationExplanation,
+          line_items: expense.lineItems ?? [],
+          tax_amount: expense.taxAmount,
+          service_charge: expense.serviceCharge,
+          receipt_metadata: expense.receiptMetadata,
+          receipt_id: receiptId,
+          local_id: localId,
+          sync_status: 'synced',
+          approval_status: 'draft',
+        },
+        { onConflict: 'user_id,local_id', ignoreDuplicates: true }
+      )
+      .select('id, updated_at')
+      .maybeSingle()
 
     if (error) {
       throw new Error(`Failed to create expense record: ${error.message}`)
     }
 
-    // 5. Update local expense with serverId and syncStatus
-    await db.expenses.update(localId, {
-      serverId: data.id,
-      syncStatus: 'synced',
+    // A concurrent attempt may have won the insert; fall back to its row
+    const serverId = data?.id ?? (await this.findServerId('expense_drafts', user.id, localId))
+    if (!serverId) {
+      throw new Error('Failed to create expense record: no row returned')
+    }
+
+    // 6. Update local expense with serverId, syncStatus and the synced state
+    await this.markExpenseSynced(expense, {
+      serverId,
+      ...(data
+        ? { serverSnapshot: pickUserFields(expense), serverUpdatedAt: data.updated_at }
+        : {}),
     })
 
     logger.info('Expense synced successfully', {
       localId,
-      serverId: data.id,
+      serverId,
       amount: expense.amount,
       category: expense.category,
     })
   }
 
+  /**
+   * Push a local edit of an already-synced expense to Supabase
+   *
+   * This method:
+   * 1. Gets the expense from local IndexedDB
+   * 2. Resolves its server ID (falls back to a create if it has none)
+   * 3. Updates the expense_drafts row while it is still draft or rejected
+   * 4. Marks the local expense as synced
+   *
+   * @param localId - The local ID of the expense to update
+   * @throws Error if the expense is missing or no longer editable on the server
+   */
+  private async syncExpenseUpdate(localId: string): Promise<void> {
+    // 1. Get the expense from local IndexedDB
+    const expense = await db.expenses.get(localId)
+    if (!expense) {
+      throw new Error('Expense not found')
+    }
+
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Not authenticated')
+    }
+
+    // 2. Resolve the server row; an expense that never reached it is created instead
+    const serverId =
+      expense.serverId ?? (await this.findServerId('expense_drafts', user.id, localId))
+    if (!serverId) {
+      logger.debug('Expense not on server yet, syncing as create', { localId })
+      await this.syncExpense(localId)
+      return
+    }
+
+    // 3-4. Update the server row and the local expense
+    await this.pushExpenseUpdate(expense, serverId)
+  }
+
+  /**
+   * Write the user fields of a local expense to its expense_drafts row
+   *
+   * The row is only updated while it is still draft or rejected. The local
+   * expense then takes the server's approval status and synced state.
+   *
+   * @param expense - The local expense to push
+   * @param serverId - ID of its expense_drafts row
+   * @throws Error if the update fails or the row is no longer editable
+   */
+  private async pushExpenseUpdate(expense: LocalExpense, serverId: string): Promise<void> {
+    const supabase = createClient()
+
+    let receiptId: string | undefined
+    if (expense.receiptLocalId) {
+      const receipt = await db.receipts.get(expense.receiptLocalId)
+      receiptId = receipt?.serverId
+    }
+
+    // Update only while the server still allows changes
+    const { data, error } = await supabase
+      .from('expense_drafts')
+      .update({
+        amount: expense.amount,
+        category: expense.category,
+        description: expense.description ?? null,
+        vendor_name: expense.vendorName ?? null,
+        vendor_id: expense.vendorId ?? null,
+        job_order_id: expense.jobOrderId ?? null,
+        advance_id: expense.advanceId ?? null,
+        is_overhead: expense.isOverhead,
+        expense_date: expense.expenseDate,
+        expense_time: expense.expenseTime ?? null,
+        location_explanation: expense.locationExplanation ?? null,
+        line_items: expense.lineItems ?? [],
+        tax_amount: expense.taxAmount ?? null,
+        service_charge: expense.serviceCharge ?? null,
+        receipt_metadata: expense.receiptMetadata ?? null,
+        ...(receiptId ? { receipt_id: receiptId } : {}),
+      })
+      .eq('id', serverId)
+      .in('approval_status', EDITABLE_APPROVAL_STATUSES)
+      .select('id, approval_status, updated_at')
+
+    if (error) {
+      throw new Error(`Failed to update expense record: ${error.message}`)
+    }
+    if (!data || data.length === 0) {
+      throw new Error('Expense can no longer be changed on the server')
+    }
+
+    await this.markExpenseSynced(expense, {
+      serverId,
+      approvalStatus: data[0].approval_status,
+      serverSnapshot: pickUserFields(expense),
+      serverUpdatedAt: data[0].updated_at,
+    })
+
+    logger.info('Expense update synced successfully', { localId: expense.id, serverId })
+  }
+
+  /**
+   * Store the result of pushing an expense
+   *
+   * An expense edited while the request was in flight stays pending; the
+   * update queued by that edit pushes the newer fields.
+   *
+   * @param expense - The local expense as it was pushed
+   * @param changes - Server state to store on the local expense
+   */
+  private async markExpenseSynced(
+    expense: LocalExpense,
+    changes: Partial<LocalExpense>
+  ): Promise<void> {
+    await db.transaction('rw', db.expenses, async () => {
+      const current = await db.expenses.get(expense.id)
+      if (!current) return
+
+      const isEditedMeanwhile = current.updatedAt !== expense.updatedAt
+      await db.expenses.update(expense.id, {
+        ...changes,
+        syncStatus: isEditedMeanwhile ? 'pending' : 'synced',
+        syncError: undefined,
+      })
+    })
+  }
+
+  /**
+   * Delete an expense from Supabase and remove it locally
+   *
+   * This method:
+   * 1. Gets the (soft-deleted) expense from local IndexedDB
+   * 2. Resolves its server ID, if it ever reached the server
+   * 3. Deletes the expense_drafts row while it is still draft or rejected
+   * 4. Removes the linked receipt record and storage object
+   * 5. Removes the local expense and receipt
+   *
+   * @param localId - The local ID of the expense to delete
+   * @throws Error if the expense is no longer deletable on the server
+   */
+  private async syncExpenseDelete(localId: string): Promise<void> {
+    // 1. Get the expense from local IndexedDB
+    const expense = await db.expenses.get(localId)
+    if (!expense) {
+      logger.debug('Expense already removed locally', { localId })
+      return
+    }
+
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Not authenticated')
+    }
+
+    // 2. Resolve the server row
+    const serverId =
+      expense.serverId ?? (await this.findServerId('expense_drafts', user.id, localId))
+
+    if (serverId) {
+      const { data: row, error: fetchError } = await supabase
+        .from('expense_drafts')
+        .select('id, approval_status, receipt:expense_receipts(id, storage_path)')
+        .eq('id', serverId)
+        .maybeSingle()
+
+      if (fetchError) {
+        throw new Error(`Failed to fetch expense record: ${fetchError.message}`)
+      }
+
+      if (row) {
+        if (!EDITABLE_APPROVAL_STATUSES.includes(row.approval_status)) {
+          throw new Error('Expense can no longer be deleted on the server')
+        }
+
+        // 3. Delete the expense row
+        const { error: deleteError } = await supabase
+          .from('expense_drafts')
+          .delete()
+          .eq('id', serverId)
+          .in('approval_status', EDITABLE_APPROVAL_STATUSES)
+
+        if (deleteError) {
+          throw new Error(`Failed to delete expense record: ${deleteError.message}`)
+        }
+
+        // 4. Remove the receipt (best effort - the expense is already gone)
+        const receipt = Array.isArray(row.receipt) ? row.receipt[0] : row.receipt
+        if (receipt) {
+          await supabase.storage.from('expense-receipts').remove([receipt.storage_path])
+          const { error: receiptError } = await supabase
+            .from('expense_receipts')
+            .delete()
+            .eq('id', receipt.id)
+
+          if (receiptError) {
+            logger.warn('Failed to delete receipt record', {
+              localId,
+              receiptId: receipt.id,
+              error: receiptError.message,
+            })
+          }
+        }
+      }
+    }
+
+    // 5. Remove local records
+    await db.transaction('rw', db.expenses, db.receipts, db.syncQueue, async () => {
+      await db.expenses.delete(localId)
+      if (expense.receiptLocalId) {
+        await db.receipts.delete(expense.receiptLocalId)
+        await db.syncQueue.where('localId').equals(expense.receiptLocalId).delete()
+      }
+    })
+
+    logger.info('Expense deleted successfully', { localId, serverId })
+  }
+
   /**
    * Subscribe to sync status updates
    *
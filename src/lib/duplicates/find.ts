@@ -0,0 +1,166 @@
+import { db } from '@/lib/db'
+import { createClient } from '@/lib/supabase/client'
+import { DUPLICATE_DATE_WINDOW_DAYS, findDuplicateMatches } from './matching'
+import type { ApprovalStatus } from '@/types/expense-filters'
+import type { DuplicateCandidate, DuplicateCheckInput, DuplicateMatch } from '@/types/duplicates'
+
+/**
+ * Duplicate Lookup
+ *
+ * Collects candidate expenses around the expense date and scores them.
+ * Server candidates follow RLS: users see their own expenses, managers and
+ * approvers also see their team's. Expenses on this device that have not
+ * synced yet are included from IndexedDB.
+ */
+
+/** Maximum server expenses compared per check */
+const MAX_SERVER_CANDIDATES = 200
+
+/**
+ * Server expense with joined relations
+ */
+interface ServerDuplicateCandidate {
+  id: string
+  local_id: string | null
+  amount: number
+  expense_date: string
+  vendor_name: string | null
+  job_order_id: string | null
+  approval_status: string
+  receipt: { perceptual_hash: string | null } | null
+  job_order: { job_number: string } | null
+  submitter: { full_name: string | null; email: string } | null
+}
+
+export interface FindDuplicatesOptions {
+  /** Include unsynced expenses stored on this device */
+  includeLocal?: boolean
+  /** Include server expenses (skipped automatically when offline) */
+  includeServer?: boolean
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date.slice(0, 10)}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().slice(0, 10)
+}
+
+/**
+ * Unsynced local expenses around the date, with their receipt hashes
+ */
+async function getLocalCandidates(input: DuplicateCheckInput): Promise<DuplicateCandidate[]> {
+  const from = shiftDate(input.expenseDate, -DUPLICATE_DATE_WINDOW_DAYS)
+  const to = shiftDate(input.expenseDate, DUPLICATE_DATE_WINDOW_DAYS)
+
+  const expenses = await db.expenses
+    .filter(
+      (expense) =>
+        !expense.serverId &&
+        !expense.deletedAt &&
+        expense.expenseDate.slice(0, 10) >= from &&
+        expense.expenseDate.slice(0, 10) <= to
+    )
+    .toArray()
+
+  const receiptIds = expenses
+    .map((expense) => expense.receiptLocalId)
+    .filter((id): id is string => !!id)
+  const receipts = await db.receipts.bulkGet(receiptIds)
+  const hashByReceipt = new Map(
+    receipts
+      .filter((receipt) => receipt?.perceptualHash)
+      .map((receipt) => [receipt!.id, receipt!.perceptualHash as string])
+  )
+
+  return expenses.map((expense) => ({
+    id: expense.id,
+    localId: expense.id,
+    source: 'local' as const,
+    amount: expense.amount,
+    expenseDate: expense.expenseDate,
+    vendorName: expense.vendorName,
+    jobOrderId: expense.jobOrderId,
+    receiptHash: expense.receiptLocalId ? hashByReceipt.get(expense.receiptLocalId) : undefined,
+    approvalStatus: expense.approvalStatus ?? 'draft',
+  }))
+}
+
+/**
+ * Server expenses around the date visible to the current user
+ *
+ * Rejected expenses are left out; re-capturing one is expected.
+ */
+async function getServerCandidates(input: DuplicateCheckInput): Promise<DuplicateCandidate[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('expense_drafts')
+    .select(`
+      id, local_id, amount, expense_date, vendor_name, job_order_id, approval_status,
+      receipt:expense_receipts(perceptual_hash),
+      job_order:job_orders(job_number),
+      submitter:user_profiles!expense_drafts_user_id_fkey(full_name, email)
+    `)
+    .gte('expense_date', shiftDate(input.expenseDate, -DUPLICATE_DATE_WINDOW_DAYS))
+    .lte('expense_date', shiftDate(input.expenseDate, DUPLICATE_DATE_WINDOW_DAYS))
+    .neq('approval_status', 'rejected')
+    .order('expense_date', { ascending: false })
+    .limit(MAX_SERVER_CANDIDATES)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return ((data ?? []) as unknown as ServerDuplicateCandidate[]).map((expense) => {
+    const receipt = Array.isArray(expense.receipt) ? expense.receipt[0] : expense.receipt
+    const jobOrder = Array.isArray(expense.job_order) ? expense.job_order[0] : expense.job_order
+    const submitter = Array.isArray(expense.submitter) ? expense.submitter[0] : expense.submitter
+
+    return {
+      id: expense.id,
+      localId: expense.local_id ?? undefined,
+      source: 'server' as const,
+      amount: Number(expense.amount),
+      expenseDate: expense.expense_date,
+      vendorName: expense.vendor_name ?? undefined,
+      jobOrderId: expense.job_order_id ?? undefined,
+      jobNumber: jobOrder?.job_number,
+      receiptHash: receipt?.perceptual_hash ?? undefined,
+      submitterName: submitter?.full_name || submitter?.email,
+      approvalStatus: expense.approval_status as ApprovalStatus,
+    }
+  })
+}
+
+/**
+ * Find suspected duplicates of an expense
+ *
+ * A failing server lookup falls back to local candidates only, so saving
+ * is never blocked by the check.
+ *
+ * @returns Suspected duplicates, most likely first
+ */
+export async function findDuplicateExpenses(
+  input: DuplicateCheckInput,
+  { includeLocal = true, includeServer = true }: FindDuplicatesOptions = {}
+): Promise<DuplicateMatch[]> {
+  const candidates: DuplicateCandidate[] = []
+
+  if (includeLocal) {
+    candidates.push(...(await getLocalCandidates(input)))
+  }
+
+  const isOnline = typeof navigator === 'undefined' || navigator.onLine
+  if (includeServer && isOnline) {
+    try {
+      candidates.push(...(await getServerCandidates(input)))
+    } catch (error) {
+      console.warn('Duplicate check against server failed:', error)
+    }
+  }
+
+  return findDuplicateMatches(input, candidates)
+}
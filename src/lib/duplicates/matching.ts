@@ -0,0 +1,164 @@
+import { perceptualHashDistance } from '@/lib/image/perceptual-hash'
+import type {
+  DuplicateCandidate,
+  DuplicateCheckInput,
+  DuplicateMatch,
+  DuplicateReason,
+} from '@/types/duplicates'
+
+/**
+ * Duplicate Matching
+ *
+ * Pure scoring of an expense against existing ones. A match needs either
+ * the same receipt photo (close perceptual hash) with the same amount or
+ * date, or the same amount on the same day with a similar vendor or the
+ * same job. Results are warnings; nothing is blocked.
+ */
+
+/** Days around the expense date searched for duplicates */
+export const DUPLICATE_DATE_WINDOW_DAYS = 2
+
+/** Amounts within this ratio count as the same (OCR vs manual rounding) */
+const AMOUNT_TOLERANCE_RATIO = 0.01
+
+/** Maximum differing hash bits for two photos of the same receipt */
+const RECEIPT_HASH_MAX_DISTANCE = 8
+
+/** Minimum vendor name similarity (0-1) */
+const VENDOR_SIMILARITY_THRESHOLD = 0.8
+
+const REASON_WEIGHTS: Record<DuplicateReason, number> = {
+  same_receipt: 5,
+  same_amount: 3,
+  same_date: 2,
+  near_date: 1,
+  similar_vendor: 2,
+  same_job: 1,
+}
+
+/**
+ * Normalize a vendor name for comparison
+ */
+function normalizeVendor(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Whether two vendor names likely refer to the same vendor
+ *
+ * "SPBU 34.123.45" and "spbu 3412345", or "Shell" and "Shell Cikampek".
+ */
+export function isSimilarVendor(a?: string, b?: string): boolean {
+  if (!a || !b) return false
+
+  const left = normalizeVendor(a)
+  const right = normalizeVendor(b)
+  if (!left || !right) return false
+  if (left === right) return true
+
+  const compactLeft = left.replace(/ /g, '')
+  const compactRight = right.replace(/ /g, '')
+  if (compactLeft === compactRight) return true
+
+  // One name contained in the other as whole words
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left]
+  if (` ${longer} `.includes(` ${shorter} `)) return true
+
+  const longest = Math.max(compactLeft.length, compactRight.length)
+  return 1 - editDistance(compactLeft, compactRight) / longest >= VENDOR_SIMILARITY_THRESHOLD
+}
+
+/**
+ * Days between two YYYY-MM-DD dates
+ */
+function daysBetween(a: string, b: string): number {
+  const toDay = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / 86_400_000
+  return Math.abs(toDay(a) - toDay(b))
+}
+
+/**
+ * Compare an expense with an existing one
+ *
+ * @returns The match, or null when the candidate is not a suspected duplicate
+ */
+export function matchDuplicate(
+  input: DuplicateCheckInput,
+  candidate: DuplicateCandidate
+): DuplicateMatch | null {
+  const reasons: DuplicateReason[] = []
+
+  const days = daysBetween(input.expenseDate, candidate.expenseDate)
+  if (days > DUPLICATE_DATE_WINDOW_DAYS) return null
+
+  const sameReceipt =
+    !!input.receiptHash &&
+    !!candidate.receiptHash &&
+    (perceptualHashDistance(input.receiptHash, candidate.receiptHash) ?? Infinity) <=
+      RECEIPT_HASH_MAX_DISTANCE
+  const sameAmount =
+    Math.abs(input.amount - candidate.amount) <=
+    Math.max(input.amount, candidate.amount) * AMOUNT_TOLERANCE_RATIO
+  const similarVendor = isSimilarVendor(input.vendorName, candidate.vendorName)
+  const sameJob = !!input.jobOrderId && input.jobOrderId === candidate.jobOrderId
+
+  if (sameReceipt) reasons.push('same_receipt')
+  if (sameAmount) reasons.push('same_amount')
+  reasons.push(days === 0 ? 'same_date' : 'near_date')
+  if (similarVendor) reasons.push('similar_vendor')
+  if (sameJob) reasons.push('same_job')
+
+  const isDuplicate = sameReceipt
+    ? sameAmount || days === 0
+    : sameAmount && days === 0 && (similarVendor || sameJob)
+
+  if (!isDuplicate) return null
+
+  return {
+    expense: candidate,
+    reasons,
+    score: reasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0),
+  }
+}
+
+/**
+ * Find the suspected duplicates of an expense, most likely first
+ */
+export function findDuplicateMatches(
+  input: DuplicateCheckInput,
+  candidates: DuplicateCandidate[]
+): DuplicateMatch[] {
+  const excluded = new Set(input.excludeIds ?? [])
+
+  return candidates
+    .filter(
+      (candidate) =>
+        !excluded.has(candidate.id) && !(candidate.localId && excluded.has(candidate.localId))
+    )
+    .map((candidate) => matchDuplicate(input, candidate))
+    .filter((match): match is DuplicateMatch => match !== null)
+    .sort((a, b) => b.score - a.score)
+}
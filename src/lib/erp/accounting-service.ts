@@ -0,0 +1,504 @@
+import { createClient } from '@/lib/supabase/server'
+import { ACCOUNTING_ROLES } from '@/lib/accounting/roles'
+import {
+  buildJournalLines,
+  resolveAccountingMapping,
+  resolveRecordAccounting,
+  toCostCenter,
+} from '@/lib/accounting/mapping'
+import {
+  getAdvanceAccount,
+  getPettyCashAccount,
+  journalBatchPrefix,
+  nextJournalBatchNumber,
+  toJournalBatch,
+} from '@/lib/accounting/journal'
+import type {
+  AccountingMapping,
+  CostCenter,
+  JournalBatch,
+  JournalLine,
+} from '@/types/accounting'
+
+/**
+ * Accounting Service
+ *
+ * Resolves the chart-of-accounts code and cost center of an expense for
+ * its BKK record, and exports approved expense and cash advance BKK
+ * records as journal batches (debit expense or employee advance account,
+ * credit petty cash) for the accounting system. Each record is exported
+ * in one batch only.
+ */
+
+export interface SaveCostCenterInput {
+  /** Existing center to update; omit to create a center */
+  id?: string
+  code: string
+  name: string
+  branchCode?: string | null
+  customerName?: string | null
+  isOverhead: boolean
+  isDefault: boolean
+  isActive: boolean
+}
+
+export interface CostCenterResult {
+  success: boolean
+  costCenterId?: string
+  error?: string
+}
+
+export interface JournalBatchResult {
+  success: boolean
+  batch?: JournalBatch
+  error?: string
+}
+
+export interface JournalExportResult extends JournalBatchResult {
+  lines?: JournalLine[]
+}
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+type CategoryAccounts = { glAccountCode: string | null; overheadGlAccountCode: string | null }
+
+/** Records listed in the error when some have no account */
+const MAX_LISTED_RECORDS = 5
+
+/**
+ * Get the current user if they may manage accounting
+ */
+async function getAccountingManager(
+  supabase: ServerClient
+): Promise<{ userId?: string; error?: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { error: 'User not authenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !ACCOUNTING_ROLES.includes(profile.role)) {
+    return { error: 'Insufficient permissions' }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * Fetch the defined cost centers
+ *
+ * @throws Error if the query fails
+ */
+async function fetchCostCenters(supabase: ServerClient): Promise<CostCenter[]> {
+  const { data, error } = await supabase.from('cost_centers').select('*')
+
+  if (error) {
+    throw new Error(`Failed to fetch cost centers: ${error.message}`)
+  }
+
+  return (data ?? []).map(toCostCenter)
+}
+
+/**
+ * Resolve the account and cost center of an expense for its BKK record
+ *
+ * @param category - Accounts of the expense's category, null if unknown
+ * @throws Error if the Supabase queries fail
+ */
+export async function resolveBKKAccounting(
+  supabase: ServerClient,
+  expense: { category: CategoryAccounts | null; isOverhead: boolean; jobOrderId?: string | null }
+): Promise<AccountingMapping> {
+  const [centers, jobResult] = await Promise.all([
+    fetchCostCenters(supabase),
+    expense.jobOrderId
+      ? supabase
+          .from('job_orders')
+          .select('customer_name, branch_code')
+          .eq('id', expense.jobOrderId)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+  ])
+
+  return resolveAccountingMapping(
+    {
+      isOverhead: expense.isOverhead,
+      customerName: jobResult.data?.customer_name,
+      branchCode: jobResult.data?.branch_code,
+    },
+    expense.category,
+    centers
+  )
+}
+
+/**
+ * Create or update a cost center (accounting roles only)
+ */
+export async function saveCostCenter(input: SaveCostCenterInput): Promise<CostCenterResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getAccountingManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const code = input.code.trim()
+  const name = input.name.trim()
+  if (!code || !name) {
+    return { success: false, error: 'Code and name are required' }
+  }
+  if (input.isOverhead && input.isDefault) {
+    return { success: false, error: 'The default center is for job expenses, not overhead' }
+  }
+
+  // Only one default center
+  if (input.isDefault) {
+    let clearDefault = supabase
+      .from('cost_centers')
+      .update({ is_default: false, updated_by: userId })
+      .eq('is_default', true)
+    if (input.id) {
+      clearDefault = clearDefault.neq('id', input.id)
+    }
+
+    const { error: clearError } = await clearDefault
+    if (clearError) {
+      return { success: false, error: `Failed to update default cost center: ${clearError.message}` }
+    }
+  }
+
+  const values = {
+    code,
+    name,
+    branch_code: input.branchCode?.trim() || null,
+    customer_name: input.customerName?.trim() || null,
+    is_overhead: input.isOverhead,
+    is_default: input.isDefault,
+    is_active: input.isActive,
+    updated_by: userId,
+  }
+
+  const { data, error } = input.id
+    ? await supabase
+        .from('cost_centers')
+        .update(values)
+        .eq('id', input.id)
+        .select('id')
+        .single()
+    : await supabase
+        .from('cost_centers')
+        .insert({ ...values, created_by: userId })
+        .select('id')
+        .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'A cost center with this code already exists' }
+    }
+    return { success: false, error: `Failed to save cost center: ${error.message}` }
+  }
+
+  return { success: true, costCenterId: data.id }
+}
+
+/**
+ * Delete a cost center (accounting roles only)
+ *
+ * BKK records keep the cost center code they were booked to.
+ */
+export async function deleteCostCenter(costCenterId: string): Promise<CostCenterResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getAccountingManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const { error } = await supabase
+    .from('cost_centers')
+    .delete()
+    .eq('id', costCenterId)
+
+  if (error) {
+    return { success: false, error: `Failed to delete cost center: ${error.message}` }
+  }
+
+  return { success: true, costCenterId }
+}
+
+type JournalRecord = {
+  id: string
+  record_number: string
+  amount: number | string
+  source_expense_id: string | null
+  source_advance_id: string | null
+  gl_account_code: string | null
+  cost_center_code: string | null
+}
+
+/**
+ * Fill in the account and cost center of records created before the
+ * mapping existed (or whose category had no account yet)
+ *
+ * Advance records get the employee advance account (see
+ * resolveRecordAccounting). The resolved codes are stored on the records.
+ *
+ * @throws Error if the Supabase queries fail
+ */
+async function backfillAccounting(
+  supabase: ServerClient,
+  records: JournalRecord[],
+  advanceAccountCode: string | null
+): Promise<void> {
+  const missing = records.filter((record) =>
+    record.source_advance_id
+      ? !record.gl_account_code
+      : !record.gl_account_code || !record.cost_center_code
+  )
+  if (missing.length === 0) return
+
+  const expenseIds = missing
+    .map((record) => record.source_expense_id)
+    .filter((id): id is string => !!id)
+
+  const [centers, categoriesResult, expensesResult] = await Promise.all([
+    fetchCostCenters(supabase),
+    supabase.from('expense_categories').select('code, gl_account_code, overhead_gl_account_code'),
+    supabase
+      .from('expense_drafts')
+      .select('id, category, is_overhead, job_order:job_orders(customer_name, branch_code)')
+      .in('id', expenseIds),
+  ])
+
+  if (categoriesResult.error) {
+    throw new Error(`Failed to fetch expense categories: ${categoriesResult.error.message}`)
+  }
+  if (expensesResult.error) {
+    throw new Error(`Failed to fetch expenses: ${expensesResult.error.message}`)
+  }
+
+  const categories = new Map<string, CategoryAccounts>(
+    (categoriesResult.data ?? []).map(
+      (row: { code: string; gl_account_code: string | null; overhead_gl_account_code: string | null }) => [
+        row.code,
+        { glAccountCode: row.gl_account_code, overheadGlAccountCode: row.overhead_gl_account_code },
+      ]
+    )
+  )
+  const expenses = new Map<string, { category: string; is_overhead: boolean; job_order: unknown }>(
+    (expensesResult.data ?? []).map((row: { id: string; category: string; is_overhead: boolean; job_order: unknown }) => [row.id, row])
+  )
+
+  for (const record of missing) {
+    let expenseMapping: AccountingMapping | null = null
+
+    if (!record.source_advance_id) {
+      const expense = record.source_expense_id ? expenses.get(record.source_expense_id) : undefined
+      if (!expense) continue
+
+      const job = (Array.isArray(expense.job_order) ? expense.job_order[0] : expense.job_order) as
+        | { customer_name: string | null; branch_code: string | null }
+        | null
+      expenseMapping = resolveAccountingMapping(
+        {
+          isOverhead: !!expense.is_overhead,
+          customerName: job?.customer_name,
+          branchCode: job?.branch_code,
+        },
+        categories.get(expense.category) ?? null,
+        centers
+      )
+    }
+
+    // Keep codes already stored; only fill the gaps
+    const mapping = resolveRecordAccounting(
+      {
+        isAdvance: !!record.source_advance_id,
+        glAccountCode: record.gl_account_code,
+        costCenterCode: record.cost_center_code,
+      },
+      expenseMapping,
+      advanceAccountCode
+    )
+    const values = {
+      gl_account_code: mapping.glAccountCode,
+      cost_center_code: mapping.costCenterCode,
+    }
+    if (values.gl_account_code === record.gl_account_code && values.cost_center_code === record.cost_center_code) {
+      continue
+    }
+
+    const { error } = await supabase.from('bkk_records').update(values).eq('id', record.id)
+    if (error) {
+      throw new Error(`Failed to update BKK accounting: ${error.message}`)
+    }
+    Object.assign(record, values)
+  }
+}
+
+/**
+ * Export the approved expense and cash advance BKK records of a period as
+ * a journal batch (accounting roles only)
+ *
+ * Records already in a batch are skipped. Fails without creating a batch
+ * when a record has no GL account, so accounting never imports blanks.
+ * `create_journal_batch` creates the batch and assigns the records in one
+ * transaction; if another export took some of them meanwhile, nothing is
+ * created.
+ */
+export async function createJournalBatch(input: {
+  dateFrom: string
+  dateTo: string
+}): Promise<JournalBatchResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getAccountingManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  if (!input.dateFrom || !input.dateTo || input.dateFrom > input.dateTo) {
+    return { success: false, error: 'Invalid date range' }
+  }
+
+  const creditAccountCode = getPettyCashAccount()
+  if (!creditAccountCode) {
+    return { success: false, error: 'Petty cash account is not configured (ACCOUNTING_PETTY_CASH_ACCOUNT)' }
+  }
+
+  try {
+    // Expense records and the records of cash advances (whose expenses have none)
+    const { data, error: recordsError } = await supabase
+      .from('bkk_records')
+      .select('id, record_number, amount, source_expense_id, source_advance_id, gl_account_code, cost_center_code')
+      .in('status', ['approved', 'paid'])
+      .or('source_expense_id.not.is.null,source_advance_id.not.is.null')
+      .is('journal_batch_id', null)
+      .gte('record_date', input.dateFrom)
+      .lte('record_date', input.dateTo)
+
+    if (recordsError) {
+      return { success: false, error: `Failed to fetch BKK records: ${recordsError.message}` }
+    }
+
+    const records = (data ?? []) as JournalRecord[]
+    if (records.length === 0) {
+      return { success: false, error: 'No approved BKK records to export in this period' }
+    }
+
+    const advanceAccountCode = getAdvanceAccount()
+    if (!advanceAccountCode && records.some((record) => record.source_advance_id)) {
+      return { success: false, error: 'Employee advance account is not configured (ACCOUNTING_ADVANCE_ACCOUNT)' }
+    }
+
+    await backfillAccounting(supabase, records, advanceAccountCode)
+
+    const unmapped = records.filter((record: { gl_account_code: string | null }) => !record.gl_account_code)
+    if (unmapped.length > 0) {
+      const numbers = unmapped
+        .slice(0, MAX_LISTED_RECORDS)
+        .map((record: { record_number: string }) => record.record_number)
+        .join(', ')
+      const more = unmapped.length > MAX_LISTED_RECORDS ? ` and ${unmapped.length - MAX_LISTED_RECORDS} more` : ''
+      return {
+        success: false,
+        error: `No GL account for ${numbers}${more}; set the GL account of their categories`,
+      }
+    }
+
+    // Batch number for the month
+    const now = new Date()
+    const { data: last } = await supabase
+      .from('journal_batches')
+      .select('batch_number')
+      .like('batch_number', `${journalBatchPrefix(now)}-%`)
+      .order('batch_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    // Create the batch and assign the records to it in one transaction
+    const { data: batch, error: batchError } = await supabase.rpc('create_journal_batch', {
+      p_batch_number: nextJournalBatchNumber(last?.batch_number ?? null, now),
+      p_date_from: input.dateFrom,
+      p_date_to: input.dateTo,
+      p_credit_account_code: creditAccountCode,
+      p_record_ids: records.map((record) => record.id),
+    })
+
+    if (batchError) {
+      if (batchError.code === '23505') {
+        return { success: false, error: 'Another batch was created at the same time, please retry' }
+      }
+      return { success: false, error: `Failed to create journal batch: ${batchError.message}` }
+    }
+
+    return { success: true, batch: toJournalBatch(batch) }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create journal batch',
+    }
+  }
+}
+
+/**
+ * Get a journal batch with its lines for export (accounting roles only)
+ */
+export async function getJournalBatchExport(batchId: string): Promise<JournalExportResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getAccountingManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const [{ data: batch, error: batchError }, { data: records, error: recordsError }] =
+    await Promise.all([
+      supabase.from('journal_batches').select('*').eq('id', batchId).single(),
+      supabase
+        .from('bkk_records')
+        .select('record_number, record_date, amount, description, gl_account_code, cost_center_code')
+        .eq('journal_batch_id', batchId)
+        .order('record_date')
+        .order('record_number'),
+    ])
+
+  if (batchError) {
+    return { success: false, error: `Failed to fetch journal batch: ${batchError.message}` }
+  }
+  if (recordsError) {
+    return { success: false, error: `Failed to fetch BKK records: ${recordsError.message}` }
+  }
+
+  const journalBatch = toJournalBatch(batch)
+
+  return {
+    success: true,
+    batch: journalBatch,
+    lines: buildJournalLines(
+      (records ?? []).map(
+        (record: {
+          record_number: string
+          record_date: string
+          amount: number | string
+          description: string
+          gl_account_code: string
+          cost_center_code: string | null
+        }) => ({
+          recordNumber: record.record_number,
+          recordDate: record.record_date,
+          amount: Number(record.amount),
+          description: record.description,
+          glAccountCode: record.gl_account_code,
+          costCenterCode: record.cost_center_code,
+        })
+      ),
+      journalBatch.creditAccountCode
+    ),
+  }
+}
@@ -0,0 +1,263 @@
+import { createClient } from '@/lib/supabase/server'
+import { ADVANCE_MANAGER_ROLES } from '@/lib/advances/roles'
+import { calculateSettlement } from '@/lib/advances/settlement'
+import { generateBKKNumbers } from './bkk-generator'
+import type { AdvanceSettlement } from '@/types/cash-advance'
+import type { ApprovalStatus } from '@/types/expense-filters'
+
+/**
+ * Cash Advance Service
+ *
+ * Handles cash advances (kasbon): finance issues an advance to a user,
+ * the user allocates captured expenses to it, and when the trip closes
+ * the advance is settled against its approved expenses.
+ */
+
+export interface IssueAdvanceInput {
+  userId: string
+  amount: number
+  jobOrderId?: string
+  purpose?: string
+}
+
+export interface IssueAdvanceResult {
+  success: boolean
+  advanceId?: string
+  advanceNumber?: string
+  error?: string
+}
+
+export interface SettlementResult {
+  success: boolean
+  settlement?: AdvanceSettlement
+  error?: string
+}
+
+/**
+ * Get the current user if they may manage advances
+ */
+async function getAdvanceManager(
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<{ userId?: string; error?: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { error: 'User not authenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !ADVANCE_MANAGER_ROLES.includes(profile.role)) {
+    return { error: 'Insufficient permissions' }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * Generate a new advance number for the current month
+ * Format: KSB-YYYYMM-XXXX (e.g., KSB-202602-0001)
+ */
+async function generateAdvanceNumber(
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<string> {
+  const now = new Date()
+  const prefix = `KSB-${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}`
+
+  const { data, error } = await supabase
+    .from('cash_advances')
+    .select('advance_number')
+    .like('advance_number', `${prefix}-%`)
+    .order('advance_number', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to get last advance number: ${error.message}`)
+  }
+
+  let sequence = 1
+  if (data && data.length > 0) {
+    const lastSequence = parseInt(data[0].advance_number.split('-')[2], 10)
+    if (!isNaN(lastSequence)) {
+      sequence = lastSequence + 1
+    }
+  }
+
+  return `${prefix}-${String(sequence).padStart(4, '0')}`
+}
+
+/**
+ * Load an advance and its allocated expenses and calculate the settlement
+ */
+async function loadSettlement(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  advanceId: string
+) {
+  const { data: advance, error: advanceError } = await supabase
+    .from('cash_advances')
+    .select('*')
+    .eq('id', advanceId)
+    .single()
+
+  if (advanceError || !advance) {
+    return { error: `Failed to fetch advance: ${advanceError?.message ?? 'not found'}` }
+  }
+
+  const { data: expenses, error: expensesError } = await supabase
+    .from('expense_drafts')
+    .select('id, amount, approval_status')
+    .eq('advance_id', advanceId)
+
+  if (expensesError) {
+    return { error: `Failed to fetch advance expenses: ${expensesError.message}` }
+  }
+
+  const settlement = calculateSettlement(
+    { id: advance.id, advanceNumber: advance.advance_number, amount: Number(advance.amount) },
+    (expenses ?? []).map((expense) => ({
+      id: expense.id,
+      amount: Number(expense.amount),
+      approvalStatus: expense.approval_status as ApprovalStatus,
+    }))
+  )
+
+  return { advance, settlement }
+}
+
+/**
+ * Issue a cash advance to a user (finance roles only)
+ */
+export async function issueAdvance(input: IssueAdvanceInput): Promise<IssueAdvanceResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getAdvanceManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  if (!input.userId) {
+    return { success: false, error: 'Recipient is required' }
+  }
+  if (!(input.amount > 0)) {
+    return { success: false, error: 'Amount must be greater than 0' }
+  }
+
+  try {
+    const advanceNumber = await generateAdvanceNumber(supabase)
+
+    const { data, error } = await supabase
+      .from('cash_advances')
+      .insert({
+        advance_number: advanceNumber,
+        user_id: input.userId,
+        job_order_id: input.jobOrderId || null,
+        amount: input.amount,
+        purpose: input.purpose?.trim() || null,
+        status: 'open',
+        issued_by: userId,
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      return { success: false, error: `Failed to issue advance: ${error.message}` }
+    }
+
+    return { success: true, advanceId: data.id, advanceNumber }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to issue advance',
+    }
+  }
+}
+
+/**
+ * Get the settlement summary of an advance
+ *
+ * Visible to the advance holder and finance (enforced by RLS).
+ */
+export async function getAdvanceSettlement(advanceId: string): Promise<SettlementResult> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { success: false, error: 'User not authenticated' }
+  }
+
+  const { settlement, error } = await loadSettlement(supabase, advanceId)
+  if (!settlement) {
+    return { success: false, error }
+  }
+
+  return { success: true, settlement }
+}
+
+/**
+ * Settle an advance when the trip closes (finance roles only)
+ *
+ * This function:
+ * 1. Calculates the settlement from the approved expenses
+ * 2. Refuses while allocated expenses are still draft or pending approval
+ * 3. Runs `settle_cash_advance`, which in one transaction creates the BKK
+ *    record for the cash handed out (if not recorded yet), the BKK record
+ *    for the reimbursement when the user overspent, and marks the advance
+ *    as settled with the refund/reimbursement amount
+ *
+ * Expenses on an advance get no BKK record of their own, so the cash
+ * handed out is only recorded once, by the advance's BKK records.
+ */
+export async function settleAdvance(advanceId: string): Promise<SettlementResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getAdvanceManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  // 1. Calculate the settlement
+  const { advance, settlement, error } = await loadSettlement(supabase, advanceId)
+  if (!advance || !settlement) {
+    return { success: false, error }
+  }
+
+  if (advance.status !== 'open') {
+    return { success: false, error: 'Only open advances can be settled' }
+  }
+
+  // 2. Every allocated expense must be approved or rejected first
+  if (settlement.unresolvedCount > 0) {
+    return {
+      success: false,
+      error: 'All expenses on the advance must be approved or rejected before settlement',
+    }
+  }
+
+  try {
+    // 3. Create the BKK records and close the advance atomically; the
+    // function re-checks that the advance is still open
+    const needsAdvanceBkk = !advance.bkk_record_id
+    const needsSettlementBkk = settlement.outcome === 'reimbursement'
+    const bkkNumbers = await generateBKKNumbers(Number(needsAdvanceBkk) + Number(needsSettlementBkk))
+
+    const { error: settleError } = await supabase.rpc('settle_cash_advance', {
+      p_advance_id: advanceId,
+      p_bkk_number: needsAdvanceBkk ? bkkNumbers.shift() : null,
+      p_settlement_bkk_number: needsSettlementBkk ? bkkNumbers.shift() : null,
+    })
+
+    if (settleError) {
+      return { success: false, error: `Failed to settle advance: ${settleError.message}` }
+    }
+
+    return { success: true, settlement }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to settle advance',
+    }
+  }
+}
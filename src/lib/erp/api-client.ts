@@ -4,6 +4,16 @@
  * Client-side functions to call ERP API routes
  */
 
+import type { AdvanceSettlement } from '@/types/cash-advance'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { PolicyRuleType } from '@/types/expense-policy'
+import type { PerDiemPlan } from '@/types/per-diem'
+import type { JournalBatch } from '@/types/accounting'
+import type { PaymentMethod } from '@/types/payment'
+import type { ReimbursementEmployee, ReimbursementRun } from '@/types/reimbursement'
+import type { UserRole } from '@/types/supabase'
+import type { ApprovalDecision, BulkDecisionItemResult } from '@/types/approval'
+
 export interface SubmitResult {
   success: boolean
   bkkNumber?: string
@@ -15,6 +25,76 @@ export interface ApprovalResult {
   error?: string
 }
 
+export interface BulkDecisionResult {
+  success: boolean
+  results?: BulkDecisionItemResult[]
+  error?: string
+}
+
+export interface IssueAdvanceResult {
+  success: boolean
+  advanceId?: string
+  advanceNumber?: string
+  error?: string
+}
+
+export interface SettlementResult {
+  success: boolean
+  settlement?: AdvanceSettlement
+  error?: string
+}
+
+export interface PolicyResult {
+  success: boolean
+  policyId?: string
+  error?: string
+}
+
+export interface PerDiemPlanResult {
+  success: boolean
+  plan?: PerDiemPlan
+  createdCount?: number
+  error?: string
+}
+
+export interface PerDiemRateResult {
+  success: boolean
+  rateId?: string
+  error?: string
+}
+
+export interface CategoryResult {
+  success: boolean
+  code?: string
+  error?: string
+}
+
+export interface CostCenterResult {
+  success: boolean
+  costCenterId?: string
+  error?: string
+}
+
+export interface JournalBatchResult {
+  success: boolean
+  batch?: JournalBatch
+  error?: string
+}
+
+export interface PaymentResult {
+  success: boolean
+  paymentId?: string
+  paidCount?: number
+  error?: string
+}
+
+export interface ReimbursementRunResult {
+  success: boolean
+  run?: ReimbursementRun
+  employees?: ReimbursementEmployee[]
+  error?: string
+}
+
 /**
  * Submit an expense for approval
  */
@@ -55,6 +135,25 @@ export async function rejectExpenseApi(
   return response.json()
 }
 
+/**
+ * Approve or reject several expenses at once (step approvers only)
+ *
+ * Each expense is decided on its own; check the per-item results.
+ */
+export async function decideExpensesInBulkApi(input: {
+  expenseIds: string[]
+  decision: ApprovalDecision
+  reason?: string
+}): Promise<BulkDecisionResult> {
+  const response = await fetch('/api/expenses/bulk-decision', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+
+  return response.json()
+}
+
 /**
  * Resubmit a rejected expense
  */
@@ -87,3 +186,294 @@ export async function batchSubmitExpenses(
 
   return { successful, failed }
 }
+
+/**
+ * Issue a cash advance to a user (finance roles only)
+ */
+export async function issueAdvanceApi(input: {
+  userId: string
+  amount: number
+  jobOrderId?: string
+  purpose?: string
+}): Promise<IssueAdvanceResult> {
+  const response = await fetch('/api/advances', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+
+  return response.json()
+}
+
+/**
+ * Get the settlement summary of an advance
+ */
+export async function getAdvanceSettlementApi(advanceId: string): Promise<SettlementResult> {
+  const response = await fetch(`/api/advances/${advanceId}/settlement`)
+
+  return response.json()
+}
+
+/**
+ * Settle an advance (finance roles only)
+ */
+export async function settleAdvanceApi(advanceId: string): Promise<SettlementResult> {
+  const response = await fetch(`/api/advances/${advanceId}/settle`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+  return response.json()
+}
+
+/**
+ * Create or update a spending policy rule (finance roles only)
+ */
+export async function saveExpensePolicyApi(input: {
+  id?: string
+  category: ExpenseCategory
+  role: UserRole | null
+  ruleType: PolicyRuleType
+  amount: number
+  isActive: boolean
+}): Promise<PolicyResult> {
+  const { id, ...body } = input
+  const response = await fetch(id ? `/api/policies/${id}` : '/api/policies', {
+    method: id ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+  return response.json()
+}
+
+/**
+ * Delete a spending policy rule (finance roles only)
+ */
+export async function deleteExpensePolicyApi(policyId: string): Promise<PolicyResult> {
+  const response = await fetch(`/api/policies/${policyId}`, {
+    method: 'DELETE',
+  })
+
+  return response.json()
+}
+
+/**
+ * Preview the daily allowances of a job order's trip
+ */
+export async function getPerDiemPlanApi(jobOrderId: string): Promise<PerDiemPlanResult> {
+  const response = await fetch(`/api/jobs/${jobOrderId}/per-diem`)
+
+  return response.json()
+}
+
+/**
+ * Generate the missing daily allowances of a job order's trip
+ */
+export async function generatePerDiemApi(jobOrderId: string): Promise<PerDiemPlanResult> {
+  const response = await fetch(`/api/jobs/${jobOrderId}/per-diem`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+  return response.json()
+}
+
+/**
+ * Create or update a per diem rate
+ */
+export async function savePerDiemRateApi(input: {
+  id?: string
+  region: string
+  keywords: string[]
+  mealRate: number
+  lodgingRate: number
+  isDefault: boolean
+  isActive: boolean
+}): Promise<PerDiemRateResult> {
+  const { id, ...body } = input
+  const response = await fetch(id ? `/api/per-diem-rates/${id}` : '/api/per-diem-rates', {
+    method: id ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+  return response.json()
+}
+
+/**
+ * Delete a per diem rate
+ */
+export async function deletePerDiemRateApi(rateId: string): Promise<PerDiemRateResult> {
+  const response = await fetch(`/api/per-diem-rates/${rateId}`, {
+    method: 'DELETE',
+  })
+
+  return response.json()
+}
+
+/**
+ * Create or update an expense category (finance roles only)
+ *
+ * @param input - Category values; `isNew` creates the category with `code`
+ */
+export async function saveExpenseCategoryApi(input: {
+  code: string
+  isNew: boolean
+  label: string
+  labelFull?: string
+  icon: string
+  color: string
+  glAccountCode?: string | null
+  overheadGlAccountCode?: string | null
+  sortOrder: number
+  isActive: boolean
+}): Promise<CategoryResult> {
+  const { code, isNew, ...body } = input
+  const response = await fetch(isNew ? '/api/categories' : `/api/categories/${code}`, {
+    method: isNew ? 'POST' : 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(isNew ? { code, ...body } : body),
+  })
+
+  return response.json()
+}
+
+/**
+ * Create or update a cost center (accounting roles only)
+ */
+export async function saveCostCenterApi(input: {
+  id?: string
+  code: string
+  name: string
+  branchCode?: string | null
+  customerName?: string | null
+  isOverhead: boolean
+  isDefault: boolean
+  isActive: boolean
+}): Promise<CostCenterResult> {
+  const { id, ...body } = input
+  const response = await fetch(id ? `/api/cost-centers/${id}` : '/api/cost-centers', {
+    method: id ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+  return response.json()
+}
+
+/**
+ * Delete a cost center (accounting roles only)
+ */
+export async function deleteCostCenterApi(costCenterId: string): Promise<CostCenterResult> {
+  const response = await fetch(`/api/cost-centers/${costCenterId}`, {
+    method: 'DELETE',
+  })
+
+  return response.json()
+}
+
+/**
+ * Create a journal batch of the approved BKK records in a period
+ * (accounting roles only)
+ */
+export async function createJournalBatchApi(input: {
+  dateFrom: string
+  dateTo: string
+}): Promise<JournalBatchResult> {
+  const response = await fetch('/api/journal-batches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+
+  return response.json()
+}
+
+/**
+ * Record the payment of approved expenses
+ */
+export async function recordPaymentApi(input: {
+  expenseIds: string[]
+  method: PaymentMethod
+  referenceNumber?: string
+  paidDate: string
+  notes?: string
+}): Promise<PaymentResult> {
+  const response = await fetch('/api/payments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+
+  return response.json()
+}
+
+/**
+ * Create a draft reimbursement run of a period
+ */
+export async function createReimbursementRunApi(input: {
+  dateFrom: string
+  dateTo: string
+}): Promise<ReimbursementRunResult> {
+  const response = await fetch('/api/reimbursement-runs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+
+  return response.json()
+}
+
+/**
+ * Get a reimbursement run with its items grouped per employee
+ */
+export async function getReimbursementRunApi(runId: string): Promise<ReimbursementRunResult> {
+  const response = await fetch(`/api/reimbursement-runs/${runId}`)
+
+  return response.json()
+}
+
+/**
+ * Exclude expenses from a draft reimbursement run, or include them again
+ */
+export async function setReimbursementItemsExcludedApi(
+  runId: string,
+  expenseIds: string[],
+  excluded: boolean
+): Promise<ReimbursementRunResult> {
+  const response = await fetch(`/api/reimbursement-runs/${runId}/items`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expenseIds, excluded }),
+  })
+
+  return response.json()
+}
+
+/**
+ * Discard a draft reimbursement run
+ */
+export async function discardReimbursementRunApi(runId: string): Promise<ReimbursementRunResult> {
+  const response = await fetch(`/api/reimbursement-runs/${runId}`, {
+    method: 'DELETE',
+  })
+
+  return response.json()
+}
+
+/**
+ * Confirm a draft reimbursement run, paying all included expenses
+ */
+export async function confirmReimbursementRunApi(
+  runId: string,
+  input: { paidDate: string; referenceNumber?: string }
+): Promise<PaymentResult> {
+  const response = await fetch(`/api/reimbursement-runs/${runId}/confirm`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+
+  return response.json()
+}
@@ -1,12 +1,31 @@
 import { createClient } from '@/lib/supabase/server'
-import { createBKKRecord } from './bkk-service'
+import { createBKKRecord, updateBKKRecord } from './bkk-service'
+import { checkExpensePolicies } from './policy-service'
+import { logger } from '@/lib/logger'
+import type { CreateBKKInput } from './bkk-service'
 import type { ApprovalStatus } from '@/types/expense-filters'
+import type {
+  ApprovalDecision,
+  ApprovalEventType,
+  BulkDecisionItemResult,
+} from '@/types/approval'
 
 /**
  * Approval Service
  * 
  * Handles expense approval workflow including submission,
  * approval, and rejection operations.
+ *
+ * Expenses move through ordered approval steps resolved from
+ * APPROVAL_POLICY, with the thresholds configured in approval_thresholds,
+ * at submission by `submit_expense_for_approval`. Each step is recorded in
+ * expense_approval_steps with its approver and timestamp.
+ *
+ * Every state transition is appended to expense_approval_events, an
+ * insert-only audit log that keeps the history across resubmissions.
+ *
+ * Spending policies are evaluated at each submission and the violations
+ * stored on the expense for approvers.
  */
 
 export interface SubmitResult {
@@ -20,9 +39,81 @@ export interface ApprovalResult {
   error?: string
 }
 
+export interface BulkDecisionInput {
+  expenseIds: string[]
+  decision: ApprovalDecision
+  /** Shared rejection reason (required when rejecting) */
+  reason?: string
+}
+
+export interface BulkDecisionResult {
+  success: boolean
+  /** One result per expense */
+  results?: BulkDecisionItemResult[]
+  error?: string
+}
+
+/** Largest batch decided in one request */
+const MAX_BULK_DECISIONS = 200
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+interface ApprovalEventInput {
+  expenseId: string
+  eventType: ApprovalEventType
+  actorId: string
+  fromStatus?: ApprovalStatus
+  toStatus?: ApprovalStatus
+  stepOrder?: number
+  stepLabel?: string
+  reason?: string
+  bkkNumber?: string | null
+  bkkStatus?: string
+}
+
+/**
+ * Append an event to the approval audit log
+ *
+ * Called after the transition succeeded. A failed insert is logged but
+ * does not fail the transition, which has already been applied.
+ */
+async function recordApprovalEvent(
+  supabase: ServerClient,
+  event: ApprovalEventInput
+): Promise<void> {
+  const { error } = await supabase
+    .from('expense_approval_events')
+    .insert({
+      expense_id: event.expenseId,
+      event_type: event.eventType,
+      actor_id: event.actorId,
+      from_status: event.fromStatus ?? null,
+      to_status: event.toStatus ?? null,
+      step_order: event.stepOrder ?? null,
+      step_label: event.stepLabel ?? null,
+      reason: event.reason ?? null,
+      bkk_number: event.bkkNumber ?? null,
+      bkk_status: event.bkkStatus ?? null,
+    })
+
+  if (error) {
+    logger.error('Failed to record approval event', new Error(error.message), {
+      operation: 'recordApprovalEvent',
+      expenseId: event.expenseId,
+      eventType: event.eventType,
+    })
+  }
+}
+
 /**
  * Submit an expense for approval
- * Creates a BKK record if not exists and updates status to pending_approval
+ * Creates a BKK record if not exists (or brings the existing one in line
+ * with a corrected expense on resubmission), then runs `submit_expense_for_approval`,
+ * which creates the approval steps for the expense amount, records spending
+ * policy violations and updates status to pending_approval
+ *
+ * Expenses on a cash advance get no BKK record of their own: the cash was
+ * handed out with the advance and is recorded when it is settled.
  */
 export async function submitForApproval(expenseId: string): Promise<SubmitResult> {
   const supabase = await createClient()
@@ -57,20 +148,29 @@ export async function submitForApproval(expenseId: string): Promise<SubmitResult
   }
 
   try {
+    // Flag spending policy violations for approvers
+    const policyViolations = await checkExpensePolicies(supabase, expense)
+
     let bkkNumber = expense.bkk_number
 
-    // Create BKK record if not exists
-    if (!expense.bkk_record_id) {
-      const bkkId = await createBKKRecord({
-        expenseId: expense.id,
-        amount: expense.amount,
-        description: expense.description || '',
-        vendorId: expense.vendor_id,
-        jobOrderId: expense.job_order_id,
-        receiptPath: expense.receipt?.storage_path,
-        expenseDate: expense.expense_date,
-        category: expense.category,
-      })
+    const bkkInput: CreateBKKInput = {
+      expenseId: expense.id,
+      amount: expense.amount,
+      description: expense.description || '',
+      vendorId: expense.vendor_id,
+      jobOrderId: expense.job_order_id,
+      receiptPath: expense.receipt?.storage_path,
+      expenseDate: expense.expense_date,
+      category: expense.category,
+      isOverhead: expense.is_overhead,
+    }
+
+    if (expense.bkk_record_id) {
+      // Resubmission: the expense may have been corrected since the BKK was created
+      await updateBKKRecord(expense.bkk_record_id, bkkInput)
+    } else if (!expense.advance_id) {
+      // Create BKK record if not exists (advance-funded expenses are booked with the advance)
+      const bkkId = await createBKKRecord(bkkInput)
 
       // Get the generated BKK number
       const { data: bkkRecord } = await supabase
@@ -89,20 +189,24 @@ export async function submitForApproval(expenseId: string): Promise<SubmitResult
           bkk_number: bkkNumber,
         })
         .eq('id', expenseId)
-    }
 
-    // Update approval status
-    const { error: updateError } = await supabase
-      .from('expense_drafts')
-      .update({ 
-        approval_status: 'pending_approval',
-        submitted_at: new Date().toISOString(),
-        submitted_by: user.id,
+      await recordApprovalEvent(supabase, {
+        expenseId,
+        eventType: 'bkk_status_changed',
+        actorId: user.id,
+        bkkNumber,
+        bkkStatus: 'draft',
       })
-      .eq('id', expenseId)
+    }
+
+    // Build the approval steps and move to pending_approval on the server
+    const { error: submitError } = await supabase.rpc('submit_expense_for_approval', {
+      p_expense_id: expenseId,
+      p_policy_violations: policyViolations,
+    })
 
-    if (updateError) {
-      return { success: false, error: `Failed to update status: ${updateError.message}` }
+    if (submitError) {
+      return { success: false, error: `Failed to submit expense: ${submitError.message}` }
     }
 
     return { success: true, bkkNumber }
@@ -134,110 +238,126 @@ export async function batchSubmitForApproval(
 }
 
 /**
- * Approve an expense (finance role only)
+ * Decide the current approval step of one expense
+ *
+ * Runs `decide_expense_approvals` for the expense, so the step decision,
+ * the move to the next step (or the final status), the BKK record and the
+ * events are applied together or not at all.
  */
-export async function approveExpense(expenseId: string): Promise<ApprovalResult> {
+async function decideExpense(
+  expenseId: string,
+  decision: ApprovalDecision,
+  reason: string | null
+): Promise<ApprovalResult> {
   const supabase = await createClient()
-  
-  // Get current user
+
   const { data: { user }, error: userError } = await supabase.auth.getUser()
   if (userError || !user) {
     return { success: false, error: 'User not authenticated' }
   }
 
-  // Check user role
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const { data, error } = await supabase.rpc('decide_expense_approvals', {
+    p_expense_ids: [expenseId],
+    p_decision: decision,
+    p_reason: reason,
+  })
 
-  const allowedRoles = ['owner', 'director', 'finance_manager']
-  if (!profile || !allowedRoles.includes(profile.role)) {
-    return { success: false, error: 'Insufficient permissions' }
+  if (error) {
+    return { success: false, error: error.message }
   }
 
-  // Update expense status
-  const { error: updateError } = await supabase
-    .from('expense_drafts')
-    .update({
-      approval_status: 'approved' as ApprovalStatus,
-      approved_by: user.id,
-      approved_at: new Date().toISOString(),
-      rejection_reason: null,
-    })
-    .eq('id', expenseId)
-    .eq('approval_status', 'pending_approval')
-
-  if (updateError) {
-    return { success: false, error: `Failed to approve: ${updateError.message}` }
+  const row = (data ?? [])[0] as { error_message: string | null } | undefined
+  if (!row) {
+    return { success: false, error: 'Expense not found' }
   }
-
-  // Update BKK record status
-  const { data: expense } = await supabase
-    .from('expense_drafts')
-    .select('bkk_record_id')
-    .eq('id', expenseId)
-    .single()
-
-  if (expense?.bkk_record_id) {
-    await supabase
-      .from('bkk_records')
-      .update({ status: 'approved' })
-      .eq('id', expense.bkk_record_id)
+  if (row.error_message) {
+    return { success: false, error: row.error_message }
   }
 
   return { success: true }
 }
 
 /**
- * Reject an expense with reason (finance role only)
+ * Approve the current approval step of an expense
+ *
+ * The expense becomes approved once its last step is approved;
+ * otherwise the next step becomes pending.
+ */
+export async function approveExpense(expenseId: string): Promise<ApprovalResult> {
+  return decideExpense(expenseId, 'approved', null)
+}
+
+/**
+ * Reject an expense with reason at its current approval step
  */
 export async function rejectExpense(
   expenseId: string, 
   reason: string
 ): Promise<ApprovalResult> {
-  const supabase = await createClient()
-  
   if (!reason.trim()) {
     return { success: false, error: 'Rejection reason is required' }
   }
 
-  // Get current user
+  return decideExpense(expenseId, 'rejected', reason.trim())
+}
+
+/**
+ * Approve or reject the current approval step of several expenses
+ *
+ * Runs `decide_expense_approvals`, which decides each expense in its own
+ * subtransaction with the same rules as approveExpense/rejectExpense: an
+ * expense is either fully decided (step, status, BKK record and events)
+ * or left untouched, and a failing expense does not stop the others.
+ */
+export async function decideExpensesInBulk(
+  input: BulkDecisionInput
+): Promise<BulkDecisionResult> {
+  const supabase = await createClient()
+
   const { data: { user }, error: userError } = await supabase.auth.getUser()
   if (userError || !user) {
     return { success: false, error: 'User not authenticated' }
   }
 
-  // Check user role
-  const { data: profile } = await supabase
-    .from('user_profiles')
-    .select('role')
-    .eq('id', user.id)
-    .single()
+  const expenseIds = [...new Set(input.expenseIds)]
+  if (expenseIds.length === 0) {
+    return { success: false, error: 'Select at least one expense' }
+  }
 
-  const allowedRoles = ['owner', 'director', 'finance_manager']
-  if (!profile || !allowedRoles.includes(profile.role)) {
-    return { success: false, error: 'Insufficient permissions' }
+  if (expenseIds.length > MAX_BULK_DECISIONS) {
+    return {
+      success: false,
+      error: `At most ${MAX_BULK_DECISIONS} expenses can be decided at once`,
+    }
   }
 
-  // Update expense status
-  const { error: updateError } = await supabase
-    .from('expense_drafts')
-    .update({
-      approval_status: 'rejected' as ApprovalStatus,
-      approved_by: user.id,
-      approved_at: new Date().toISOString(),
-      rejection_reason: reason.trim(),
-    })
-    .eq('id', expenseId)
-    .eq('approval_status', 'pending_approval')
+  if (input.decision !== 'approved' && input.decision !== 'rejected') {
+    return { success: false, error: 'Invalid decision' }
+  }
 
-  if (updateError) {
-    return { success: false, error: `Failed to reject: ${updateError.message}` }
+  const reason = input.reason?.trim() || null
+  if (input.decision === 'rejected' && !reason) {
+    return { success: false, error: 'Rejection reason is required' }
   }
 
-  return { success: true }
+  const { data, error } = await supabase.rpc('decide_expense_approvals', {
+    p_expense_ids: expenseIds,
+    p_decision: input.decision,
+    p_reason: reason,
+  })
+
+  if (error) {
+    return { success: false, error: `Failed to decide expenses: ${error.message}` }
+  }
+
+  const results: BulkDecisionItemResult[] = (data ?? []).map(
+    (row: { expense_id: string; error_message: string | null }) =>
+      row.error_message
+        ? { expenseId: row.expense_id, success: false, error: row.error_message }
+        : { expenseId: row.expense_id, success: true }
+  )
+
+  return { success: true, results }
 }
 
 /**
@@ -245,6 +365,12 @@ export async function rejectExpense(
  */
 export async function resubmitExpense(expenseId: string): Promise<SubmitResult> {
   const supabase = await createClient()
+
+  // Get current user
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { success: false, error: 'User not authenticated' }
+  }
   
   // Verify expense is rejected
   const { data: expense, error: fetchError } = await supabase
@@ -269,6 +395,7 @@ export async function resubmitExpense(expenseId: string): Promise<SubmitResult>
       rejection_reason: null,
       approved_by: null,
       approved_at: null,
+      current_approval_step: null,
     })
     .eq('id', expenseId)
 
@@ -276,6 +403,14 @@ export async function resubmitExpense(expenseId: string): Promise<SubmitResult>
     return { success: false, error: `Failed to reset status: ${resetError.message}` }
   }
 
+  await recordApprovalEvent(supabase, {
+    expenseId,
+    eventType: 'resubmitted',
+    actorId: user.id,
+    fromStatus: 'rejected',
+    toStatus: 'draft',
+  })
+
   // Submit for approval
   return submitForApproval(expenseId)
 }
@@ -12,6 +12,14 @@ import { createClient } from '@/lib/supabase/server'
  * Format: BKK-YYYYMM-XXXX (e.g., BKK-202602-0001)
  */
 export async function generateBKKNumber(): Promise<string> {
+  const [bkkNumber] = await generateBKKNumbers(1)
+  return bkkNumber
+}
+
+/**
+ * Generate consecutive new BKK numbers for records inserted together
+ */
+export async function generateBKKNumbers(count: number): Promise<string[]> {
   const supabase = await createClient()
   const now = new Date()
   const year = now.getFullYear()
@@ -43,7 +51,10 @@ export async function generateBKKNumber(): Promise<string> {
     }
   }
 
-  return `${prefix}-${String(sequence).padStart(4, '0')}`
+  return Array.from(
+    { length: count },
+    (_, index) => `${prefix}-${String(sequence + index).padStart(4, '0')}`
+  )
 }
 
 /**
@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { generateBKKNumber } from './bkk-generator'
+import { resolveBKKAccounting } from './accounting-service'
 
 /**
  * BKK Service
@@ -17,6 +18,7 @@ export interface CreateBKKInput {
   receiptPath?: string
   expenseDate: string
   category: string
+  isOverhead?: boolean
 }
 
 export interface BKKRecord {
@@ -28,12 +30,57 @@ export interface BKKRecord {
   vendor_id?: string
   job_order_id?: string
   receipt_path?: string
+  gl_account_code?: string | null
+  cost_center_code?: string | null
+  journal_batch_id?: string | null
   status: 'draft' | 'pending' | 'approved' | 'paid'
-  source_expense_id: string
+  source_expense_id?: string
+  source_advance_id?: string
   created_by: string
   created_at: string
 }
 
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Build the BKK fields that follow from the expense
+ *
+ * The record carries the expense's GL account and cost center, so
+ * accounting can import it without re-keying.
+ */
+async function buildBKKFields(supabase: ServerClient, input: CreateBKKInput) {
+  // Build description with category prefix (label managed in expense_categories)
+  const { data: category } = await supabase
+    .from('expense_categories')
+    .select('label, gl_account_code, overhead_gl_account_code')
+    .eq('code', input.category)
+    .maybeSingle()
+
+  const accounting = await resolveBKKAccounting(supabase, {
+    category: category
+      ? { glAccountCode: category.gl_account_code, overheadGlAccountCode: category.overhead_gl_account_code }
+      : null,
+    isOverhead: !!input.isOverhead,
+    jobOrderId: input.jobOrderId,
+  })
+
+  const categoryLabel = category?.label || input.category
+  const fullDescription = input.description 
+    ? `[${categoryLabel}] ${input.description}`
+    : `[${categoryLabel}] Pengeluaran operasional`
+
+  return {
+    record_date: input.expenseDate,
+    amount: input.amount,
+    description: fullDescription,
+    vendor_id: input.vendorId || null,
+    job_order_id: input.jobOrderId || null,
+    receipt_path: input.receiptPath || null,
+    gl_account_code: accounting.glAccountCode,
+    cost_center_code: accounting.costCenterCode,
+  }
+}
+
 /**
  * Create a new BKK record from an expense
  */
@@ -49,33 +96,14 @@ export async function createBKKRecord(input: CreateBKKInput): Promise<string> {
   // Generate BKK number
   const bkkNumber = await generateBKKNumber()
 
-  // Build description with category prefix
-  const categoryLabels: Record<string, string> = {
-    fuel: 'BBM',
-    toll: 'Tol',
-    parking: 'Parkir',
-    food: 'Makan',
-    lodging: 'Penginapan',
-    transport: 'Transport',
-    supplies: 'Perlengkapan',
-    other: 'Lainnya',
-  }
-  const categoryLabel = categoryLabels[input.category] || input.category
-  const fullDescription = input.description 
-    ? `[${categoryLabel}] ${input.description}`
-    : `[${categoryLabel}] Pengeluaran operasional`
+  const fields = await buildBKKFields(supabase, input)
 
   // Create BKK record
   const { data, error } = await supabase
     .from('bkk_records')
     .insert({
+      ...fields,
       record_number: bkkNumber,
-      record_date: input.expenseDate,
-      amount: input.amount,
-      description: fullDescription,
-      vendor_id: input.vendorId || null,
-      job_order_id: input.jobOrderId || null,
-      receipt_path: input.receiptPath || null,
       status: 'draft',
       source_expense_id: input.expenseId,
       created_by: user.id,
@@ -90,6 +118,33 @@ export async function createBKKRecord(input: CreateBKKInput): Promise<string> {
   return data.id
 }
 
+/**
+ * Update a draft BKK record from its (corrected) expense
+ *
+ * Used when a rejected expense is resubmitted, so the record's amount,
+ * description, GL account and cost center follow the edits.
+ */
+export async function updateBKKRecord(bkkId: string, input: CreateBKKInput): Promise<void> {
+  const supabase = await createClient()
+
+  const fields = await buildBKKFields(supabase, input)
+
+  const { data, error } = await supabase
+    .from('bkk_records')
+    .update(fields)
+    .eq('id', bkkId)
+    .eq('status', 'draft')
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to update BKK record: ${error.message}`)
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('BKK record can no longer be changed')
+  }
+}
+
 /**
  * Get BKK record by ID
  */
@@ -0,0 +1,136 @@
+import { createClient } from '@/lib/supabase/server'
+import { CATEGORY_MANAGER_ROLES } from '@/lib/categories/roles'
+import { CATEGORY_CODE_PATTERN } from '@/lib/categories/registry'
+import { CATEGORY_COLOR_NAMES, CATEGORY_ICON_NAMES } from '@/constants/expense-categories'
+
+/**
+ * Expense Category Service
+ *
+ * Finance manages the expense categories (label, icon, color and GL
+ * account). Categories cannot be deleted, only deactivated, so expenses
+ * keep their category.
+ */
+
+export interface SaveCategoryInput {
+  /** Category code; new when `isNew`, otherwise the category to update */
+  code: string
+  isNew: boolean
+  label: string
+  labelFull?: string
+  icon: string
+  color: string
+  glAccountCode?: string | null
+  overheadGlAccountCode?: string | null
+  sortOrder: number
+  isActive: boolean
+}
+
+export interface CategoryResult {
+  success: boolean
+  code?: string
+  error?: string
+}
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Get the current user if they may manage categories
+ */
+async function getCategoryManager(
+  supabase: ServerClient
+): Promise<{ userId?: string; error?: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { error: 'User not authenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !CATEGORY_MANAGER_ROLES.includes(profile.role)) {
+    return { error: 'Insufficient permissions' }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * Validate a category before saving
+ *
+ * @returns Error message, or null when valid
+ */
+function validateCategoryInput(input: SaveCategoryInput): string | null {
+  if (!CATEGORY_CODE_PATTERN.test(input.code)) {
+    return 'Code must be 2-40 lowercase letters, digits or underscores'
+  }
+  if (!input.label.trim()) {
+    return 'Label is required'
+  }
+  if (!(CATEGORY_ICON_NAMES as readonly string[]).includes(input.icon)) {
+    return 'Invalid icon'
+  }
+  if (!(CATEGORY_COLOR_NAMES as readonly string[]).includes(input.color)) {
+    return 'Invalid color'
+  }
+  if (!Number.isInteger(input.sortOrder)) {
+    return 'Sort order must be a whole number'
+  }
+  return null
+}
+
+/**
+ * Create or update an expense category (category managers only)
+ *
+ * The code of an existing category never changes, since expenses and
+ * policies refer to it.
+ */
+export async function saveExpenseCategory(input: SaveCategoryInput): Promise<CategoryResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getCategoryManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const validationError = validateCategoryInput(input)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const values = {
+    label: input.label.trim(),
+    label_full: input.labelFull?.trim() || null,
+    icon: input.icon,
+    color: input.color,
+    gl_account_code: input.glAccountCode?.trim() || null,
+    overhead_gl_account_code: input.overheadGlAccountCode?.trim() || null,
+    sort_order: input.sortOrder,
+    is_active: input.isActive,
+    updated_by: userId,
+  }
+
+  const { data, error } = input.isNew
+    ? await supabase
+        .from('expense_categories')
+        .insert({ ...values, code: input.code, created_by: userId })
+        .select('code')
+        .single()
+    : await supabase
+        .from('expense_categories')
+        .update(values)
+        .eq('code', input.code)
+        .select('code')
+        .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'A category with this code already exists' }
+    }
+    return { success: false, error: `Failed to save category: ${error.message}` }
+  }
+
+  return { success: true, code: data.code }
+}
@@ -6,23 +6,112 @@
  */
 
 // Server-side functions (use in API routes and server components only)
-export { generateBKKNumber, isValidBKKNumber, parseBKKNumber } from './bkk-generator'
-export { createBKKRecord, getBKKRecord, updateBKKStatus } from './bkk-service'
+export {
+  generateBKKNumber,
+  generateBKKNumbers,
+  isValidBKKNumber,
+  parseBKKNumber,
+} from './bkk-generator'
+export {
+  createBKKRecord,
+  getBKKRecord,
+  updateBKKRecord,
+  updateBKKStatus,
+} from './bkk-service'
 export type { CreateBKKInput, BKKRecord } from './bkk-service'
 export {
   submitForApproval,
   batchSubmitForApproval,
   approveExpense,
   rejectExpense,
+  decideExpensesInBulk,
   resubmitExpense,
 } from './approval-service'
-export type { SubmitResult, ApprovalResult } from './approval-service'
+export type {
+  SubmitResult,
+  ApprovalResult,
+  BulkDecisionInput,
+  BulkDecisionResult,
+} from './approval-service'
+export {
+  issueAdvance,
+  getAdvanceSettlement,
+  settleAdvance,
+} from './advance-service'
+export type { IssueAdvanceInput, IssueAdvanceResult, SettlementResult } from './advance-service'
+export {
+  saveExpensePolicy,
+  deleteExpensePolicy,
+  checkExpensePolicies,
+} from './policy-service'
+export type { SavePolicyInput, PolicyResult } from './policy-service'
+export {
+  previewPerDiem,
+  generatePerDiem,
+  savePerDiemRate,
+  deletePerDiemRate,
+} from './per-diem-service'
+export type {
+  PerDiemPlanResult,
+  GeneratePerDiemResult,
+  SavePerDiemRateInput,
+  PerDiemRateResult,
+} from './per-diem-service'
+export { saveExpenseCategory } from './category-service'
+export type { SaveCategoryInput, CategoryResult } from './category-service'
+export {
+  resolveBKKAccounting,
+  saveCostCenter,
+  deleteCostCenter,
+  createJournalBatch,
+  getJournalBatchExport,
+} from './accounting-service'
+export type {
+  SaveCostCenterInput,
+  CostCenterResult,
+  JournalBatchResult,
+  JournalExportResult,
+} from './accounting-service'
+export { recordPayment } from './payment-service'
+export type { RecordPaymentInput, PaymentResult } from './payment-service'
+export {
+  createReimbursementRun,
+  getReimbursementRunDetail,
+  setReimbursementItemsExcluded,
+  discardReimbursementRun,
+  confirmReimbursementRun,
+} from './reimbursement-service'
+export type {
+  ReimbursementRunResult,
+  ReimbursementRunDetailResult,
+  ConfirmReimbursementResult,
+} from './reimbursement-service'
 
 // Client-side API functions (use in client components)
 export {
   submitExpenseForApproval,
   approveExpenseApi,
   rejectExpenseApi,
+  decideExpensesInBulkApi,
   resubmitExpenseApi,
   batchSubmitExpenses,
+  issueAdvanceApi,
+  getAdvanceSettlementApi,
+  settleAdvanceApi,
+  saveExpensePolicyApi,
+  deleteExpensePolicyApi,
+  getPerDiemPlanApi,
+  generatePerDiemApi,
+  savePerDiemRateApi,
+  deletePerDiemRateApi,
+  saveExpenseCategoryApi,
+  saveCostCenterApi,
+  deleteCostCenterApi,
+  createJournalBatchApi,
+  recordPaymentApi,
+  createReimbursementRunApi,
+  getReimbursementRunApi,
+  setReimbursementItemsExcludedApi,
+  discardReimbursementRunApi,
+  confirmReimbursementRunApi,
 } from './api-client'
@@ -0,0 +1,120 @@
+import { createClient } from '@/lib/supabase/server'
+import { PAYMENT_ROLES } from '@/lib/payments/roles'
+import type { PaymentMethod } from '@/types/payment'
+
+/**
+ * Payment Service
+ *
+ * Finance pays approved expenses back to employees. A payment groups one
+ * or more approved expenses paid by the same method on the same date;
+ * recording it moves the expenses to `paid` and their BKK records to
+ * `paid`, and appends both transitions to the approval audit log.
+ *
+ * Expenses paid from a cash advance are settled through the advance and
+ * are never paid here.
+ */
+
+export interface RecordPaymentInput {
+  expenseIds: string[]
+  method: PaymentMethod
+  /** Bank transfer reference, required for transfers */
+  referenceNumber?: string
+  /** Date the money was paid (YYYY-MM-DD) */
+  paidDate: string
+  notes?: string
+}
+
+export interface PaymentResult {
+  success: boolean
+  paymentId?: string
+  paidCount?: number
+  error?: string
+}
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'transfer', 'payroll']
+
+/**
+ * Get the current user if they may record payments
+ */
+async function getPaymentManager(
+  supabase: ServerClient
+): Promise<{ userId?: string; error?: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { error: 'User not authenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !PAYMENT_ROLES.includes(profile.role)) {
+    return { error: 'Insufficient permissions' }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * Validate a payment before recording it
+ *
+ * @returns Error message, or null when valid
+ */
+function validatePaymentInput(input: RecordPaymentInput): string | null {
+  if (input.expenseIds.length === 0) {
+    return 'Select at least one expense'
+  }
+  if (!PAYMENT_METHODS.includes(input.method)) {
+    return 'Invalid payment method'
+  }
+  if (input.method === 'transfer' && !input.referenceNumber?.trim()) {
+    return 'Reference number is required for transfers'
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.paidDate)) {
+    return 'Payment date is required'
+  }
+  return null
+}
+
+/**
+ * Record the payment of approved expenses (payment roles only)
+ *
+ * Runs `record_expense_payment`, which records the payment, moves the
+ * expenses and their BKK records to `paid` and logs the events in one
+ * transaction. All expenses must still be approved and not funded by a
+ * cash advance; if another payment took some of them in the meantime
+ * nothing is paid.
+ */
+export async function recordPayment(input: RecordPaymentInput): Promise<PaymentResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getPaymentManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const validationError = validatePaymentInput(input)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const expenseIds = Array.from(new Set(input.expenseIds))
+
+  const { data: paymentId, error } = await supabase.rpc('record_expense_payment', {
+    p_expense_ids: expenseIds,
+    p_method: input.method,
+    p_reference_number: input.referenceNumber?.trim() || null,
+    p_paid_date: input.paidDate,
+    p_notes: input.notes?.trim() || null,
+  })
+
+  if (error) {
+    return { success: false, error: `Failed to record payment: ${error.message}` }
+  }
+
+  return { success: true, paymentId, paidCount: expenseIds.length }
+}
@@ -0,0 +1,332 @@
+import { createClient } from '@/lib/supabase/server'
+import { PER_DIEM_MANAGER_ROLES } from '@/lib/per-diem/roles'
+import {
+  MAX_PER_DIEM_DAYS,
+  buildPerDiemEntries,
+  countTripDays,
+  perDiemEntryKey,
+  resolvePerDiemRate,
+  toPerDiemRate,
+} from '@/lib/per-diem/allowance'
+import type { PerDiemPlan } from '@/types/per-diem'
+
+/**
+ * Per Diem Service
+ *
+ * Generates the daily meal and lodging allowances (uang harian) of a job
+ * order's assigned driver from the trip dates and the rate of the
+ * destination region. Allowances are created as receipt-exempt draft
+ * expenses of the driver (created_from 'per_diem') and go through the
+ * normal submit, approval and BKK flow.
+ */
+
+export interface PerDiemPlanResult {
+  success: boolean
+  plan?: PerDiemPlan
+  error?: string
+}
+
+export interface GeneratePerDiemResult extends PerDiemPlanResult {
+  /** Number of allowance expenses created */
+  createdCount?: number
+}
+
+export interface SavePerDiemRateInput {
+  /** Existing rate to update; omit to create a rate */
+  id?: string
+  region: string
+  keywords: string[]
+  mealRate: number
+  lodgingRate: number
+  isDefault: boolean
+  isActive: boolean
+}
+
+export interface PerDiemRateResult {
+  success: boolean
+  rateId?: string
+  error?: string
+}
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+const ALLOWANCE_LABELS = {
+  food: 'Uang makan harian',
+  lodging: 'Uang penginapan',
+} as const
+
+/**
+ * Get the current user if they may manage per diem
+ */
+async function getPerDiemManager(
+  supabase: ServerClient
+): Promise<{ userId?: string; error?: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { error: 'User not authenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !PER_DIEM_MANAGER_ROLES.includes(profile.role)) {
+    return { error: 'Insufficient permissions' }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * Build the allowance plan of a job order
+ *
+ * Compares the trip's entries with the allowances already generated for
+ * the driver, so generating again only adds the missing days.
+ */
+async function loadPerDiemPlan(
+  supabase: ServerClient,
+  jobOrderId: string
+): Promise<PerDiemPlanResult> {
+  const { data: job, error: jobError } = await supabase
+    .from('job_orders')
+    .select(`
+      id, job_number, destination, trip_start_date, trip_end_date, driver_user_id,
+      driver:user_profiles!job_orders_driver_user_id_fkey(full_name, email)
+    `)
+    .eq('id', jobOrderId)
+    .single()
+
+  if (jobError) {
+    return { success: false, error: `Failed to fetch job order: ${jobError.message}` }
+  }
+
+  if (!job.driver_user_id) {
+    return { success: false, error: 'Job order has no assigned driver' }
+  }
+
+  if (!job.trip_start_date || !job.trip_end_date) {
+    return { success: false, error: 'Job order has no trip dates' }
+  }
+
+  const days = countTripDays(job.trip_start_date, job.trip_end_date)
+  if (days === 0) {
+    return { success: false, error: 'Trip end date is before the start date' }
+  }
+  if (days > MAX_PER_DIEM_DAYS) {
+    return { success: false, error: `Trips longer than ${MAX_PER_DIEM_DAYS} days need manual allowances` }
+  }
+
+  const [{ data: rates, error: ratesError }, { data: existing, error: existingError }] =
+    await Promise.all([
+      supabase.from('per_diem_rates').select('*').eq('is_active', true),
+      supabase
+        .from('expense_drafts')
+        .select('category, expense_date')
+        .eq('job_order_id', jobOrderId)
+        .eq('user_id', job.driver_user_id)
+        .eq('created_from', 'per_diem'),
+    ])
+
+  if (ratesError) {
+    return { success: false, error: `Failed to fetch per diem rates: ${ratesError.message}` }
+  }
+  if (existingError) {
+    return { success: false, error: `Failed to fetch existing allowances: ${existingError.message}` }
+  }
+
+  const rate = resolvePerDiemRate(job.destination, (rates ?? []).map(toPerDiemRate))
+  if (!rate) {
+    return { success: false, error: 'No per diem rate matches the destination and no default rate is set' }
+  }
+
+  const entries = buildPerDiemEntries(job.trip_start_date, job.trip_end_date, rate)
+  const generated = new Set(
+    (existing ?? []).map((row: { category: string; expense_date: string }) =>
+      perDiemEntryKey({ category: row.category as 'food' | 'lodging', date: row.expense_date })
+    )
+  )
+
+  const driver = Array.isArray(job.driver) ? job.driver[0] : job.driver
+
+  return {
+    success: true,
+    plan: {
+      jobOrderId: job.id,
+      jobNumber: job.job_number,
+      driverId: job.driver_user_id,
+      driverName: driver?.full_name || driver?.email || undefined,
+      tripStartDate: job.trip_start_date,
+      tripEndDate: job.trip_end_date,
+      rate,
+      entries,
+      missingEntries: entries.filter((entry) => !generated.has(perDiemEntryKey(entry))),
+    },
+  }
+}
+
+/**
+ * Preview the allowances of a job order's trip
+ */
+export async function previewPerDiem(jobOrderId: string): Promise<PerDiemPlanResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getPerDiemManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  return loadPerDiemPlan(supabase, jobOrderId)
+}
+
+/**
+ * Generate the missing allowances of a job order's trip for its driver
+ *
+ * Entries already generated are skipped, so this is safe to repeat after
+ * the trip dates are extended.
+ */
+export async function generatePerDiem(jobOrderId: string): Promise<GeneratePerDiemResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getPerDiemManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const result = await loadPerDiemPlan(supabase, jobOrderId)
+  if (!result.plan) {
+    return result
+  }
+
+  const { plan } = result
+  if (plan.missingEntries.length === 0) {
+    return { success: true, plan, createdCount: 0 }
+  }
+
+  const now = new Date().toISOString()
+  const { error: insertError } = await supabase
+    .from('expense_drafts')
+    .insert(
+      plan.missingEntries.map((entry) => ({
+        user_id: plan.driverId,
+        amount: entry.amount,
+        category: entry.category,
+        description: `${ALLOWANCE_LABELS[entry.category]} ${plan.jobNumber} (${plan.rate.region})`,
+        job_order_id: plan.jobOrderId,
+        is_overhead: false,
+        expense_date: entry.date,
+        receipt_exempt: true,
+        sync_status: 'synced',
+        synced_at: now,
+        approval_status: 'draft',
+        created_from: 'per_diem',
+      }))
+    )
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      return { success: false, error: 'Allowances were generated at the same time, please reload' }
+    }
+    return { success: false, error: `Failed to create allowances: ${insertError.message}` }
+  }
+
+  return {
+    success: true,
+    plan: { ...plan, missingEntries: [] },
+    createdCount: plan.missingEntries.length,
+  }
+}
+
+/**
+ * Create or update a per diem rate (per diem managers only)
+ */
+export async function savePerDiemRate(input: SavePerDiemRateInput): Promise<PerDiemRateResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getPerDiemManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const region = input.region.trim()
+  if (!region) {
+    return { success: false, error: 'Region is required' }
+  }
+  if (!(input.mealRate >= 0) || !(input.lodgingRate >= 0) || input.mealRate + input.lodgingRate === 0) {
+    return { success: false, error: 'At least one rate must be greater than 0' }
+  }
+
+  // Only one default rate
+  if (input.isDefault) {
+    let clearDefault = supabase
+      .from('per_diem_rates')
+      .update({ is_default: false, updated_by: userId })
+      .eq('is_default', true)
+    if (input.id) {
+      clearDefault = clearDefault.neq('id', input.id)
+    }
+
+    const { error: clearError } = await clearDefault
+    if (clearError) {
+      return { success: false, error: `Failed to update default rate: ${clearError.message}` }
+    }
+  }
+
+  const values = {
+    region,
+    keywords: input.keywords.map((keyword) => keyword.trim()).filter(Boolean),
+    meal_rate: input.mealRate,
+    lodging_rate: input.lodgingRate,
+    is_default: input.isDefault,
+    is_active: input.isActive,
+    updated_by: userId,
+  }
+
+  const { data, error } = input.id
+    ? await supabase
+        .from('per_diem_rates')
+        .update(values)
+        .eq('id', input.id)
+        .select('id')
+        .single()
+    : await supabase
+        .from('per_diem_rates')
+        .insert({ ...values, created_by: userId })
+        .select('id')
+        .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'A rate for this region already exists' }
+    }
+    return { success: false, error: `Failed to save rate: ${error.message}` }
+  }
+
+  return { success: true, rateId: data.id }
+}
+
+/**
+ * Delete a per diem rate (per diem managers only)
+ *
+ * Allowances already generated keep their amounts.
+ */
+export async function deletePerDiemRate(rateId: string): Promise<PerDiemRateResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getPerDiemManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const { error } = await supabase
+    .from('per_diem_rates')
+    .delete()
+    .eq('id', rateId)
+
+  if (error) {
+    return { success: false, error: `Failed to delete rate: ${error.message}` }
+  }
+
+  return { success: true, rateId }
+}
@@ -0,0 +1,232 @@
+import { createClient } from '@/lib/supabase/server'
+import { POLICY_MANAGER_ROLES } from '@/lib/policies/roles'
+import {
+  evaluateExpensePolicies,
+  resolvePoliciesForRole,
+  toExpensePolicy,
+} from '@/lib/policies/engine'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import { ALLOWED_ROLES, type UserRole } from '@/types/supabase'
+import type { PolicyRuleType, PolicyViolation } from '@/types/expense-policy'
+
+/**
+ * Expense Policy Service
+ *
+ * Finance defines spending rules per expense category and role. Rules are
+ * evaluated on submission and the violations stored on the expense
+ * (expense_drafts.policy_violations) for approvers.
+ */
+
+export interface SavePolicyInput {
+  /** Existing rule to update; omit to create a rule */
+  id?: string
+  category: ExpenseCategory
+  role: UserRole | null
+  ruleType: PolicyRuleType
+  amount: number
+  isActive: boolean
+}
+
+export interface PolicyResult {
+  success: boolean
+  policyId?: string
+  error?: string
+}
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+const RULE_TYPES: PolicyRuleType[] = ['max_per_expense', 'max_per_day', 'receipt_required_above']
+
+/**
+ * Get the current user if they may manage policies
+ */
+async function getPolicyManager(
+  supabase: ServerClient
+): Promise<{ userId?: string; error?: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { error: 'User not authenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !POLICY_MANAGER_ROLES.includes(profile.role)) {
+    return { error: 'Insufficient permissions' }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * Validate a rule before saving
+ *
+ * @returns Error message, or null when valid
+ */
+function validatePolicyInput(input: SavePolicyInput): string | null {
+  if (input.role !== null && !ALLOWED_ROLES.includes(input.role)) {
+    return 'Invalid role'
+  }
+  if (!RULE_TYPES.includes(input.ruleType)) {
+    return 'Invalid rule type'
+  }
+  if (!(input.amount > 0)) {
+    return 'Amount must be greater than 0'
+  }
+  return null
+}
+
+/**
+ * Create or update a spending rule (finance roles only)
+ *
+ * Only one rule per category, role and rule type exists; saving a
+ * duplicate fails on the unique constraint.
+ */
+export async function saveExpensePolicy(input: SavePolicyInput): Promise<PolicyResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getPolicyManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const validationError = validatePolicyInput(input)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const { data: category } = await supabase
+    .from('expense_categories')
+    .select('code')
+    .eq('code', input.category)
+    .maybeSingle()
+
+  if (!category) {
+    return { success: false, error: 'Invalid category' }
+  }
+
+  const values = {
+    category: input.category,
+    role: input.role,
+    rule_type: input.ruleType,
+    amount: input.amount,
+    is_active: input.isActive,
+    updated_by: userId,
+  }
+
+  const { data, error } = input.id
+    ? await supabase
+        .from('expense_policies')
+        .update(values)
+        .eq('id', input.id)
+        .select('id')
+        .single()
+    : await supabase
+        .from('expense_policies')
+        .insert({ ...values, created_by: userId })
+        .select('id')
+        .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { success: false, error: 'A rule of this type already exists for the category and role' }
+    }
+    return { success: false, error: `Failed to save policy: ${error.message}` }
+  }
+
+  return { success: true, policyId: data.id }
+}
+
+/**
+ * Delete a spending rule (finance roles only)
+ *
+ * Violations already stored on expenses are kept.
+ */
+export async function deleteExpensePolicy(policyId: string): Promise<PolicyResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getPolicyManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const { error } = await supabase
+    .from('expense_policies')
+    .delete()
+    .eq('id', policyId)
+
+  if (error) {
+    return { success: false, error: `Failed to delete policy: ${error.message}` }
+  }
+
+  return { success: true, policyId }
+}
+
+/**
+ * Evaluate an expense against the rules for its submitter's role
+ *
+ * The daily total covers the submitter's other non-rejected expenses in
+ * the same category on the same date.
+ *
+ * @throws Error if the Supabase queries fail
+ */
+export async function checkExpensePolicies(
+  supabase: ServerClient,
+  expense: {
+    id: string
+    user_id: string
+    category: string
+    amount: number | string
+    expense_date: string
+    receipt_id: string | null
+    receipt_exempt?: boolean | null
+  }
+): Promise<PolicyViolation[]> {
+  const [profileResult, policiesResult, sameDayResult] = await Promise.all([
+    supabase.from('user_profiles').select('role').eq('id', expense.user_id).single(),
+    supabase
+      .from('expense_policies')
+      .select('*')
+      .eq('category', expense.category)
+      .eq('is_active', true),
+    supabase
+      .from('expense_drafts')
+      .select('amount')
+      .eq('user_id', expense.user_id)
+      .eq('category', expense.category)
+      .eq('expense_date', expense.expense_date)
+      .neq('id', expense.id)
+      .neq('approval_status', 'rejected'),
+  ])
+
+  if (policiesResult.error) {
+    throw new Error(`Failed to fetch expense policies: ${policiesResult.error.message}`)
+  }
+  if (sameDayResult.error) {
+    throw new Error(`Failed to fetch same-day expenses: ${sameDayResult.error.message}`)
+  }
+
+  const policies = resolvePoliciesForRole(
+    (policiesResult.data ?? []).map(toExpensePolicy),
+    profileResult.data?.role
+  )
+
+  const sameDayTotal = (sameDayResult.data ?? []).reduce(
+    (total: number, row: { amount: number | string }) => total + Number(row.amount),
+    0
+  )
+
+  return evaluateExpensePolicies(
+    {
+      amount: Number(expense.amount),
+      category: expense.category,
+      // Receipt-exempt expenses (per diem) never need a receipt
+      hasReceipt: !!expense.receipt_id || !!expense.receipt_exempt,
+      sameDayTotal,
+    },
+    policies
+  )
+}
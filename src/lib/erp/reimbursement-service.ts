@@ -0,0 +1,445 @@
+import { createClient } from '@/lib/supabase/server'
+import { PAYMENT_ROLES } from '@/lib/payments/roles'
+import {
+  groupReimbursementItems,
+  nextReimbursementRunNumber,
+  reimbursementRunPrefix,
+  summarizeReimbursementItems,
+  toReimbursementRun,
+} from '@/lib/reimbursements/run'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type {
+  EmployeeBankAccount,
+  ReimbursementEmployee,
+  ReimbursementItem,
+  ReimbursementRun,
+} from '@/types/reimbursement'
+
+/**
+ * Reimbursement Service
+ *
+ * Weekly reimbursement runs. Creating a run collects the approved, unpaid
+ * expenses of a period (not funded by a cash advance) as draft items;
+ * finance may exclude items before confirming. Confirming runs
+ * confirm_reimbursement_run, which records one transfer payment for the
+ * run and marks the included expenses and their BKK records paid in a
+ * single transaction. Excluded items are released for a later run.
+ *
+ * An expense belongs to at most one run (unique expense_id on
+ * reimbursement_run_items).
+ */
+
+export interface ReimbursementRunResult {
+  success: boolean
+  run?: ReimbursementRun
+  error?: string
+}
+
+export interface ReimbursementRunDetailResult extends ReimbursementRunResult {
+  employees?: ReimbursementEmployee[]
+  /** Full category labels by code, for statements */
+  categoryLabels?: Record<ExpenseCategory, string>
+}
+
+export interface ConfirmReimbursementResult {
+  success: boolean
+  paymentId?: string
+  error?: string
+}
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Get the current user if they may manage reimbursement runs
+ */
+async function getReimbursementManager(
+  supabase: ServerClient
+): Promise<{ userId?: string; error?: string }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { error: 'User not authenticated' }
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !PAYMENT_ROLES.includes(profile.role)) {
+    return { error: 'Insufficient permissions' }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * Recompute the totals of a draft run from its included items
+ */
+async function updateRunTotals(supabase: ServerClient, runId: string): Promise<string | null> {
+  const { data: items, error: itemsError } = await supabase
+    .from('reimbursement_run_items')
+    .select('user_id, amount, excluded')
+    .eq('run_id', runId)
+
+  if (itemsError) {
+    return `Failed to fetch run items: ${itemsError.message}`
+  }
+
+  const totals = summarizeReimbursementItems(
+    (items ?? []).map((item: { user_id: string; amount: number | string; excluded: boolean }) => ({
+      userId: item.user_id,
+      amount: Number(item.amount),
+      excluded: item.excluded,
+    }))
+  )
+
+  const { error } = await supabase
+    .from('reimbursement_runs')
+    .update({
+      employee_count: totals.employeeCount,
+      expense_count: totals.expenseCount,
+      total_amount: totals.totalAmount,
+    })
+    .eq('id', runId)
+
+  return error ? `Failed to update run totals: ${error.message}` : null
+}
+
+/**
+ * Create a draft run of the approved, unpaid expenses of a period
+ * (payment roles only)
+ *
+ * Expenses already collected into another draft run are skipped.
+ */
+export async function createReimbursementRun(input: {
+  dateFrom: string
+  dateTo: string
+}): Promise<ReimbursementRunResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getReimbursementManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  if (!input.dateFrom || !input.dateTo || input.dateFrom > input.dateTo) {
+    return { success: false, error: 'Invalid date range' }
+  }
+
+  const { data: expenses, error: expensesError } = await supabase
+    .from('expense_drafts')
+    .select('id, user_id, amount')
+    .eq('approval_status', 'approved')
+    .is('advance_id', null)
+    .gte('expense_date', input.dateFrom)
+    .lte('expense_date', input.dateTo)
+
+  if (expensesError) {
+    return { success: false, error: `Failed to fetch expenses: ${expensesError.message}` }
+  }
+
+  const candidateIds = (expenses ?? []).map((expense: { id: string }) => expense.id)
+  const { data: taken, error: takenError } = candidateIds.length > 0
+    ? await supabase
+        .from('reimbursement_run_items')
+        .select('expense_id')
+        .in('expense_id', candidateIds)
+    : { data: [], error: null }
+
+  if (takenError) {
+    return { success: false, error: `Failed to fetch run items: ${takenError.message}` }
+  }
+
+  const takenIds = new Set((taken ?? []).map((item: { expense_id: string }) => item.expense_id))
+  const available = (expenses ?? []).filter((expense: { id: string }) => !takenIds.has(expense.id))
+
+  if (available.length === 0) {
+    return { success: false, error: 'No approved unpaid expenses in this period' }
+  }
+
+  // Run number for the month
+  const now = new Date()
+  const { data: last } = await supabase
+    .from('reimbursement_runs')
+    .select('run_number')
+    .like('run_number', `${reimbursementRunPrefix(now)}-%`)
+    .order('run_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: run, error: runError } = await supabase
+    .from('reimbursement_runs')
+    .insert({
+      run_number: nextReimbursementRunNumber(last?.run_number ?? null, now),
+      period_from: input.dateFrom,
+      period_to: input.dateTo,
+      status: 'draft',
+      employee_count: new Set(available.map((expense: { user_id: string }) => expense.user_id)).size,
+      expense_count: available.length,
+      total_amount: available.reduce(
+        (total: number, expense: { amount: number | string }) => total + Number(expense.amount),
+        0
+      ),
+      created_by: userId,
+    })
+    .select('*')
+    .single()
+
+  if (runError) {
+    if (runError.code === '23505') {
+      return { success: false, error: 'Another run was created at the same time, please retry' }
+    }
+    return { success: false, error: `Failed to create run: ${runError.message}` }
+  }
+
+  const { error: itemsError } = await supabase
+    .from('reimbursement_run_items')
+    .insert(
+      available.map((expense: { id: string; user_id: string; amount: number | string }) => ({
+        run_id: run.id,
+        expense_id: expense.id,
+        user_id: expense.user_id,
+        amount: expense.amount,
+      }))
+    )
+
+  // Another run took some expenses: undo so no expense is in two runs
+  if (itemsError) {
+    await supabase.from('reimbursement_runs').delete().eq('id', run.id)
+    return {
+      success: false,
+      error: itemsError.code === '23505'
+        ? 'Some expenses were added to another run at the same time, please retry'
+        : `Failed to add expenses to the run: ${itemsError.message}`,
+    }
+  }
+
+  return { success: true, run: toReimbursementRun(run) }
+}
+
+/**
+ * Get a run with its items grouped per employee (payment roles only)
+ */
+export async function getReimbursementRunDetail(runId: string): Promise<ReimbursementRunDetailResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getReimbursementManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const [
+    { data: run, error: runError },
+    { data: items, error: itemsError },
+    { data: categories, error: categoriesError },
+  ] = await Promise.all([
+    supabase.from('reimbursement_runs').select('*').eq('id', runId).single(),
+    supabase
+      .from('reimbursement_run_items')
+      .select(`
+        expense_id, user_id, amount, excluded,
+        expense:expense_drafts(
+          category, description, expense_date, bkk_number,
+          job_order:job_orders(job_number)
+        )
+      `)
+      .eq('run_id', runId),
+    supabase.from('expense_categories').select('code, label, label_full'),
+  ])
+
+  if (runError) {
+    return { success: false, error: `Failed to fetch run: ${runError.message}` }
+  }
+  if (itemsError) {
+    return { success: false, error: `Failed to fetch run items: ${itemsError.message}` }
+  }
+  if (categoriesError) {
+    return { success: false, error: `Failed to fetch categories: ${categoriesError.message}` }
+  }
+
+  const runItems: ReimbursementItem[] = (items ?? []).map((item) => {
+    const expense = Array.isArray(item.expense) ? item.expense[0] : item.expense
+    const jobOrder = Array.isArray(expense?.job_order) ? expense.job_order[0] : expense?.job_order
+
+    return {
+      expenseId: item.expense_id,
+      userId: item.user_id,
+      amount: Number(item.amount),
+      category: expense?.category ?? 'other',
+      description: expense?.description ?? undefined,
+      expenseDate: expense?.expense_date ?? '',
+      bkkNumber: expense?.bkk_number ?? undefined,
+      jobNumber: jobOrder?.job_number ?? undefined,
+      excluded: item.excluded,
+    }
+  })
+
+  const userIds = Array.from(new Set(runItems.map((item) => item.userId)))
+  const [{ data: profiles, error: profilesError }, { data: employeeRows, error: employeesError }] =
+    userIds.length > 0
+      ? await Promise.all([
+          supabase.from('user_profiles').select('id, full_name, email').in('id', userIds),
+          supabase
+            .from('employees')
+            .select('user_id, employee_number, full_name, bank_name, bank_account_number, bank_account_name')
+            .in('user_id', userIds),
+        ])
+      : [{ data: [], error: null }, { data: [], error: null }]
+
+  if (profilesError) {
+    return { success: false, error: `Failed to fetch users: ${profilesError.message}` }
+  }
+  if (employeesError) {
+    return { success: false, error: `Failed to fetch employees: ${employeesError.message}` }
+  }
+
+  const employees = new Map<string, { name: string; employeeNumber?: string; bankAccount: EmployeeBankAccount }>()
+  for (const profile of profiles ?? []) {
+    const employee = (employeeRows ?? []).find(
+      (row: { user_id: string | null }) => row.user_id === profile.id
+    )
+
+    employees.set(profile.id, {
+      name: profile.full_name || employee?.full_name || profile.email,
+      employeeNumber: employee?.employee_number ?? undefined,
+      bankAccount: {
+        bankName: employee?.bank_name ?? undefined,
+        accountNumber: employee?.bank_account_number ?? undefined,
+        accountName: employee?.bank_account_name ?? undefined,
+      },
+    })
+  }
+
+  return {
+    success: true,
+    run: toReimbursementRun(run),
+    employees: groupReimbursementItems(runItems, employees),
+    categoryLabels: Object.fromEntries(
+      (categories ?? []).map((category: { code: string; label: string; label_full: string | null }) => [
+        category.code,
+        category.label_full || category.label,
+      ])
+    ),
+  }
+}
+
+/**
+ * Exclude expenses from a draft run, or include them again
+ * (payment roles only)
+ */
+export async function setReimbursementItemsExcluded(
+  runId: string,
+  expenseIds: string[],
+  excluded: boolean
+): Promise<ReimbursementRunResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getReimbursementManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('reimbursement_runs')
+    .select('status')
+    .eq('id', runId)
+    .single()
+
+  if (runError) {
+    return { success: false, error: `Failed to fetch run: ${runError.message}` }
+  }
+  if (run.status !== 'draft') {
+    return { success: false, error: 'Only draft runs can be changed' }
+  }
+
+  const { error: updateError } = await supabase
+    .from('reimbursement_run_items')
+    .update({ excluded })
+    .eq('run_id', runId)
+    .in('expense_id', expenseIds)
+
+  if (updateError) {
+    return { success: false, error: `Failed to update run items: ${updateError.message}` }
+  }
+
+  const totalsError = await updateRunTotals(supabase, runId)
+  if (totalsError) {
+    return { success: false, error: totalsError }
+  }
+
+  const { data: updated, error: fetchError } = await supabase
+    .from('reimbursement_runs')
+    .select('*')
+    .eq('id', runId)
+    .single()
+
+  if (fetchError) {
+    return { success: false, error: `Failed to fetch run: ${fetchError.message}` }
+  }
+
+  return { success: true, run: toReimbursementRun(updated) }
+}
+
+/**
+ * Discard a draft run, releasing its expenses (payment roles only)
+ */
+export async function discardReimbursementRun(runId: string): Promise<ReimbursementRunResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getReimbursementManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  const { data, error } = await supabase
+    .from('reimbursement_runs')
+    .delete()
+    .eq('id', runId)
+    .eq('status', 'draft')
+    .select('id')
+
+  if (error) {
+    return { success: false, error: `Failed to discard run: ${error.message}` }
+  }
+  if ((data ?? []).length === 0) {
+    return { success: false, error: 'Only draft runs can be discarded' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Confirm a draft run: pay all included expenses at once
+ * (payment roles only)
+ *
+ * Fails without paying anything if an included expense is no longer
+ * approved (e.g. it was paid separately); exclude it and confirm again.
+ */
+export async function confirmReimbursementRun(
+  runId: string,
+  input: { paidDate: string; referenceNumber?: string }
+): Promise<ConfirmReimbursementResult> {
+  const supabase = await createClient()
+
+  const { userId, error: authError } = await getReimbursementManager(supabase)
+  if (!userId) {
+    return { success: false, error: authError }
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.paidDate)) {
+    return { success: false, error: 'Payment date is required' }
+  }
+
+  const { data: paymentId, error } = await supabase.rpc('confirm_reimbursement_run', {
+    p_run_id: runId,
+    p_paid_date: input.paidDate,
+    p_reference_number: input.referenceNumber?.trim() || null,
+  })
+
+  if (error) {
+    return { success: false, error: `Failed to confirm run: ${error.message}` }
+  }
+
+  return { success: true, paymentId }
+}
@@ -0,0 +1,50 @@
+import { toCsvLine } from './csv'
+import type {
+  BankFileField,
+  BankFileLayout,
+  ReimbursementEmployee,
+  ReimbursementRun,
+} from '@/types/reimbursement'
+
+/**
+ * Bank transfer file export
+ *
+ * One transfer per employee with a non-zero total, in the deployment's
+ * bank layout. No BOM: bank import tools expect plain text.
+ */
+
+/**
+ * Render the transfers of a run as a bank file
+ */
+export function renderBankFileCsv(
+  run: ReimbursementRun,
+  employees: ReimbursementEmployee[],
+  layout: BankFileLayout
+): string {
+  const rows = employees
+    .filter((employee) => employee.total > 0)
+    .map((employee) => {
+      const included = employee.items.filter((item) => !item.excluded).length
+      const values: Record<BankFileField, string | number | undefined> = {
+        account_number: employee.bankAccount.accountNumber,
+        account_name: employee.bankAccount.accountName ?? employee.name,
+        bank_name: employee.bankAccount.bankName,
+        amount: employee.total,
+        employee_number: employee.employeeNumber,
+        employee_name: employee.name,
+        reference: run.runNumber,
+        description: `Reimburse ${run.runNumber} (${included} pengeluaran)`,
+      }
+
+      return toCsvLine(
+        layout.columns.map((column) => values[column.field]),
+        layout.delimiter
+      )
+    })
+
+  const lines = layout.includeHeader
+    ? [toCsvLine(layout.columns.map((column) => column.label), layout.delimiter), ...rows]
+    : rows
+
+  return `${lines.join('\r\n')}\r\n`
+}
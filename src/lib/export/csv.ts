@@ -0,0 +1,66 @@
+import { APPROVAL_STATUS_LABELS, getCategoryLabel } from './report'
+import type { ExpenseReport } from '@/types/expense-report'
+
+/**
+ * CSV export
+ *
+ * Expense rows followed by the category subtotals. Amounts are plain
+ * numbers so spreadsheets can sum them; a BOM makes Excel read UTF-8.
+ */
+
+/**
+ * Quote a CSV field when needed
+ */
+function escapeField(value: string | number | undefined, delimiter: string): string {
+  const text = value === undefined ? '' : String(value)
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Join fields into a CSV line
+ */
+export function toCsvLine(fields: Array<string | number | undefined>, delimiter = ','): string {
+  return fields.map((field) => escapeField(field, delimiter)).join(delimiter)
+}
+
+/**
+ * Render the report as CSV
+ */
+export function renderExpenseReportCsv(report: ExpenseReport): string {
+  const lines = [
+    toCsvLine([
+      'Tanggal',
+      'Kategori',
+      'Vendor',
+      'Keterangan',
+      'Job Order',
+      'Customer',
+      'Jumlah',
+      'Status',
+      'No. BKK',
+      'Struk',
+    ]),
+    ...report.rows.map((row) =>
+      toCsvLine([
+        row.expenseDate,
+        getCategoryLabel(row.category, report.categoryLabels),
+        row.vendorName,
+        row.description,
+        row.jobNumber,
+        row.customerName,
+        row.amount,
+        APPROVAL_STATUS_LABELS[row.approvalStatus],
+        row.bkkNumber,
+        row.receiptUrl,
+      ])
+    ),
+    '',
+    toCsvLine(['Subtotal per Kategori', '', 'Jumlah Transaksi', 'Total']),
+    ...report.subtotals.map((subtotal) =>
+      toCsvLine([getCategoryLabel(subtotal.category, report.categoryLabels), '', subtotal.count, subtotal.total])
+    ),
+    toCsvLine(['Total', '', report.rows.length, report.total]),
+  ]
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
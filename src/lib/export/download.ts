@@ -0,0 +1,96 @@
+'use client'
+
+import { filtersToSearchParams } from './params'
+import type { ExpenseFilters } from '@/types/expense-filters'
+import type { ExportFormat } from '@/types/expense-report'
+
+export interface DownloadResult {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Fetch a file from an export route and save it via a temporary link,
+ * so errors can be shown instead of a failed browser download
+ */
+async function downloadFile(
+  url: string,
+  fallbackFilename: string,
+  fallbackError: string
+): Promise<DownloadResult> {
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => null)
+    return { success: false, error: result?.error || fallbackError }
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? ''
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackFilename
+
+  const objectUrl = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(objectUrl)
+
+  return { success: true }
+}
+
+/**
+ * Download an expense report for the history filters
+ */
+export async function downloadExpenseExport(
+  filters: ExpenseFilters,
+  format: ExportFormat
+): Promise<DownloadResult> {
+  const params = filtersToSearchParams(filters)
+  params.set('format', format)
+
+  return downloadFile(
+    `/api/expenses/export?${params.toString()}`,
+    `laporan-pengeluaran.${format}`,
+    'Gagal membuat laporan'
+  )
+}
+
+/**
+ * Download a journal batch as CSV for the accounting system
+ */
+export async function downloadJournalBatch(batchId: string): Promise<DownloadResult> {
+  return downloadFile(
+    `/api/journal-batches/${batchId}/export`,
+    'jurnal.csv',
+    'Gagal membuat file jurnal'
+  )
+}
+
+/**
+ * Download the bank transfer file of a reimbursement run
+ */
+export async function downloadReimbursementBankFile(runId: string): Promise<DownloadResult> {
+  return downloadFile(
+    `/api/reimbursement-runs/${runId}/bank-file`,
+    'transfer.csv',
+    'Gagal membuat file transfer'
+  )
+}
+
+/**
+ * Download the statements of a reimbursement run, or of one employee
+ */
+export async function downloadReimbursementStatements(
+  runId: string,
+  userId?: string
+): Promise<DownloadResult> {
+  const query = userId ? `?userId=${encodeURIComponent(userId)}` : ''
+
+  return downloadFile(
+    `/api/reimbursement-runs/${runId}/statements${query}`,
+    'rincian-reimbursement.pdf',
+    'Gagal membuat rincian'
+  )
+}
@@ -0,0 +1,42 @@
+import { toCsvLine } from './csv'
+import type { JournalBatch, JournalLine } from '@/types/accounting'
+
+/**
+ * Journal CSV export
+ *
+ * One row per journal line for import into the accounting system: each
+ * BKK record is an entry debiting its expense account (with cost center)
+ * and crediting petty cash. Amounts are plain numbers.
+ */
+
+/**
+ * Render a journal batch as CSV
+ */
+export function renderJournalCsv(batch: JournalBatch, lines: JournalLine[]): string {
+  const rows = [
+    toCsvLine([
+      'Batch',
+      'No. Jurnal',
+      'Tanggal',
+      'Akun',
+      'Pusat Biaya',
+      'Keterangan',
+      'Debit',
+      'Kredit',
+    ]),
+    ...lines.map((line) =>
+      toCsvLine([
+        batch.batchNumber,
+        line.entryNumber,
+        line.date,
+        line.accountCode,
+        line.costCenterCode ?? undefined,
+        line.description,
+        line.debit,
+        line.credit,
+      ])
+    ),
+  ]
+
+  return `\uFEFF${rows.join('\r\n')}\r\n`
+}
@@ -0,0 +1,121 @@
+import { CATEGORY_CODE_PATTERN } from '@/lib/categories/registry'
+import type { SyncStatus } from '@/lib/db'
+import type {
+  ApprovalStatus,
+  ExpenseCostType,
+  ExpenseFilters,
+  ReceiptPresence,
+} from '@/types/expense-filters'
+import type { ExportFormat } from '@/types/expense-report'
+
+/**
+ * Export URL parameters
+ *
+ * History filters are passed to the export route as query parameters;
+ * list filters are comma-separated. The same parameters make up shared
+ * history links and saved filter presets.
+ */
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'pdf']
+
+const SYNC_STATUSES: SyncStatus[] = ['pending', 'syncing', 'synced', 'failed']
+const APPROVAL_STATUSES: ApprovalStatus[] = ['draft', 'pending_approval', 'approved', 'rejected', 'paid']
+const COST_TYPES: ExpenseCostType[] = ['job', 'overhead']
+const RECEIPT_PRESENCES: ReceiptPresence[] = ['with', 'without']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Build export query parameters from history filters
+ */
+export function filtersToSearchParams(filters: ExpenseFilters): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters.dateFrom) params.set('dateFrom', filters.dateFrom)
+  if (filters.dateTo) params.set('dateTo', filters.dateTo)
+  if (filters.categories?.length) params.set('categories', filters.categories.join(','))
+  if (filters.syncStatuses?.length) params.set('syncStatuses', filters.syncStatuses.join(','))
+  if (filters.approvalStatuses?.length) {
+    params.set('approvalStatuses', filters.approvalStatuses.join(','))
+  }
+  if (filters.minAmount !== undefined) params.set('minAmount', String(filters.minAmount))
+  if (filters.maxAmount !== undefined) params.set('maxAmount', String(filters.maxAmount))
+  if (filters.jobOrderIds?.length) params.set('jobOrderIds', filters.jobOrderIds.join(','))
+  if (filters.costType) params.set('costType', filters.costType)
+  if (filters.requiresReview) params.set('requiresReview', '1')
+  if (filters.receipt) params.set('receipt', filters.receipt)
+  if (filters.locationWarning) params.set('locationWarning', '1')
+  if (filters.search?.trim()) params.set('search', filters.search.trim())
+
+  return params
+}
+
+/**
+ * Read a comma-separated list, keeping only allowed values
+ */
+function parseList<T extends string>(value: string | null, allowed: readonly T[]): T[] | undefined {
+  if (!value) return undefined
+
+  const items = value.split(',').filter((item): item is T => allowed.includes(item as T))
+  return items.length > 0 ? items : undefined
+}
+
+/**
+ * Read a comma-separated list of category codes
+ *
+ * Categories are managed server-side, so any well-formed code is kept;
+ * unknown codes simply match no expenses.
+ */
+function parseCategories(value: string | null): string[] | undefined {
+  if (!value) return undefined
+
+  const items = value.split(',').filter((item) => CATEGORY_CODE_PATTERN.test(item))
+  return items.length > 0 ? items : undefined
+}
+
+/**
+ * Read a non-negative amount
+ */
+function parseAmount(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const amount = Number(value)
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
+
+/**
+ * Read one of the allowed values
+ */
+function parseOption<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+  return allowed.includes(value as T) ? (value as T) : undefined
+}
+
+/**
+ * Parse history filters from export query parameters
+ *
+ * Unknown values are dropped rather than rejected.
+ */
+export function searchParamsToFilters(params: URLSearchParams): ExpenseFilters {
+  const dateFrom = params.get('dateFrom')
+  const dateTo = params.get('dateTo')
+  const search = params.get('search')?.trim()
+  const jobOrderIds = (params.get('jobOrderIds') ?? '')
+    .split(',')
+    .filter((id) => UUID_PATTERN.test(id))
+
+  return {
+    dateFrom: dateFrom && DATE_PATTERN.test(dateFrom) ? dateFrom : undefined,
+    dateTo: dateTo && DATE_PATTERN.test(dateTo) ? dateTo : undefined,
+    categories: parseCategories(params.get('categories')),
+    syncStatuses: parseList(params.get('syncStatuses'), SYNC_STATUSES),
+    approvalStatuses: parseList(params.get('approvalStatuses'), APPROVAL_STATUSES),
+    minAmount: parseAmount(params.get('minAmount')),
+    maxAmount: parseAmount(params.get('maxAmount')),
+    jobOrderIds: jobOrderIds.length > 0 ? jobOrderIds : undefined,
+    costType: parseOption(params.get('costType'), COST_TYPES),
+    requiresReview: params.get('requiresReview') === '1' || undefined,
+    receipt: parseOption(params.get('receipt'), RECEIPT_PRESENCES),
+    locationWarning: params.get('locationWarning') === '1' || undefined,
+    search: search || undefined,
+  }
+}
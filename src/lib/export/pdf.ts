@@ -0,0 +1,246 @@
+import PDFDocument from 'pdfkit'
+import { createClient } from '@/lib/supabase/server'
+import { APPROVAL_STATUS_LABELS, describeFilters, getCategoryLabel } from './report'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import type { ExpenseReport, ExpenseReportRow } from '@/types/expense-report'
+
+/**
+ * PDF export
+ *
+ * Printable A4 landscape report grouped by category with subtotals.
+ * Receipts are shown as thumbnails linking to the full image; past
+ * MAX_THUMBNAILS only the link is shown to keep the file small.
+ */
+
+/** Maximum number of receipt thumbnails embedded in one report */
+const MAX_THUMBNAILS = 100
+
+/** Receipts downloaded at the same time */
+const DOWNLOAD_CONCURRENCY = 5
+
+const MARGIN = 36
+const THUMBNAIL_SIZE = 36
+const ROW_PADDING = 4
+
+const COLUMNS = [
+  { key: 'date', header: 'Tanggal', width: 62 },
+  { key: 'detail', header: 'Vendor / Keterangan', width: 214 },
+  { key: 'jobNumber', header: 'Job Order', width: 96 },
+  { key: 'bkkNumber', header: 'No. BKK', width: 96 },
+  { key: 'status', header: 'Status', width: 100 },
+  { key: 'amount', header: 'Jumlah', width: 88, align: 'right' as const },
+  { key: 'receipt', header: 'Struk', width: 60, align: 'center' as const },
+]
+
+const TABLE_WIDTH = COLUMNS.reduce((sum, column) => sum + column.width, 0)
+
+/**
+ * Download receipt images for thumbnails
+ *
+ * Receipts that fail to download are left out (the link remains).
+ */
+async function loadThumbnails(rows: ExpenseReportRow[]): Promise<Map<string, Buffer>> {
+  const paths = Array.from(
+    new Set(rows.map((row) => row.receiptPath).filter((path): path is string => !!path))
+  ).slice(0, MAX_THUMBNAILS)
+
+  const thumbnails = new Map<string, Buffer>()
+  if (paths.length === 0) {
+    return thumbnails
+  }
+
+  const supabase = await createClient()
+
+  for (let i = 0; i < paths.length; i += DOWNLOAD_CONCURRENCY) {
+    await Promise.all(
+      paths.slice(i, i + DOWNLOAD_CONCURRENCY).map(async (path) => {
+        const { data, error } = await supabase.storage.from('expense-receipts').download(path)
+        if (!error && data) {
+          thumbnails.set(path, Buffer.from(await data.arrayBuffer()))
+        }
+      })
+    )
+  }
+
+  return thumbnails
+}
+
+/**
+ * Render the report as a PDF document
+ */
+export async function renderExpenseReportPdf(report: ExpenseReport): Promise<Buffer> {
+  const thumbnails = await loadThumbnails(report.rows)
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    layout: 'landscape',
+    margin: MARGIN,
+    info: { Title: 'Laporan Pengeluaran', Author: report.generatedBy ?? 'GAMA Money Recorder' },
+  })
+
+  const chunks: Buffer[] = []
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+
+  const bottom = () => doc.page.height - MARGIN
+
+  const drawTableHeader = () => {
+    let x = MARGIN
+    const y = doc.y
+    doc.font('Helvetica-Bold').fontSize(8).fillColor('#475569')
+    for (const column of COLUMNS) {
+      doc.text(column.header, x + ROW_PADDING, y, {
+        width: column.width - ROW_PADDING * 2,
+        align: column.align ?? 'left',
+      })
+      x += column.width
+    }
+    doc
+      .moveTo(MARGIN, y + 12)
+      .lineTo(MARGIN + TABLE_WIDTH, y + 12)
+      .strokeColor('#cbd5e1')
+      .stroke()
+    doc.y = y + 16
+  }
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > bottom()) {
+      doc.addPage()
+      drawTableHeader()
+    }
+  }
+
+  const drawRow = (row: ExpenseReportRow) => {
+    const detail = [row.vendorName, row.description].filter(Boolean).join(' - ') || '-'
+    const jobOrder = row.jobNumber
+      ? `${row.jobNumber}${row.customerName ? `\n${row.customerName}` : ''}`
+      : '-'
+    const values: Record<string, string> = {
+      date: formatDate(row.expenseDate, 'short'),
+      detail,
+      jobNumber: jobOrder,
+      bkkNumber: row.bkkNumber ?? '-',
+      status: APPROVAL_STATUS_LABELS[row.approvalStatus],
+      amount: formatCurrency(row.amount),
+    }
+    const thumbnail = row.receiptPath ? thumbnails.get(row.receiptPath) : undefined
+
+    doc.font('Helvetica').fontSize(8)
+    const textHeight = Math.max(
+      ...COLUMNS.filter((column) => column.key in values).map((column) =>
+        doc.heightOfString(values[column.key], { width: column.width - ROW_PADDING * 2 })
+      )
+    )
+    const rowHeight = Math.max(textHeight, thumbnail ? THUMBNAIL_SIZE : 0) + ROW_PADDING * 2
+
+    ensureSpace(rowHeight)
+    const y = doc.y
+    let x = MARGIN
+
+    doc.fillColor('#0f172a')
+    for (const column of COLUMNS) {
+      if (column.key === 'receipt') {
+        if (thumbnail) {
+          try {
+            doc.image(thumbnail, x + (column.width - THUMBNAIL_SIZE) / 2, y + ROW_PADDING, {
+              fit: [THUMBNAIL_SIZE, THUMBNAIL_SIZE],
+              align: 'center',
+              valign: 'center',
+            })
+          } catch {
+            // Unsupported image format, fall back to the link
+            doc.text('Lihat', x + ROW_PADDING, y + ROW_PADDING, {
+              width: column.width - ROW_PADDING * 2,
+              align: 'center',
+            })
+          }
+        } else if (row.receiptUrl) {
+          doc.fillColor('#2563eb').text('Lihat', x + ROW_PADDING, y + ROW_PADDING, {
+            width: column.width - ROW_PADDING * 2,
+            align: 'center',
+            underline: true,
+          })
+          doc.fillColor('#0f172a')
+        }
+        if (row.receiptUrl) {
+          doc.link(x, y, column.width, rowHeight, row.receiptUrl)
+        }
+      } else {
+        doc.text(values[column.key], x + ROW_PADDING, y + ROW_PADDING, {
+          width: column.width - ROW_PADDING * 2,
+          align: column.align ?? 'left',
+        })
+      }
+      x += column.width
+    }
+
+    doc
+      .moveTo(MARGIN, y + rowHeight)
+      .lineTo(MARGIN + TABLE_WIDTH, y + rowHeight)
+      .strokeColor('#e2e8f0')
+      .stroke()
+    doc.y = y + rowHeight
+  }
+
+  const drawTotalRow = (label: string, amount: number) => {
+    ensureSpace(20)
+    const y = doc.y + ROW_PADDING
+    const amountColumnX = MARGIN + TABLE_WIDTH - COLUMNS[6].width - COLUMNS[5].width
+
+    doc.font('Helvetica-Bold').fontSize(8).fillColor('#0f172a')
+    doc.text(label, MARGIN + ROW_PADDING, y, { width: amountColumnX - MARGIN - ROW_PADDING * 2 })
+    doc.text(formatCurrency(amount), amountColumnX + ROW_PADDING, y, {
+      width: COLUMNS[5].width - ROW_PADDING * 2,
+      align: 'right',
+    })
+    doc.y = y + 16
+  }
+
+  // Report header
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#0f172a').text('Laporan Pengeluaran')
+  doc.font('Helvetica').fontSize(9).fillColor('#475569')
+  doc.text(describeFilters(report.filters, report.categoryLabels))
+  doc.text(
+    `Dibuat ${formatDate(report.generatedAt, 'long')}${
+      report.generatedBy ? ` oleh ${report.generatedBy}` : ''
+    } · ${report.rows.length} pengeluaran · Total ${formatCurrency(report.total)}`
+  )
+  if (report.truncated) {
+    doc.fillColor('#b45309').text(
+      `Hanya ${report.rows.length} pengeluaran terbaru yang ditampilkan. Persempit filter untuk laporan lengkap.`
+    )
+  }
+  doc.moveDown()
+
+  // Expenses grouped by category
+  for (const subtotal of report.subtotals) {
+    ensureSpace(60)
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(11)
+      .fillColor('#0f172a')
+      .text(getCategoryLabel(subtotal.category, report.categoryLabels), MARGIN, doc.y)
+    doc.moveDown(0.3)
+    drawTableHeader()
+
+    for (const row of report.rows.filter((item) => item.category === subtotal.category)) {
+      drawRow(row)
+    }
+
+    drawTotalRow(`Subtotal ${getCategoryLabel(subtotal.category, report.categoryLabels)} (${subtotal.count})`, subtotal.total)
+    doc.moveDown()
+  }
+
+  if (report.rows.length === 0) {
+    doc.font('Helvetica').fontSize(10).fillColor('#475569').text('Tidak ada pengeluaran.')
+  } else {
+    drawTotalRow(`Total (${report.rows.length} pengeluaran)`, report.total)
+  }
+
+  doc.end()
+  return finished
+}
@@ -0,0 +1,255 @@
+import { createClient } from '@/lib/supabase/server'
+import { applyExpenseFilters } from '@/lib/queries/expenses'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import type { ApprovalStatus, ExpenseFilters } from '@/types/expense-filters'
+import type { CategorySubtotal, ExpenseReport, ExpenseReportRow } from '@/types/expense-report'
+
+/**
+ * Expense Report (server)
+ *
+ * Builds the export report from server data, so it covers every expense
+ * matching the history filters and not only the page loaded in the app.
+ * Expenses that have not synced yet are not included.
+ */
+
+/** Maximum number of expenses in one export */
+export const EXPORT_MAX_ROWS = 5000
+
+/** Rows fetched per request (Supabase caps responses at 1000 rows) */
+const FETCH_PAGE_SIZE = 1000
+
+/** Validity of the receipt links in the export (7 days) */
+const RECEIPT_URL_EXPIRY_SECONDS = 7 * 24 * 60 * 60
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Menunggu Persetujuan',
+  approved: 'Disetujui',
+  rejected: 'Ditolak',
+  paid: 'Dibayar',
+}
+
+/**
+ * Server expense with joined relations
+ */
+interface ServerReportExpense {
+  id: string
+  amount: number
+  category: string
+  description: string | null
+  vendor_name: string | null
+  expense_date: string
+  approval_status: string
+  bkk_number: string | null
+  receipt: { storage_path: string } | null
+  job_order: { job_number: string; customer_name: string } | null
+}
+
+export interface ReportResult {
+  success: boolean
+  report?: ExpenseReport
+  error?: string
+}
+
+/**
+ * Get the label of a category for the report
+ *
+ * @param category - Category code
+ * @param labels - Full labels by code (ExpenseReport.categoryLabels)
+ */
+export function getCategoryLabel(
+  category: ExpenseCategory,
+  labels: Record<ExpenseCategory, string>
+): string {
+  return labels[category] ?? category
+}
+
+/**
+ * Describe the active filters for the report header
+ */
+export function describeFilters(
+  filters: ExpenseFilters,
+  categoryLabels: Record<ExpenseCategory, string>
+): string {
+  const parts: string[] = []
+
+  if (filters.dateFrom || filters.dateTo) {
+    parts.push(
+      `Periode ${filters.dateFrom ? formatDate(filters.dateFrom) : '...'} - ${
+        filters.dateTo ? formatDate(filters.dateTo) : '...'
+      }`
+    )
+  }
+  if (filters.categories?.length) {
+    parts.push(`Kategori: ${filters.categories.map((category) => getCategoryLabel(category, categoryLabels)).join(', ')}`)
+  }
+  if (filters.approvalStatuses?.length) {
+    parts.push(
+      `Status: ${filters.approvalStatuses.map((status) => APPROVAL_STATUS_LABELS[status]).join(', ')}`
+    )
+  }
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    parts.push(
+      `Jumlah ${filters.minAmount !== undefined ? formatCurrency(filters.minAmount) : '...'} - ${
+        filters.maxAmount !== undefined ? formatCurrency(filters.maxAmount) : '...'
+      }`
+    )
+  }
+  if (filters.jobOrderIds?.length) {
+    parts.push(`${filters.jobOrderIds.length} job order`)
+  }
+  if (filters.costType) {
+    parts.push(filters.costType === 'overhead' ? 'Overhead' : 'Terkait job')
+  }
+  if (filters.requiresReview) {
+    parts.push('Perlu review')
+  }
+  if (filters.receipt) {
+    parts.push(filters.receipt === 'with' ? 'Dengan struk' : 'Tanpa struk')
+  }
+  if (filters.locationWarning) {
+    parts.push('Di luar rute job')
+  }
+  if (filters.search) {
+    parts.push(`Pencarian: "${filters.search}"`)
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'Semua pengeluaran'
+}
+
+/**
+ * Sum the report rows per category, largest total first
+ */
+function buildSubtotals(rows: ExpenseReportRow[]): CategorySubtotal[] {
+  const byCategory = new Map<ExpenseCategory, CategorySubtotal>()
+
+  for (const row of rows) {
+    const subtotal = byCategory.get(row.category) ?? { category: row.category, count: 0, total: 0 }
+    subtotal.count++
+    subtotal.total += row.amount
+    byCategory.set(row.category, subtotal)
+  }
+
+  return Array.from(byCategory.values()).sort((a, b) => b.total - a.total)
+}
+
+/**
+ * Build the expense report for the current user
+ *
+ * Row visibility follows RLS, the same as the history page.
+ *
+ * @param filters - History filters
+ */
+export async function buildExpenseReport(filters: ExpenseFilters): Promise<ReportResult> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { success: false, error: 'User not authenticated' }
+  }
+
+  try {
+    const expenses: ServerReportExpense[] = []
+
+    for (let from = 0; from < EXPORT_MAX_ROWS + 1; from += FETCH_PAGE_SIZE) {
+      let query = supabase
+        .from('expense_drafts')
+        .select(`
+          id, amount, category, description, vendor_name, expense_date,
+          approval_status, bkk_number,
+          receipt:expense_receipts(storage_path),
+          job_order:job_orders(job_number, customer_name)
+        `)
+
+      query = applyExpenseFilters(query, filters)
+
+      const { data, error } = await query
+        .order('expense_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        // Unique tie-break so no row moves between pages (history order)
+        .order('id', { ascending: false })
+        .range(from, Math.min(from + FETCH_PAGE_SIZE, EXPORT_MAX_ROWS + 1) - 1)
+
+      if (error) {
+        throw new Error(`Failed to load expenses: ${error.message}`)
+      }
+
+      expenses.push(...((data ?? []) as unknown as ServerReportExpense[]))
+      if (!data || data.length < FETCH_PAGE_SIZE) break
+    }
+
+    const truncated = expenses.length > EXPORT_MAX_ROWS
+    const rows: ExpenseReportRow[] = expenses.slice(0, EXPORT_MAX_ROWS).map((expense) => ({
+      id: expense.id,
+      expenseDate: expense.expense_date,
+      category: expense.category,
+      description: expense.description ?? undefined,
+      vendorName: expense.vendor_name ?? undefined,
+      jobNumber: expense.job_order?.job_number ?? undefined,
+      customerName: expense.job_order?.customer_name ?? undefined,
+      amount: Number(expense.amount),
+      approvalStatus: expense.approval_status as ApprovalStatus,
+      bkkNumber: expense.bkk_number ?? undefined,
+      receiptPath: expense.receipt?.storage_path ?? undefined,
+    }))
+
+    // Sign receipt links in one request
+    const receiptPaths = rows
+      .map((row) => row.receiptPath)
+      .filter((path): path is string => !!path)
+
+    if (receiptPaths.length > 0) {
+      const { data: signed, error: signError } = await supabase.storage
+        .from('expense-receipts')
+        .createSignedUrls(receiptPaths, RECEIPT_URL_EXPIRY_SECONDS)
+
+      if (signError) {
+        throw new Error(`Failed to sign receipt links: ${signError.message}`)
+      }
+
+      const urlByPath = new Map(
+        (signed ?? [])
+          .filter((item) => item.path && item.signedUrl)
+          .map((item) => [item.path as string, item.signedUrl])
+      )
+      for (const row of rows) {
+        row.receiptUrl = row.receiptPath ? urlByPath.get(row.receiptPath) : undefined
+      }
+    }
+
+    const [{ data: profile }, { data: categories, error: categoriesError }] = await Promise.all([
+      supabase.from('user_profiles').select('full_name, email').eq('id', user.id).maybeSingle(),
+      supabase.from('expense_categories').select('code, label, label_full'),
+    ])
+
+    if (categoriesError) {
+      throw new Error(`Failed to load categories: ${categoriesError.message}`)
+    }
+
+    const categoryLabels: Record<ExpenseCategory, string> = Object.fromEntries(
+      (categories ?? []).map((category: { code: string; label: string; label_full: string | null }) => [
+        category.code,
+        category.label_full || category.label,
+      ])
+    )
+
+    return {
+      success: true,
+      report: {
+        filters,
+        rows,
+        subtotals: buildSubtotals(rows),
+        total: rows.reduce((sum, row) => sum + row.amount, 0),
+        categoryLabels,
+        generatedAt: new Date().toISOString(),
+        generatedBy: profile?.full_name || profile?.email || undefined,
+        truncated,
+      },
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: message }
+  }
+}
@@ -0,0 +1,170 @@
+import PDFDocument from 'pdfkit'
+import { getCategoryLabel } from './report'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatDate } from '@/lib/utils/format-date'
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { ReimbursementEmployee, ReimbursementRun } from '@/types/reimbursement'
+
+/**
+ * Reimbursement statement PDF
+ *
+ * One A4 portrait page (or more) per employee itemizing the expenses
+ * reimbursed in a run, for the employee's records. Excluded expenses are
+ * left out.
+ */
+
+const MARGIN = 40
+const ROW_PADDING = 4
+
+const COLUMNS = [
+  { key: 'date', header: 'Tanggal', width: 62 },
+  { key: 'category', header: 'Kategori', width: 90 },
+  { key: 'detail', header: 'Keterangan', width: 163 },
+  { key: 'reference', header: 'Job / BKK', width: 110 },
+  { key: 'amount', header: 'Jumlah', width: 90, align: 'right' as const },
+]
+
+const TABLE_WIDTH = COLUMNS.reduce((sum, column) => sum + column.width, 0)
+
+/**
+ * Render the statements of a run's employees as one PDF document
+ *
+ * @param run - Reimbursement run
+ * @param employees - Employees to print, one statement each
+ * @param categoryLabels - Full category labels by code
+ */
+export async function renderReimbursementStatementPdf(
+  run: ReimbursementRun,
+  employees: ReimbursementEmployee[],
+  categoryLabels: Record<ExpenseCategory, string>
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    autoFirstPage: false,
+    info: { Title: `Rincian Reimbursement ${run.runNumber}`, Author: 'GAMA Money Recorder' },
+  })
+
+  const chunks: Buffer[] = []
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+
+  const bottom = () => doc.page.height - MARGIN
+
+  const drawTableHeader = () => {
+    let x = MARGIN
+    const y = doc.y
+    doc.font('Helvetica-Bold').fontSize(8).fillColor('#475569')
+    for (const column of COLUMNS) {
+      doc.text(column.header, x + ROW_PADDING, y, {
+        width: column.width - ROW_PADDING * 2,
+        align: column.align ?? 'left',
+      })
+      x += column.width
+    }
+    doc
+      .moveTo(MARGIN, y + 12)
+      .lineTo(MARGIN + TABLE_WIDTH, y + 12)
+      .strokeColor('#cbd5e1')
+      .stroke()
+    doc.y = y + 16
+  }
+
+  const drawRow = (values: Record<string, string>) => {
+    doc.font('Helvetica').fontSize(8)
+    const rowHeight =
+      Math.max(
+        ...COLUMNS.map((column) =>
+          doc.heightOfString(values[column.key], { width: column.width - ROW_PADDING * 2 })
+        )
+      ) +
+      ROW_PADDING * 2
+
+    if (doc.y + rowHeight > bottom()) {
+      doc.addPage()
+      drawTableHeader()
+    }
+
+    const y = doc.y
+    let x = MARGIN
+    doc.fillColor('#0f172a')
+    for (const column of COLUMNS) {
+      doc.text(values[column.key], x + ROW_PADDING, y + ROW_PADDING, {
+        width: column.width - ROW_PADDING * 2,
+        align: column.align ?? 'left',
+      })
+      x += column.width
+    }
+
+    doc
+      .moveTo(MARGIN, y + rowHeight)
+      .lineTo(MARGIN + TABLE_WIDTH, y + rowHeight)
+      .strokeColor('#e2e8f0')
+      .stroke()
+    doc.y = y + rowHeight
+  }
+
+  const status = run.confirmedAt
+    ? `Dibayar ${formatDate(run.confirmedAt, 'long')}`
+    : 'Draf - belum dibayar'
+
+  for (const employee of employees) {
+    const items = employee.items.filter((item) => !item.excluded)
+    const { bankAccount } = employee
+
+    doc.addPage()
+    doc.font('Helvetica-Bold').fontSize(16).fillColor('#0f172a').text('Rincian Reimbursement')
+    doc.font('Helvetica').fontSize(9).fillColor('#475569')
+    doc.text(
+      `${run.runNumber} · Periode ${formatDate(run.periodFrom, 'long')} – ${formatDate(run.periodTo, 'long')} · ${status}`
+    )
+    doc.moveDown()
+
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#0f172a').text(employee.name)
+    doc.font('Helvetica').fontSize(9).fillColor('#475569')
+    if (employee.employeeNumber) {
+      doc.text(`No. Karyawan: ${employee.employeeNumber}`)
+    }
+    doc.text(
+      bankAccount.accountNumber
+        ? `Rekening: ${[bankAccount.bankName, bankAccount.accountNumber, bankAccount.accountName]
+            .filter(Boolean)
+            .join(' · ')}`
+        : 'Rekening: belum terdaftar'
+    )
+    doc.moveDown()
+
+    drawTableHeader()
+    for (const item of items) {
+      drawRow({
+        date: formatDate(item.expenseDate, 'short'),
+        category: getCategoryLabel(item.category, categoryLabels),
+        detail: item.description || '-',
+        reference: [item.jobNumber, item.bkkNumber].filter(Boolean).join('\n') || '-',
+        amount: formatCurrency(item.amount),
+      })
+    }
+
+    const y = doc.y + ROW_PADDING
+    const amountColumn = COLUMNS[COLUMNS.length - 1]
+    doc.font('Helvetica-Bold').fontSize(9).fillColor('#0f172a')
+    doc.text(`Total (${items.length} pengeluaran)`, MARGIN + ROW_PADDING, y, {
+      width: TABLE_WIDTH - amountColumn.width - ROW_PADDING * 2,
+    })
+    doc.text(formatCurrency(employee.total), MARGIN + TABLE_WIDTH - amountColumn.width + ROW_PADDING, y, {
+      width: amountColumn.width - ROW_PADDING * 2,
+      align: 'right',
+    })
+  }
+
+  if (employees.length === 0) {
+    doc.addPage()
+    doc.font('Helvetica').fontSize(10).fillColor('#475569').text('Tidak ada pengeluaran.')
+  }
+
+  doc.end()
+  return finished
+}
@@ -0,0 +1,92 @@
+import ExcelJS from 'exceljs'
+import { APPROVAL_STATUS_LABELS, describeFilters, getCategoryLabel } from './report'
+import { formatDate } from '@/lib/utils/format-date'
+import type { ExpenseReport } from '@/types/expense-report'
+
+/**
+ * XLSX export
+ *
+ * Sheet "Pengeluaran" lists the expenses with links to the receipts,
+ * sheet "Ringkasan" has the category subtotals.
+ */
+
+const AMOUNT_FORMAT = '#,##0'
+
+/**
+ * Render the report as an XLSX workbook
+ */
+export async function renderExpenseReportXlsx(report: ExpenseReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'GAMA Money Recorder'
+  workbook.created = new Date(report.generatedAt)
+
+  // Expenses
+  const expenses = workbook.addWorksheet('Pengeluaran', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  })
+  expenses.columns = [
+    { header: 'Tanggal', key: 'date', width: 12 },
+    { header: 'Kategori', key: 'category', width: 16 },
+    { header: 'Vendor', key: 'vendor', width: 24 },
+    { header: 'Keterangan', key: 'description', width: 32 },
+    { header: 'Job Order', key: 'jobNumber', width: 16 },
+    { header: 'Customer', key: 'customer', width: 24 },
+    { header: 'Jumlah', key: 'amount', width: 14, style: { numFmt: AMOUNT_FORMAT } },
+    { header: 'Status', key: 'status', width: 20 },
+    { header: 'No. BKK', key: 'bkkNumber', width: 18 },
+    { header: 'Struk', key: 'receipt', width: 10 },
+  ]
+  expenses.getRow(1).font = { bold: true }
+
+  for (const row of report.rows) {
+    expenses.addRow({
+      date: new Date(row.expenseDate),
+      category: getCategoryLabel(row.category, report.categoryLabels),
+      vendor: row.vendorName,
+      description: row.description,
+      jobNumber: row.jobNumber,
+      customer: row.customerName,
+      amount: row.amount,
+      status: APPROVAL_STATUS_LABELS[row.approvalStatus],
+      bkkNumber: row.bkkNumber,
+      receipt: row.receiptUrl ? { text: 'Lihat', hyperlink: row.receiptUrl } : undefined,
+    })
+  }
+  expenses.getColumn('date').numFmt = 'dd/mm/yyyy'
+  expenses.getColumn('receipt').font = { color: { argb: 'FF2563EB' }, underline: true }
+
+  const totalRow = expenses.addRow({ description: 'Total', amount: report.total })
+  totalRow.font = { bold: true }
+
+  // Summary
+  const summary = workbook.addWorksheet('Ringkasan')
+  summary.columns = [
+    { key: 'category', width: 24 },
+    { key: 'count', width: 16 },
+    { key: 'total', width: 16, style: { numFmt: AMOUNT_FORMAT } },
+  ]
+  summary.addRow({ category: 'Laporan Pengeluaran' }).font = { bold: true, size: 14 }
+  summary.addRow({ category: describeFilters(report.filters, report.categoryLabels) })
+  summary.addRow({
+    category: `Dibuat ${formatDate(report.generatedAt, 'long')}${
+      report.generatedBy ? ` oleh ${report.generatedBy}` : ''
+    }`,
+  })
+  summary.addRow({})
+  summary.addRow({ category: 'Kategori', count: 'Jumlah Transaksi', total: 'Total' }).font = {
+    bold: true,
+  }
+  for (const subtotal of report.subtotals) {
+    summary.addRow({
+      category: getCategoryLabel(subtotal.category, report.categoryLabels),
+      count: subtotal.count,
+      total: subtotal.total,
+    })
+  }
+  summary.addRow({ category: 'Total', count: report.rows.length, total: report.total }).font = {
+    bold: true,
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(buffer)
+}
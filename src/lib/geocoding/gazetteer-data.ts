@@ -0,0 +1,147 @@
+import type { PlaceKind } from '@/types/geocoding'
+
+/**
+ * Bundled gazetteer
+ *
+ * Ports, industrial estates, toll gates and cities our trucks commonly run
+ * between. Coordinates are approximate centers, well within the geofence
+ * radius. Names and aliases are matched after normalization, so spelling
+ * variants only need an alias when they differ in words, not in case or
+ * punctuation.
+ */
+
+export interface GazetteerEntry {
+  name: string
+  kind: PlaceKind
+  latitude: number
+  longitude: number
+  aliases?: string[]
+}
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // Ports
+  { name: 'Tanjung Priok', kind: 'port', latitude: -6.104, longitude: 106.882, aliases: ['Priok', 'Tanjung Priuk', 'JICT', 'Koja', 'NPCT1'] },
+  { name: 'Tanjung Perak', kind: 'port', latitude: -7.199, longitude: 112.732, aliases: ['Perak Surabaya'] },
+  { name: 'Teluk Lamong', kind: 'port', latitude: -7.2, longitude: 112.68 },
+  { name: 'Tanjung Emas', kind: 'port', latitude: -6.945, longitude: 110.423, aliases: ['Tanjung Mas'] },
+  { name: 'Belawan', kind: 'port', latitude: 3.785, longitude: 98.693 },
+  { name: 'Kuala Tanjung', kind: 'port', latitude: 3.36, longitude: 99.45 },
+  { name: 'Makassar New Port', kind: 'port', latitude: -5.09, longitude: 119.42 },
+  { name: 'Pelabuhan Soekarno Hatta', kind: 'port', latitude: -5.123, longitude: 119.405, aliases: ['Pelabuhan Makassar'] },
+  { name: 'Patimban', kind: 'port', latitude: -6.247, longitude: 107.905 },
+  { name: 'Merak', kind: 'port', latitude: -5.931, longitude: 106.004, aliases: ['Pelabuhan Merak'] },
+  { name: 'Ciwandan', kind: 'port', latitude: -6.025, longitude: 105.95 },
+  { name: 'Bakauheni', kind: 'port', latitude: -5.87, longitude: 105.753 },
+  { name: 'Pelabuhan Panjang', kind: 'port', latitude: -5.472, longitude: 105.32 },
+  { name: 'Boom Baru', kind: 'port', latitude: -2.98, longitude: 104.78 },
+  { name: 'Teluk Bayur', kind: 'port', latitude: -1.0, longitude: 100.37 },
+  { name: 'Pelabuhan Dumai', kind: 'port', latitude: 1.69, longitude: 101.45 },
+  { name: 'Batu Ampar', kind: 'port', latitude: 1.17, longitude: 104.01 },
+  { name: 'Pelabuhan Dwikora', kind: 'port', latitude: -0.019, longitude: 109.338, aliases: ['Pelabuhan Pontianak'] },
+  { name: 'Trisakti', kind: 'port', latitude: -3.328, longitude: 114.571, aliases: ['Pelabuhan Banjarmasin'] },
+  { name: 'Semayang', kind: 'port', latitude: -1.27, longitude: 116.808 },
+  { name: 'Kariangau', kind: 'port', latitude: -1.18, longitude: 116.775 },
+  { name: 'Palaran', kind: 'port', latitude: -0.56, longitude: 117.18 },
+  { name: 'Pelabuhan Bitung', kind: 'port', latitude: 1.44, longitude: 125.19 },
+  { name: 'Pelabuhan Cirebon', kind: 'port', latitude: -6.715, longitude: 108.57 },
+  { name: 'Tanjung Intan', kind: 'port', latitude: -7.735, longitude: 109.01 },
+  { name: 'Pelabuhan Gresik', kind: 'port', latitude: -7.16, longitude: 112.66 },
+  { name: 'Benoa', kind: 'port', latitude: -8.745, longitude: 115.21 },
+  { name: 'Ketapang', kind: 'port', latitude: -8.143, longitude: 114.399, aliases: ['Pelabuhan Ketapang'] },
+  { name: 'Gilimanuk', kind: 'port', latitude: -8.16, longitude: 114.437 },
+  { name: 'Tenau', kind: 'port', latitude: -10.2, longitude: 123.53 },
+  { name: 'Yos Sudarso Ambon', kind: 'port', latitude: -3.695, longitude: 128.175 },
+  { name: 'Pelabuhan Sorong', kind: 'port', latitude: -0.88, longitude: 131.25 },
+  { name: 'Pelabuhan Jayapura', kind: 'port', latitude: -2.54, longitude: 140.71 },
+
+  // Dry ports and industrial estates
+  { name: 'Cikarang Dry Port', kind: 'industrial_estate', latitude: -6.33, longitude: 107.135, aliases: ['CDP'] },
+  { name: 'Jababeka', kind: 'industrial_estate', latitude: -6.295, longitude: 107.15 },
+  { name: 'MM2100', kind: 'industrial_estate', latitude: -6.276, longitude: 107.09, aliases: ['MM 2100'] },
+  { name: 'EJIP', kind: 'industrial_estate', latitude: -6.317, longitude: 107.157 },
+  { name: 'Delta Silicon', kind: 'industrial_estate', latitude: -6.338, longitude: 107.148, aliases: ['Lippo Cikarang'] },
+  { name: 'GIIC Deltamas', kind: 'industrial_estate', latitude: -6.365, longitude: 107.175, aliases: ['GIIC', 'Deltamas'] },
+  { name: 'KIIC', kind: 'industrial_estate', latitude: -6.367, longitude: 107.28, aliases: ['Karawang International Industrial City'] },
+  { name: 'Suryacipta', kind: 'industrial_estate', latitude: -6.408, longitude: 107.395 },
+  { name: 'Pulogadung', kind: 'industrial_estate', latitude: -6.195, longitude: 106.905, aliases: ['JIEP'] },
+  { name: 'KBN Cakung', kind: 'industrial_estate', latitude: -6.14, longitude: 106.93, aliases: ['Kawasan Berikat Nusantara', 'Cakung'] },
+  { name: 'KBN Marunda', kind: 'industrial_estate', latitude: -6.1, longitude: 106.96, aliases: ['Marunda'] },
+  { name: 'Krakatau Industrial Estate', kind: 'industrial_estate', latitude: -6.015, longitude: 106.01, aliases: ['KIEC'] },
+  { name: 'Modern Cikande', kind: 'industrial_estate', latitude: -6.2, longitude: 106.35, aliases: ['Cikande'] },
+  { name: 'Millennium Industrial Estate', kind: 'industrial_estate', latitude: -6.28, longitude: 106.47, aliases: ['Tigaraksa'] },
+  { name: 'Kawasan Industri Medan', kind: 'industrial_estate', latitude: 3.69, longitude: 98.7, aliases: ['KIM Medan'] },
+  { name: 'SIER', kind: 'industrial_estate', latitude: -7.33, longitude: 112.76, aliases: ['Rungkut Industri'] },
+  { name: 'PIER', kind: 'industrial_estate', latitude: -7.65, longitude: 112.86, aliases: ['Pasuruan Industrial Estate Rembang'] },
+  { name: 'Ngoro Industri Persada', kind: 'industrial_estate', latitude: -7.57, longitude: 112.62, aliases: ['Ngoro'] },
+  { name: 'JIIPE', kind: 'industrial_estate', latitude: -7.1, longitude: 112.6 },
+  { name: 'Wijayakusuma', kind: 'industrial_estate', latitude: -6.99, longitude: 110.33 },
+  { name: 'Terboyo', kind: 'industrial_estate', latitude: -6.96, longitude: 110.46 },
+  { name: 'Kendal Industrial Park', kind: 'industrial_estate', latitude: -6.93, longitude: 110.24, aliases: ['KEK Kendal', 'KIK'] },
+  { name: 'Batamindo', kind: 'industrial_estate', latitude: 1.06, longitude: 104.04, aliases: ['Muka Kuning'] },
+  { name: 'IMIP', kind: 'industrial_estate', latitude: -2.82, longitude: 122.16, aliases: ['Morowali'] },
+
+  // Toll gates
+  { name: 'Gerbang Tol Cikarang Utama', kind: 'toll_gate', latitude: -6.291, longitude: 107.087, aliases: ['Cikarang Utama'] },
+  { name: 'Gerbang Tol Kalihurip Utama', kind: 'toll_gate', latitude: -6.441, longitude: 107.445, aliases: ['Kalihurip'] },
+  { name: 'Gerbang Tol Cikupa', kind: 'toll_gate', latitude: -6.218, longitude: 106.515 },
+  { name: 'Gerbang Tol Cileunyi', kind: 'toll_gate', latitude: -6.939, longitude: 107.755, aliases: ['Cileunyi'] },
+  { name: 'Gerbang Tol Pasteur', kind: 'toll_gate', latitude: -6.894, longitude: 107.583 },
+  { name: 'Gerbang Tol Palimanan', kind: 'toll_gate', latitude: -6.709, longitude: 108.423, aliases: ['Palimanan'] },
+  { name: 'Gerbang Tol Kalikangkung', kind: 'toll_gate', latitude: -7.008, longitude: 110.316, aliases: ['Kalikangkung'] },
+  { name: 'Gerbang Tol Warugunung', kind: 'toll_gate', latitude: -7.337, longitude: 112.679, aliases: ['Warugunung'] },
+  { name: 'Gerbang Tol Merak', kind: 'toll_gate', latitude: -5.955, longitude: 106.016 },
+  { name: 'Gerbang Tol Ciawi', kind: 'toll_gate', latitude: -6.647, longitude: 106.84 },
+  { name: 'Gerbang Tol Halim', kind: 'toll_gate', latitude: -6.252, longitude: 106.89 },
+
+  // Cities
+  { name: 'Jakarta', kind: 'city', latitude: -6.2088, longitude: 106.8456, aliases: ['DKI Jakarta', 'Jkt'] },
+  { name: 'Bogor', kind: 'city', latitude: -6.595, longitude: 106.8166 },
+  { name: 'Depok', kind: 'city', latitude: -6.4025, longitude: 106.7942 },
+  { name: 'Tangerang', kind: 'city', latitude: -6.1783, longitude: 106.6319, aliases: ['Tgr'] },
+  { name: 'Bekasi', kind: 'city', latitude: -6.2383, longitude: 106.9756, aliases: ['Bks'] },
+  { name: 'Cikarang', kind: 'city', latitude: -6.2615, longitude: 107.153 },
+  { name: 'Karawang', kind: 'city', latitude: -6.3227, longitude: 107.3376, aliases: ['Krawang'] },
+  { name: 'Purwakarta', kind: 'city', latitude: -6.5569, longitude: 107.4431 },
+  { name: 'Subang', kind: 'city', latitude: -6.5697, longitude: 107.7631 },
+  { name: 'Bandung', kind: 'city', latitude: -6.9175, longitude: 107.6191, aliases: ['Bdg'] },
+  { name: 'Sukabumi', kind: 'city', latitude: -6.9277, longitude: 106.93 },
+  { name: 'Tasikmalaya', kind: 'city', latitude: -7.3274, longitude: 108.2207 },
+  { name: 'Cirebon', kind: 'city', latitude: -6.732, longitude: 108.5523 },
+  { name: 'Serang', kind: 'city', latitude: -6.12, longitude: 106.1503 },
+  { name: 'Cilegon', kind: 'city', latitude: -6.0025, longitude: 106.011 },
+  { name: 'Tegal', kind: 'city', latitude: -6.8694, longitude: 109.1402 },
+  { name: 'Pekalongan', kind: 'city', latitude: -6.8886, longitude: 109.6753 },
+  { name: 'Cilacap', kind: 'city', latitude: -7.727, longitude: 109.009 },
+  { name: 'Semarang', kind: 'city', latitude: -6.9667, longitude: 110.4167, aliases: ['Smg'] },
+  { name: 'Kudus', kind: 'city', latitude: -6.8048, longitude: 110.8405 },
+  { name: 'Surakarta', kind: 'city', latitude: -7.5755, longitude: 110.8243, aliases: ['Solo'] },
+  { name: 'Yogyakarta', kind: 'city', latitude: -7.7956, longitude: 110.3695, aliases: ['Jogja', 'Jogjakarta', 'Yogya'] },
+  { name: 'Surabaya', kind: 'city', latitude: -7.2575, longitude: 112.7521, aliases: ['Sby'] },
+  { name: 'Gresik', kind: 'city', latitude: -7.1566, longitude: 112.6555 },
+  { name: 'Sidoarjo', kind: 'city', latitude: -7.4478, longitude: 112.7183 },
+  { name: 'Mojokerto', kind: 'city', latitude: -7.4722, longitude: 112.4338 },
+  { name: 'Pasuruan', kind: 'city', latitude: -7.6453, longitude: 112.9075 },
+  { name: 'Malang', kind: 'city', latitude: -7.9666, longitude: 112.6326 },
+  { name: 'Banyuwangi', kind: 'city', latitude: -8.2192, longitude: 114.3691 },
+  { name: 'Denpasar', kind: 'city', latitude: -8.65, longitude: 115.2167 },
+  { name: 'Mataram', kind: 'city', latitude: -8.5833, longitude: 116.1167 },
+  { name: 'Kupang', kind: 'city', latitude: -10.1772, longitude: 123.607 },
+  { name: 'Medan', kind: 'city', latitude: 3.5952, longitude: 98.6722 },
+  { name: 'Pekanbaru', kind: 'city', latitude: 0.5071, longitude: 101.4478 },
+  { name: 'Padang', kind: 'city', latitude: -0.9471, longitude: 100.4172 },
+  { name: 'Jambi', kind: 'city', latitude: -1.6101, longitude: 103.6131 },
+  { name: 'Palembang', kind: 'city', latitude: -2.9761, longitude: 104.7754, aliases: ['Plg'] },
+  { name: 'Bengkulu', kind: 'city', latitude: -3.7928, longitude: 102.2608 },
+  { name: 'Bandar Lampung', kind: 'city', latitude: -5.3971, longitude: 105.2668, aliases: ['Lampung'] },
+  { name: 'Batam', kind: 'city', latitude: 1.0456, longitude: 104.0305 },
+  { name: 'Pontianak', kind: 'city', latitude: -0.0263, longitude: 109.3425 },
+  { name: 'Banjarmasin', kind: 'city', latitude: -3.3186, longitude: 114.5944 },
+  { name: 'Balikpapan', kind: 'city', latitude: -1.2379, longitude: 116.8529, aliases: ['Bpn'] },
+  { name: 'Samarinda', kind: 'city', latitude: -0.5022, longitude: 117.1536 },
+  { name: 'Makassar', kind: 'city', latitude: -5.1477, longitude: 119.4327, aliases: ['Ujung Pandang'] },
+  { name: 'Palu', kind: 'city', latitude: -0.8917, longitude: 119.8707 },
+  { name: 'Kendari', kind: 'city', latitude: -3.9985, longitude: 122.513 },
+  { name: 'Manado', kind: 'city', latitude: 1.4748, longitude: 124.8421 },
+  { name: 'Ambon', kind: 'city', latitude: -3.6954, longitude: 128.1814 },
+  { name: 'Jayapura', kind: 'city', latitude: -2.5337, longitude: 140.7181 },
+]
@@ -0,0 +1,111 @@
+import { GAZETTEER, type GazetteerEntry } from './gazetteer-data'
+import type { GeocodeResult, GeocodingProvider, PlaceKind } from '@/types/geocoding'
+
+/**
+ * Gazetteer provider
+ *
+ * Resolves job locations against the bundled gazetteer, fully offline.
+ * A place matches when all of its name (or alias) words appear in order in
+ * the text, so "Pelabuhan Tanjung Priok, Jakarta Utara" resolves to the
+ * port. The longest match wins, then the most specific kind.
+ */
+
+/** Common abbreviations in job order locations */
+const ABBREVIATIONS: Record<string, string[]> = {
+  tg: ['tanjung'],
+  tj: ['tanjung'],
+  tjg: ['tanjung'],
+  pel: ['pelabuhan'],
+  pelb: ['pelabuhan'],
+  gt: ['gerbang', 'tol'],
+  ki: ['kawasan', 'industri'],
+  kaw: ['kawasan'],
+}
+
+/** More specific places win ties */
+const KIND_PRIORITY: Record<PlaceKind, number> = {
+  port: 3,
+  industrial_estate: 3,
+  toll_gate: 2,
+  city: 1,
+}
+
+/**
+ * Normalize a place name into lowercase words, expanding abbreviations
+ */
+export function normalizePlaceName(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .flatMap((word) => ABBREVIATIONS[word] ?? [word])
+}
+
+/**
+ * Whether `needle` appears as a contiguous word sequence in `haystack`
+ */
+export function containsWords(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0 || needle.length > haystack.length) return false
+
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((word, i) => haystack[start + i] === word)) {
+      return true
+    }
+  }
+  return false
+}
+
+interface IndexedName {
+  entry: GazetteerEntry
+  words: string[]
+}
+
+const INDEX: IndexedName[] = GAZETTEER.flatMap((entry) =>
+  [entry.name, ...(entry.aliases ?? [])].map((name) => ({
+    entry,
+    words: normalizePlaceName(name),
+  }))
+)
+
+/**
+ * Find the gazetteer place for a location text
+ *
+ * @returns The matched place, or null when nothing matches
+ */
+export function lookupGazetteer(query: string): GeocodeResult | null {
+  const words = normalizePlaceName(query)
+  if (words.length === 0) return null
+
+  let best: IndexedName | null = null
+  for (const candidate of INDEX) {
+    if (!containsWords(words, candidate.words)) continue
+
+    if (
+      !best ||
+      candidate.words.length > best.words.length ||
+      (candidate.words.length === best.words.length &&
+        KIND_PRIORITY[candidate.entry.kind] > KIND_PRIORITY[best.entry.kind])
+    ) {
+      best = candidate
+    }
+  }
+
+  if (!best) return null
+
+  return {
+    coordinates: { latitude: best.entry.latitude, longitude: best.entry.longitude },
+    name: best.entry.name,
+    kind: best.entry.kind,
+    provider: gazetteerProvider.name,
+    // Exact matches are certain; a place inside a longer text less so
+    confidence: best.words.length === words.length ? 1 : 0.8,
+  }
+}
+
+export const gazetteerProvider: GeocodingProvider = {
+  name: 'gazetteer',
+  requiresNetwork: false,
+  geocode: async (query) => lookupGazetteer(query),
+}
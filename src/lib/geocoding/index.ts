@@ -0,0 +1,108 @@
+/**
+ * Geocoding
+ *
+ * Resolves free-text job locations ("Tanjung Priok", "Cikarang Dry Port")
+ * to coordinates for the capture-time geofence check. Providers are tried
+ * in order; the bundled gazetteer is the default and works offline.
+ * Additional providers (e.g. a geocoding API) can be registered with
+ * `setGeocodingProviders`; their results are cached in IndexedDB.
+ */
+
+import { gazetteerProvider, normalizePlaceName } from './gazetteer'
+import { cacheGeocode, getCachedGeocode } from '@/lib/db/geocode-cache'
+import type { JobGeofence } from '@/lib/location/geofence'
+import type { GeocodeResult, GeocodingProvider } from '@/types/geocoding'
+
+export { gazetteerProvider, lookupGazetteer, normalizePlaceName } from './gazetteer'
+
+let providers: GeocodingProvider[] = [gazetteerProvider]
+
+/**
+ * Replace the geocoding providers, in the order they are tried
+ */
+export function setGeocodingProviders(next: GeocodingProvider[]): void {
+  providers = next
+}
+
+/**
+ * Get the geocoding providers, in the order they are tried
+ */
+export function getGeocodingProviders(): GeocodingProvider[] {
+  return providers
+}
+
+/**
+ * Resolve a location text to coordinates
+ *
+ * Offline providers answer directly. Network providers are only asked
+ * when nothing offline matched, the cache has no fresh answer and the
+ * device is online.
+ *
+ * @param text - Location text from the job order
+ * @returns The resolved location, or null when no provider matched
+ */
+export async function geocodePlace(text: string): Promise<GeocodeResult | null> {
+  const query = normalizePlaceName(text).join(' ')
+  if (!query) return null
+
+  for (const provider of providers.filter((item) => !item.requiresNetwork)) {
+    const result = await provider.geocode(text)
+    if (result) return result
+  }
+
+  const networkProviders = providers.filter((item) => item.requiresNetwork)
+  if (networkProviders.length === 0) return null
+
+  const cached = await getCachedGeocode(query)
+  if (cached !== undefined) return cached
+
+  const isOnline = typeof navigator === 'undefined' || navigator.onLine
+  if (!isOnline) return null
+
+  let failed = false
+  for (const provider of networkProviders) {
+    try {
+      const result = await provider.geocode(text)
+      if (result) {
+        await cacheGeocode(query, result)
+        return result
+      }
+    } catch (error) {
+      failed = true
+      console.warn(`Geocoding with ${provider.name} failed:`, error)
+    }
+  }
+
+  // Only cache a miss every provider actually answered
+  if (!failed) {
+    await cacheGeocode(query, null)
+  }
+  return null
+}
+
+/**
+ * Fill in missing job coordinates from the origin and destination text
+ *
+ * Coordinates already on the job order are kept.
+ *
+ * @returns The completed geofence and whether any point was geocoded
+ */
+export async function geocodeJobGeofence(
+  geofence: JobGeofence,
+  origin: string,
+  destination: string
+): Promise<{ geofence: JobGeofence; geocoded: boolean }> {
+  const [originResult, destinationResult] = await Promise.all([
+    geofence.originCoords ? null : geocodePlace(origin),
+    geofence.destinationCoords ? null : geocodePlace(destination),
+  ])
+
+  return {
+    geofence: {
+      ...geofence,
+      originCoords: geofence.originCoords ?? originResult?.coordinates ?? null,
+      destinationCoords: geofence.destinationCoords ?? destinationResult?.coordinates ?? null,
+    },
+    geocoded: Boolean(originResult || destinationResult),
+  }
+}
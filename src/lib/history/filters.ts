@@ -0,0 +1,33 @@
+/**
+ * History filters
+ *
+ * Helpers shared by the history page and its filter sheet. Filters are
+ * applied by useExpenses (local) and applyExpenseFilters (server).
+ */
+
+import type { ExpenseFilters } from '@/types/expense-filters'
+
+/**
+ * Count the filter groups that are set, not counting the search term
+ */
+export function countExpenseFilters(filters: ExpenseFilters): number {
+  return [
+    filters.dateFrom || filters.dateTo,
+    filters.categories && filters.categories.length > 0,
+    filters.syncStatuses && filters.syncStatuses.length > 0,
+    filters.approvalStatuses && filters.approvalStatuses.length > 0,
+    filters.minAmount !== undefined || filters.maxAmount !== undefined,
+    filters.jobOrderIds && filters.jobOrderIds.length > 0,
+    filters.costType,
+    filters.requiresReview,
+    filters.receipt,
+    filters.locationWarning,
+  ].filter(Boolean).length
+}
+
+/**
+ * Filters without the search term, as edited in the filter sheet
+ */
+export function withoutSearch(filters: ExpenseFilters): ExpenseFilters {
+  return { ...filters, search: undefined }
+}
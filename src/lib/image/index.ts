@@ -1,2 +1,3 @@
 export * from './compression';
 export * from './validation';
+export * from './perceptual-hash';
@@ -0,0 +1,98 @@
+/**
+ * Perceptual hashing for receipt photos
+ * Uses a difference hash (dHash): similar images, such as two photos of
+ * the same receipt, get hashes that differ in only a few bits.
+ */
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Load an image blob into an HTMLImageElement
+ */
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(blob);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image for hashing'));
+    };
+
+    img.src = url;
+  });
+}
+
+/**
+ * Compute the 64-bit difference hash of an image
+ *
+ * The image is scaled to 9x8 grayscale pixels and each bit records whether
+ * a pixel is brighter than its right neighbour.
+ *
+ * @param blob - Image to hash
+ * @returns 16-character hex string
+ */
+export async function computePerceptualHash(blob: Blob): Promise<string> {
+  const img = await loadImage(blob);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = new Array<number>(HASH_WIDTH * HASH_HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const bit = gray[y * HASH_WIDTH + x] > gray[y * HASH_WIDTH + x + 1] ? 1 : 0;
+      nibble = (nibble << 1) | bit;
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Count the differing bits between two perceptual hashes
+ *
+ * @returns Hamming distance (0-64), or null when the hashes are not comparable
+ */
+export function perceptualHashDistance(a: string, b: string): number | null {
+  if (a.length !== b.length || !/^[0-9a-f]+$/i.test(a) || !/^[0-9a-f]+$/i.test(b)) {
+    return null;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,93 @@
+import type {
+  JobCostAmounts,
+  JobCostReport,
+  JobReportExpense,
+  JobReportJob,
+} from '@/types/job-report'
+
+/**
+ * Job cost aggregation
+ *
+ * Pure helpers that turn the expenses of a job into totals per category
+ * and per driver. Rejected expenses are reported separately and do not
+ * count as job cost.
+ */
+
+function emptyAmounts(): JobCostAmounts {
+  return { approved: 0, pending: 0, draft: 0, total: 0, count: 0 }
+}
+
+/**
+ * Add an expense to a set of amounts
+ */
+function addExpense(amounts: JobCostAmounts, expense: JobReportExpense): void {
+  if (expense.approvalStatus === 'approved' || expense.approvalStatus === 'paid') {
+    amounts.approved += expense.amount
+  } else if (expense.approvalStatus === 'pending_approval') {
+    amounts.pending += expense.amount
+  } else if (expense.approvalStatus === 'draft') {
+    amounts.draft += expense.amount
+  } else {
+    return
+  }
+
+  amounts.total += expense.amount
+  amounts.count++
+}
+
+/**
+ * Build the cost report of a job from its expenses
+ *
+ * @param job - Job order
+ * @param expenses - All expenses charged to the job
+ */
+export function buildJobCostReport(job: JobReportJob, expenses: JobReportExpense[]): JobCostReport {
+  const totals = emptyAmounts()
+  const byCategory = new Map<string, JobCostReport['byCategory'][number]>()
+  const byDriver = new Map<string, JobCostReport['byDriver'][number]>()
+  let rejectedAmount = 0
+
+  for (const expense of expenses) {
+    if (expense.approvalStatus === 'rejected') {
+      rejectedAmount += expense.amount
+      continue
+    }
+
+    addExpense(totals, expense)
+
+    const category = byCategory.get(expense.category) ?? {
+      category: expense.category,
+      ...emptyAmounts(),
+    }
+    addExpense(category, expense)
+    byCategory.set(expense.category, category)
+
+    const driver = byDriver.get(expense.userId) ?? {
+      userId: expense.userId,
+      userName: expense.userName,
+      ...emptyAmounts(),
+    }
+    addExpense(driver, expense)
+    byDriver.set(expense.userId, driver)
+  }
+
+  const budget =
+    job.budgetAmount && job.budgetAmount > 0
+      ? {
+          budget: job.budgetAmount,
+          used: totals.total,
+          remaining: job.budgetAmount - totals.total,
+          percentage: (totals.total / job.budgetAmount) * 100,
+        }
+      : undefined
+
+  return {
+    job,
+    expenses,
+    totals,
+    rejectedAmount,
+    byCategory: Array.from(byCategory.values()).sort((a, b) => b.total - a.total),
+    byDriver: Array.from(byDriver.values()).sort((a, b) => b.total - a.total),
+    budget,
+  }
+}
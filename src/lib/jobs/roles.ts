@@ -0,0 +1,6 @@
+/**
+ * Roles that can view the cost report of a job across all users
+ *
+ * Matches the roles allowed to view team expenses (expense_drafts RLS).
+ */
+export const JOB_REPORT_ROLES = ['owner', 'director', 'finance_manager', 'finance', 'operations_manager']
@@ -0,0 +1,215 @@
+import { calculateDistance } from '@/lib/utils/geo'
+
+/**
+ * Job Geofence
+ *
+ * Checks the capture GPS position against a job's origin, destination and
+ * route corridor. Coordinates come from the ERP `job_orders` table and are
+ * optional; jobs without any coordinates cannot be validated.
+ */
+
+/** Allowed distance from the job origin or destination (km) */
+export const JOB_GEOFENCE_RADIUS_KM = 50
+
+/** Allowed distance from the route between origin, waypoints and destination (km) */
+export const ROUTE_CORRIDOR_WIDTH_KM = 20
+
+/**
+ * GPS coordinates for a location
+ */
+export interface GPSCoordinates {
+  latitude: number
+  longitude: number
+}
+
+/**
+ * Coordinates of a job's route
+ */
+export interface JobGeofence {
+  originCoords: GPSCoordinates | null
+  destinationCoords: GPSCoordinates | null
+  /** Intermediate route points, in travel order */
+  waypoints: GPSCoordinates[]
+}
+
+/**
+ * Location columns of a job_orders row
+ */
+export interface JobOrderLocationColumns {
+  origin_latitude?: number | string | null
+  origin_longitude?: number | string | null
+  destination_latitude?: number | string | null
+  destination_longitude?: number | string | null
+  route_waypoints?: unknown
+}
+
+export type GeofenceMatch = 'origin' | 'destination' | 'route'
+
+export interface GeofenceCheck {
+  /** Distance to the nearest allowed area in kilometers */
+  distance: number
+  /** Allowed distance for the nearest area in kilometers */
+  threshold: number
+  /** Which part of the job the position is nearest to */
+  nearest: GeofenceMatch
+  /** Whether the position is outside every allowed area */
+  isOffRoute: boolean
+}
+
+/**
+ * Read a coordinate pair, rejecting missing or out-of-range values
+ */
+function toCoordinates(latitude: unknown, longitude: unknown): GPSCoordinates | null {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) {
+    return null
+  }
+
+  const lat = Number(latitude)
+  const lng = Number(longitude)
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null
+  }
+
+  return { latitude: lat, longitude: lng }
+}
+
+/**
+ * Parse route waypoints stored as a JSON array of { latitude, longitude }
+ *
+ * Invalid entries are dropped.
+ */
+export function parseRouteWaypoints(value: unknown): GPSCoordinates[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .map((point) =>
+      point && typeof point === 'object'
+        ? toCoordinates(
+            (point as Record<string, unknown>).latitude,
+            (point as Record<string, unknown>).longitude
+          )
+        : null
+    )
+    .filter((point): point is GPSCoordinates => point !== null)
+}
+
+/**
+ * Build the geofence from the location columns of a job order
+ */
+export function parseJobGeofence(row: JobOrderLocationColumns): JobGeofence {
+  return {
+    originCoords: toCoordinates(row.origin_latitude, row.origin_longitude),
+    destinationCoords: toCoordinates(row.destination_latitude, row.destination_longitude),
+    waypoints: parseRouteWaypoints(row.route_waypoints),
+  }
+}
+
+/**
+ * Whether the geofence has any coordinates to validate against
+ */
+export function hasGeofence(geofence: JobGeofence | null): boolean {
+  if (!geofence) return false
+  return Boolean(
+    geofence.originCoords || geofence.destinationCoords || geofence.waypoints.length > 0
+  )
+}
+
+/**
+ * Distance from a point to the segment between two points (km)
+ *
+ * Projects the segment onto a local flat plane around the point to find
+ * the closest position, then measures with the Haversine distance. Route
+ * legs are short enough for the projection error not to matter.
+ */
+function distanceToSegment(
+  point: GPSCoordinates,
+  start: GPSCoordinates,
+  end: GPSCoordinates
+): number {
+  const scale = Math.cos((point.latitude * Math.PI) / 180)
+  const ax = (start.longitude - point.longitude) * scale
+  const ay = start.latitude - point.latitude
+  const bx = (end.longitude - point.longitude) * scale
+  const by = end.latitude - point.latitude
+
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared))
+
+  return calculateDistance(
+    point.latitude,
+    point.longitude,
+    start.latitude + (end.latitude - start.latitude) * t,
+    start.longitude + (end.longitude - start.longitude) * t
+  )
+}
+
+/**
+ * Check a GPS position against a job geofence
+ *
+ * The position is on route when it is within JOB_GEOFENCE_RADIUS_KM of the
+ * origin or destination, or within ROUTE_CORRIDOR_WIDTH_KM of the route
+ * through the waypoints. GPS accuracy is credited so an imprecise fix near
+ * the edge is not flagged.
+ *
+ * @param position - Capture position, with accuracy in meters when known
+ * @param geofence - Job coordinates
+ * @returns The check result, or null when the job has no coordinates
+ */
+export function checkJobGeofence(
+  position: GPSCoordinates & { accuracy?: number | null },
+  geofence: JobGeofence | null
+): GeofenceCheck | null {
+  if (!geofence || !hasGeofence(geofence)) return null
+
+  const accuracyKm = (position.accuracy ?? 0) / 1000
+  const candidates: Omit<GeofenceCheck, 'isOffRoute'>[] = []
+
+  for (const [nearest, coords] of [
+    ['origin', geofence.originCoords],
+    ['destination', geofence.destinationCoords],
+  ] as const) {
+    if (coords) {
+      candidates.push({
+        nearest,
+        threshold: JOB_GEOFENCE_RADIUS_KM,
+        distance: calculateDistance(
+          position.latitude,
+          position.longitude,
+          coords.latitude,
+          coords.longitude
+        ),
+      })
+    }
+  }
+
+  // Corridor along origin -> waypoints -> destination
+  const route = [geofence.originCoords, ...geofence.waypoints, geofence.destinationCoords].filter(
+    (point): point is GPSCoordinates => point !== null
+  )
+  if (route.length === 1 && geofence.waypoints.length > 0) {
+    candidates.push({
+      nearest: 'route',
+      threshold: ROUTE_CORRIDOR_WIDTH_KM,
+      distance: distanceToSegment(position, route[0], route[0]),
+    })
+  }
+  for (let i = 1; i < route.length; i++) {
+    candidates.push({
+      nearest: 'route',
+      threshold: ROUTE_CORRIDOR_WIDTH_KM,
+      distance: distanceToSegment(position, route[i - 1], route[i]),
+    })
+  }
+
+  // Nearest area relative to its own threshold
+  const best = candidates.reduce((a, b) =>
+    b.distance - b.threshold < a.distance - a.threshold ? b : a
+  )
+
+  return {
+    ...best,
+    isOffRoute: best.distance - accuracyKm > best.threshold,
+  }
+}
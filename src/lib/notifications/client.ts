@@ -1,5 +1,7 @@
 'use client'
 
+import type { NotificationPreferences } from './types'
+
 /**
  * Client-side push notification utilities
  */
@@ -105,6 +107,78 @@ export async function getPushSubscription(): Promise<PushSubscription | null> {
   }
 }
 
+/**
+ * Register a push subscription with the server for this user and device
+ */
+export async function saveSubscriptionToServer(subscription: PushSubscription): Promise<boolean> {
+  try {
+    const response = await fetch('/api/notifications/subscriptions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(subscription.toJSON()),
+    })
+    return response.ok
+  } catch (error) {
+    console.error('Failed to save push subscription:', error)
+    return false
+  }
+}
+
+/**
+ * Remove a push subscription from the server
+ */
+export async function removeSubscriptionFromServer(endpoint: string): Promise<boolean> {
+  try {
+    const response = await fetch('/api/notifications/subscriptions', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint }),
+    })
+    return response.ok
+  } catch (error) {
+    console.error('Failed to remove push subscription:', error)
+    return false
+  }
+}
+
+/**
+ * Get the current user's notification preferences from the server
+ */
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences | null> {
+  try {
+    const response = await fetch('/api/notifications/preferences')
+    if (!response.ok) return null
+
+    const result = await response.json()
+    return result.preferences ?? null
+  } catch (error) {
+    console.error('Failed to load notification preferences:', error)
+    return null
+  }
+}
+
+/**
+ * Update the current user's notification preferences
+ */
+export async function updateNotificationPreferences(
+  updates: Partial<NotificationPreferences>
+): Promise<NotificationPreferences | null> {
+  try {
+    const response = await fetch('/api/notifications/preferences', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    })
+    if (!response.ok) return null
+
+    const result = await response.json()
+    return result.preferences ?? null
+  } catch (error) {
+    console.error('Failed to save notification preferences:', error)
+    return null
+  }
+}
+
 /**
  * Show a local notification (for testing or immediate feedback)
  */
@@ -0,0 +1,308 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { logger } from '@/lib/logger'
+import { PAYMENT_METHOD_LABELS } from '@/constants/payment-methods'
+import type { PaymentMethod } from '@/types/payment'
+import { sendPushNotificationBatch } from './server'
+import { getSubscriptionsForUsers, pruneSubscriptions } from './subscriptions'
+import type { NotificationType } from './types'
+
+/**
+ * Notification Dispatch (server)
+ *
+ * Fans out push notifications for approval workflow events. Runs with the
+ * service role because the recipients are other users than the caller.
+ */
+
+/**
+ * Send a notification to every registered device of the given users
+ *
+ * Subscriptions whose endpoint is gone (404/410) are removed.
+ *
+ * @returns Number of devices the notification was delivered to
+ */
+export async function notifyUsers(
+  userIds: string[],
+  type: NotificationType,
+  data?: Record<string, unknown>
+): Promise<number> {
+  const admin = createAdminClient()
+
+  const subscriptions = await getSubscriptionsForUsers(admin, Array.from(new Set(userIds)))
+  if (subscriptions.length === 0) {
+    return 0
+  }
+
+  const result = await sendPushNotificationBatch(subscriptions, type, data)
+
+  if (result.expiredEndpoints.length > 0) {
+    await pruneSubscriptions(admin, result.expiredEndpoints)
+    logger.info('Pruned expired push subscriptions', {
+      operation: 'notifyUsers',
+      count: result.expiredEndpoints.length,
+    })
+  }
+
+  return result.success
+}
+
+/**
+ * Notify the people concerned by an expense's current approval status
+ *
+ * - pending_approval: users whose role can decide the current step
+ * - approved / rejected: the submitter
+ *
+ * Errors are logged, never thrown, so a notification problem does not
+ * fail the approval request that triggered it.
+ */
+export async function notifyExpenseStatus(expenseId: string): Promise<void> {
+  try {
+    const admin = createAdminClient()
+
+    const { data: expense, error } = await admin
+      .from('expense_drafts')
+      .select(`
+        id, user_id, amount, category, approval_status, current_approval_step,
+        expense_category:expense_categories(label)
+      `)
+      .eq('id', expenseId)
+      .single()
+
+    if (error || !expense) {
+      throw new Error(error?.message ?? 'Expense not found')
+    }
+
+    const expenseCategory = Array.isArray(expense.expense_category)
+      ? expense.expense_category[0]
+      : expense.expense_category
+
+    const data = {
+      id: expense.id,
+      amount: formatCurrency(Number(expense.amount)),
+      category: expenseCategory?.label ?? expense.category,
+    }
+
+    if (expense.approval_status === 'approved') {
+      await notifyUsers([expense.user_id], 'approval_approved', data)
+      return
+    }
+
+    if (expense.approval_status === 'rejected') {
+      await notifyUsers([expense.user_id], 'approval_rejected', data)
+      return
+    }
+
+    if (expense.approval_status !== 'pending_approval' || !expense.current_approval_step) {
+      return
+    }
+
+    const { data: step, error: stepError } = await admin
+      .from('expense_approval_steps')
+      .select('approver_roles')
+      .eq('expense_id', expenseId)
+      .eq('step_order', expense.current_approval_step)
+      .single()
+
+    if (stepError || !step) {
+      throw new Error(stepError?.message ?? 'Approval step not found')
+    }
+
+    const { data: approvers, error: approversError } = await admin
+      .from('user_profiles')
+      .select('id')
+      .in('role', step.approver_roles)
+
+    if (approversError) {
+      throw new Error(approversError.message)
+    }
+
+    const approverIds = (approvers ?? [])
+      .map((approver) => approver.id)
+      .filter((id) => id !== expense.user_id)
+
+    await notifyUsers(approverIds, 'new_expense_pending', { ...data, count: 1 })
+  } catch (error) {
+    logger.error(
+      'Failed to send approval notifications',
+      error instanceof Error ? error : new Error(String(error)),
+      { operation: 'notifyExpenseStatus', expenseId }
+    )
+  }
+}
+
+/**
+ * Notify the people concerned by a batch of decided expenses
+ *
+ * Sends one digest per recipient instead of one notification per expense:
+ * - approved / rejected: each submitter, with the number and total of
+ *   their approved or rejected expenses
+ * - pending_approval: users whose role can decide the current step, with
+ *   the number of expenses now waiting for them
+ *
+ * Errors are logged, never thrown.
+ */
+export async function notifyExpensesDecided(expenseIds: string[]): Promise<void> {
+  if (expenseIds.length === 0) {
+    return
+  }
+
+  try {
+    const admin = createAdminClient()
+
+    const { data: expenses, error } = await admin
+      .from('expense_drafts')
+      .select(`
+        id, user_id, amount, category, approval_status, current_approval_step,
+        expense_category:expense_categories(label)
+      `)
+      .in('id', expenseIds)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    // Approved and rejected expenses per submitter and outcome
+    const decided = new Map<string, NonNullable<typeof expenses>>()
+    for (const expense of expenses ?? []) {
+      if (expense.approval_status === 'approved' || expense.approval_status === 'rejected') {
+        const key = `${expense.user_id}:${expense.approval_status}`
+        decided.set(key, [...(decided.get(key) ?? []), expense])
+      }
+    }
+
+    const pending = (expenses ?? []).filter(
+      (expense) => expense.approval_status === 'pending_approval' && expense.current_approval_step
+    )
+
+    // Submitters of the expenses waiting for a next step, per approver role
+    const pendingByRole = new Map<string, string[]>()
+    if (pending.length > 0) {
+      const { data: steps, error: stepsError } = await admin
+        .from('expense_approval_steps')
+        .select('expense_id, step_order, approver_roles')
+        .in('expense_id', pending.map((expense) => expense.id))
+
+      if (stepsError) {
+        throw new Error(stepsError.message)
+      }
+
+      for (const expense of pending) {
+        const step = (steps ?? []).find(
+          (candidate) =>
+            candidate.expense_id === expense.id &&
+            candidate.step_order === expense.current_approval_step
+        )
+        for (const role of step?.approver_roles ?? []) {
+          pendingByRole.set(role, [...(pendingByRole.get(role) ?? []), expense.user_id])
+        }
+      }
+    }
+
+    const pendingCounts = new Map<string, number>()
+    if (pendingByRole.size > 0) {
+      const { data: approvers, error: approversError } = await admin
+        .from('user_profiles')
+        .select('id, role')
+        .in('role', Array.from(pendingByRole.keys()))
+
+      if (approversError) {
+        throw new Error(approversError.message)
+      }
+
+      // Approvers are not notified about their own expenses
+      for (const approver of approvers ?? []) {
+        const count = (pendingByRole.get(approver.role) ?? []).filter(
+          (submitterId) => submitterId !== approver.id
+        ).length
+        if (count > 0) {
+          pendingCounts.set(approver.id, count)
+        }
+      }
+    }
+
+    await Promise.all([
+      ...Array.from(decided.values(), (group) => {
+        const [first] = group
+        const expenseCategory = Array.isArray(first.expense_category)
+          ? first.expense_category[0]
+          : first.expense_category
+
+        return notifyUsers(
+          [first.user_id],
+          first.approval_status === 'approved' ? 'approval_approved' : 'approval_rejected',
+          {
+            // A single expense keeps its own tag and category
+            ...(group.length === 1
+              ? { id: first.id, category: expenseCategory?.label ?? first.category }
+              : {}),
+            count: group.length,
+            amount: formatCurrency(
+              group.reduce((total, expense) => total + Number(expense.amount), 0)
+            ),
+          }
+        )
+      }),
+      ...Array.from(pendingCounts, ([userId, count]) =>
+        notifyUsers([userId], 'new_expense_pending', { count })
+      ),
+    ])
+  } catch (error) {
+    logger.error(
+      'Failed to send approval notifications',
+      error instanceof Error ? error : new Error(String(error)),
+      { operation: 'notifyExpensesDecided', count: expenseIds.length }
+    )
+  }
+}
+
+/**
+ * Notify each employee whose expenses were paid in a payment
+ *
+ * Sends one notification per employee with the number and total of their
+ * paid expenses. Errors are logged, never thrown.
+ */
+export async function notifyExpensesPaid(paymentId: string): Promise<void> {
+  try {
+    const admin = createAdminClient()
+
+    const [{ data: payment, error: paymentError }, { data: expenses, error: expensesError }] =
+      await Promise.all([
+        admin.from('expense_payments').select('id, method').eq('id', paymentId).single(),
+        admin.from('expense_drafts').select('user_id, amount').eq('payment_id', paymentId),
+      ])
+
+    if (paymentError || !payment) {
+      throw new Error(paymentError?.message ?? 'Payment not found')
+    }
+    if (expensesError) {
+      throw new Error(expensesError.message)
+    }
+
+    const totals = new Map<string, { count: number; amount: number }>()
+    for (const expense of expenses ?? []) {
+      const total = totals.get(expense.user_id) ?? { count: 0, amount: 0 }
+      total.count += 1
+      total.amount += Number(expense.amount)
+      totals.set(expense.user_id, total)
+    }
+
+    const method = PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] ?? payment.method
+
+    await Promise.all(
+      Array.from(totals, ([userId, total]) =>
+        notifyUsers([userId], 'expense_paid', {
+          id: payment.id,
+          count: total.count,
+          amount: formatCurrency(total.amount),
+          method: method.toLowerCase(),
+        })
+      )
+    )
+  } catch (error) {
+    logger.error(
+      'Failed to send payment notifications',
+      error instanceof Error ? error : new Error(String(error)),
+      { operation: 'notifyExpensesPaid', paymentId }
+    )
+  }
+}
@@ -1,2 +1,7 @@
-export type { NotificationType, NotificationPayload, PushSubscriptionData } from './types'
-export { NOTIFICATION_TEMPLATES } from './types'
+export type {
+  NotificationType,
+  NotificationPayload,
+  NotificationPreferences,
+  PushSubscriptionData,
+} from './types'
+export { NOTIFICATION_TEMPLATES, DEFAULT_NOTIFICATION_PREFERENCES } from './types'
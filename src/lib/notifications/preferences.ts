@@ -0,0 +1,136 @@
+import { createClient } from '@/lib/supabase/server'
+import { DEFAULT_NOTIFICATION_PREFERENCES, type NotificationPreferences } from './types'
+
+/**
+ * Notification Preferences (server)
+ *
+ * Reminder opt-out and quiet hours per user. Users without a row get
+ * DEFAULT_NOTIFICATION_PREFERENCES.
+ */
+
+export interface PreferencesResult {
+  success: boolean
+  preferences?: NotificationPreferences
+  error?: string
+}
+
+/**
+ * Convert a notification_preferences row to NotificationPreferences
+ */
+export function rowToPreferences(row: {
+  reminders_enabled: boolean
+  quiet_hours_start: number | null
+  quiet_hours_end: number | null
+  timezone: string
+} | null): NotificationPreferences {
+  if (!row) {
+    return DEFAULT_NOTIFICATION_PREFERENCES
+  }
+
+  return {
+    remindersEnabled: row.reminders_enabled,
+    quietHoursStart: row.quiet_hours_start,
+    quietHoursEnd: row.quiet_hours_end,
+    timezone: row.timezone,
+  }
+}
+
+/**
+ * Validate an hour of day (0-23) or null
+ */
+function isValidHour(value: unknown): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23)
+}
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Load the stored preferences of a user (defaults when none stored)
+ */
+async function loadPreferences(
+  supabase: ServerClient,
+  userId: string
+): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('reminders_enabled, quiet_hours_start, quiet_hours_end, timezone')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load preferences: ${error.message}`)
+  }
+
+  return rowToPreferences(data)
+}
+
+/**
+ * Get the notification preferences of the current user
+ */
+export async function getPreferences(): Promise<PreferencesResult> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { success: false, error: 'User not authenticated' }
+  }
+
+  try {
+    return { success: true, preferences: await loadPreferences(supabase, user.id) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: message }
+  }
+}
+
+/**
+ * Update the notification preferences of the current user
+ */
+export async function savePreferences(
+  updates: Partial<NotificationPreferences>
+): Promise<PreferencesResult> {
+  if (updates.quietHoursStart !== undefined && !isValidHour(updates.quietHoursStart)) {
+    return { success: false, error: 'Quiet hours start must be an hour between 0 and 23' }
+  }
+  if (updates.quietHoursEnd !== undefined && !isValidHour(updates.quietHoursEnd)) {
+    return { success: false, error: 'Quiet hours end must be an hour between 0 and 23' }
+  }
+  if (updates.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: updates.timezone })
+    } catch {
+      return { success: false, error: 'Invalid time zone' }
+    }
+  }
+
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { success: false, error: 'User not authenticated' }
+  }
+
+  try {
+    const preferences = { ...(await loadPreferences(supabase, user.id)), ...updates }
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: user.id,
+        reminders_enabled: preferences.remindersEnabled,
+        quiet_hours_start: preferences.quietHoursStart,
+        quiet_hours_end: preferences.quietHoursEnd,
+        timezone: preferences.timezone,
+        updated_at: new Date().toISOString(),
+      })
+
+    if (error) {
+      return { success: false, error: `Failed to save preferences: ${error.message}` }
+    }
+
+    return { success: true, preferences }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: message }
+  }
+}
@@ -0,0 +1,283 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { logger } from '@/lib/logger'
+import { notifyUsers } from './dispatch'
+import { rowToPreferences } from './preferences'
+import type { NotificationPreferences, NotificationType } from './types'
+
+/**
+ * Scheduled Reminders (server)
+ *
+ * Sends digest reminders, run periodically by the cron route:
+ * - approvers: expenses waiting at their approval step longer than
+ *   REMINDER_APPROVAL_AGE_HOURS (since the step became pending)
+ * - submitters: expenses still in draft longer than REMINDER_DRAFT_AGE_DAYS
+ *
+ * Users who opted out are skipped. Users in their quiet hours are skipped
+ * and picked up by a later run. A user gets at most one digest per
+ * REMINDER_INTERVAL_HOURS.
+ */
+
+/**
+ * Read a positive number from the environment
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export const REMINDER_CONFIG = {
+  approvalAgeHours: envNumber('REMINDER_APPROVAL_AGE_HOURS', 24),
+  draftAgeDays: envNumber('REMINDER_DRAFT_AGE_DAYS', 3),
+  intervalHours: envNumber('REMINDER_INTERVAL_HOURS', 20),
+}
+
+/** Rows fetched per request (Supabase returns at most 1000 rows) */
+const FETCH_PAGE_SIZE = 1000
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+/**
+ * Fetch every row of a query, one page at a time
+ *
+ * @param fetchPage - Runs the query (ordered on a unique key) for a row range
+ * @param label - What is loaded, for the error message
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{
+    data: T[] | null
+    error: { message: string } | null
+  }>,
+  label: string
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + FETCH_PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to load ${label}: ${error.message}`)
+    }
+
+    rows.push(...(data ?? []))
+    if (!data || data.length < FETCH_PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+export interface ReminderRunResult {
+  approvalReminders: number
+  draftReminders: number
+  skippedOptOut: number
+  skippedQuietHours: number
+  skippedRecent: number
+}
+
+/**
+ * Get the hour of day (0-23) in a time zone
+ */
+export function getLocalHour(date: Date, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(date)
+
+  return Number(hour)
+}
+
+/**
+ * Check whether a time falls in the user's quiet hours
+ *
+ * Quiet hours may wrap around midnight (e.g. 21 to 7). The end hour is
+ * exclusive; equal start and end means no quiet hours.
+ */
+export function isInQuietHours(date: Date, preferences: NotificationPreferences): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences
+  if (start === null || end === null || start === end) {
+    return false
+  }
+
+  const hour = getLocalHour(date, preferences.timezone)
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end
+}
+
+/**
+ * Count approval steps pending too long, per approver
+ */
+async function countOverdueApprovals(
+  admin: AdminClient,
+  cutoff: Date
+): Promise<Map<string, number>> {
+  const steps = await fetchAllRows<{ approver_roles: string[]; expense: unknown }>(
+    (from, to) =>
+      admin
+        .from('expense_approval_steps')
+        .select('approver_roles, expense:expense_drafts!inner(user_id, approval_status)')
+        .eq('status', 'pending')
+        .eq('expense.approval_status', 'pending_approval')
+        .lt('activated_at', cutoff.toISOString())
+        .order('id')
+        .range(from, to),
+    'pending approvals'
+  )
+
+  if (steps.length === 0) {
+    return new Map()
+  }
+
+  const roles = Array.from(new Set(steps.flatMap((step) => step.approver_roles)))
+
+  const { data: approvers, error: approversError } = await admin
+    .from('user_profiles')
+    .select('id, role')
+    .in('role', roles)
+
+  if (approversError) {
+    throw new Error(`Failed to load approvers: ${approversError.message}`)
+  }
+
+  const counts = new Map<string, number>()
+  for (const step of steps) {
+    const expense = (Array.isArray(step.expense) ? step.expense[0] : step.expense) as
+      | { user_id: string }
+      | null
+    for (const approver of approvers ?? []) {
+      if (step.approver_roles.includes(approver.role) && approver.id !== expense?.user_id) {
+        counts.set(approver.id, (counts.get(approver.id) ?? 0) + 1)
+      }
+    }
+  }
+
+  return counts
+}
+
+/**
+ * Count expenses left in draft too long, per user
+ */
+async function countStaleDrafts(
+  admin: AdminClient,
+  cutoff: Date
+): Promise<Map<string, number>> {
+  const drafts = await fetchAllRows<{ user_id: string }>(
+    (from, to) =>
+      admin
+        .from('expense_drafts')
+        .select('user_id')
+        .eq('approval_status', 'draft')
+        .lt('created_at', cutoff.toISOString())
+        .order('id')
+        .range(from, to),
+    'draft expenses'
+  )
+
+  const counts = new Map<string, number>()
+  for (const expense of drafts) {
+    counts.set(expense.user_id, (counts.get(expense.user_id) ?? 0) + 1)
+  }
+
+  return counts
+}
+
+/**
+ * Send the reminder digests that are due
+ *
+ * @param now - Current time (injectable for scheduling checks)
+ * @returns Counts of sent and skipped reminders
+ */
+export async function sendScheduledReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+  const admin = createAdminClient()
+  const hour = 60 * 60 * 1000
+
+  const [approvalCounts, draftCounts] = await Promise.all([
+    countOverdueApprovals(admin, new Date(now.getTime() - REMINDER_CONFIG.approvalAgeHours * hour)),
+    countStaleDrafts(admin, new Date(now.getTime() - REMINDER_CONFIG.draftAgeDays * 24 * hour)),
+  ])
+
+  const userIds = Array.from(new Set([...approvalCounts.keys(), ...draftCounts.keys()]))
+  const result: ReminderRunResult = {
+    approvalReminders: 0,
+    draftReminders: 0,
+    skippedOptOut: 0,
+    skippedQuietHours: 0,
+    skippedRecent: 0,
+  }
+
+  if (userIds.length === 0) {
+    return result
+  }
+
+  const { data: rows, error } = await admin
+    .from('notification_preferences')
+    .select('user_id, reminders_enabled, quiet_hours_start, quiet_hours_end, timezone, last_reminder_at')
+    .in('user_id', userIds)
+
+  if (error) {
+    throw new Error(`Failed to load notification preferences: ${error.message}`)
+  }
+
+  const rowsByUser = new Map((rows ?? []).map((row) => [row.user_id, row]))
+  const minLastReminder = now.getTime() - REMINDER_CONFIG.intervalHours * hour
+
+  for (const userId of userIds) {
+    const row = rowsByUser.get(userId) ?? null
+    const preferences = rowToPreferences(row)
+
+    if (!preferences.remindersEnabled) {
+      result.skippedOptOut++
+      continue
+    }
+    if (isInQuietHours(now, preferences)) {
+      result.skippedQuietHours++
+      continue
+    }
+    if (row?.last_reminder_at && new Date(row.last_reminder_at).getTime() > minLastReminder) {
+      result.skippedRecent++
+      continue
+    }
+
+    const digests: Array<[NotificationType, Record<string, unknown>]> = []
+    const approvalCount = approvalCounts.get(userId)
+    const draftCount = draftCounts.get(userId)
+
+    if (approvalCount) {
+      digests.push(['approval_reminder', { count: approvalCount, hours: REMINDER_CONFIG.approvalAgeHours }])
+    }
+    if (draftCount) {
+      digests.push(['pending_reminder', { count: draftCount, days: REMINDER_CONFIG.draftAgeDays }])
+    }
+
+    try {
+      for (const [type, data] of digests) {
+        await notifyUsers([userId], type, data)
+        if (type === 'approval_reminder') {
+          result.approvalReminders++
+        } else {
+          result.draftReminders++
+        }
+      }
+
+      const { error: updateError } = await admin
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          reminders_enabled: preferences.remindersEnabled,
+          quiet_hours_start: preferences.quietHoursStart,
+          quiet_hours_end: preferences.quietHoursEnd,
+          timezone: preferences.timezone,
+          last_reminder_at: now.toISOString(),
+        })
+
+      if (updateError) {
+        throw new Error(updateError.message)
+      }
+    } catch (reminderError) {
+      logger.error(
+        'Failed to send reminder',
+        reminderError instanceof Error ? reminderError : new Error(String(reminderError)),
+        { operation: 'sendScheduledReminders', userId }
+      )
+    }
+  }
+
+  return result
+}
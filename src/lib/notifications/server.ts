@@ -12,16 +12,25 @@ if (vapidPublicKey && vapidPrivateKey) {
 }
 
 /**
- * Send push notification to a subscription
+ * Outcome of delivering a notification to one subscription
+ *
+ * - sent: accepted by the push service
+ * - expired: endpoint is gone (404/410) and should be removed
+ * - failed: any other error
  */
-export async function sendPushNotification(
+export type PushDeliveryStatus = 'sent' | 'expired' | 'failed'
+
+/**
+ * Deliver a push notification and classify the outcome
+ */
+export async function deliverPushNotification(
   subscription: PushSubscriptionData,
   type: NotificationType,
   data?: Record<string, unknown>
-): Promise<boolean> {
+): Promise<PushDeliveryStatus> {
   if (!vapidPublicKey || !vapidPrivateKey) {
     console.error('VAPID keys not configured')
-    return false
+    return 'failed'
   }
 
   const template = NOTIFICATION_TEMPLATES[type]
@@ -38,27 +47,49 @@ export async function sendPushNotification(
       },
       JSON.stringify(payload)
     )
-    return true
+    return 'sent'
   } catch (error) {
+    if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+      return 'expired'
+    }
     console.error('Failed to send push notification:', error)
-    return false
+    return 'failed'
   }
 }
 
+/**
+ * Send push notification to a subscription
+ */
+export async function sendPushNotification(
+  subscription: PushSubscriptionData,
+  type: NotificationType,
+  data?: Record<string, unknown>
+): Promise<boolean> {
+  return (await deliverPushNotification(subscription, type, data)) === 'sent'
+}
+
 /**
  * Send push notification to multiple subscriptions
+ *
+ * @returns Counts, plus endpoints that are gone and should be removed
  */
 export async function sendPushNotificationBatch(
   subscriptions: PushSubscriptionData[],
   type: NotificationType,
   data?: Record<string, unknown>
-): Promise<{ success: number; failed: number }> {
+): Promise<{ success: number; failed: number; expiredEndpoints: string[] }> {
   const results = await Promise.allSettled(
-    subscriptions.map((sub) => sendPushNotification(sub, type, data))
+    subscriptions.map((sub) => deliverPushNotification(sub, type, data))
   )
 
   return {
-    success: results.filter((r) => r.status === 'fulfilled' && r.value).length,
-    failed: results.filter((r) => r.status === 'rejected' || (r.status === 'fulfilled' && !r.value)).length,
+    success: results.filter((r) => r.status === 'fulfilled' && r.value === 'sent').length,
+    failed: results.filter((r) => r.status === 'rejected' || (r.status === 'fulfilled' && r.value !== 'sent')).length,
+    expiredEndpoints: subscriptions
+      .filter((_, index) => {
+        const result = results[index]
+        return result.status === 'fulfilled' && result.value === 'expired'
+      })
+      .map((sub) => sub.endpoint),
   }
 }
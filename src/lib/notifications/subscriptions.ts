@@ -0,0 +1,124 @@
+import { createClient } from '@/lib/supabase/server'
+import type { createAdminClient } from '@/lib/supabase/admin'
+import type { PushSubscriptionData } from './types'
+
+/**
+ * Push Subscription Registry (server)
+ *
+ * Persists browser push subscriptions per user and device. A device is
+ * identified by its endpoint, so re-subscribing the same browser updates
+ * the existing row.
+ */
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+export interface SubscriptionResult {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Store (or refresh) a push subscription for the current user
+ */
+export async function saveSubscription(
+  subscription: PushSubscriptionData,
+  userAgent?: string | null
+): Promise<SubscriptionResult> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { success: false, error: 'User not authenticated' }
+  }
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert(
+      {
+        user_id: user.id,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: userAgent ?? null,
+        last_used_at: new Date().toISOString(),
+      },
+      { onConflict: 'endpoint' }
+    )
+
+  if (error) {
+    return { success: false, error: `Failed to save subscription: ${error.message}` }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Remove a push subscription of the current user
+ */
+export async function removeSubscription(endpoint: string): Promise<SubscriptionResult> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError || !user) {
+    return { success: false, error: 'User not authenticated' }
+  }
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('endpoint', endpoint)
+
+  if (error) {
+    return { success: false, error: `Failed to remove subscription: ${error.message}` }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Get all push subscriptions of the given users (admin client)
+ */
+export async function getSubscriptionsForUsers(
+  admin: AdminClient,
+  userIds: string[]
+): Promise<PushSubscriptionData[]> {
+  if (userIds.length === 0) {
+    return []
+  }
+
+  const { data, error } = await admin
+    .from('push_subscriptions')
+    .select('endpoint, p256dh, auth')
+    .in('user_id', userIds)
+
+  if (error) {
+    throw new Error(`Failed to load subscriptions: ${error.message}`)
+  }
+
+  return (data ?? []).map((row) => ({
+    endpoint: row.endpoint,
+    keys: { p256dh: row.p256dh, auth: row.auth },
+  }))
+}
+
+/**
+ * Delete subscriptions whose endpoint is gone (admin client)
+ */
+export async function pruneSubscriptions(
+  admin: AdminClient,
+  endpoints: string[]
+): Promise<void> {
+  if (endpoints.length === 0) {
+    return
+  }
+
+  const { error } = await admin
+    .from('push_subscriptions')
+    .delete()
+    .in('endpoint', endpoints)
+
+  if (error) {
+    throw new Error(`Failed to prune subscriptions: ${error.message}`)
+  }
+}
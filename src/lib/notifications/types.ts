@@ -9,6 +9,8 @@ export type NotificationType =
   | 'approval_rejected'
   | 'pending_reminder'
   | 'new_expense_pending'
+  | 'approval_reminder'
+  | 'expense_paid'
 
 export interface NotificationPayload {
   type: NotificationType
@@ -21,6 +23,27 @@ export interface NotificationPayload {
   url?: string
 }
 
+/**
+ * Per-user notification preferences (stored server-side)
+ */
+export interface NotificationPreferences {
+  /** Receive scheduled reminder digests */
+  remindersEnabled: boolean
+  /** Start of quiet hours (0-23, user's local time), null for none */
+  quietHoursStart: number | null
+  /** End of quiet hours (0-23, exclusive), null for none */
+  quietHoursEnd: number | null
+  /** IANA time zone used for quiet hours */
+  timezone: string
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  remindersEnabled: true,
+  quietHoursStart: 21,
+  quietHoursEnd: 7,
+  timezone: 'Asia/Jakarta',
+}
+
 export interface PushSubscriptionData {
   endpoint: string
   keys: {
@@ -52,24 +75,30 @@ export const NOTIFICATION_TEMPLATES: Record<
   }),
   approval_approved: (data) => ({
     title: 'Pengeluaran Disetujui',
-    body: `${data?.amount || ''} - ${data?.category || 'Pengeluaran'} telah disetujui`,
+    body:
+      Number(data?.count) > 1
+        ? `${data?.count} pengeluaran (${data?.amount || ''}) telah disetujui`
+        : `${data?.amount || ''} - ${data?.category || 'Pengeluaran'} telah disetujui`,
     icon: '/icons/icon-192.png',
-    tag: `approval-${data?.id}`,
+    tag: `approval-${data?.id ?? 'batch'}`,
     url: '/history',
   }),
   approval_rejected: (data) => ({
     title: 'Pengeluaran Ditolak',
-    body: `${data?.amount || ''} ditolak. Tap untuk detail.`,
+    body:
+      Number(data?.count) > 1
+        ? `${data?.count} pengeluaran (${data?.amount || ''}) ditolak. Tap untuk detail.`
+        : `${data?.amount || ''} ditolak. Tap untuk detail.`,
     icon: '/icons/icon-192.png',
-    tag: `approval-${data?.id}`,
+    tag: `approval-${data?.id ?? 'batch'}`,
     url: '/history',
   }),
   pending_reminder: (data) => ({
-    title: 'Pengeluaran Menunggu',
-    body: `${data?.count || 0} pengeluaran belum disinkron`,
+    title: 'Pengeluaran Belum Diajukan',
+    body: `${data?.count || 0} pengeluaran masih draft lebih dari ${data?.days || 0} hari. Tap untuk mengajukan.`,
     icon: '/icons/icon-192.png',
     tag: 'pending-reminder',
-    url: '/settings',
+    url: '/history',
   }),
   new_expense_pending: (data) => ({
     title: 'Pengeluaran Baru',
@@ -78,4 +107,18 @@ export const NOTIFICATION_TEMPLATES: Record<
     tag: 'new-expense',
     url: '/approval',
   }),
+  approval_reminder: (data) => ({
+    title: 'Persetujuan Tertunda',
+    body: `${data?.count || 0} pengeluaran menunggu persetujuan Anda lebih dari ${data?.hours || 0} jam`,
+    icon: '/icons/icon-192.png',
+    tag: 'approval-reminder',
+    url: '/approval',
+  }),
+  expense_paid: (data) => ({
+    title: 'Pengeluaran Dibayar',
+    body: `${data?.count || 1} pengeluaran (${data?.amount || ''}) telah dibayar via ${data?.method || 'finance'}`,
+    icon: '/icons/icon-192.png',
+    tag: `payment-${data?.id}`,
+    url: '/history',
+  }),
 }
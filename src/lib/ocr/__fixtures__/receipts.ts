@@ -0,0 +1,155 @@
+/**
+ * Receipt Fixtures
+ *
+ * Anonymized OCR text of the receipt kinds the parser recognizes, with the
+ * type, category, amount and details each one is expected to yield.
+ */
+
+import type { ExpenseCategory } from '@/types/expense-category'
+import type { ReceiptMetadata } from '@/types/ocr'
+
+export interface ReceiptFixture {
+  /** Short description of the receipt */
+  name: string
+  /** OCR text, one receipt line per text line */
+  text: string
+  /** Expected total amount */
+  amount: number
+  /** Expected suggested category */
+  category: ExpenseCategory
+  /** Expected details, checked as a subset of the parsed metadata */
+  metadata: ReceiptMetadata
+}
+
+export const RECEIPT_FIXTURES: ReceiptFixture[] = [
+  {
+    name: 'SPBU Pertamina',
+    text: [
+      'PERTAMINA',
+      'SPBU 34.171.06',
+      'JL. RAYA BEKASI KM 25',
+      'NO. TRANS : 123456',
+      'WAKTU : 12/05/2025 08:15',
+      'PULAU/POMPA : 3',
+      'NAMA PRODUK : DEXLITE',
+      'HARGA/LITER : Rp. 13.250',
+      'VOLUME : 30,189 L',
+      'TOTAL HARGA : Rp. 400.000',
+      'CASH : Rp. 400.000',
+    ].join('\n'),
+    amount: 400000,
+    category: 'fuel',
+    metadata: {
+      type: 'fuel',
+      brand: 'Pertamina',
+      stationNumber: '34.171.06',
+      fuelGrade: 'Dexlite',
+      liters: 30.189,
+      pricePerLiter: 13250,
+    },
+  },
+  {
+    name: 'SPBU Shell',
+    text: [
+      'Shell',
+      'Shell Cakung',
+      'Produk: Shell V-Power Diesel',
+      'Volume 25.00 L',
+      'Harga 14.280/L',
+      'Total Rp 357.000',
+    ].join('\n'),
+    amount: 357000,
+    category: 'fuel',
+    metadata: {
+      type: 'fuel',
+      brand: 'Shell',
+      fuelGrade: 'Shell V-Power Diesel',
+      liters: 25,
+      pricePerLiter: 14280,
+    },
+  },
+  {
+    name: 'Toll gate',
+    text: [
+      'JASA MARGA',
+      'GERBANG TOL CIKARANG UTAMA',
+      'GARDU 05',
+      '12-05-2025 09:32',
+      'GOL I',
+      'ASAL : CIBITUNG',
+      'TARIF Rp 12.500',
+      'E-TOLL MANDIRI',
+      'SISA SALDO Rp 437.500',
+      'TERIMA KASIH',
+    ].join('\n'),
+    amount: 12500,
+    category: 'toll',
+    metadata: {
+      type: 'toll',
+      operator: 'Jasa Marga',
+      gateIn: 'CIBITUNG',
+      gateOut: 'CIKARANG UTAMA',
+      vehicleClass: 1,
+    },
+  },
+  {
+    name: 'Mall parking',
+    text: [
+      'SECURE PARKING',
+      'MALL KELAPA GADING',
+      'NO POL : B 1234 XYZ',
+      'MOBIL',
+      'MASUK 12/05/2025 10:05',
+      'KELUAR 12/05/2025 12:40',
+      'DURASI 2 JAM 35 MNT',
+      'TARIF Rp 15.000',
+    ].join('\n'),
+    amount: 15000,
+    category: 'parking',
+    metadata: {
+      type: 'parking',
+      operator: 'Secure Parking',
+      plateNumber: 'B 1234 XYZ',
+    },
+  },
+  {
+    name: 'E-money top-up',
+    text: [
+      'INDOMARET',
+      'TOP UP MANDIRI E-MONEY',
+      'NO KARTU : 6032 98XX XXXX 4821',
+      'SALDO AWAL 12.000',
+      'NOMINAL TOP UP 200.000',
+      'SALDO AKHIR 212.000',
+      'TOTAL BAYAR 201.500',
+    ].join('\n'),
+    amount: 201500,
+    category: 'toll',
+    metadata: {
+      type: 'emoney_topup',
+      provider: 'Mandiri e-money',
+      cardLastDigits: '4821',
+      balanceAfter: 212000,
+    },
+  },
+  {
+    name: 'Restaurant',
+    text: [
+      'RM SEDERHANA',
+      'MEJA 12  PAX 4',
+      '12/05/2025 13:01',
+      'NASI PUTIH 4 x 8.000 32.000',
+      'AYAM BAKAR 2 x 35.000 70.000',
+      'SUBTOTAL 102.000',
+      'PB1 10% 10.200',
+      'TOTAL 112.200',
+    ].join('\n'),
+    amount: 112200,
+    category: 'food',
+    metadata: {
+      type: 'restaurant',
+      tableNumber: '12',
+      guestCount: 4,
+    },
+  },
+]
@@ -12,8 +12,29 @@ export {
   extractVendorName,
   extractDate,
   calculateOverallConfidence,
+  extractLineItems,
+  extractCharges,
+  extractItemization,
 } from './parser'
 
+export {
+  ITEMIZATION_TOLERANCE,
+  getLineItemTotal,
+  sumLineItems,
+  getItemizationTotal,
+  isItemizationBalanced,
+  parseLineItems,
+} from './itemization'
+
+export {
+  RECEIPT_TYPE_CATEGORIES,
+  detectReceiptType,
+  extractReceiptMetadata,
+  extractFareAmount,
+  extractReceiptTypeData,
+  parseReceiptMetadata,
+} from './receipt-types'
+
 export {
   processWithTesseract,
   isTesseractSupported,
@@ -0,0 +1,62 @@
+/**
+ * Receipt Itemization
+ *
+ * Totals and validation of receipt item lines, tax (PPN) and service
+ * charge, shared by the OCR parser and the capture form.
+ */
+
+import type { ReceiptItemization, ReceiptLineItem } from '@/types/ocr'
+
+/**
+ * Difference tolerated between the itemized and the paid total, in IDR
+ * (receipts round totals, commonly to the nearest Rp 100)
+ */
+export const ITEMIZATION_TOLERANCE = 100
+
+/**
+ * Total of an item line, rounded to whole rupiah
+ */
+export function getLineItemTotal(quantity: number, unitPrice: number): number {
+  return Math.round(quantity * unitPrice)
+}
+
+/**
+ * Sum the line totals
+ */
+export function sumLineItems(lineItems: ReceiptLineItem[]): number {
+  return lineItems.reduce((sum, item) => sum + item.total, 0)
+}
+
+/**
+ * Items plus tax and service charge
+ */
+export function getItemizationTotal(itemization: ReceiptItemization): number {
+  return (
+    sumLineItems(itemization.lineItems) +
+    (itemization.taxAmount ?? 0) +
+    (itemization.serviceCharge ?? 0)
+  )
+}
+
+/**
+ * Check that items, tax and service charge add up to the amount paid
+ */
+export function isItemizationBalanced(itemization: ReceiptItemization, amount: number): boolean {
+  return Math.abs(getItemizationTotal(itemization) - amount) <= ITEMIZATION_TOLERANCE
+}
+
+/**
+ * Read item lines stored on an expense (JSONB), dropping malformed entries
+ */
+export function parseLineItems(value: unknown): ReceiptLineItem[] {
+  if (!Array.isArray(value)) return []
+
+  return value.filter(
+    (item): item is ReceiptLineItem =>
+      !!item &&
+      typeof item.description === 'string' &&
+      typeof item.quantity === 'number' &&
+      typeof item.unitPrice === 'number' &&
+      typeof item.total === 'number'
+  )
+}
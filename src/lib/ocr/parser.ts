@@ -3,10 +3,13 @@
  * 
  * Parses OCR text output to extract structured data from Indonesian receipts.
  * Handles various receipt formats including SPBU (gas stations), toll receipts,
- * restaurants, and general retail receipts.
+ * restaurants, and general retail receipts. Receipt types are detected and
+ * their specific details extracted in ./receipt-types.
  */
 
-import type { ExtractedReceiptData } from '@/types/ocr'
+import type { ExtractedReceiptData, ReceiptLineItem } from '@/types/ocr'
+import { getLineItemTotal, isItemizationBalanced, sumLineItems, ITEMIZATION_TOLERANCE } from './itemization'
+import { extractFareAmount, extractReceiptTypeData } from './receipt-types'
 
 /**
  * Indonesian month names for date parsing
@@ -45,6 +48,48 @@ const SKIP_VENDOR_PATTERNS = [
   /^=+$/,
 ]
 
+/**
+ * Amount on an item or charge line: 25.000, 25,000, 25.000,00 or 25000
+ */
+const LINE_AMOUNT = String.raw`\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?|\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d{3,9}(?:[.,]\d{1,2})?`
+
+/**
+ * Lines that end the item list (totals follow)
+ */
+const ITEMS_END_PATTERN = /\b(SUB\s*-?\s*TOTAL|TOTAL|JUMLAH|GRAND)\b/i
+
+/** Separator lines (----, ====) */
+const SEPARATOR_PATTERN = /^[-=*_.~]{3,}$/
+
+/**
+ * Receipt details printed above the items (a new item list starts after them)
+ */
+const ITEMS_START_PATTERNS = [
+  SEPARATOR_PATTERN,
+  /\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4}/,
+  /\b\d{1,2}:\d{2}\b/,
+  /^(STRUK|RECEIPT|NOTA|INVOICE|FAKTUR|KWITANSI|KASIR|CASHIER|OPERATOR|MEJA|TABLE|NO\.?|NOMOR|ORDER|PESANAN|TRX|BILL)\b/i,
+]
+
+/**
+ * Lines between the items that are not items, including fare, balance and
+ * fuel lines of toll, e-money and SPBU receipts
+ */
+const NON_ITEM_PATTERN =
+  /^(STRUK|RECEIPT|NOTA|INVOICE|FAKTUR|KWITANSI|ALAMAT|ADDRESS|JL\.?|JALAN|TELP|TEL|HP|FAX|NPWP|TANGGAL|TGL|JAM|DATE|TIME|TUNAI|CASH|DEBIT|KREDIT|CREDIT|KARTU|CARD|KEMBALI|KEMBALIAN|CHANGE|BAYAR|DISKON|DISC|DISCOUNT|POTONGAN|PEMBULATAN|ROUNDING|TARIF|TARIP|SALDO|SISA\s*SALDO|HARGA\s*(?:\/|PER)\s*(?:L|LTR|LITER)|VOLUME|VOL|NOMINAL|TOP\s*-?\s*UP)\b/i
+
+/** Tax lines: PPN, restaurant tax (PB1) */
+const TAX_PATTERN = /\b(PPN|PB\s*-?\s*1|PAJAK|TAX|VAT)\b/i
+
+/** Tax already included in the prices (not added to the total) */
+const INCLUDED_TAX_PATTERN = /\b(TERMASUK|INCL|INCLUDED|INCLUDE)\b/i
+
+/** Service charge lines */
+const SERVICE_CHARGE_PATTERN = /\b(SERVICE|SERVIS|SVC|LAYANAN|S\/C)\b/i
+
+/** Subtotal lines */
+const SUBTOTAL_PATTERN = /\bSUB\s*-?\s*TOTAL\b/i
+
 /**
  * Parse Indonesian number format (uses . for thousands, , for decimals)
  * Examples: "50.000" -> 50000, "1.500.000" -> 1500000
@@ -274,6 +319,267 @@ export function extractDate(lines: string[]): Pick<ExtractedReceiptData, 'date'
   return {}
 }
 
+/**
+ * Parse an amount on an item or charge line, where commas may be thousand
+ * separators (25,000) and a dot followed by one or two digits is a decimal
+ * point (25000.00)
+ */
+function parseLineAmount(str: string): number {
+  if (/^\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?$/.test(str)) {
+    return parseFloat(str.replace(/,/g, ''))
+  }
+  if (/^\d+\.\d{1,2}$/.test(str)) {
+    return parseFloat(str)
+  }
+  return parseIndonesianNumber(str)
+}
+
+/**
+ * Whether a line ends with an amount
+ */
+function endsWithAmount(line: string): boolean {
+  return new RegExp(`(?:${LINE_AMOUNT})\\s*$`).test(line)
+}
+
+/**
+ * Clean an item description, or undefined if it is not one
+ */
+function cleanItemDescription(str: string): string | undefined {
+  const description = str
+    .replace(/(?:Rp\.?|@)\s*$/i, '')
+    .replace(/[*\-=.:]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (!/[a-zA-Z]{2,}/.test(description)) return undefined
+  if (NON_ITEM_PATTERN.test(description) || ITEMS_END_PATTERN.test(description)) return undefined
+  if (TAX_PATTERN.test(description) || SERVICE_CHARGE_PATTERN.test(description)) return undefined
+
+  return description
+}
+
+/**
+ * Build an item line, or undefined if the values are not plausible
+ */
+function toLineItem(
+  description: string | undefined,
+  quantity: number,
+  unitPrice: number,
+  total: number
+): ReceiptLineItem | undefined {
+  if (!description) return undefined
+  if (!(quantity > 0 && quantity <= 1000)) return undefined
+  if (!(total > 0 && total <= 100_000_000)) return undefined
+
+  return { description, quantity, unitPrice: Math.round(unitPrice * 100) / 100, total }
+}
+
+/**
+ * Parse one item line
+ *
+ * Supported layouts (quantity defaults to 1):
+ * - `NASI GORENG 2 x 25.000 50.000` (or `2 @ 25.000`; total optional)
+ * - `NASI GORENG 2 25.000 50.000` (quantity, unit price, total columns)
+ * - `2 NASI GORENG 50.000` or `2x NASI GORENG 50.000`
+ * - `NASI GORENG 50.000`
+ *
+ * @param pendingDescription - Text line above, for items printed on two lines
+ *   (`NASI GORENG` then `2 x 25.000 50.000`)
+ */
+function parseLineItem(line: string, pendingDescription?: string): ReceiptLineItem | undefined {
+  const amount = `(?:Rp\\.?\\s*)?(${LINE_AMOUNT})`
+
+  // Quantity x unit price, then the line total
+  const multiplied = line.match(
+    new RegExp(`^(.*?)\\s*(\\d{1,4}(?:[.,]\\d+)?)\\s*[xX@]\\s*${amount}(?:\\s+${amount})?\\s*$`)
+  )
+  if (multiplied) {
+    const quantity = parseFloat(multiplied[2].replace(',', '.'))
+    const unitPrice = parseLineAmount(multiplied[3])
+    const total = multiplied[4]
+      ? parseLineAmount(multiplied[4])
+      : getLineItemTotal(quantity, unitPrice)
+    const description = multiplied[1].trim()
+      ? cleanItemDescription(multiplied[1])
+      : pendingDescription
+
+    return toLineItem(description, quantity, unitPrice, total)
+  }
+
+  // Quantity, unit price and total columns
+  const columns = line.match(new RegExp(`^(.+?)\\s+(\\d{1,4})\\s+${amount}\\s+${amount}\\s*$`))
+  if (columns) {
+    const quantity = parseInt(columns[2], 10)
+    const unitPrice = parseLineAmount(columns[3])
+    const total = parseLineAmount(columns[4])
+    if (Math.abs(getLineItemTotal(quantity, unitPrice) - total) <= 1) {
+      return toLineItem(cleanItemDescription(columns[1]), quantity, unitPrice, total)
+    }
+  }
+
+  // Quantity before the description
+  const prefixed = line.match(new RegExp(`^(\\d{1,3})\\s*[xX]?\\s+(.+?)\\s+${amount}\\s*$`))
+  if (prefixed) {
+    const quantity = parseInt(prefixed[1], 10)
+    const total = parseLineAmount(prefixed[3])
+    return toLineItem(cleanItemDescription(prefixed[2]), quantity, total / quantity, total)
+  }
+
+  // Description and total
+  const single = line.match(new RegExp(`^(.+?)\\s+${amount}\\s*$`))
+  if (single) {
+    const total = parseLineAmount(single[2])
+    return toLineItem(cleanItemDescription(single[1]), 1, total, total)
+  }
+
+  return undefined
+}
+
+/**
+ * Find the lines holding the items: after the receipt details and before
+ * the first total line
+ */
+function findItemLines(lines: string[]): string[] {
+  const endIndex = lines.findIndex((line) => ITEMS_END_PATTERN.test(line))
+  const end = endIndex === -1 ? lines.length : endIndex
+
+  // The items start after the last receipt detail line that has amount
+  // lines below it (a separator may also close the item list)
+  let start = 0
+  let hasAmountBelow = false
+  for (let i = end - 1; i >= 0; i--) {
+    if (ITEMS_START_PATTERNS.some((pattern) => pattern.test(lines[i])) && hasAmountBelow) {
+      start = i + 1
+      break
+    }
+    if (endsWithAmount(lines[i])) {
+      hasAmountBelow = true
+    }
+  }
+
+  return lines.slice(start, end)
+}
+
+/**
+ * Extract item lines from receipt text
+ *
+ * Lines that do not read as items (addresses, payment and discount lines)
+ * are skipped.
+ */
+export function extractLineItems(lines: string[]): ReceiptLineItem[] {
+  const lineItems: ReceiptLineItem[] = []
+  let pendingDescription: string | undefined
+
+  for (const line of findItemLines(lines)) {
+    if (NON_ITEM_PATTERN.test(line) || SEPARATOR_PATTERN.test(line)) {
+      pendingDescription = undefined
+      continue
+    }
+
+    if (!endsWithAmount(line)) {
+      // Possibly the first line of a two-line item
+      pendingDescription = cleanItemDescription(line)
+      continue
+    }
+
+    const item = parseLineItem(line, pendingDescription)
+    if (item) {
+      lineItems.push(item)
+    }
+    pendingDescription = undefined
+  }
+
+  return lineItems
+}
+
+/**
+ * Read the last amount on a line, ignoring percentages (PPN 11%)
+ */
+function lastLineAmount(line: string): number | undefined {
+  const withoutPercentages = line.replace(/\d+(?:[.,]\d+)?\s*%/g, ' ')
+  const matches = withoutPercentages.match(new RegExp(`(?:${LINE_AMOUNT})`, 'g'))
+  if (!matches) return undefined
+
+  const amount = parseLineAmount(matches[matches.length - 1])
+  return amount > 0 && amount <= 100_000_000 ? amount : undefined
+}
+
+/**
+ * Extract subtotal, tax (PPN) and service charge from receipt text
+ *
+ * Tax printed as already included in the prices is not extracted, as it
+ * does not add to the total.
+ */
+export function extractCharges(
+  lines: string[]
+): Pick<ExtractedReceiptData, 'subtotal' | 'taxAmount' | 'serviceCharge'> {
+  const charges: Pick<ExtractedReceiptData, 'subtotal' | 'taxAmount' | 'serviceCharge'> = {}
+
+  for (const line of lines) {
+    if (charges.subtotal === undefined && SUBTOTAL_PATTERN.test(line)) {
+      charges.subtotal = lastLineAmount(line)
+    } else if (
+      charges.serviceCharge === undefined &&
+      SERVICE_CHARGE_PATTERN.test(line) &&
+      !TAX_PATTERN.test(line)
+    ) {
+      charges.serviceCharge = lastLineAmount(line)
+    } else if (
+      charges.taxAmount === undefined &&
+      TAX_PATTERN.test(line) &&
+      !INCLUDED_TAX_PATTERN.test(line) &&
+      !/\bNPWP\b/i.test(line)
+    ) {
+      charges.taxAmount = lastLineAmount(line)
+    }
+  }
+
+  return charges
+}
+
+/**
+ * Extract the itemization and check it against the total
+ *
+ * Confidence is high when items, tax and service charge add up to the
+ * amount, lower when they only add up to the printed subtotal.
+ */
+export function extractItemization(
+  lines: string[],
+  amount: number | undefined
+): Pick<
+  ExtractedReceiptData,
+  | 'lineItems'
+  | 'lineItemsConfidence'
+  | 'subtotal'
+  | 'taxAmount'
+  | 'serviceCharge'
+  | 'lineItemsMatchTotal'
+> {
+  const charges = extractCharges(lines)
+  const lineItems = extractLineItems(lines)
+
+  if (lineItems.length === 0) {
+    return charges
+  }
+
+  const matchesTotal =
+    amount !== undefined &&
+    isItemizationBalanced(
+      { lineItems, taxAmount: charges.taxAmount, serviceCharge: charges.serviceCharge },
+      amount
+    )
+  const matchesSubtotal =
+    charges.subtotal !== undefined &&
+    Math.abs(sumLineItems(lineItems) - charges.subtotal) <= ITEMIZATION_TOLERANCE
+
+  return {
+    ...charges,
+    lineItems,
+    lineItemsConfidence: matchesTotal ? 0.9 : matchesSubtotal ? 0.8 : 0.5,
+    lineItemsMatchTotal: amount !== undefined ? matchesTotal : undefined,
+  }
+}
+
 /**
  * Main parser function - extracts all data from receipt text
  */
@@ -293,14 +599,19 @@ export function parseReceiptText(text: string): ExtractedReceiptData {
   }
   
   // Extract all fields
-  const amountData = extractAmount(lines)
+  const typeData = extractReceiptTypeData(lines)
+  const fareData = typeData.receiptType ? extractFareAmount(lines, typeData.receiptType) : {}
+  const amountData = fareData.amount !== undefined ? fareData : extractAmount(lines)
   const vendorData = extractVendorName(lines)
   const dateData = extractDate(lines)
+  const itemizationData = extractItemization(lines, amountData.amount)
   
   return {
     ...amountData,
     ...vendorData,
     ...dateData,
+    ...itemizationData,
+    ...typeData,
   }
 }
 
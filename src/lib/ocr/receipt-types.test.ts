@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { parseReceiptText } from './parser'
+import { parseReceiptMetadata } from './receipt-types'
+import { RECEIPT_FIXTURES } from './__fixtures__/receipts'
+
+const NON_ITEM_DESCRIPTION = /TARIF|SALDO|HARGA|VOLUME|NOMINAL/i
+
+describe('parseReceiptText', () => {
+  it.each(RECEIPT_FIXTURES)('reads $name', (fixture) => {
+    const result = parseReceiptText(fixture.text)
+
+    expect(result.receiptType).toBe(fixture.metadata.type)
+    expect(result.suggestedCategory).toBe(fixture.category)
+    expect(result.amount).toBe(fixture.amount)
+    expect(result.receiptMetadata).toMatchObject(fixture.metadata)
+
+    for (const item of result.lineItems ?? []) {
+      expect(item.description).not.toMatch(NON_ITEM_DESCRIPTION)
+    }
+  })
+
+  it('reads parking entry and exit times', () => {
+    const fixture = RECEIPT_FIXTURES.find(({ metadata }) => metadata.type === 'parking')!
+    const metadata = parseReceiptText(fixture.text).receiptMetadata
+
+    expect(metadata?.type === 'parking' && metadata.entryTime).toContain('10:05')
+    expect(metadata?.type === 'parking' && metadata.exitTime).toContain('12:40')
+  })
+})
+
+describe('parseReceiptMetadata', () => {
+  it('keeps metadata of a known receipt type', () => {
+    expect(parseReceiptMetadata({ type: 'fuel', liters: 20 })).toEqual({ type: 'fuel', liters: 20 })
+  })
+
+  it('rejects unknown and inherited type keys', () => {
+    expect(parseReceiptMetadata({ type: 'toString' })).toBeUndefined()
+    expect(parseReceiptMetadata({ type: 'constructor' })).toBeUndefined()
+    expect(parseReceiptMetadata({ type: 'taxi' })).toBeUndefined()
+  })
+})
@@ -0,0 +1,506 @@
+/**
+ * Receipt Types
+ *
+ * Detects the kind of receipt (SPBU, toll gate, parking, e-money top-up,
+ * restaurant) from the OCR text, suggests the matching expense category
+ * and extracts the details printed only on that kind of receipt.
+ */
+
+import type { ExpenseCategory } from '@/types/expense-category'
+import type {
+  EMoneyTopUpReceiptMetadata,
+  ExtractedReceiptData,
+  FuelReceiptMetadata,
+  ParkingReceiptMetadata,
+  ReceiptMetadata,
+  ReceiptType,
+  RestaurantReceiptMetadata,
+  TollReceiptMetadata,
+} from '@/types/ocr'
+
+/**
+ * Signals of a receipt type; strong signals (brands, operators, wording
+ * only found on that kind of receipt) count double
+ */
+interface ReceiptTypeRule {
+  type: ReceiptType
+  strong: RegExp[]
+  weak: RegExp[]
+}
+
+/**
+ * Detection rules, most specific first (ties go to the earlier rule)
+ */
+const RECEIPT_TYPE_RULES: ReceiptTypeRule[] = [
+  {
+    type: 'toll',
+    strong: [
+      /JASA\s*MARGA|ASTRA\s*INFRA|CITRA\s*MARGA|\bCMNP\b|HUTAMA\s*KARYA|WASKITA\s*TOLL/i,
+      /\bGERBANG\s*TOL\b|^GT\.?\s+[A-Z]/im,
+      /\bGOL(?:ONGAN)?\.?\s*:?\s*(?:IV|V|I{1,3}|[1-5])\b/i,
+      /\bJALAN\s*TOL\b|\bTOLL\s*ROAD\b/i,
+    ],
+    weak: [/\bTOLL?\b/i, /\bGARDU\b/i, /\bASAL\b/i, /\bTARIF\b/i, /\bSISA\s*SALDO\b/i],
+  },
+  {
+    type: 'emoney_topup',
+    strong: [
+      /\bTOP\s*-?\s*UP\b|\bISI\s*ULANG\b/i,
+      /\bE-?MONEY\b|\bFLAZZ\b|\bBRIZZI\b|\bTAP\s*CASH\b|\bJAKCARD\b/i,
+    ],
+    weak: [
+      /\bSALDO\s*(?:AKHIR|AWAL|BARU|SETELAH)\b/i,
+      /\b(?:NO\.?\s*KARTU|NOMOR\s*KARTU|CARD\s*(?:NO|NUMBER))\b/i,
+      /\bE-?TOLL\b/i,
+    ],
+  },
+  {
+    type: 'fuel',
+    strong: [
+      /\bSPBU\b/i,
+      /\bPERTAMINA\b|\bSHELL\b|\bBP\s*-?\s*AKR\b/i,
+      /\bPERTALITE\b|\bPERTAMAX\b|\bDEXLITE\b|\bBIO\s*-?\s*SOLAR\b|\bV-?POWER\b/i,
+    ],
+    weak: [
+      /\bLITER\b|\bLTR\b/i,
+      /\bPOMPA\b|\bPUMP\b|\bNOZZLE\b/i,
+      /\bVOLUME\b/i,
+      /\bSOLAR\b/i,
+      /\bVIVO\b/i,
+    ],
+  },
+  {
+    type: 'parking',
+    strong: [/\bPARKIR\b|\bPARKING\b/i, /\bCENTRE\s*PARK\b|\bPARKEE\b/i],
+    weak: [
+      /\bMASUK\b|\bENTRY\b/i,
+      /\bKELUAR\b|\bEXIT\b/i,
+      /\bDURASI\b/i,
+      /\bNO\.?\s*POL(?:ISI)?\b|\bNOPOL\b|\bPLAT\b/i,
+      /\bMOBIL\b|\bMOTOR\b/i,
+    ],
+  },
+  {
+    type: 'restaurant',
+    strong: [
+      /\bRESTO(?:RAN)?\b|\bRESTAURANT\b|\bRUMAH\s*MAKAN\b|\bCAFE\b|\bKAFE\b|\bBISTRO\b|\bKEDAI\b/i,
+      /\bPB\s*-?\s*1\b/i,
+      /\bDINE\s*-?\s*IN\b|\bTAKE\s*-?\s*AWAY\b/i,
+    ],
+    weak: [
+      /\bMEJA\b|\bTABLE\b/i,
+      /\bTAMU\b|\bGUESTS?\b|\bPAX\b/i,
+      /\bSERVICE\s*CHARGE\b|\bSERVIS\b/i,
+      /\bNASI\b|\bAYAM\b|\bMIE\b|\bSOTO\b|\bBAKSO\b|\bSATE\b|\bES\s+TEH\b|\bKOPI\b|\bCOFFEE\b/i,
+      /\bWARUNG\b|\bDEPOT\b|^RM\.?\s/im,
+    ],
+  },
+]
+
+/**
+ * Minimum score to accept a receipt type (one strong or two weak signals)
+ */
+const MIN_TYPE_SCORE = 2
+
+/**
+ * Expense category suggested for each receipt type (built-in category codes)
+ */
+export const RECEIPT_TYPE_CATEGORIES: Record<ReceiptType, ExpenseCategory> = {
+  fuel: 'fuel',
+  toll: 'toll',
+  parking: 'parking',
+  // E-money cards are topped up to pay tolls
+  emoney_topup: 'toll',
+  restaurant: 'food',
+}
+
+/** Money amount as printed after a label: 12.000, 12,000 or 12000 */
+const MONEY = String.raw`(\d{1,3}(?:[.,]\d{3})+|\d{4,})`
+
+/**
+ * Parse an amount matched by MONEY, whose separators always group thousands
+ */
+function parseMoney(value: string): number {
+  return Number(value.replace(/[.,]/g, ''))
+}
+
+/** Fuel station brands */
+const FUEL_BRANDS: Array<[RegExp, string]> = [
+  [/\bPERTAMINA\b/i, 'Pertamina'],
+  [/\bSHELL\b/i, 'Shell'],
+  [/\bBP\b/i, 'BP'],
+  [/\bVIVO\b/i, 'Vivo'],
+]
+
+/** Fuel grades, more specific names first */
+const FUEL_GRADES: Array<[RegExp, string]> = [
+  [/PERTAMAX\s*TURBO/i, 'Pertamax Turbo'],
+  [/PERTAMAX\s*GREEN/i, 'Pertamax Green'],
+  [/PERTAMAX/i, 'Pertamax'],
+  [/PERTALITE/i, 'Pertalite'],
+  [/DEXLITE/i, 'Dexlite'],
+  [/PERTAMINA\s*DEX\b/i, 'Pertamina Dex'],
+  [/BIO\s*-?\s*SOLAR/i, 'Biosolar'],
+  [/V-?POWER\s*NITRO/i, 'Shell V-Power Nitro+'],
+  [/V-?POWER\s*DIESEL/i, 'Shell V-Power Diesel'],
+  [/V-?POWER/i, 'Shell V-Power'],
+  [/DIESEL\s*EXTRA/i, 'Shell Diesel Extra'],
+  [/SHELL\s*SUPER/i, 'Shell Super'],
+  [/BP\s*ULTIMATE/i, 'BP Ultimate'],
+  [/BP\s*92/i, 'BP 92'],
+  [/\bSOLAR\b/i, 'Solar'],
+]
+
+/** Price per liter: "HARGA/LITER : 10.000" or "Rp 10.000/L" */
+const PRICE_PER_LITER_PATTERNS = [
+  new RegExp(String.raw`\b(?:HARGA|HRG|PRICE)\s*(?:\/|PER)\s*(?:L|LTR|LITER)\b\.?\s*:?\s*(?:RP\.?\s*)?${MONEY}`, 'i'),
+  new RegExp(String.raw`${MONEY}\s*\/\s*(?:L|LTR|LITER)\b`, 'i'),
+]
+
+/** Volume: "VOLUME : 20,512" or "20.51 L" */
+const LITERS_PATTERNS = [
+  /\b(?:VOLUME|VOL|LITER|LTR|JUMLAH\s*LITER)\b\.?\s*(?:\(L\))?\s*:?\s*(\d{1,4}(?:[.,]\d{1,3})?)\b/i,
+  /\b(\d{1,4}(?:[.,]\d{1,3})?)\s*(?:L|LTR|LITER)\b/i,
+]
+
+/** Toll road operators */
+const TOLL_OPERATORS: Array<[RegExp, string]> = [
+  [/JASA\s*MARGA/i, 'Jasa Marga'],
+  [/ASTRA\s*INFRA/i, 'Astra Infra'],
+  [/CITRA\s*MARGA|\bCMNP\b/i, 'CMNP'],
+  [/HUTAMA\s*KARYA/i, 'Hutama Karya'],
+  [/WASKITA\s*TOLL/i, 'Waskita Toll Road'],
+]
+
+/** Gate the toll road was entered at: "ASAL : CIKAMPEK", "GT MASUK CIKARANG" */
+const TOLL_GATE_IN_PATTERN =
+  /^(?:(?:GT|GERBANG(?:\s*TOL)?)\.?\s*)?(?:ASAL|MASUK|ENTRY)\s*:?\s*([A-Z].*)$/i
+
+/** Gate the fare was paid at: "GERBANG TOL CIKUNIR 1", "GT. KALIHURIP UTAMA" */
+const TOLL_GATE_OUT_PATTERN = /^(?:GT|GERBANG(?:\s*TOL)?|TUJUAN|KELUAR|EXIT)\.?\s*:?\s*([A-Z].*)$/i
+
+/** Vehicle class: "GOL I", "GOLONGAN : 2" */
+const VEHICLE_CLASS_PATTERN = /\bGOL(?:ONGAN)?\.?\s*:?\s*(IV|V|I{1,3}|[1-5])\b/i
+
+const ROMAN_CLASSES: Record<string, number> = { I: 1, II: 2, III: 3, IV: 4, V: 5 }
+
+/** Parking operators */
+const PARKING_OPERATORS: Array<[RegExp, string]> = [
+  [/SECURE\s*PARKING/i, 'Secure Parking'],
+  [/CENTRE\s*PARK/i, 'Centrepark'],
+  [/SKY\s*PARKING/i, 'Sky Parking'],
+  [/SUN\s*PARKING/i, 'Sun Parking'],
+  [/\bPARKEE\b/i, 'Parkee'],
+]
+
+/** Plate number after a label, or alone on a line: "B 1234 XYZ" */
+const PLATE_PATTERNS = [
+  /\b(?:NO\.?\s*POL(?:ISI)?|NOPOL|PLAT(?:\s*NO)?|PLATE)\b\.?\s*:?\s*([A-Z]{1,2})\s*-?\s*(\d{1,4})\s*-?\s*([A-Z]{0,3})\b/i,
+  /^([A-Z]{1,2})\s(\d{1,4})\s([A-Z]{1,3})$/,
+]
+
+const PARKING_ENTRY_PATTERN = /\b(?:MASUK|ENTRY|IN)\b.*?\b(\d{1,2}):(\d{2})/i
+const PARKING_EXIT_PATTERN = /\b(?:KELUAR|EXIT|OUT)\b.*?\b(\d{1,2}):(\d{2})/i
+
+/** E-money card products */
+const EMONEY_PROVIDERS: Array<[RegExp, string]> = [
+  [/\bE-?MONEY\b|MANDIRI\s*E-?TOLL/i, 'Mandiri e-money'],
+  [/\bFLAZZ\b/i, 'BCA Flazz'],
+  [/\bBRIZZI\b/i, 'BRI Brizzi'],
+  [/\bTAP\s*CASH\b/i, 'BNI TapCash'],
+  [/\bJAKCARD\b/i, 'JakCard'],
+]
+
+/** Card number, masked or not; the last four digits are kept */
+const CARD_NUMBER_PATTERN =
+  /\b(?:NO\.?\s*KARTU|NOMOR\s*KARTU|CARD\s*(?:NO|NUMBER)|KARTU)\b\.?\s*:?\s*[\dX*\s-]*?(\d{4})\s*$/i
+
+/** Balance after the top-up, preferring an explicit closing balance */
+const BALANCE_PATTERNS = [
+  new RegExp(String.raw`\b(?:SALDO\s*(?:AKHIR|BARU|SETELAH)|SISA\s*SALDO)\b[^\d]*${MONEY}`, 'i'),
+  new RegExp(String.raw`\bSALDO\b(?!\s*AWAL)[^\d]*${MONEY}`, 'i'),
+]
+
+const TABLE_PATTERN = /\b(?:MEJA|TABLE|TBL)\b\.?\s*(?:NO\.?)?\s*:?\s*#?\s*([A-Z]?\d{1,3}[A-Z]?)\b/i
+const GUEST_PATTERNS = [
+  /\b(?:TAMU|GUESTS?|PAX|COVERS?)\b\.?\s*:?\s*(\d{1,3})\b/i,
+  /\b(\d{1,3})\s*(?:PAX|TAMU|ORANG)\b/i,
+]
+
+/**
+ * Fare lines of toll and parking receipts, which also print the card
+ * balance (read instead of the generic total)
+ */
+const FARE_PATTERNS: Partial<Record<ReceiptType, RegExp>> = {
+  toll: new RegExp(String.raw`\b(?:TARIF|TARIP)\b.*?(?:RP\.?\s*)?${MONEY}`, 'i'),
+  parking: new RegExp(String.raw`\b(?:TARIF|BIAYA(?:\s*PARKIR)?)\b.*?(?:RP\.?\s*)?${MONEY}`, 'i'),
+}
+
+/**
+ * First match of a pattern in the lines
+ */
+function findMatch(lines: string[], pattern: RegExp): RegExpMatchArray | undefined {
+  for (const line of lines) {
+    const match = line.match(pattern)
+    if (match) return match
+  }
+  return undefined
+}
+
+/**
+ * Label of the first named pattern found in the lines
+ */
+function findLabel(lines: string[], labels: Array<[RegExp, string]>): string | undefined {
+  return labels.find(([pattern]) => lines.some((line) => pattern.test(line)))?.[1]
+}
+
+/**
+ * Parse a volume, where either a comma or a dot is the decimal separator
+ * (pumps print liters to three decimals)
+ */
+function parseLiters(str: string): number {
+  return parseFloat(str.replace(',', '.'))
+}
+
+/**
+ * Clean a gate name, dropping a trailing date or time
+ */
+function cleanGateName(str: string): string | undefined {
+  const name = str
+    .replace(/\s+\d{1,2}[\/\-.:]\d{2}(?:[\/\-.:]\d{2,4})?.*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return name.length >= 3 && name.length <= 40 ? name : undefined
+}
+
+/**
+ * Extract SPBU details: brand, station, fuel grade, volume and price per liter
+ */
+function extractFuelMetadata(lines: string[]): FuelReceiptMetadata {
+  const stationMatch = findMatch(
+    lines,
+    /\bSPBU\s*(?:NO\.?\s*)?:?\s*(\d{2}[.\-\s]?\d{3}[.\-\s]?\d{2,3})\b/i
+  )
+
+  let pricePerLiter: number | undefined
+  for (const pattern of PRICE_PER_LITER_PATTERNS) {
+    const match = findMatch(lines, pattern)
+    const price = match ? parseMoney(match[1]) : 0
+    if (price >= 1000 && price <= 50_000) {
+      pricePerLiter = price
+      break
+    }
+  }
+
+  // Price lines also mention liters
+  const volumeLines = lines.filter(
+    (line) => !PRICE_PER_LITER_PATTERNS.some((pattern) => pattern.test(line))
+  )
+  let liters: number | undefined
+  for (const pattern of LITERS_PATTERNS) {
+    const match = findMatch(volumeLines, pattern)
+    const volume = match ? parseLiters(match[1]) : 0
+    if (volume > 0 && volume <= 1000) {
+      liters = volume
+      break
+    }
+  }
+
+  return {
+    type: 'fuel',
+    brand: findLabel(lines, FUEL_BRANDS),
+    stationNumber: stationMatch?.[1].replace(/[\s-]/g, '.'),
+    fuelGrade: findLabel(lines, FUEL_GRADES),
+    liters,
+    pricePerLiter,
+  }
+}
+
+/**
+ * Extract toll details: operator, entry and paying gate, vehicle class
+ */
+function extractTollMetadata(lines: string[]): TollReceiptMetadata {
+  const gateInMatch = findMatch(lines, TOLL_GATE_IN_PATTERN)
+  const gateOutMatch = findMatch(
+    lines.filter((line) => !TOLL_GATE_IN_PATTERN.test(line)),
+    TOLL_GATE_OUT_PATTERN
+  )
+  const classMatch = findMatch(lines, VEHICLE_CLASS_PATTERN)
+  const vehicleClass = classMatch
+    ? (ROMAN_CLASSES[classMatch[1].toUpperCase()] ?? Number(classMatch[1]))
+    : undefined
+
+  return {
+    type: 'toll',
+    operator: findLabel(lines, TOLL_OPERATORS),
+    gateIn: gateInMatch ? cleanGateName(gateInMatch[1]) : undefined,
+    gateOut: gateOutMatch ? cleanGateName(gateOutMatch[1]) : undefined,
+    vehicleClass,
+  }
+}
+
+/**
+ * Extract parking details: operator, plate number, entry and exit time
+ */
+function extractParkingMetadata(lines: string[]): ParkingReceiptMetadata {
+  let plateNumber: string | undefined
+  for (const pattern of PLATE_PATTERNS) {
+    const match = findMatch(lines, pattern)
+    if (match) {
+      plateNumber = match.slice(1).filter(Boolean).join(' ').toUpperCase()
+      break
+    }
+  }
+
+  const toTime = (match: RegExpMatchArray | undefined) =>
+    match ? `${match[1].padStart(2, '0')}:${match[2]}` : undefined
+
+  return {
+    type: 'parking',
+    operator: findLabel(lines, PARKING_OPERATORS),
+    plateNumber,
+    entryTime: toTime(findMatch(lines, PARKING_ENTRY_PATTERN)),
+    exitTime: toTime(findMatch(lines, PARKING_EXIT_PATTERN)),
+  }
+}
+
+/**
+ * Extract e-money top-up details: card product, card number, balance
+ */
+function extractTopUpMetadata(lines: string[]): EMoneyTopUpReceiptMetadata {
+  let balanceAfter: number | undefined
+  for (const pattern of BALANCE_PATTERNS) {
+    const match = findMatch(lines, pattern)
+    if (match) {
+      balanceAfter = parseMoney(match[1])
+      break
+    }
+  }
+
+  return {
+    type: 'emoney_topup',
+    provider: findLabel(lines, EMONEY_PROVIDERS),
+    cardLastDigits: findMatch(lines, CARD_NUMBER_PATTERN)?.[1],
+    balanceAfter,
+  }
+}
+
+/**
+ * Extract restaurant details: table number and number of guests
+ */
+function extractRestaurantMetadata(lines: string[]): RestaurantReceiptMetadata {
+  let guestCount: number | undefined
+  for (const pattern of GUEST_PATTERNS) {
+    const count = Number(findMatch(lines, pattern)?.[1])
+    if (count > 0 && count <= 500) {
+      guestCount = count
+      break
+    }
+  }
+
+  return {
+    type: 'restaurant',
+    tableNumber: findMatch(lines, TABLE_PATTERN)?.[1].toUpperCase(),
+    guestCount,
+  }
+}
+
+/**
+ * Detect the kind of receipt from its signals
+ *
+ * Each rule scores two points per strong and one per weak signal found;
+ * the best score of at least two wins. Confidence grows with the score.
+ */
+export function detectReceiptType(
+  lines: string[]
+): Pick<ExtractedReceiptData, 'receiptType' | 'receiptTypeConfidence'> {
+  const text = lines.join('\n')
+
+  let best: { type: ReceiptType; score: number } | undefined
+  for (const rule of RECEIPT_TYPE_RULES) {
+    const score =
+      rule.strong.filter((pattern) => pattern.test(text)).length * 2 +
+      rule.weak.filter((pattern) => pattern.test(text)).length
+
+    if (score >= MIN_TYPE_SCORE && (!best || score > best.score)) {
+      best = { type: rule.type, score }
+    }
+  }
+
+  if (!best) {
+    return {}
+  }
+
+  return {
+    receiptType: best.type,
+    receiptTypeConfidence: Math.min(0.95, 0.4 + best.score * 0.15),
+  }
+}
+
+/**
+ * Extract the details specific to a receipt type
+ */
+export function extractReceiptMetadata(lines: string[], type: ReceiptType): ReceiptMetadata {
+  switch (type) {
+    case 'fuel':
+      return extractFuelMetadata(lines)
+    case 'toll':
+      return extractTollMetadata(lines)
+    case 'parking':
+      return extractParkingMetadata(lines)
+    case 'emoney_topup':
+      return extractTopUpMetadata(lines)
+    case 'restaurant':
+      return extractRestaurantMetadata(lines)
+  }
+}
+
+/**
+ * Extract the fare of a toll or parking receipt
+ *
+ * These receipts print the remaining card balance below the fare, which
+ * the generic total patterns would take for the amount.
+ */
+export function extractFareAmount(
+  lines: string[],
+  type: ReceiptType
+): Pick<ExtractedReceiptData, 'amount' | 'amountConfidence'> {
+  const pattern = FARE_PATTERNS[type]
+  const match = pattern ? findMatch(lines, pattern) : undefined
+  const amount = match ? parseMoney(match[1]) : 0
+
+  return amount >= 100 && amount <= 10_000_000 ? { amount, amountConfidence: 0.9 } : {}
+}
+
+/**
+ * Detect the receipt type, suggest its category and extract its details
+ */
+export function extractReceiptTypeData(
+  lines: string[]
+): Pick<
+  ExtractedReceiptData,
+  'receiptType' | 'receiptTypeConfidence' | 'suggestedCategory' | 'receiptMetadata'
+> {
+  const detected = detectReceiptType(lines)
+  if (!detected.receiptType) {
+    return {}
+  }
+
+  return {
+    ...detected,
+    suggestedCategory: RECEIPT_TYPE_CATEGORIES[detected.receiptType],
+    receiptMetadata: extractReceiptMetadata(lines, detected.receiptType),
+  }
+}
+
+/**
+ * Read receipt details stored on an expense (JSONB), dropping unknown types
+ */
+export function parseReceiptMetadata(value: unknown): ReceiptMetadata | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined
+
+  const type = (value as { type?: unknown }).type
+  return typeof type === 'string' && Object.hasOwn(RECEIPT_TYPE_CATEGORIES, type)
+    ? (value as ReceiptMetadata)
+    : undefined
+}
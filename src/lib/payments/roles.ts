@@ -0,0 +1,4 @@
+/**
+ * Roles that can record payments of approved expenses
+ */
+export const PAYMENT_ROLES = ['owner', 'director', 'finance_manager', 'finance']
@@ -0,0 +1,127 @@
+import { containsWords, normalizePlaceName } from '@/lib/geocoding/gazetteer'
+import type { PerDiemEntry, PerDiemRate } from '@/types/per-diem'
+
+/**
+ * Per Diem Allowances
+ *
+ * Pure resolution of the rate for a trip destination and of the daily
+ * entries for a trip. A trip from day 1 to day N earns N meal allowances
+ * and N - 1 lodging allowances (nights away).
+ */
+
+/** Longest trip allowances are generated for, guarding against bad dates */
+export const MAX_PER_DIEM_DAYS = 60
+
+/**
+ * Find the rate for a destination
+ *
+ * The region whose name or keyword matches most words of the destination
+ * wins; without a match the active default rate is used.
+ *
+ * @param destination - Free-text job destination
+ * @param rates - Defined rates
+ * @returns The rate, or null when nothing matches and no default exists
+ */
+export function resolvePerDiemRate(
+  destination: string,
+  rates: PerDiemRate[]
+): PerDiemRate | null {
+  const words = normalizePlaceName(destination)
+  let best: { rate: PerDiemRate; length: number } | null = null
+
+  for (const rate of rates) {
+    if (!rate.isActive) continue
+
+    for (const name of [rate.region, ...rate.keywords]) {
+      const nameWords = normalizePlaceName(name)
+      if (containsWords(words, nameWords) && (!best || nameWords.length > best.length)) {
+        best = { rate, length: nameWords.length }
+      }
+    }
+  }
+
+  return best?.rate ?? rates.find((rate) => rate.isActive && rate.isDefault) ?? null
+}
+
+/**
+ * Add days to a date (YYYY-MM-DD)
+ */
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+/**
+ * Number of trip days, counting the first and last day
+ *
+ * @returns Days, or 0 when the end is before the start
+ */
+export function countTripDays(tripStartDate: string, tripEndDate: string): number {
+  const start = Date.parse(`${tripStartDate}T00:00:00Z`)
+  const end = Date.parse(`${tripEndDate}T00:00:00Z`)
+  if (isNaN(start) || isNaN(end) || end < start) return 0
+
+  return Math.round((end - start) / (24 * 60 * 60 * 1000)) + 1
+}
+
+/**
+ * Build the allowance entries of a trip
+ *
+ * @param tripStartDate - First trip day (YYYY-MM-DD)
+ * @param tripEndDate - Last trip day (YYYY-MM-DD)
+ * @param rate - Rate for the destination
+ * @returns Meal entries for every day and lodging entries for every night
+ */
+export function buildPerDiemEntries(
+  tripStartDate: string,
+  tripEndDate: string,
+  rate: PerDiemRate
+): PerDiemEntry[] {
+  const days = Math.min(countTripDays(tripStartDate, tripEndDate), MAX_PER_DIEM_DAYS)
+  const entries: PerDiemEntry[] = []
+
+  for (let day = 0; day < days; day++) {
+    const date = addDays(tripStartDate, day)
+
+    if (rate.mealRate > 0) {
+      entries.push({ date, category: 'food', amount: rate.mealRate })
+    }
+    // No night away after the last day
+    if (rate.lodgingRate > 0 && day < days - 1) {
+      entries.push({ date, category: 'lodging', amount: rate.lodgingRate })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Key identifying an entry (one per category and day)
+ */
+export function perDiemEntryKey(entry: Pick<PerDiemEntry, 'date' | 'category'>): string {
+  return `${entry.category}:${entry.date}`
+}
+
+/**
+ * Map a per_diem_rates row to a PerDiemRate
+ */
+export function toPerDiemRate(row: {
+  id: string
+  region: string
+  keywords: string[] | null
+  meal_rate: number | string
+  lodging_rate: number | string
+  is_default: boolean
+  is_active: boolean
+}): PerDiemRate {
+  return {
+    id: row.id,
+    region: row.region,
+    keywords: row.keywords ?? [],
+    mealRate: Number(row.meal_rate),
+    lodgingRate: Number(row.lodging_rate),
+    isDefault: row.is_default,
+    isActive: row.is_active,
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Roles that can manage per diem rates and generate allowances for drivers
+ */
+export const PER_DIEM_MANAGER_ROLES = [
+  'owner',
+  'director',
+  'finance_manager',
+  'finance',
+  'operations_manager',
+]
@@ -0,0 +1,120 @@
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { UserRole } from '@/types/supabase'
+import type {
+  ExpensePolicy,
+  PolicyCheckInput,
+  PolicyRuleType,
+  PolicyViolation,
+} from '@/types/expense-policy'
+
+/**
+ * Expense Policy Engine
+ *
+ * Pure evaluation of spending rules, shared by the capture form (offline,
+ * against cached rules) and the approval service (on submit). Violations
+ * are flags for approvers; they never block saving or submitting.
+ */
+
+/**
+ * Map an expense_policies row to an ExpensePolicy
+ */
+export function toExpensePolicy(row: {
+  id: string
+  category: string
+  role: string | null
+  rule_type: string
+  amount: number | string
+  is_active: boolean
+  updated_at?: string | null
+}): ExpensePolicy {
+  return {
+    id: row.id,
+    category: row.category as ExpenseCategory,
+    role: (row.role as UserRole | null) ?? null,
+    ruleType: row.rule_type as PolicyRuleType,
+    amount: Number(row.amount),
+    isActive: row.is_active,
+    updatedAt: row.updated_at ?? undefined,
+  }
+}
+
+/**
+ * Select the rules that apply to a role
+ *
+ * A rule for the role replaces the general rule (role null) of the same
+ * category and type. Inactive rules are ignored.
+ *
+ * @param policies - All defined rules
+ * @param role - Role of the user who captured the expense
+ */
+export function resolvePoliciesForRole(
+  policies: ExpensePolicy[],
+  role: string | null | undefined
+): ExpensePolicy[] {
+  const resolved = new Map<string, ExpensePolicy>()
+
+  for (const policy of policies) {
+    if (!policy.isActive) continue
+    if (policy.role !== null && policy.role !== role) continue
+
+    const key = `${policy.category}:${policy.ruleType}`
+    const existing = resolved.get(key)
+    if (!existing || (existing.role === null && policy.role !== null)) {
+      resolved.set(key, policy)
+    }
+  }
+
+  return Array.from(resolved.values())
+}
+
+/**
+ * Evaluate an expense against the rules that apply to its submitter
+ *
+ * @param input - Expense facts
+ * @param policies - Rules resolved for the submitter's role
+ * @returns Broken rules, in rule order
+ */
+export function evaluateExpensePolicies(
+  input: PolicyCheckInput,
+  policies: ExpensePolicy[]
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = []
+
+  for (const policy of policies) {
+    if (policy.category !== input.category) continue
+
+    let actual: number | null = null
+    switch (policy.ruleType) {
+      case 'max_per_expense':
+        if (input.amount > policy.amount) actual = input.amount
+        break
+      case 'max_per_day': {
+        const dayTotal = input.sameDayTotal + input.amount
+        if (dayTotal > policy.amount) actual = dayTotal
+        break
+      }
+      case 'receipt_required_above':
+        if (!input.hasReceipt && input.amount > policy.amount) actual = input.amount
+        break
+    }
+
+    if (actual !== null) {
+      violations.push({
+        policyId: policy.id,
+        ruleType: policy.ruleType,
+        category: policy.category,
+        limit: policy.amount,
+        actual,
+      })
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Read violations stored on an expense (JSONB), tolerating missing values
+ */
+export function parsePolicyViolations(value: unknown): PolicyViolation[] {
+  return Array.isArray(value) ? (value as PolicyViolation[]) : []
+}
@@ -0,0 +1,4 @@
+/**
+ * Roles that can define expense spending policies
+ */
+export const POLICY_MANAGER_ROLES = ['owner', 'director', 'finance_manager', 'finance']
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import { applyExpenseChangeCursor, type ExpenseChangeCursor } from './expenses'
+
+interface ChangedRow {
+  id: string
+  updated_at: string
+}
+
+type RowFilter = (row: ChangedRow) => boolean
+
+/**
+ * Split a PostgREST logic filter on its top-level commas
+ */
+function splitTerms(filter: string): string[] {
+  const terms: string[] = []
+  let depth = 0
+  let quoted = false
+  let start = 0
+
+  for (let i = 0; i < filter.length; i++) {
+    const char = filter[i]
+    if (char === '"') quoted = !quoted
+    if (quoted) continue
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      terms.push(filter.slice(start, i))
+      start = i + 1
+    }
+  }
+
+  return [...terms, filter.slice(start)]
+}
+
+/**
+ * Evaluate the subset of the PostgREST logic filter grammar used by the
+ * cursor helpers (`or` of `column.op."value"` and `and(...)` terms)
+ */
+function parseFilter(filter: string): RowFilter {
+  const terms = splitTerms(filter).map((term): RowFilter => {
+    if (term.startsWith('and(')) {
+      const parts = splitTerms(term.slice(4, -1)).map((part) => parseFilter(part))
+      return (row) => parts.every((part) => part(row))
+    }
+
+    const [, column, operator, value] = term.match(/^(\w+)\.(eq|gt|lt)\."(.*)"$/)!
+    return (row) => {
+      const field = row[column as keyof ChangedRow]
+      if (operator === 'eq') return field === value
+      if (operator === 'gt') return field > value
+      return field < value
+    }
+  })
+
+  return (row) => terms.some((term) => term(row))
+}
+
+/**
+ * In-memory stand-in for a Supabase query over changed rows
+ */
+function createChangesQuery(rows: ChangedRow[]) {
+  let filter: RowFilter = () => true
+
+  const query = {
+    or(value: string) {
+      filter = parseFilter(value)
+      return query
+    },
+    page(limit: number) {
+      return rows
+        .filter(filter)
+        .sort((a, b) =>
+          a.updated_at === b.updated_at
+            ? a.id.localeCompare(b.id)
+            : a.updated_at.localeCompare(b.updated_at)
+        )
+        .slice(0, limit)
+    },
+  }
+
+  return query
+}
+
+describe('applyExpenseChangeCursor', () => {
+  it('pages through rows sharing a timestamp across a page boundary', () => {
+    // One transaction stamps five rows with the same updated_at
+    const stamped = '2025-05-12T08:15:00.123456+00:00'
+    const rows: ChangedRow[] = [
+      { id: '00000000-0000-0000-0000-000000000001', updated_at: '2025-05-12T08:00:00+00:00' },
+      ...[2, 3, 4, 5, 6].map((n) => ({
+        id: `00000000-0000-0000-0000-00000000000${n}`,
+        updated_at: stamped,
+      })),
+      { id: '00000000-0000-0000-0000-000000000007', updated_at: '2025-05-12T09:00:00+00:00' },
+    ]
+
+    const seen: string[] = []
+    let cursor: ExpenseChangeCursor = {
+      updatedAt: '2025-05-01T00:00:00+00:00',
+      id: '00000000-0000-0000-0000-000000000000',
+    }
+
+    for (;;) {
+      const page = applyExpenseChangeCursor(createChangesQuery(rows), cursor).page(3)
+      seen.push(...page.map((row) => row.id))
+
+      if (page.length > 0) {
+        const last = page[page.length - 1]
+        cursor = { updatedAt: last.updated_at, id: last.id }
+      }
+      if (page.length < 3) break
+    }
+
+    expect(seen).toEqual(rows.map((row) => row.id))
+  })
+
+  it('quotes timestamps in the filter', () => {
+    let filter = ''
+    const query = {
+      or(value: string) {
+        filter = value
+        return query
+      },
+    }
+
+    applyExpenseChangeCursor(query, { updatedAt: '2025-05-12T08:15:00.1+00:00', id: 'a' })
+
+    expect(filter).toBe(
+      'updated_at.gt."2025-05-12T08:15:00.1+00:00",and(updated_at.eq."2025-05-12T08:15:00.1+00:00",id.gt."a")'
+    )
+  })
+})
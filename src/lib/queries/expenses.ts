@@ -0,0 +1,175 @@
+import { toTextSearchQuery } from '@/lib/search/tokenize'
+import type { ExpenseFilters } from '@/types/expense-filters'
+
+/**
+ * Query builder methods used by expense filters
+ *
+ * Matches the Supabase filter builder so the same filters apply to
+ * browser (history) and server (export) queries.
+ */
+interface FilterableQuery<Q> {
+  eq(column: string, value: boolean): Q
+  gte(column: string, value: string | number): Q
+  lte(column: string, value: string | number): Q
+  in(column: string, values: readonly string[]): Q
+  is(column: string, value: null): Q
+  not(column: string, operator: string, value: null): Q
+  or(filters: string): Q
+  textSearch(column: string, query: string, options?: { config?: string }): Q
+}
+
+/**
+ * Apply history filters to an expense_drafts query
+ */
+export function applyExpenseFilters<Q extends FilterableQuery<Q>>(
+  query: Q,
+  filters: ExpenseFilters
+): Q {
+  // Apply date filters
+  if (filters.dateFrom) {
+    query = query.gte('expense_date', filters.dateFrom)
+  }
+  if (filters.dateTo) {
+    query = query.lte('expense_date', filters.dateTo)
+  }
+
+  // Apply category filter
+  if (filters.categories && filters.categories.length > 0) {
+    query = query.in('category', filters.categories)
+  }
+
+  // Apply sync status filter
+  if (filters.syncStatuses && filters.syncStatuses.length > 0) {
+    query = query.in('sync_status', filters.syncStatuses)
+  }
+
+  // Apply approval status filter
+  if (filters.approvalStatuses && filters.approvalStatuses.length > 0) {
+    query = query.in('approval_status', filters.approvalStatuses)
+  }
+
+  // Apply amount range filter
+  if (filters.minAmount !== undefined) {
+    query = query.gte('amount', filters.minAmount)
+  }
+  if (filters.maxAmount !== undefined) {
+    query = query.lte('amount', filters.maxAmount)
+  }
+
+  // Apply job order and overhead filters
+  if (filters.jobOrderIds && filters.jobOrderIds.length > 0) {
+    query = query.in('job_order_id', filters.jobOrderIds)
+  }
+  if (filters.costType) {
+    query = query.eq('is_overhead', filters.costType === 'overhead')
+  }
+
+  // Apply review, receipt and location filters
+  if (filters.requiresReview) {
+    query = query.eq('requires_review', true)
+  }
+  if (filters.receipt === 'with') {
+    query = query.not('receipt_id', 'is', null)
+  } else if (filters.receipt === 'without') {
+    query = query.is('receipt_id', null)
+  }
+  if (filters.locationWarning) {
+    query = query.not('location_explanation', 'is', null)
+  }
+
+  // Apply search filter: full-text search of the expense, its job and
+  // its receipt's OCR text (see search_vector), every word as a prefix
+  const searchQuery = filters.search ? toTextSearchQuery(filters.search) : null
+  if (searchQuery) {
+    query = query.textSearch('search_vector', searchQuery, { config: 'simple' })
+  }
+
+  return query
+}
+
+/**
+ * Sort key of an expense in history order: newest expense date first,
+ * then newest created, then id (descending) as a unique tie-breaker
+ */
+export interface ExpenseSortKey {
+  expenseDate: string
+  createdAt: string
+  id: string
+}
+
+/**
+ * Quote a value for a PostgREST logic filter (timestamps contain `.` and `:`)
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Keep only expense_drafts rows after the cursor in history order
+ *
+ * Keyset pagination on `(expense_date, created_at, id)`; the query must be
+ * ordered by those columns, descending.
+ *
+ * @param cursor - Sort key of the last row already loaded
+ */
+export function applyExpenseCursor<Q extends Pick<FilterableQuery<Q>, 'or'>>(
+  query: Q,
+  cursor: ExpenseSortKey
+): Q {
+  const date = quoteFilterValue(cursor.expenseDate)
+  const createdAt = quoteFilterValue(cursor.createdAt)
+  const id = quoteFilterValue(cursor.id)
+
+  return query.or(
+    [
+      `expense_date.lt.${date}`,
+      `and(expense_date.eq.${date},created_at.lt.${createdAt})`,
+      `and(expense_date.eq.${date},created_at.eq.${createdAt},id.lt.${id})`,
+    ].join(',')
+  )
+}
+
+/**
+ * Position of the expense change pull: the last changed row already merged
+ */
+export interface ExpenseChangeCursor {
+  updatedAt: string
+  id: string
+}
+
+/**
+ * Keep only expense_drafts rows changed after the cursor
+ *
+ * Keyset pagination on `(updated_at, id)`, so rows sharing the cursor's
+ * `updated_at` (e.g. stamped by one transaction) are not skipped; the query
+ * must be ordered by those columns, ascending.
+ *
+ * @param cursor - Change cursor of the last row already merged
+ */
+export function applyExpenseChangeCursor<Q extends Pick<FilterableQuery<Q>, 'or'>>(
+  query: Q,
+  cursor: ExpenseChangeCursor
+): Q {
+  const updatedAt = quoteFilterValue(cursor.updatedAt)
+  const id = quoteFilterValue(cursor.id)
+
+  return query.or(
+    [`updated_at.gt.${updatedAt}`, `and(updated_at.eq.${updatedAt},id.gt.${id})`].join(',')
+  )
+}
+
+/**
+ * Compare two expenses in history order
+ *
+ * @returns Negative when `a` comes first
+ */
+export function compareExpenseSortKeys(a: ExpenseSortKey, b: ExpenseSortKey): number {
+  const dateCompare = b.expenseDate.localeCompare(a.expenseDate)
+  if (dateCompare !== 0) return dateCompare
+
+  // Server and local timestamps differ in format; compare the instants
+  const createdCompare = (Date.parse(b.createdAt) || 0) - (Date.parse(a.createdAt) || 0)
+  if (createdCompare !== 0) return createdCompare
+
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0
+}
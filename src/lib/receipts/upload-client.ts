@@ -18,22 +18,41 @@ export interface ClientUploadResult {
 }
 
 /**
- * Generate a unique storage path for a receipt
+ * Options for a client-side receipt upload
+ */
+export interface ClientUploadOptions {
+  /**
+   * Client-generated receipt ID. When provided, the storage path is derived
+   * from it so a retried upload overwrites the same object instead of
+   * creating a new one.
+   */
+  localId?: string
+  /** Capture timestamp (ISO string) used for the year/month folder */
+  capturedAt?: string
+}
+
+/**
+ * Generate a storage path for a receipt
  *
- * Path format: {userId}/{year}/{month}/receipt-{timestamp}.{ext}
+ * Path format: {userId}/{year}/{month}/receipt-{localId|timestamp}.{ext}
  * Example: abc123/2024/01/receipt-1704067200000.jpg
  *
  * @param userId - The user's ID
  * @param filename - Original filename to extract extension from
+ * @param options - Optional local ID and capture time for a stable path
  * @returns Generated storage path
  */
-function generateStoragePath(userId: string, filename: string): string {
-  const now = new Date()
-  const year = now.getFullYear()
-  const month = String(now.getMonth() + 1).padStart(2, '0')
-  const timestamp = Date.now()
+function generateStoragePath(
+  userId: string,
+  filename: string,
+  options: ClientUploadOptions = {}
+): string {
+  const date = options.capturedAt ? new Date(options.capturedAt) : new Date()
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const suffix = options.localId ?? String(Date.now())
   const ext = filename.split('.').pop() || 'jpg'
-  return `${userId}/${year}/${month}/receipt-${timestamp}.${ext}`
+  return `${userId}/${year}/${month}/receipt-${suffix}.${ext}`
 }
 
 /**
@@ -42,30 +61,38 @@ function generateStoragePath(userId: string, filename: string): string {
  * This function is designed for use in the browser, specifically
  * for the SyncManager to upload receipts during background sync.
  *
+ * When `options.localId` is given the upload is idempotent: the path is
+ * stable for that receipt and an existing object is overwritten.
+ *
  * @param file - The image file to upload
  * @param userId - The authenticated user's ID
+ * @param options - Optional local ID and capture time for idempotent uploads
  * @returns Promise resolving to the storage path
  * @throws Error if upload fails
  *
  * @example
  * ```typescript
  * const file = new File([blob], 'receipt.jpg', { type: 'image/jpeg' })
- * const { storagePath } = await uploadReceiptClient(file, userId)
+ * const { storagePath } = await uploadReceiptClient(file, userId, {
+ *   localId: receipt.id,
+ *   capturedAt: receipt.createdAt,
+ * })
  * ```
  */
 export async function uploadReceiptClient(
   file: File,
-  userId: string
+  userId: string,
+  options: ClientUploadOptions = {}
 ): Promise<ClientUploadResult> {
   const supabase = createClient()
 
-  const storagePath = generateStoragePath(userId, file.name)
+  const storagePath = generateStoragePath(userId, file.name, options)
 
   const { error } = await supabase.storage
     .from('expense-receipts')
     .upload(storagePath, file, {
       contentType: file.type || 'image/jpeg',
-      upsert: false,
+      upsert: !!options.localId,
     })
 
   if (error) {
@@ -0,0 +1,87 @@
+import type { BankFileField, BankFileLayout } from '@/types/reimbursement'
+
+/**
+ * Bank File Layout
+ *
+ * Column layout of the bank transfer file, configured per deployment with
+ * REIMBURSEMENT_BANK_LAYOUT (JSON) to match the bank's bulk transfer
+ * import. Without it the default layout is used.
+ *
+ * Example: {"delimiter":";","includeHeader":false,"columns":[
+ *   {"field":"account_number","label":"No Rek"},{"field":"amount","label":"Nominal"}]}
+ */
+
+const BANK_FILE_FIELDS: BankFileField[] = [
+  'account_number',
+  'account_name',
+  'bank_name',
+  'amount',
+  'employee_number',
+  'employee_name',
+  'reference',
+  'description',
+]
+
+export const DEFAULT_BANK_FILE_LAYOUT: BankFileLayout = {
+  delimiter: ',',
+  includeHeader: true,
+  columns: [
+    { field: 'account_number', label: 'No. Rekening' },
+    { field: 'account_name', label: 'Nama Rekening' },
+    { field: 'bank_name', label: 'Bank' },
+    { field: 'amount', label: 'Jumlah' },
+    { field: 'reference', label: 'Referensi' },
+    { field: 'description', label: 'Keterangan' },
+  ],
+}
+
+/**
+ * Parse a layout from its JSON configuration
+ *
+ * @throws Error if the JSON is invalid or names an unknown field
+ */
+export function parseBankFileLayout(json: string): BankFileLayout {
+  const value = JSON.parse(json)
+
+  if (!Array.isArray(value?.columns) || value.columns.length === 0) {
+    throw new Error('Bank file layout needs at least one column')
+  }
+
+  const columns = value.columns.map((column: { field?: unknown; label?: unknown }) => {
+    if (!BANK_FILE_FIELDS.includes(column?.field as BankFileField)) {
+      throw new Error(`Unknown bank file field: ${String(column?.field)}`)
+    }
+    return {
+      field: column.field as BankFileField,
+      label: typeof column.label === 'string' ? column.label : String(column.field),
+    }
+  })
+
+  return {
+    delimiter:
+      typeof value.delimiter === 'string' && value.delimiter.length === 1
+        ? value.delimiter
+        : DEFAULT_BANK_FILE_LAYOUT.delimiter,
+    includeHeader: value.includeHeader !== false,
+    columns,
+  }
+}
+
+/**
+ * Bank file layout of the deployment (REIMBURSEMENT_BANK_LAYOUT)
+ *
+ * @throws Error if the configured layout is invalid
+ */
+export function getBankFileLayout(): BankFileLayout {
+  const json = process.env.REIMBURSEMENT_BANK_LAYOUT?.trim()
+  if (!json) {
+    return DEFAULT_BANK_FILE_LAYOUT
+  }
+
+  try {
+    return parseBankFileLayout(json)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Invalid REIMBURSEMENT_BANK_LAYOUT: ${message}`)
+  }
+}
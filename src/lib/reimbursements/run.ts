@@ -0,0 +1,121 @@
+import type {
+  EmployeeBankAccount,
+  ReimbursementEmployee,
+  ReimbursementItem,
+  ReimbursementRun,
+  ReimbursementRunStatus,
+} from '@/types/reimbursement'
+
+/**
+ * Reimbursement Runs
+ *
+ * Run numbering, row mapping and the per-employee grouping shown on the
+ * run page, written to the bank file and printed on the statements.
+ */
+
+/**
+ * Prefix of the month's run numbers, e.g. RB-202610
+ */
+export function reimbursementRunPrefix(date: Date): string {
+  return `RB-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Next run number for the month
+ *
+ * @param lastNumber - Last run number of the month, if any
+ * @param date - Date of the new run
+ * @returns e.g. RB-202610-001
+ */
+export function nextReimbursementRunNumber(lastNumber: string | null, date: Date): string {
+  const prefix = reimbursementRunPrefix(date)
+  const lastSequence = lastNumber?.startsWith(`${prefix}-`)
+    ? parseInt(lastNumber.slice(prefix.length + 1), 10)
+    : 0
+
+  return `${prefix}-${String((lastSequence || 0) + 1).padStart(3, '0')}`
+}
+
+/**
+ * Map a reimbursement_runs row to a ReimbursementRun
+ */
+export function toReimbursementRun(row: {
+  id: string
+  run_number: string
+  period_from: string
+  period_to: string
+  status: string
+  employee_count: number
+  expense_count: number
+  total_amount: number | string
+  payment_id: string | null
+  confirmed_at: string | null
+  created_at: string
+}): ReimbursementRun {
+  return {
+    id: row.id,
+    runNumber: row.run_number,
+    periodFrom: row.period_from,
+    periodTo: row.period_to,
+    status: row.status as ReimbursementRunStatus,
+    employeeCount: row.employee_count,
+    expenseCount: row.expense_count,
+    totalAmount: Number(row.total_amount),
+    paymentId: row.payment_id ?? undefined,
+    confirmedAt: row.confirmed_at ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Totals of the included items
+ */
+export function summarizeReimbursementItems(
+  items: Pick<ReimbursementItem, 'userId' | 'amount' | 'excluded'>[]
+): {
+  employeeCount: number
+  expenseCount: number
+  totalAmount: number
+} {
+  const included = items.filter((item) => !item.excluded)
+
+  return {
+    employeeCount: new Set(included.map((item) => item.userId)).size,
+    expenseCount: included.length,
+    totalAmount: included.reduce((total, item) => total + item.amount, 0),
+  }
+}
+
+/**
+ * Group run items per employee, sorted by name
+ *
+ * Employees whose items are all excluded are kept (with a zero total) so
+ * they can be included again.
+ *
+ * @param items - Run items
+ * @param employees - Name, employee number and bank account per user ID
+ */
+export function groupReimbursementItems(
+  items: ReimbursementItem[],
+  employees: Map<string, { name: string; employeeNumber?: string; bankAccount: EmployeeBankAccount }>
+): ReimbursementEmployee[] {
+  const groups = new Map<string, ReimbursementItem[]>()
+  for (const item of items) {
+    groups.set(item.userId, [...(groups.get(item.userId) ?? []), item])
+  }
+
+  return Array.from(groups, ([userId, employeeItems]) => {
+    const employee = employees.get(userId)
+
+    return {
+      userId,
+      name: employee?.name ?? 'Tanpa nama',
+      employeeNumber: employee?.employeeNumber,
+      bankAccount: employee?.bankAccount ?? {},
+      items: [...employeeItems].sort((a, b) => a.expenseDate.localeCompare(b.expenseDate)),
+      total: employeeItems
+        .filter((item) => !item.excluded)
+        .reduce((total, item) => total + item.amount, 0),
+    }
+  }).sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -1,20 +1,25 @@
 import { z } from 'zod'
-
-export const EXPENSE_CATEGORIES = [
-  'fuel',
-  'toll',
-  'parking',
-  'food',
-  'lodging',
-  'transport',
-  'supplies',
-  'other',
-] as const
-
-export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number]
+import type { ExpenseCategory } from '@/types/expense-category'
+
+export type { ExpenseCategory }
+
+/**
+ * Category code field
+ *
+ * @param categoryCodes - Codes that may be picked; any code when omitted
+ */
+function categoryField(categoryCodes?: readonly ExpenseCategory[]) {
+  return z
+    .string({
+      required_error: 'Pilih kategori pengeluaran',
+      invalid_type_error: 'Kategori tidak valid',
+    })
+    .min(1, 'Pilih kategori pengeluaran')
+    .refine((code) => !categoryCodes || categoryCodes.includes(code), 'Kategori tidak aktif')
+}
 
 // Base schema without refinement (for backward compatibility)
-const expenseFormBaseSchema = z.object({
+const createExpenseFormBaseSchema = (categoryCodes?: readonly ExpenseCategory[]) => z.object({
   amount: z
     .number({
       required_error: 'Masukkan jumlah pengeluaran',
@@ -22,10 +27,7 @@ const expenseFormBaseSchema = z.object({
     })
     .positive('Jumlah harus lebih dari 0'),
 
-  category: z.enum(EXPENSE_CATEGORIES, {
-    required_error: 'Pilih kategori pengeluaran',
-    invalid_type_error: 'Kategori tidak valid',
-  }),
+  category: categoryField(categoryCodes),
 
   vendorName: z.string().optional(),
 
@@ -58,26 +60,35 @@ const expenseFormBaseSchema = z.object({
   locationExplanation: z.string().optional(),
 })
 
-// Schema with job linking validation refinement
-export const expenseFormSchema = expenseFormBaseSchema.refine(
-  (data) => {
-    // Only validate if job linking fields are being used
-    // (for backward compatibility with existing code)
-    const hasJobLinkingFields =
-      data.jobOrderId !== undefined || data.isOverhead !== undefined
-
-    if (!hasJobLinkingFields) {
-      return true
+/**
+ * Expense form schema with job linking validation
+ *
+ * @param categoryCodes - Categories that may be picked (active ones plus
+ *   the current category of an edited expense); any code when omitted
+ */
+export const createExpenseFormSchema = (categoryCodes?: readonly ExpenseCategory[]) =>
+  createExpenseFormBaseSchema(categoryCodes).refine(
+    (data) => {
+      // Only validate if job linking fields are being used
+      // (for backward compatibility with existing code)
+      const hasJobLinkingFields =
+        data.jobOrderId !== undefined || data.isOverhead !== undefined
+
+      if (!hasJobLinkingFields) {
+        return true
+      }
+
+      // Either jobOrderId must be set OR isOverhead must be true
+      return data.isOverhead === true || (data.jobOrderId !== null && data.jobOrderId !== undefined)
+    },
+    {
+      message: 'Pilih job order atau tandai sebagai overhead',
+      path: ['jobOrderId'],
     }
+  )
 
-    // Either jobOrderId must be set OR isOverhead must be true
-    return data.isOverhead === true || (data.jobOrderId !== null && data.jobOrderId !== undefined)
-  },
-  {
-    message: 'Pilih job order atau tandai sebagai overhead',
-    path: ['jobOrderId'],
-  }
-)
+// Schema accepting any category code (server-side checks use the database)
+export const expenseFormSchema = createExpenseFormSchema()
 
 export type ExpenseFormData = z.infer<typeof expenseFormSchema>
 
@@ -0,0 +1,9 @@
+/**
+ * Search Module Exports
+ *
+ * Tokenization and ranking shared by the offline index and server search.
+ */
+
+export { normalizeSearchText, tokenizeSearchText, toTextSearchQuery } from './tokenize'
+
+export { SEARCH_FIELD_WEIGHTS, tokenizeSearchDocument, matchSearchDocument } from './rank'
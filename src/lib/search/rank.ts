@@ -0,0 +1,114 @@
+/**
+ * Search matching and ranking
+ *
+ * Every query token must match a token of the document, exactly or as a
+ * prefix. Matches in identifying fields (BKK and job numbers, amount) rank
+ * above the vendor and description, and the receipt's OCR text ranks
+ * last. Local and server results are ranked by the same rules so they can
+ * be listed together.
+ */
+
+import { tokenizeSearchText } from './tokenize'
+import type { SearchDocument, SearchField, SearchFieldTokens, SearchMatch } from '@/types/search'
+
+/**
+ * Weight of a match in each field
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  bkkNumber: 8,
+  jobNumber: 8,
+  amount: 6,
+  vendorName: 5,
+  customerName: 3,
+  description: 3,
+  ocrText: 1,
+}
+
+/** Characters of receipt text shown on each side of a match */
+const SNIPPET_CONTEXT = 30
+
+/**
+ * Tokenize each field of a search document
+ */
+export function tokenizeSearchDocument(document: SearchDocument): SearchFieldTokens {
+  const fieldTokens: SearchFieldTokens = {}
+
+  for (const field of Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]) {
+    const text = document[field]
+    if (text) {
+      fieldTokens[field] = tokenizeSearchText(text)
+    }
+  }
+
+  return fieldTokens
+}
+
+/**
+ * Receipt text around the first occurrence of a token
+ */
+function buildSnippet(ocrText: string, token: string): string | undefined {
+  const index = ocrText.toLowerCase().indexOf(token)
+  if (index < 0) {
+    return undefined
+  }
+
+  const start = Math.max(0, index - SNIPPET_CONTEXT)
+  const end = Math.min(ocrText.length, index + token.length + SNIPPET_CONTEXT)
+  const text = ocrText.slice(start, end).replace(/\s+/g, ' ').trim()
+
+  return `${start > 0 ? '…' : ''}${text}${end < ocrText.length ? '…' : ''}`
+}
+
+/**
+ * Match query tokens against a tokenized document
+ *
+ * @param fieldTokens - Tokens of the document by field
+ * @param queryTokens - Tokens of the search query
+ * @param ocrText - Raw receipt text, for the snippet
+ * @returns The match, or null when a query token is not found
+ */
+export function matchSearchDocument(
+  fieldTokens: SearchFieldTokens,
+  queryTokens: string[],
+  ocrText?: string
+): SearchMatch | null {
+  if (queryTokens.length === 0) {
+    return null
+  }
+
+  let score = 0
+  let ocrOnlyToken: string | undefined
+
+  for (const queryToken of queryTokens) {
+    let best = 0
+    let bestField: SearchField | undefined
+
+    for (const [field, tokens] of Object.entries(fieldTokens) as [SearchField, string[]][]) {
+      // Exact token matches count double
+      const points = tokens.includes(queryToken)
+        ? SEARCH_FIELD_WEIGHTS[field] * 2
+        : tokens.some((token) => token.startsWith(queryToken))
+          ? SEARCH_FIELD_WEIGHTS[field]
+          : 0
+
+      if (points > best) {
+        best = points
+        bestField = field
+      }
+    }
+
+    if (best === 0) {
+      return null
+    }
+
+    score += best
+    if (bestField === 'ocrText') {
+      ocrOnlyToken = ocrOnlyToken ?? queryToken
+    }
+  }
+
+  return {
+    score,
+    snippet: ocrOnlyToken && ocrText ? buildSnippet(ocrText, ocrOnlyToken) : undefined,
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Search text tokenization
+ *
+ * Text is lowercased, stripped of accents and thousands separators
+ * (`150.000` and `150,000` become `150000`, so amounts on receipts match
+ * typed amounts) and split on anything that is not a letter or digit.
+ * `normalize_search_text` in the database applies the same rules to the
+ * server-side search vector.
+ */
+
+/**
+ * Normalize text for searching
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(\d)[.,](?=\d{3}(?!\d))/g, '$1')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Split text into unique search tokens
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const normalized = normalizeSearchText(text)
+  return normalized ? [...new Set(normalized.split(' '))] : []
+}
+
+/**
+ * Build a Postgres tsquery matching every token as a prefix
+ *
+ * @returns The query, or null when the text has no tokens
+ */
+export function toTextSearchQuery(text: string): string | null {
+  const tokens = tokenizeSearchText(text)
+  return tokens.length > 0 ? tokens.map((token) => `${token}:*`).join(' & ') : null
+}
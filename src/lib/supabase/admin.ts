@@ -0,0 +1,21 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Create a Supabase client with the service role key (server only)
+ *
+ * Bypasses RLS. Only use for system tasks that act across users, such as
+ * delivering push notifications, never with user-supplied filters.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+}
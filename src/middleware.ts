@@ -34,8 +34,8 @@ export async function middleware(request: NextRequest) {
 
   const pathname = request.nextUrl.pathname
 
-  // Public routes that don't require auth
-  const publicRoutes = ['/login', '/api/auth/callback', '/access-denied']
+  // Public routes that don't require auth (cron routes check CRON_SECRET)
+  const publicRoutes = ['/login', '/api/auth/callback', '/access-denied', '/api/cron']
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route))
 
   // Static files and API routes (except auth)
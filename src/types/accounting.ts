@@ -0,0 +1,70 @@
+/**
+ * Accounting Types
+ *
+ * Chart-of-accounts and cost center mapping of expenses, stored on the
+ * BKK record, and the journal batches exported to the accounting system.
+ */
+
+/**
+ * Cost center an expense is booked to
+ *
+ * A job expense goes to the center matching the job's customer, else the
+ * job's branch, else the default center. Overhead expenses go to the
+ * overhead center.
+ */
+export interface CostCenter {
+  id: string
+  /** Code in the accounting system, e.g. "CC-JKT" */
+  code: string
+  name: string
+  /** Job branch this center covers, null for any branch */
+  branchCode: string | null
+  /** Job customer this center covers, null for any customer */
+  customerName: string | null
+  /** Center for overhead expenses (no job) */
+  isOverhead: boolean
+  /** Center for job expenses matching no customer or branch */
+  isDefault: boolean
+  isActive: boolean
+}
+
+/**
+ * Account and cost center resolved for an expense
+ */
+export interface AccountingMapping {
+  /** Expense (debit) account, null when the category has no account */
+  glAccountCode: string | null
+  /** Cost center, null when no center matches */
+  costCenterCode: string | null
+}
+
+/**
+ * Exported batch of approved BKK records
+ */
+export interface JournalBatch {
+  id: string
+  /** e.g. JE-202610-001 */
+  batchNumber: string
+  dateFrom: string
+  dateTo: string
+  entryCount: number
+  totalAmount: number
+  /** Petty cash (credit) account used for the batch */
+  creditAccountCode: string
+  createdAt: string
+}
+
+/**
+ * One line of a journal entry; every BKK record gives a debit and a
+ * credit line
+ */
+export interface JournalLine {
+  /** Journal entry reference (the BKK number) */
+  entryNumber: string
+  date: string
+  accountCode: string
+  costCenterCode: string | null
+  description: string
+  debit: number
+  credit: number
+}
@@ -0,0 +1,106 @@
+/**
+ * Multi-level approval types
+ */
+
+import type { ExpenseCategory } from '@/constants/expense-categories'
+
+/**
+ * Status of a single approval step
+ *
+ * - waiting: an earlier step has not been decided yet
+ * - pending: the current step, awaiting a decision
+ * - approved / rejected: decided
+ */
+export type ApprovalStepStatus = 'waiting' | 'pending' | 'approved' | 'rejected'
+
+/**
+ * Approval step resolved from the policy when an expense is submitted
+ */
+export interface ApprovalChainStep {
+  /** 1-based position in the chain */
+  stepOrder: number
+  label: string
+  approverRoles: string[]
+}
+
+/**
+ * Approval step of an expense, as recorded on the server
+ */
+export interface ApprovalStep extends ApprovalChainStep {
+  id: string
+  status: ApprovalStepStatus
+  approverId?: string
+  approverName?: string
+  decidedAt?: string
+}
+
+/**
+ * Type of an approval audit event
+ *
+ * - submitted: expense submitted for approval (new approval chain)
+ * - step_approved: an approval step was approved, next step pending
+ * - approved: last step approved, expense approved
+ * - rejected: expense rejected at a step
+ * - resubmitted: rejected expense reset to draft for resubmission
+ * - bkk_status_changed: linked BKK record created or its status changed
+ * - paid: approved expense paid back by finance
+ */
+export type ApprovalEventType =
+  | 'submitted'
+  | 'step_approved'
+  | 'approved'
+  | 'rejected'
+  | 'resubmitted'
+  | 'bkk_status_changed'
+  | 'paid'
+
+/**
+ * Immutable entry of an expense's approval history
+ */
+export interface ApprovalEvent {
+  id: string
+  expenseId: string
+  eventType: ApprovalEventType
+  actorId?: string
+  actorName?: string
+  /** Approval status before and after the event */
+  fromStatus?: string
+  toStatus?: string
+  /** Approval step the event applies to */
+  stepOrder?: number
+  stepLabel?: string
+  /** Rejection reason */
+  reason?: string
+  bkkNumber?: string
+  /** BKK record status after the event (bkk_status_changed) */
+  bkkStatus?: string
+  createdAt: string
+}
+
+/**
+ * Decision on the current approval step
+ */
+export type ApprovalDecision = Extract<ApprovalStepStatus, 'approved' | 'rejected'>
+
+/**
+ * Outcome for one expense of a bulk approve/reject
+ */
+export interface BulkDecisionItemResult {
+  expenseId: string
+  success: boolean
+  error?: string
+}
+
+/**
+ * Filters of the approval queue
+ */
+export interface ApprovalQueueFilters {
+  /** Submitting user */
+  submitterId?: string
+  jobOrderId?: string
+  categories?: ExpenseCategory[]
+  minAmount?: number
+  maxAmount?: number
+  /** Only expenses breaking a spending policy */
+  violationsOnly?: boolean
+}
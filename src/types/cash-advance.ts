@@ -0,0 +1,75 @@
+/**
+ * Cash advance (kasbon) types
+ */
+
+import type { ApprovalStatus } from '@/types/expense-filters'
+
+/**
+ * Lifecycle status of a cash advance
+ */
+export type CashAdvanceStatus = 'open' | 'settled'
+
+/**
+ * Cash advance issued by finance to a user
+ */
+export interface CashAdvance {
+  id: string
+  advanceNumber: string
+  userId: string
+  userName?: string
+  jobOrderId?: string
+  jobNumber?: string
+  amount: number
+  purpose?: string
+  status: CashAdvanceStatus
+  issuedAt: string
+  settledAt?: string
+  /** Total of allocated expenses (non-rejected) known to the server */
+  spentAmount: number
+}
+
+/**
+ * Cash advance with its remaining balance, including expenses not yet synced
+ */
+export interface CashAdvanceBalance extends CashAdvance {
+  /** spentAmount plus local expenses waiting to sync */
+  totalSpent: number
+  /** amount - totalSpent (negative when overspent) */
+  remaining: number
+}
+
+/**
+ * Expense allocated to an advance, as used in settlement
+ */
+export interface AdvanceExpense {
+  id: string
+  amount: number
+  approvalStatus: ApprovalStatus
+}
+
+/**
+ * Outcome of settling an advance
+ *
+ * - refund: the user returns the unspent cash
+ * - reimbursement: finance pays the user the overspent amount
+ * - even: spending matched the advance exactly
+ */
+export type SettlementOutcome = 'refund' | 'reimbursement' | 'even'
+
+/**
+ * Settlement summary for an advance
+ */
+export interface AdvanceSettlement {
+  advanceId: string
+  advanceNumber: string
+  advanceAmount: number
+  /** Total of approved expenses */
+  approvedAmount: number
+  approvedCount: number
+  /** Expenses still in draft or waiting for approval (block settlement) */
+  unresolvedCount: number
+  rejectedCount: number
+  outcome: SettlementOutcome
+  /** Absolute amount to refund or reimburse */
+  settlementAmount: number
+}
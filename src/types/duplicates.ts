@@ -0,0 +1,62 @@
+/**
+ * Duplicate Detection Types
+ *
+ * Types for flagging expenses that were likely recorded twice, e.g. the
+ * same toll receipt photographed twice or entered manually and via OCR.
+ */
+
+import type { ApprovalStatus } from './expense-filters'
+
+/**
+ * Why an expense looks like a duplicate
+ */
+export type DuplicateReason =
+  | 'same_receipt'
+  | 'same_amount'
+  | 'same_date'
+  | 'near_date'
+  | 'similar_vendor'
+  | 'same_job'
+
+/**
+ * The expense being checked
+ */
+export interface DuplicateCheckInput {
+  amount: number
+  /** Expense date (YYYY-MM-DD) */
+  expenseDate: string
+  vendorName?: string
+  jobOrderId?: string
+  /** Perceptual hash of the receipt image */
+  receiptHash?: string
+  /** Local or server IDs of the expense itself, skipped when matching */
+  excludeIds?: string[]
+}
+
+/**
+ * An existing expense compared against the checked one
+ */
+export interface DuplicateCandidate {
+  /** Server ID, or the local ID for expenses not synced yet */
+  id: string
+  localId?: string
+  source: 'local' | 'server'
+  amount: number
+  expenseDate: string
+  vendorName?: string
+  jobOrderId?: string
+  jobNumber?: string
+  receiptHash?: string
+  submitterName?: string
+  approvalStatus?: ApprovalStatus
+}
+
+/**
+ * A suspected duplicate
+ */
+export interface DuplicateMatch {
+  expense: DuplicateCandidate
+  reasons: DuplicateReason[]
+  /** Higher is more likely a duplicate */
+  score: number
+}
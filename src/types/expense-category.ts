@@ -0,0 +1,36 @@
+/**
+ * Expense Category Types
+ *
+ * Expense categories are managed by finance in the expense_categories
+ * table and cached offline. Categories are deactivated rather than
+ * deleted, so older expenses keep their category.
+ */
+
+/**
+ * Category code stored on expenses (e.g. "fuel", "bongkar_muat")
+ */
+export type ExpenseCategory = string
+
+/**
+ * An expense category with its display settings
+ */
+export interface ExpenseCategoryConfig {
+  /** Stable code stored on expenses; cannot change after creation */
+  code: ExpenseCategory
+  /** Short label for chips and buttons, e.g. "BBM" */
+  label: string
+  /** Full label for details and reports, e.g. "Bahan Bakar" */
+  labelFull: string
+  /** Icon name (see CATEGORY_ICON_NAMES) */
+  icon: string
+  /** Color name (see CATEGORY_COLOR_NAMES) */
+  color: string
+  /** General ledger account code for the ERP */
+  glAccountCode: string | null
+  /** Account for overhead expenses, when they book elsewhere than job costs */
+  overheadGlAccountCode: string | null
+  /** Inactive categories cannot be picked for new expenses */
+  isActive: boolean
+  /** Position in selectors, ascending */
+  sortOrder: number
+}
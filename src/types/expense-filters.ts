@@ -4,11 +4,26 @@
 
 import type { ExpenseCategory } from '@/constants/expense-categories'
 import type { SyncStatus } from '@/lib/db'
+import type { PolicyViolation } from '@/types/expense-policy'
+import type { ReceiptLineItem, ReceiptMetadata } from '@/types/ocr'
+import type { PaymentMethod } from '@/types/payment'
 
 /**
  * Approval status for expenses
+ *
+ * `paid` follows `approved` once finance has paid the expense back.
  */
-export type ApprovalStatus = 'draft' | 'pending_approval' | 'approved' | 'rejected'
+export type ApprovalStatus = 'draft' | 'pending_approval' | 'approved' | 'rejected' | 'paid'
+
+/**
+ * Job link of an expense: linked to a job order, or overhead
+ */
+export type ExpenseCostType = 'job' | 'overhead'
+
+/**
+ * Whether an expense has a receipt photo
+ */
+export type ReceiptPresence = 'with' | 'without'
 
 /**
  * Filter options for expense queries
@@ -24,10 +39,34 @@ export interface ExpenseFilters {
   syncStatuses?: SyncStatus[]
   /** Filter by approval statuses */
   approvalStatuses?: ApprovalStatus[]
+  /** Minimum amount (inclusive) */
+  minAmount?: number
+  /** Maximum amount (inclusive) */
+  maxAmount?: number
+  /** Filter by job orders */
+  jobOrderIds?: string[]
+  /** Only job-linked or only overhead expenses */
+  costType?: ExpenseCostType
+  /** Only expenses flagged for manual review */
+  requiresReview?: boolean
+  /** Only expenses with, or without, a receipt photo */
+  receipt?: ReceiptPresence
+  /** Only expenses captured away from the job route */
+  locationWarning?: boolean
   /** Search query for vendor name or description */
   search?: string
 }
 
+/**
+ * Named history filters saved by a user
+ */
+export interface ExpenseFilterPreset {
+  id: string
+  name: string
+  filters: ExpenseFilters
+  updatedAt: string
+}
+
 /**
  * Source of expense data
  */
@@ -70,8 +109,24 @@ export interface DisplayExpense {
   gpsLatitude?: number
   gpsLongitude?: number
   gpsAccuracy?: number
+  /** Submitter's explanation for capturing away from the job route */
+  locationExplanation?: string
+  /** Spending policies broken at submission */
+  policyViolations?: PolicyViolation[]
+  /** Receipt item lines */
+  lineItems?: ReceiptLineItem[]
+  /** Tax (PPN) on the receipt */
+  taxAmount?: number
+  /** Service charge on the receipt */
+  serviceCharge?: number
+  /** Details of the detected receipt type */
+  receiptMetadata?: ReceiptMetadata
   receiptLocalId?: string
   receipt?: DisplayReceipt
+  /** Expense needs no receipt photo (per diem allowance) */
+  receiptExempt?: boolean
+  /** Daily allowance generated from the job's trip dates */
+  isPerDiem?: boolean
   jobOrder?: DisplayJobOrder
   syncStatus: SyncStatus
   approvalStatus: ApprovalStatus
@@ -89,4 +144,16 @@ export interface DisplayExpense {
   approvedBy?: string
   approvedByName?: string
   rejectionReason?: string
+  // Payment (paid only)
+  paidAt?: string
+  paymentMethod?: PaymentMethod
+  paymentReference?: string
+  // Search results only
+  /** Receipt text around the search match */
+  searchSnippet?: string
+  // Multi-level approval (pending_approval only)
+  currentApprovalStep?: number
+  approvalStepCount?: number
+  /** Label of the current approval step */
+  approvalStepLabel?: string
 }
@@ -0,0 +1,58 @@
+/**
+ * Expense Policy Types
+ *
+ * Spending rules defined by finance per expense category and role, and
+ * the violations found when an expense breaks them.
+ */
+
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { UserRole } from '@/types/supabase'
+
+/**
+ * Kind of spending rule
+ *
+ * - max_per_expense: a single expense may not exceed the amount
+ * - max_per_day: the user's expenses in the category on one date (one
+ *   night for lodging) may not exceed the amount together
+ * - receipt_required_above: expenses above the amount need a receipt photo
+ */
+export type PolicyRuleType = 'max_per_expense' | 'max_per_day' | 'receipt_required_above'
+
+/**
+ * A spending rule for an expense category
+ */
+export interface ExpensePolicy {
+  id: string
+  category: ExpenseCategory
+  /** Role the rule applies to; null applies to every role without its own rule */
+  role: UserRole | null
+  ruleType: PolicyRuleType
+  /** Limit or threshold in IDR */
+  amount: number
+  isActive: boolean
+  updatedAt?: string
+}
+
+/**
+ * Expense facts a policy is evaluated against
+ */
+export interface PolicyCheckInput {
+  amount: number
+  category: ExpenseCategory
+  hasReceipt: boolean
+  /** Total of the user's other expenses in the category on the same date */
+  sameDayTotal: number
+}
+
+/**
+ * A broken spending rule, stored on the expense at submission
+ */
+export interface PolicyViolation {
+  policyId: string
+  ruleType: PolicyRuleType
+  category: ExpenseCategory
+  /** Limit or threshold of the rule (IDR) */
+  limit: number
+  /** Amount compared with the limit (IDR) */
+  actual: number
+}
@@ -0,0 +1,57 @@
+/**
+ * Expense report export types
+ */
+
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { ApprovalStatus, ExpenseFilters } from '@/types/expense-filters'
+
+/**
+ * Supported export file formats
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+/**
+ * One expense in the report
+ */
+export interface ExpenseReportRow {
+  id: string
+  expenseDate: string
+  category: ExpenseCategory
+  description?: string
+  vendorName?: string
+  jobNumber?: string
+  customerName?: string
+  amount: number
+  approvalStatus: ApprovalStatus
+  bkkNumber?: string
+  /** Storage path of the receipt image */
+  receiptPath?: string
+  /** Signed URL to the receipt image */
+  receiptUrl?: string
+}
+
+/**
+ * Total of one category in the report
+ */
+export interface CategorySubtotal {
+  category: ExpenseCategory
+  count: number
+  total: number
+}
+
+/**
+ * Expense report built from the server data matching the history filters
+ */
+export interface ExpenseReport {
+  filters: ExpenseFilters
+  rows: ExpenseReportRow[]
+  subtotals: CategorySubtotal[]
+  total: number
+  /** Full category labels by code, from expense_categories */
+  categoryLabels: Record<ExpenseCategory, string>
+  generatedAt: string
+  /** Name of the user who generated the report */
+  generatedBy?: string
+  /** Whether rows were cut off at EXPORT_MAX_ROWS */
+  truncated: boolean
+}
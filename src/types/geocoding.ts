@@ -0,0 +1,41 @@
+/**
+ * Geocoding Types
+ *
+ * Types for resolving free-text job locations (e.g. "Tanjung Priok")
+ * to coordinates.
+ */
+
+import type { GPSCoordinates } from '@/lib/location/geofence'
+
+/**
+ * Kind of place a location resolved to
+ */
+export type PlaceKind = 'port' | 'industrial_estate' | 'toll_gate' | 'city'
+
+/**
+ * A resolved location
+ */
+export interface GeocodeResult {
+  coordinates: GPSCoordinates
+  /** Name of the matched place */
+  name: string
+  kind: PlaceKind
+  /** Provider that resolved the location */
+  provider: string
+  /** Match confidence (0-1) */
+  confidence: number
+}
+
+/**
+ * A geocoding source
+ *
+ * Providers return null when they cannot resolve the text and throw only
+ * on failures (e.g. network), so the next provider can be tried.
+ */
+export interface GeocodingProvider {
+  /** Unique provider name, stored with cached results */
+  name: string
+  /** Whether the provider needs network access */
+  requiresNetwork: boolean
+  geocode: (query: string) => Promise<GeocodeResult | null>
+}
@@ -0,0 +1,87 @@
+/**
+ * Per-job cost report types
+ */
+
+import type { ExpenseCategory } from '@/constants/expense-categories'
+import type { ApprovalStatus } from '@/types/expense-filters'
+
+/**
+ * Job order with its optional trip budget
+ */
+export interface JobReportJob {
+  id: string
+  jobNumber: string
+  customerName: string
+  origin: string
+  destination: string
+  status: string
+  /** Trip budget from the ERP, if set */
+  budgetAmount?: number
+}
+
+/**
+ * Expense charged to the job (any user)
+ */
+export interface JobReportExpense {
+  id: string
+  userId: string
+  userName?: string
+  amount: number
+  category: ExpenseCategory
+  vendorName?: string
+  description?: string
+  expenseDate: string
+  approvalStatus: ApprovalStatus
+}
+
+/**
+ * Amounts split by approval status (rejected expenses are not job cost)
+ */
+export interface JobCostAmounts {
+  /** Approved expenses */
+  approved: number
+  /** Submitted and waiting for approval */
+  pending: number
+  /** Captured but not yet submitted */
+  draft: number
+  /** approved + pending + draft */
+  total: number
+  /** Number of expenses counted in total */
+  count: number
+}
+
+export interface JobCategoryCost extends JobCostAmounts {
+  category: ExpenseCategory
+}
+
+export interface JobDriverCost extends JobCostAmounts {
+  userId: string
+  userName?: string
+}
+
+/**
+ * Budget usage of a job (only when a budget is set)
+ */
+export interface JobBudgetComparison {
+  budget: number
+  /** Total cost used against the budget */
+  used: number
+  /** budget - used (negative when over budget) */
+  remaining: number
+  /** used / budget * 100 */
+  percentage: number
+}
+
+/**
+ * Cost report of a job order
+ */
+export interface JobCostReport {
+  job: JobReportJob
+  expenses: JobReportExpense[]
+  totals: JobCostAmounts
+  /** Total of rejected expenses (excluded from cost) */
+  rejectedAmount: number
+  byCategory: JobCategoryCost[]
+  byDriver: JobDriverCost[]
+  budget?: JobBudgetComparison
+}
@@ -5,6 +5,8 @@
  * with Tesseract.js fallback for offline scenarios.
  */
 
+import type { ExpenseCategory } from '@/types/expense-category'
+
 /**
  * OCR provider used for processing
  */
@@ -30,6 +32,117 @@ export const OCR_CONFIDENCE_THRESHOLDS = {
   REVIEW_REQUIRED: 0.8,
 } as const
 
+/**
+ * Item line of a receipt
+ */
+export interface ReceiptLineItem {
+  /** Item name as printed */
+  description: string
+  /** Quantity bought */
+  quantity: number
+  /** Price of one unit in IDR */
+  unitPrice: number
+  /** Line total in IDR */
+  total: number
+}
+
+/**
+ * Itemization of a receipt: item lines plus tax (PPN) and service charge
+ */
+export interface ReceiptItemization {
+  lineItems: ReceiptLineItem[]
+  /** Tax (PPN / PB1) in IDR */
+  taxAmount?: number
+  /** Service charge in IDR */
+  serviceCharge?: number
+}
+
+/**
+ * Kind of receipt, detected from the printed text
+ */
+export type ReceiptType = 'fuel' | 'toll' | 'parking' | 'emoney_topup' | 'restaurant'
+
+/**
+ * Gas station (SPBU) receipt details
+ */
+export interface FuelReceiptMetadata {
+  type: 'fuel'
+  /** Station brand, e.g. "Pertamina", "Shell" */
+  brand?: string
+  /** SPBU number, e.g. "34.171.06" */
+  stationNumber?: string
+  /** Fuel grade, e.g. "Pertalite", "Dexlite", "Shell V-Power" */
+  fuelGrade?: string
+  /** Volume filled in liters */
+  liters?: number
+  /** Price per liter in IDR */
+  pricePerLiter?: number
+}
+
+/**
+ * Toll gate receipt details
+ */
+export interface TollReceiptMetadata {
+  type: 'toll'
+  /** Toll road operator, e.g. "Jasa Marga" */
+  operator?: string
+  /** Gate where the toll road was entered */
+  gateIn?: string
+  /** Gate where the fare was paid */
+  gateOut?: string
+  /** Vehicle class (golongan), 1-5 */
+  vehicleClass?: number
+}
+
+/**
+ * Parking ticket details
+ */
+export interface ParkingReceiptMetadata {
+  type: 'parking'
+  /** Parking operator, e.g. "Secure Parking" */
+  operator?: string
+  /** Vehicle plate number, e.g. "B 1234 XYZ" */
+  plateNumber?: string
+  /** Entry time (HH:mm) */
+  entryTime?: string
+  /** Exit time (HH:mm) */
+  exitTime?: string
+}
+
+/**
+ * E-money (e-toll card) top-up receipt details
+ */
+export interface EMoneyTopUpReceiptMetadata {
+  type: 'emoney_topup'
+  /** Card product, e.g. "Mandiri e-money", "BCA Flazz" */
+  provider?: string
+  /** Last four digits of the card number */
+  cardLastDigits?: string
+  /** Card balance after the top-up in IDR */
+  balanceAfter?: number
+}
+
+/**
+ * Restaurant bill details
+ */
+export interface RestaurantReceiptMetadata {
+  type: 'restaurant'
+  /** Table number as printed */
+  tableNumber?: string
+  /** Number of guests (pax) */
+  guestCount?: number
+}
+
+/**
+ * Details specific to the kind of receipt
+ */
+export type ReceiptMetadata =
+  | FuelReceiptMetadata
+  | TollReceiptMetadata
+  | ParkingReceiptMetadata
+  | EMoneyTopUpReceiptMetadata
+  | RestaurantReceiptMetadata
+
 /**
  * Data extracted from receipt by OCR
  */
@@ -46,6 +159,26 @@ export interface ExtractedReceiptData {
   date?: string
   /** Confidence score for date extraction (0-1) */
   dateConfidence?: number
+  /** Extracted item lines */
+  lineItems?: ReceiptLineItem[]
+  /** Confidence score for item extraction (0-1) */
+  lineItemsConfidence?: number
+  /** Subtotal printed on the receipt, before tax and service charge */
+  subtotal?: number
+  /** Extracted tax (PPN / PB1) in IDR */
+  taxAmount?: number
+  /** Extracted service charge in IDR */
+  serviceCharge?: number
+  /** Whether items, tax and service charge add up to the amount */
+  lineItemsMatchTotal?: boolean
+  /** Detected kind of receipt */
+  receiptType?: ReceiptType
+  /** Confidence score for the receipt type (0-1) */
+  receiptTypeConfidence?: number
+  /** Expense category code suggested by the receipt type */
+  suggestedCategory?: ExpenseCategory
+  /** Details specific to the receipt type */
+  receiptMetadata?: ReceiptMetadata
 }
 
 /**
@@ -0,0 +1,47 @@
+/**
+ * Payment (Disbursement) Types
+ *
+ * Finance pays approved expenses back to employees in payments. Paying
+ * moves the expenses to `paid` and their BKK records to `paid`.
+ */
+
+/**
+ * How a payment was made
+ */
+export type PaymentMethod = 'cash' | 'transfer' | 'payroll'
+
+/**
+ * A recorded payment of one or more approved expenses
+ */
+export interface ExpensePayment {
+  id: string
+  method: PaymentMethod
+  /** Bank transfer reference, required for transfers */
+  referenceNumber?: string
+  /** Date the money was paid (YYYY-MM-DD) */
+  paidDate: string
+  /** Finance user who paid */
+  paidBy: string
+  paidByName?: string
+  totalAmount: number
+  expenseCount: number
+  notes?: string
+  createdAt: string
+}
+
+/**
+ * Approved expense awaiting payment
+ */
+export interface PayableExpense {
+  id: string
+  userId: string
+  /** Employee to pay */
+  userName: string
+  amount: number
+  category: string
+  description?: string
+  expenseDate: string
+  bkkNumber?: string
+  jobNumber?: string
+  approvedAt?: string
+}
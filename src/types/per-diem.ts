@@ -0,0 +1,57 @@
+/**
+ * Per Diem Types
+ *
+ * Daily meal and lodging allowances (uang harian) for drivers on
+ * multi-day trips, paid at a rate by destination region.
+ */
+
+/**
+ * Allowance rates for a destination region
+ */
+export interface PerDiemRate {
+  id: string
+  /** Region name, e.g. "Jabodetabek" */
+  region: string
+  /** Place names matched against the job destination, besides the region name */
+  keywords: string[]
+  /** Meal allowance per trip day (IDR) */
+  mealRate: number
+  /** Lodging allowance per night away (IDR) */
+  lodgingRate: number
+  /** Used when no region matches the destination */
+  isDefault: boolean
+  isActive: boolean
+}
+
+/**
+ * Allowance category: meals per day, lodging per night
+ */
+export type PerDiemCategory = 'food' | 'lodging'
+
+/**
+ * A single allowance entry, generated as an expense for the driver
+ */
+export interface PerDiemEntry {
+  /** Trip day (YYYY-MM-DD) */
+  date: string
+  category: PerDiemCategory
+  amount: number
+}
+
+/**
+ * Allowance plan for a job order's trip
+ */
+export interface PerDiemPlan {
+  jobOrderId: string
+  jobNumber: string
+  driverId: string
+  driverName?: string
+  tripStartDate: string
+  tripEndDate: string
+  /** Rate applied (matched region or the default) */
+  rate: PerDiemRate
+  /** Entries for the whole trip */
+  entries: PerDiemEntry[]
+  /** Entries not generated yet */
+  missingEntries: PerDiemEntry[]
+}
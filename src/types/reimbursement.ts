@@ -0,0 +1,95 @@
+/**
+ * Reimbursement Run Types
+ *
+ * Finance reimburses employees in weekly runs: a run collects the approved,
+ * unpaid expenses of a period, grouped per employee, and is paid by one
+ * bank transfer file. Confirming the run pays all included expenses at
+ * once (see ExpensePayment).
+ */
+
+export type ReimbursementRunStatus = 'draft' | 'confirmed'
+
+/**
+ * A reimbursement run
+ */
+export interface ReimbursementRun {
+  id: string
+  /** RB-YYYYMM-NNN */
+  runNumber: string
+  /** First expense date covered (YYYY-MM-DD) */
+  periodFrom: string
+  /** Last expense date covered (YYYY-MM-DD) */
+  periodTo: string
+  status: ReimbursementRunStatus
+  /** Employees with included expenses */
+  employeeCount: number
+  /** Number of included expenses */
+  expenseCount: number
+  /** Total of included expenses */
+  totalAmount: number
+  /** Payment created when the run was confirmed */
+  paymentId?: string
+  confirmedAt?: string
+  createdAt: string
+}
+
+/**
+ * An expense collected into a run
+ */
+export interface ReimbursementItem {
+  expenseId: string
+  userId: string
+  amount: number
+  category: string
+  description?: string
+  expenseDate: string
+  bkkNumber?: string
+  jobNumber?: string
+  /** Excluded items are left unpaid for a later run */
+  excluded: boolean
+}
+
+/**
+ * Bank account an employee is reimbursed to (from the ERP employee record)
+ */
+export interface EmployeeBankAccount {
+  bankName?: string
+  accountNumber?: string
+  accountName?: string
+}
+
+/**
+ * The items of one employee in a run
+ */
+export interface ReimbursementEmployee {
+  userId: string
+  name: string
+  employeeNumber?: string
+  bankAccount: EmployeeBankAccount
+  items: ReimbursementItem[]
+  /** Total of the included items */
+  total: number
+}
+
+/**
+ * Field written to a bank file column
+ */
+export type BankFileField =
+  | 'account_number'
+  | 'account_name'
+  | 'bank_name'
+  | 'amount'
+  | 'employee_number'
+  | 'employee_name'
+  | 'reference'
+  | 'description'
+
+/**
+ * CSV layout of the bank transfer file
+ */
+export interface BankFileLayout {
+  delimiter: string
+  /** Write a header row with the column labels */
+  includeHeader: boolean
+  columns: { field: BankFileField; label: string }[]
+}
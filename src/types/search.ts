@@ -0,0 +1,39 @@
+/**
+ * Expense search types
+ *
+ * Expenses are found by the text of their own fields, their job order and
+ * the OCR text of their receipt: offline from a token index in IndexedDB,
+ * online with Postgres full-text search. Both are ranked the same way.
+ */
+
+/**
+ * Searchable field of an expense
+ */
+export type SearchField =
+  | 'bkkNumber'
+  | 'jobNumber'
+  | 'amount'
+  | 'vendorName'
+  | 'description'
+  | 'customerName'
+  | 'ocrText'
+
+/**
+ * Searchable text of an expense by field
+ */
+export type SearchDocument = Partial<Record<SearchField, string>>
+
+/**
+ * Normalized tokens of a search document by field
+ */
+export type SearchFieldTokens = Partial<Record<SearchField, string[]>>
+
+/**
+ * How an expense matched a search
+ */
+export interface SearchMatch {
+  /** Relevance, higher first */
+  score: number
+  /** Receipt text around the match, when only the receipt matched */
+  snippet?: string
+}
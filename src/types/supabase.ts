@@ -51,23 +51,39 @@ export type Database = {
           vendor_name: string | null
           vendor_id: string | null
           job_order_id: string | null
+          advance_id: string | null
           is_overhead: boolean
           expense_date: string
           expense_time: string | null
           gps_latitude: number | null
           gps_longitude: number | null
           gps_accuracy: number | null
+          location_explanation: string | null
           receipt_id: string | null
+          receipt_exempt: boolean
           ocr_confidence: number | null
           requires_review: boolean
           sync_status: string
           local_id: string | null
           synced_at: string | null
           bkk_record_id: string | null
+          bkk_number: string | null
           approval_status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          current_approval_step: number | null
+          approval_step_count: number | null
           approved_by: string | null
           approved_at: string | null
           rejection_reason: string | null
+          paid_at: string | null
+          payment_id: string | null
+          search_vector: string | null
+          policy_violations: Json
+          line_items: Json
+          tax_amount: number | null
+          service_charge: number | null
+          receipt_metadata: Json | null
           created_at: string
           updated_at: string
           created_from: string
@@ -82,23 +98,39 @@ export type Database = {
           vendor_name?: string | null
           vendor_id?: string | null
           job_order_id?: string | null
+          advance_id?: string | null
           is_overhead?: boolean
           expense_date?: string
           expense_time?: string | null
           gps_latitude?: number | null
           gps_longitude?: number | null
           gps_accuracy?: number | null
+          location_explanation?: string | null
           receipt_id?: string | null
+          receipt_exempt?: boolean
           ocr_confidence?: number | null
           requires_review?: boolean
           sync_status?: string
           local_id?: string | null
           synced_at?: string | null
           bkk_record_id?: string | null
+          bkk_number?: string | null
           approval_status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          current_approval_step?: number | null
+          approval_step_count?: number | null
           approved_by?: string | null
           approved_at?: string | null
           rejection_reason?: string | null
+          paid_at?: string | null
+          payment_id?: string | null
+          search_vector?: string | null
+          policy_violations?: Json
+          line_items?: Json
+          tax_amount?: number | null
+          service_charge?: number | null
+          receipt_metadata?: Json | null
           created_at?: string
           updated_at?: string
           created_from?: string
@@ -113,23 +145,39 @@ export type Database = {
           vendor_name?: string | null
           vendor_id?: string | null
           job_order_id?: string | null
+          advance_id?: string | null
           is_overhead?: boolean
           expense_date?: string
           expense_time?: string | null
           gps_latitude?: number | null
           gps_longitude?: number | null
           gps_accuracy?: number | null
+          location_explanation?: string | null
           receipt_id?: string | null
+          receipt_exempt?: boolean
           ocr_confidence?: number | null
           requires_review?: boolean
           sync_status?: string
           local_id?: string | null
           synced_at?: string | null
           bkk_record_id?: string | null
+          bkk_number?: string | null
           approval_status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          current_approval_step?: number | null
+          approval_step_count?: number | null
           approved_by?: string | null
           approved_at?: string | null
           rejection_reason?: string | null
+          paid_at?: string | null
+          payment_id?: string | null
+          search_vector?: string | null
+          policy_violations?: Json
+          line_items?: Json
+          tax_amount?: number | null
+          service_charge?: number | null
+          receipt_metadata?: Json | null
           created_at?: string
           updated_at?: string
           created_from?: string
@@ -161,12 +209,566 @@ export type Database = {
           status?: string
         }
       }
+      cash_advances: {
+        Row: {
+          id: string
+          advance_number: string
+          user_id: string
+          job_order_id: string | null
+          amount: number
+          purpose: string | null
+          status: string
+          issued_by: string
+          issued_at: string
+          bkk_record_id: string | null
+          spent_amount: number | null
+          settlement_amount: number | null
+          settlement_bkk_record_id: string | null
+          settled_by: string | null
+          settled_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          advance_number: string
+          user_id: string
+          job_order_id?: string | null
+          amount: number
+          purpose?: string | null
+          status?: string
+          issued_by: string
+          issued_at?: string
+          bkk_record_id?: string | null
+          spent_amount?: number | null
+          settlement_amount?: number | null
+          settlement_bkk_record_id?: string | null
+          settled_by?: string | null
+          settled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          advance_number?: string
+          user_id?: string
+          job_order_id?: string | null
+          amount?: number
+          purpose?: string | null
+          status?: string
+          issued_by?: string
+          issued_at?: string
+          bkk_record_id?: string | null
+          spent_amount?: number | null
+          settlement_amount?: number | null
+          settlement_bkk_record_id?: string | null
+          settled_by?: string | null
+          settled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      expense_policies: {
+        Row: {
+          id: string
+          category: string
+          role: string | null
+          rule_type: string
+          amount: number
+          is_active: boolean
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          category: string
+          role?: string | null
+          rule_type: string
+          amount: number
+          is_active?: boolean
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          category?: string
+          role?: string | null
+          rule_type?: string
+          amount?: number
+          is_active?: boolean
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      expense_categories: {
+        Row: {
+          id: string
+          code: string
+          label: string
+          label_full: string | null
+          icon: string
+          color: string
+          gl_account_code: string | null
+          overhead_gl_account_code: string | null
+          is_active: boolean
+          sort_order: number
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          label: string
+          label_full?: string | null
+          icon?: string
+          color?: string
+          gl_account_code?: string | null
+          overhead_gl_account_code?: string | null
+          is_active?: boolean
+          sort_order?: number
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          label?: string
+          label_full?: string | null
+          icon?: string
+          color?: string
+          gl_account_code?: string | null
+          overhead_gl_account_code?: string | null
+          is_active?: boolean
+          sort_order?: number
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      per_diem_rates: {
+        Row: {
+          id: string
+          region: string
+          keywords: string[]
+          meal_rate: number
+          lodging_rate: number
+          is_default: boolean
+          is_active: boolean
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          region: string
+          keywords?: string[]
+          meal_rate?: number
+          lodging_rate?: number
+          is_default?: boolean
+          is_active?: boolean
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          region?: string
+          keywords?: string[]
+          meal_rate?: number
+          lodging_rate?: number
+          is_default?: boolean
+          is_active?: boolean
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      cost_centers: {
+        Row: {
+          id: string
+          code: string
+          name: string
+          branch_code: string | null
+          customer_name: string | null
+          is_overhead: boolean
+          is_default: boolean
+          is_active: boolean
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          name: string
+          branch_code?: string | null
+          customer_name?: string | null
+          is_overhead?: boolean
+          is_default?: boolean
+          is_active?: boolean
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          name?: string
+          branch_code?: string | null
+          customer_name?: string | null
+          is_overhead?: boolean
+          is_default?: boolean
+          is_active?: boolean
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      journal_batches: {
+        Row: {
+          id: string
+          batch_number: string
+          date_from: string
+          date_to: string
+          entry_count: number
+          total_amount: number
+          credit_account_code: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          batch_number: string
+          date_from: string
+          date_to: string
+          entry_count: number
+          total_amount: number
+          credit_account_code: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          batch_number?: string
+          date_from?: string
+          date_to?: string
+          entry_count?: number
+          total_amount?: number
+          credit_account_code?: string
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      expense_payments: {
+        Row: {
+          id: string
+          method: string
+          reference_number: string | null
+          paid_date: string
+          paid_by: string
+          total_amount: number
+          expense_count: number
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          method: string
+          reference_number?: string | null
+          paid_date: string
+          paid_by: string
+          total_amount: number
+          expense_count: number
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          method?: string
+          reference_number?: string | null
+          paid_date?: string
+          paid_by?: string
+          total_amount?: number
+          expense_count?: number
+          notes?: string | null
+          created_at?: string
+        }
+      }
+      reimbursement_runs: {
+        Row: {
+          id: string
+          run_number: string
+          period_from: string
+          period_to: string
+          status: string
+          employee_count: number
+          expense_count: number
+          total_amount: number
+          payment_id: string | null
+          created_by: string | null
+          confirmed_by: string | null
+          confirmed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          run_number: string
+          period_from: string
+          period_to: string
+          status?: string
+          employee_count?: number
+          expense_count?: number
+          total_amount?: number
+          payment_id?: string | null
+          created_by?: string | null
+          confirmed_by?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          run_number?: string
+          period_from?: string
+          period_to?: string
+          status?: string
+          employee_count?: number
+          expense_count?: number
+          total_amount?: number
+          payment_id?: string | null
+          created_by?: string | null
+          confirmed_by?: string | null
+          confirmed_at?: string | null
+          created_at?: string
+        }
+      }
+      reimbursement_run_items: {
+        Row: {
+          id: string
+          run_id: string
+          expense_id: string
+          user_id: string
+          amount: number
+          excluded: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          expense_id: string
+          user_id: string
+          amount: number
+          excluded?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          expense_id?: string
+          user_id?: string
+          amount?: number
+          excluded?: boolean
+          created_at?: string
+        }
+      }
+      expense_approval_steps: {
+        Row: {
+          id: string
+          expense_id: string
+          step_order: number
+          label: string
+          approver_roles: string[]
+          status: string
+          activated_at: string | null
+          approver_id: string | null
+          decided_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          expense_id: string
+          step_order: number
+          label: string
+          approver_roles: string[]
+          status?: string
+          activated_at?: string | null
+          approver_id?: string | null
+          decided_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          expense_id?: string
+          step_order?: number
+          label?: string
+          approver_roles?: string[]
+          status?: string
+          activated_at?: string | null
+          approver_id?: string | null
+          decided_at?: string | null
+          created_at?: string
+        }
+      }
+      expense_approval_events: {
+        Row: {
+          id: string
+          expense_id: string
+          event_type: string
+          actor_id: string | null
+          from_status: string | null
+          to_status: string | null
+          step_order: number | null
+          step_label: string | null
+          reason: string | null
+          bkk_number: string | null
+          bkk_status: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          expense_id: string
+          event_type: string
+          actor_id?: string | null
+          from_status?: string | null
+          to_status?: string | null
+          step_order?: number | null
+          step_label?: string | null
+          reason?: string | null
+          bkk_number?: string | null
+          bkk_status?: string | null
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      push_subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent: string | null
+          created_at: string
+          last_used_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent?: string | null
+          created_at?: string
+          last_used_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          endpoint?: string
+          p256dh?: string
+          auth?: string
+          user_agent?: string | null
+          created_at?: string
+          last_used_at?: string
+        }
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          reminders_enabled: boolean
+          quiet_hours_start: number | null
+          quiet_hours_end: number | null
+          timezone: string
+          last_reminder_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          reminders_enabled?: boolean
+          quiet_hours_start?: number | null
+          quiet_hours_end?: number | null
+          timezone?: string
+          last_reminder_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          reminders_enabled?: boolean
+          quiet_hours_start?: number | null
+          quiet_hours_end?: number | null
+          timezone?: string
+          last_reminder_at?: string | null
+          updated_at?: string
+        }
+      }
+      expense_filter_presets: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          query: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          query: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          query?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      confirm_reimbursement_run: {
+        Args: {
+          p_run_id: string
+          p_paid_date: string
+          p_reference_number: string | null
+        }
+        Returns: string
+      }
+      decide_expense_approvals: {
+        Args: {
+          p_expense_ids: string[]
+          p_decision: string
+          p_reason: string | null
+        }
+        Returns: {
+          expense_id: string
+          error_message: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -183,6 +785,17 @@ export type UpdateTables<T extends keyof Database['public']['Tables']> = Databas
 export type UserProfile = Tables<'user_profiles'>
 export type ExpenseDraft = Tables<'expense_drafts'>
 export type JobOrder = Tables<'job_orders'>
+export type CashAdvanceRow = Tables<'cash_advances'>
+export type ExpensePolicyRow = Tables<'expense_policies'>
+export type PerDiemRateRow = Tables<'per_diem_rates'>
+export type ExpenseCategoryRow = Tables<'expense_categories'>
+export type CostCenterRow = Tables<'cost_centers'>
+export type JournalBatchRow = Tables<'journal_batches'>
+export type ExpensePaymentRow = Tables<'expense_payments'>
+export type ReimbursementRunRow = Tables<'reimbursement_runs'>
+export type ReimbursementRunItemRow = Tables<'reimbursement_run_items'>
+export type ExpenseApprovalStepRow = Tables<'expense_approval_steps'>
+export type ExpenseApprovalEventRow = Tables<'expense_approval_events'>
 
 // User roles
 export type UserRole = 